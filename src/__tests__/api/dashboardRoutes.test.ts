@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { createApp } from '../../app';
 import { JwtService } from '../../services/auth/JwtService';
+import { BrokerClientController } from '../../controllers/BrokerClientController';
 import { UserRole } from '../../types';
 import { Express } from 'express';
 
@@ -199,15 +200,24 @@ describe('Dashboard Routes', () => {
         iat: Math.floor(Date.now() / 1000),
         exp: Math.floor(Date.now() / 1000) + 900,
       });
+      const dashboard = {
+        kpis: { activeClients: 2, pendingRequests: 1, activeMatches: 5, activeConversations: 3, openDeals: 1 },
+        clients: [],
+        matches: [],
+        conversations: [],
+        deals: [],
+      };
+      const getDashboard = jest
+        .spyOn(BrokerClientController.prototype, 'getDashboard')
+        .mockResolvedValue(dashboard as any);
 
       const response = await request(app)
         .get('/api/dashboard/broker')
         .set('Authorization', 'Bearer valid-token');
 
       expect(response.status).toBe(200);
-      expect(response.body.dashboard.role).toBe(UserRole.BROKER);
-      expect(response.body.dashboard.features).toContain('dual_mode_access');
-      expect(response.body.dashboard.redirectPath).toBe('/dashboard/broker');
+      expect(getDashboard).toHaveBeenCalledWith('user-789');
+      expect(response.body).toEqual({ success: true, data: dashboard });
     });
 
     it('should return 403 when tenant user tries to access broker dashboard', async () => {
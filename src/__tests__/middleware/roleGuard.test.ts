@@ -256,4 +256,42 @@ describe('RoleGuardMiddleware', () => {
       expect((mockRequest as any).user).toBeDefined();
     });
   });
+
+  describe('optionalAuthenticate', () => {
+    it('should attach the user when the token is valid', async () => {
+      mockJwtService.extractTokenFromHeader = jest.fn().mockReturnValue('valid-token');
+      mockJwtService.verifyAccessToken = jest.fn().mockReturnValue({
+        userId: 'user-123',
+        email: 'user@example.com',
+        role: UserRole.LANDLORD,
+        iat: Date.now(),
+        exp: Date.now() + 900000,
+      });
+
+      const middleware = roleGuard.optionalAuthenticate();
+      await middleware(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect((mockRequest as any).user).toEqual({
+        userId: 'user-123',
+        email: 'user@example.com',
+        role: UserRole.LANDLORD,
+      });
+    });
+
+    it('should let anonymous and invalid tokens through without a user', async () => {
+      mockJwtService.extractTokenFromHeader = jest.fn().mockReturnValue('expired-token');
+      mockJwtService.verifyAccessToken = jest.fn().mockReturnValue(null);
+
+      const middleware = roleGuard.optionalAuthenticate();
+      await middleware(mockRequest as Request, mockResponse as Response, mockNext);
+
+      mockJwtService.extractTokenFromHeader = jest.fn().mockReturnValue(null);
+      await middleware({ headers: {} } as Request, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledTimes(2);
+      expect(mockResponse.status).not.toHaveBeenCalled();
+      expect((mockRequest as any).user).toBeUndefined();
+    });
+  });
 });
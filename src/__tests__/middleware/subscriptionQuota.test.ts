@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { SubscriptionGuardMiddleware } from '../../middleware/SubscriptionGuardMiddleware';
+import { QuotaService, quotaService } from '../../services/QuotaService';
+import { subscriptionService } from '../../services/SubscriptionService';
+import { SubscriptionTier } from '../../types';
+
+jest.mock('../../services/SubscriptionService', () => ({
+  subscriptionService: {
+    getUserTier: jest.fn(),
+    getPlanByTier: jest.fn(),
+    getPlans: jest.fn(),
+  },
+}));
+
+/**
+ * Subscription Quota Tests
+ * Tests for plan limit enforcement on create routes
+ *
+ * Test Coverage:
+ * - Usage counting per limit type
+ * - Usage meters with remaining / unlimited handling
+ * - Over-limit creates rejected with a structured upgrade error
+ * - Unlimited plans and under-limit users pass through
+ */
+
+const mockedSubscriptionService = subscriptionService as jest.Mocked<typeof subscriptionService>;
+
+const plans = [
+  { tier: SubscriptionTier.STARTER, limits: { locations: 2, qfps: 3, team_members: 1 } },
+  { tier: SubscriptionTier.PRO, limits: { locations: 10, qfps: 10, team_members: 5 } },
+  { tier: SubscriptionTier.PREMIUM, limits: { locations: 50, qfps: 50, team_members: 20 } },
+  { tier: SubscriptionTier.ENTERPRISE, limits: { locations: -1, qfps: -1, team_members: -1 } },
+];
+
+const usePlan = (tier: SubscriptionTier) => {
+  mockedSubscriptionService.getUserTier.mockResolvedValue(tier);
+  mockedSubscriptionService.getPlanByTier.mockResolvedValue(
+    plans.find((plan) => plan.tier === tier) as any
+  );
+  mockedSubscriptionService.getPlans.mockResolvedValue(plans as any);
+};
+
+describe('QuotaService', () => {
+  let mockPool: { query: jest.Mock };
+  let service: QuotaService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPool = { query: jest.fn() };
+    service = new QuotaService(mockPool as any);
+  });
+
+  it('should count businesses, open QFPs and team seats for the user', async () => {
+    mockPool.query.mockResolvedValue({ rows: [{ count: '2' }] });
+
+    await service.countUsage('user-1', 'locations');
+    await service.countUsage('user-1', 'qfps');
+    await service.countUsage('user-1', 'team_members');
+
+    expect(mockPool.query.mock.calls[0][0]).toContain('FROM businesses');
+    expect(mockPool.query.mock.calls[1][0]).toContain("dl.status != 'closed'");
+    expect(mockPool.query.mock.calls[2][0]).toContain('FROM business_members');
+    mockPool.query.mock.calls.forEach((call) => expect(call[1]).toEqual(['user-1']));
+  });
+
+  it('should build usage meters against the plan limits', async () => {
+    usePlan(SubscriptionTier.STARTER);
+    mockPool.query
+      .mockResolvedValueOnce({ rows: [{ count: '2' }] })
+      .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+      .mockResolvedValueOnce({ rows: [{ count: '1' }] });
+
+    const usage = await service.getUsage('user-1');
+
+    expect(usage.tier).toBe(SubscriptionTier.STARTER);
+    expect(usage.usage.locations).toEqual({ used: 2, limit: 2, remaining: 0 });
+    expect(usage.usage.qfps).toEqual({ used: 1, limit: 3, remaining: 2 });
+  });
+
+  it('should report unlimited meters with null remaining', async () => {
+    usePlan(SubscriptionTier.ENTERPRISE);
+    mockPool.query.mockResolvedValue({ rows: [{ count: '75' }] });
+
+    const usage = await service.getUsage('user-1');
+
+    expect(usage.usage.locations).toEqual({ used: 75, limit: -1, remaining: null });
+  });
+
+  it('should suggest the lowest tier that lifts the limit', async () => {
+    usePlan(SubscriptionTier.STARTER);
+
+    expect(await service.getUpgradeTier(SubscriptionTier.STARTER, 'locations', 2)).toBe(
+      SubscriptionTier.PRO
+    );
+    expect(await service.getUpgradeTier(SubscriptionTier.STARTER, 'locations', 30)).toBe(
+      SubscriptionTier.PREMIUM
+    );
+    expect(await service.getUpgradeTier(SubscriptionTier.ENTERPRISE, 'locations', 30)).toBeNull();
+  });
+});
+
+describe('SubscriptionGuardMiddleware.enforceQuota', () => {
+  let guard: SubscriptionGuardMiddleware;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.Mock;
+  let countSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    guard = new SubscriptionGuardMiddleware();
+    mockRequest = { user: { userId: 'user-1', email: 'tenant@example.com', role: 'tenant' } } as any;
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    mockNext = jest.fn();
+    countSpy = jest.spyOn(quotaService, 'countUsage');
+  });
+
+  afterEach(() => {
+    countSpy.mockRestore();
+  });
+
+  it('should allow creates while under the limit', async () => {
+    usePlan(SubscriptionTier.STARTER);
+    countSpy.mockResolvedValue(1);
+
+    await guard.enforceQuota('locations')(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(mockResponse.status).not.toHaveBeenCalled();
+  });
+
+  it('should reject over-limit creates with a structured upgrade error', async () => {
+    usePlan(SubscriptionTier.STARTER);
+    countSpy.mockResolvedValue(3);
+
+    await guard.enforceQuota('qfps')(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      success: false,
+      error: 'You have reached your qfps limit',
+      details: {
+        code: 'LIMIT_REACHED',
+        limitType: 'qfps',
+        currentTier: SubscriptionTier.STARTER,
+        limit: 3,
+        currentCount: 3,
+        upgradeTier: SubscriptionTier.PRO,
+        upgradeUrl: '/settings?tab=subscription',
+      },
+    });
+  });
+
+  it("should count team members' creates against the business owner's plan", async () => {
+    usePlan(SubscriptionTier.STARTER);
+    countSpy.mockResolvedValue(0);
+    const resolveOwner = jest.fn().mockResolvedValue('owner-1');
+
+    await guard.enforceQuota('qfps', resolveOwner)(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockedSubscriptionService.getUserTier).toHaveBeenCalledWith('owner-1');
+    expect(countSpy).toHaveBeenCalledWith('owner-1', 'qfps');
+    expect(mockNext).toHaveBeenCalled();
+  });
+
+  it('should skip counting on unlimited plans', async () => {
+    usePlan(SubscriptionTier.ENTERPRISE);
+
+    await guard.enforceQuota('locations')(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(countSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when no user is attached', async () => {
+    mockRequest = {};
+
+    await guard.enforceQuota('locations')(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+});
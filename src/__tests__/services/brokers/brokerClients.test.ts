@@ -0,0 +1,290 @@
+import { BrokerClientController } from '../../../controllers/BrokerClientController';
+import { notificationService } from '../../../services/NotificationService';
+import {
+  BrokerClientStatus,
+  BrokerClientType,
+  PropertyListingStatus,
+  UserRole,
+} from '../../../types';
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: {
+    sendBrokerRequestNotification: jest.fn().mockResolvedValue(undefined),
+    sendBrokerConsentNotification: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('../../../services/SavedSearchService', () => ({
+  savedSearchService: { notifyMatchingSearches: jest.fn().mockResolvedValue(undefined) },
+}));
+
+/**
+ * Broker Client Tests
+ * Tests for broker representation consent and on-behalf actions
+ *
+ * Test Coverage:
+ * - Requests: client lookup, landlord role check, duplicate open requests
+ * - Consent: only the business owner or the landlord can answer, once
+ * - On-behalf actions run as the client and are written to the audit trail
+ * - Brokers without active consent are rejected
+ * - The client's plan quotas apply only once the client has consented
+ * - Either side can revoke; the broker is notified when the client does
+ */
+
+const business = {
+  id: 'business-1',
+  user_id: 'owner-1',
+  name: 'Acme Coffee',
+};
+
+const buildBrokerClient = (overrides: Record<string, any> = {}) => ({
+  id: 'bc-1',
+  broker_user_id: 'broker-1',
+  client_type: BrokerClientType.TENANT,
+  business_id: 'business-1',
+  client_user_id: null,
+  status: BrokerClientStatus.PENDING,
+  message: null,
+  responded_at: null,
+  revoked_at: null,
+  revoked_by_user_id: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+const landlordClient = (overrides: Record<string, any> = {}) =>
+  buildBrokerClient({
+    client_type: BrokerClientType.LANDLORD,
+    business_id: null,
+    client_user_id: 'landlord-1',
+    status: BrokerClientStatus.ACTIVE,
+    ...overrides,
+  });
+
+describe('Broker clients', () => {
+  let brokerClientModel: Record<string, jest.Mock>;
+  let userModel: Record<string, jest.Mock>;
+  let businessModel: Record<string, jest.Mock>;
+  let businessMemberModel: Record<string, jest.Mock>;
+  let demandListingModel: Record<string, jest.Mock>;
+  let propertyListingModel: Record<string, jest.Mock>;
+  let controller: BrokerClientController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    brokerClientModel = {
+      create: jest.fn().mockImplementation(async (data) => buildBrokerClient(data)),
+      findById: jest.fn(),
+      findByIdWithDetails: jest.fn().mockImplementation(async (id: string) => ({
+        ...buildBrokerClient({ id }),
+        client_name: 'Acme Coffee',
+        client_email: 'owner@example.com',
+        broker_name: 'Bea Broker',
+        broker_email: 'bea@example.com',
+      })),
+      findOpen: jest.fn().mockResolvedValue(null),
+      updateStatus: jest.fn().mockResolvedValue(undefined),
+      recordAction: jest.fn().mockResolvedValue(undefined),
+      getAuditLog: jest.fn().mockResolvedValue([]),
+    };
+    userModel = { findByEmail: jest.fn() };
+    businessModel = { findById: jest.fn().mockResolvedValue(business) };
+    businessMemberModel = { findByBusinessAndUser: jest.fn().mockResolvedValue(null) };
+    demandListingModel = { findById: jest.fn(), findByBusinessId: jest.fn() };
+    propertyListingModel = { findById: jest.fn(), findByUserId: jest.fn(), updateStatus: jest.fn() };
+
+    controller = new BrokerClientController(
+      brokerClientModel as any,
+      userModel as any,
+      businessModel as any,
+      businessMemberModel as any,
+      demandListingModel as any,
+      propertyListingModel as any
+    );
+  });
+
+  describe('requestRepresentation', () => {
+    it('should create a pending request for a business and notify its owner', async () => {
+      await controller.requestRepresentation('broker-1', {
+        client_type: BrokerClientType.TENANT,
+        business_id: 'business-1',
+        message: 'Happy to help with your search',
+      });
+
+      expect(brokerClientModel.create).toHaveBeenCalledWith({
+        broker_user_id: 'broker-1',
+        client_type: BrokerClientType.TENANT,
+        business_id: 'business-1',
+        message: 'Happy to help with your search',
+      });
+      expect(brokerClientModel.recordAction).toHaveBeenCalledWith(
+        expect.objectContaining({ actor_user_id: 'broker-1', action: 'representation_requested' })
+      );
+      expect(notificationService.sendBrokerRequestNotification).toHaveBeenCalledWith(
+        'owner-1',
+        'broker-1',
+        'Acme Coffee',
+        'bc-1'
+      );
+    });
+
+    it('should look landlords up by email and require the landlord role', async () => {
+      userModel.findByEmail.mockResolvedValue({ id: 'user-2', role: UserRole.TENANT });
+
+      await expect(
+        controller.requestRepresentation('broker-1', {
+          client_type: BrokerClientType.LANDLORD,
+          client_email: 'Tenant@Example.com',
+        })
+      ).rejects.toThrow('Only landlord accounts');
+      expect(userModel.findByEmail).toHaveBeenCalledWith('tenant@example.com');
+    });
+
+    it('should reject a second open request for the same client', async () => {
+      brokerClientModel.findOpen.mockResolvedValue(buildBrokerClient());
+
+      await expect(
+        controller.requestRepresentation('broker-1', {
+          client_type: BrokerClientType.TENANT,
+          business_id: 'business-1',
+        })
+      ).rejects.toThrow('already represent or have asked to represent');
+      expect(brokerClientModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown client type', async () => {
+      await expect(
+        controller.requestRepresentation('broker-1', { client_type: 'agent' })
+      ).rejects.toThrow('Invalid client_type');
+    });
+  });
+
+  describe('respondToRequest', () => {
+    it('should let the business owner grant consent', async () => {
+      brokerClientModel.findById.mockResolvedValue(buildBrokerClient());
+
+      await controller.respondToRequest('bc-1', 'owner-1', true);
+
+      expect(brokerClientModel.updateStatus).toHaveBeenCalledWith('bc-1', BrokerClientStatus.ACTIVE, 'owner-1');
+      expect(brokerClientModel.recordAction).toHaveBeenCalledWith(
+        expect.objectContaining({ actor_user_id: 'owner-1', action: 'consent_granted' })
+      );
+      expect(notificationService.sendBrokerConsentNotification).toHaveBeenCalledWith(
+        'broker-1',
+        'Acme Coffee',
+        BrokerClientStatus.ACTIVE,
+        'bc-1'
+      );
+    });
+
+    it('should not let business admins answer for the owner', async () => {
+      brokerClientModel.findById.mockResolvedValue(buildBrokerClient());
+      businessMemberModel.findByBusinessAndUser.mockResolvedValue({ role: 'admin' });
+
+      await expect(controller.respondToRequest('bc-1', 'admin-1', true)).rejects.toThrow('Unauthorized');
+      expect(brokerClientModel.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should only answer pending requests', async () => {
+      brokerClientModel.findById.mockResolvedValue(buildBrokerClient({ status: BrokerClientStatus.DECLINED }));
+
+      await expect(controller.respondToRequest('bc-1', 'owner-1', true)).rejects.toThrow('already been answered');
+    });
+  });
+
+  describe('on-behalf actions', () => {
+    const listing = { id: 'listing-1', user_id: 'landlord-1', status: PropertyListingStatus.ACTIVE };
+
+    it('should change a landlord client listing status as the landlord and audit it', async () => {
+      brokerClientModel.findById.mockResolvedValue(landlordClient());
+      propertyListingModel.findById.mockResolvedValue(listing);
+      propertyListingModel.updateStatus.mockResolvedValue({ ...listing, status: PropertyListingStatus.LEASED });
+
+      const updated = await controller.updatePropertyListingStatus(
+        'bc-1',
+        'broker-1',
+        'listing-1',
+        PropertyListingStatus.LEASED
+      );
+
+      expect(updated.status).toBe(PropertyListingStatus.LEASED);
+      expect(propertyListingModel.updateStatus).toHaveBeenCalledWith('listing-1', PropertyListingStatus.LEASED);
+      expect(brokerClientModel.recordAction).toHaveBeenCalledWith({
+        broker_client_id: 'bc-1',
+        actor_user_id: 'broker-1',
+        action: 'property_listing_status_changed',
+        resource_type: 'property_listing',
+        resource_id: 'listing-1',
+        details: { from: PropertyListingStatus.ACTIVE, to: PropertyListingStatus.LEASED },
+      });
+    });
+
+    it('should reject listings that belong to someone else', async () => {
+      brokerClientModel.findById.mockResolvedValue(landlordClient());
+      propertyListingModel.findById.mockResolvedValue({ ...listing, user_id: 'landlord-2' });
+
+      await expect(
+        controller.updatePropertyListingStatus('bc-1', 'broker-1', 'listing-1', PropertyListingStatus.LEASED)
+      ).rejects.toThrow('Property listing not found');
+      expect(propertyListingModel.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject brokers the client has not granted access', async () => {
+      brokerClientModel.findById.mockResolvedValue(landlordClient({ status: BrokerClientStatus.PENDING }));
+
+      await expect(controller.listClientListings('bc-1', 'broker-1')).rejects.toThrow(
+        'Unauthorized: The client has not granted you access'
+      );
+    });
+
+    it('should reject other brokers', async () => {
+      brokerClientModel.findById.mockResolvedValue(landlordClient());
+
+      await expect(controller.listClientListings('bc-1', 'broker-2')).rejects.toThrow(
+        'Unauthorized: You do not represent this client'
+      );
+    });
+
+    it("should only resolve the client's quota account for their consented broker", async () => {
+      brokerClientModel.findById.mockResolvedValue(buildBrokerClient({ status: BrokerClientStatus.ACTIVE }));
+      expect(await controller.getClientAccountUserId('bc-1', 'broker-1')).toBe('owner-1');
+      expect(await controller.getClientAccountUserId('bc-1', 'broker-2')).toBeNull();
+
+      brokerClientModel.findById.mockResolvedValue(buildBrokerClient());
+      expect(await controller.getClientAccountUserId('bc-1', 'broker-1')).toBeNull();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should let the client revoke and notify the broker', async () => {
+      brokerClientModel.findById.mockResolvedValue(landlordClient());
+
+      await controller.revoke('bc-1', 'landlord-1');
+
+      expect(brokerClientModel.updateStatus).toHaveBeenCalledWith('bc-1', BrokerClientStatus.REVOKED, 'landlord-1');
+      expect(brokerClientModel.recordAction).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'consent_revoked', details: { revoked_by: 'client' } })
+      );
+      expect(notificationService.sendBrokerConsentNotification).toHaveBeenCalled();
+    });
+
+    it('should let the broker withdraw without notifying', async () => {
+      brokerClientModel.findById.mockResolvedValue(landlordClient());
+
+      await controller.revoke('bc-1', 'broker-1');
+
+      expect(brokerClientModel.recordAction).toHaveBeenCalledWith(
+        expect.objectContaining({ details: { revoked_by: 'broker' } })
+      );
+      expect(notificationService.sendBrokerConsentNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not let unrelated users revoke', async () => {
+      brokerClientModel.findById.mockResolvedValue(landlordClient());
+
+      await expect(controller.revoke('bc-1', 'someone-else')).rejects.toThrow('Unauthorized');
+    });
+  });
+});
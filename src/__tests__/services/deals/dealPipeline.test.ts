@@ -0,0 +1,243 @@
+import { DealController } from '../../../controllers/DealController';
+import { DealModel } from '../../../database/models/Deal';
+import { BusinessMemberRole, DealStage } from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn(), connect: jest.fn() },
+}));
+
+/**
+ * Deal Pipeline Tests
+ * Tests for tracking tenant–property deals through pipeline stages
+ *
+ * Test Coverage:
+ * - Deals can be seeded from a property match
+ * - Only the property owner or a tenant business admin can track a deal
+ * - Signing only closes the listings the signing user manages
+ * - Duplicate deals on the same board are rejected
+ * - Moves validate the stage and clamp the position to the column
+ * - Signed deals are locked
+ * - Moving to Signed leases the property and closes the demand listing atomically
+ */
+
+const deal = (overrides: Record<string, any> = {}) => ({
+  id: 'deal-1',
+  user_id: 'landlord-1',
+  demand_listing_id: 'demand-1',
+  property_listing_id: 'property-1',
+  property_match_id: null,
+  stage: DealStage.PROSPECT,
+  position: 0,
+  notes: null,
+  expected_close_date: null,
+  ...overrides,
+});
+
+describe('Deal pipeline', () => {
+  let dealModel: Record<string, jest.Mock>;
+  let demandListingModel: { findById: jest.Mock };
+  let propertyListingModel: { findById: jest.Mock };
+  let businessModel: { findById: jest.Mock };
+  let businessMemberModel: { findByBusinessAndUser: jest.Mock };
+  let matchingService: { getMatchById: jest.Mock };
+  let controller: DealController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dealModel = {
+      create: jest.fn().mockImplementation(async (data) => ({ id: 'deal-new', ...data })),
+      findById: jest.fn().mockResolvedValue(deal()),
+      findByListings: jest.fn().mockResolvedValue(null),
+      countByStage: jest.fn().mockResolvedValue(2),
+      moveToStage: jest.fn().mockImplementation(async (id, data) => deal({ id, ...data })),
+    };
+    demandListingModel = {
+      findById: jest.fn().mockResolvedValue({ id: 'demand-1', business_id: 'business-1' }),
+    };
+    propertyListingModel = {
+      findById: jest.fn().mockResolvedValue({ id: 'property-1', user_id: 'landlord-1' }),
+    };
+    businessModel = {
+      findById: jest.fn().mockResolvedValue({ id: 'business-1', user_id: 'tenant-1' }),
+    };
+    businessMemberModel = { findByBusinessAndUser: jest.fn().mockResolvedValue(null) };
+    matchingService = { getMatchById: jest.fn() };
+
+    controller = new DealController(
+      dealModel as any,
+      demandListingModel as any,
+      propertyListingModel as any,
+      businessModel as any,
+      businessMemberModel as any,
+      matchingService as any
+    );
+  });
+
+  describe('createDeal', () => {
+    it('should seed the listing pair from a property match', async () => {
+      matchingService.getMatchById.mockResolvedValue({
+        id: 'match-1',
+        demand_listing_id: 'demand-1',
+        property_listing_id: 'property-1',
+      });
+
+      await controller.createDeal('tenant-1', { property_match_id: 'match-1', notes: ' Call broker ' });
+
+      expect(dealModel.create).toHaveBeenCalledWith({
+        user_id: 'tenant-1',
+        demand_listing_id: 'demand-1',
+        property_listing_id: 'property-1',
+        property_match_id: 'match-1',
+        notes: 'Call broker',
+        expected_close_date: null,
+      });
+    });
+
+    it('should let tenant business admins track a deal', async () => {
+      businessMemberModel.findByBusinessAndUser.mockResolvedValue({ role: BusinessMemberRole.ADMIN });
+
+      await expect(
+        controller.createDeal('admin-1', { demand_listing_id: 'demand-1', property_listing_id: 'property-1' })
+      ).resolves.toEqual(expect.objectContaining({ user_id: 'admin-1' }));
+    });
+
+    it('should reject users who manage neither side of the deal', async () => {
+      businessMemberModel.findByBusinessAndUser.mockResolvedValue({ role: BusinessMemberRole.VIEWER });
+
+      await expect(
+        controller.createDeal('viewer-1', { demand_listing_id: 'demand-1', property_listing_id: 'property-1' })
+      ).rejects.toThrow('Unauthorized');
+      expect(dealModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a match between users the caller has nothing to do with', async () => {
+      matchingService.getMatchById.mockResolvedValue({
+        id: 'match-1',
+        demand_listing_id: 'demand-1',
+        property_listing_id: 'property-1',
+      });
+
+      await expect(controller.createDeal('stranger-1', { property_match_id: 'match-1' })).rejects.toThrow(
+        'Unauthorized'
+      );
+      expect(dealModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a deal that is already on the board', async () => {
+      dealModel.findByListings.mockResolvedValue(deal());
+
+      await expect(
+        controller.createDeal('landlord-1', { demand_listing_id: 'demand-1', property_listing_id: 'property-1' })
+      ).rejects.toThrow('already on your pipeline');
+    });
+
+    it('should validate the expected close date', async () => {
+      await expect(
+        controller.createDeal('landlord-1', {
+          demand_listing_id: 'demand-1',
+          property_listing_id: 'property-1',
+          expected_close_date: 'next month',
+        })
+      ).rejects.toThrow('Invalid expected_close_date');
+    });
+  });
+
+  describe('moveDeal', () => {
+    it('should clamp the position to the end of the target column', async () => {
+      await controller.moveDeal('deal-1', 'landlord-1', { stage: DealStage.LOI, position: 10 });
+
+      expect(dealModel.moveToStage).toHaveBeenCalledWith('deal-1', {
+        stage: DealStage.LOI,
+        position: 2,
+        changed_by_user_id: 'landlord-1',
+        note: null,
+      });
+    });
+
+    it('should reject unknown stages and other users', async () => {
+      await expect(controller.moveDeal('deal-1', 'landlord-1', { stage: 'won' })).rejects.toThrow(
+        'Invalid stage'
+      );
+      await expect(
+        controller.moveDeal('deal-1', 'someone-else', { stage: DealStage.LOI })
+      ).rejects.toThrow('Unauthorized');
+    });
+
+    it("should not close the other party's listing when signing", async () => {
+      await controller.moveDeal('deal-1', 'landlord-1', { stage: DealStage.SIGNED });
+
+      expect(dealModel.moveToStage).toHaveBeenCalledWith(
+        'deal-1',
+        expect.objectContaining({ close_listings: { property: true, demand: false } })
+      );
+    });
+
+    it('should close both listings when the user manages both sides', async () => {
+      businessModel.findById.mockResolvedValue({ id: 'business-1', user_id: 'landlord-1' });
+
+      await controller.moveDeal('deal-1', 'landlord-1', { stage: DealStage.SIGNED });
+
+      expect(dealModel.moveToStage).toHaveBeenCalledWith(
+        'deal-1',
+        expect.objectContaining({ close_listings: { property: true, demand: true } })
+      );
+    });
+
+    it('should not move signed deals', async () => {
+      dealModel.findById.mockResolvedValue(deal({ stage: DealStage.SIGNED }));
+
+      await expect(
+        controller.moveDeal('deal-1', 'landlord-1', { stage: DealStage.LEASE_NEGOTIATION })
+      ).rejects.toThrow('Signed deals cannot be moved');
+    });
+  });
+
+  describe('DealModel.moveToStage', () => {
+    const createClient = () => ({
+      query: jest.fn().mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE')) {
+          return { rows: [deal({ stage: DealStage.LEASE_NEGOTIATION })] };
+        }
+        return { rows: [deal({ stage: DealStage.SIGNED })] };
+      }),
+      release: jest.fn(),
+    });
+
+    it('should lease the property and close the demand listing in the same transaction', async () => {
+      const client = createClient();
+      const model = new DealModel({ connect: jest.fn().mockResolvedValue(client) } as any);
+
+      await model.moveToStage('deal-1', {
+        stage: DealStage.SIGNED,
+        position: 0,
+        changed_by_user_id: 'landlord-1',
+        close_listings: { property: true, demand: true },
+      });
+
+      const statements = client.query.mock.calls.map(([sql]) => sql as string);
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements).toContainEqual(expect.stringContaining('INSERT INTO deal_stage_history'));
+      expect(statements).toContainEqual(expect.stringContaining("UPDATE property_listings SET status = 'leased'"));
+      expect(statements).toContainEqual(expect.stringContaining("UPDATE demand_listings SET status = 'closed'"));
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should only close the listings it is allowed to', async () => {
+      const client = createClient();
+      const model = new DealModel({ connect: jest.fn().mockResolvedValue(client) } as any);
+
+      await model.moveToStage('deal-1', {
+        stage: DealStage.SIGNED,
+        position: 0,
+        changed_by_user_id: 'landlord-1',
+        close_listings: { property: true, demand: false },
+      });
+
+      const statements = client.query.mock.calls.map(([sql]) => sql as string);
+      expect(statements).toContainEqual(expect.stringContaining("UPDATE property_listings SET status = 'leased'"));
+      expect(statements).not.toContainEqual(expect.stringContaining('UPDATE demand_listings'));
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { PropertyListingController } from '../../../controllers/PropertyListingController';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: {},
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Favorites and Shares Tests
+ * Tests for per-user saved listings and tracked share links
+ *
+ * Test Coverage:
+ * - Saving toggles, and the favorites metric counts each user at most once
+ * - Owners can't save their own listings
+ * - Share links are reused per user and channel; only new links count as shares
+ * - Opening a link is counted against it; unknown links are not found
+ * - Only the owner sees share activity and how many people saved the listing
+ */
+
+const LISTING_ID = '11111111-1111-4111-8111-111111111111';
+const OWNER_ID = 'owner-1';
+const TENANT_ID = 'tenant-1';
+const TOKEN = 'a1b2c3d4e5f6a1b2c3d4e5f6';
+
+describe('Favorites and Shares', () => {
+  let propertyListingModel: Record<string, jest.Mock>;
+  let metricsModel: Record<string, jest.Mock>;
+  let favoriteModel: Record<string, jest.Mock>;
+  let shareModel: Record<string, jest.Mock>;
+  let controller: PropertyListingController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    propertyListingModel = {
+      findById: jest.fn().mockResolvedValue({ id: LISTING_ID, user_id: OWNER_ID }),
+      countByUserId: jest.fn().mockResolvedValue(2),
+      countActiveByUserId: jest.fn().mockResolvedValue(1),
+    };
+    metricsModel = {
+      incrementMetric: jest.fn().mockResolvedValue(undefined),
+      decrementMetric: jest.fn().mockResolvedValue(undefined),
+      getAggregatedMetricsByUserId: jest.fn().mockResolvedValue({ total_views: 10, total_favorites: 4 }),
+    };
+    favoriteModel = {
+      add: jest.fn().mockResolvedValue(true),
+      remove: jest.fn().mockResolvedValue(null),
+      countByListingId: jest.fn().mockResolvedValue(3),
+      countUniqueByOwnerId: jest.fn().mockResolvedValue(5),
+    };
+    shareModel = {
+      findOrCreate: jest.fn().mockImplementation(async (data) => ({
+        share: { id: 'share-1', ...data, token: TOKEN },
+        created: true,
+      })),
+      recordOpen: jest.fn().mockResolvedValue({ property_listing_id: LISTING_ID }),
+      findByListingId: jest.fn().mockResolvedValue([{ id: 'share-1', open_count: 7 }]),
+    };
+    controller = new PropertyListingController(
+      propertyListingModel as any,
+      metricsModel as any,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      favoriteModel as any,
+      shareModel as any
+    );
+  });
+
+  describe('toggleFavorite', () => {
+    it('should save, then unsave taking the favorite off the day it was saved', async () => {
+      await expect(controller.toggleFavorite(LISTING_ID, TENANT_ID)).resolves.toEqual({
+        favorited: true,
+        favorites_count: 3,
+      });
+      expect(favoriteModel.add).toHaveBeenCalledWith(TENANT_ID, LISTING_ID);
+      expect(metricsModel.incrementMetric).toHaveBeenCalledWith(LISTING_ID, 'favorites');
+
+      const savedAt = new Date('2026-06-01T15:00:00Z');
+      favoriteModel.remove.mockResolvedValue(savedAt);
+      const result = await controller.toggleFavorite(LISTING_ID, TENANT_ID);
+
+      expect(result.favorited).toBe(false);
+      expect(metricsModel.decrementMetric).toHaveBeenCalledWith(LISTING_ID, 'favorites', savedAt);
+      expect(metricsModel.incrementMetric).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not count a save that was already recorded', async () => {
+      favoriteModel.add.mockResolvedValue(false);
+
+      await controller.toggleFavorite(LISTING_ID, TENANT_ID);
+
+      expect(metricsModel.incrementMetric).not.toHaveBeenCalled();
+    });
+
+    it('should not let owners save their own listing', async () => {
+      await expect(controller.toggleFavorite(LISTING_ID, OWNER_ID)).rejects.toThrow('cannot save your own listing');
+      await expect(controller.toggleFavorite('not-a-uuid', TENANT_ID)).rejects.toThrow('Property listing not found');
+      expect(favoriteModel.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('share links', () => {
+    it('should count only newly created links as shares', async () => {
+      const { url, share } = await controller.createShareLink(LISTING_ID, TENANT_ID, undefined);
+
+      expect(shareModel.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ property_listing_id: LISTING_ID, user_id: TENANT_ID, channel: 'link' })
+      );
+      expect(share.token).toBe(TOKEN);
+      expect(url).toMatch(new RegExp(`/shared/${TOKEN}$`));
+      expect(metricsModel.incrementMetric).toHaveBeenCalledWith(LISTING_ID, 'shares');
+
+      metricsModel.incrementMetric.mockClear();
+      shareModel.findOrCreate.mockResolvedValue({ share: { token: TOKEN }, created: false });
+      await controller.createShareLink(LISTING_ID, TENANT_ID, 'email');
+      expect(metricsModel.incrementMetric).not.toHaveBeenCalled();
+
+      await expect(controller.createShareLink(LISTING_ID, TENANT_ID, 'fax')).rejects.toThrow('Invalid channel');
+    });
+
+    it('should count opens and reject unknown links', async () => {
+      await expect(controller.openShareLink(TOKEN)).resolves.toEqual({ property_listing_id: LISTING_ID });
+      expect(shareModel.recordOpen).toHaveBeenCalledWith(TOKEN);
+
+      shareModel.recordOpen.mockResolvedValue(null);
+      await expect(controller.openShareLink(TOKEN)).rejects.toThrow('Share link not found');
+      await expect(controller.openShareLink('../../etc')).rejects.toThrow('Share link not found');
+    });
+
+    it('should show share activity and saves to the owner only', async () => {
+      await expect(controller.getShareStats(LISTING_ID, TENANT_ID)).rejects.toThrow('Unauthorized');
+
+      await expect(controller.getShareStats(LISTING_ID, OWNER_ID)).resolves.toEqual({
+        shares: [{ id: 'share-1', open_count: 7 }],
+        unique_favorites: 3,
+      });
+
+      const stats = await controller.getDashboardStats(OWNER_ID);
+      expect(stats.metrics.unique_favorites).toBe(5);
+      expect(favoriteModel.countUniqueByOwnerId).toHaveBeenCalledWith(OWNER_ID);
+    });
+  });
+});
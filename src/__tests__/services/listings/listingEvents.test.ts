@@ -0,0 +1,233 @@
+import { PropertyListingController } from '../../../controllers/PropertyListingController';
+import { ListingEventModel } from '../../../database/models/ListingEvent';
+import { TrafficClassifier } from '../../../services/analytics/TrafficClassifier';
+import { rollupListingEvents } from '../../../jobs/listingEventRollupJob';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: {},
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Listing Events Tests
+ * Tests for deduplicated, bot-filtered listing view and click tracking
+ *
+ * Test Coverage:
+ * - Bots are recognised by user agent; requests without one are bots
+ * - Traffic sources from the referrer, with the app's share link and internal hints winning
+ * - Events are validated; bots and owners are not recorded; signed-in viewers are attributed
+ * - Dedupe is by account when signed in, otherwise by session, within the window
+ * - Rollup marks and counts events in one statement and works through a backlog in batches
+ * - Traffic analytics are limited to the owner's listings and a sane period
+ */
+
+const LISTING_ID = '11111111-1111-4111-8111-111111111111';
+const OWNER_ID = 'owner-1';
+const SESSION_ID = 'a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d6';
+const CHROME_UA =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+
+describe('Listing Events', () => {
+  describe('TrafficClassifier', () => {
+    const classifier = new TrafficClassifier('https://app.tenantlist.com');
+
+    it('should recognise bots and scripts', () => {
+      expect(classifier.isBot(CHROME_UA)).toBe(false);
+      expect(classifier.isBot('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe(true);
+      expect(classifier.isBot('facebookexternalhit/1.1')).toBe(true);
+      expect(classifier.isBot('Mozilla/5.0 HeadlessChrome/120.0')).toBe(true);
+      expect(classifier.isBot('curl/8.4.0')).toBe(true);
+      expect(classifier.isBot(undefined)).toBe(true);
+      expect(classifier.isBot('  ')).toBe(true);
+    });
+
+    it('should classify referrers, letting the app say when it knows better', () => {
+      const cases: [string | null, string | null, string][] = [
+        [null, null, 'direct'],
+        ['not a url', null, 'direct'],
+        ['https://app.tenantlist.com/search', null, 'internal'],
+        ['https://www.google.co.uk/', null, 'search_engine'],
+        ['https://duckduckgo.com/', null, 'search_engine'],
+        ['https://mail.google.com/mail/u/0', null, 'email'],
+        ['https://www.linkedin.com/feed', null, 'social'],
+        ['https://t.co/abc', null, 'social'],
+        ['https://notgoogle.example.com/', null, 'referral'],
+        ['https://www.google.com/', 'share_link', 'share_link'],
+        [null, 'internal', 'internal'],
+        ['https://www.google.com/', 'made_up', 'search_engine'],
+      ];
+
+      for (const [referrer, via, source] of cases) {
+        expect(classifier.classifySource(referrer, via)).toBe(source);
+      }
+    });
+  });
+
+  describe('PropertyListingController.recordEvent', () => {
+    let propertyListingModel: Record<string, jest.Mock>;
+    let eventModel: Record<string, jest.Mock>;
+    let controller: PropertyListingController;
+
+    beforeEach(() => {
+      propertyListingModel = {
+        findById: jest.fn().mockResolvedValue({ id: LISTING_ID, user_id: OWNER_ID }),
+      };
+      eventModel = {
+        record: jest.fn().mockImplementation(async (data) => ({ id: 'event-1', ...data })),
+        getTrafficAnalytics: jest.fn().mockResolvedValue({ days: 30 }),
+      };
+      controller = new PropertyListingController(
+        propertyListingModel as any,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        eventModel as any
+      );
+    });
+
+    it('should reject malformed events', async () => {
+      const invalid = [
+        [{ type: 'hover', session_id: SESSION_ID }, 'Invalid type'],
+        [{ type: 'view' }, 'Invalid session_id'],
+        [{ type: 'view', session_id: 'short' }, 'Invalid session_id'],
+        [{ type: 'click', session_id: SESSION_ID }, 'Invalid target'],
+        [{ type: 'click', session_id: SESSION_ID, target: 'Phone Number!' }, 'Invalid target'],
+      ] as const;
+
+      for (const [data, message] of invalid) {
+        await expect(controller.recordEvent(LISTING_ID, data, { userAgent: CHROME_UA })).rejects.toThrow(message);
+      }
+      await expect(
+        controller.recordEvent('not-a-uuid', { type: 'view', session_id: SESSION_ID }, { userAgent: CHROME_UA })
+      ).rejects.toThrow('Property listing not found');
+      expect(eventModel.record).not.toHaveBeenCalled();
+    });
+
+    it('should ignore bots and the owner', async () => {
+      const view = { type: 'view', session_id: SESSION_ID };
+
+      await expect(controller.recordEvent(LISTING_ID, view, { userAgent: 'Googlebot/2.1' })).resolves.toEqual({
+        recorded: false,
+      });
+      await expect(
+        controller.recordEvent(LISTING_ID, view, {
+          userAgent: CHROME_UA,
+          viewer: { userId: OWNER_ID, role: 'landlord' },
+        })
+      ).resolves.toEqual({ recorded: false });
+
+      expect(propertyListingModel.findById).toHaveBeenCalledTimes(1);
+      expect(eventModel.record).not.toHaveBeenCalled();
+    });
+
+    it('should record signed-in viewers with their role and the traffic source', async () => {
+      const result = await controller.recordEvent(
+        LISTING_ID,
+        { type: 'view', session_id: SESSION_ID, referrer: 'https://www.google.com/', target: 'ignored' },
+        { userAgent: CHROME_UA, viewer: { userId: 'tenant-1', role: 'tenant' } }
+      );
+
+      expect(result).toEqual({ recorded: true });
+      expect(eventModel.record).toHaveBeenCalledWith({
+        property_listing_id: LISTING_ID,
+        event_type: 'view',
+        target: null,
+        session_id: SESSION_ID,
+        viewer_user_id: 'tenant-1',
+        viewer_role: 'tenant',
+        referrer: 'https://www.google.com/',
+        source: 'search_engine',
+      });
+    });
+
+    it('should report duplicates as not recorded', async () => {
+      eventModel.record.mockResolvedValue(null);
+
+      await expect(
+        controller.recordEvent(
+          LISTING_ID,
+          { type: 'click', session_id: SESSION_ID, target: 'phone', via: 'share_link' },
+          { userAgent: CHROME_UA }
+        )
+      ).resolves.toEqual({ recorded: false });
+      expect(eventModel.record).toHaveBeenCalledWith(
+        expect.objectContaining({ target: 'phone', viewer_user_id: null, source: 'share_link' })
+      );
+    });
+
+    it('should only show traffic for the owner over a sane period', async () => {
+      await expect(controller.getTrafficAnalytics(OWNER_ID, { days: '0' })).rejects.toThrow('Invalid days');
+      await expect(controller.getTrafficAnalytics(OWNER_ID, { days: '1.5' })).rejects.toThrow('Invalid days');
+      await expect(controller.getTrafficAnalytics('someone-else', { listingId: LISTING_ID })).rejects.toThrow(
+        'Unauthorized'
+      );
+
+      await controller.getTrafficAnalytics(OWNER_ID, { days: '7', listingId: LISTING_ID });
+      expect(eventModel.getTrafficAnalytics).toHaveBeenCalledWith(OWNER_ID, { days: 7, listingId: LISTING_ID });
+
+      await controller.getTrafficAnalytics(OWNER_ID);
+      expect(eventModel.getTrafficAnalytics).toHaveBeenLastCalledWith(OWNER_ID, { days: 30, listingId: undefined });
+    });
+  });
+
+  describe('ListingEventModel', () => {
+    let query: jest.Mock;
+    let model: ListingEventModel;
+
+    beforeEach(() => {
+      query = jest.fn().mockResolvedValue({ rows: [] });
+      model = new ListingEventModel({ query } as any);
+    });
+
+    it('should dedupe by account or session within the window', async () => {
+      await expect(
+        model.record({
+          property_listing_id: LISTING_ID,
+          event_type: 'view' as any,
+          session_id: SESSION_ID,
+          source: 'direct' as any,
+        })
+      ).resolves.toBeNull();
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('WHERE NOT EXISTS');
+      expect(sql).toContain('e.session_id = $4 OR ($5::uuid IS NOT NULL AND e.viewer_user_id = $5::uuid)');
+      expect(sql).toContain('make_interval(mins => $9)');
+      expect(sql).toContain('b.stealth_mode_enabled = false');
+      expect(params).toEqual([LISTING_ID, 'view', null, SESSION_ID, null, null, null, 'direct', 30]);
+    });
+
+    it('should mark and count events in one statement', async () => {
+      query.mockResolvedValue({ rows: [{ count: '12' }] });
+
+      await expect(model.rollupPending(100)).resolves.toBe(12);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(sql).toContain('SET rolled_up_at = NOW()');
+      expect(sql).toContain('views_count = property_listing_metrics.views_count + EXCLUDED.views_count');
+      expect(params).toEqual([100]);
+    });
+  });
+
+  describe('rollupListingEvents', () => {
+    it('should work through a backlog a batch at a time', async () => {
+      const rollupPending = jest.fn().mockResolvedValueOnce(5000).mockResolvedValueOnce(5000).mockResolvedValueOnce(12);
+
+      await expect(rollupListingEvents({ rollupPending } as any)).resolves.toBe(10012);
+      expect(rollupPending).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,421 @@
+import { PropertyListingController } from '../../../controllers/PropertyListingController';
+import { ListingImportService } from '../../../services/listingFeed/ListingImportService';
+import { parseCsv, toCsv } from '../../../services/listingFeed/csv';
+import {
+  readCsvFeed,
+  readResoFeed,
+  validateFeedRecord,
+  writeCsvFeed,
+  writeResoFeed,
+} from '../../../services/listingFeed/listingFeed';
+import { PropertyListing, PropertyListingStatus, PropertyType } from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: {},
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Listing Import Tests
+ * Tests for bulk CSV and RESO JSON listing import and export
+ *
+ * Test Coverage:
+ * - CSV parsing handles quoting, line endings and formula escaping, and round-trips
+ * - Rows are validated field by field, reporting every problem with its row
+ * - RESO Data Dictionary fields map onto listing fields
+ * - Unreadable files fail the whole import rather than every row
+ * - Rows upsert by external ID then TenantList ID; dry runs only count
+ * - Export writes files that import reads back
+ * - Uploads are checked for format and binary content before a job is queued
+ */
+
+const USER_ID = 'user-1';
+const LISTING_ID = '11111111-1111-4111-8111-111111111111';
+
+const CSV_HEADER = 'external_id,title,property_type,address,city,state,zip_code,sqft,asking_price,amenities';
+
+const makeListing = (overrides: Partial<PropertyListing> = {}): PropertyListing =>
+  ({
+    id: LISTING_ID,
+    user_id: USER_ID,
+    external_id: 'PM-100',
+    title: 'Corner Retail, "Main St"',
+    description: 'Bright corner unit\nwith parking',
+    property_type: PropertyType.RETAIL,
+    status: PropertyListingStatus.ACTIVE,
+    address: '100 Main St',
+    city: 'Boston',
+    state: 'MA',
+    zip_code: '02110',
+    latitude: '42.3601',
+    longitude: '-71.0589',
+    sqft: 2400,
+    lot_size: null,
+    year_built: 1998,
+    floors: 2,
+    asking_price: '4500.00',
+    price_per_sqft: null,
+    lease_type: 'NNN',
+    cam_charges: null,
+    available_date: new Date('2026-03-01T00:00:00Z'),
+    min_lease_term: '3 years',
+    max_lease_term: null,
+    amenities: ['Parking', 'Signage'],
+    highlights: [],
+    photos: [{ url: 'https://cdn.example.com/a.jpg', order: 0 }],
+    virtual_tour_url: null,
+    documents: [],
+    contact_name: 'Dana Lee',
+    contact_email: 'dana@example.com',
+    contact_phone: '=HYPERLINK("x")',
+    is_featured: false,
+    is_verified: false,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    updated_at: new Date('2026-01-02T00:00:00Z'),
+    ...overrides,
+  }) as unknown as PropertyListing;
+
+describe('Listing Import', () => {
+  describe('CSV', () => {
+    it('should parse quoted cells, CRLF line endings and a byte order mark', () => {
+      const text = '\uFEFFa,b,c\r\n"x, y","say ""hi""","two\nlines"\r\n\r\n1,,3';
+
+      expect(parseCsv(text)).toEqual([
+        ['a', 'b', 'c'],
+        ['x, y', 'say "hi"', 'two\nlines'],
+        ['1', '', '3'],
+      ]);
+    });
+
+    it('should escape formulas but not negative numbers, and read both back', () => {
+      const rows = [['=SUM(A1:A2)', '-71.05', '@admin', 'plain, text']];
+      const csv = toCsv(rows);
+
+      expect(csv).toBe(`'=SUM(A1:A2),-71.05,'@admin,"plain, text"\r\n`);
+      expect(parseCsv(csv)).toEqual(rows);
+    });
+  });
+
+  describe('validateFeedRecord', () => {
+    it('should accept a good row, normalizing state, ZIP and lists', () => {
+      const [record] = readCsvFeed(
+        `${CSV_HEADER}\nPM-1,Suite 200,Office,200 Elm St,Boston,massachusetts,2110,"1,500",$3200,Parking|Elevator`
+      );
+      const { data, errors } = validateFeedRecord(record);
+
+      expect(errors).toEqual([]);
+      expect(data).toMatchObject({
+        external_id: 'PM-1',
+        property_type: PropertyType.OFFICE,
+        state: 'MA',
+        zip_code: '02110',
+        sqft: 1500,
+        asking_price: 3200,
+        amenities: ['Parking', 'Elevator'],
+        status: null,
+      });
+    });
+
+    it('should report every bad field with its row', () => {
+      const records = readCsvFeed(
+        [
+          CSV_HEADER,
+          'PM-1,Suite 200,Castle,200 Elm St,Boston,MA,ABCDE,-50,,',
+          ',,retail,1 Oak St,Austin,TX,78701,12.5,,',
+        ].join('\n')
+      );
+      const errors = records.flatMap((record) => validateFeedRecord(record).errors);
+
+      expect(errors).toEqual([
+        expect.objectContaining({ row: 2, external_id: 'PM-1', field: 'property_type' }),
+        expect.objectContaining({ row: 2, field: 'zip_code', message: 'zip_code must be a 5-digit ZIP or ZIP+4' }),
+        expect.objectContaining({ row: 2, field: 'sqft', message: 'sqft must be greater than 0' }),
+        expect.objectContaining({ row: 3, external_id: null, field: 'title', message: 'title is required' }),
+        expect.objectContaining({ row: 3, field: 'sqft', message: 'sqft must be a whole number' }),
+      ]);
+      expect(validateFeedRecord(records[0]).data).toBeNull();
+    });
+
+    it('should map RESO Data Dictionary fields', () => {
+      const [record] = readResoFeed(
+        JSON.stringify({
+          value: [
+            {
+              ListingKey: 'MLS-KEY-9',
+              ListingId: 'A12345',
+              StreetNumber: '50',
+              StreetName: 'Harbor',
+              StreetSuffix: 'Way',
+              UnitNumber: '4',
+              City: 'Seattle',
+              StateOrProvince: 'WA',
+              PostalCode: '98101',
+              PropertySubType: ['Warehouse'],
+              StandardStatus: 'Active Under Contract',
+              LeasableArea: 12000,
+              ListPrice: 15000,
+              BuildingFeatures: ['Dock Doors'],
+              Media: [
+                { MediaCategory: 'Photo', MediaURL: 'https://cdn.example.com/2.jpg', Order: 2 },
+                { MediaCategory: 'Document', MediaURL: 'https://cdn.example.com/plan.pdf', Order: 0 },
+                { MediaCategory: 'Photo', MediaURL: 'https://cdn.example.com/1.jpg', Order: 1 },
+              ],
+            },
+          ],
+        })
+      );
+      const { data, errors } = validateFeedRecord(record);
+
+      expect(errors).toEqual([]);
+      expect(data).toMatchObject({
+        id: null,
+        external_id: 'A12345',
+        title: '50 Harbor Way #4',
+        address: '50 Harbor Way #4',
+        property_type: PropertyType.WAREHOUSE,
+        status: PropertyListingStatus.PENDING,
+        sqft: 12000,
+        asking_price: 15000,
+        amenities: ['Dock Doors'],
+      });
+      expect(data?.photos.map((photo) => photo.url)).toEqual([
+        'https://cdn.example.com/1.jpg',
+        'https://cdn.example.com/2.jpg',
+      ]);
+    });
+
+    it('should reject files that cannot be read at all', () => {
+      expect(() => readCsvFeed('title,city\nA,B')).toThrow(
+        'Invalid file: missing columns: address, state, zip_code, sqft'
+      );
+      expect(() => readResoFeed('{"value": ')).toThrow('Invalid file: not valid JSON');
+      expect(() => readResoFeed('{"@odata.count": 0}')).toThrow('Invalid file');
+    });
+  });
+
+  describe('ListingImportService.importRecords', () => {
+    let listingModel: Record<string, jest.Mock>;
+    let service: ListingImportService;
+
+    const csv = (...rows: string[]) => readCsvFeed([`id,${CSV_HEADER}`, ...rows].join('\n'));
+
+    beforeEach(() => {
+      listingModel = {
+        findForImport: jest.fn().mockResolvedValue([makeListing()]),
+        create: jest.fn().mockImplementation(async (data) => ({ id: 'new', ...data })),
+        update: jest.fn().mockImplementation(async (id, data) => ({ id, ...data })),
+      };
+      service = new ListingImportService({} as any, listingModel as any);
+    });
+
+    it('should update by external ID, create the rest and skip bad or repeated rows', async () => {
+      const report = await service.importRecords(
+        USER_ID,
+        csv(
+          ',PM-100,Renamed,retail,100 Main St,Boston,MA,02110,2400,,',
+          ',PM-200,New Unit,office,5 Pine St,Boston,MA,02110,900,,',
+          ',PM-200,New Unit Again,office,5 Pine St,Boston,MA,02110,900,,',
+          ',PM-300,Bad,office,5 Pine St,Boston,MA,02110,0,,'
+        ),
+        false
+      );
+
+      expect(listingModel.findForImport).toHaveBeenCalledWith(USER_ID, ['PM-100', 'PM-200'], []);
+      expect(listingModel.update).toHaveBeenCalledWith(
+        LISTING_ID,
+        expect.objectContaining({ external_id: 'PM-100', title: 'Renamed', amenities: [] })
+      );
+      // Status isn't in the file, so the listing keeps its own
+      expect(listingModel.update.mock.calls[0][1]).not.toHaveProperty('status');
+      expect(listingModel.update.mock.calls[0][1]).not.toHaveProperty('photos');
+      expect(listingModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: USER_ID,
+          external_id: 'PM-200',
+          status: PropertyListingStatus.PENDING,
+        })
+      );
+      expect(report).toEqual({
+        total_rows: 4,
+        created_count: 1,
+        updated_count: 1,
+        skipped_count: 2,
+        errors: [
+          expect.objectContaining({ row: 4, field: 'external_id', message: 'external_id is repeated from row 3' }),
+          expect.objectContaining({ row: 5, field: 'sqft' }),
+        ],
+      });
+    });
+
+    it('should match exported rows by TenantList ID and reject IDs that are not the user’s', async () => {
+      const report = await service.importRecords(
+        USER_ID,
+        csv(
+          `${LISTING_ID},,Renamed,retail,100 Main St,Boston,MA,02110,2400,,`,
+          '22222222-2222-4222-8222-222222222222,,Stranger,retail,1 Elm St,Boston,MA,02110,800,,'
+        ),
+        false
+      );
+
+      expect(listingModel.update).toHaveBeenCalledWith(LISTING_ID, expect.not.objectContaining({ external_id: null }));
+      expect(listingModel.create).not.toHaveBeenCalled();
+      expect(report.errors).toEqual([expect.objectContaining({ row: 3, field: 'id' })]);
+    });
+
+    it('should only count changes on a dry run', async () => {
+      const report = await service.importRecords(
+        USER_ID,
+        csv(
+          ',PM-100,Renamed,retail,100 Main St,Boston,MA,02110,2400,,',
+          ',PM-200,New,office,5 Pine St,Boston,MA,02110,900,,'
+        ),
+        true
+      );
+
+      expect(listingModel.update).not.toHaveBeenCalled();
+      expect(listingModel.create).not.toHaveBeenCalled();
+      expect(report).toMatchObject({ total_rows: 2, created_count: 1, updated_count: 1, skipped_count: 0 });
+    });
+
+    it('should fail the job for an unreadable file and complete it otherwise', async () => {
+      const jobModel = {
+        claim: jest.fn(),
+        complete: jest.fn().mockImplementation(async (id, report) => ({ id, status: 'completed', ...report })),
+        fail: jest.fn().mockImplementation(async (id, message) => ({ id, status: 'failed', error_message: message })),
+      };
+      service = new ListingImportService(jobModel as any, listingModel as any);
+
+      jobModel.claim.mockResolvedValueOnce({
+        id: 'job-1',
+        user_id: USER_ID,
+        format: 'csv',
+        dry_run: true,
+        payload: 'x,y\n1,2',
+      });
+      await expect(service.processJob('job-1')).resolves.toMatchObject({ status: 'failed' });
+      expect(jobModel.fail).toHaveBeenCalledWith('job-1', expect.stringContaining('Invalid file: missing columns'));
+
+      jobModel.claim.mockResolvedValueOnce({
+        id: 'job-2',
+        user_id: USER_ID,
+        format: 'reso',
+        dry_run: true,
+        payload: writeResoFeed([makeListing()]),
+      });
+      await expect(service.processJob('job-2')).resolves.toMatchObject({ status: 'completed', updated_count: 1 });
+
+      // Another worker has it
+      jobModel.claim.mockResolvedValueOnce(null);
+      await expect(service.processJob('job-3')).resolves.toBeNull();
+    });
+  });
+
+  describe('export', () => {
+    it('should write files that read back to the same listing', () => {
+      const listing = makeListing();
+
+      for (const records of [readCsvFeed(writeCsvFeed([listing])), readResoFeed(writeResoFeed([listing]))]) {
+        const { data, errors } = validateFeedRecord(records[0]);
+
+        expect(errors).toEqual([]);
+        expect(data).toMatchObject({
+          id: LISTING_ID,
+          external_id: 'PM-100',
+          title: listing.title,
+          description: listing.description,
+          property_type: PropertyType.RETAIL,
+          status: PropertyListingStatus.ACTIVE,
+          zip_code: '02110',
+          latitude: 42.3601,
+          sqft: 2400,
+          asking_price: 4500,
+          available_date: '2026-03-01',
+          amenities: ['Parking', 'Signage'],
+          photos: [{ url: 'https://cdn.example.com/a.jpg', order: 0 }],
+          contact_phone: '=HYPERLINK("x")',
+        });
+      }
+    });
+
+    it('should reject unknown export formats', async () => {
+      const controller = new PropertyListingController({ findByUserId: jest.fn().mockResolvedValue([]) } as any);
+
+      await expect(controller.exportListings(USER_ID, 'xlsx')).rejects.toThrow('Invalid format');
+      await expect(controller.exportListings(USER_ID, undefined)).resolves.toMatchObject({
+        contentType: 'text/csv; charset=utf-8',
+        fileName: expect.stringMatching(/^listings-\d{4}-\d{2}-\d{2}\.csv$/),
+      });
+    });
+  });
+
+  describe('PropertyListingController.importListings', () => {
+    let jobModel: Record<string, jest.Mock>;
+    let importService: Record<string, jest.Mock>;
+    let controller: PropertyListingController;
+
+    beforeEach(() => {
+      jobModel = {
+        create: jest.fn().mockImplementation(async (data) => ({ id: 'job-1', status: 'pending', ...data })),
+        findByIdForUser: jest.fn().mockResolvedValue(null),
+      };
+      importService = { processJob: jest.fn().mockResolvedValue(null) };
+      controller = new PropertyListingController(
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        jobModel as any,
+        importService as any
+      );
+    });
+
+    it('should queue the file, taking the format from its extension, and start processing', async () => {
+      const buffer = Buffer.from(`${CSV_HEADER}\n`);
+      const job = await controller.importListings(
+        USER_ID,
+        { buffer, size: buffer.length, originalName: 'Portfolio.CSV' },
+        { dryRun: 'true' }
+      );
+
+      expect(jobModel.create).toHaveBeenCalledWith({
+        user_id: USER_ID,
+        format: 'csv',
+        file_name: 'Portfolio.CSV',
+        dry_run: true,
+        payload: `${CSV_HEADER}\n`,
+      });
+      expect(importService.processJob).toHaveBeenCalledWith('job-1');
+      expect(job).toMatchObject({ id: 'job-1', status: 'pending' });
+    });
+
+    it('should reject unknown formats and binary files, and hide other users’ jobs', async () => {
+      const text = Buffer.from('a,b');
+      const binary = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00]);
+
+      await expect(
+        controller.importListings(USER_ID, { buffer: text, size: text.length, originalName: 'listings.txt' })
+      ).rejects.toThrow('Invalid format');
+      await expect(
+        controller.importListings(USER_ID, { buffer: binary, size: binary.length, originalName: 'listings.csv' })
+      ).rejects.toThrow('Invalid file: expected a CSV or JSON text file');
+      expect(jobModel.create).not.toHaveBeenCalled();
+
+      await expect(controller.getImportJob('not-a-uuid', USER_ID)).rejects.toThrow('Import job not found');
+      await expect(controller.getImportJob(LISTING_ID, USER_ID)).rejects.toThrow('Import job not found');
+      expect(jobModel.findByIdForUser).toHaveBeenCalledWith(LISTING_ID, USER_ID);
+    });
+  });
+});
@@ -0,0 +1,403 @@
+import sharp from 'sharp';
+import { PropertyListingController } from '../../../controllers/PropertyListingController';
+import { ListingMediaService } from '../../../services/storage/ListingMediaService';
+import { AttachmentStorage } from '../../../services/storage/AttachmentStorage';
+import {
+  ListingDocumentVisibility,
+  ListingMedia,
+  ListingMediaKind,
+  PropertyListing,
+  PropertyListingStatus,
+  PropertyType,
+} from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: {},
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Listing Media Tests
+ * Tests for listing photo and document uploads
+ *
+ * Test Coverage:
+ * - Uploads are checked for type, size and matching contents
+ * - Photos are stored as thumbnail, card and full renditions without EXIF data
+ * - Reordering must list every photo once; the cover can be moved
+ * - Uploaded photos are copied onto the listing, keeping photos given by URL
+ * - Inquiry-only documents open for the owner and tenants who have inquired
+ * - Only the owner can change a listing's media
+ */
+
+const OWNER_ID = 'owner-1';
+const TENANT_ID = 'tenant-1';
+const LISTING_ID = '11111111-1111-4111-8111-111111111111';
+const UNKNOWN_ID = '99999999-9999-4999-8999-999999999999';
+
+const makeListing = (overrides: Partial<PropertyListing> = {}): PropertyListing =>
+  ({
+    id: LISTING_ID,
+    user_id: OWNER_ID,
+    title: 'Corner Retail',
+    property_type: PropertyType.RETAIL,
+    status: PropertyListingStatus.ACTIVE,
+    photos: [{ url: 'https://cdn.example.com/street.jpg', order: 0 }],
+    documents: [],
+    ...overrides,
+  }) as PropertyListing;
+
+const makeImage = (width: number, height: number, format: 'jpeg' | 'png' = 'jpeg') => {
+  const image = sharp({ create: { width, height, channels: 3, background: '#336699' } });
+  return (format === 'png' ? image.png() : image.jpeg()).toBuffer();
+};
+
+const toFile = (buffer: Buffer, mimeType = 'image/jpeg', originalName = 'photo.jpg') => ({
+  buffer,
+  mimeType,
+  size: buffer.length,
+  originalName,
+});
+
+const createMemoryStorage = () => {
+  const files = new Map<string, Buffer>();
+  const storage: AttachmentStorage = {
+    put: jest.fn(async (key: string, body: Buffer) => {
+      files.set(key, body);
+    }),
+    get: jest.fn(async (key: string) => {
+      const file = files.get(key);
+      if (!file) throw new Error('Attachment file not found');
+      return file;
+    }),
+    delete: jest.fn(async (key: string) => {
+      files.delete(key);
+    }),
+  };
+  return { storage, files };
+};
+
+/**
+ * In-memory stand-in for ListingMediaModel, keeping its ordering and cover rules
+ */
+const createMediaModel = () => {
+  const rows: ListingMedia[] = [];
+  let nextId = 1;
+
+  const ofKind = (listingId: string, kind: ListingMediaKind) =>
+    rows
+      .filter((row) => row.property_listing_id === listingId && row.kind === kind)
+      .sort((a, b) => a.sort_order - b.sort_order);
+
+  const model = {
+    create: jest.fn(async (data: any) => {
+      const siblings = ofKind(data.property_listing_id, data.kind);
+      const row: ListingMedia = {
+        id: `aaaaaaaa-aaaa-4aaa-8aaa-${String(nextId++).padStart(12, '0')}`,
+        thumbnail_key: null,
+        card_key: null,
+        width: null,
+        height: null,
+        caption: null,
+        visibility: ListingDocumentVisibility.PUBLIC,
+        ...data,
+        sort_order: siblings.length,
+        is_cover: data.kind === ListingMediaKind.PHOTO && !siblings.some((row) => row.is_cover),
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+      rows.push(row);
+      return row;
+    }),
+    findById: jest.fn(async (id: string) => rows.find((row) => row.id === id) || null),
+    findByListingId: jest.fn(async (listingId: string, kind: ListingMediaKind) => ofKind(listingId, kind)),
+    countByListingId: jest.fn(async (listingId: string, kind: ListingMediaKind) => ofKind(listingId, kind).length),
+    update: jest.fn(async (id: string, data: any) => {
+      const row = rows.find((item) => item.id === id);
+      if (!row) return null;
+      if (data.caption !== undefined) row.caption = data.caption;
+      if (data.file_name) row.file_name = data.file_name;
+      if (data.visibility) row.visibility = data.visibility;
+      return row;
+    }),
+    setCover: jest.fn(async (listingId: string, mediaId: string) => {
+      ofKind(listingId, ListingMediaKind.PHOTO).forEach((row) => (row.is_cover = row.id === mediaId));
+    }),
+    reorder: jest.fn(async (listingId: string, kind: ListingMediaKind, ids: string[]) => {
+      ofKind(listingId, kind).forEach((row) => (row.sort_order = ids.indexOf(row.id)));
+    }),
+    delete: jest.fn(async (id: string) => {
+      const index = rows.findIndex((row) => row.id === id);
+      if (index < 0) return null;
+      const [row] = rows.splice(index, 1);
+      const next = ofKind(row.property_listing_id, ListingMediaKind.PHOTO)[0];
+      if (row.is_cover && next) next.is_cover = true;
+      return row;
+    }),
+  };
+
+  return { model, rows };
+};
+
+describe('Listing media', () => {
+  let memory: ReturnType<typeof createMemoryStorage>;
+  let service: ListingMediaService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    memory = createMemoryStorage();
+    service = new ListingMediaService(memory.storage);
+  });
+
+  describe('ListingMediaService', () => {
+    it('should reject disallowed types, empty and oversized files', () => {
+      const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+
+      expect(() => service.validatePhoto(toFile(jpeg, 'image/gif'))).toThrow('Invalid file type');
+      expect(() => service.validatePhoto({ ...toFile(jpeg), size: 0 })).toThrow('empty');
+      expect(() => service.validatePhoto({ ...toFile(jpeg), size: 21 * 1024 * 1024 })).toThrow(
+        'must not exceed 20 MB'
+      );
+      expect(() => service.validateDocument(toFile(jpeg, 'application/zip'))).toThrow('Invalid file type');
+    });
+
+    it('should reject contents that do not match the declared type', () => {
+      expect(() => service.validatePhoto(toFile(Buffer.from('%PDF-1.7'), 'image/png'))).toThrow(
+        'contents do not match'
+      );
+      expect(() => service.validateDocument(toFile(Buffer.from('%PDF-1.7'), 'application/pdf'))).not.toThrow();
+    });
+
+    it('should store thumbnail, card and full renditions', async () => {
+      const stored = await service.storePhoto(LISTING_ID, toFile(await makeImage(3000, 2000, 'png'), 'image/png'));
+
+      expect(stored.storageKey).toMatch(new RegExp(`^listing-media/${LISTING_ID}/.+\\.jpg$`));
+      const sizes = await Promise.all(
+        [stored.thumbnailKey, stored.cardKey, stored.storageKey].map((key) =>
+          sharp(memory.files.get(key)).metadata()
+        )
+      );
+      expect(sizes.map(({ format, width, height }) => ({ format, width, height }))).toEqual([
+        { format: 'jpeg', width: 240, height: 180 },
+        { format: 'jpeg', width: 640, height: 480 },
+        { format: 'jpeg', width: 2048, height: 1365 },
+      ]);
+      expect(stored).toMatchObject({ width: 2048, height: 1365 });
+    });
+
+    it('should not enlarge small photos', async () => {
+      const stored = await service.storePhoto(LISTING_ID, toFile(await makeImage(800, 600)));
+
+      expect(stored).toMatchObject({ width: 800, height: 600 });
+    });
+
+    it('should strip EXIF data, including location, from every rendition', async () => {
+      const photo = await sharp(await makeImage(1200, 900))
+        .withMetadata({ exif: { IFD0: { Copyright: 'Owner', Make: 'Camera' } } })
+        .jpeg()
+        .toBuffer();
+      expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+      const stored = await service.storePhoto(LISTING_ID, toFile(photo));
+
+      for (const key of [stored.thumbnailKey, stored.cardKey, stored.storageKey]) {
+        expect((await sharp(memory.files.get(key)).metadata()).exif).toBeUndefined();
+      }
+    });
+
+    it('should reject images that cannot be decoded', async () => {
+      const corrupt = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff]), Buffer.alloc(64, 1)]);
+
+      await expect(service.storePhoto(LISTING_ID, toFile(corrupt))).rejects.toThrow('could not be read');
+      expect(memory.storage.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PropertyListingController', () => {
+    let listing: PropertyListing;
+    let listingModel: Record<string, jest.Mock>;
+    let conversationModel: Record<string, jest.Mock>;
+    let media: ReturnType<typeof createMediaModel>;
+    let controller: PropertyListingController;
+
+    beforeEach(() => {
+      listing = makeListing();
+      listingModel = {
+        findById: jest.fn(async () => listing),
+        update: jest.fn(async (_id: string, data: Partial<PropertyListing>) => {
+          listing = { ...listing, ...data };
+          return listing;
+        }),
+      };
+      conversationModel = { findListingConversation: jest.fn().mockResolvedValue(null) };
+      media = createMediaModel();
+      controller = new PropertyListingController(
+        listingModel as any,
+        undefined,
+        conversationModel as any,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        media.model as any,
+        service
+      );
+    });
+
+    const uploadPhotos = async (count: number) => {
+      const image = await makeImage(400, 300);
+      return controller.uploadListingPhotos(
+        LISTING_ID,
+        OWNER_ID,
+        Array.from({ length: count }, (_, index) => toFile(image, 'image/jpeg', `photo-${index}.jpg`)),
+        ['Storefront']
+      );
+    };
+
+    it('should copy uploaded photos onto the listing before photos given by URL', async () => {
+      const photos = await uploadPhotos(2);
+
+      expect(photos).toEqual([
+        expect.objectContaining({ media_id: media.rows[0].id, caption: 'Storefront', is_cover: true, order: 0 }),
+        expect.objectContaining({ media_id: media.rows[1].id, is_cover: false, order: 1 }),
+        { url: 'https://cdn.example.com/street.jpg', order: 2 },
+      ]);
+      expect(photos[0].thumbnail_url).toBe(`/api/property-listings/photos/${media.rows[0].id}?variant=thumbnail`);
+      expect(listing.photos).toEqual(photos);
+    });
+
+    it('should reject the whole upload if any file is unacceptable', async () => {
+      const image = await makeImage(400, 300);
+
+      await expect(
+        controller.uploadListingPhotos(LISTING_ID, OWNER_ID, [
+          toFile(image),
+          toFile(Buffer.from('GIF89a'), 'image/gif'),
+        ])
+      ).rejects.toThrow('Invalid file type');
+      expect(media.model.create).not.toHaveBeenCalled();
+    });
+
+    it('should only let the owner change photos', async () => {
+      await expect(uploadPhotos(0)).rejects.toThrow('At least one photo');
+      await expect(
+        controller.uploadListingPhotos(LISTING_ID, TENANT_ID, [toFile(await makeImage(10, 10))])
+      ).rejects.toThrow('Unauthorized');
+    });
+
+    it('should reorder photos, keeping the cover flagged wherever it moves', async () => {
+      await uploadPhotos(3);
+      const [first, second, third] = media.rows.map((row) => row.id);
+
+      const photos = await controller.reorderListingPhotos(LISTING_ID, OWNER_ID, [third, first, second]);
+
+      expect(photos.slice(0, 3).map((photo) => [photo.media_id, photo.is_cover])).toEqual([
+        [third, false],
+        [first, true],
+        [second, false],
+      ]);
+    });
+
+    it('should reject an order that does not list every photo once', async () => {
+      await uploadPhotos(2);
+      const [first, second] = media.rows.map((row) => row.id);
+
+      for (const ids of [[first], [first, first], [first, second, UNKNOWN_ID], 'nope']) {
+        await expect(controller.reorderListingPhotos(LISTING_ID, OWNER_ID, ids)).rejects.toThrow(
+          'Invalid photo_ids'
+        );
+      }
+    });
+
+    it('should change captions and the cover, and pass the cover on when it is deleted', async () => {
+      await uploadPhotos(2);
+      const [first, second] = media.rows.map((row) => row.id);
+
+      await controller.updateListingPhoto(LISTING_ID, second, OWNER_ID, { caption: ' Lobby ', is_cover: true });
+      expect(media.rows.find((row) => row.id === second)).toMatchObject({ caption: 'Lobby', is_cover: true });
+      await expect(
+        controller.updateListingPhoto(LISTING_ID, first, OWNER_ID, { caption: 'x'.repeat(501) })
+      ).rejects.toThrow('Invalid caption');
+
+      const photos = await controller.deleteListingPhoto(LISTING_ID, second, OWNER_ID);
+      expect(photos[0]).toMatchObject({ media_id: first, is_cover: true });
+      expect(memory.storage.delete).toHaveBeenCalledTimes(3);
+    });
+
+    it('should serve public photo renditions and reject unknown variants', async () => {
+      await uploadPhotos(1);
+      const photoId = media.rows[0].id;
+
+      await expect(controller.getListingPhoto(photoId, 'card')).resolves.toMatchObject({ contentType: 'image/jpeg' });
+      await expect(controller.getListingPhoto(photoId, 'huge')).rejects.toThrow('Invalid variant');
+      await expect(controller.getListingPhoto(UNKNOWN_ID, 'full')).rejects.toThrow('not found');
+    });
+
+    describe('documents', () => {
+      const pdf = Buffer.from('%PDF-1.7\n%EOF');
+      let publicId: string;
+      let gatedId: string;
+
+      beforeEach(async () => {
+        publicId = (
+          await controller.uploadListingDocument(LISTING_ID, OWNER_ID, toFile(pdf, 'application/pdf', 'flyer.pdf'))
+        ).id;
+        gatedId = (
+          await controller.uploadListingDocument(LISTING_ID, OWNER_ID, toFile(pdf, 'application/pdf', 'plan.pdf'), {
+            name: 'Floor Plan',
+            visibility: ListingDocumentVisibility.INQUIRED,
+          })
+        ).id;
+      });
+
+      it('should list inquiry-only documents as locked to visitors who have not inquired', async () => {
+        const documents = await controller.listListingDocuments(LISTING_ID, TENANT_ID);
+
+        expect(documents.map(({ name, locked, url }) => ({ name, locked, hasUrl: !!url }))).toEqual([
+          { name: 'flyer.pdf', locked: false, hasUrl: true },
+          { name: 'Floor Plan', locked: true, hasUrl: false },
+        ]);
+        expect(conversationModel.findListingConversation).toHaveBeenCalledWith(TENANT_ID, OWNER_ID, LISTING_ID);
+        await expect(controller.downloadListingDocument(LISTING_ID, gatedId)).rejects.toThrow('Unauthorized');
+        await expect(controller.downloadListingDocument(LISTING_ID, publicId)).resolves.toMatchObject({
+          fileName: 'flyer.pdf',
+          contentType: 'application/pdf',
+        });
+      });
+
+      it('should open inquiry-only documents for tenants who have inquired and the owner', async () => {
+        conversationModel.findListingConversation.mockResolvedValue({ id: 'conversation-1' });
+
+        await expect(controller.downloadListingDocument(LISTING_ID, gatedId, TENANT_ID)).resolves.toMatchObject({
+          fileName: 'Floor Plan',
+        });
+        const owned = await controller.listListingDocuments(LISTING_ID, OWNER_ID);
+        expect(owned.every((document) => !document.locked)).toBe(true);
+      });
+
+      it('should copy only public documents onto the listing', async () => {
+        expect(listing.documents).toEqual([expect.objectContaining({ media_id: publicId, name: 'flyer.pdf' })]);
+
+        await controller.updateListingDocument(LISTING_ID, gatedId, OWNER_ID, {
+          visibility: ListingDocumentVisibility.PUBLIC,
+        });
+        expect(listing.documents.map((document) => document.media_id)).toEqual([publicId, gatedId]);
+
+        await expect(
+          controller.updateListingDocument(LISTING_ID, gatedId, OWNER_ID, { visibility: 'secret' })
+        ).rejects.toThrow('Invalid visibility');
+      });
+    });
+  });
+});
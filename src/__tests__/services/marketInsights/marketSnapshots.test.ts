@@ -0,0 +1,179 @@
+import pool from '../../../config/database';
+import { MarketInsightsService } from '../../../services/MarketInsightsService';
+import { recordDailyMarketSnapshot } from '../../../jobs/marketSnapshotJob';
+import { MarketSnapshotTotals, PropertyType } from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+/**
+ * Market Snapshot Tests
+ * Tests for market insights computed from daily market snapshots
+ *
+ * Test Coverage:
+ * - Overview changes compare the snapshots bounding the period
+ * - Without snapshot history, live figures are reported with no change
+ * - Vacancy trends are daily for short ranges and monthly for long ones
+ * - Absorption is the change in leased square footage per property type
+ * - The daily job records each day once
+ */
+
+const totals = (overrides: Partial<MarketSnapshotTotals> = {}): MarketSnapshotTotals => ({
+  active_listings: 100,
+  leased_listings: 20,
+  total_listings: 120,
+  sqft_available: 80000,
+  sqft_leased: 20000,
+  priced_listings: 50,
+  avg_asking_rent_psf: 30,
+  demand_listings: 40,
+  ...overrides,
+});
+
+describe('Market snapshots', () => {
+  const mockQuery = pool.query as jest.Mock;
+  let snapshotModel: Record<string, jest.Mock>;
+  let service: MarketInsightsService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [{ overall: '72.5', current_period: '75', previous_period: '70' }] });
+
+    snapshotModel = {
+      findLatestDate: jest.fn().mockImplementation(async (onOrBefore: string) =>
+        onOrBefore >= '2026-03-31' ? '2026-03-31' : '2026-03-01'
+      ),
+      findEarliestDate: jest.fn().mockResolvedValue(null),
+      getTotals: jest.fn().mockImplementation(async (date: string) =>
+        date === '2026-03-31'
+          ? totals({ active_listings: 110, sqft_available: 75000, sqft_leased: 25000, avg_asking_rent_psf: 33 })
+          : totals()
+      ),
+      getTotalsByType: jest.fn(),
+      getSqftSeries: jest.fn(),
+      getCurrentTotals: jest.fn().mockResolvedValue(totals()),
+      getCurrentTotalsByType: jest.fn().mockResolvedValue([]),
+    };
+
+    service = new MarketInsightsService(snapshotModel as any);
+  });
+
+  describe('getMarketOverview', () => {
+    it('should compute period-over-period changes from snapshots', async () => {
+      const overview = await service.getMarketOverview({ from: '2026-03-01', to: '2026-03-31' });
+
+      expect(snapshotModel.getTotals).toHaveBeenCalledWith('2026-03-31', expect.any(Object));
+      expect(snapshotModel.getTotals).toHaveBeenCalledWith('2026-03-01', expect.any(Object));
+      expect(overview).toEqual(
+        expect.objectContaining({
+          totalActiveListings: 110,
+          totalActiveListingsChange: 10,
+          averageVacancyRate: 75,
+          averageVacancyRateChange: -5,
+          averageMatchRate: 72.5,
+          averageMatchRateChange: 5,
+          averageAskingRentPsf: 33,
+          averageAskingRentPsfChange: 10,
+          netAbsorptionSqft: 5000,
+        })
+      );
+    });
+
+    it('should report live figures with no change before the first snapshot', async () => {
+      snapshotModel.findLatestDate.mockResolvedValue(null);
+      mockQuery.mockResolvedValue({ rows: [{ overall: null, current_period: null, previous_period: null }] });
+
+      const overview = await service.getMarketOverview({ state: 'tx' });
+
+      expect(snapshotModel.getCurrentTotals).toHaveBeenCalledWith(expect.objectContaining({ state: 'tx' }));
+      expect(snapshotModel.getTotals).not.toHaveBeenCalled();
+      expect(overview.totalActiveListings).toBe(100);
+      expect(overview.totalActiveListingsChange).toBe(0);
+      expect(overview.averageVacancyRateChange).toBe(0);
+      expect(overview.averageMatchRate).toBe(0);
+      expect(overview.netAbsorptionSqft).toBe(0);
+    });
+
+    it('should filter match rates by location and property type', async () => {
+      await service.getMarketOverview({
+        from: '2026-03-01',
+        to: '2026-03-31',
+        state: 'tx',
+        propertyType: PropertyType.OFFICE,
+      });
+
+      const [sql, values] = mockQuery.mock.calls[0];
+      expect(sql).toContain('UPPER(TRIM(pl.state)) = $3');
+      expect(sql).toContain('pl.property_type = $4');
+      expect(values).toEqual(['2026-03-01', '2026-03-31', 'TX', 'office']);
+    });
+  });
+
+  describe('getVacancyTrends', () => {
+    const series = [
+      { snapshot_date: '2026-01-10', property_type: 'retail', sqft_available: 50, sqft_leased: 50 },
+      { snapshot_date: '2026-01-31', property_type: 'retail', sqft_available: 40, sqft_leased: 60 },
+      { snapshot_date: '2026-01-31', property_type: 'office', sqft_available: 10, sqft_leased: 90 },
+      { snapshot_date: '2026-02-15', property_type: 'retail', sqft_available: 30, sqft_leased: 70 },
+    ];
+
+    it('should return a point per snapshot for short ranges', async () => {
+      snapshotModel.getSqftSeries.mockResolvedValue(series);
+
+      const trends = await service.getVacancyTrends({ from: '2026-01-01', to: '2026-02-28' });
+
+      expect(trends.map((point) => point.date)).toEqual(['2026-01-10', '2026-01-31', '2026-02-15']);
+      expect(trends[1]).toEqual({ date: '2026-01-31', retail: 40, office: 10, industrial: 0, overall: 25 });
+    });
+
+    it('should use the last snapshot of each month for long ranges', async () => {
+      snapshotModel.getSqftSeries.mockResolvedValue(series);
+
+      const trends = await service.getVacancyTrends({ from: '2025-03-01', to: '2026-02-28' });
+
+      expect(trends).toEqual([
+        { date: '2026-01', retail: 40, office: 10, industrial: 0, overall: 25 },
+        { date: '2026-02', retail: 30, office: 0, industrial: 0, overall: 30 },
+      ]);
+    });
+  });
+
+  describe('getAbsorptionByType', () => {
+    it('should report the change in leased square footage per property type', async () => {
+      snapshotModel.getTotalsByType.mockImplementation(async (date: string) =>
+        date === '2026-03-31'
+          ? [
+              { property_type: 'office', ...totals({ sqft_available: 9000, sqft_leased: 16000 }) },
+              { property_type: 'retail', ...totals({ sqft_available: 4000, sqft_leased: 3000 }) },
+            ]
+          : [{ property_type: 'office', ...totals({ sqft_available: 12000, sqft_leased: 13000 }) }]
+      );
+
+      const absorption = await service.getAbsorptionByType({ from: '2026-03-01', to: '2026-03-31' });
+
+      expect(absorption).toEqual([
+        { assetType: 'Office', available: 9000, leased: 16000, absorption: 3000 },
+        { assetType: 'Retail', available: 4000, leased: 3000, absorption: 3000 },
+      ]);
+    });
+  });
+
+  describe('recordDailyMarketSnapshot', () => {
+    it('should capture today once', async () => {
+      const model = {
+        existsForDate: jest.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true),
+        capture: jest.fn().mockResolvedValue(12),
+      };
+      const now = new Date('2026-04-02T08:00:00Z');
+
+      await expect(recordDailyMarketSnapshot(model as any, now)).resolves.toBe(12);
+      await expect(recordDailyMarketSnapshot(model as any, now)).resolves.toBe(0);
+
+      expect(model.existsForDate).toHaveBeenCalledWith('2026-04-02');
+      expect(model.capture).toHaveBeenCalledTimes(1);
+      expect(model.capture).toHaveBeenCalledWith('2026-04-02');
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { MatchingService } from '../../../services/MatchingService';
+import { BusinessController } from '../../../controllers/BusinessController';
+import { GeocodingService } from '../../../services/geo/GeocodingService';
+import { DemandListing, PropertyListing } from '../../../types';
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { sendNewMatchesNotification: jest.fn() },
+}));
+
+/**
+ * Location Scoring Tests
+ * Tests for distance-based location scoring in the matching engine
+ *
+ * Test Coverage:
+ * - Haversine distance and offline centroid lookup
+ * - Distance decay within and beyond the search radius
+ * - Nearby properties across a city line outscore distant same-city ones
+ * - distance_miles populated in match details
+ * - Fallback to city/state comparison when coordinates can't be resolved
+ * - Scores stay within 0-100 even for a radius saved before validation
+ * - Demand listings reject out-of-range coordinates and search radii
+ */
+
+const buildDemand = (overrides: Partial<DemandListing> = {}): DemandListing =>
+  ({
+    id: 'demand-1',
+    business_id: 'business-1',
+    location_name: 'Downtown',
+    city: 'Miami',
+    state: 'FL',
+    address: null,
+    sqft_min: null,
+    sqft_max: null,
+    budget_min: null,
+    budget_max: null,
+    asset_type: '',
+    additional_features: [],
+    latitude: null,
+    longitude: null,
+    search_radius_miles: null,
+    ...overrides,
+  }) as DemandListing;
+
+const buildProperty = (overrides: Partial<PropertyListing> = {}): PropertyListing =>
+  ({
+    id: 'property-1',
+    city: 'Miami',
+    state: 'FL',
+    zip_code: '33101',
+    latitude: null,
+    longitude: null,
+    sqft: 2000,
+    asking_price: null,
+    property_type: 'retail',
+    amenities: [],
+    ...overrides,
+  }) as unknown as PropertyListing;
+
+describe('GeocodingService', () => {
+  const geocoder = new GeocodingService();
+
+  it('should compute haversine distance in miles', () => {
+    const miami = geocoder.geocode({ city: 'Miami', state: 'FL' })!;
+    const fortLauderdale = geocoder.geocode({ city: 'Fort Lauderdale', state: 'FL' })!;
+
+    expect(geocoder.distanceMiles(miami, fortLauderdale)).toBeCloseTo(25.5, 0);
+    expect(geocoder.distanceMiles(miami, miami)).toBe(0);
+  });
+
+  it('should resolve full state names and saint abbreviations', () => {
+    expect(geocoder.geocode({ city: 'Saint Paul', state: 'Minnesota' })?.source).toBe('city');
+    expect(geocoder.geocode({ city: 'New York City', state: 'NY' })?.source).toBe('city');
+  });
+
+  it('should fall back to the ZIP3 centroid table', () => {
+    const point = geocoder.geocode({ city: 'Unknown Town', state: 'TX', zip_code: '78701' });
+
+    expect(point?.source).toBe('zip');
+    expect(point?.latitude).toBeCloseTo(30.27, 1);
+  });
+
+  it('should prefer explicit coordinates, including DECIMAL strings from pg', () => {
+    const point = geocoder.resolvePoint({
+      latitude: '25.80000000',
+      longitude: '-80.20000000',
+      city: 'Miami',
+      state: 'FL',
+    });
+
+    expect(point).toEqual({ latitude: 25.8, longitude: -80.2, source: 'exact' });
+  });
+
+  it('should return null when nothing can be located', () => {
+    expect(geocoder.resolvePoint({ city: 'Nowhere', state: 'ZZ', zip_code: '00000' })).toBeNull();
+  });
+});
+
+describe('MatchingService location scoring', () => {
+  let matchingService: MatchingService;
+
+  beforeEach(() => {
+    matchingService = new MatchingService({} as any);
+  });
+
+  it('should give full location score at the demand centroid', () => {
+    const { componentScores, details } = matchingService.calculateMatchScore(
+      buildDemand(),
+      buildProperty()
+    );
+
+    expect(componentScores.location).toBe(100);
+    expect(details.location_match.distance_miles).toBe(0);
+  });
+
+  it('should score a nearby property across a city line above a distant same-city one', () => {
+    const demand = buildDemand({ latitude: 25.7617, longitude: -80.1918 });
+
+    // ~2 miles away in Coral Gables
+    const nearby = buildProperty({
+      city: 'Coral Gables',
+      latitude: 25.7401,
+      longitude: -80.2199,
+    } as Partial<PropertyListing>);
+
+    // ~40 miles away but still labelled Miami
+    const distant = buildProperty({
+      latitude: 25.4687,
+      longitude: -80.4776,
+    } as Partial<PropertyListing>);
+
+    const nearbyResult = matchingService.calculateMatchScore(demand, nearby);
+    const distantResult = matchingService.calculateMatchScore(demand, distant);
+
+    expect(nearbyResult.details.location_match.same_city).toBe(false);
+    expect(distantResult.details.location_match.same_city).toBe(true);
+    expect(nearbyResult.componentScores.location).toBeGreaterThan(
+      distantResult.componentScores.location
+    );
+    expect(nearbyResult.details.location_match.distance_miles).toBeLessThan(3);
+  });
+
+  it('should score 70 at the radius edge and halve per extra radius', () => {
+    const demand = buildDemand({ latitude: 0, longitude: 0, search_radius_miles: 10 });
+    const oneDegreeMiles = 69.09; // ~1 degree of latitude
+
+    const atEdge = buildProperty({
+      latitude: 10 / oneDegreeMiles,
+      longitude: 0,
+    } as Partial<PropertyListing>);
+    const oneRadiusBeyond = buildProperty({
+      latitude: 20 / oneDegreeMiles,
+      longitude: 0,
+    } as Partial<PropertyListing>);
+
+    expect(matchingService.calculateMatchScore(demand, atEdge).componentScores.location).toBeCloseTo(70, 0);
+    expect(
+      matchingService.calculateMatchScore(demand, oneRadiusBeyond).componentScores.location
+    ).toBeCloseTo(35, 0);
+  });
+
+  it('should keep the score in range when the saved radius is not positive', () => {
+    const demand = buildDemand({ latitude: 0, longitude: 0, search_radius_miles: -10 });
+    const fiftyMilesAway = buildProperty({ latitude: 50 / 69.09, longitude: 0 } as Partial<PropertyListing>);
+
+    const { location } = matchingService.calculateMatchScore(demand, fiftyMilesAway).componentScores;
+
+    // Scored against the default 25 mile radius instead
+    expect(location).toBeCloseTo(35, 0);
+  });
+
+  it('should fall back to city/state comparison without coordinates', () => {
+    const demand = buildDemand({ city: 'Smallville', state: 'KS' });
+
+    const sameCity = matchingService.calculateMatchScore(
+      demand,
+      buildProperty({ city: 'Smallville', state: 'KS', zip_code: '00000' } as Partial<PropertyListing>)
+    );
+    const sameState = matchingService.calculateMatchScore(
+      demand,
+      buildProperty({ city: 'Otherville', state: 'Kansas', zip_code: '00000' } as Partial<PropertyListing>)
+    );
+
+    expect(sameCity.componentScores.location).toBe(100);
+    expect(sameState.componentScores.location).toBe(50);
+    expect(sameCity.details.location_match.distance_miles).toBeUndefined();
+  });
+});
+
+describe('Demand listing search area', () => {
+  let demandListingModel: { create: jest.Mock; findById: jest.Mock; update: jest.Mock };
+  let controller: BusinessController;
+
+  const validListing = {
+    business_id: 'business-1',
+    location_name: 'Downtown',
+    city: 'Miami',
+    state: 'FL',
+    asset_type: 'retail',
+  };
+
+  beforeEach(() => {
+    demandListingModel = {
+      create: jest.fn().mockImplementation(async (data) => ({ id: 'demand-1', ...data })),
+      findById: jest.fn().mockResolvedValue(buildDemand()),
+      update: jest.fn().mockImplementation(async (_id, data) => buildDemand(data)),
+    };
+    controller = new BusinessController(
+      { findById: jest.fn().mockResolvedValue({ id: 'business-1', user_id: 'owner-1' }) } as any,
+      demandListingModel as any,
+      undefined,
+      {} as any
+    );
+  });
+
+  it('should save a valid centroid and radius', async () => {
+    await controller.createDemandListing('owner-1', {
+      ...validListing,
+      latitude: 25.7617,
+      longitude: -80.1918,
+      search_radius_miles: 15,
+    });
+
+    expect(demandListingModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ latitude: 25.7617, longitude: -80.1918, search_radius_miles: 15 })
+    );
+  });
+
+  it('should reject out-of-range coordinates and radii before saving', async () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{ search_radius_miles: -10 }, 'Invalid search_radius_miles'],
+      [{ search_radius_miles: 0 }, 'Invalid search_radius_miles'],
+      [{ search_radius_miles: 100000 }, 'Invalid search_radius_miles'],
+      [{ latitude: 91, longitude: 0 }, 'Invalid latitude'],
+      [{ latitude: 0, longitude: -180.5 }, 'Invalid longitude'],
+      [{ latitude: '25.7', longitude: 0 }, 'Invalid latitude'],
+    ];
+
+    for (const [area, message] of cases) {
+      await expect(controller.createDemandListing('owner-1', { ...validListing, ...area } as any)).rejects.toThrow(
+        message
+      );
+      await expect(controller.updateDemandListing('demand-1', 'owner-1', area as any)).rejects.toThrow(message);
+    }
+
+    expect(demandListingModel.create).not.toHaveBeenCalled();
+    expect(demandListingModel.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,227 @@
+import { MessagingController } from '../../../controllers/MessagingController';
+import { buildPdf, wrapText } from '../../../services/export/pdfBuilder';
+import { ConversationParticipantRole, MessageType } from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Conversation Export Tests
+ * Tests for downloading a conversation's record as PDF, JSON or text
+ *
+ * Test Coverage:
+ * - Only participants can export, in one of the supported formats
+ * - JSON exports carry participants, read receipts and attachment manifests
+ * - Deleted messages are kept as placeholders without their content or attachments
+ * - Text exports render a readable transcript
+ * - PDF output is well-formed: escaped strings, a valid xref table and wrapped lines
+ */
+
+const CONVERSATION_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+
+const buildUser = (id: string, firstName: string, lastName: string) => ({
+  id,
+  email: `${firstName.toLowerCase()}@example.com`,
+  role: 'tenant',
+  profile: { first_name: firstName, last_name: lastName, photo_url: null },
+});
+
+const buildMessage = (overrides: Record<string, any>) => ({
+  conversation_id: CONVERSATION_ID,
+  attachments: [],
+  message_type: MessageType.TEXT,
+  metadata: null,
+  reply_to_message_id: null,
+  edited_at: null,
+  is_deleted: false,
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('Conversation export', () => {
+  let conversationModel: Record<string, jest.Mock>;
+  let messageModel: Record<string, jest.Mock>;
+  let controller: MessagingController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    conversationModel = {
+      isParticipant: jest.fn().mockResolvedValue(true),
+      findByIdWithDetails: jest.fn().mockResolvedValue({
+        id: CONVERSATION_ID,
+        subject: 'Suite 200 (LOI)',
+        created_by: 'user-1',
+        created_at: new Date('2026-03-01T15:00:00Z'),
+        property_listing_id: null,
+        demand_listing_id: null,
+      }),
+      findAllParticipants: jest.fn().mockResolvedValue([
+        {
+          user_id: 'user-1',
+          role: ConversationParticipantRole.ADMIN,
+          joined_at: new Date('2026-03-01T15:00:00Z'),
+          left_at: null,
+          user: buildUser('user-1', 'Dana', 'Park'),
+        },
+        {
+          user_id: 'user-2',
+          role: ConversationParticipantRole.MEMBER,
+          joined_at: new Date('2026-03-01T15:00:00Z'),
+          left_at: new Date('2026-03-05T09:00:00Z'),
+          user: buildUser('user-2', 'Sam', 'Ortiz'),
+        },
+      ]),
+    };
+    messageModel = {
+      findAllByConversationId: jest.fn().mockResolvedValue([
+        buildMessage({
+          id: 'message-1',
+          sender_id: 'user-1',
+          content: 'Signed LOI attached',
+          attachments: [{ id: 'attachment-1', name: 'loi.pdf', url: '/x', type: 'application/pdf', size: 20480 }],
+          created_at: new Date('2026-03-02T10:30:00Z'),
+          edited_at: new Date('2026-03-02T10:35:00Z'),
+        }),
+        buildMessage({
+          id: 'message-2',
+          sender_id: 'user-2',
+          content: '[Message deleted]',
+          attachments: [{ id: 'attachment-2', name: 'draft.docx', url: '/y' }],
+          is_deleted: true,
+          deleted_at: new Date('2026-03-03T08:00:00Z'),
+          created_at: new Date('2026-03-03T07:45:00Z'),
+        }),
+      ]),
+      getConversationReadReceipts: jest.fn().mockResolvedValue([
+        { message_id: 'message-1', user_id: 'user-2', read_at: new Date('2026-03-02T11:00:00Z') },
+      ]),
+    };
+
+    controller = new MessagingController(conversationModel as any, messageModel as any);
+  });
+
+  describe('exportConversation', () => {
+    it('should reject non-participants and unsupported formats', async () => {
+      await expect(controller.exportConversation(CONVERSATION_ID, 'user-1', 'docx')).rejects.toThrow(
+        'Invalid format. Must be one of: pdf, json, txt'
+      );
+
+      conversationModel.isParticipant.mockResolvedValue(false);
+      await expect(controller.exportConversation(CONVERSATION_ID, 'outsider-1', 'json')).rejects.toThrow(
+        'not a participant'
+      );
+      expect(messageModel.findAllByConversationId).not.toHaveBeenCalled();
+    });
+
+    it('should export participants, read receipts and attachment manifests as JSON', async () => {
+      const { body, contentType, fileName } = await controller.exportConversation(
+        CONVERSATION_ID,
+        'user-1',
+        'json'
+      );
+      const record = JSON.parse(body as string);
+
+      expect(contentType).toBe('application/json');
+      expect(fileName).toMatch(/^conversation-3c4d5e6f-\d{4}-\d{2}-\d{2}\.json$/);
+      expect(record.participants).toEqual([
+        expect.objectContaining({ name: 'Dana Park', role: 'admin', left_at: null }),
+        expect.objectContaining({ name: 'Sam Ortiz', left_at: '2026-03-05T09:00:00.000Z' }),
+      ]);
+      expect(record.messages[0]).toEqual(
+        expect.objectContaining({
+          sender_name: 'Dana Park',
+          content: 'Signed LOI attached',
+          attachments: [{ id: 'attachment-1', name: 'loi.pdf', type: 'application/pdf', size: 20480 }],
+          read_by: [{ user_id: 'user-2', name: 'Sam Ortiz', read_at: '2026-03-02T11:00:00.000Z' }],
+        })
+      );
+    });
+
+    it('should keep deleted messages as placeholders without content or attachments', async () => {
+      const { body } = await controller.exportConversation(CONVERSATION_ID, 'user-1', 'json');
+      const deleted = JSON.parse(body as string).messages[1];
+
+      expect(deleted).toEqual(
+        expect.objectContaining({
+          sender_name: 'Sam Ortiz',
+          is_deleted: true,
+          deleted_at: '2026-03-03T08:00:00.000Z',
+          content: null,
+          attachments: [],
+        })
+      );
+    });
+
+    it('should render a text transcript', async () => {
+      const { body, contentType } = await controller.exportConversation(CONVERSATION_ID, 'user-1', 'txt');
+
+      expect(contentType).toBe('text/plain; charset=utf-8');
+      expect(body).toContain('Suite 200 (LOI)');
+      expect(body).toContain(
+        '  Sam Ortiz <sam@example.com> - joined 2026-03-01 15:00:00 UTC, left 2026-03-05 09:00:00 UTC'
+      );
+      expect(body).toContain('[2026-03-02 10:30:00 UTC] Dana Park\n  Signed LOI attached');
+      expect(body).toContain('  Attachment: loi.pdf (application/pdf, 20 KB)');
+      expect(body).toContain('  Edited 2026-03-02 10:35:00 UTC');
+      expect(body).toContain('  Read by Sam Ortiz (2026-03-02 11:00:00 UTC)');
+      expect(body).toContain('  [Message deleted 2026-03-03 08:00:00 UTC]');
+      expect(body).not.toContain('draft.docx');
+    });
+
+    it('should default to a PDF download', async () => {
+      const { body, contentType, fileName } = await controller.exportConversation(
+        CONVERSATION_ID,
+        'user-1',
+        undefined
+      );
+
+      expect(contentType).toBe('application/pdf');
+      expect(fileName).toMatch(/\.pdf$/);
+      expect((body as Buffer).toString('latin1')).toContain('(Suite 200 \\(LOI\\))');
+    });
+  });
+
+  describe('buildPdf', () => {
+    it('should write a cross-reference table that points at each object', () => {
+      const pdf = buildPdf('Record', [{ text: 'Café – déjà vu' }]).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(pdf).toContain('(Caf\\351 \\226 d\\351j\\340 vu)');
+
+      const xrefOffset = parseInt(pdf.match(/startxref\n(\d+)/)![1], 10);
+      expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+      const offsets = pdf.match(/^\d{10} 00000 n $/gm)!.map((entry) => parseInt(entry, 10));
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it('should start a new page when a page fills up', () => {
+      const lines = Array.from({ length: 120 }, (_, i) => ({ text: `Line ${i + 1}` }));
+      const pdf = buildPdf('Record', lines).toString('latin1');
+
+      expect(pdf).toMatch(/\/Count 3 >>/);
+      expect(pdf).toContain('(Record - Page 3 of 3)');
+    });
+
+    it('should wrap long lines and hard-break long words', () => {
+      const wrapped = wrapText(`${'word '.repeat(40)}\n${'x'.repeat(200)}`, 200, 10);
+
+      expect(wrapped.length).toBeGreaterThan(4);
+      expect(wrapped.every((line) => line.length > 0 && line.length < 60)).toBe(true);
+    });
+  });
+});
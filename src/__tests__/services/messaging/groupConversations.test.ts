@@ -0,0 +1,266 @@
+import { MessagingController } from '../../../controllers/MessagingController';
+import { ConversationEventType, ConversationParticipantRole, MessageType } from '../../../types';
+
+const mockSocket = {
+  emitNewMessage: jest.fn(),
+  emitNewConversation: jest.fn(),
+  emitParticipantsChanged: jest.fn(),
+  emitConversationRenamed: jest.fn(),
+  emitRemovedFromConversation: jest.fn(),
+};
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => mockSocket,
+}));
+
+/**
+ * Group Conversation Tests
+ * Tests for managing conversation participants, roles and subjects
+ *
+ * Test Coverage:
+ * - Any participant can add people by user ID or email; existing participants are skipped
+ * - Only the creator or an admin can remove participants or change roles
+ * - The creator cannot be removed or demoted
+ * - Leaving promotes a new admin when needed
+ * - Each change posts a system message and is broadcast to the conversation
+ */
+
+const NEW_USER_ID = '6f7a8b9c-0d1e-4f2a-8b3c-4d5e6f7a8b9c';
+const MEMBER_ID = '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d';
+
+const buildParticipant = (userId: string, firstName: string, role = ConversationParticipantRole.MEMBER) => ({
+  id: `participant-${userId}`,
+  conversation_id: 'conversation-1',
+  user_id: userId,
+  role,
+  user: {
+    id: userId,
+    email: `${firstName.toLowerCase()}@example.com`,
+    profile: { first_name: firstName, last_name: 'Lee' },
+  },
+});
+
+const buildConversation = (participants = [
+  buildParticipant('creator-1', 'Cara', ConversationParticipantRole.ADMIN),
+  buildParticipant('member-1', 'Max'),
+  buildParticipant(MEMBER_ID, 'Mia'),
+]) => ({
+  id: 'conversation-1',
+  created_by: 'creator-1',
+  subject: 'Suite 200',
+  participants,
+});
+
+describe('Group conversations', () => {
+  let conversationModel: Record<string, jest.Mock>;
+  let messageModel: Record<string, jest.Mock>;
+  let userModel: Record<string, jest.Mock>;
+  let controller: MessagingController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    conversationModel = {
+      isParticipant: jest.fn().mockResolvedValue(true),
+      findByIdWithDetails: jest.fn().mockResolvedValue(buildConversation()),
+      addParticipant: jest.fn().mockResolvedValue(undefined),
+      removeParticipant: jest.fn().mockResolvedValue(undefined),
+      ensureAdmin: jest.fn().mockResolvedValue(undefined),
+      setParticipantRole: jest.fn().mockResolvedValue(undefined),
+      updateSubject: jest.fn().mockResolvedValue(undefined),
+    };
+    messageModel = {
+      create: jest.fn().mockImplementation(async (data) => ({ id: 'message-1', ...data })),
+      findByIdWithSender: jest.fn().mockResolvedValue(null),
+    };
+    userModel = {
+      findById: jest.fn().mockImplementation(async (id: string) => ({ id })),
+      findByEmail: jest.fn().mockResolvedValue({ id: NEW_USER_ID }),
+    };
+    controller = new MessagingController(
+      conversationModel as any,
+      messageModel as any,
+      undefined,
+      undefined,
+      userModel as any,
+      undefined,
+      { findBlockedBetween: jest.fn().mockResolvedValue([]) } as any
+    );
+  });
+
+  describe('addParticipants', () => {
+    it('should add new people and announce them with a system message', async () => {
+      conversationModel.findByIdWithDetails
+        .mockResolvedValueOnce(buildConversation())
+        .mockResolvedValue(
+          buildConversation([...buildConversation().participants, buildParticipant(NEW_USER_ID, 'Noah')])
+        );
+
+      await controller.addParticipants('conversation-1', 'member-1', {
+        user_ids: [MEMBER_ID],
+        emails: [' Noah@Example.com '],
+      });
+
+      expect(userModel.findByEmail).toHaveBeenCalledWith('noah@example.com');
+      expect(conversationModel.addParticipant).toHaveBeenCalledTimes(1);
+      expect(conversationModel.addParticipant).toHaveBeenCalledWith('conversation-1', NEW_USER_ID);
+      expect(messageModel.create).toHaveBeenCalledWith({
+        conversation_id: 'conversation-1',
+        sender_id: 'member-1',
+        content: 'Max Lee added Noah Lee',
+        message_type: MessageType.SYSTEM,
+        metadata: {
+          event: ConversationEventType.PARTICIPANTS_ADDED,
+          actor_id: 'member-1',
+          user_ids: [NEW_USER_ID],
+        },
+      });
+      expect(mockSocket.emitNewConversation).toHaveBeenCalledWith([NEW_USER_ID], expect.any(Object));
+      expect(mockSocket.emitParticipantsChanged).toHaveBeenCalledWith('conversation-1', expect.any(Array));
+    });
+
+    it('should do nothing when everyone is already a participant', async () => {
+      await controller.addParticipants('conversation-1', 'member-1', { user_ids: [MEMBER_ID] });
+
+      expect(conversationModel.addParticipant).not.toHaveBeenCalled();
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown users and malformed requests', async () => {
+      userModel.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        controller.addParticipants('conversation-1', 'member-1', { emails: ['ghost@example.com'] })
+      ).rejects.toThrow('User not found');
+      await expect(controller.addParticipants('conversation-1', 'member-1', {})).rejects.toThrow(
+        'user_ids or emails is required'
+      );
+      await expect(
+        controller.addParticipants('conversation-1', 'member-1', { user_ids: ['1 OR 1=1'] })
+      ).rejects.toThrow('Invalid user_ids');
+      expect(conversationModel.addParticipant).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeParticipant', () => {
+    it('should let the creator remove a participant', async () => {
+      await controller.removeParticipant('conversation-1', 'creator-1', MEMBER_ID);
+
+      expect(conversationModel.removeParticipant).toHaveBeenCalledWith('conversation-1', MEMBER_ID);
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'Cara Lee removed Mia Lee',
+          message_type: MessageType.SYSTEM,
+          metadata: expect.objectContaining({ event: ConversationEventType.PARTICIPANT_REMOVED }),
+        })
+      );
+      expect(mockSocket.emitRemovedFromConversation).toHaveBeenCalledWith(MEMBER_ID, 'conversation-1');
+    });
+
+    it('should only let the creator or an admin remove others', async () => {
+      await expect(controller.removeParticipant('conversation-1', 'member-1', MEMBER_ID)).rejects.toThrow(
+        'Only the conversation creator or an admin can remove participants'
+      );
+
+      conversationModel.findByIdWithDetails.mockResolvedValue(
+        buildConversation([
+          buildParticipant('creator-1', 'Cara', ConversationParticipantRole.ADMIN),
+          buildParticipant('member-1', 'Max', ConversationParticipantRole.ADMIN),
+        ])
+      );
+      await expect(controller.removeParticipant('conversation-1', 'member-1', 'creator-1')).rejects.toThrow(
+        'The conversation creator cannot be removed'
+      );
+    });
+
+    it('should treat removing yourself as leaving', async () => {
+      await controller.removeParticipant('conversation-1', 'member-1', 'member-1');
+
+      expect(conversationModel.removeParticipant).toHaveBeenCalledWith('conversation-1', 'member-1');
+      expect(conversationModel.ensureAdmin).toHaveBeenCalledWith('conversation-1');
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'Max Lee left the conversation',
+          metadata: expect.objectContaining({ event: ConversationEventType.PARTICIPANT_LEFT }),
+        })
+      );
+      expect(mockSocket.emitRemovedFromConversation).toHaveBeenCalledWith('member-1', 'conversation-1');
+    });
+  });
+
+  describe('setParticipantRole', () => {
+    it('should promote a member and broadcast the participant list', async () => {
+      await controller.setParticipantRole('conversation-1', 'creator-1', 'member-1', 'admin');
+
+      expect(conversationModel.setParticipantRole).toHaveBeenCalledWith(
+        'conversation-1',
+        'member-1',
+        ConversationParticipantRole.ADMIN
+      );
+      expect(mockSocket.emitParticipantsChanged).toHaveBeenCalledWith('conversation-1', expect.any(Array));
+    });
+
+    it('should reject invalid roles, members and demoting the creator', async () => {
+      await expect(controller.setParticipantRole('conversation-1', 'creator-1', 'member-1', 'owner')).rejects.toThrow(
+        'Invalid role'
+      );
+      await expect(controller.setParticipantRole('conversation-1', 'member-1', MEMBER_ID, 'admin')).rejects.toThrow(
+        'Only the conversation creator or an admin'
+      );
+      await expect(
+        controller.setParticipantRole('conversation-1', 'creator-1', 'creator-1', 'member')
+      ).rejects.toThrow('The conversation creator is always an admin');
+      expect(conversationModel.setParticipantRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameConversation', () => {
+    it('should rename the conversation and broadcast the new subject', async () => {
+      await controller.renameConversation('conversation-1', 'member-1', ' Suite 200 lease ');
+
+      expect(conversationModel.updateSubject).toHaveBeenCalledWith('conversation-1', 'Suite 200 lease');
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'Max Lee renamed the conversation to "Suite 200 lease"',
+          metadata: {
+            event: ConversationEventType.SUBJECT_CHANGED,
+            actor_id: 'member-1',
+            subject: 'Suite 200 lease',
+          },
+        })
+      );
+      expect(mockSocket.emitConversationRenamed).toHaveBeenCalledWith('conversation-1', 'Suite 200 lease');
+    });
+
+    it('should clear the subject and ignore unchanged names', async () => {
+      await controller.renameConversation('conversation-1', 'member-1', 'Suite 200');
+      expect(conversationModel.updateSubject).not.toHaveBeenCalled();
+
+      await controller.renameConversation('conversation-1', 'member-1', '  ');
+      expect(conversationModel.updateSubject).toHaveBeenCalledWith('conversation-1', null);
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'Max Lee removed the conversation name' })
+      );
+    });
+
+    it('should reject non-participants and overlong subjects', async () => {
+      await expect(
+        controller.renameConversation('conversation-1', 'member-1', 'x'.repeat(256))
+      ).rejects.toThrow('Invalid subject');
+
+      conversationModel.isParticipant.mockResolvedValue(false);
+      await expect(controller.renameConversation('conversation-1', 'outsider-1', 'Hijacked')).rejects.toThrow(
+        'not a participant'
+      );
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { PropertyListingController } from '../../../controllers/PropertyListingController';
+import { MessagingController } from '../../../controllers/MessagingController';
+import { ConversationModel } from '../../../database/models/Conversation';
+import { MessageType, PropertyListingStatus } from '../../../types';
+
+const mockSocket = {
+  emitNewMessage: jest.fn(),
+};
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../services/SavedSearchService', () => ({
+  savedSearchService: { notifyMatchingSearches: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => mockSocket,
+}));
+
+/**
+ * Listing Inquiry Tests
+ * Tests for deal-room conversations opened from property listings
+ *
+ * Test Coverage:
+ * - An inquiry records the metric and opens a conversation seeded with an inquiry card
+ * - The tenant's existing conversation about the listing is reused
+ * - Demand listing details are copied onto the card for business members only
+ * - Own, inactive and malformed inquiries are rejected before anything is recorded
+ * - Blocked users cannot inquire, and new conversations count toward the rate limit
+ * - Conversations can be filtered by listing
+ */
+
+const DEMAND_LISTING_ID = '5e6f7a8b-9c0d-4e1f-8a2b-3c4d5e6f7a8b';
+
+const listing = {
+  id: 'listing-1',
+  user_id: 'landlord-1',
+  title: 'Corner Retail Suite',
+  status: PropertyListingStatus.ACTIVE,
+};
+
+describe('Listing inquiries', () => {
+  let propertyListingModel: Record<string, jest.Mock>;
+  let metricsModel: Record<string, jest.Mock>;
+  let conversationModel: Record<string, jest.Mock>;
+  let messageModel: Record<string, jest.Mock>;
+  let demandListingModel: Record<string, jest.Mock>;
+  let businessAccess: Record<string, jest.Mock>;
+  let userBlockModel: Record<string, jest.Mock>;
+  let rateLimitService: Record<string, jest.Mock>;
+  let controller: PropertyListingController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    propertyListingModel = { findById: jest.fn().mockResolvedValue(listing) };
+    metricsModel = { incrementMetric: jest.fn().mockResolvedValue(undefined) };
+    conversationModel = {
+      findListingConversation: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue({ id: 'conversation-1', property_listing_id: listing.id }),
+    };
+    messageModel = {
+      create: jest.fn().mockImplementation(async (data) => ({ id: 'message-1', ...data })),
+      findByIdWithSender: jest.fn().mockResolvedValue(null),
+    };
+    demandListingModel = {
+      findById: jest.fn().mockResolvedValue({
+        id: DEMAND_LISTING_ID,
+        business_id: 'business-1',
+        sqft_min: 1200,
+        sqft_max: 1800,
+        budget_min: null,
+        budget_max: 6000,
+        start_date: '2026-09-01',
+      }),
+    };
+    businessAccess = {
+      authorize: jest.fn().mockResolvedValue({ business: { id: 'business-1', name: 'Acme Coffee' } }),
+    };
+
+    userBlockModel = { findBlockedBetween: jest.fn().mockResolvedValue([]) };
+    rateLimitService = { checkRateLimit: jest.fn().mockResolvedValue({ allowed: true }) };
+
+    const messagingController = new MessagingController(
+      conversationModel as any,
+      messageModel as any,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      userBlockModel as any,
+      rateLimitService as any
+    );
+
+    controller = new PropertyListingController(
+      propertyListingModel as any,
+      metricsModel as any,
+      conversationModel as any,
+      messageModel as any,
+      demandListingModel as any,
+      businessAccess as any,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      messagingController
+    );
+  });
+
+  it('should record the inquiry and open a conversation with an inquiry card', async () => {
+    const result = await controller.createInquiry('listing-1', 'tenant-1', {
+      message: ' Is the suite still available? ',
+    });
+
+    expect(metricsModel.incrementMetric).toHaveBeenCalledWith('listing-1', 'inquiries');
+    expect(conversationModel.create).toHaveBeenCalledWith({
+      created_by: 'tenant-1',
+      participant_ids: ['landlord-1'],
+      subject: 'Corner Retail Suite',
+      property_listing_id: 'listing-1',
+      demand_listing_id: undefined,
+    });
+    expect(messageModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        conversation_id: 'conversation-1',
+        content: 'Is the suite still available?',
+        message_type: MessageType.INQUIRY,
+        metadata: expect.objectContaining({ property_listing_id: 'listing-1', demand_listing_id: null }),
+      })
+    );
+    expect(mockSocket.emitNewMessage).toHaveBeenCalledWith(
+      'conversation-1',
+      expect.objectContaining({ id: 'message-1' })
+    );
+    expect(result.created).toBe(true);
+  });
+
+  it('should reuse the existing conversation without repeating the card', async () => {
+    conversationModel.findListingConversation.mockResolvedValue({ id: 'conversation-9' });
+
+    const result = await controller.createInquiry('listing-1', 'tenant-1');
+
+    expect(conversationModel.findListingConversation).toHaveBeenCalledWith('tenant-1', 'landlord-1', 'listing-1');
+    expect(conversationModel.create).not.toHaveBeenCalled();
+    expect(messageModel.create).not.toHaveBeenCalled();
+    expect(metricsModel.incrementMetric).toHaveBeenCalled();
+    expect(result).toEqual({ conversation: { id: 'conversation-9' }, message: null, created: false });
+  });
+
+  it('should post a new card to an existing conversation when the tenant writes a message', async () => {
+    conversationModel.findListingConversation.mockResolvedValue({ id: 'conversation-9' });
+
+    await controller.createInquiry('listing-1', 'tenant-1', { message: 'Following up on my inquiry' });
+
+    expect(messageModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ conversation_id: 'conversation-9', message_type: MessageType.INQUIRY })
+    );
+  });
+
+  it('should copy the demand listing requirements onto the card', async () => {
+    await controller.createInquiry('listing-1', 'tenant-1', { demand_listing_id: DEMAND_LISTING_ID });
+
+    expect(businessAccess.authorize).toHaveBeenCalledWith('business-1', 'tenant-1');
+    expect(conversationModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({ demand_listing_id: DEMAND_LISTING_ID })
+    );
+    expect(messageModel.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: "I'm interested in Corner Retail Suite.",
+        metadata: {
+          property_listing_id: 'listing-1',
+          property_title: 'Corner Retail Suite',
+          demand_listing_id: DEMAND_LISTING_ID,
+          business_name: 'Acme Coffee',
+          sqft_min: 1200,
+          sqft_max: 1800,
+          budget_min: null,
+          budget_max: 6000,
+          move_in_date: '2026-09-01',
+        },
+      })
+    );
+  });
+
+  it("should reject another business's demand listing before recording anything", async () => {
+    businessAccess.authorize.mockRejectedValue(new Error('Unauthorized: You are not a member of this business'));
+
+    await expect(
+      controller.createInquiry('listing-1', 'tenant-1', { demand_listing_id: DEMAND_LISTING_ID })
+    ).rejects.toThrow('Unauthorized');
+    await expect(
+      controller.createInquiry('listing-1', 'tenant-1', { demand_listing_id: 'not-a-uuid' })
+    ).rejects.toThrow('Demand listing not found');
+    expect(metricsModel.incrementMetric).not.toHaveBeenCalled();
+  });
+
+  it('should reject own, inactive and malformed inquiries', async () => {
+    await expect(controller.createInquiry('listing-1', 'landlord-1')).rejects.toThrow(
+      'You cannot inquire about your own listing'
+    );
+    await expect(
+      controller.createInquiry('listing-1', 'tenant-1', { move_in_date: 'next month' })
+    ).rejects.toThrow('move_in_date must be a date');
+
+    propertyListingModel.findById.mockResolvedValue({ ...listing, status: PropertyListingStatus.LEASED });
+    await expect(controller.createInquiry('listing-1', 'tenant-1')).rejects.toThrow('not accepting inquiries');
+
+    propertyListingModel.findById.mockResolvedValue(null);
+    await expect(controller.createInquiry('listing-1', 'tenant-1')).rejects.toThrow('Property listing not found');
+
+    expect(metricsModel.incrementMetric).not.toHaveBeenCalled();
+  });
+
+  it('should reject inquiries between blocked users before recording anything', async () => {
+    userBlockModel.findBlockedBetween.mockResolvedValue(['landlord-1']);
+
+    await expect(controller.createInquiry('listing-1', 'tenant-1', { message: 'Hello?' })).rejects.toThrow(
+      'blocked'
+    );
+
+    expect(userBlockModel.findBlockedBetween).toHaveBeenCalledWith('tenant-1', ['landlord-1']);
+    expect(metricsModel.incrementMetric).not.toHaveBeenCalled();
+    expect(conversationModel.create).not.toHaveBeenCalled();
+    expect(messageModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should apply the new conversation limit only when opening a conversation', async () => {
+    rateLimitService.checkRateLimit.mockResolvedValue({ allowed: false, retryAfter: 120 });
+
+    await expect(controller.createInquiry('listing-1', 'tenant-1')).rejects.toThrow(
+      'Too many new conversations. Please try again in 2 minutes.'
+    );
+    expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith('new_conversation', 'tenant-1');
+    expect(metricsModel.incrementMetric).not.toHaveBeenCalled();
+    expect(conversationModel.create).not.toHaveBeenCalled();
+
+    rateLimitService.checkRateLimit.mockClear();
+    conversationModel.findListingConversation.mockResolvedValue({ id: 'conversation-9' });
+
+    await controller.createInquiry('listing-1', 'tenant-1', { message: 'Following up' });
+
+    expect(rateLimitService.checkRateLimit).not.toHaveBeenCalled();
+    expect(messageModel.create).toHaveBeenCalled();
+  });
+
+  describe('conversation listing filter', () => {
+    it('should filter conversations by listing', async () => {
+      const pool = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ total: '0' }] }).mockResolvedValue({ rows: [] }),
+      };
+      const model = new ConversationModel(pool as any);
+
+      await model.findByUserId('user-1', { property_listing_id: 'listing-1', limit: 10 });
+
+      const [countSql, countParams] = pool.query.mock.calls[0];
+      const [listSql, listParams] = pool.query.mock.calls[1];
+      expect(countSql).toContain('c.property_listing_id = $2');
+      expect(countParams).toEqual(['user-1', 'listing-1']);
+      expect(listSql).toContain('LIMIT $3 OFFSET $4');
+      expect(listParams).toEqual(['user-1', 'listing-1', 10, 0]);
+    });
+
+    it('should reject malformed listing ids', async () => {
+      const messagingController = new MessagingController({ findByUserId: jest.fn() } as any, {} as any);
+
+      await expect(
+        messagingController.getConversations('user-1', { demand_listing_id: '1 OR 1=1' })
+      ).rejects.toThrow('Invalid demand_listing_id');
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import sharp from 'sharp';
+import { MessagingController } from '../../../controllers/MessagingController';
+import { MessageAttachmentService } from '../../../services/storage/MessageAttachmentService';
+import { AttachmentStorage } from '../../../services/storage/AttachmentStorage';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+/**
+ * Message Attachment Tests
+ * Tests for the attachment upload pipeline and signed downloads
+ *
+ * Test Coverage:
+ * - MIME type and size validation
+ * - Content scan: signatures must match the declared type, executables rejected
+ * - Image thumbnails are generated and stored next to the original
+ * - Signed URLs are bound to a user and expire
+ * - Production refuses to sign URLs with the built-in development secret
+ * - Downloads re-check that the user is still a participant and the message still exists
+ * - Messages can only attach the sender's own unsent uploads
+ */
+
+const ATTACHMENT_ID = '6f1f7a2e-8d4b-4c1a-9f3e-2b7c5d8e9a01';
+
+const buildUpload = (overrides: Record<string, any> = {}) => ({
+  id: ATTACHMENT_ID,
+  conversation_id: 'conversation-1',
+  uploader_id: 'user-1',
+  message_id: null,
+  file_name: 'floor-plan.png',
+  mime_type: 'image/png',
+  size_bytes: 2048,
+  storage_key: 'message-attachments/conversation-1/abc.png',
+  thumbnail_key: 'message-attachments/conversation-1/abc-thumbnail.jpg',
+  preview_key: null,
+  created_at: new Date(),
+  ...overrides,
+});
+
+const createMemoryStorage = () => {
+  const files = new Map<string, Buffer>();
+  const storage: AttachmentStorage = {
+    put: jest.fn(async (key: string, body: Buffer) => {
+      files.set(key, body);
+    }),
+    get: jest.fn(async (key: string) => {
+      const file = files.get(key);
+      if (!file) throw new Error('Attachment file not found');
+      return file;
+    }),
+    delete: jest.fn(async (key: string) => {
+      files.delete(key);
+    }),
+  };
+  return { storage, files };
+};
+
+describe('Message attachments', () => {
+  let service: MessageAttachmentService;
+  let memory: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    memory = createMemoryStorage();
+    service = new MessageAttachmentService(memory.storage, 'test-secret');
+  });
+
+  describe('validation and scanning', () => {
+    it('should reject disallowed types and oversized files', () => {
+      expect(() => service.validate('application/x-msdownload', 100)).toThrow('Invalid file type');
+      expect(() => service.validate('application/pdf', 26 * 1024 * 1024)).toThrow('must not exceed 25 MB');
+      expect(() => service.validate('application/pdf', 0)).toThrow('empty');
+    });
+
+    it('should reject contents that do not match the declared type', () => {
+      expect(() => service.scan(Buffer.from('not really a pdf'), 'application/pdf')).toThrow(
+        'contents do not match'
+      );
+      expect(() => service.scan(Buffer.from('%PDF-1.7\n'), 'application/pdf')).not.toThrow();
+    });
+
+    it('should reject executables whatever type they claim', () => {
+      expect(() => service.scan(Buffer.from('MZ\x90\x00'), 'text/plain')).toThrow('executable');
+      expect(() => service.scan(Buffer.from('#!/bin/sh\nrm -rf /'), 'text/csv')).toThrow('executable');
+    });
+
+    it('should reject binary data declared as text', () => {
+      expect(() => service.scan(Buffer.from([0x61, 0x00, 0x62]), 'text/plain')).toThrow(
+        'contents do not match'
+      );
+    });
+  });
+
+  describe('store', () => {
+    it('should store an image with a thumbnail', async () => {
+      const png = await sharp({
+        create: { width: 800, height: 600, channels: 3, background: '#336699' },
+      })
+        .png()
+        .toBuffer();
+
+      const stored = await service.store('conversation-1', {
+        buffer: png,
+        mimeType: 'image/png',
+        size: png.length,
+        originalName: 'floor-plan.png',
+      });
+
+      expect(stored.storageKey).toMatch(/^message-attachments\/conversation-1\/.+\.png$/);
+      expect(stored.thumbnailKey).toMatch(/-thumbnail\.jpg$/);
+      expect(stored.previewKey).toBeNull();
+
+      const thumbnail = await sharp(memory.files.get(stored.thumbnailKey as string)).metadata();
+      expect(thumbnail.format).toBe('jpeg');
+      expect(thumbnail.width).toBe(320);
+    });
+
+    it('should reject images that cannot be decoded', async () => {
+      const corrupt = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47]), Buffer.alloc(64, 1)]);
+
+      await expect(
+        service.store('conversation-1', {
+          buffer: corrupt,
+          mimeType: 'image/png',
+          size: corrupt.length,
+          originalName: 'broken.png',
+        })
+      ).rejects.toThrow('could not be read');
+      expect(memory.storage.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signed URLs', () => {
+    const paramsOf = (url: string) => Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+    it('should verify a URL for the user it was issued to', () => {
+      const params = paramsOf(service.createSignedUrl(ATTACHMENT_ID, 'user-2', 'thumbnail'));
+
+      expect(service.verifySignedUrl(ATTACHMENT_ID, params)).toBe('user-2');
+      expect(() => service.verifySignedUrl(ATTACHMENT_ID, { ...params, user: 'user-3' })).toThrow(
+        'Invalid download link'
+      );
+      expect(() => service.verifySignedUrl(ATTACHMENT_ID, { ...params, variant: 'original' })).toThrow(
+        'Invalid download link'
+      );
+    });
+
+    it('should reject expired URLs', () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-05-01T12:00:00Z'));
+      const params = paramsOf(service.createSignedUrl(ATTACHMENT_ID, 'user-2', 'original'));
+
+      nowSpy.mockReturnValue(Date.parse('2026-05-01T12:06:00Z'));
+      expect(() => service.verifySignedUrl(ATTACHMENT_ID, params)).toThrow('expired');
+      nowSpy.mockRestore();
+    });
+
+    it('should refuse to start in production without a signing secret', () => {
+      const env = { ...process.env };
+      process.env.NODE_ENV = 'production';
+      delete process.env.ATTACHMENT_URL_SECRET;
+      delete process.env.JWT_SECRET;
+
+      try {
+        expect(() => new MessageAttachmentService(memory.storage)).toThrow(
+          'ATTACHMENT_URL_SECRET or JWT_SECRET must be set in production environment'
+        );
+
+        process.env.ATTACHMENT_URL_SECRET = 'configured-secret';
+        expect(() => new MessageAttachmentService(memory.storage)).not.toThrow();
+      } finally {
+        process.env = env;
+      }
+    });
+  });
+
+  describe('MessagingController', () => {
+    let conversationModel: Record<string, jest.Mock>;
+    let messageModel: Record<string, jest.Mock>;
+    let attachmentModel: Record<string, jest.Mock>;
+    let controller: MessagingController;
+
+    beforeEach(() => {
+      conversationModel = { isParticipant: jest.fn().mockResolvedValue(true) };
+      messageModel = {
+        create: jest.fn().mockImplementation(async (data) => ({ id: 'message-1', ...data })),
+        findById: jest.fn().mockResolvedValue({ id: 'message-1', is_deleted: false }),
+        findByIdWithSender: jest.fn().mockImplementation(async (id: string) => ({ id })),
+      };
+      attachmentModel = {
+        findById: jest.fn(),
+        findUnclaimed: jest.fn().mockResolvedValue([buildUpload()]),
+        claim: jest.fn().mockResolvedValue(undefined),
+      };
+      controller = new MessagingController(
+        conversationModel as any,
+        messageModel as any,
+        attachmentModel as any,
+        service,
+        undefined,
+        undefined,
+        { isBlockedInDirectConversation: jest.fn().mockResolvedValue(false) } as any
+      );
+    });
+
+    it('should attach the sender’s uploads and allow attachment-only messages', async () => {
+      await controller.sendMessage('conversation-1', 'user-1', {
+        content: '',
+        attachments: [{ id: ATTACHMENT_ID }],
+      });
+
+      expect(attachmentModel.findUnclaimed).toHaveBeenCalledWith([ATTACHMENT_ID], 'conversation-1', 'user-1');
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: '',
+          attachments: [
+            expect.objectContaining({
+              id: ATTACHMENT_ID,
+              name: 'floor-plan.png',
+              url: `/api/messages/attachments/${ATTACHMENT_ID}`,
+              thumbnail_url: `/api/messages/attachments/${ATTACHMENT_ID}?variant=thumbnail`,
+            }),
+          ],
+        })
+      );
+      expect(attachmentModel.claim).toHaveBeenCalledWith([ATTACHMENT_ID], 'message-1');
+    });
+
+    it('should reject external URLs and uploads the sender does not own', async () => {
+      await expect(
+        controller.sendMessage('conversation-1', 'user-1', {
+          content: 'See attached',
+          attachments: [{ name: 'x', url: 'https://example.com/x.pdf' } as any],
+        })
+      ).rejects.toThrow('upload files before sending them');
+
+      attachmentModel.findUnclaimed.mockResolvedValue([]);
+      await expect(
+        controller.sendMessage('conversation-1', 'user-1', {
+          content: 'See attached',
+          attachments: [{ id: ATTACHMENT_ID }],
+        })
+      ).rejects.toThrow('upload files before sending them');
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should serve a signed download to a current participant', async () => {
+      const upload = buildUpload({ message_id: 'message-1' });
+      attachmentModel.findById.mockResolvedValue(upload);
+      memory.files.set(upload.thumbnail_key, Buffer.from('thumbnail-bytes'));
+
+      const url = await controller.getAttachmentUrl(ATTACHMENT_ID, 'user-2', 'thumbnail');
+      const params = Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+      const file = await controller.downloadAttachment(ATTACHMENT_ID, params);
+
+      expect(file).toEqual({
+        buffer: Buffer.from('thumbnail-bytes'),
+        contentType: 'image/jpeg',
+        fileName: 'floor-plan.png',
+      });
+    });
+
+    it('should refuse a signed download once the user has left the conversation', async () => {
+      attachmentModel.findById.mockResolvedValue(buildUpload({ message_id: 'message-1' }));
+      const url = await controller.getAttachmentUrl(ATTACHMENT_ID, 'user-2', 'original');
+      const params = Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+      conversationModel.isParticipant.mockResolvedValue(false);
+
+      await expect(controller.downloadAttachment(ATTACHMENT_ID, params)).rejects.toThrow(
+        'not a participant'
+      );
+    });
+
+    it('should refuse a signed download once the message has been deleted', async () => {
+      attachmentModel.findById.mockResolvedValue(buildUpload({ message_id: 'message-1' }));
+      const url = await controller.getAttachmentUrl(ATTACHMENT_ID, 'user-2', 'original');
+      const params = Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+
+      messageModel.findById.mockResolvedValue({ id: 'message-1', is_deleted: true });
+
+      await expect(controller.downloadAttachment(ATTACHMENT_ID, params)).rejects.toThrow(
+        'Attachment not found'
+      );
+      expect(messageModel.findById).toHaveBeenCalledWith('message-1');
+    });
+
+    it('should hide unsent uploads from other participants', async () => {
+      attachmentModel.findById.mockResolvedValue(buildUpload());
+
+      await expect(controller.getAttachmentUrl(ATTACHMENT_ID, 'user-2')).rejects.toThrow(
+        'Attachment not found'
+      );
+    });
+  });
+});
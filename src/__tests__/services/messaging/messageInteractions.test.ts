@@ -0,0 +1,246 @@
+import { MessagingController } from '../../../controllers/MessagingController';
+import { MessageType } from '../../../types';
+
+const mockSocket = {
+  emitMessageEdited: jest.fn(),
+  emitMessageReaction: jest.fn(),
+};
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => mockSocket,
+}));
+
+/**
+ * Message Interaction Tests
+ * Tests for message editing, replies and reactions
+ *
+ * Test Coverage:
+ * - Only the sender can edit, while still a participant; unchanged content is not recorded as an edit
+ * - Edits are broadcast as message:edited
+ * - Conversation event messages can't be edited or deleted, even by the user who caused them
+ * - Inquiry cards can't be edited or deleted by the tenant who sent them
+ * - Replies must quote a live message from the same conversation
+ * - Reactions must be a single emoji and are broadcast as message:reaction
+ * - Non-participants cannot react or read the edit history
+ */
+
+const REPLY_TO_ID = '3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e6f';
+
+const buildMessage = (overrides: Record<string, any> = {}) => ({
+  id: 'message-1',
+  conversation_id: 'conversation-1',
+  sender_id: 'user-1',
+  content: 'Can we tour on Tuesday?',
+  message_type: MessageType.TEXT,
+  attachments: [],
+  status: 'sent',
+  reply_to_message_id: null,
+  edited_at: null,
+  is_deleted: false,
+  deleted_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+describe('Message interactions', () => {
+  let conversationModel: Record<string, jest.Mock>;
+  let messageModel: Record<string, jest.Mock>;
+  let controller: MessagingController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    conversationModel = { isParticipant: jest.fn().mockResolvedValue(true) };
+    messageModel = {
+      create: jest.fn().mockImplementation(async (data) => buildMessage({ id: 'message-2', ...data })),
+      findById: jest.fn().mockResolvedValue(buildMessage()),
+      findByIdWithSender: jest.fn().mockImplementation(async (id: string) => buildMessage({ id })),
+      updateContent: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+      getEdits: jest.fn().mockResolvedValue([]),
+      addReaction: jest.fn().mockResolvedValue(undefined),
+      removeReaction: jest.fn().mockResolvedValue(undefined),
+      getReactions: jest.fn().mockResolvedValue([{ emoji: '👍', count: 1, user_ids: ['user-2'] }]),
+    };
+    controller = new MessagingController(
+      conversationModel as any,
+      messageModel as any,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { isBlockedInDirectConversation: jest.fn().mockResolvedValue(false) } as any
+    );
+  });
+
+  describe('editMessage', () => {
+    it('should keep the previous content and broadcast the edit', async () => {
+      await controller.editMessage('message-1', 'user-1', ' Can we tour on Wednesday? ');
+
+      expect(messageModel.updateContent).toHaveBeenCalledWith(
+        'message-1',
+        'Can we tour on Wednesday?',
+        'user-1'
+      );
+      expect(mockSocket.emitMessageEdited).toHaveBeenCalledWith(
+        'conversation-1',
+        expect.objectContaining({ id: 'message-1' })
+      );
+    });
+
+    it('should not record an edit when the content is unchanged', async () => {
+      await controller.editMessage('message-1', 'user-1', 'Can we tour on Tuesday?');
+
+      expect(messageModel.updateContent).not.toHaveBeenCalled();
+      expect(mockSocket.emitMessageEdited).not.toHaveBeenCalled();
+    });
+
+    it('should only let the sender edit', async () => {
+      await expect(controller.editMessage('message-1', 'user-2', 'Hijacked')).rejects.toThrow(
+        'You can only edit your own messages'
+      );
+    });
+
+    it('should not let a sender who has left the conversation edit', async () => {
+      conversationModel.isParticipant.mockResolvedValue(false);
+
+      await expect(controller.editMessage('message-1', 'user-1', 'Still here?')).rejects.toThrow(
+        'You are not a participant in this conversation'
+      );
+      expect(conversationModel.isParticipant).toHaveBeenCalledWith('conversation-1', 'user-1');
+      expect(messageModel.updateContent).not.toHaveBeenCalled();
+    });
+
+    it('should not edit deleted messages or clear text-only messages', async () => {
+      messageModel.findById.mockResolvedValueOnce(buildMessage({ is_deleted: true }));
+      await expect(controller.editMessage('message-1', 'user-1', 'Back again')).rejects.toThrow(
+        'Message not found'
+      );
+
+      await expect(controller.editMessage('message-1', 'user-1', '   ')).rejects.toThrow(
+        'Message content is required'
+      );
+    });
+  });
+
+  describe('conversation events', () => {
+    it('should not let the user who caused an event edit or delete its message', async () => {
+      messageModel.findById.mockResolvedValue(
+        buildMessage({ content: 'Sam added Alex to the conversation', message_type: MessageType.SYSTEM })
+      );
+
+      await expect(controller.editMessage('message-1', 'user-1', 'Nothing happened')).rejects.toThrow(
+        'Only text messages can be edited'
+      );
+      await expect(controller.deleteMessage('message-1', 'user-1')).rejects.toThrow(
+        'Only text messages can be deleted'
+      );
+      expect(messageModel.updateContent).not.toHaveBeenCalled();
+      expect(messageModel.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inquiry cards', () => {
+    it('should keep the card text in step with its details by refusing edits and deletes', async () => {
+      messageModel.findById.mockResolvedValue(
+        buildMessage({
+          content: "I'm interested in Corner Retail Suite.",
+          message_type: MessageType.INQUIRY,
+          metadata: { property_listing_id: 'listing-1', property_title: 'Corner Retail Suite' },
+        })
+      );
+
+      await expect(controller.editMessage('message-1', 'user-1', 'Never mind')).rejects.toThrow(
+        'Only text messages can be edited'
+      );
+      await expect(controller.deleteMessage('message-1', 'user-1')).rejects.toThrow(
+        'Only text messages can be deleted'
+      );
+      expect(messageModel.updateContent).not.toHaveBeenCalled();
+      expect(messageModel.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replies', () => {
+    it('should send a reply to a message in the same conversation', async () => {
+      messageModel.findById.mockResolvedValue(buildMessage({ id: REPLY_TO_ID }));
+
+      await controller.sendMessage('conversation-1', 'user-2', {
+        content: 'Tuesday works',
+        reply_to_message_id: REPLY_TO_ID,
+      });
+
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ reply_to_message_id: REPLY_TO_ID })
+      );
+    });
+
+    it('should reject replies to messages from another conversation', async () => {
+      messageModel.findById.mockResolvedValue(
+        buildMessage({ id: REPLY_TO_ID, conversation_id: 'conversation-2' })
+      );
+
+      await expect(
+        controller.sendMessage('conversation-1', 'user-2', {
+          content: 'Tuesday works',
+          reply_to_message_id: REPLY_TO_ID,
+        })
+      ).rejects.toThrow('Invalid reply_to_message_id');
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject replies to deleted messages', async () => {
+      messageModel.findById.mockResolvedValue(buildMessage({ id: REPLY_TO_ID, is_deleted: true }));
+
+      await expect(
+        controller.sendMessage('conversation-1', 'user-2', {
+          content: 'Tuesday works',
+          reply_to_message_id: REPLY_TO_ID,
+        })
+      ).rejects.toThrow('the message was deleted');
+    });
+  });
+
+  describe('reactions', () => {
+    it('should add a reaction and broadcast the updated reactions', async () => {
+      const reactions = await controller.setReaction('message-1', 'user-2', '👍', true);
+
+      expect(messageModel.addReaction).toHaveBeenCalledWith('message-1', 'user-2', '👍');
+      expect(mockSocket.emitMessageReaction).toHaveBeenCalledWith('conversation-1', 'message-1', reactions);
+    });
+
+    it('should accept multi-codepoint emoji and remove reactions', async () => {
+      await controller.setReaction('message-1', 'user-2', '👍🏽', false);
+      await controller.setReaction('message-1', 'user-2', '👨‍👩‍👧', true);
+
+      expect(messageModel.removeReaction).toHaveBeenCalledWith('message-1', 'user-2', '👍🏽');
+      expect(messageModel.addReaction).toHaveBeenCalledWith('message-1', 'user-2', '👨‍👩‍👧');
+    });
+
+    it('should reject text that is not an emoji', async () => {
+      await expect(controller.setReaction('message-1', 'user-2', 'lol', true)).rejects.toThrow('Invalid emoji');
+      await expect(controller.setReaction('message-1', 'user-2', '1', true)).rejects.toThrow('Invalid emoji');
+      await expect(controller.setReaction('message-1', 'user-2', '', true)).rejects.toThrow('Emoji is required');
+      expect(messageModel.addReaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-participants', async () => {
+      conversationModel.isParticipant.mockResolvedValue(false);
+
+      await expect(controller.setReaction('message-1', 'user-3', '👍', true)).rejects.toThrow(
+        'not a participant'
+      );
+      await expect(controller.getMessageEdits('message-1', 'user-3')).rejects.toThrow('not a participant');
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { MessagingController } from '../../../controllers/MessagingController';
+import { MessageModel } from '../../../database/models/Message';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+/**
+ * Message Search Tests
+ * Tests for full-text message search
+ *
+ * Test Coverage:
+ * - Query validation and filter id checks
+ * - Limits are clamped and a cursor is returned while more results remain
+ * - Filters and the cursor are turned into parameterized conditions
+ * - Rows are mapped with their rank and highlighted excerpt
+ */
+
+const CONVERSATION_ID = '2b0c6a4e-5f1d-4d7e-9a3b-8c1e2f3a4b5c';
+const SENDER_ID = '7d9e1f2a-3b4c-4d5e-8f6a-1b2c3d4e5f6a';
+const MESSAGE_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+
+const buildRow = (overrides: Record<string, any> = {}) => ({
+  id: MESSAGE_ID,
+  conversation_id: CONVERSATION_ID,
+  sender_id: SENDER_ID,
+  content: 'The floor plan for suite 200 is attached',
+  attachments: [],
+  status: 'sent',
+  is_deleted: false,
+  deleted_at: null,
+  created_at: new Date('2026-04-02T10:00:00Z'),
+  updated_at: new Date('2026-04-02T10:00:00Z'),
+  rank: 0.0607927,
+  highlight: 'The <mark>floor</mark> <mark>plan</mark> for suite 200 is attached',
+  sender_user_id: SENDER_ID,
+  sender_email: 'landlord@example.com',
+  sender_role: 'landlord',
+  sender_first_name: 'Lee',
+  sender_last_name: 'Landlord',
+  sender_photo_url: null,
+  ...overrides,
+});
+
+describe('Message search', () => {
+  describe('MessagingController.searchMessages', () => {
+    let messageModel: Record<string, jest.Mock>;
+    let controller: MessagingController;
+
+    beforeEach(() => {
+      messageModel = {
+        search: jest.fn().mockResolvedValue({ messages: [], hasMore: false }),
+      };
+      controller = new MessagingController({} as any, messageModel as any);
+    });
+
+    it('should require at least 2 characters', async () => {
+      await expect(controller.searchMessages('user-1', ' a ')).rejects.toThrow('at least 2 characters');
+      expect(messageModel.search).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed filter ids and cursors', async () => {
+      await expect(
+        controller.searchMessages('user-1', 'lease', { conversation_id: 'not-a-uuid' })
+      ).rejects.toThrow('Invalid conversation_id');
+      await expect(controller.searchMessages('user-1', 'lease', { cursor: '1; DROP' })).rejects.toThrow(
+        'Invalid cursor'
+      );
+    });
+
+    it('should reject a date range that ends before it starts', async () => {
+      await expect(
+        controller.searchMessages('user-1', 'lease', {
+          from: new Date('2026-05-01'),
+          to: new Date('2026-04-01'),
+        })
+      ).rejects.toThrow('Invalid date range');
+    });
+
+    it('should clamp the limit and return the last result as the next cursor', async () => {
+      messageModel.search.mockResolvedValue({
+        messages: [{ id: 'm-1' }, { id: 'm-2' }],
+        hasMore: true,
+      });
+
+      const result = await controller.searchMessages('user-1', '  floor plan ', {
+        limit: 500,
+        has_attachment: true,
+      });
+
+      expect(messageModel.search).toHaveBeenCalledWith(
+        'user-1',
+        'floor plan',
+        expect.objectContaining({ limit: 50, has_attachment: true })
+      );
+      expect(result.nextCursor).toBe('m-2');
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      messageModel.search.mockResolvedValue({ messages: [{ id: 'm-1' }], hasMore: false });
+
+      const result = await controller.searchMessages('user-1', 'floor plan');
+
+      expect(result).toEqual({ messages: [{ id: 'm-1' }], hasMore: false, nextCursor: null });
+    });
+  });
+
+  describe('MessageModel.search', () => {
+    let pool: { query: jest.Mock };
+    let model: MessageModel;
+
+    beforeEach(() => {
+      pool = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+      model = new MessageModel(pool as any);
+    });
+
+    it('should rank tsvector matches in the user’s conversations', async () => {
+      await model.search('user-1', 'floor plan');
+
+      const [sql, params] = pool.query.mock.calls[0];
+      expect(sql).toContain("websearch_to_tsquery('english', $2)");
+      expect(sql).toContain('m.search_vector @@ search.query');
+      expect(sql).toContain('cp.left_at IS NULL');
+      expect(sql).toContain('ORDER BY rank DESC, m.created_at DESC, m.id DESC');
+      expect(params).toEqual(['user-1', 'floor plan', 21]);
+    });
+
+    it('should add filters and the cursor as parameters', async () => {
+      const from = new Date('2026-04-01T00:00:00Z');
+      const to = new Date('2026-04-30T23:59:59Z');
+
+      await model.search('user-1', 'floor plan', {
+        conversation_id: CONVERSATION_ID,
+        sender_id: SENDER_ID,
+        from,
+        to,
+        has_attachment: false,
+        limit: 10,
+        after: MESSAGE_ID,
+      });
+
+      const [sql, params] = pool.query.mock.calls[0];
+      expect(sql).toContain('m.conversation_id = $3');
+      expect(sql).toContain('m.sender_id = $4');
+      expect(sql).toContain('m.created_at >= $5');
+      expect(sql).toContain('m.created_at <= $6');
+      expect(sql).toContain('jsonb_array_length(m.attachments) = 0');
+      expect(sql).toContain('FROM messages c WHERE c.id = $7');
+      expect(params).toEqual(['user-1', 'floor plan', CONVERSATION_ID, SENDER_ID, from, to, MESSAGE_ID, 11]);
+    });
+
+    it('should map rows with rank and highlight and detect more pages', async () => {
+      pool.query.mockResolvedValue({
+        rows: [buildRow(), buildRow({ id: 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e' })],
+      });
+
+      const { messages, hasMore } = await model.search('user-1', 'floor plan', { limit: 1 });
+
+      expect(hasMore).toBe(true);
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({
+        id: MESSAGE_ID,
+        rank: 0.0607927,
+        highlight: 'The <mark>floor</mark> <mark>plan</mark> for suite 200 is attached',
+        sender: { email: 'landlord@example.com', profile: { first_name: 'Lee' } },
+      });
+      expect(messages[0]).not.toHaveProperty('search_vector');
+    });
+  });
+});
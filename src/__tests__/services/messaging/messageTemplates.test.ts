@@ -0,0 +1,179 @@
+import {
+  MessageTemplateController,
+  renderMessageTemplate,
+} from '../../../controllers/MessageTemplateController';
+import { BusinessMemberRole } from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+/**
+ * Message Template Tests
+ * Tests for canned responses and their listing variables
+ *
+ * Test Coverage:
+ * - Variables are filled and formatted from the conversation's property listing
+ * - Variables without a value are left in place and reported
+ * - Unknown variables and invalid names are rejected on save
+ * - Business templates require admin access to create and manage, and team access to use
+ * - Personal templates are private to their owner
+ */
+
+const TEMPLATE_ID = '8b9c0d1e-2f3a-4b4c-9d5e-6f7a8b9c0d1e';
+const BUSINESS_ID = '9c0d1e2f-3a4b-4c5d-8e6f-7a8b9c0d1e2f';
+
+const listing: any = {
+  id: 'listing-1',
+  title: 'Corner Retail Suite',
+  sqft: 1850,
+  asking_price: '5400.00',
+  price_per_sqft: null,
+  lease_type: 'NNN',
+  cam_charges: '4.5',
+  available_date: '2026-11-01',
+};
+
+const buildTemplate = (overrides: Record<string, any> = {}) => ({
+  id: TEMPLATE_ID,
+  user_id: 'landlord-1',
+  business_id: null,
+  name: 'cam',
+  content: 'CAM is {{cam_charges}}/SF on a {{lease_type}} lease.',
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+describe('Message templates', () => {
+  describe('renderMessageTemplate', () => {
+    it('should fill variables from the listing', () => {
+      const result = renderMessageTemplate(
+        '{{title}} is {{ sqft }} SF at {{asking_price}}/mo, {{lease_type}}, CAM {{cam_charges}}/SF, available {{available_date}}.',
+        listing
+      );
+
+      expect(result).toEqual({
+        content:
+          'Corner Retail Suite is 1,850 SF at $5,400/mo, NNN, CAM $4.50/SF, available November 1, 2026.',
+        missing_variables: [],
+      });
+    });
+
+    it('should leave variables without a value in place', () => {
+      expect(renderMessageTemplate('{{price_per_sqft}} and {{lease_type}}', listing)).toEqual({
+        content: '{{price_per_sqft}} and NNN',
+        missing_variables: ['price_per_sqft'],
+      });
+      expect(renderMessageTemplate('Available {{available_date}}', null)).toEqual({
+        content: 'Available {{available_date}}',
+        missing_variables: ['available_date'],
+      });
+    });
+  });
+
+  describe('MessageTemplateController', () => {
+    let messageTemplateModel: Record<string, jest.Mock>;
+    let conversationModel: Record<string, jest.Mock>;
+    let propertyListingModel: Record<string, jest.Mock>;
+    let businessAccess: Record<string, jest.Mock>;
+    let controller: MessageTemplateController;
+
+    beforeEach(() => {
+      messageTemplateModel = {
+        findById: jest.fn().mockResolvedValue(buildTemplate()),
+        countByOwner: jest.fn().mockResolvedValue(0),
+        create: jest.fn().mockImplementation(async (data) => buildTemplate(data)),
+        update: jest.fn().mockImplementation(async (_id, data) => buildTemplate(data)),
+        delete: jest.fn().mockResolvedValue(true),
+      };
+      conversationModel = {
+        isParticipant: jest.fn().mockResolvedValue(true),
+        findById: jest.fn().mockResolvedValue({ id: 'conversation-1', property_listing_id: 'listing-1' }),
+      };
+      propertyListingModel = { findById: jest.fn().mockResolvedValue(listing) };
+      businessAccess = { authorize: jest.fn().mockResolvedValue({ role: BusinessMemberRole.ADMIN }) };
+
+      controller = new MessageTemplateController(
+        messageTemplateModel as any,
+        conversationModel as any,
+        propertyListingModel as any,
+        businessAccess as any
+      );
+    });
+
+    it('should share a template with a business the user administers', async () => {
+      await controller.createTemplate('landlord-1', {
+        name: ' availability ',
+        content: 'Available {{available_date}}',
+        business_id: BUSINESS_ID,
+      });
+
+      expect(businessAccess.authorize).toHaveBeenCalledWith(BUSINESS_ID, 'landlord-1', BusinessMemberRole.ADMIN);
+      expect(messageTemplateModel.countByOwner).toHaveBeenCalledWith('landlord-1', BUSINESS_ID);
+      expect(messageTemplateModel.create).toHaveBeenCalledWith({
+        user_id: 'landlord-1',
+        business_id: BUSINESS_ID,
+        name: 'availability',
+        content: 'Available {{available_date}}',
+      });
+    });
+
+    it('should reject unknown variables, missing fields and full template lists', async () => {
+      await expect(
+        controller.createTemplate('landlord-1', { name: 'bad', content: 'Rent is {{rent}}' })
+      ).rejects.toThrow('Invalid content: unknown variable {{rent}}');
+      await expect(controller.createTemplate('landlord-1', { content: 'Hello' })).rejects.toThrow(
+        'Name is required'
+      );
+
+      messageTemplateModel.countByOwner.mockResolvedValue(50);
+      await expect(
+        controller.createTemplate('landlord-1', { name: 'hello', content: 'Hello' })
+      ).rejects.toThrow('You can save up to 50 templates');
+      expect(messageTemplateModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should render a template from the conversation listing', async () => {
+      const result = await controller.renderTemplate(TEMPLATE_ID, 'landlord-1', 'conversation-1');
+
+      expect(propertyListingModel.findById).toHaveBeenCalledWith('listing-1');
+      expect(result.content).toBe('CAM is $4.50/SF on a NNN lease.');
+    });
+
+    it('should not render into conversations the user is not part of', async () => {
+      conversationModel.isParticipant.mockResolvedValue(false);
+
+      await expect(controller.renderTemplate(TEMPLATE_ID, 'landlord-1', 'conversation-1')).rejects.toThrow(
+        'not a participant'
+      );
+    });
+
+    it("should hide other users' personal templates", async () => {
+      await expect(controller.renderTemplate(TEMPLATE_ID, 'tenant-1')).rejects.toThrow(
+        'Message template not found'
+      );
+      await expect(controller.deleteTemplate(TEMPLATE_ID, 'tenant-1')).rejects.toThrow(
+        'Message template not found'
+      );
+      expect(messageTemplateModel.delete).not.toHaveBeenCalled();
+    });
+
+    it('should let team members use business templates but only admins change them', async () => {
+      messageTemplateModel.findById.mockResolvedValue(buildTemplate({ business_id: BUSINESS_ID }));
+      businessAccess.authorize.mockImplementation(async (_businessId, _userId, minimumRole) => {
+        if (minimumRole === BusinessMemberRole.ADMIN) {
+          throw new Error('Unauthorized: admin access to this business is required');
+        }
+        return { role: BusinessMemberRole.VIEWER };
+      });
+
+      await expect(controller.renderTemplate(TEMPLATE_ID, 'agent-1')).resolves.toBeDefined();
+      await expect(controller.updateTemplate(TEMPLATE_ID, 'agent-1', { name: 'new' })).rejects.toThrow(
+        'Unauthorized'
+      );
+      expect(messageTemplateModel.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { MessagingController } from '../../../controllers/MessagingController';
+import { ModerationController } from '../../../controllers/ModerationController';
+import { UserReportStatus } from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Moderation Tests
+ * Tests for blocking, abuse reports and the moderation queue
+ *
+ * Test Coverage:
+ * - Blocked users can't start conversations or message in a 1-on-1 chat
+ * - New conversations are rate limited per user; reopening a chat is not
+ * - Message reports name the sender and snapshot the conversation around it
+ * - Repeat reports return the open one, and reporters can block as they report
+ * - Only moderators can review the queue, and each report is reviewed once
+ */
+
+const REPORTER_ID = '11111111-1111-4111-8111-111111111111';
+const SENDER_ID = '22222222-2222-4222-8222-222222222222';
+const MESSAGE_ID = '33333333-3333-4333-8333-333333333333';
+const REPORT_ID = '44444444-4444-4444-8444-444444444444';
+
+const buildMessage = (id: string, content: string) => ({
+  id,
+  conversation_id: 'conversation-1',
+  sender_id: SENDER_ID,
+  content,
+  attachments: [],
+  created_at: new Date('2026-04-01T10:00:00Z'),
+  sender: { id: SENDER_ID, email: 'sam@example.com', profile: { first_name: 'Sam', last_name: 'Ortiz' } },
+});
+
+describe('Moderation', () => {
+  describe('MessagingController', () => {
+    let conversationModel: Record<string, jest.Mock>;
+    let messageModel: Record<string, jest.Mock>;
+    let userBlockModel: Record<string, jest.Mock>;
+    let rateLimitService: { checkRateLimit: jest.Mock };
+    let controller: MessagingController;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      conversationModel = {
+        isParticipant: jest.fn().mockResolvedValue(true),
+        findDirectConversation: jest.fn().mockResolvedValue(null),
+        getOrCreateDirectConversation: jest.fn().mockResolvedValue({ id: 'conversation-1' }),
+        create: jest.fn().mockResolvedValue({ id: 'conversation-2' }),
+      };
+      messageModel = { create: jest.fn() };
+      userBlockModel = {
+        findBlockedBetween: jest.fn().mockResolvedValue([]),
+        isBlockedInDirectConversation: jest.fn().mockResolvedValue(false),
+      };
+      rateLimitService = { checkRateLimit: jest.fn().mockResolvedValue({ allowed: true }) };
+      controller = new MessagingController(
+        conversationModel as any,
+        messageModel as any,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        userBlockModel as any,
+        rateLimitService as any
+      );
+    });
+
+    it('should not start conversations with a user blocked either way', async () => {
+      userBlockModel.findBlockedBetween.mockResolvedValue([SENDER_ID]);
+
+      await expect(
+        controller.createConversation(REPORTER_ID, { participant_ids: [SENDER_ID] })
+      ).rejects.toThrow('one of you has blocked the other');
+      expect(userBlockModel.findBlockedBetween).toHaveBeenCalledWith(REPORTER_ID, [SENDER_ID]);
+      expect(conversationModel.getOrCreateDirectConversation).not.toHaveBeenCalled();
+    });
+
+    it('should not send in a 1-on-1 chat once either person blocks the other', async () => {
+      userBlockModel.isBlockedInDirectConversation.mockResolvedValue(true);
+
+      await expect(
+        controller.sendMessage('conversation-1', REPORTER_ID, { content: 'Hello?' })
+      ).rejects.toThrow('one of you has blocked the other');
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should rate limit new conversations but not reopening an existing chat', async () => {
+      await controller.createConversation(REPORTER_ID, { participant_ids: [SENDER_ID] });
+      expect(rateLimitService.checkRateLimit).toHaveBeenCalledWith('new_conversation', REPORTER_ID);
+
+      rateLimitService.checkRateLimit.mockClear();
+      conversationModel.findDirectConversation.mockResolvedValue({ id: 'conversation-1' });
+      const { conversation } = await controller.createConversation(REPORTER_ID, {
+        participant_ids: [SENDER_ID],
+      });
+      expect(conversation.id).toBe('conversation-1');
+      expect(rateLimitService.checkRateLimit).not.toHaveBeenCalled();
+
+      rateLimitService.checkRateLimit.mockResolvedValue({ allowed: false, retryAfter: 1500 });
+      await expect(
+        controller.createConversation(REPORTER_ID, { participant_ids: [SENDER_ID, MESSAGE_ID] })
+      ).rejects.toThrow('Too many new conversations. Please try again in 25 minutes.');
+      expect(conversationModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ModerationController', () => {
+    let userBlockModel: Record<string, jest.Mock>;
+    let userReportModel: Record<string, jest.Mock>;
+    let userModel: Record<string, jest.Mock>;
+    let conversationModel: Record<string, jest.Mock>;
+    let messageModel: Record<string, jest.Mock>;
+    let controller: ModerationController;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      userBlockModel = { block: jest.fn().mockResolvedValue(undefined) };
+      userReportModel = {
+        findOpenDuplicate: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(async (data) => ({ id: REPORT_ID, ...data })),
+        findById: jest.fn().mockResolvedValue({
+          id: REPORT_ID,
+          reported_user_id: SENDER_ID,
+          status: UserReportStatus.OPEN,
+        }),
+        findByStatus: jest.fn().mockResolvedValue({ reports: [], total: 0, hasMore: false }),
+        resolve: jest.fn().mockImplementation(async (id, data) => ({ id, ...data })),
+      };
+      userModel = {
+        findById: jest.fn().mockImplementation(async (id: string) => ({ id, is_admin: id === 'admin-1' })),
+        update: jest.fn().mockResolvedValue(undefined),
+      };
+      conversationModel = {
+        isParticipant: jest.fn().mockResolvedValue(true),
+        findById: jest.fn().mockResolvedValue({ id: 'conversation-1', subject: 'Suite 200' }),
+      };
+      messageModel = {
+        findById: jest.fn().mockResolvedValue(buildMessage(MESSAGE_ID, 'Wire the deposit today')),
+        findByIdWithSender: jest.fn().mockResolvedValue(buildMessage(MESSAGE_ID, 'Wire the deposit today')),
+        findByConversationId: jest.fn().mockResolvedValue({
+          messages: [buildMessage('message-0', 'Is the suite still available?')],
+          total: 2,
+          hasMore: false,
+        }),
+      };
+      controller = new ModerationController(
+        userBlockModel as any,
+        userReportModel as any,
+        userModel as any,
+        conversationModel as any,
+        messageModel as any
+      );
+    });
+
+    it('should report a message’s sender with the conversation leading up to it', async () => {
+      await controller.createReport(REPORTER_ID, { message_id: MESSAGE_ID, reason: 'scam', details: ' Fake ' });
+
+      expect(messageModel.findByConversationId).toHaveBeenCalledWith('conversation-1', {
+        limit: 10,
+        before: MESSAGE_ID,
+      });
+      expect(userReportModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reporter_id: REPORTER_ID,
+          reported_user_id: SENDER_ID,
+          conversation_id: 'conversation-1',
+          message_id: MESSAGE_ID,
+          reason: 'scam',
+          details: 'Fake',
+          context: {
+            conversation_subject: 'Suite 200',
+            reported_message_id: MESSAGE_ID,
+            messages: [
+              expect.objectContaining({ id: 'message-0', sender_name: 'Sam Ortiz' }),
+              expect.objectContaining({ id: MESSAGE_ID, content: 'Wire the deposit today' }),
+            ],
+          },
+        })
+      );
+    });
+
+    it('should reject invalid reasons, own messages and conversations the reporter is not in', async () => {
+      await expect(controller.createReport(REPORTER_ID, { message_id: MESSAGE_ID, reason: 'rude' })).rejects.toThrow(
+        'Invalid reason'
+      );
+      await expect(controller.createReport(SENDER_ID, { message_id: MESSAGE_ID, reason: 'spam' })).rejects.toThrow(
+        'cannot report your own message'
+      );
+
+      conversationModel.isParticipant.mockResolvedValue(false);
+      await expect(controller.createReport(REPORTER_ID, { message_id: MESSAGE_ID, reason: 'spam' })).rejects.toThrow(
+        'not a participant'
+      );
+      expect(userReportModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the open report when reported again, blocking if asked', async () => {
+      userReportModel.findOpenDuplicate.mockResolvedValue({ id: REPORT_ID });
+
+      const report = await controller.createReport(REPORTER_ID, {
+        reported_user_id: SENDER_ID,
+        reason: 'harassment',
+        block: true,
+      });
+
+      expect(report.id).toBe(REPORT_ID);
+      expect(userBlockModel.block).toHaveBeenCalledWith(REPORTER_ID, SENDER_ID);
+      expect(userReportModel.findOpenDuplicate).toHaveBeenCalledWith(REPORTER_ID, SENDER_ID, null);
+      expect(userReportModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should only show the queue to moderators', async () => {
+      await expect(controller.getReportQueue(REPORTER_ID, {})).rejects.toThrow('Unauthorized');
+
+      await controller.getReportQueue('admin-1', { status: 'dismissed', page: '2' });
+      expect(userReportModel.findByStatus).toHaveBeenCalledWith('dismissed', { page: 2, limit: 20 });
+    });
+
+    it('should action a report once, optionally deactivating the reported user', async () => {
+      await expect(
+        controller.resolveReport('admin-1', REPORT_ID, { status: 'dismissed', deactivate_user: true })
+      ).rejects.toThrow('Only actioned reports can deactivate');
+
+      await controller.resolveReport('admin-1', REPORT_ID, {
+        status: 'actioned',
+        resolution_note: 'Confirmed scam',
+        deactivate_user: true,
+      });
+      expect(userModel.update).toHaveBeenCalledWith(SENDER_ID, { is_active: false });
+      expect(userReportModel.resolve).toHaveBeenCalledWith(REPORT_ID, {
+        status: 'actioned',
+        reviewed_by: 'admin-1',
+        resolution_note: 'Confirmed scam',
+      });
+
+      userReportModel.findById.mockResolvedValue({ id: REPORT_ID, status: UserReportStatus.ACTIONED });
+      await expect(controller.resolveReport('admin-1', REPORT_ID, { status: 'dismissed' })).rejects.toThrow(
+        'already been reviewed'
+      );
+    });
+  });
+});
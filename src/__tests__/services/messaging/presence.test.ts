@@ -0,0 +1,214 @@
+import { PresenceService, PRESENCE_TTL_SECONDS } from '../../../services/PresenceService';
+import { NotificationService } from '../../../services/NotificationService';
+import { MessagingSocketServer } from '../../../websocket/messagingSocket';
+import { NotificationPreferencesModel } from '../../../database/models/NotificationPreferences';
+import pool from '../../../config/database';
+
+const mockMessagingSocket = {
+  isViewingConversation: jest.fn(),
+};
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../database/models/NotificationPreferences', () => ({
+  NotificationPreferencesModel: {
+    getByUserId: jest.fn(),
+    shouldSendEmail: jest.fn(),
+  },
+}));
+
+jest.mock('../../../websocket/dashboardSocket', () => ({
+  getDashboardSocket: () => null,
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  ...jest.requireActual('../../../websocket/messagingSocket'),
+  getMessagingSocket: () => mockMessagingSocket,
+}));
+
+/**
+ * Presence Tests
+ * Tests for online status and "viewing this conversation" tracking
+ *
+ * Test Coverage:
+ * - A user stays online until their last tab disconnects
+ * - Tabs whose heartbeats stop expire on their own
+ * - last_seen_at is written on connect, disconnect and at most once a minute from heartbeats
+ * - Only a live tab with the conversation in view counts as viewing it
+ * - Presence updates go only to users who share a conversation
+ * - New message emails are skipped while the recipient is viewing the conversation
+ */
+
+/**
+ * In-memory stand-in for the handful of Redis commands presence uses
+ */
+class FakeRedis {
+  private sets = new Map<string, Map<string, number>>();
+  private strings = new Map<string, string>();
+
+  async zadd(key: string, score: number, member: string) {
+    if (!this.sets.has(key)) this.sets.set(key, new Map());
+    this.sets.get(key)!.set(member, score);
+    return 1;
+  }
+
+  async zrem(key: string, member: string) {
+    return this.sets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async zremrangebyscore(key: string, _min: string, max: number) {
+    const set = this.sets.get(key);
+    set?.forEach((score, member) => {
+      if (score <= max) set.delete(member);
+    });
+    return 0;
+  }
+
+  async zrange(key: string) {
+    return Array.from(this.sets.get(key)?.keys() || []);
+  }
+
+  async expire() {
+    return 1;
+  }
+
+  async set(key: string, value: string, ...args: any[]) {
+    if (args.includes('NX') && this.strings.has(key)) return null;
+    this.strings.set(key, value);
+    return 'OK';
+  }
+
+  async del(key: string) {
+    return this.strings.delete(key) ? 1 : 0;
+  }
+
+  async mget(...keys: string[]) {
+    return keys.map((key) => this.strings.get(key) ?? null);
+  }
+}
+
+describe('Presence', () => {
+  let userModel: { updateLastSeen: jest.Mock };
+  let presence: PresenceService;
+  const now = new Date('2026-05-01T12:00:00Z');
+  const later = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    userModel = { updateLastSeen: jest.fn().mockResolvedValue(undefined) };
+    presence = new PresenceService(new FakeRedis() as any, userModel as any);
+  });
+
+  describe('PresenceService', () => {
+    it('should keep a user online until their last tab disconnects', async () => {
+      await expect(presence.connect('user-1', 'tab-a', now)).resolves.toBe(true);
+      await expect(presence.connect('user-1', 'tab-b', now)).resolves.toBe(false);
+
+      await expect(presence.disconnect('user-1', 'tab-a', later(5))).resolves.toBe(false);
+      await expect(presence.isOnline('user-1', later(5))).resolves.toBe(true);
+
+      await expect(presence.disconnect('user-1', 'tab-b', later(10))).resolves.toBe(true);
+      expect(userModel.updateLastSeen).toHaveBeenLastCalledWith('user-1', later(10));
+    });
+
+    it('should expire tabs whose heartbeats stop', async () => {
+      await presence.connect('user-1', 'tab-a', now);
+      await presence.connect('user-1', 'tab-b', now);
+      await presence.heartbeat('user-1', 'tab-b', later(60));
+
+      await expect(presence.getOnlineUserIds(['user-1', 'user-2'], later(30))).resolves.toEqual(['user-1']);
+      await expect(presence.isOnline('user-1', later(PRESENCE_TTL_SECONDS + 30))).resolves.toBe(true);
+      await expect(presence.isOnline('user-1', later(60 + PRESENCE_TTL_SECONDS + 1))).resolves.toBe(false);
+    });
+
+    it('should write last_seen_at from at most one heartbeat per window', async () => {
+      await presence.connect('user-1', 'tab-a', now);
+      await presence.heartbeat('user-1', 'tab-a', later(30));
+      await presence.heartbeat('user-1', 'tab-a', later(60));
+
+      expect(userModel.updateLastSeen).toHaveBeenCalledTimes(2);
+      expect(userModel.updateLastSeen).toHaveBeenLastCalledWith('user-1', later(30));
+    });
+
+    it('should only count live tabs with the conversation in view', async () => {
+      await presence.connect('user-1', 'tab-a', now);
+      await presence.setViewing('tab-a', 'conversation-1');
+
+      await expect(presence.isViewingConversation('user-1', 'conversation-1', later(5))).resolves.toBe(true);
+      await expect(presence.isViewingConversation('user-1', 'conversation-2', later(5))).resolves.toBe(false);
+      await expect(
+        presence.isViewingConversation('user-1', 'conversation-1', later(PRESENCE_TTL_SECONDS + 1))
+      ).resolves.toBe(false);
+
+      await presence.connect('user-1', 'tab-a', now);
+      await presence.setViewing('tab-a', null);
+      await expect(presence.isViewingConversation('user-1', 'conversation-1', later(5))).resolves.toBe(false);
+    });
+  });
+
+  describe('emitPresenceUpdate', () => {
+    it('should notify only users who share a conversation', () => {
+      const emit = jest.fn();
+      const namespace = { use: jest.fn(), on: jest.fn(), to: jest.fn().mockReturnValue({ emit }) };
+      const server = new MessagingSocketServer(
+        { of: () => namespace } as any,
+        {} as any,
+        presence
+      );
+
+      server.emitPresenceUpdate('user-1', ['user-2', 'user-3'], false, now);
+      expect(namespace.to).toHaveBeenCalledWith(['user:user-2', 'user:user-3']);
+      expect(emit).toHaveBeenCalledWith(
+        'presence:update',
+        expect.objectContaining({ userId: 'user-1', isOnline: false, lastSeenAt: now.toISOString() })
+      );
+
+      namespace.to.mockClear();
+      server.emitPresenceUpdate('user-1', [], true, null);
+      expect(namespace.to).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendNewMessageNotification', () => {
+    let emailService: { sendNewMessageEmail: jest.Mock };
+    let service: NotificationService;
+
+    beforeEach(() => {
+      (NotificationPreferencesModel.getByUserId as jest.Mock).mockResolvedValue({
+        inapp_new_messages: true,
+        email_frequency: 'immediate',
+        quiet_hours_start: null,
+        quiet_hours_end: null,
+        timezone: 'UTC',
+      });
+      (NotificationPreferencesModel.shouldSendEmail as jest.Mock).mockResolvedValue(true);
+      (pool.query as jest.Mock).mockResolvedValue({ rows: [{ first_name: 'Sam', email: 'dana@example.com' }] });
+      emailService = { sendNewMessageEmail: jest.fn().mockResolvedValue(true) };
+      service = new NotificationService(
+        emailService as any,
+        { enqueue: jest.fn() } as any,
+        { create: jest.fn(), countUnread: jest.fn() } as any
+      );
+    });
+
+    it('should skip the email while the recipient is viewing the conversation', async () => {
+      mockMessagingSocket.isViewingConversation.mockResolvedValue(true);
+
+      await service.sendNewMessageNotification('user-1', 'user-2', 'Is the space available?', 'conv-1');
+
+      expect(mockMessagingSocket.isViewingConversation).toHaveBeenCalledWith('user-1', 'conv-1');
+      expect(emailService.sendNewMessageEmail).not.toHaveBeenCalled();
+    });
+
+    it('should email recipients who are not viewing it', async () => {
+      mockMessagingSocket.isViewingConversation.mockResolvedValue(false);
+
+      await service.sendNewMessageNotification('user-1', 'user-2', 'Is the space available?', 'conv-1');
+
+      expect(emailService.sendNewMessageEmail).toHaveBeenCalled();
+    });
+  });
+});
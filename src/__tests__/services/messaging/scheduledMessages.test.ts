@@ -0,0 +1,273 @@
+import { MessagingController } from '../../../controllers/MessagingController';
+import { sendDueScheduledMessages } from '../../../jobs/scheduledMessageJob';
+import { sendDueMessageNudges } from '../../../jobs/messageNudgeJob';
+import { ScheduledMessageStatus } from '../../../types';
+
+const mockSocket = {
+  emitNewMessage: jest.fn(),
+};
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { notifyConversationParticipants: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => mockSocket,
+}));
+
+/**
+ * Scheduled Message and Nudge Tests
+ * Tests for sending messages later and reminders about unanswered messages
+ *
+ * Test Coverage:
+ * - Scheduled messages are validated up front and stored with their uploads
+ * - send_at must be a future date within the scheduling window
+ * - Due messages are delivered through the normal send path and pushed to the conversation
+ * - Messages that can no longer be sent are marked failed
+ * - Only the sender can cancel, and only while the message is pending
+ * - Nudge settings are validated, and each unanswered message nudges once
+ */
+
+const ATTACHMENT_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+const SCHEDULED_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+const buildScheduled = (overrides: Record<string, any> = {}) => ({
+  id: SCHEDULED_ID,
+  conversation_id: 'conversation-1',
+  sender_id: 'user-1',
+  content: 'Following up on the LOI',
+  attachment_ids: [ATTACHMENT_ID],
+  reply_to_message_id: null,
+  send_at: new Date(),
+  status: ScheduledMessageStatus.PENDING,
+  message_id: null,
+  error: null,
+  ...overrides,
+});
+
+describe('Scheduled messages and nudges', () => {
+  let conversationModel: Record<string, jest.Mock>;
+  let messageModel: Record<string, jest.Mock>;
+  let attachmentModel: Record<string, jest.Mock>;
+  let attachmentService: Record<string, jest.Mock>;
+  let scheduledMessageModel: Record<string, jest.Mock>;
+  let controller: MessagingController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    conversationModel = {
+      isParticipant: jest.fn().mockResolvedValue(true),
+      setNudge: jest.fn().mockResolvedValue(undefined),
+    };
+    messageModel = {
+      create: jest.fn().mockImplementation(async (data) => ({ id: 'message-1', ...data })),
+      findByIdWithSender: jest.fn().mockResolvedValue({ id: 'message-1', conversation_id: 'conversation-1' }),
+    };
+    attachmentModel = {
+      findUnclaimed: jest.fn().mockResolvedValue([{ id: ATTACHMENT_ID }]),
+      claim: jest.fn().mockResolvedValue(undefined),
+    };
+    attachmentService = {
+      toMessageAttachment: jest.fn().mockImplementation((upload) => ({ id: upload.id, file_name: 'loi.pdf' })),
+    };
+    scheduledMessageModel = {
+      create: jest.fn().mockImplementation(async (data) => buildScheduled(data)),
+      countPendingBySender: jest.fn().mockResolvedValue(0),
+      findById: jest.fn().mockResolvedValue(buildScheduled()),
+      findDue: jest.fn().mockResolvedValue([buildScheduled()]),
+      cancel: jest.fn().mockResolvedValue(true),
+      markSent: jest.fn().mockResolvedValue(undefined),
+      markFailed: jest.fn().mockResolvedValue(undefined),
+    };
+
+    controller = new MessagingController(
+      conversationModel as any,
+      messageModel as any,
+      attachmentModel as any,
+      attachmentService as any,
+      undefined,
+      scheduledMessageModel as any,
+      { isBlockedInDirectConversation: jest.fn().mockResolvedValue(false) } as any
+    );
+  });
+
+  describe('scheduleMessage', () => {
+    it('should store the validated message without sending it', async () => {
+      const sendAt = inOneHour();
+
+      await controller.scheduleMessage('conversation-1', 'user-1', {
+        content: ' Following up on the LOI ',
+        attachments: [{ id: ATTACHMENT_ID }],
+        send_at: sendAt,
+      });
+
+      expect(attachmentModel.findUnclaimed).toHaveBeenCalledWith([ATTACHMENT_ID], 'conversation-1', 'user-1');
+      expect(scheduledMessageModel.create).toHaveBeenCalledWith({
+        conversation_id: 'conversation-1',
+        sender_id: 'user-1',
+        content: 'Following up on the LOI',
+        attachment_ids: [ATTACHMENT_ID],
+        reply_to_message_id: null,
+        send_at: new Date(sendAt),
+      });
+      expect(messageModel.create).not.toHaveBeenCalled();
+      expect(attachmentModel.claim).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid, past and distant send times', async () => {
+      const schedule = (send_at: unknown) =>
+        controller.scheduleMessage('conversation-1', 'user-1', { content: 'Hi', send_at });
+
+      await expect(schedule('tomorrow')).rejects.toThrow('Invalid send_at: must be an ISO 8601 date-time');
+      await expect(schedule(new Date(Date.now() - 60 * 1000).toISOString())).rejects.toThrow(
+        'Invalid send_at: must be in the future'
+      );
+      await expect(
+        schedule(new Date(Date.now() + 91 * 24 * 60 * 60 * 1000).toISOString())
+      ).rejects.toThrow('Invalid send_at: must be within 90 days');
+      expect(scheduledMessageModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-participants and full schedules', async () => {
+      scheduledMessageModel.countPendingBySender.mockResolvedValue(20);
+      await expect(
+        controller.scheduleMessage('conversation-1', 'user-1', { content: 'Hi', send_at: inOneHour() })
+      ).rejects.toThrow('You can schedule up to 20 messages per conversation');
+
+      conversationModel.isParticipant.mockResolvedValue(false);
+      await expect(
+        controller.scheduleMessage('conversation-1', 'outsider-1', { content: 'Hi', send_at: inOneHour() })
+      ).rejects.toThrow('not a participant');
+      expect(scheduledMessageModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delivery', () => {
+    it('should send due messages and push them to the conversation', async () => {
+      const delivered = await sendDueScheduledMessages(scheduledMessageModel as any, controller);
+
+      expect(delivered).toBe(1);
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          conversation_id: 'conversation-1',
+          sender_id: 'user-1',
+          content: 'Following up on the LOI',
+          attachments: [{ id: ATTACHMENT_ID, file_name: 'loi.pdf' }],
+        })
+      );
+      expect(attachmentModel.claim).toHaveBeenCalledWith([ATTACHMENT_ID], 'message-1');
+      expect(scheduledMessageModel.markSent).toHaveBeenCalledWith(SCHEDULED_ID, 'message-1');
+      expect(mockSocket.emitNewMessage).toHaveBeenCalledWith(
+        'conversation-1',
+        expect.objectContaining({ id: 'message-1' })
+      );
+    });
+
+    it('should mark messages that can no longer be sent as failed', async () => {
+      conversationModel.isParticipant.mockResolvedValue(false);
+
+      const delivered = await sendDueScheduledMessages(scheduledMessageModel as any, controller);
+
+      expect(delivered).toBe(0);
+      expect(scheduledMessageModel.markFailed).toHaveBeenCalledWith(
+        SCHEDULED_ID,
+        'You are not a participant in this conversation'
+      );
+      expect(scheduledMessageModel.markSent).not.toHaveBeenCalled();
+      expect(mockSocket.emitNewMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelScheduledMessage', () => {
+    it("should hide other users' scheduled messages", async () => {
+      await expect(controller.cancelScheduledMessage(SCHEDULED_ID, 'user-2')).rejects.toThrow(
+        'Scheduled message not found'
+      );
+      expect(scheduledMessageModel.cancel).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages that were already sent', async () => {
+      scheduledMessageModel.cancel.mockResolvedValue(false);
+
+      await expect(controller.cancelScheduledMessage(SCHEDULED_ID, 'user-1')).rejects.toThrow(
+        'This message is no longer scheduled'
+      );
+    });
+  });
+
+  describe('setConversationNudge', () => {
+    it('should default to an in-app reminder and turn off with no days', async () => {
+      await expect(controller.setConversationNudge('conversation-1', 'user-1', { after_days: 3 })).resolves.toEqual({
+        after_days: 3,
+        in_app: true,
+        email: false,
+      });
+
+      await expect(
+        controller.setConversationNudge('conversation-1', 'user-1', { after_days: null })
+      ).resolves.toBeNull();
+      expect(conversationModel.setNudge).toHaveBeenLastCalledWith('conversation-1', 'user-1', null);
+    });
+
+    it('should reject invalid settings', async () => {
+      await expect(
+        controller.setConversationNudge('conversation-1', 'user-1', { after_days: 45 })
+      ).rejects.toThrow('Invalid after_days');
+      await expect(
+        controller.setConversationNudge('conversation-1', 'user-1', { after_days: 2.5 })
+      ).rejects.toThrow('Invalid after_days');
+      await expect(
+        controller.setConversationNudge('conversation-1', 'user-1', { after_days: 3, in_app: false })
+      ).rejects.toThrow('Choose in-app, email or both');
+      expect(conversationModel.setNudge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDueMessageNudges', () => {
+    it('should mark each unanswered message before reminding its sender', async () => {
+      const nudgeModel = {
+        findDueForNudge: jest.fn().mockResolvedValue([
+          {
+            conversation_id: 'conversation-1',
+            user_id: 'user-1',
+            nudge_after_days: 3,
+            nudge_in_app: true,
+            nudge_email: true,
+            subject: 'Suite 200',
+            message_id: 'message-1',
+            message_sent_at: new Date(),
+            recipient_names: 'Dana Park',
+          },
+        ]),
+        markNudged: jest.fn().mockResolvedValue(undefined),
+      };
+      const notifications = { sendMessageNudgeNotification: jest.fn().mockResolvedValue(undefined) };
+      const now = new Date();
+
+      const count = await sendDueMessageNudges(nudgeModel as any, notifications as any, now);
+
+      expect(count).toBe(1);
+      expect(nudgeModel.findDueForNudge).toHaveBeenCalledWith(now);
+      expect(nudgeModel.markNudged).toHaveBeenCalledWith('conversation-1', 'user-1', 'message-1');
+      expect(notifications.sendMessageNudgeNotification).toHaveBeenCalledWith('user-1', {
+        conversationId: 'conversation-1',
+        subject: 'Suite 200',
+        recipientNames: 'Dana Park',
+        days: 3,
+        inApp: true,
+        email: true,
+      });
+      expect(nudgeModel.markNudged.mock.invocationCallOrder[0]).toBeLessThan(
+        notifications.sendMessageNudgeNotification.mock.invocationCallOrder[0]
+      );
+    });
+  });
+});
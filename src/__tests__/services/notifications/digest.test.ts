@@ -0,0 +1,255 @@
+import {
+  DigestService,
+  buildDigestContent,
+  isDigestDue,
+  isInQuietHours,
+  shouldDeferEmail,
+} from '../../../services/DigestService';
+import { NotificationService } from '../../../services/NotificationService';
+import { NotificationPreferencesModel } from '../../../database/models/NotificationPreferences';
+import { EmailType } from '../../../services/email/EmailService';
+import pool from '../../../config/database';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../database/models/NotificationPreferences', () => ({
+  NotificationPreferencesModel: {
+    getByUserId: jest.fn(),
+    shouldSendEmail: jest.fn().mockResolvedValue(true),
+    markDigestSent: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+/**
+ * Digest Tests
+ * Tests for email frequency, quiet hours, and the digest worker
+ *
+ * Test Coverage:
+ * - Quiet hours in the user's timezone, including windows past midnight
+ * - Daily/weekly digest timing and once-per-day guarantee
+ * - NotificationService queues instead of emailing when deferred
+ * - Digest grouping and queue bookkeeping
+ */
+
+const settings = (overrides: Record<string, any> = {}) => ({
+  email_frequency: 'immediate' as 'immediate' | 'daily' | 'weekly',
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'America/New_York',
+  last_digest_sent_at: null,
+  unsubscribed_all: false,
+  ...overrides,
+});
+
+// Monday 2025-03-03; New York is UTC-5 on this date
+const mondayAt = (utcHour: number, minute = 0) =>
+  new Date(Date.UTC(2025, 2, 3, utcHour, minute));
+
+describe('Email digests', () => {
+  const mockQuery = pool.query as jest.Mock;
+  const mockGetPreferences = NotificationPreferencesModel.getByUserId as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isInQuietHours', () => {
+    const overnight = settings({ quiet_hours_start: '22:00:00', quiet_hours_end: '07:00:00' });
+
+    it('should apply quiet hours that wrap past midnight in the user timezone', () => {
+      // 04:00 UTC = 23:00 New York
+      expect(isInQuietHours(overnight, mondayAt(4))).toBe(true);
+      // 11:00 UTC = 06:00 New York
+      expect(isInQuietHours(overnight, mondayAt(11))).toBe(true);
+      // 12:00 UTC = 07:00 New York
+      expect(isInQuietHours(overnight, mondayAt(12))).toBe(false);
+    });
+
+    it('should handle same-day windows', () => {
+      const afternoon = settings({ quiet_hours_start: '13:00', quiet_hours_end: '14:30' });
+
+      expect(isInQuietHours(afternoon, mondayAt(18, 15))).toBe(true);
+      expect(isInQuietHours(afternoon, mondayAt(19, 30))).toBe(false);
+    });
+
+    it('should ignore missing or empty windows and unknown timezones', () => {
+      expect(isInQuietHours(settings(), mondayAt(4))).toBe(false);
+      expect(
+        isInQuietHours(settings({ quiet_hours_start: '09:00', quiet_hours_end: '09:00' }), mondayAt(14))
+      ).toBe(false);
+      // Falls back to UTC
+      expect(
+        isInQuietHours(
+          settings({ quiet_hours_start: '03:00', quiet_hours_end: '05:00', timezone: 'Mars/Olympus' }),
+          mondayAt(4)
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('isDigestDue', () => {
+    it('should send daily digests once per local day after 8am', () => {
+      const daily = settings({ email_frequency: 'daily' });
+
+      // 12:00 UTC = 07:00 New York
+      expect(isDigestDue(daily, mondayAt(12))).toBe(false);
+      expect(isDigestDue(daily, mondayAt(13))).toBe(true);
+      expect(
+        isDigestDue({ ...daily, last_digest_sent_at: mondayAt(13) }, mondayAt(20))
+      ).toBe(false);
+      // Sunday evening in New York is a different local day
+      expect(
+        isDigestDue({ ...daily, last_digest_sent_at: new Date(Date.UTC(2025, 2, 2, 23)) }, mondayAt(13))
+      ).toBe(true);
+    });
+
+    it('should only send weekly digests on Monday', () => {
+      const weekly = settings({ email_frequency: 'weekly' });
+      const tuesday = new Date(Date.UTC(2025, 2, 4, 14));
+
+      expect(isDigestDue(weekly, mondayAt(14))).toBe(true);
+      expect(isDigestDue(weekly, tuesday)).toBe(false);
+    });
+
+    it('should flush immediate-frequency queues as soon as quiet hours end', () => {
+      const immediate = settings({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' });
+
+      expect(isDigestDue(immediate, mondayAt(11))).toBe(false);
+      expect(isDigestDue(immediate, mondayAt(12))).toBe(true);
+    });
+
+    it('should defer emails for daily users and during quiet hours', () => {
+      expect(shouldDeferEmail(settings({ email_frequency: 'daily' }), mondayAt(15))).toBe(true);
+      expect(shouldDeferEmail(settings(), mondayAt(15))).toBe(false);
+      expect(
+        shouldDeferEmail(settings({ quiet_hours_start: '09:00', quiet_hours_end: '17:00' }), mondayAt(15))
+      ).toBe(true);
+    });
+  });
+
+  describe('NotificationService', () => {
+    it('should queue a new message for daily-digest users instead of emailing', async () => {
+      const emailService = { sendNewMessageEmail: jest.fn() };
+      const queueModel = { enqueue: jest.fn().mockResolvedValue({}) };
+      const service = new NotificationService(emailService as any, queueModel as any);
+      mockGetPreferences.mockResolvedValue(settings({ email_frequency: 'daily' }));
+      mockQuery.mockImplementation(async (sql: string) =>
+        sql.includes('user_profiles')
+          ? { rows: [{ first_name: 'Sam' }] }
+          : { rows: [{ email: 'recipient@example.com' }] }
+      );
+
+      await service.sendNewMessageNotification('user-1', 'user-2', 'Is the space available?', 'conv-1');
+
+      expect(emailService.sendNewMessageEmail).not.toHaveBeenCalled();
+      expect(queueModel.enqueue).toHaveBeenCalledWith('user-1', EmailType.NEW_MESSAGE, {
+        conversation_id: 'conv-1',
+        sender_name: 'Sam',
+        message_preview: 'Is the space available?',
+      });
+    });
+
+    it('should email immediately for immediate-frequency users outside quiet hours', async () => {
+      const emailService = { sendNewMessageEmail: jest.fn().mockResolvedValue(undefined) };
+      const queueModel = { enqueue: jest.fn() };
+      const service = new NotificationService(emailService as any, queueModel as any);
+      mockGetPreferences.mockResolvedValue(settings());
+      mockQuery.mockResolvedValue({ rows: [{ email: 'recipient@example.com', first_name: 'Sam' }] });
+
+      await service.sendNewMessageNotification('user-1', 'user-2', 'Hello', 'conv-1');
+
+      expect(queueModel.enqueue).not.toHaveBeenCalled();
+      expect(emailService.sendNewMessageEmail).toHaveBeenCalled();
+    });
+  });
+
+  describe('DigestService', () => {
+    const queued = [
+      {
+        id: 'q1',
+        user_id: 'user-1',
+        email_type: EmailType.NEW_MESSAGE,
+        payload: { conversation_id: 'conv-1', sender_name: 'Sam', message_preview: 'First' },
+        created_at: new Date(),
+        sent_at: null,
+      },
+      {
+        id: 'q2',
+        user_id: 'user-1',
+        email_type: EmailType.NEW_MESSAGE,
+        payload: { conversation_id: 'conv-1', sender_name: 'Alex', message_preview: 'Second' },
+        created_at: new Date(),
+        sent_at: null,
+      },
+      {
+        id: 'q3',
+        user_id: 'user-1',
+        email_type: EmailType.NEW_MATCH,
+        payload: {
+          match_count: 2,
+          top_match_title: 'Corner Retail',
+          top_match_score: 91,
+          top_match_location: 'Austin, TX',
+        },
+        created_at: new Date(),
+        sent_at: null,
+      },
+    ] as any[];
+
+    it('should group messages per conversation and merge matches', () => {
+      const content = buildDigestContent(queued, 'daily');
+
+      expect(content.conversations).toEqual([
+        { conversationId: 'conv-1', senderNames: ['Sam', 'Alex'], messageCount: 2, latestPreview: 'Second' },
+      ]);
+      expect(content.matches?.matchCount).toBe(2);
+      expect(content.invites).toEqual([]);
+    });
+
+    it('should send one digest and mark the queue sent when due', async () => {
+      const emailService = { sendDigestEmail: jest.fn().mockResolvedValue(undefined) };
+      const queueModel = {
+        findUserIdsWithPending: jest.fn().mockResolvedValue(['user-1']),
+        findPendingByUserId: jest.fn().mockResolvedValue(queued),
+        markSent: jest.fn().mockResolvedValue(undefined),
+      };
+      const service = new DigestService(emailService as any, queueModel as any);
+      mockGetPreferences.mockResolvedValue(settings({ email_frequency: 'daily' }));
+      mockQuery.mockResolvedValue({ rows: [{ email: 'user@example.com', first_name: 'Jo' }] });
+
+      const sent = await service.sendDueDigests(mondayAt(14));
+
+      expect(sent).toBe(1);
+      expect(emailService.sendDigestEmail).toHaveBeenCalledTimes(1);
+      expect(emailService.sendDigestEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        'Jo',
+        expect.objectContaining({ period: 'daily' })
+      );
+      expect(queueModel.markSent).toHaveBeenCalledWith(['q1', 'q2', 'q3']);
+      expect(NotificationPreferencesModel.markDigestSent).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should hold the digest during quiet hours', async () => {
+      const emailService = { sendDigestEmail: jest.fn() };
+      const queueModel = {
+        findUserIdsWithPending: jest.fn().mockResolvedValue(['user-1']),
+        findPendingByUserId: jest.fn().mockResolvedValue(queued),
+        markSent: jest.fn(),
+      };
+      const service = new DigestService(emailService as any, queueModel as any);
+      mockGetPreferences.mockResolvedValue(
+        settings({ email_frequency: 'daily', quiet_hours_start: '08:00', quiet_hours_end: '12:00' })
+      );
+
+      const sent = await service.sendDueDigests(mondayAt(14));
+
+      expect(sent).toBe(0);
+      expect(emailService.sendDigestEmail).not.toHaveBeenCalled();
+      expect(queueModel.markSent).not.toHaveBeenCalled();
+    });
+  });
+});
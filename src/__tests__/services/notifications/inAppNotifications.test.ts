@@ -0,0 +1,174 @@
+import { NotificationService } from '../../../services/NotificationService';
+import { NotificationModel } from '../../../database/models/Notification';
+import { NotificationPreferencesModel } from '../../../database/models/NotificationPreferences';
+import { NotificationType } from '../../../types';
+import pool from '../../../config/database';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../database/models/NotificationPreferences', () => ({
+  NotificationPreferencesModel: {
+    getByUserId: jest.fn(),
+    shouldSendEmail: jest.fn(),
+  },
+}));
+
+const mockEmitNotification = jest.fn();
+
+jest.mock('../../../websocket/dashboardSocket', () => ({
+  getDashboardSocket: () => ({ emitNotification: mockEmitNotification }),
+}));
+
+/**
+ * In-App Notification Tests
+ * Tests for the notification center feed and real-time delivery
+ *
+ * Test Coverage:
+ * - inapp_* preferences gate notification creation
+ * - New notifications are pushed over the dashboard socket with the unread count
+ * - In-app notifications are independent of email preferences
+ * - Updates are scoped to the notification owner
+ * - Paging is stable when notifications share a timestamp
+ */
+
+const preferences = (overrides: Record<string, any> = {}) => ({
+  inapp_new_matches: true,
+  inapp_new_messages: true,
+  inapp_business_invites: true,
+  inapp_tour_reminders: true,
+  inapp_account_updates: true,
+  email_frequency: 'immediate',
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'UTC',
+  unsubscribed_all: false,
+  ...overrides,
+});
+
+describe('In-app notifications', () => {
+  const mockQuery = pool.query as jest.Mock;
+  const mockGetPreferences = NotificationPreferencesModel.getByUserId as jest.Mock;
+  const mockShouldSendEmail = NotificationPreferencesModel.shouldSendEmail as jest.Mock;
+  let notificationModel: { create: jest.Mock; countUnread: jest.Mock };
+  let service: NotificationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    notificationModel = {
+      create: jest.fn().mockImplementation(async (data) => ({ id: 'notification-1', ...data })),
+      countUnread: jest.fn().mockResolvedValue(3),
+    };
+    service = new NotificationService(
+      { sendNewMessageEmail: jest.fn() } as any,
+      { enqueue: jest.fn() } as any,
+      notificationModel as any
+    );
+  });
+
+  describe('createInAppNotification', () => {
+    it('should store the notification and push it with the unread count', async () => {
+      mockGetPreferences.mockResolvedValue(preferences());
+
+      await service.createInAppNotification('user-1', NotificationType.ACCOUNT_UPDATE, {
+        title: 'Password Changed',
+        body: 'Your password was successfully changed.',
+      });
+
+      expect(notificationModel.create).toHaveBeenCalledWith({
+        user_id: 'user-1',
+        type: NotificationType.ACCOUNT_UPDATE,
+        title: 'Password Changed',
+        body: 'Your password was successfully changed.',
+      });
+      expect(mockEmitNotification).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ id: 'notification-1' }),
+        3
+      );
+    });
+
+    it('should skip types the user has turned off in-app', async () => {
+      mockGetPreferences.mockResolvedValue(preferences({ inapp_new_matches: false }));
+
+      await service.createInAppNotification('user-1', NotificationType.NEW_MATCH, {
+        title: '2 new property matches',
+      });
+
+      expect(notificationModel.create).not.toHaveBeenCalled();
+      expect(mockEmitNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when storing the notification fails', async () => {
+      mockGetPreferences.mockResolvedValue(preferences());
+      notificationModel.create.mockRejectedValue(new Error('connection lost'));
+
+      await expect(
+        service.createInAppNotification('user-1', NotificationType.NEW_MESSAGE, { title: 'Hi' })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('sendNewMessageNotification', () => {
+    it('should create an in-app notification even when message emails are off', async () => {
+      mockGetPreferences.mockResolvedValue(preferences());
+      mockShouldSendEmail.mockResolvedValue(false);
+      mockQuery.mockResolvedValue({ rows: [{ first_name: 'Sam' }] });
+
+      await service.sendNewMessageNotification('user-1', 'user-2', 'Is the space available?', 'conv-1');
+
+      expect(notificationModel.create).toHaveBeenCalledWith({
+        user_id: 'user-1',
+        type: NotificationType.NEW_MESSAGE,
+        title: 'New message from Sam',
+        body: 'Is the space available?',
+        link: '/messages',
+        data: { conversation_id: 'conv-1' },
+      });
+    });
+  });
+
+  describe('NotificationModel', () => {
+    it('should only update notifications owned by the user', async () => {
+      const model = new NotificationModel({ query: mockQuery } as any);
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      const result = await model.update('notification-1', 'user-2', { read: true });
+
+      expect(result).toBeNull();
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE id = $1 AND user_id = $2'),
+        ['notification-1', 'user-2']
+      );
+    });
+
+    it('should page through notifications that share a timestamp without skipping or repeating', async () => {
+      const createdAt = new Date('2026-03-01T12:00:00.000Z');
+      const rows = ['n-1', 'n-2', 'n-3', 'n-4'].map((id) => ({ id, user_id: 'user-1', created_at: createdAt }));
+
+      // Stand-in for Postgres that honours the cursor comparison and ordering the query asks for
+      const query = jest.fn().mockImplementation(async (sql: string, params: any[]) => {
+        const byTuple = sql.includes('(created_at, id) <');
+        const cursor = sql.includes(' < (SELECT') ? rows.find((row) => row.id === params[1]) : undefined;
+        const compare = (a: (typeof rows)[0], b: (typeof rows)[0]) =>
+          b.created_at.getTime() - a.created_at.getTime() || (sql.includes('id DESC') ? b.id.localeCompare(a.id) : 0);
+        const page = rows
+          .filter((row) => !cursor || (byTuple ? compare(cursor, row) < 0 : row.created_at < cursor.created_at))
+          .sort(compare)
+          .slice(0, params[params.length - 1]);
+        return { rows: page };
+      });
+      const model = new NotificationModel({ query } as any);
+
+      const first = await model.findByUserId('user-1', { limit: 2 });
+      const second = await model.findByUserId('user-1', { limit: 2, before: first.notifications[1].id });
+
+      expect(first.notifications.map((n) => n.id)).toEqual(['n-4', 'n-3']);
+      expect(first.hasMore).toBe(true);
+      expect(second.notifications.map((n) => n.id)).toEqual(['n-2', 'n-1']);
+      expect(second.hasMore).toBe(false);
+    });
+  });
+});
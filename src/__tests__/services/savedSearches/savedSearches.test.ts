@@ -0,0 +1,179 @@
+import { SavedSearchService, matchesSavedSearch } from '../../../services/SavedSearchService';
+import {
+  SavedSearchController,
+  normalizeSavedSearchFilters,
+} from '../../../controllers/SavedSearchController';
+import { subscriptionService } from '../../../services/SubscriptionService';
+import { PropertyListing, PropertyListingStatus, PropertyType, SavedSearch } from '../../../types';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/SubscriptionService', () => ({
+  subscriptionService: {
+    hasAccessToTier: jest.fn(),
+  },
+}));
+
+/**
+ * Saved Search Tests
+ * Tests for saved property searches and new-listing alerts
+ *
+ * Test Coverage:
+ * - Listing matching mirrors the property search filters
+ * - Filter validation and normalization
+ * - Alerts are sent once per search and listing
+ * - Alerts require the search owner to be on a plan with saved searches
+ * - Saved searches are scoped to their owner
+ */
+
+const mockHasAccessToTier = subscriptionService.hasAccessToTier as jest.Mock;
+
+const listing = (overrides: Partial<PropertyListing> = {}): PropertyListing =>
+  ({
+    id: 'listing-1',
+    user_id: 'landlord-1',
+    title: 'Corner retail on Congress',
+    description: 'High foot traffic storefront',
+    address: '100 Congress Ave',
+    city: 'Austin',
+    state: 'TX',
+    zip_code: '78701',
+    property_type: PropertyType.RETAIL,
+    status: PropertyListingStatus.ACTIVE,
+    sqft: 2400,
+    asking_price: 4500,
+    amenities: ['parking', 'signage'],
+    ...overrides,
+  }) as PropertyListing;
+
+const savedSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch =>
+  ({
+    id: 'search-1',
+    user_id: 'tenant-1',
+    name: 'Austin retail',
+    filters: { city: 'austin', property_type: PropertyType.RETAIL },
+    alert_in_app: true,
+    alert_email: true,
+    last_alerted_at: null,
+    ...overrides,
+  }) as SavedSearch;
+
+describe('Saved searches', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('matchesSavedSearch', () => {
+    it('should match on partial city, state, type and ranges', () => {
+      expect(
+        matchesSavedSearch(listing(), {
+          city: 'aus',
+          state: 'TX',
+          property_type: PropertyType.RETAIL,
+          min_sqft: 2000,
+          max_sqft: 3000,
+          max_price: 5000,
+        })
+      ).toBe(true);
+      expect(matchesSavedSearch(listing(), { max_sqft: 2000 })).toBe(false);
+      expect(matchesSavedSearch(listing(), { state: 'CA' })).toBe(false);
+    });
+
+    it('should match any requested amenity and free text across fields', () => {
+      expect(matchesSavedSearch(listing(), { amenities: ['loading dock', 'parking'] })).toBe(true);
+      expect(matchesSavedSearch(listing(), { amenities: ['loading dock'] })).toBe(false);
+      expect(matchesSavedSearch(listing(), { search: 'foot traffic' })).toBe(true);
+    });
+
+    it('should never match inactive listings or unpriced listings on a price filter', () => {
+      expect(matchesSavedSearch(listing({ status: PropertyListingStatus.LEASED }), { city: 'Austin' })).toBe(false);
+      expect(matchesSavedSearch(listing({ asking_price: null as any }), { max_price: 5000 })).toBe(false);
+    });
+  });
+
+  describe('normalizeSavedSearchFilters', () => {
+    it('should drop empty values and coerce numbers', () => {
+      expect(
+        normalizeSavedSearchFilters({ city: ' Austin ', state: '', min_sqft: '1000', amenities: 'parking, ' })
+      ).toEqual({ city: 'Austin', min_sqft: 1000, amenities: ['parking'] });
+    });
+
+    it('should reject empty, invalid and inverted filters', () => {
+      expect(() => normalizeSavedSearchFilters({})).toThrow('at least one filter');
+      expect(() => normalizeSavedSearchFilters({ property_type: 'castle' })).toThrow('Invalid property_type');
+      expect(() => normalizeSavedSearchFilters({ min_price: 5000, max_price: 1000 })).toThrow('Invalid price range');
+    });
+  });
+
+  describe('notifyMatchingSearches', () => {
+    let savedSearchModel: { findAlertCandidates: jest.Mock; recordAlert: jest.Mock };
+    let notificationService: { sendSavedSearchAlertNotification: jest.Mock };
+    let service: SavedSearchService;
+
+    beforeEach(() => {
+      savedSearchModel = {
+        findAlertCandidates: jest.fn(),
+        recordAlert: jest.fn().mockResolvedValue(true),
+      };
+      notificationService = { sendSavedSearchAlertNotification: jest.fn() };
+      service = new SavedSearchService(savedSearchModel as any, notificationService as any);
+      mockHasAccessToTier.mockResolvedValue(true);
+    });
+
+    it('should alert matching searches once per listing', async () => {
+      const search = savedSearch();
+      savedSearchModel.findAlertCandidates.mockResolvedValue([
+        search,
+        savedSearch({ id: 'search-2', filters: { city: 'Dallas' } }),
+      ]);
+      savedSearchModel.recordAlert.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      expect(await service.notifyMatchingSearches(listing())).toBe(1);
+      expect(await service.notifyMatchingSearches(listing())).toBe(0);
+
+      expect(savedSearchModel.recordAlert).toHaveBeenCalledTimes(2);
+      expect(notificationService.sendSavedSearchAlertNotification).toHaveBeenCalledTimes(1);
+      expect(notificationService.sendSavedSearchAlertNotification).toHaveBeenCalledWith(
+        'tenant-1',
+        search,
+        expect.objectContaining({ id: 'listing-1' })
+      );
+    });
+
+    it('should skip searches whose owner is no longer on a qualifying plan', async () => {
+      savedSearchModel.findAlertCandidates.mockResolvedValue([savedSearch()]);
+      mockHasAccessToTier.mockResolvedValue(false);
+
+      expect(await service.notifyMatchingSearches(listing())).toBe(0);
+      expect(savedSearchModel.recordAlert).not.toHaveBeenCalled();
+    });
+
+    it('should ignore listings that are not active', async () => {
+      expect(
+        await service.notifyMatchingSearches(listing({ status: PropertyListingStatus.OFF_MARKET }))
+      ).toBe(0);
+      expect(savedSearchModel.findAlertCandidates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('SavedSearchController', () => {
+    it('should not let users change searches they do not own', async () => {
+      const savedSearchModel = {
+        findById: jest.fn().mockResolvedValue(savedSearch()),
+        update: jest.fn(),
+        delete: jest.fn(),
+      };
+      const controller = new SavedSearchController(savedSearchModel as any, {} as any);
+
+      await expect(
+        controller.updateSearch('search-1', 'tenant-2', { alert_email: false })
+      ).rejects.toThrow('Unauthorized');
+      await expect(controller.deleteSearch('search-1', 'tenant-2')).rejects.toThrow('Unauthorized');
+      expect(savedSearchModel.update).not.toHaveBeenCalled();
+      expect(savedSearchModel.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { PropertyListingController } from '../../../controllers/PropertyListingController';
+import { PropertyListingModel } from '../../../database/models/PropertyListing';
+import { GeocodingService } from '../../../services/geo/GeocodingService';
+
+jest.mock('../../../config/database', () => ({
+  __esModule: true,
+  default: { query: jest.fn() },
+}));
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: {},
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Geo Search Tests
+ * Tests for radius and map (bounding box) property search
+ *
+ * Test Coverage:
+ * - Bounding boxes cover the whole radius, widening at the antimeridian
+ * - Bounding box and radius filters in both the listings and count queries
+ * - Distance is selected and sorted on without leaking params into the count
+ * - lat/lng, radius_miles, bbox and sort validation
+ * - Radius searches get a covering bbox; distance sort falls back to the bbox center
+ */
+
+const AUSTIN = { latitude: 30.2672, longitude: -97.7431 };
+
+describe('Geo Search', () => {
+  describe('GeocodingService.boundingBox', () => {
+    const geocoder = new GeocodingService();
+
+    it('should cover every point within the radius', () => {
+      const box = geocoder.boundingBox(AUSTIN, 10);
+
+      const north = geocoder.distanceMiles(
+        { ...AUSTIN, source: 'exact' },
+        { latitude: box.north, longitude: AUSTIN.longitude, source: 'exact' }
+      );
+      const east = geocoder.distanceMiles(
+        { ...AUSTIN, source: 'exact' },
+        { latitude: AUSTIN.latitude, longitude: box.east, source: 'exact' }
+      );
+      expect(north).toBeCloseTo(10, 1);
+      expect(east).toBeGreaterThanOrEqual(10);
+      expect(box.south).toBeLessThan(AUSTIN.latitude);
+      expect(box.west).toBeLessThan(AUSTIN.longitude);
+    });
+
+    it('should span every longitude rather than wrap', () => {
+      const box = geocoder.boundingBox({ latitude: 51.5, longitude: 179.9 }, 50);
+
+      expect(box.west).toBe(-180);
+      expect(box.east).toBe(180);
+    });
+  });
+
+  describe('PropertyListingModel.search', () => {
+    let query: jest.Mock;
+    let model: PropertyListingModel;
+
+    beforeEach(() => {
+      query = jest.fn().mockImplementation(async (sql: string) =>
+        sql.includes('COUNT(*)') ? { rows: [{ count: '3' }] } : { rows: [] }
+      );
+      model = new PropertyListingModel({ query } as any);
+    });
+
+    const bounds = { south: 30, west: -98, north: 30.5, east: -97.5 };
+
+    it('should filter both queries by the bounding box and radius', async () => {
+      await model.search({ bounds, near: AUSTIN, radiusMiles: 10, limit: 20, offset: 0 });
+
+      const [[listingsSql, listingsParams], [countSql, countParams]] = query.mock.calls;
+      for (const sql of [listingsSql, countSql]) {
+        expect(sql).toContain('point(longitude::float8, latitude::float8) <@ box(');
+        expect(sql).toContain('<= $7::float8');
+      }
+      expect(countParams).toEqual([-98, 30, -97.5, 30.5, AUSTIN.latitude, AUSTIN.longitude, 10]);
+      expect(listingsParams).toEqual([...countParams, AUSTIN.latitude, AUSTIN.longitude, 20, 0]);
+    });
+
+    it('should sort by distance only when asked, keeping select-only params out of the count', async () => {
+      await model.search({ bounds, near: AUSTIN, sort: 'distance', limit: 20, offset: 0 });
+
+      const [[listingsSql], [countSql, countParams]] = query.mock.calls;
+      expect(listingsSql).toContain('AS distance_miles');
+      expect(listingsSql).toContain('ORDER BY distance_miles ASC');
+      expect(countSql).not.toContain('distance_miles');
+      expect(countParams).toEqual([-98, 30, -97.5, 30.5]);
+
+      query.mockClear();
+      await model.search({ near: AUSTIN, limit: 20, offset: 0 });
+      expect(query.mock.calls[0][0]).toContain('ORDER BY is_featured DESC');
+    });
+  });
+
+  describe('PropertyListingController.searchListings', () => {
+    let propertyListingModel: Record<string, jest.Mock>;
+    let controller: PropertyListingController;
+
+    beforeEach(() => {
+      propertyListingModel = {
+        search: jest.fn().mockResolvedValue({ listings: [], total: 0 }),
+        getDistinctCities: jest.fn().mockResolvedValue([]),
+        getDistinctStates: jest.fn().mockResolvedValue([]),
+      };
+      controller = new PropertyListingController(propertyListingModel as any);
+    });
+
+    it('should reject invalid geo parameters', async () => {
+      const invalid = [
+        [{ lat: '30.2' }, 'lat and lng must be given together'],
+        [{ lat: '91', lng: '0' }, 'Invalid lat'],
+        [{ lat: '30', lng: 'west' }, 'Invalid lng'],
+        [{ radiusMiles: '10' }, 'radius_miles requires lat and lng'],
+        [{ lat: '30', lng: '-97', radiusMiles: '0' }, 'Invalid radius_miles'],
+        [{ lat: '30', lng: '-97', radiusMiles: '500' }, 'Invalid radius_miles'],
+        [{ bbox: '-98,30,-97' }, 'Invalid bbox'],
+        [{ bbox: '-97,30,-98,31' }, 'min values must not exceed max values'],
+        [{ lat: '30', lng: '-97', radiusMiles: '5', bbox: '-98,30,-97,31' }, 'not both'],
+        [{ sort: 'price' }, 'Invalid sort'],
+        [{ sort: 'distance' }, 'distance requires lat and lng or a bbox'],
+      ] as const;
+
+      for (const [filters, message] of invalid) {
+        await expect(controller.searchListings(filters)).rejects.toThrow(message);
+      }
+      expect(propertyListingModel.search).not.toHaveBeenCalled();
+    });
+
+    it('should give radius searches a covering bounding box', async () => {
+      await controller.searchListings({ lat: '30.2672', lng: '-97.7431', radiusMiles: '10' });
+
+      const filters = propertyListingModel.search.mock.calls[0][0];
+      expect(filters.near).toEqual(AUSTIN);
+      expect(filters.radiusMiles).toBe(10);
+      expect(filters.bounds).toEqual(new GeocodingService().boundingBox(AUSTIN, 10));
+      expect(filters).not.toHaveProperty('lat');
+    });
+
+    it('should sort a map search by distance from the bbox center', async () => {
+      await controller.searchListings({ bbox: '-98,30,-97,31', sort: 'distance', limit: 100 });
+
+      expect(propertyListingModel.search).toHaveBeenCalledWith(
+        expect.objectContaining({
+          bounds: { west: -98, south: 30, east: -97, north: 31 },
+          near: { latitude: 30.5, longitude: -97.5 },
+          sort: 'distance',
+          limit: 100,
+          offset: 0,
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { BusinessAccessService } from '../../../services/BusinessAccessService';
+import { BusinessTeamController } from '../../../controllers/BusinessTeamController';
+import { notificationService } from '../../../services/NotificationService';
+import { BusinessInviteStatus, BusinessMemberRole } from '../../../types';
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: { sendBusinessInviteNotification: jest.fn() },
+}));
+
+/**
+ * Business Team Tests
+ * Tests for team membership authorization and the invite lifecycle
+ *
+ * Test Coverage:
+ * - Role hierarchy (owner > admin > viewer) and legacy owner fallback
+ * - Invites: admin-only, tokenized, re-invite replaces pending invite
+ * - Accept/decline: recipient email check, expiry, already-answered invites
+ * - Member removal rules
+ */
+
+const business = {
+  id: 'business-1',
+  user_id: 'owner-1',
+  name: 'Acme Coffee',
+  logo_url: null,
+  category: 'Food & Beverage',
+};
+
+const buildInvite = (overrides: Record<string, any> = {}) => ({
+  id: 'invite-1',
+  business_id: 'business-1',
+  invited_by_user_id: 'owner-1',
+  invited_user_email: 'new@example.com',
+  status: BusinessInviteStatus.PENDING,
+  token: 'token-1',
+  role: BusinessMemberRole.ADMIN,
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  responded_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+describe('Business team', () => {
+  let businessModel: { findById: jest.Mock };
+  let inviteModel: Record<string, jest.Mock>;
+  let memberModel: Record<string, jest.Mock>;
+
+  const memberRole = (roles: Record<string, BusinessMemberRole>) => {
+    memberModel.findByBusinessAndUser.mockImplementation(async (_businessId: string, userId: string) =>
+      roles[userId] ? { business_id: 'business-1', user_id: userId, role: roles[userId] } : null
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    businessModel = { findById: jest.fn().mockResolvedValue(business) };
+    inviteModel = {
+      create: jest.fn().mockImplementation(async (data) => buildInvite(data)),
+      findById: jest.fn(),
+      findByToken: jest.fn(),
+      findByBusinessId: jest.fn().mockResolvedValue([]),
+      findPendingByBusinessAndEmail: jest.fn().mockResolvedValue(null),
+      update: jest.fn(),
+      delete: jest.fn().mockResolvedValue(true),
+    };
+    memberModel = {
+      create: jest.fn().mockImplementation(async (data) => ({ id: 'member-1', ...data })),
+      findByBusinessAndUser: jest.fn().mockResolvedValue(null),
+      findByBusinessId: jest.fn().mockResolvedValue([]),
+      updateRole: jest.fn(),
+      delete: jest.fn().mockResolvedValue(true),
+    };
+  });
+
+  describe('BusinessAccessService', () => {
+    let access: BusinessAccessService;
+
+    beforeEach(() => {
+      access = new BusinessAccessService(businessModel as any, memberModel as any);
+    });
+
+    it('should treat businesses.user_id as the owner without a membership row', async () => {
+      const result = await access.authorize('business-1', 'owner-1', BusinessMemberRole.OWNER);
+
+      expect(result.role).toBe(BusinessMemberRole.OWNER);
+      expect(memberModel.findByBusinessAndUser).not.toHaveBeenCalled();
+    });
+
+    it('should let viewers read but not edit', async () => {
+      memberRole({ 'viewer-1': BusinessMemberRole.VIEWER });
+
+      await expect(access.authorize('business-1', 'viewer-1')).resolves.toMatchObject({
+        role: BusinessMemberRole.VIEWER,
+      });
+      await expect(
+        access.authorize('business-1', 'viewer-1', BusinessMemberRole.ADMIN)
+      ).rejects.toThrow('Unauthorized');
+    });
+
+    it('should reserve owner actions for the owner', async () => {
+      memberRole({ 'admin-1': BusinessMemberRole.ADMIN });
+
+      await expect(
+        access.authorize('business-1', 'admin-1', BusinessMemberRole.OWNER)
+      ).rejects.toThrow('Unauthorized: You do not own this business');
+    });
+
+    it('should reject non-members and missing businesses', async () => {
+      await expect(access.authorize('business-1', 'stranger')).rejects.toThrow(
+        'Unauthorized: You are not a member of this business'
+      );
+
+      businessModel.findById.mockResolvedValue(null);
+      await expect(access.authorize('missing', 'owner-1')).rejects.toThrow('Business not found');
+    });
+  });
+
+  describe('BusinessTeamController', () => {
+    let controller: BusinessTeamController;
+
+    beforeEach(() => {
+      controller = new BusinessTeamController(
+        businessModel as any,
+        inviteModel as any,
+        memberModel as any
+      );
+    });
+
+    it('should create a tokenized invite and email it without exposing the token', async () => {
+      const invite = await controller.inviteMember('business-1', 'owner-1', {
+        email: ' New@Example.com ',
+        role: BusinessMemberRole.ADMIN,
+      });
+
+      const created = inviteModel.create.mock.calls[0][0];
+      expect(created.invited_user_email).toBe('new@example.com');
+      expect(created.token).toMatch(/^[a-f0-9]{64}$/);
+      expect(created.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(notificationService.sendBusinessInviteNotification).toHaveBeenCalledWith(
+        'new@example.com',
+        'owner-1',
+        'Acme Coffee',
+        BusinessMemberRole.ADMIN,
+        created.token
+      );
+      expect(invite).not.toHaveProperty('token');
+    });
+
+    it('should replace an earlier pending invite for the same email', async () => {
+      inviteModel.findPendingByBusinessAndEmail.mockResolvedValue(buildInvite({ id: 'old-invite' }));
+
+      await controller.inviteMember('business-1', 'owner-1', { email: 'new@example.com' });
+
+      expect(inviteModel.delete).toHaveBeenCalledWith('old-invite');
+      expect(inviteModel.create.mock.calls[0][0].role).toBe(BusinessMemberRole.VIEWER);
+    });
+
+    it('should not let viewers invite or invites grant ownership', async () => {
+      memberRole({ 'viewer-1': BusinessMemberRole.VIEWER });
+
+      await expect(
+        controller.inviteMember('business-1', 'viewer-1', { email: 'new@example.com' })
+      ).rejects.toThrow('Unauthorized');
+      await expect(
+        controller.inviteMember('business-1', 'owner-1', {
+          email: 'new@example.com',
+          role: BusinessMemberRole.OWNER,
+        })
+      ).rejects.toThrow('Invalid role');
+      expect(inviteModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should add the invitee as a member with the invited role on accept', async () => {
+      inviteModel.findByToken.mockResolvedValue(buildInvite());
+
+      const member = await controller.acceptInvite('token-1', 'user-2', 'NEW@example.com');
+
+      expect(memberModel.create).toHaveBeenCalledWith({
+        business_id: 'business-1',
+        user_id: 'user-2',
+        role: BusinessMemberRole.ADMIN,
+        invited_by_user_id: 'owner-1',
+      });
+      expect(member.role).toBe(BusinessMemberRole.ADMIN);
+      expect(inviteModel.update).toHaveBeenCalledWith('invite-1', BusinessInviteStatus.ACCEPTED);
+    });
+
+    it('should reject invites addressed to someone else, expired or already answered', async () => {
+      inviteModel.findByToken.mockResolvedValue(buildInvite());
+      await expect(controller.acceptInvite('token-1', 'user-3', 'other@example.com')).rejects.toThrow(
+        'Unauthorized'
+      );
+
+      inviteModel.findByToken.mockResolvedValue(buildInvite({ expires_at: new Date(Date.now() - 1000) }));
+      await expect(controller.acceptInvite('token-1', 'user-2', 'new@example.com')).rejects.toThrow(
+        'Invite has expired'
+      );
+
+      inviteModel.findByToken.mockResolvedValue(buildInvite({ status: BusinessInviteStatus.DECLINED }));
+      await expect(controller.declineInvite('token-1', 'new@example.com')).rejects.toThrow(
+        'Invite has already been declined'
+      );
+
+      inviteModel.findByToken.mockResolvedValue(null);
+      await expect(controller.declineInvite('missing', 'new@example.com')).rejects.toThrow(
+        'Invite not found'
+      );
+
+      expect(memberModel.create).not.toHaveBeenCalled();
+      expect(inviteModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark the invite declined without adding a member', async () => {
+      inviteModel.findByToken.mockResolvedValue(buildInvite());
+
+      await controller.declineInvite('token-1', 'new@example.com');
+
+      expect(inviteModel.update).toHaveBeenCalledWith('invite-1', BusinessInviteStatus.DECLINED);
+      expect(memberModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should let admins remove viewers but not other admins or the owner', async () => {
+      memberRole({
+        'admin-1': BusinessMemberRole.ADMIN,
+        'admin-2': BusinessMemberRole.ADMIN,
+        'viewer-1': BusinessMemberRole.VIEWER,
+      });
+
+      await controller.removeMember('business-1', 'viewer-1', 'admin-1');
+      expect(memberModel.delete).toHaveBeenCalledWith('business-1', 'viewer-1');
+
+      await expect(controller.removeMember('business-1', 'admin-2', 'admin-1')).rejects.toThrow(
+        'Unauthorized'
+      );
+      await expect(controller.removeMember('business-1', 'owner-1', 'admin-1')).rejects.toThrow(
+        'the owner cannot be removed'
+      );
+    });
+
+    it('should let a member leave the team', async () => {
+      memberRole({ 'viewer-1': BusinessMemberRole.VIEWER });
+
+      await controller.removeMember('business-1', 'viewer-1', 'viewer-1');
+
+      expect(memberModel.delete).toHaveBeenCalledWith('business-1', 'viewer-1');
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { TourController } from '../../../controllers/TourController';
+import { MessagingController } from '../../../controllers/MessagingController';
+import { buildIcsEvent, escapeIcsText } from '../../../services/calendar/icsBuilder';
+import { sendDueTourReminders } from '../../../jobs/tourReminderJob';
+import { TourStatus } from '../../../types';
+
+jest.mock('../../../services/NotificationService', () => ({
+  notificationService: {
+    notifyConversationParticipants: jest.fn().mockResolvedValue(undefined),
+    sendTourReminderNotification: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('../../../websocket/messagingSocket', () => ({
+  getMessagingSocket: () => null,
+}));
+
+/**
+ * Tour Tests
+ * Tests for tour scheduling, calendar files, and reminders
+ *
+ * Test Coverage:
+ * - Tour requests open the tenant/landlord conversation and post a message
+ * - Slot confirmation: must be proposed, and by the other party
+ * - Closed tours can't be changed; non-participants are rejected
+ * - Blocked users can't request or schedule tours, and cancelling posts nothing
+ * - .ics output (escaping, UTC times, CRLF)
+ * - Reminder job notifies both parties with the calendar attached
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+const property = {
+  id: 'property-1',
+  user_id: 'landlord-1',
+  title: 'Corner Retail, Main St',
+  address: '100 Main St',
+  city: 'Austin',
+  state: 'TX',
+};
+
+const buildTour = (overrides: Record<string, any> = {}) => ({
+  id: 'tour-1',
+  property_listing_id: 'property-1',
+  tenant_user_id: 'tenant-1',
+  landlord_user_id: 'landlord-1',
+  conversation_id: 'conversation-1',
+  status: TourStatus.REQUESTED,
+  proposed_slots: [],
+  scheduled_at: null,
+  duration_minutes: 60,
+  notes: null,
+  cancelled_by_user_id: null,
+  cancellation_reason: null,
+  reminder_sent_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+const buildTourWithDetails = (overrides: Record<string, any> = {}) =>
+  buildTour({
+    property_title: property.title,
+    property_address: property.address,
+    property_city: property.city,
+    property_state: property.state,
+    tenant_email: 'tenant@example.com',
+    tenant_name: 'Tina Tenant',
+    landlord_email: 'landlord@example.com',
+    landlord_name: null,
+    ...overrides,
+  });
+
+describe('Tours', () => {
+  let tourModel: Record<string, jest.Mock>;
+  let propertyModel: { findById: jest.Mock };
+  let conversationModel: { getOrCreateDirectConversation: jest.Mock };
+  let messageModel: { create: jest.Mock; findByIdWithSender: jest.Mock };
+  let userBlockModel: { findBlockedBetween: jest.Mock };
+  let controller: TourController;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tourModel = {
+      create: jest.fn().mockImplementation(async (data) => buildTour(data)),
+      findById: jest.fn(),
+      findByIdWithDetails: jest.fn(),
+      update: jest.fn().mockImplementation(async (_id, data) => buildTour(data)),
+      findDueForReminder: jest.fn().mockResolvedValue([]),
+      markReminderSent: jest.fn().mockResolvedValue(undefined),
+      completePastTours: jest.fn().mockResolvedValue(0),
+    };
+    propertyModel = { findById: jest.fn().mockResolvedValue(property) };
+    conversationModel = {
+      getOrCreateDirectConversation: jest.fn().mockResolvedValue({ id: 'conversation-1' }),
+    };
+    messageModel = {
+      create: jest.fn().mockResolvedValue({ id: 'message-1' }),
+      findByIdWithSender: jest.fn().mockResolvedValue({ id: 'message-1' }),
+    };
+    userBlockModel = { findBlockedBetween: jest.fn().mockResolvedValue([]) };
+    controller = new TourController(
+      tourModel as any,
+      propertyModel as any,
+      conversationModel as any,
+      messageModel as any,
+      new MessagingController(
+        conversationModel as any,
+        messageModel as any,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        userBlockModel as any
+      )
+    );
+  });
+
+  describe('requestTour', () => {
+    it('should link the tour to the tenant/landlord conversation and post a message', async () => {
+      const preferred = new Date(Date.now() + 48 * HOUR).toISOString();
+
+      const tour = await controller.requestTour('tenant-1', {
+        property_listing_id: 'property-1',
+        preferred_times: [preferred],
+      });
+
+      expect(conversationModel.getOrCreateDirectConversation).toHaveBeenCalledWith(
+        'tenant-1',
+        'landlord-1',
+        { property_listing_id: 'property-1' }
+      );
+      expect(tour.conversation_id).toBe('conversation-1');
+      expect(tour.proposed_slots).toEqual([
+        { start_time: preferred, proposed_by_user_id: 'tenant-1' },
+      ]);
+      expect(messageModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ conversation_id: 'conversation-1', sender_id: 'tenant-1' })
+      );
+    });
+
+    it('should reject a tour of your own property', async () => {
+      await expect(
+        controller.requestTour('landlord-1', { property_listing_id: 'property-1' })
+      ).rejects.toThrow('cannot request a tour of your own property');
+    });
+
+    it('should reject preferred times in the past', async () => {
+      await expect(
+        controller.requestTour('tenant-1', {
+          property_listing_id: 'property-1',
+          preferred_times: [new Date(Date.now() - HOUR).toISOString()],
+        })
+      ).rejects.toThrow('Times must be in the future');
+    });
+
+    it('should reject a tour request between blocked users before opening a conversation', async () => {
+      userBlockModel.findBlockedBetween.mockResolvedValue(['landlord-1']);
+
+      await expect(
+        controller.requestTour('tenant-1', { property_listing_id: 'property-1' })
+      ).rejects.toThrow('blocked');
+
+      expect(userBlockModel.findBlockedBetween).toHaveBeenCalledWith('tenant-1', ['landlord-1']);
+      expect(conversationModel.getOrCreateDirectConversation).not.toHaveBeenCalled();
+      expect(tourModel.create).not.toHaveBeenCalled();
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmTour', () => {
+    const slotTime = new Date(Date.now() + 48 * HOUR).toISOString();
+
+    beforeEach(() => {
+      tourModel.findById.mockResolvedValue(
+        buildTour({
+          status: TourStatus.PROPOSED,
+          proposed_slots: [{ start_time: slotTime, proposed_by_user_id: 'landlord-1' }],
+        })
+      );
+    });
+
+    it('should schedule the tour when the other party confirms a proposed slot', async () => {
+      const tour = await controller.confirmTour('tour-1', 'tenant-1', slotTime);
+
+      expect(tourModel.update).toHaveBeenCalledWith('tour-1', {
+        status: TourStatus.CONFIRMED,
+        scheduled_at: new Date(slotTime),
+        reminder_sent_at: null,
+      });
+      expect(tour.status).toBe(TourStatus.CONFIRMED);
+    });
+
+    it('should not let a user confirm their own proposed slot', async () => {
+      await expect(controller.confirmTour('tour-1', 'landlord-1', slotTime)).rejects.toThrow(
+        'The other party must confirm'
+      );
+      expect(tourModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a time that was not proposed', async () => {
+      const other = new Date(Date.now() + 72 * HOUR).toISOString();
+
+      await expect(controller.confirmTour('tour-1', 'tenant-1', other)).rejects.toThrow(
+        'Not one of the proposed times'
+      );
+    });
+
+    it('should reject users who are not part of the tour', async () => {
+      await expect(controller.confirmTour('tour-1', 'stranger-1', slotTime)).rejects.toThrow(
+        'Unauthorized'
+      );
+    });
+
+    it('should reject changes to a cancelled tour', async () => {
+      tourModel.findById.mockResolvedValue(buildTour({ status: TourStatus.CANCELLED }));
+
+      await expect(controller.confirmTour('tour-1', 'tenant-1', slotTime)).rejects.toThrow(
+        'Tour is already cancelled'
+      );
+    });
+
+    it('should not schedule a tour once either party has blocked the other', async () => {
+      userBlockModel.findBlockedBetween.mockResolvedValue(['landlord-1']);
+
+      await expect(controller.confirmTour('tour-1', 'tenant-1', slotTime)).rejects.toThrow('blocked');
+      expect(tourModel.update).not.toHaveBeenCalled();
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelTour', () => {
+    it('should cancel without posting to the thread when the users have blocked each other', async () => {
+      tourModel.findById.mockResolvedValue(buildTour());
+      userBlockModel.findBlockedBetween.mockResolvedValue(['tenant-1']);
+
+      const tour = await controller.cancelTour('tour-1', 'landlord-1');
+
+      expect(tour.status).toBe(TourStatus.CANCELLED);
+      expect(userBlockModel.findBlockedBetween).toHaveBeenCalledWith('landlord-1', ['tenant-1']);
+      expect(messageModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('calendar file', () => {
+    it('should build a UTC event with escaped text and CRLF line endings', () => {
+      const ics = buildIcsEvent({
+        uid: 'tour-1@demandcre',
+        start: new Date('2025-03-04T15:30:00.000Z'),
+        durationMinutes: 90,
+        summary: 'Tour; Main St, Suite 2',
+        location: '100 Main St, Austin, TX',
+      });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('DTSTART:20250304T153000Z\r\n');
+      expect(ics).toContain('DTEND:20250304T170000Z\r\n');
+      expect(ics).toContain('SUMMARY:Tour\\; Main St\\, Suite 2\r\n');
+      expect(ics).toContain('LOCATION:100 Main St\\, Austin\\, TX\r\n');
+      expect(ics.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+    });
+
+    it('should escape newlines and backslashes', () => {
+      expect(escapeIcsText('Line one\nC:\\path')).toBe('Line one\\nC:\\\\path');
+    });
+
+    it('should refuse to build a calendar file for an unscheduled tour', async () => {
+      tourModel.findByIdWithDetails.mockResolvedValue(buildTourWithDetails());
+
+      await expect(controller.getCalendarFile('tour-1', 'tenant-1')).rejects.toThrow(
+        'not been scheduled'
+      );
+    });
+  });
+
+  describe('sendDueTourReminders', () => {
+    it('should remind both parties with the calendar invite attached', async () => {
+      const { notificationService } = jest.requireMock('../../../services/NotificationService');
+      const scheduledAt = new Date(Date.now() + 20 * HOUR);
+      tourModel.findDueForReminder.mockResolvedValue([
+        buildTourWithDetails({ status: TourStatus.CONFIRMED, scheduled_at: scheduledAt }),
+      ]);
+
+      const count = await sendDueTourReminders(tourModel as any, notificationService);
+
+      expect(count).toBe(1);
+      expect(tourModel.markReminderSent).toHaveBeenCalledWith('tour-1');
+      expect(notificationService.sendTourReminderNotification).toHaveBeenCalledTimes(2);
+      expect(notificationService.sendTourReminderNotification).toHaveBeenCalledWith(
+        'tenant-1',
+        property.title,
+        '100 Main St, Austin, TX',
+        scheduledAt,
+        'landlord@example.com',
+        expect.stringContaining('BEGIN:VEVENT')
+      );
+      expect(notificationService.sendTourReminderNotification).toHaveBeenCalledWith(
+        'landlord-1',
+        property.title,
+        '100 Main St, Austin, TX',
+        scheduledAt,
+        'Tina Tenant',
+        expect.stringContaining('BEGIN:VEVENT')
+      );
+    });
+  });
+});
@@ -7,6 +7,7 @@ import profileRoutes from './routes/profileRoutes';
 import dashboardRoutes from './routes/dashboardRoutes';
 import mfaRoutes from './routes/mfaRoutes';
 import businessRoutes from './routes/businessRoutes';
+import businessInviteRoutes from './routes/businessInviteRoutes';
 import demandListingRoutes from './routes/demandListingRoutes';
 import propertyListingRoutes from './routes/propertyListingRoutes';
 import messagingRoutes from './routes/messagingRoutes';
@@ -14,6 +15,12 @@ import matchingRoutes from './routes/matchingRoutes';
 import notificationRoutes from './routes/notificationRoutes';
 import marketInsightsRoutes from './routes/marketInsightsRoutes';
 import subscriptionRoutes from './routes/subscriptionRoutes';
+import tourRoutes from './routes/tourRoutes';
+import savedSearchRoutes from './routes/savedSearchRoutes';
+import dealRoutes from './routes/dealRoutes';
+import brokerClientRoutes from './routes/brokerClientRoutes';
+import messageTemplateRoutes from './routes/messageTemplateRoutes';
+import moderationRoutes from './routes/moderationRoutes';
 import { HttpsEnforcementMiddleware } from './middleware/securityMiddleware';
 import { TokenRefreshMiddleware } from './middleware/authMiddleware';
 
@@ -89,6 +96,9 @@ export function createApp(): Express {
   // Business routes
   app.use('/api/businesses', businessRoutes);
 
+  // Business invite routes
+  app.use('/api/invites', businessInviteRoutes);
+
   // Demand listing routes
   app.use('/api/demand-listings', demandListingRoutes);
 
@@ -110,6 +120,24 @@ export function createApp(): Express {
   // Subscription routes
   app.use('/api/subscriptions', subscriptionRoutes);
 
+  // Tour routes
+  app.use('/api/tours', tourRoutes);
+
+  // Saved search routes
+  app.use('/api/saved-searches', savedSearchRoutes);
+
+  // Deal pipeline routes
+  app.use('/api/deals', dealRoutes);
+
+  // Broker client representation routes
+  app.use('/api/broker-clients', brokerClientRoutes);
+
+  // Message template routes
+  app.use('/api/message-templates', messageTemplateRoutes);
+
+  // Blocking, abuse report and moderation queue routes
+  app.use('/api/moderation', moderationRoutes);
+
   // 404 handler
   app.use((_req: Request, res: Response) => {
     res.status(404).json({
@@ -11,6 +11,7 @@ interface UserResponse {
   email: string;
   role: string;
   emailVerified: boolean;
+  isAdmin: boolean;
   profile?: {
     first_name: string;
     last_name: string;
@@ -45,6 +46,7 @@ export class AuthController {
       email: user.email,
       role: user.role,
       emailVerified: user.email_verified,
+      isAdmin: user.is_admin,
       profile: user.profile ? {
         first_name: user.profile.first_name,
         last_name: user.profile.last_name,
@@ -0,0 +1,580 @@
+import { BrokerClientModel } from '../database/models/BrokerClient';
+import { UserModel } from '../database/models/User';
+import { BusinessModel } from '../database/models/Business';
+import { BusinessMemberModel } from '../database/models/BusinessMember';
+import { DemandListingModel } from '../database/models/DemandListing';
+import { PropertyListingModel } from '../database/models/PropertyListing';
+import { BusinessController } from './BusinessController';
+import { PropertyListingController } from './PropertyListingController';
+import { BusinessAccessService } from '../services/BusinessAccessService';
+import { notificationService } from '../services/NotificationService';
+import {
+  BrokerClient,
+  BrokerClientAuditEntry,
+  BrokerClientStatus,
+  BrokerClientType,
+  BrokerClientWithDetails,
+  BrokerDashboardData,
+  BusinessMemberRole,
+  DemandListing,
+  PropertyListing,
+  PropertyListingStatus,
+  UserRole,
+} from '../types';
+
+const MAX_MESSAGE_LENGTH = 1000;
+const DASHBOARD_LIST_LIMIT = 10;
+
+// Fields a broker may change on a client's listings
+const DEMAND_LISTING_FIELDS = [
+  'title',
+  'description',
+  'location_name',
+  'city',
+  'state',
+  'address',
+  'sqft_min',
+  'sqft_max',
+  'budget_min',
+  'budget_max',
+  'duration_type',
+  'start_date',
+  'industry',
+  'asset_type',
+  'lot_size',
+  'is_corporate_location',
+  'additional_features',
+  'stealth_mode',
+  'latitude',
+  'longitude',
+  'search_radius_miles',
+] as const;
+
+const PROPERTY_LISTING_FIELDS = [
+  'title',
+  'description',
+  'property_type',
+  'address',
+  'city',
+  'state',
+  'zip_code',
+  'latitude',
+  'longitude',
+  'sqft',
+  'lot_size',
+  'year_built',
+  'floors',
+  'asking_price',
+  'price_per_sqft',
+  'lease_type',
+  'cam_charges',
+  'available_date',
+  'min_lease_term',
+  'max_lease_term',
+  'amenities',
+  'highlights',
+  'photos',
+  'virtual_tour_url',
+  'documents',
+  'contact_name',
+  'contact_email',
+  'contact_phone',
+] as const;
+
+type DemandListingInput = Parameters<BusinessController['updateDemandListing']>[2];
+
+const pickFields = <T extends string>(data: Record<string, any>, fields: readonly T[]) =>
+  fields.reduce(
+    (picked, field) => (data[field] !== undefined ? { ...picked, [field]: data[field] } : picked),
+    {} as Partial<Record<T, any>>
+  );
+
+/**
+ * Controller for broker client representation endpoints
+ *
+ * A broker asks to represent a tenant business or a landlord; the business
+ * owner or the landlord grants consent. While the representation is active
+ * the broker can manage the client's listings, acting as the client, and
+ * every such action is written to the representation's audit trail.
+ */
+export class BrokerClientController {
+  private brokerClientModel: BrokerClientModel;
+  private userModel: UserModel;
+  private businessModel: BusinessModel;
+  private demandListingModel: DemandListingModel;
+  private propertyListingModel: PropertyListingModel;
+  private businessController: BusinessController;
+  private propertyListingController: PropertyListingController;
+  private businessAccess: BusinessAccessService;
+
+  constructor(
+    brokerClientModel?: BrokerClientModel,
+    userModel?: UserModel,
+    businessModel?: BusinessModel,
+    businessMemberModel?: BusinessMemberModel,
+    demandListingModel?: DemandListingModel,
+    propertyListingModel?: PropertyListingModel
+  ) {
+    this.brokerClientModel = brokerClientModel || new BrokerClientModel();
+    this.userModel = userModel || new UserModel();
+    this.businessModel = businessModel || new BusinessModel();
+    this.demandListingModel = demandListingModel || new DemandListingModel();
+    this.propertyListingModel = propertyListingModel || new PropertyListingModel();
+
+    const memberModel = businessMemberModel || new BusinessMemberModel();
+    this.businessAccess = new BusinessAccessService(this.businessModel, memberModel);
+    this.businessController = new BusinessController(
+      this.businessModel,
+      this.demandListingModel,
+      undefined,
+      memberModel
+    );
+    this.propertyListingController = new PropertyListingController(this.propertyListingModel);
+  }
+
+  /**
+   * Handle GET /api/broker-clients
+   * List the broker's client roster
+   */
+  async listClients(brokerUserId: string): Promise<BrokerClientWithDetails[]> {
+    return this.brokerClientModel.findByBroker(brokerUserId);
+  }
+
+  /**
+   * Handle POST /api/broker-clients
+   * Ask a tenant business (by ID) or a landlord (by email) for consent to represent them
+   */
+  async requestRepresentation(
+    brokerUserId: string,
+    data: {
+      client_type?: string;
+      business_id?: string;
+      client_email?: string;
+      message?: string | null;
+    }
+  ): Promise<BrokerClientWithDetails> {
+    const message = data.message?.trim() || null;
+    if (message && message.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Invalid message: must be ${MAX_MESSAGE_LENGTH} characters or less`);
+    }
+
+    let client: { business_id?: string; client_user_id?: string };
+    let consentingUserId: string;
+    let clientName: string;
+
+    if (data.client_type === BrokerClientType.TENANT) {
+      if (!data.business_id) {
+        throw new Error('business_id is required for tenant clients');
+      }
+
+      const business = await this.businessModel.findById(data.business_id);
+      if (!business) {
+        throw new Error('Business not found');
+      }
+      if (business.user_id === brokerUserId) {
+        throw new Error('Invalid request: You cannot represent your own business');
+      }
+
+      client = { business_id: business.id };
+      consentingUserId = business.user_id;
+      clientName = business.name;
+    } else if (data.client_type === BrokerClientType.LANDLORD) {
+      if (!data.client_email?.trim()) {
+        throw new Error('client_email is required for landlord clients');
+      }
+
+      const landlord = await this.userModel.findByEmail(data.client_email.trim().toLowerCase());
+      if (!landlord) {
+        throw new Error('Landlord not found');
+      }
+      if (landlord.role !== UserRole.LANDLORD) {
+        throw new Error('Invalid request: Only landlord accounts can be represented as landlord clients');
+      }
+
+      client = { client_user_id: landlord.id };
+      consentingUserId = landlord.id;
+      clientName = 'your property listings';
+    } else {
+      throw new Error('Invalid client_type: must be tenant or landlord');
+    }
+
+    const existing = await this.brokerClientModel.findOpen(brokerUserId, client);
+    if (existing) {
+      throw new Error('Invalid request: You already represent or have asked to represent this client');
+    }
+
+    const brokerClient = await this.brokerClientModel.create({
+      broker_user_id: brokerUserId,
+      client_type: data.client_type,
+      ...client,
+      message,
+    });
+
+    await this.brokerClientModel.recordAction({
+      broker_client_id: brokerClient.id,
+      actor_user_id: brokerUserId,
+      action: 'representation_requested',
+    });
+
+    notificationService
+      .sendBrokerRequestNotification(consentingUserId, brokerUserId, clientName, brokerClient.id)
+      .catch((err) => console.error('Failed to send broker request notification:', err));
+
+    return (await this.brokerClientModel.findByIdWithDetails(brokerClient.id)) as BrokerClientWithDetails;
+  }
+
+  /**
+   * Handle GET /api/broker-clients/representations
+   * List pending requests and active brokers for the user as a client
+   */
+  async listRepresentations(userId: string): Promise<BrokerClientWithDetails[]> {
+    return this.brokerClientModel.findForClient(userId);
+  }
+
+  /**
+   * Handle POST /api/broker-clients/:id/consent and /:id/decline
+   * The client answers a pending representation request
+   */
+  async respondToRequest(
+    brokerClientId: string,
+    userId: string,
+    grant: boolean
+  ): Promise<BrokerClientWithDetails> {
+    const brokerClient = await this.findBrokerClient(brokerClientId);
+    await this.authorizeClient(brokerClient, userId, BusinessMemberRole.OWNER);
+
+    if (brokerClient.status !== BrokerClientStatus.PENDING) {
+      throw new Error('Invalid request: This request has already been answered');
+    }
+
+    const status = grant ? BrokerClientStatus.ACTIVE : BrokerClientStatus.DECLINED;
+    await this.brokerClientModel.updateStatus(brokerClientId, status, userId);
+    await this.brokerClientModel.recordAction({
+      broker_client_id: brokerClientId,
+      actor_user_id: userId,
+      action: grant ? 'consent_granted' : 'consent_declined',
+    });
+
+    return this.notifyBroker(brokerClientId, status);
+  }
+
+  /**
+   * Handle POST /api/broker-clients/:id/revoke
+   * The client withdraws consent, or the broker ends or withdraws the representation
+   */
+  async revoke(brokerClientId: string, userId: string): Promise<BrokerClientWithDetails> {
+    const brokerClient = await this.findBrokerClient(brokerClientId);
+    const isBroker = brokerClient.broker_user_id === userId;
+
+    if (!isBroker) {
+      await this.authorizeClient(brokerClient, userId, BusinessMemberRole.OWNER);
+    }
+
+    if (
+      brokerClient.status !== BrokerClientStatus.PENDING &&
+      brokerClient.status !== BrokerClientStatus.ACTIVE
+    ) {
+      throw new Error('Invalid request: This representation has already ended');
+    }
+
+    await this.brokerClientModel.updateStatus(brokerClientId, BrokerClientStatus.REVOKED, userId);
+    await this.brokerClientModel.recordAction({
+      broker_client_id: brokerClientId,
+      actor_user_id: userId,
+      action: 'consent_revoked',
+      details: { revoked_by: isBroker ? 'broker' : 'client' },
+    });
+
+    if (isBroker) {
+      return (await this.brokerClientModel.findByIdWithDetails(brokerClientId)) as BrokerClientWithDetails;
+    }
+    return this.notifyBroker(brokerClientId, BrokerClientStatus.REVOKED);
+  }
+
+  /**
+   * Handle GET /api/broker-clients/:id/audit
+   * The broker and the client (business admins included) can review the trail
+   */
+  async getAuditLog(brokerClientId: string, userId: string): Promise<BrokerClientAuditEntry[]> {
+    const brokerClient = await this.findBrokerClient(brokerClientId);
+
+    if (brokerClient.broker_user_id !== userId) {
+      await this.authorizeClient(brokerClient, userId, BusinessMemberRole.ADMIN);
+    }
+
+    return this.brokerClientModel.getAuditLog(brokerClientId);
+  }
+
+  /**
+   * Handle GET /api/broker-clients/:id/listings
+   * The client's listings the broker can manage
+   */
+  async listClientListings(
+    brokerClientId: string,
+    brokerUserId: string
+  ): Promise<{ demandListings: DemandListing[]; propertyListings: PropertyListing[] }> {
+    const brokerClient = await this.authorizeBroker(brokerClientId, brokerUserId);
+
+    if (brokerClient.client_type === BrokerClientType.TENANT) {
+      return {
+        demandListings: await this.demandListingModel.findByBusinessId(brokerClient.business_id as string),
+        propertyListings: [],
+      };
+    }
+
+    return {
+      demandListings: [],
+      propertyListings: await this.propertyListingModel.findByUserId(brokerClient.client_user_id as string),
+    };
+  }
+
+  /**
+   * Handle POST /api/broker-clients/:id/demand-listings
+   * Create a demand listing for a tenant client's business
+   */
+  async createDemandListing(
+    brokerClientId: string,
+    brokerUserId: string,
+    data: Record<string, any>
+  ): Promise<DemandListing> {
+    const brokerClient = await this.authorizeBroker(brokerClientId, brokerUserId, BrokerClientType.TENANT);
+    const ownerUserId = await this.getBusinessOwnerId(brokerClient);
+
+    const listing = await this.businessController.createDemandListing(ownerUserId, {
+      ...(pickFields(data, DEMAND_LISTING_FIELDS) as DemandListingInput),
+      location_name: data.location_name,
+      city: data.city,
+      state: data.state,
+      asset_type: data.asset_type,
+      business_id: brokerClient.business_id as string,
+    });
+
+    await this.brokerClientModel.recordAction({
+      broker_client_id: brokerClientId,
+      actor_user_id: brokerUserId,
+      action: 'demand_listing_created',
+      resource_type: 'demand_listing',
+      resource_id: listing.id,
+      details: { title: listing.title || listing.location_name },
+    });
+
+    return listing;
+  }
+
+  /**
+   * Handle PUT /api/broker-clients/:id/demand-listings/:listingId
+   * Update one of a tenant client's demand listings
+   */
+  async updateDemandListing(
+    brokerClientId: string,
+    brokerUserId: string,
+    listingId: string,
+    data: Record<string, any>
+  ): Promise<DemandListing> {
+    const brokerClient = await this.authorizeBroker(brokerClientId, brokerUserId, BrokerClientType.TENANT);
+
+    const listing = await this.demandListingModel.findById(listingId);
+    if (!listing || listing.business_id !== brokerClient.business_id) {
+      throw new Error('Demand listing not found');
+    }
+
+    const changes = pickFields(data, DEMAND_LISTING_FIELDS) as DemandListingInput;
+    const ownerUserId = await this.getBusinessOwnerId(brokerClient);
+    const updated = await this.businessController.updateDemandListing(listingId, ownerUserId, changes);
+
+    await this.brokerClientModel.recordAction({
+      broker_client_id: brokerClientId,
+      actor_user_id: brokerUserId,
+      action: 'demand_listing_updated',
+      resource_type: 'demand_listing',
+      resource_id: listingId,
+      details: { fields: Object.keys(changes) },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Handle PUT /api/broker-clients/:id/property-listings/:listingId
+   * Update one of a landlord client's property listings
+   */
+  async updatePropertyListing(
+    brokerClientId: string,
+    brokerUserId: string,
+    listingId: string,
+    data: Record<string, any>
+  ): Promise<PropertyListing> {
+    const brokerClient = await this.authorizeBroker(brokerClientId, brokerUserId, BrokerClientType.LANDLORD);
+    await this.findClientPropertyListing(brokerClient, listingId);
+
+    const changes = pickFields(data, PROPERTY_LISTING_FIELDS) as Partial<PropertyListing>;
+    const updated = await this.propertyListingController.updateListing(
+      listingId,
+      brokerClient.client_user_id as string,
+      changes
+    );
+
+    await this.brokerClientModel.recordAction({
+      broker_client_id: brokerClientId,
+      actor_user_id: brokerUserId,
+      action: 'property_listing_updated',
+      resource_type: 'property_listing',
+      resource_id: listingId,
+      details: { fields: Object.keys(changes) },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Handle PATCH /api/broker-clients/:id/property-listings/:listingId/status
+   * Change the status of one of a landlord client's property listings
+   */
+  async updatePropertyListingStatus(
+    brokerClientId: string,
+    brokerUserId: string,
+    listingId: string,
+    status: string
+  ): Promise<PropertyListing> {
+    if (!Object.values(PropertyListingStatus).includes(status as PropertyListingStatus)) {
+      throw new Error('Invalid status. Must be one of: active, pending, leased, off_market');
+    }
+
+    const brokerClient = await this.authorizeBroker(brokerClientId, brokerUserId, BrokerClientType.LANDLORD);
+    const listing = await this.findClientPropertyListing(brokerClient, listingId);
+
+    const updated = await this.propertyListingController.updateListingStatus(
+      listingId,
+      brokerClient.client_user_id as string,
+      status as PropertyListingStatus
+    );
+
+    await this.brokerClientModel.recordAction({
+      broker_client_id: brokerClientId,
+      actor_user_id: brokerUserId,
+      action: 'property_listing_status_changed',
+      resource_type: 'property_listing',
+      resource_id: listingId,
+      details: { from: listing.status, to: status },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Handle GET /api/dashboard/broker
+   * Combined view of the broker's clients and their matches, conversations and deals
+   */
+  async getDashboard(brokerUserId: string): Promise<BrokerDashboardData> {
+    const [kpis, clients, matches, conversations, deals] = await Promise.all([
+      this.brokerClientModel.getDashboardKpis(brokerUserId),
+      this.brokerClientModel.findByBroker(brokerUserId),
+      this.brokerClientModel.findClientMatches(brokerUserId, DASHBOARD_LIST_LIMIT),
+      this.brokerClientModel.findClientConversations(brokerUserId, DASHBOARD_LIST_LIMIT),
+      this.brokerClientModel.findClientDeals(brokerUserId),
+    ]);
+
+    return { kpis, clients, matches, conversations, deals };
+  }
+
+  /**
+   * Owner of a tenant client's business, whose plan quotas apply to
+   * listings the broker creates for it. Null unless the client has granted
+   * this broker access, so the owner's plan and usage are never shown to others.
+   */
+  async getClientAccountUserId(brokerClientId: string, brokerUserId: string | undefined): Promise<string | null> {
+    const brokerClient = await this.brokerClientModel.findById(brokerClientId);
+    if (
+      !brokerClient?.business_id ||
+      brokerClient.broker_user_id !== brokerUserId ||
+      brokerClient.status !== BrokerClientStatus.ACTIVE
+    ) {
+      return null;
+    }
+
+    const business = await this.businessModel.findById(brokerClient.business_id);
+    return business?.user_id || null;
+  }
+
+  private async findBrokerClient(brokerClientId: string): Promise<BrokerClient> {
+    const brokerClient = await this.brokerClientModel.findById(brokerClientId);
+    if (!brokerClient) {
+      throw new Error('Broker client not found');
+    }
+    return brokerClient;
+  }
+
+  /**
+   * Verify the user is the client: the landlord, or a business member with
+   * at least the given role
+   */
+  private async authorizeClient(
+    brokerClient: BrokerClient,
+    userId: string,
+    minimumRole: BusinessMemberRole
+  ): Promise<void> {
+    if (brokerClient.client_type === BrokerClientType.TENANT) {
+      await this.businessAccess.authorize(brokerClient.business_id as string, userId, minimumRole);
+      return;
+    }
+
+    if (brokerClient.client_user_id !== userId) {
+      throw new Error('Unauthorized: Only the client can manage this representation');
+    }
+  }
+
+  /**
+   * Verify the user is the client's broker and the client has granted consent
+   */
+  private async authorizeBroker(
+    brokerClientId: string,
+    brokerUserId: string,
+    clientType?: BrokerClientType
+  ): Promise<BrokerClient> {
+    const brokerClient = await this.findBrokerClient(brokerClientId);
+
+    if (brokerClient.broker_user_id !== brokerUserId) {
+      throw new Error('Unauthorized: You do not represent this client');
+    }
+    if (brokerClient.status !== BrokerClientStatus.ACTIVE) {
+      throw new Error('Unauthorized: The client has not granted you access');
+    }
+    if (clientType && brokerClient.client_type !== clientType) {
+      throw new Error(`Invalid request: This action is only available for ${clientType} clients`);
+    }
+
+    return brokerClient;
+  }
+
+  private async getBusinessOwnerId(brokerClient: BrokerClient): Promise<string> {
+    const business = await this.businessModel.findById(brokerClient.business_id as string);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+    return business.user_id;
+  }
+
+  private async findClientPropertyListing(
+    brokerClient: BrokerClient,
+    listingId: string
+  ): Promise<PropertyListing> {
+    const listing = await this.propertyListingModel.findById(listingId);
+    if (!listing || listing.user_id !== brokerClient.client_user_id) {
+      throw new Error('Property listing not found');
+    }
+    return listing;
+  }
+
+  private async notifyBroker(
+    brokerClientId: string,
+    status: BrokerClientStatus
+  ): Promise<BrokerClientWithDetails> {
+    const details = (await this.brokerClientModel.findByIdWithDetails(brokerClientId)) as BrokerClientWithDetails;
+
+    notificationService
+      .sendBrokerConsentNotification(details.broker_user_id, details.client_name, status, brokerClientId)
+      .catch((err) => console.error('Failed to send broker consent notification:', err));
+
+    return details;
+  }
+}
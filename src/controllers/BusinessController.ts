@@ -1,13 +1,22 @@
 import { BusinessModel } from '../database/models/Business';
 import { DemandListingModel } from '../database/models/DemandListing';
 import { BusinessMetricsModel } from '../database/models/BusinessMetrics';
-import { Business, BusinessStatus, DemandListing, BusinessMetrics } from '../types';
+import { BusinessMemberModel } from '../database/models/BusinessMember';
+import { BusinessAccessService } from '../services/BusinessAccessService';
+import { geocodingService } from '../services/geo/GeocodingService';
+import {
+  Business,
+  BusinessMemberRole,
+  BusinessStatus,
+  DemandListing,
+  BusinessMetrics,
+} from '../types';
 
 /**
  * Business API response types
  */
 interface BusinessListResponse {
-  businesses: Business[];
+  businesses: (Business & { member_role: BusinessMemberRole })[];
   total: number;
   page: number;
   limit: number;
@@ -16,6 +25,7 @@ interface BusinessListResponse {
 
 interface BusinessDetailResponse {
   business: Business;
+  role: BusinessMemberRole;
   demandListings: DemandListing[];
   listingsCount: number;
   statesCount: number;
@@ -49,32 +59,68 @@ interface BusinessMetricsResponse {
   metricsHistory: BusinessMetrics[];
 }
 
+const MAX_SEARCH_RADIUS_MILES = 250;
+
+/**
+ * Check a demand listing's optional search centroid and radius.
+ * Null clears a value; anything else must be a number in range.
+ */
+const validateSearchArea = (data: {
+  latitude?: number | null;
+  longitude?: number | null;
+  search_radius_miles?: number | null;
+}): void => {
+  const inRange = (value: unknown, min: number, max: number) =>
+    value === undefined || value === null || (typeof value === 'number' && value >= min && value <= max);
+
+  if (!inRange(data.latitude, -90, 90)) {
+    throw new Error('Invalid latitude: must be a number between -90 and 90');
+  }
+  if (!inRange(data.longitude, -180, 180)) {
+    throw new Error('Invalid longitude: must be a number between -180 and 180');
+  }
+  if (!inRange(data.search_radius_miles, 0, MAX_SEARCH_RADIUS_MILES) || data.search_radius_miles === 0) {
+    throw new Error(
+      `Invalid search_radius_miles: must be more than 0 and at most ${MAX_SEARCH_RADIUS_MILES}`
+    );
+  }
+};
+
 /**
  * Controller for business endpoints
  * Handles HTTP request/response logic for business operations
+ *
+ * Access is granted by team membership: viewers can read a business,
+ * admins can edit it and its demand listings, and only the owner can delete it.
  */
 export class BusinessController {
   private businessModel: BusinessModel;
   private demandListingModel: DemandListingModel;
   private businessMetricsModel: BusinessMetricsModel;
+  private businessMemberModel: BusinessMemberModel;
+  private businessAccess: BusinessAccessService;
 
   constructor(
     businessModel?: BusinessModel,
     demandListingModel?: DemandListingModel,
-    businessMetricsModel?: BusinessMetricsModel
+    businessMetricsModel?: BusinessMetricsModel,
+    businessMemberModel?: BusinessMemberModel
   ) {
     this.businessModel = businessModel || new BusinessModel();
     this.demandListingModel = demandListingModel || new DemandListingModel();
     this.businessMetricsModel = businessMetricsModel || new BusinessMetricsModel();
+    this.businessMemberModel = businessMemberModel || new BusinessMemberModel();
+    this.businessAccess = new BusinessAccessService(this.businessModel, this.businessMemberModel);
   }
 
   /**
    * Handle GET /api/businesses
-   * List businesses for authenticated user with pagination, filtering, and search
+   * List businesses the authenticated user owns or is a member of,
+   * with pagination, filtering, and search
    *
    * @param userId - ID of authenticated user
    * @param options - Query parameters (page, limit, status, search)
-   * @returns Paginated list of businesses with aggregated counts
+   * @returns Paginated list of businesses with aggregated counts and the user's role
    */
   async listBusinesses(
     userId: string,
@@ -90,7 +136,7 @@ export class BusinessController {
     const offset = (page - 1) * limit;
 
     // Use paginated query with filters
-    const result = await this.businessModel.findByUserIdPaginated(
+    const result = await this.businessModel.findAccessibleByUserIdPaginated(
       userId,
       limit,
       offset,
@@ -128,21 +174,12 @@ export class BusinessController {
    *
    * @param businessId - ID of the business
    * @param userId - ID of authenticated user (for authorization)
-   * @returns Business details with demand listings and counts
-   * @throws Error if business not found or user doesn't own the business
+   * @returns Business details with demand listings, counts, and the user's role
+   * @throws Error if business not found or user is not a member of the business
    */
   async getBusinessById(businessId: string, userId: string): Promise<BusinessDetailResponse> {
-    // Find business
-    const business = await this.businessModel.findById(businessId);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    // Verify user owns the business
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Any member can view the business
+    const { business, role } = await this.businessAccess.authorize(businessId, userId);
 
     // Get demand listings for this business
     const demandListings = await this.demandListingModel.findByBusinessId(businessId);
@@ -152,6 +189,7 @@ export class BusinessController {
 
     return {
       business,
+      role,
       demandListings,
       listingsCount: counts.listingsCount,
       statesCount: counts.statesCount,
@@ -166,22 +204,14 @@ export class BusinessController {
    * @param businessId - ID of the business
    * @param userId - ID of authenticated user (for authorization)
    * @returns List of demand listings
-   * @throws Error if business not found or user doesn't own the business
+   * @throws Error if business not found or user is not a member of the business
    */
   async listDemandListings(
     businessId: string,
     userId: string
   ): Promise<DemandListingResponse> {
-    // Verify user owns the business
-    const business = await this.businessModel.findById(businessId);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Any member can view the business
+    await this.businessAccess.authorize(businessId, userId);
 
     // Get demand listings
     const demandListings = await this.demandListingModel.findByBusinessId(businessId);
@@ -200,23 +230,15 @@ export class BusinessController {
    * @param locationId - ID of the demand listing
    * @param userId - ID of authenticated user (for authorization)
    * @returns Placeholder metrics response
-   * @throws Error if business not found, location not found, or user doesn't own the business
+   * @throws Error if business not found, location not found, or user is not a member of the business
    */
   async getLocationMetrics(
     businessId: string,
     locationId: string,
     userId: string
   ): Promise<LocationMetricsResponse> {
-    // Verify user owns the business
-    const business = await this.businessModel.findById(businessId);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Any member can view the business
+    await this.businessAccess.authorize(businessId, userId);
 
     // Verify demand listing belongs to business
     const demandListing = await this.demandListingModel.findById(locationId);
@@ -258,16 +280,8 @@ export class BusinessController {
     businessId: string,
     userId: string
   ): Promise<BusinessMetricsResponse> {
-    // Verify user owns the business
-    const business = await this.businessModel.findById(businessId);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Any member can view the business
+    await this.businessAccess.authorize(businessId, userId);
 
     // Get all metrics for this business
     const metricsHistory = await this.businessMetricsModel.findByBusinessId(businessId);
@@ -324,6 +338,13 @@ export class BusinessController {
       stealth_mode_enabled: false,
     });
 
+    // The creator is the business's first team member
+    await this.businessMemberModel.create({
+      business_id: business.id,
+      user_id: userId,
+      role: BusinessMemberRole.OWNER,
+    });
+
     return business;
   }
 
@@ -357,24 +378,24 @@ export class BusinessController {
       is_corporate_location?: boolean;
       additional_features?: string[];
       stealth_mode?: boolean;
+      latitude?: number | null;
+      longitude?: number | null;
+      search_radius_miles?: number | null;
     }
   ): Promise<DemandListing> {
-    // Verify user owns the business
-    const business = await this.businessModel.findById(data.business_id);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Admins and the owner can create listings for the business
+    await this.businessAccess.authorize(data.business_id, userId, BusinessMemberRole.ADMIN);
 
     // Validate required fields
     if (!data.location_name || !data.city || !data.state || !data.asset_type) {
       throw new Error('Location name, city, state, and asset type are required');
     }
 
+    validateSearchArea(data);
+
+    // Use the supplied centroid, otherwise geocode from city/state
+    const centroid = geocodingService.resolvePoint(data);
+
     // Create demand listing
     const demandListing = await this.demandListingModel.create({
       business_id: data.business_id,
@@ -396,6 +417,9 @@ export class BusinessController {
       is_corporate_location: data.is_corporate_location || false,
       additional_features: data.additional_features || [],
       stealth_mode: data.stealth_mode || false,
+      latitude: centroid?.latitude ?? null,
+      longitude: centroid?.longitude ?? null,
+      search_radius_miles: data.search_radius_miles || null,
     });
 
     return demandListing;
@@ -427,7 +451,7 @@ export class BusinessController {
    * @param userId - ID of authenticated user (for authorization)
    * @param data - Business update data
    * @returns Updated business
-   * @throws Error if business not found or user doesn't own the business
+   * @throws Error if business not found or user is not an admin of the business
    */
   async updateBusiness(
     businessId: string,
@@ -439,16 +463,8 @@ export class BusinessController {
       status?: BusinessStatus;
     }
   ): Promise<Business> {
-    // Verify user owns the business
-    const business = await this.businessModel.findById(businessId);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Admins and the owner can edit the business
+    await this.businessAccess.authorize(businessId, userId, BusinessMemberRole.ADMIN);
 
     // Update business
     const updatedBusiness = await this.businessModel.update(businessId, {
@@ -474,16 +490,8 @@ export class BusinessController {
    * @throws Error if business not found or user doesn't own the business
    */
   async deleteBusiness(businessId: string, userId: string): Promise<void> {
-    // Verify user owns the business
-    const business = await this.businessModel.findById(businessId);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Only the owner can delete the business
+    await this.businessAccess.authorize(businessId, userId, BusinessMemberRole.OWNER);
 
     // Delete the business (this should cascade delete related records)
     const deleted = await this.businessModel.delete(businessId);
@@ -501,7 +509,7 @@ export class BusinessController {
    * @param userId - ID of authenticated user (for authorization)
    * @param data - Demand listing update data
    * @returns Updated demand listing
-   * @throws Error if listing not found or user doesn't own the business
+   * @throws Error if listing not found or user is not an admin of the business
    */
   async updateDemandListing(
     listingId: string,
@@ -525,6 +533,9 @@ export class BusinessController {
       is_corporate_location?: boolean;
       additional_features?: string[];
       stealth_mode?: boolean;
+      latitude?: number | null;
+      longitude?: number | null;
+      search_radius_miles?: number | null;
     }
   ): Promise<DemandListing> {
     // Find the demand listing
@@ -534,15 +545,23 @@ export class BusinessController {
       throw new Error('Demand listing not found');
     }
 
-    // Verify user owns the business
-    const business = await this.businessModel.findById(listing.business_id);
+    // Admins and the owner can manage the business's listings
+    await this.businessAccess.authorize(listing.business_id, userId, BusinessMemberRole.ADMIN);
 
-    if (!business) {
-      throw new Error('Business not found');
-    }
+    validateSearchArea(data);
 
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
+    // Re-geocode when the location moves without explicit coordinates
+    const locationChanged = data.city !== undefined || data.state !== undefined;
+    if (locationChanged && data.latitude === undefined && data.longitude === undefined) {
+      const centroid = geocodingService.geocode({
+        city: data.city ?? listing.city,
+        state: data.state ?? listing.state,
+      });
+      data = {
+        ...data,
+        latitude: centroid?.latitude ?? null,
+        longitude: centroid?.longitude ?? null,
+      };
     }
 
     // Update the demand listing
@@ -561,7 +580,7 @@ export class BusinessController {
    *
    * @param listingId - ID of the demand listing to delete
    * @param userId - ID of authenticated user (for authorization)
-   * @throws Error if listing not found or user doesn't own the business
+   * @throws Error if listing not found or user is not an admin of the business
    */
   async deleteDemandListing(listingId: string, userId: string): Promise<void> {
     // Find the demand listing
@@ -571,16 +590,8 @@ export class BusinessController {
       throw new Error('Demand listing not found');
     }
 
-    // Verify user owns the business
-    const business = await this.businessModel.findById(listing.business_id);
-
-    if (!business) {
-      throw new Error('Business not found');
-    }
-
-    if (business.user_id !== userId) {
-      throw new Error('Unauthorized: You do not own this business');
-    }
+    // Admins and the owner can manage the business's listings
+    await this.businessAccess.authorize(listing.business_id, userId, BusinessMemberRole.ADMIN);
 
     // Delete the demand listing
     const deleted = await this.demandListingModel.delete(listingId);
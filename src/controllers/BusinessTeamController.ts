@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import { BusinessModel } from '../database/models/Business';
+import { BusinessInviteModel } from '../database/models/BusinessInvite';
+import { BusinessMemberModel } from '../database/models/BusinessMember';
+import { BusinessAccessService } from '../services/BusinessAccessService';
+import { notificationService } from '../services/NotificationService';
+import {
+  Business,
+  BusinessInvite,
+  BusinessInviteStatus,
+  BusinessMember,
+  BusinessMemberRole,
+  BusinessTeamMember,
+} from '../types';
+
+// Matches the expiry promised in the invite email
+const INVITE_EXPIRY_DAYS = 7;
+
+const INVITABLE_ROLES: BusinessMemberRole[] = [BusinessMemberRole.ADMIN, BusinessMemberRole.VIEWER];
+
+/**
+ * Invite as returned by the API; the token is only ever sent by email
+ */
+type PublicBusinessInvite = Omit<BusinessInvite, 'token'>;
+
+interface TeamResponse {
+  members: BusinessTeamMember[];
+  invites: PublicBusinessInvite[];
+}
+
+interface InvitePreviewResponse {
+  invite: PublicBusinessInvite;
+  business: Pick<Business, 'id' | 'name' | 'logo_url' | 'category'>;
+}
+
+/**
+ * Controller for business team endpoints
+ * Handles invites, invite acceptance, and member management
+ */
+export class BusinessTeamController {
+  private businessModel: BusinessModel;
+  private businessInviteModel: BusinessInviteModel;
+  private businessMemberModel: BusinessMemberModel;
+  private businessAccess: BusinessAccessService;
+
+  constructor(
+    businessModel?: BusinessModel,
+    businessInviteModel?: BusinessInviteModel,
+    businessMemberModel?: BusinessMemberModel
+  ) {
+    this.businessModel = businessModel || new BusinessModel();
+    this.businessInviteModel = businessInviteModel || new BusinessInviteModel();
+    this.businessMemberModel = businessMemberModel || new BusinessMemberModel();
+    this.businessAccess = new BusinessAccessService(this.businessModel, this.businessMemberModel);
+  }
+
+  /**
+   * Handle GET /api/businesses/:id/members
+   * List members and pending invites for a business
+   *
+   * @param businessId - ID of the business
+   * @param userId - ID of authenticated user (must be a member)
+   * @returns Team members and pending invites
+   */
+  async listTeam(businessId: string, userId: string): Promise<TeamResponse> {
+    await this.businessAccess.authorize(businessId, userId);
+
+    const [members, invites] = await Promise.all([
+      this.businessMemberModel.findByBusinessId(businessId),
+      this.businessInviteModel.findByBusinessId(businessId),
+    ]);
+
+    return {
+      members,
+      invites: invites
+        .filter((invite) => invite.status === BusinessInviteStatus.PENDING)
+        .map((invite) => this.toPublicInvite(invite)),
+    };
+  }
+
+  /**
+   * Handle POST /api/businesses/:id/invites
+   * Invite someone to a business by email
+   * Re-inviting a pending email replaces the earlier invite with a fresh token
+   *
+   * @param businessId - ID of the business
+   * @param userId - ID of authenticated user (must be an admin or the owner)
+   * @param data - Invitee email and role
+   * @returns Created invite
+   */
+  async inviteMember(
+    businessId: string,
+    userId: string,
+    data: { email: string; role?: BusinessMemberRole }
+  ): Promise<PublicBusinessInvite> {
+    const { business } = await this.businessAccess.authorize(
+      businessId,
+      userId,
+      BusinessMemberRole.ADMIN
+    );
+
+    const email = data.email?.trim().toLowerCase();
+    if (!email) {
+      throw new Error('Invitee email is required');
+    }
+
+    const role = data.role || BusinessMemberRole.VIEWER;
+    if (!INVITABLE_ROLES.includes(role)) {
+      throw new Error('Invalid role: invites can grant admin or viewer access');
+    }
+
+    const members = await this.businessMemberModel.findByBusinessId(businessId);
+    if (members.some((member) => member.email.toLowerCase() === email)) {
+      throw new Error('User is already a member of this business');
+    }
+
+    const existingInvite = await this.businessInviteModel.findPendingByBusinessAndEmail(
+      businessId,
+      email
+    );
+    if (existingInvite) {
+      await this.businessInviteModel.delete(existingInvite.id);
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    const invite = await this.businessInviteModel.create({
+      business_id: businessId,
+      invited_by_user_id: userId,
+      invited_user_email: email,
+      token,
+      role,
+      expires_at: expiresAt,
+    });
+
+    await notificationService.sendBusinessInviteNotification(
+      email,
+      userId,
+      business.name,
+      role,
+      token
+    );
+
+    return this.toPublicInvite(invite);
+  }
+
+  /**
+   * Handle DELETE /api/businesses/:id/invites/:inviteId
+   * Revoke a pending invite
+   */
+  async revokeInvite(businessId: string, inviteId: string, userId: string): Promise<void> {
+    await this.businessAccess.authorize(businessId, userId, BusinessMemberRole.ADMIN);
+
+    const invite = await this.businessInviteModel.findById(inviteId);
+
+    if (!invite || invite.business_id !== businessId) {
+      throw new Error('Invite not found');
+    }
+
+    if (invite.status !== BusinessInviteStatus.PENDING) {
+      throw new Error(`Invite has already been ${invite.status}`);
+    }
+
+    await this.businessInviteModel.delete(inviteId);
+  }
+
+  /**
+   * Handle GET /api/invites/:token
+   * Preview an invite before responding to it
+   *
+   * @param token - Invite token from the email link
+   * @param userEmail - Email of authenticated user (must match the invite)
+   */
+  async getInvite(token: string, userEmail: string): Promise<InvitePreviewResponse> {
+    const invite = await this.findInviteForRecipient(token, userEmail);
+    const business = await this.businessModel.findById(invite.business_id);
+
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    return {
+      invite: this.toPublicInvite(invite),
+      business: {
+        id: business.id,
+        name: business.name,
+        logo_url: business.logo_url,
+        category: business.category,
+      },
+    };
+  }
+
+  /**
+   * Handle POST /api/invites/:token/accept
+   * Accept an invite and join the business with the invited role
+   *
+   * @param token - Invite token from the email link
+   * @param userId - ID of authenticated user
+   * @param userEmail - Email of authenticated user (must match the invite)
+   * @returns The new membership
+   */
+  async acceptInvite(token: string, userId: string, userEmail: string): Promise<BusinessMember> {
+    const invite = await this.findInviteForRecipient(token, userEmail);
+    this.assertRespondable(invite);
+
+    const existing = await this.businessMemberModel.findByBusinessAndUser(
+      invite.business_id,
+      userId
+    );
+
+    // Accepting never downgrades an existing membership (e.g. the owner)
+    const member =
+      existing && this.businessAccess.hasRole(existing.role, invite.role)
+        ? existing
+        : await this.businessMemberModel.create({
+            business_id: invite.business_id,
+            user_id: userId,
+            role: invite.role,
+            invited_by_user_id: invite.invited_by_user_id,
+          });
+
+    await this.businessInviteModel.update(invite.id, BusinessInviteStatus.ACCEPTED);
+
+    return member;
+  }
+
+  /**
+   * Handle POST /api/invites/:token/decline
+   * Decline an invite
+   *
+   * @param token - Invite token from the email link
+   * @param userEmail - Email of authenticated user (must match the invite)
+   */
+  async declineInvite(token: string, userEmail: string): Promise<void> {
+    const invite = await this.findInviteForRecipient(token, userEmail);
+    this.assertRespondable(invite);
+
+    await this.businessInviteModel.update(invite.id, BusinessInviteStatus.DECLINED);
+  }
+
+  /**
+   * Handle PATCH /api/businesses/:id/members/:userId
+   * Change a member's role (owner only)
+   */
+  async updateMemberRole(
+    businessId: string,
+    memberUserId: string,
+    userId: string,
+    role: BusinessMemberRole
+  ): Promise<BusinessMember> {
+    const { business } = await this.businessAccess.authorize(
+      businessId,
+      userId,
+      BusinessMemberRole.OWNER
+    );
+
+    if (!INVITABLE_ROLES.includes(role)) {
+      throw new Error('Invalid role: members can be admins or viewers');
+    }
+
+    if (memberUserId === business.user_id) {
+      throw new Error("Invalid request: the owner's role cannot be changed");
+    }
+
+    const member = await this.businessMemberModel.updateRole(businessId, memberUserId, role);
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    return member;
+  }
+
+  /**
+   * Handle DELETE /api/businesses/:id/members/:userId
+   * Remove a member, or leave the business when removing yourself
+   * Admins can remove viewers; the owner can remove anyone but themselves
+   */
+  async removeMember(businessId: string, memberUserId: string, userId: string): Promise<void> {
+    const { business, role } = await this.businessAccess.authorize(businessId, userId);
+
+    if (memberUserId === business.user_id) {
+      throw new Error('Invalid request: the owner cannot be removed from the business');
+    }
+
+    const member = await this.businessMemberModel.findByBusinessAndUser(businessId, memberUserId);
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    const isSelf = memberUserId === userId;
+    const canRemove =
+      role === BusinessMemberRole.OWNER ||
+      (role === BusinessMemberRole.ADMIN && member.role === BusinessMemberRole.VIEWER);
+
+    if (!isSelf && !canRemove) {
+      throw new Error('Unauthorized: You cannot remove this member');
+    }
+
+    await this.businessMemberModel.delete(businessId, memberUserId);
+  }
+
+  /**
+   * Look up an invite by token and make sure it was sent to this user
+   */
+  private async findInviteForRecipient(token: string, userEmail: string): Promise<BusinessInvite> {
+    const invite = await this.businessInviteModel.findByToken(token);
+
+    if (!invite) {
+      throw new Error('Invite not found');
+    }
+
+    if (invite.invited_user_email.toLowerCase() !== userEmail.toLowerCase()) {
+      throw new Error('Unauthorized: This invite was sent to a different email address');
+    }
+
+    return invite;
+  }
+
+  private assertRespondable(invite: BusinessInvite): void {
+    if (invite.status !== BusinessInviteStatus.PENDING) {
+      throw new Error(`Invite has already been ${invite.status}`);
+    }
+
+    if (invite.expires_at && new Date(invite.expires_at) < new Date()) {
+      throw new Error('Invite has expired');
+    }
+  }
+
+  private toPublicInvite(invite: BusinessInvite): PublicBusinessInvite {
+    const { token: _token, ...publicInvite } = invite;
+    return publicInvite;
+  }
+}
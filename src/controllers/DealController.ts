@@ -0,0 +1,289 @@
+import { DealModel } from '../database/models/Deal';
+import { DemandListingModel } from '../database/models/DemandListing';
+import { PropertyListingModel } from '../database/models/PropertyListing';
+import { BusinessModel } from '../database/models/Business';
+import { BusinessMemberModel } from '../database/models/BusinessMember';
+import { BusinessAccessService } from '../services/BusinessAccessService';
+import { MatchingService } from '../services/MatchingService';
+import { BusinessMemberRole, Deal, DealStage, DealWithDetails, DemandListing, PropertyListing } from '../types';
+
+const MAX_NOTES_LENGTH = 5000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Controller for deal pipeline endpoints
+ * A deal tracks one demand listing / property listing pair through the
+ * leasing stages. Deals live on the board of the user who created them,
+ * who must manage either the property or the tenant's business. Signing a
+ * deal only closes the listings its user manages; the other party's listing
+ * is theirs to close.
+ */
+export class DealController {
+  private dealModel: DealModel;
+  private demandListingModel: DemandListingModel;
+  private propertyListingModel: PropertyListingModel;
+  private matchingService: MatchingService;
+  private businessAccess: BusinessAccessService;
+
+  constructor(
+    dealModel?: DealModel,
+    demandListingModel?: DemandListingModel,
+    propertyListingModel?: PropertyListingModel,
+    businessModel?: BusinessModel,
+    businessMemberModel?: BusinessMemberModel,
+    matchingService?: MatchingService
+  ) {
+    this.dealModel = dealModel || new DealModel();
+    this.demandListingModel = demandListingModel || new DemandListingModel();
+    this.propertyListingModel = propertyListingModel || new PropertyListingModel();
+    this.matchingService = matchingService || new MatchingService();
+    this.businessAccess = new BusinessAccessService(
+      businessModel || new BusinessModel(),
+      businessMemberModel || new BusinessMemberModel()
+    );
+  }
+
+  /**
+   * Handle GET /api/deals
+   * List the user's pipeline, optionally for a single stage
+   */
+  async listDeals(userId: string, filters: { stage?: string } = {}): Promise<DealWithDetails[]> {
+    return this.dealModel.findByUserId(userId, {
+      stage: filters.stage ? this.validateStage(filters.stage) : undefined,
+    });
+  }
+
+  /**
+   * Handle GET /api/deals/:id
+   * Get a deal with its stage history
+   */
+  async getDeal(dealId: string, userId: string): Promise<DealWithDetails> {
+    const deal = await this.dealModel.findByIdWithDetails(dealId);
+    if (!deal) {
+      throw new Error('Deal not found');
+    }
+
+    this.assertOwner(deal, userId);
+
+    return deal;
+  }
+
+  /**
+   * Handle POST /api/deals
+   * Start tracking a deal, either from a property match or an explicit
+   * demand listing / property listing pair
+   */
+  async createDeal(
+    userId: string,
+    data: {
+      property_match_id?: string;
+      demand_listing_id?: string;
+      property_listing_id?: string;
+      notes?: string;
+      expected_close_date?: string | null;
+    }
+  ): Promise<Deal> {
+    let demandListingId = data.demand_listing_id;
+    let propertyListingId = data.property_listing_id;
+
+    if (data.property_match_id) {
+      const match = await this.matchingService.getMatchById(data.property_match_id);
+      if (!match) {
+        throw new Error('Property match not found');
+      }
+      demandListingId = match.demand_listing_id;
+      propertyListingId = match.property_listing_id;
+    }
+
+    if (!demandListingId || !propertyListingId) {
+      throw new Error('demand_listing_id and property_listing_id are required');
+    }
+
+    const demandListing = await this.demandListingModel.findById(demandListingId);
+    if (!demandListing) {
+      throw new Error('Demand listing not found');
+    }
+
+    const property = await this.propertyListingModel.findById(propertyListingId);
+    if (!property) {
+      throw new Error('Property listing not found');
+    }
+
+    const sides = await this.getManagedSides(userId, demandListing, property);
+    if (!sides.property && !sides.demand) {
+      throw new Error('Unauthorized: You must manage the property or the tenant business to track this deal');
+    }
+
+    const existing = await this.dealModel.findByListings(userId, demandListing.id, property.id);
+    if (existing) {
+      throw new Error('Invalid request: This deal is already on your pipeline');
+    }
+
+    return this.dealModel.create({
+      user_id: userId,
+      demand_listing_id: demandListing.id,
+      property_listing_id: property.id,
+      property_match_id: data.property_match_id || null,
+      notes: this.validateNotes(data.notes),
+      expected_close_date: this.validateDate(data.expected_close_date),
+    });
+  }
+
+  /**
+   * Handle PATCH /api/deals/:id
+   * Update deal notes and dates
+   */
+  async updateDeal(
+    dealId: string,
+    userId: string,
+    data: { notes?: string | null; expected_close_date?: string | null }
+  ): Promise<Deal> {
+    await this.getOwnedDeal(dealId, userId);
+
+    const updated = await this.dealModel.update(dealId, {
+      notes: data.notes !== undefined ? this.validateNotes(data.notes) : undefined,
+      expected_close_date:
+        data.expected_close_date !== undefined ? this.validateDate(data.expected_close_date) : undefined,
+    });
+
+    if (!updated) {
+      throw new Error('Deal not found');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Handle POST /api/deals/:id/move
+   * Move a deal to a stage and position on the board. Moving to Signed
+   * marks the property leased and the demand listing closed, for whichever
+   * of them the user manages.
+   */
+  async moveDeal(
+    dealId: string,
+    userId: string,
+    data: { stage?: string; position?: number; note?: string }
+  ): Promise<Deal> {
+    const deal = await this.getOwnedDeal(dealId, userId);
+
+    if (!data.stage) {
+      throw new Error('stage is required');
+    }
+    const stage = this.validateStage(data.stage);
+
+    if (deal.stage === DealStage.SIGNED && stage !== DealStage.SIGNED) {
+      throw new Error('Invalid request: Signed deals cannot be moved');
+    }
+
+    // Default to the bottom of the column, and never leave a gap past it
+    const columnSize = await this.dealModel.countByStage(userId, stage);
+    const maxPosition = deal.stage === stage ? columnSize - 1 : columnSize;
+    let position = maxPosition;
+    if (data.position !== undefined) {
+      if (!Number.isInteger(data.position) || data.position < 0) {
+        throw new Error('Invalid position: expected a non-negative integer');
+      }
+      position = Math.min(data.position, maxPosition);
+    }
+
+    const note = this.validateNotes(data.note);
+
+    // Access is checked when the deal is signed, not when it was created
+    let closeListings: { property: boolean; demand: boolean } | undefined;
+    if (stage === DealStage.SIGNED && deal.stage !== DealStage.SIGNED) {
+      const [demandListing, property] = await Promise.all([
+        this.demandListingModel.findById(deal.demand_listing_id),
+        this.propertyListingModel.findById(deal.property_listing_id),
+      ]);
+      closeListings = await this.getManagedSides(userId, demandListing, property);
+    }
+
+    const moved = await this.dealModel.moveToStage(dealId, {
+      stage,
+      position,
+      changed_by_user_id: userId,
+      note,
+      ...(closeListings ? { close_listings: closeListings } : {}),
+    });
+
+    if (!moved) {
+      throw new Error('Deal not found');
+    }
+
+    return moved;
+  }
+
+  /**
+   * Handle DELETE /api/deals/:id
+   */
+  async deleteDeal(dealId: string, userId: string): Promise<void> {
+    await this.getOwnedDeal(dealId, userId);
+    await this.dealModel.delete(dealId);
+  }
+
+  private async getOwnedDeal(dealId: string, userId: string): Promise<Deal> {
+    const deal = await this.dealModel.findById(dealId);
+    if (!deal) {
+      throw new Error('Deal not found');
+    }
+
+    this.assertOwner(deal, userId);
+
+    return deal;
+  }
+
+  /**
+   * Which sides of a deal the user manages: the property as its owner, the
+   * demand listing as an admin of the tenant's business
+   */
+  private async getManagedSides(
+    userId: string,
+    demandListing: DemandListing | null,
+    property: PropertyListing | null
+  ): Promise<{ property: boolean; demand: boolean }> {
+    const demand = demandListing
+      ? await this.businessAccess
+          .authorize(demandListing.business_id, userId, BusinessMemberRole.ADMIN)
+          .then(({ role }) => !!role)
+          .catch(() => false)
+      : false;
+
+    return { property: property?.user_id === userId, demand };
+  }
+
+  private assertOwner(deal: Deal, userId: string): void {
+    if (deal.user_id !== userId) {
+      throw new Error('Unauthorized: This deal is not on your pipeline');
+    }
+  }
+
+  private validateStage(stage: string): DealStage {
+    if (!Object.values(DealStage).includes(stage as DealStage)) {
+      throw new Error('Invalid stage');
+    }
+    return stage as DealStage;
+  }
+
+  private validateNotes(notes: string | null | undefined): string | null {
+    if (notes === undefined || notes === null) {
+      return null;
+    }
+    if (typeof notes !== 'string') {
+      throw new Error('Invalid notes');
+    }
+    if (notes.length > MAX_NOTES_LENGTH) {
+      throw new Error(`Invalid notes: must be ${MAX_NOTES_LENGTH} characters or less`);
+    }
+    return notes.trim() || null;
+  }
+
+  private validateDate(date: string | null | undefined): string | null {
+    if (!date) {
+      return null;
+    }
+    if (typeof date !== 'string' || !DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+      throw new Error('Invalid expected_close_date: expected YYYY-MM-DD');
+    }
+    return date;
+  }
+}
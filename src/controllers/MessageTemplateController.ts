@@ -0,0 +1,251 @@
+import { MessageTemplateModel } from '../database/models/MessageTemplate';
+import { ConversationModel } from '../database/models/Conversation';
+import { PropertyListingModel } from '../database/models/PropertyListing';
+import { BusinessAccessService, businessAccessService } from '../services/BusinessAccessService';
+import { BusinessMemberRole, MessageTemplate, PropertyListing, RenderedMessageTemplate } from '../types';
+
+// Keeps the composer's slash picker short enough to scan
+const MAX_TEMPLATES = 50;
+const MAX_NAME_LENGTH = 100;
+const MAX_CONTENT_LENGTH = 5000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+const formatCurrency = (amount: number | string, fractionDigits = 0): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(Number(amount));
+
+// DATE columns arrive as local-midnight Dates; strings are YYYY-MM-DD
+const formatDate = (value: Date | string): string => {
+  const date =
+    value instanceof Date
+      ? new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()))
+      : new Date(`${String(value).slice(0, 10)}T00:00:00Z`);
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+};
+
+/**
+ * Template variables and how each is read from the conversation's property listing
+ */
+export const MESSAGE_TEMPLATE_VARIABLES: Record<string, (listing: PropertyListing) => string | null> = {
+  title: (listing) => listing.title,
+  address: (listing) => listing.address,
+  city: (listing) => listing.city,
+  state: (listing) => listing.state,
+  sqft: (listing) => (listing.sqft ? new Intl.NumberFormat('en-US').format(Number(listing.sqft)) : null),
+  asking_price: (listing) => (listing.asking_price ? formatCurrency(listing.asking_price) : null),
+  price_per_sqft: (listing) => (listing.price_per_sqft ? formatCurrency(listing.price_per_sqft, 2) : null),
+  lease_type: (listing) => listing.lease_type,
+  cam_charges: (listing) => (listing.cam_charges ? formatCurrency(listing.cam_charges, 2) : null),
+  available_date: (listing) => (listing.available_date ? formatDate(listing.available_date) : null),
+  min_lease_term: (listing) => listing.min_lease_term,
+  max_lease_term: (listing) => listing.max_lease_term,
+  contact_name: (listing) => listing.contact_name,
+  contact_email: (listing) => listing.contact_email,
+  contact_phone: (listing) => listing.contact_phone,
+};
+
+/**
+ * Fill a template's {{variables}} from a property listing
+ * Variables without a value (or without a listing) are left in place so the
+ * sender can complete them before sending
+ */
+export function renderMessageTemplate(
+  content: string,
+  listing: PropertyListing | null
+): RenderedMessageTemplate {
+  const missing = new Set<string>();
+
+  const rendered = content.replace(VARIABLE_PATTERN, (placeholder, variable: string) => {
+    const value = listing ? MESSAGE_TEMPLATE_VARIABLES[variable]?.(listing) : null;
+    if (value === null || value === undefined || value === '') {
+      missing.add(variable);
+      return placeholder;
+    }
+    return String(value);
+  });
+
+  return { content: rendered, missing_variables: Array.from(missing) };
+}
+
+/**
+ * Controller for message template endpoints
+ * Personal templates are managed by their owner; business templates are
+ * visible to the whole team and managed by its owner and admins
+ */
+export class MessageTemplateController {
+  private messageTemplateModel: MessageTemplateModel;
+  private conversationModel: ConversationModel;
+  private propertyListingModel: PropertyListingModel;
+  private businessAccess: BusinessAccessService;
+
+  constructor(
+    messageTemplateModel?: MessageTemplateModel,
+    conversationModel?: ConversationModel,
+    propertyListingModel?: PropertyListingModel,
+    businessAccess?: BusinessAccessService
+  ) {
+    this.messageTemplateModel = messageTemplateModel || new MessageTemplateModel();
+    this.conversationModel = conversationModel || new ConversationModel();
+    this.propertyListingModel = propertyListingModel || new PropertyListingModel();
+    this.businessAccess = businessAccess || businessAccessService;
+  }
+
+  /**
+   * Handle GET /api/message-templates
+   */
+  async listTemplates(userId: string): Promise<MessageTemplate[]> {
+    return this.messageTemplateModel.findAccessibleByUserId(userId);
+  }
+
+  /**
+   * Handle POST /api/message-templates
+   */
+  async createTemplate(
+    userId: string,
+    data: { name?: string; content?: string; business_id?: string | null }
+  ): Promise<MessageTemplate> {
+    const name = this.validateName(data.name);
+    const content = this.validateContent(data.content);
+    const businessId = data.business_id || null;
+
+    if (businessId) {
+      if (typeof businessId !== 'string' || !UUID_PATTERN.test(businessId)) {
+        throw new Error('Invalid business_id');
+      }
+      await this.businessAccess.authorize(businessId, userId, BusinessMemberRole.ADMIN);
+    }
+
+    const count = await this.messageTemplateModel.countByOwner(userId, businessId);
+    if (count >= MAX_TEMPLATES) {
+      throw new Error(`Invalid request: You can save up to ${MAX_TEMPLATES} templates`);
+    }
+
+    return this.messageTemplateModel.create({ user_id: userId, business_id: businessId, name, content });
+  }
+
+  /**
+   * Handle PUT /api/message-templates/:id
+   */
+  async updateTemplate(
+    templateId: string,
+    userId: string,
+    data: { name?: string; content?: string }
+  ): Promise<MessageTemplate> {
+    await this.getManageableTemplate(templateId, userId);
+
+    const updated = await this.messageTemplateModel.update(templateId, {
+      name: data.name !== undefined ? this.validateName(data.name) : undefined,
+      content: data.content !== undefined ? this.validateContent(data.content) : undefined,
+    });
+
+    if (!updated) {
+      throw new Error('Message template not found');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Handle DELETE /api/message-templates/:id
+   */
+  async deleteTemplate(templateId: string, userId: string): Promise<void> {
+    await this.getManageableTemplate(templateId, userId);
+    await this.messageTemplateModel.delete(templateId);
+  }
+
+  /**
+   * Handle POST /api/message-templates/:id/render
+   * Fill the template from the property listing the conversation is about
+   */
+  async renderTemplate(
+    templateId: string,
+    userId: string,
+    conversationId?: string
+  ): Promise<RenderedMessageTemplate> {
+    const template = await this.getUsableTemplate(templateId, userId);
+    let listing: PropertyListing | null = null;
+
+    if (conversationId) {
+      const isParticipant = await this.conversationModel.isParticipant(conversationId, userId);
+      if (!isParticipant) {
+        throw new Error('You are not a participant in this conversation');
+      }
+
+      const conversation = await this.conversationModel.findById(conversationId);
+      if (conversation?.property_listing_id) {
+        listing = await this.propertyListingModel.findById(conversation.property_listing_id);
+      }
+    }
+
+    return renderMessageTemplate(template.content, listing);
+  }
+
+  private async getTemplate(templateId: string): Promise<MessageTemplate> {
+    const template = UUID_PATTERN.test(templateId)
+      ? await this.messageTemplateModel.findById(templateId)
+      : null;
+
+    if (!template) {
+      throw new Error('Message template not found');
+    }
+
+    return template;
+  }
+
+  // Personal templates are usable by their owner; business templates by any team member
+  private async getUsableTemplate(templateId: string, userId: string): Promise<MessageTemplate> {
+    const template = await this.getTemplate(templateId);
+
+    if (template.business_id) {
+      await this.businessAccess.authorize(template.business_id, userId);
+    } else if (template.user_id !== userId) {
+      throw new Error('Message template not found');
+    }
+
+    return template;
+  }
+
+  private async getManageableTemplate(templateId: string, userId: string): Promise<MessageTemplate> {
+    const template = await this.getUsableTemplate(templateId, userId);
+
+    if (template.business_id) {
+      await this.businessAccess.authorize(template.business_id, userId, BusinessMemberRole.ADMIN);
+    }
+
+    return template;
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('Name is required');
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw new Error(`Invalid name: must be ${MAX_NAME_LENGTH} characters or less`);
+    }
+    return name.trim();
+  }
+
+  private validateContent(content: unknown): string {
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('Content is required');
+    }
+    if (content.trim().length > MAX_CONTENT_LENGTH) {
+      throw new Error(`Invalid content: must be ${MAX_CONTENT_LENGTH} characters or less`);
+    }
+
+    const unknown = Array.from(content.matchAll(VARIABLE_PATTERN))
+      .map((match) => match[1])
+      .filter((variable) => !(variable in MESSAGE_TEMPLATE_VARIABLES));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid content: unknown variable {{${unknown[0]}}}`);
+    }
+
+    return content.trim();
+  }
+}
@@ -1,23 +1,112 @@
-import { ConversationModel, MessageModel } from '../database/models';
-import { Conversation, Message, ConversationWithDetails } from '../types';
+import {
+  ConversationModel,
+  MessageModel,
+  MessageAttachmentModel,
+  ScheduledMessageModel,
+  UserBlockModel,
+  UserModel,
+} from '../database/models';
+import {
+  Conversation,
+  ConversationEvent,
+  ConversationEventType,
+  ConversationExportFormat,
+  ConversationNudge,
+  ConversationParticipant,
+  ConversationParticipantRole,
+  Message,
+  MessageType,
+  ConversationWithDetails,
+  MessageAttachment,
+  MessageAttachmentVariant,
+  MessageEdit,
+  MessageReactionSummary,
+  MessageSearchFilters,
+  MessageSearchResult,
+  ScheduledMessage,
+} from '../types';
 import { notificationService } from '../services/NotificationService';
+import { RateLimitService, RateLimitType } from '../services/auth/RateLimitService';
+import { getMessagingSocket } from '../websocket/messagingSocket';
+import {
+  AttachmentFile,
+  MessageAttachmentService,
+  messageAttachmentService,
+} from '../services/storage/MessageAttachmentService';
+import {
+  buildConversationExport,
+  renderConversationExportPdf,
+  renderConversationExportText,
+} from '../services/export/conversationExport';
+
+const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ATTACHMENT_VARIANTS: MessageAttachmentVariant[] = ['original', 'thumbnail', 'preview'];
+const MAX_REACTION_LENGTH = 32;
+const MAX_PARTICIPANTS = 50;
+const MAX_SUBJECT_LENGTH = 255;
+const MAX_SCHEDULED_PER_CONVERSATION = 20;
+const MAX_SCHEDULE_DAYS = 90;
+const MAX_NUDGE_DAYS = 30;
+const EXPORT_FORMATS: ConversationExportFormat[] = ['pdf', 'json', 'txt'];
+const BLOCKED_MESSAGE = 'You cannot message this user because one of you has blocked the other';
+// A single emoji, including skin tones, ZWJ sequences, flags and keycaps
+const EMOJI_PATTERN = /^[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]+$/u;
 
 /**
  * MessagingController
  *
  * Handles all messaging-related business logic:
- * - Creating and fetching conversations
+ * - Creating and fetching conversations, rate limited and respecting blocks
  * - Sending and fetching messages
+ * - Scheduled sends and follow-up nudges
  * - Read receipts and unread counts
- * - Message search
+ * - Message editing, replies and reactions
+ * - Group membership, participant roles and conversation subjects
+ * - Message search and conversation export
+ * - Attachment uploads and signed downloads
  */
 export class MessagingController {
   private conversationModel: ConversationModel;
   private messageModel: MessageModel;
+  private attachmentModel: MessageAttachmentModel;
+  private attachmentService: MessageAttachmentService;
+  private userModel: UserModel;
+  private scheduledMessageModel: ScheduledMessageModel;
+  private userBlockModel: UserBlockModel;
+  private rateLimitService?: RateLimitService;
+  private providedRateLimitService?: RateLimitService;
+
+  constructor(
+    conversationModel?: ConversationModel,
+    messageModel?: MessageModel,
+    attachmentModel?: MessageAttachmentModel,
+    attachmentService?: MessageAttachmentService,
+    userModel?: UserModel,
+    scheduledMessageModel?: ScheduledMessageModel,
+    userBlockModel?: UserBlockModel,
+    rateLimitService?: RateLimitService
+  ) {
+    this.conversationModel = conversationModel || new ConversationModel();
+    this.messageModel = messageModel || new MessageModel();
+    this.attachmentModel = attachmentModel || new MessageAttachmentModel();
+    this.attachmentService = attachmentService || messageAttachmentService;
+    this.userModel = userModel || new UserModel();
+    this.scheduledMessageModel = scheduledMessageModel || new ScheduledMessageModel();
+    this.userBlockModel = userBlockModel || new UserBlockModel();
+    this.providedRateLimitService = rateLimitService;
+  }
 
-  constructor() {
-    this.conversationModel = new ConversationModel();
-    this.messageModel = new MessageModel();
+  // The rate limiter opens a Redis connection, so it is only created once a
+  // conversation is actually started
+  private getRateLimitService(): RateLimitService {
+    if (this.providedRateLimitService) {
+      return this.providedRateLimitService;
+    }
+    if (!this.rateLimitService) {
+      this.rateLimitService = new RateLimitService();
+    }
+    return this.rateLimitService;
   }
 
   /**
@@ -25,8 +114,21 @@ export class MessagingController {
    */
   async getConversations(
     userId: string,
-    options?: { page?: number; limit?: number }
+    options?: {
+      page?: number;
+      limit?: number;
+      property_listing_id?: string;
+      demand_listing_id?: string;
+    }
   ): Promise<{ conversations: ConversationWithDetails[]; total: number; hasMore: boolean }> {
+    // Listing filters are compared against UUID columns
+    for (const key of ['property_listing_id', 'demand_listing_id'] as const) {
+      const value = options?.[key];
+      if (value && !UUID_PATTERN.test(value)) {
+        throw new Error(`Invalid ${key}`);
+      }
+    }
+
     return this.conversationModel.findByUserId(userId, options);
   }
 
@@ -48,6 +150,9 @@ export class MessagingController {
 
   /**
    * Create a new conversation or get existing one
+   * Nobody can be included who has a block either way with the creator.
+   * Reopening an existing 1-on-1 chat doesn't count towards the creator's
+   * new conversation limit.
    */
   async createConversation(
     creatorId: string,
@@ -59,16 +164,28 @@ export class MessagingController {
       initial_message?: string;
     }
   ): Promise<{ conversation: Conversation; message?: Message }> {
+    if (data.participant_ids.some((id) => typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+      throw new Error('Invalid participant_ids');
+    }
+
+    await this.assertNotBlocked(creatorId, data.participant_ids);
+
     // For 1-on-1 chats, check if conversation already exists
     if (data.participant_ids.length === 1) {
-      const existingConversation = await this.conversationModel.getOrCreateDirectConversation(
+      const directConversation = await this.conversationModel.findDirectConversation(
         creatorId,
-        data.participant_ids[0],
-        {
+        data.participant_ids[0]
+      );
+      if (!directConversation) {
+        await this.checkNewConversationLimit(creatorId);
+      }
+
+      const existingConversation =
+        directConversation ||
+        (await this.conversationModel.getOrCreateDirectConversation(creatorId, data.participant_ids[0], {
           property_listing_id: data.property_listing_id,
           demand_listing_id: data.demand_listing_id,
-        }
-      );
+        }));
 
       let message: Message | undefined;
 
@@ -92,6 +209,7 @@ export class MessagingController {
     }
 
     // Create new group conversation
+    await this.checkNewConversationLimit(creatorId);
     const conversation = await this.conversationModel.create({
       created_by: creatorId,
       participant_ids: data.participant_ids,
@@ -121,6 +239,30 @@ export class MessagingController {
     return { conversation, message };
   }
 
+  /**
+   * Refuse to open a conversation between users where either has blocked the other.
+   * Also used by listing inquiries and tours, which start conversations of their own.
+   */
+  async assertNotBlocked(userId: string, otherUserIds: string[]): Promise<void> {
+    const blockedIds = await this.userBlockModel.findBlockedBetween(userId, otherUserIds);
+    if (blockedIds.length > 0) {
+      throw new Error(BLOCKED_MESSAGE);
+    }
+  }
+
+  /**
+   * Apply the per-user new conversation rate limit
+   */
+  async checkNewConversationLimit(userId: string): Promise<void> {
+    const result = await this.getRateLimitService().checkRateLimit(RateLimitType.NEW_CONVERSATION, userId);
+    if (!result.allowed) {
+      const minutes = Math.ceil((result.retryAfter || 0) / 60);
+      throw new Error(
+        `Too many new conversations. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+      );
+    }
+  }
+
   /**
    * Get messages in a conversation
    */
@@ -145,40 +287,207 @@ export class MessagingController {
     conversationId: string,
     senderId: string,
     data: {
-      content: string;
-      attachments?: Array<{ name: string; url: string; type?: string; size?: number }>;
+      content?: string;
+      attachments?: Array<{ id?: string }>;
+      reply_to_message_id?: string | null;
     }
   ): Promise<Message> {
-    // Verify sender is a participant
-    const isParticipant = await this.conversationModel.isParticipant(conversationId, senderId);
-    if (!isParticipant) {
-      throw new Error('You are not a participant in this conversation');
-    }
-
-    // Validate content
-    if (!data.content || data.content.trim().length === 0) {
-      throw new Error('Message content is required');
-    }
+    const { content, attachments, reply_to_message_id } = await this.prepareMessage(
+      conversationId,
+      senderId,
+      data
+    );
 
     // Create the message
     const message = await this.messageModel.create({
       conversation_id: conversationId,
       sender_id: senderId,
-      content: data.content.trim(),
-      attachments: data.attachments,
+      content,
+      attachments,
+      reply_to_message_id,
     });
 
+    if (attachments.length > 0) {
+      await this.attachmentModel.claim(
+        attachments.map((attachment) => attachment.id as string),
+        message.id
+      );
+    }
+
     // Send email notifications to other participants (async, don't wait)
     notificationService.notifyConversationParticipants(
       conversationId,
       senderId,
-      data.content.trim()
+      content || `Sent ${attachments.length === 1 ? 'an attachment' : `${attachments.length} attachments`}`
     ).catch((err) => console.error('Failed to send message notifications:', err));
 
     // Return message with sender info
     return this.messageModel.findByIdWithSender(message.id) as Promise<Message>;
   }
 
+  /**
+   * Schedule a message to be sent later
+   * The message is validated now, and again when the scheduled-messages job
+   * delivers it
+   */
+  async scheduleMessage(
+    conversationId: string,
+    senderId: string,
+    data: {
+      content?: string;
+      attachments?: Array<{ id?: string }>;
+      reply_to_message_id?: string | null;
+      send_at?: unknown;
+    }
+  ): Promise<ScheduledMessage> {
+    const sendAt = this.parseSendAt(data.send_at);
+    const { content, attachments, reply_to_message_id } = await this.prepareMessage(
+      conversationId,
+      senderId,
+      data
+    );
+
+    const pending = await this.scheduledMessageModel.countPendingBySender(conversationId, senderId);
+    if (pending >= MAX_SCHEDULED_PER_CONVERSATION) {
+      throw new Error(
+        `Invalid request: You can schedule up to ${MAX_SCHEDULED_PER_CONVERSATION} messages per conversation`
+      );
+    }
+
+    return this.scheduledMessageModel.create({
+      conversation_id: conversationId,
+      sender_id: senderId,
+      content,
+      attachment_ids: attachments.map((attachment) => attachment.id as string),
+      reply_to_message_id,
+      send_at: sendAt,
+    });
+  }
+
+  /**
+   * Get the user's pending scheduled messages in a conversation
+   */
+  async getScheduledMessages(conversationId: string, userId: string): Promise<ScheduledMessage[]> {
+    const isParticipant = await this.conversationModel.isParticipant(conversationId, userId);
+    if (!isParticipant) {
+      throw new Error('You are not a participant in this conversation');
+    }
+
+    return this.scheduledMessageModel.findPendingBySender(conversationId, userId);
+  }
+
+  /**
+   * Cancel one of the user's scheduled messages before it is sent
+   */
+  async cancelScheduledMessage(scheduledMessageId: string, userId: string): Promise<void> {
+    const scheduled = UUID_PATTERN.test(scheduledMessageId)
+      ? await this.scheduledMessageModel.findById(scheduledMessageId)
+      : null;
+
+    if (!scheduled || scheduled.sender_id !== userId) {
+      throw new Error('Scheduled message not found');
+    }
+
+    const cancelled = await this.scheduledMessageModel.cancel(scheduledMessageId);
+    if (!cancelled) {
+      throw new Error('Invalid request: This message is no longer scheduled');
+    }
+  }
+
+  /**
+   * Deliver a due scheduled message through the normal send path and push it
+   * to the conversation. Messages that can no longer be sent (the sender left,
+   * an attachment was used elsewhere) are marked failed with the reason.
+   *
+   * @returns The sent message, or null if delivery failed
+   */
+  async deliverScheduledMessage(scheduled: ScheduledMessage): Promise<Message | null> {
+    let message: Message;
+
+    try {
+      message = await this.sendMessage(scheduled.conversation_id, scheduled.sender_id, {
+        content: scheduled.content,
+        attachments: scheduled.attachment_ids.map((id) => ({ id })),
+        reply_to_message_id: scheduled.reply_to_message_id,
+      });
+    } catch (error: any) {
+      await this.scheduledMessageModel.markFailed(scheduled.id, error.message);
+      return null;
+    }
+
+    await this.scheduledMessageModel.markSent(scheduled.id, message.id);
+    getMessagingSocket()?.emitNewMessage(scheduled.conversation_id, message);
+
+    return message;
+  }
+
+  /**
+   * Validate an outgoing message: the sender must be a participant and not
+   * blocked from a 1-on-1 chat, uploads must be theirs and unsent, and
+   * replies must quote this conversation
+   */
+  private async prepareMessage(
+    conversationId: string,
+    senderId: string,
+    data: {
+      content?: string;
+      attachments?: Array<{ id?: string }>;
+      reply_to_message_id?: string | null;
+    }
+  ): Promise<{ content: string; attachments: MessageAttachment[]; reply_to_message_id: string | null }> {
+    // Verify sender is a participant
+    const isParticipant = await this.conversationModel.isParticipant(conversationId, senderId);
+    if (!isParticipant) {
+      throw new Error('You are not a participant in this conversation');
+    }
+
+    // Blocks only stop conversations between the two users; groups they share carry on
+    if (await this.userBlockModel.isBlockedInDirectConversation(conversationId, senderId)) {
+      throw new Error(BLOCKED_MESSAGE);
+    }
+
+    const content = data.content?.trim() || '';
+    const attachments = await this.resolveAttachments(conversationId, senderId, data.attachments);
+
+    // Replies must quote a message from the same conversation
+    if (data.reply_to_message_id) {
+      const repliedTo = UUID_PATTERN.test(data.reply_to_message_id)
+        ? await this.messageModel.findById(data.reply_to_message_id)
+        : null;
+
+      if (!repliedTo || repliedTo.conversation_id !== conversationId) {
+        throw new Error('Invalid reply_to_message_id: the message is not in this conversation');
+      }
+      if (repliedTo.is_deleted) {
+        throw new Error('Invalid reply_to_message_id: the message was deleted');
+      }
+    }
+
+    // Validate content; attachment-only messages are allowed
+    if (!content && attachments.length === 0) {
+      throw new Error('Message content is required');
+    }
+
+    return { content, attachments, reply_to_message_id: data.reply_to_message_id || null };
+  }
+
+  private parseSendAt(value: unknown): Date {
+    const sendAt = typeof value === 'string' ? new Date(value) : null;
+    if (!sendAt || Number.isNaN(sendAt.getTime())) {
+      throw new Error('Invalid send_at: must be an ISO 8601 date-time');
+    }
+
+    const now = Date.now();
+    if (sendAt.getTime() <= now) {
+      throw new Error('Invalid send_at: must be in the future');
+    }
+    if (sendAt.getTime() > now + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error(`Invalid send_at: must be within ${MAX_SCHEDULE_DAYS} days`);
+    }
+
+    return sendAt;
+  }
+
   /**
    * Mark a conversation as read
    */
@@ -201,6 +510,7 @@ export class MessagingController {
 
   /**
    * Delete a message (soft delete)
+   * Conversation events and inquiry cards are a record, not chat, and can't be deleted
    */
   async deleteMessage(messageId: string, userId: string): Promise<void> {
     const message = await this.messageModel.findById(messageId);
@@ -214,22 +524,204 @@ export class MessagingController {
       throw new Error('You can only delete your own messages');
     }
 
+    if (message.message_type !== MessageType.TEXT) {
+      throw new Error('Only text messages can be deleted');
+    }
+
     await this.messageModel.delete(messageId);
   }
 
   /**
-   * Search messages
+   * Edit a message's content
+   * The previous content is kept in the edit history. Senders who have left
+   * the conversation can no longer edit what they wrote there. Like deletion,
+   * editing is limited to text messages.
+   */
+  async editMessage(messageId: string, userId: string, content: string | undefined): Promise<Message> {
+    const message = await this.findParticipantMessage(messageId, userId);
+
+    // Only sender can edit their message
+    if (message.sender_id !== userId) {
+      throw new Error('You can only edit your own messages');
+    }
+
+    if (message.message_type !== MessageType.TEXT) {
+      throw new Error('Only text messages can be edited');
+    }
+
+    const newContent = content?.trim() || '';
+
+    // Attachment-only messages may have their text removed
+    if (!newContent && message.attachments.length === 0) {
+      throw new Error('Message content is required');
+    }
+
+    if (newContent !== message.content) {
+      await this.messageModel.updateContent(messageId, newContent, userId);
+    }
+
+    const edited = (await this.messageModel.findByIdWithSender(messageId)) as Message;
+
+    if (newContent !== message.content) {
+      getMessagingSocket()?.emitMessageEdited(message.conversation_id, edited);
+    }
+
+    return edited;
+  }
+
+  /**
+   * Get the edit history of a message
+   */
+  async getMessageEdits(messageId: string, userId: string): Promise<MessageEdit[]> {
+    const message = await this.findParticipantMessage(messageId, userId);
+    return this.messageModel.getEdits(message.id);
+  }
+
+  /**
+   * Add or remove the user's reaction to a message
+   * Returns the message's reactions after the change
+   */
+  async setReaction(
+    messageId: string,
+    userId: string,
+    emoji: string | undefined,
+    reacted: boolean
+  ): Promise<MessageReactionSummary[]> {
+    const normalized = emoji?.trim() || '';
+
+    if (!normalized) {
+      throw new Error('Emoji is required');
+    }
+
+    if (
+      normalized.length > MAX_REACTION_LENGTH ||
+      !EMOJI_PATTERN.test(normalized) ||
+      !/\p{Extended_Pictographic}/u.test(normalized)
+    ) {
+      throw new Error('Invalid emoji: react with a single emoji');
+    }
+
+    const message = await this.findParticipantMessage(messageId, userId);
+
+    if (reacted) {
+      await this.messageModel.addReaction(message.id, userId, normalized);
+    } else {
+      await this.messageModel.removeReaction(message.id, userId, normalized);
+    }
+
+    const reactions = await this.messageModel.getReactions(message.id);
+    getMessagingSocket()?.emitMessageReaction(message.conversation_id, message.id, reactions);
+
+    return reactions;
+  }
+
+  /**
+   * Find a message the user can see
+   * @throws Error if the message does not exist, was deleted, or the user is not a participant
+   */
+  private async findParticipantMessage(messageId: string, userId: string): Promise<Message> {
+    const message = await this.messageModel.findById(messageId);
+
+    if (!message || message.is_deleted) {
+      throw new Error('Message not found');
+    }
+
+    const isParticipant = await this.conversationModel.isParticipant(message.conversation_id, userId);
+    if (!isParticipant) {
+      throw new Error('You are not a participant in this conversation');
+    }
+
+    return message;
+  }
+
+  /**
+   * Full-text search across the user's conversations
+   * Supports web-search syntax ("quoted phrases", -excluded, or) and
+   * returns a cursor for the next page when there are more results
    */
   async searchMessages(
     userId: string,
     searchQuery: string,
-    options?: { limit?: number }
-  ): Promise<Message[]> {
+    options?: MessageSearchFilters & { limit?: number; cursor?: string }
+  ): Promise<{ messages: MessageSearchResult[]; hasMore: boolean; nextCursor: string | null }> {
     if (!searchQuery || searchQuery.trim().length < 2) {
       throw new Error('Search query must be at least 2 characters');
     }
 
-    return this.messageModel.search(userId, searchQuery.trim(), options);
+    for (const [field, value] of [
+      ['conversation_id', options?.conversation_id],
+      ['sender_id', options?.sender_id],
+      ['cursor', options?.cursor],
+    ]) {
+      if (value && !UUID_PATTERN.test(value)) {
+        throw new Error(`Invalid ${field}`);
+      }
+    }
+
+    if (options?.from && options?.to && options.from > options.to) {
+      throw new Error('Invalid date range: from must be before to');
+    }
+
+    const { messages, hasMore } = await this.messageModel.search(userId, searchQuery.trim(), {
+      conversation_id: options?.conversation_id,
+      sender_id: options?.sender_id,
+      from: options?.from,
+      to: options?.to,
+      has_attachment: options?.has_attachment,
+      limit: Math.min(Math.max(options?.limit || 20, 1), 50),
+      after: options?.cursor,
+    });
+
+    return {
+      messages,
+      hasMore,
+      nextCursor: hasMore && messages.length > 0 ? messages[messages.length - 1].id : null,
+    };
+  }
+
+  /**
+   * Export a conversation's full record: every message, including deleted
+   * placeholders, with participants, read receipts and attachment manifests
+   */
+  async exportConversation(
+    conversationId: string,
+    userId: string,
+    format: string | undefined
+  ): Promise<{ body: string | Buffer; contentType: string; fileName: string }> {
+    const exportFormat = (format || 'pdf') as ConversationExportFormat;
+    if (!EXPORT_FORMATS.includes(exportFormat)) {
+      throw new Error(`Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const conversation = await this.getParticipantConversation(conversationId, userId);
+    const [participants, messages, readReceipts] = await Promise.all([
+      this.conversationModel.findAllParticipants(conversationId),
+      this.messageModel.findAllByConversationId(conversationId),
+      this.messageModel.getConversationReadReceipts(conversationId),
+    ]);
+
+    const record = buildConversationExport({
+      conversation,
+      participants,
+      messages,
+      readReceipts,
+      exportedBy: userId,
+    });
+    const fileName = `conversation-${conversationId.slice(0, 8)}-${record.exported_at
+      .toISOString()
+      .slice(0, 10)}.${exportFormat}`;
+
+    if (exportFormat === 'json') {
+      return { body: JSON.stringify(record, null, 2), contentType: 'application/json', fileName };
+    }
+    if (exportFormat === 'txt') {
+      return {
+        body: renderConversationExportText(record),
+        contentType: 'text/plain; charset=utf-8',
+        fileName,
+      };
+    }
+    return { body: renderConversationExportPdf(record), contentType: 'application/pdf', fileName };
   }
 
   /**
@@ -249,16 +741,459 @@ export class MessagingController {
     await this.conversationModel.setMuted(conversationId, userId, isMuted);
   }
 
+  /**
+   * Turn the user's follow-up nudge for a conversation on or off
+   * Passing no after_days turns it off
+   */
+  async setConversationNudge(
+    conversationId: string,
+    userId: string,
+    data: { after_days?: unknown; in_app?: unknown; email?: unknown }
+  ): Promise<ConversationNudge | null> {
+    const isParticipant = await this.conversationModel.isParticipant(conversationId, userId);
+    if (!isParticipant) {
+      throw new Error('You are not a participant in this conversation');
+    }
+
+    if (data.after_days === undefined || data.after_days === null) {
+      await this.conversationModel.setNudge(conversationId, userId, null);
+      return null;
+    }
+
+    if (
+      typeof data.after_days !== 'number' ||
+      !Number.isInteger(data.after_days) ||
+      data.after_days < 1 ||
+      data.after_days > MAX_NUDGE_DAYS
+    ) {
+      throw new Error(`Invalid after_days: must be a whole number of days from 1 to ${MAX_NUDGE_DAYS}`);
+    }
+    if (data.in_app !== undefined && typeof data.in_app !== 'boolean') {
+      throw new Error('Invalid in_app: must be a boolean');
+    }
+    if (data.email !== undefined && typeof data.email !== 'boolean') {
+      throw new Error('Invalid email: must be a boolean');
+    }
+
+    const nudge: ConversationNudge = {
+      after_days: data.after_days,
+      in_app: data.in_app ?? true,
+      email: data.email ?? false,
+    };
+    if (!nudge.in_app && !nudge.email) {
+      throw new Error('Invalid request: Choose in-app, email or both');
+    }
+
+    await this.conversationModel.setNudge(conversationId, userId, nudge);
+    return nudge;
+  }
+
   /**
    * Leave a conversation
+   * The others see a system message; if the last admin leaves, the
+   * longest-standing participant becomes admin
    */
   async leaveConversation(conversationId: string, userId: string): Promise<void> {
-    // Verify user is a participant
+    const conversation = await this.getParticipantConversation(conversationId, userId);
+    const leaver = conversation.participants.find((p) => p.user_id === userId);
+
+    await this.conversationModel.removeParticipant(conversationId, userId);
+    await this.conversationModel.ensureAdmin(conversationId);
+
+    await this.postConversationEvent(
+      conversationId,
+      userId,
+      `${this.getParticipantName(leaver)} left the conversation`,
+      { event: ConversationEventType.PARTICIPANT_LEFT, actor_id: userId, user_ids: [userId] }
+    );
+    getMessagingSocket()?.emitRemovedFromConversation(userId, conversationId);
+  }
+
+  /**
+   * Add participants to a conversation by user ID or email
+   * Any participant can invite; people already in the conversation are skipped
+   */
+  async addParticipants(
+    conversationId: string,
+    userId: string,
+    data: { user_ids?: string[]; emails?: string[] }
+  ): Promise<ConversationWithDetails> {
+    const conversation = await this.getParticipantConversation(conversationId, userId);
+
+    const userIds = data.user_ids || [];
+    const emails = (data.emails || []).map((email) => String(email).trim().toLowerCase()).filter(Boolean);
+
+    if (userIds.length === 0 && emails.length === 0) {
+      throw new Error('user_ids or emails is required');
+    }
+    if (userIds.some((id) => typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+      throw new Error('Invalid user_ids');
+    }
+
+    const users = await Promise.all([
+      ...userIds.map((id) => this.userModel.findById(id)),
+      ...emails.map((email) => this.userModel.findByEmail(email)),
+    ]);
+    if (users.some((user) => !user)) {
+      throw new Error('User not found');
+    }
+
+    const activeIds = new Set(conversation.participants.map((p) => p.user_id));
+    const newIds = [...new Set(users.map((user) => user!.id))].filter((id) => !activeIds.has(id));
+
+    if (newIds.length === 0) {
+      return conversation;
+    }
+    if (activeIds.size + newIds.length > MAX_PARTICIPANTS) {
+      throw new Error(`Invalid request: A conversation can have at most ${MAX_PARTICIPANTS} participants`);
+    }
+    if ((await this.userBlockModel.findBlockedBetween(userId, newIds)).length > 0) {
+      throw new Error('You cannot add a user who has blocked you or whom you have blocked');
+    }
+
+    for (const newId of newIds) {
+      await this.conversationModel.addParticipant(conversationId, newId);
+    }
+
+    const updated = await this.postConversationEvent(
+      conversationId,
+      userId,
+      (details) => {
+        const names = newIds.map((id) =>
+          this.getParticipantName(details.participants.find((p) => p.user_id === id))
+        );
+        const actor = details.participants.find((p) => p.user_id === userId);
+        return `${this.getParticipantName(actor)} added ${this.joinNames(names)}`;
+      },
+      { event: ConversationEventType.PARTICIPANTS_ADDED, actor_id: userId, user_ids: newIds }
+    );
+
+    getMessagingSocket()?.emitNewConversation(newIds, updated);
+    return updated;
+  }
+
+  /**
+   * Remove a participant from a conversation (creator or admin only)
+   */
+  async removeParticipant(
+    conversationId: string,
+    userId: string,
+    participantUserId: string
+  ): Promise<ConversationWithDetails> {
+    if (participantUserId === userId) {
+      await this.leaveConversation(conversationId, userId);
+      return (await this.conversationModel.findByIdWithDetails(conversationId, userId)) as ConversationWithDetails;
+    }
+
+    const conversation = await this.getParticipantConversation(conversationId, userId);
+    this.requireConversationAdmin(conversation, userId, 'remove participants');
+
+    const participant = conversation.participants.find((p) => p.user_id === participantUserId);
+    if (!participant) {
+      throw new Error('Participant not found');
+    }
+    if (participant.user_id === conversation.created_by) {
+      throw new Error('Invalid request: The conversation creator cannot be removed');
+    }
+
+    await this.conversationModel.removeParticipant(conversationId, participantUserId);
+
+    const actor = conversation.participants.find((p) => p.user_id === userId);
+    const updated = await this.postConversationEvent(
+      conversationId,
+      userId,
+      `${this.getParticipantName(actor)} removed ${this.getParticipantName(participant)}`,
+      {
+        event: ConversationEventType.PARTICIPANT_REMOVED,
+        actor_id: userId,
+        user_ids: [participantUserId],
+      }
+    );
+
+    getMessagingSocket()?.emitRemovedFromConversation(participantUserId, conversationId);
+    return updated;
+  }
+
+  /**
+   * Make a participant an admin or a member (creator or admin only)
+   */
+  async setParticipantRole(
+    conversationId: string,
+    userId: string,
+    participantUserId: string,
+    role: string | undefined
+  ): Promise<ConversationWithDetails> {
+    if (!role) {
+      throw new Error('Role is required');
+    }
+    if (!Object.values(ConversationParticipantRole).includes(role as ConversationParticipantRole)) {
+      throw new Error('Invalid role');
+    }
+
+    const conversation = await this.getParticipantConversation(conversationId, userId);
+    this.requireConversationAdmin(conversation, userId, 'change participant roles');
+
+    const participant = conversation.participants.find((p) => p.user_id === participantUserId);
+    if (!participant) {
+      throw new Error('Participant not found');
+    }
+    if (participant.user_id === conversation.created_by && role !== ConversationParticipantRole.ADMIN) {
+      throw new Error('Invalid request: The conversation creator is always an admin');
+    }
+
+    await this.conversationModel.setParticipantRole(
+      conversationId,
+      participantUserId,
+      role as ConversationParticipantRole
+    );
+
+    const updated = (await this.conversationModel.findByIdWithDetails(
+      conversationId,
+      userId
+    )) as ConversationWithDetails;
+    getMessagingSocket()?.emitParticipantsChanged(conversationId, updated.participants);
+    return updated;
+  }
+
+  /**
+   * Rename a conversation; an empty subject clears it
+   */
+  async renameConversation(
+    conversationId: string,
+    userId: string,
+    subject: string | null | undefined
+  ): Promise<ConversationWithDetails> {
+    if (subject === undefined) {
+      throw new Error('Subject is required');
+    }
+
+    const conversation = await this.getParticipantConversation(conversationId, userId);
+
+    const newSubject = subject?.trim() || null;
+    if (newSubject && newSubject.length > MAX_SUBJECT_LENGTH) {
+      throw new Error(`Invalid subject: must be ${MAX_SUBJECT_LENGTH} characters or fewer`);
+    }
+    if (newSubject === conversation.subject) {
+      return conversation;
+    }
+
+    await this.conversationModel.updateSubject(conversationId, newSubject);
+
+    const actor = this.getParticipantName(conversation.participants.find((p) => p.user_id === userId));
+    const updated = await this.postConversationEvent(
+      conversationId,
+      userId,
+      newSubject ? `${actor} renamed the conversation to "${newSubject}"` : `${actor} removed the conversation name`,
+      { event: ConversationEventType.SUBJECT_CHANGED, actor_id: userId, subject: newSubject }
+    );
+
+    getMessagingSocket()?.emitConversationRenamed(conversationId, newSubject);
+    return updated;
+  }
+
+  /**
+   * Load a conversation with details, verifying the user is a participant
+   */
+  private async getParticipantConversation(
+    conversationId: string,
+    userId: string
+  ): Promise<ConversationWithDetails> {
     const isParticipant = await this.conversationModel.isParticipant(conversationId, userId);
     if (!isParticipant) {
       throw new Error('You are not a participant in this conversation');
     }
 
-    await this.conversationModel.removeParticipant(conversationId, userId);
+    const conversation = await this.conversationModel.findByIdWithDetails(conversationId, userId);
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    return conversation;
+  }
+
+  /**
+   * The creator always administers a conversation, even if their role was changed
+   */
+  private requireConversationAdmin(
+    conversation: ConversationWithDetails,
+    userId: string,
+    action: string
+  ): void {
+    const participant = conversation.participants.find((p) => p.user_id === userId);
+    if (conversation.created_by !== userId && participant?.role !== ConversationParticipantRole.ADMIN) {
+      throw new Error(`Only the conversation creator or an admin can ${action}`);
+    }
+  }
+
+  /**
+   * Record a membership or subject change as a system message and broadcast
+   * it with the updated participant list
+   *
+   * @param content - Message text, or a function building it from the updated conversation
+   */
+  private async postConversationEvent(
+    conversationId: string,
+    userId: string,
+    content: string | ((conversation: ConversationWithDetails) => string),
+    event: ConversationEvent
+  ): Promise<ConversationWithDetails> {
+    let updated = (await this.conversationModel.findByIdWithDetails(
+      conversationId,
+      userId
+    )) as ConversationWithDetails;
+
+    const message = await this.messageModel.create({
+      conversation_id: conversationId,
+      sender_id: userId,
+      content: typeof content === 'string' ? content : content(updated),
+      message_type: MessageType.SYSTEM,
+      metadata: event,
+    });
+
+    const socket = getMessagingSocket();
+    socket?.emitNewMessage(conversationId, (await this.messageModel.findByIdWithSender(message.id)) || message);
+    socket?.emitParticipantsChanged(conversationId, updated.participants);
+
+    updated = { ...updated, lastMessage: message };
+    return updated;
+  }
+
+  private getParticipantName(participant: ConversationParticipant | undefined): string {
+    const profile = participant?.user?.profile;
+    if (profile) {
+      return `${profile.first_name} ${profile.last_name}`.trim();
+    }
+    return participant?.user?.email || 'Someone';
+  }
+
+  private joinNames(names: string[]): string {
+    if (names.length <= 2) {
+      return names.join(' and ');
+    }
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+
+  /**
+   * Upload a file to a conversation
+   * The upload is attached to a message when its ID is sent with one
+   */
+  async uploadAttachment(
+    conversationId: string,
+    userId: string,
+    file: AttachmentFile
+  ): Promise<MessageAttachment> {
+    const isParticipant = await this.conversationModel.isParticipant(conversationId, userId);
+    if (!isParticipant) {
+      throw new Error('You are not a participant in this conversation');
+    }
+
+    const stored = await this.attachmentService.store(conversationId, file);
+    const attachment = await this.attachmentModel.create({
+      conversation_id: conversationId,
+      uploader_id: userId,
+      file_name: file.originalName.slice(0, 255),
+      mime_type: file.mimeType,
+      size_bytes: file.size,
+      storage_key: stored.storageKey,
+      thumbnail_key: stored.thumbnailKey,
+      preview_key: stored.previewKey,
+    });
+
+    return this.attachmentService.toMessageAttachment(attachment);
+  }
+
+  /**
+   * Issue a short-lived signed download URL for a participant
+   */
+  async getAttachmentUrl(
+    attachmentId: string,
+    userId: string,
+    variant: string = 'original'
+  ): Promise<string> {
+    if (!ATTACHMENT_VARIANTS.includes(variant as MessageAttachmentVariant)) {
+      throw new Error('Invalid variant. Must be one of: original, thumbnail, preview');
+    }
+
+    await this.findParticipantAttachment(attachmentId, userId);
+    return this.attachmentService.createSignedUrl(
+      attachmentId,
+      userId,
+      variant as MessageAttachmentVariant
+    );
+  }
+
+  /**
+   * Serve a signed download URL
+   * The user the URL was issued to must still be a participant
+   */
+  async downloadAttachment(
+    attachmentId: string,
+    params: { variant?: string; user?: string; expires?: string; signature?: string }
+  ): Promise<{ buffer: Buffer; contentType: string; fileName: string }> {
+    const userId = this.attachmentService.verifySignedUrl(attachmentId, params);
+    const attachment = await this.findParticipantAttachment(attachmentId, userId);
+    const { buffer, contentType } = await this.attachmentService.read(
+      attachment,
+      params.variant as MessageAttachmentVariant
+    );
+
+    return { buffer, contentType, fileName: attachment.file_name };
+  }
+
+  /**
+   * Load an attachment the user can see: a participant's view of a message
+   * that hasn't been deleted, or the uploader's own pending upload
+   */
+  private async findParticipantAttachment(attachmentId: string, userId: string) {
+    const attachment = await this.attachmentModel.findById(attachmentId);
+    if (!attachment || (!attachment.message_id && attachment.uploader_id !== userId)) {
+      throw new Error('Attachment not found');
+    }
+
+    if (attachment.message_id) {
+      const message = await this.messageModel.findById(attachment.message_id);
+      if (!message || message.is_deleted) {
+        throw new Error('Attachment not found');
+      }
+    }
+
+    const isParticipant = await this.conversationModel.isParticipant(
+      attachment.conversation_id,
+      userId
+    );
+    if (!isParticipant) {
+      throw new Error('You are not a participant in this conversation');
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Resolve uploaded attachment IDs to the display fields stored on the message
+   * Only the sender's unsent uploads to this conversation can be attached
+   */
+  private async resolveAttachments(
+    conversationId: string,
+    senderId: string,
+    attachments?: Array<{ id?: string }>
+  ): Promise<MessageAttachment[]> {
+    if (!attachments || attachments.length === 0) {
+      return [];
+    }
+
+    if (!Array.isArray(attachments) || attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      throw new Error(`Invalid attachments: send at most ${MAX_ATTACHMENTS_PER_MESSAGE} per message`);
+    }
+
+    const ids = [...new Set(attachments.map((attachment) => attachment?.id))];
+    if (ids.some((id) => typeof id !== 'string' || !UUID_PATTERN.test(id))) {
+      throw new Error('Invalid attachments: upload files before sending them');
+    }
+
+    const uploads = await this.attachmentModel.findUnclaimed(ids as string[], conversationId, senderId);
+    if (uploads.length !== ids.length) {
+      throw new Error('Invalid attachments: upload files before sending them');
+    }
+
+    return uploads.map((upload) => this.attachmentService.toMessageAttachment(upload));
   }
 }
@@ -0,0 +1,316 @@
+import {
+  ConversationModel,
+  MessageModel,
+  UserBlockModel,
+  UserModel,
+  UserReportModel,
+} from '../database/models';
+import {
+  BlockedUser,
+  Message,
+  UserReport,
+  UserReportContext,
+  UserReportContextMessage,
+  UserReportReason,
+  UserReportStatus,
+} from '../types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const REPORT_REASONS = Object.values(UserReportReason);
+const MAX_DETAILS_LENGTH = 2000;
+// Messages captured from before the reported one, or from the end of a reported conversation
+const CONTEXT_MESSAGES = 10;
+const MAX_QUEUE_PAGE_SIZE = 100;
+
+const senderName = (message: Message): string => {
+  const profile = message.sender?.profile;
+  const name = profile ? `${profile.first_name} ${profile.last_name}`.trim() : '';
+  return name || message.sender?.email || 'Unknown User';
+};
+
+const toContextMessage = (message: Message): UserReportContextMessage => ({
+  id: message.id,
+  sender_id: message.sender_id,
+  sender_name: senderName(message),
+  content: message.content,
+  attachments: (message.attachments || []).map((attachment) => attachment.name),
+  sent_at: message.created_at,
+});
+
+/**
+ * Controller for blocking, abuse reports and the moderation queue
+ * Any user can block and report; reviewing reports requires users.is_admin
+ */
+export class ModerationController {
+  private userBlockModel: UserBlockModel;
+  private userReportModel: UserReportModel;
+  private userModel: UserModel;
+  private conversationModel: ConversationModel;
+  private messageModel: MessageModel;
+
+  constructor(
+    userBlockModel?: UserBlockModel,
+    userReportModel?: UserReportModel,
+    userModel?: UserModel,
+    conversationModel?: ConversationModel,
+    messageModel?: MessageModel
+  ) {
+    this.userBlockModel = userBlockModel || new UserBlockModel();
+    this.userReportModel = userReportModel || new UserReportModel();
+    this.userModel = userModel || new UserModel();
+    this.conversationModel = conversationModel || new ConversationModel();
+    this.messageModel = messageModel || new MessageModel();
+  }
+
+  /**
+   * Handle GET /api/moderation/blocks
+   */
+  async listBlocks(userId: string): Promise<BlockedUser[]> {
+    return this.userBlockModel.findByBlockerId(userId);
+  }
+
+  /**
+   * Handle POST /api/moderation/blocks
+   */
+  async blockUser(userId: string, blockedUserId: unknown): Promise<BlockedUser[]> {
+    await this.getOtherUser(userId, blockedUserId, 'user_id');
+    await this.userBlockModel.block(userId, blockedUserId as string);
+    return this.userBlockModel.findByBlockerId(userId);
+  }
+
+  /**
+   * Handle DELETE /api/moderation/blocks/:userId
+   */
+  async unblockUser(userId: string, blockedUserId: string): Promise<void> {
+    const removed = UUID_PATTERN.test(blockedUserId)
+      ? await this.userBlockModel.unblock(userId, blockedUserId)
+      : false;
+
+    if (!removed) {
+      throw new Error('Block not found');
+    }
+  }
+
+  /**
+   * Handle POST /api/moderation/reports
+   * Report a message (its sender is the reported user) or a user, optionally
+   * pointing at the conversation the problem happened in. The conversation
+   * around the report is snapshotted for moderators. Reporting the same thing
+   * again while the first report is open returns the open report.
+   */
+  async createReport(
+    reporterId: string,
+    data: {
+      reported_user_id?: unknown;
+      message_id?: unknown;
+      conversation_id?: unknown;
+      reason?: unknown;
+      details?: unknown;
+      block?: unknown;
+    }
+  ): Promise<UserReport> {
+    if (!REPORT_REASONS.includes(data.reason as UserReportReason)) {
+      throw new Error(`Invalid reason. Must be one of: ${REPORT_REASONS.join(', ')}`);
+    }
+    const reason = data.reason as UserReportReason;
+
+    if (data.details !== undefined && data.details !== null && typeof data.details !== 'string') {
+      throw new Error('Invalid details');
+    }
+    const details = (data.details as string | null | undefined)?.trim() || null;
+    if (details && details.length > MAX_DETAILS_LENGTH) {
+      throw new Error(`Invalid details: must be at most ${MAX_DETAILS_LENGTH} characters`);
+    }
+
+    let reportedUserId: string;
+    let conversationId: string | null = null;
+    let messageId: string | null = null;
+
+    if (data.message_id !== undefined && data.message_id !== null) {
+      const message =
+        typeof data.message_id === 'string' && UUID_PATTERN.test(data.message_id)
+          ? await this.messageModel.findById(data.message_id)
+          : null;
+      if (!message) {
+        throw new Error('Message not found');
+      }
+
+      await this.requireParticipant(message.conversation_id, reporterId);
+      if (message.sender_id === reporterId) {
+        throw new Error('Invalid request: You cannot report your own message');
+      }
+
+      reportedUserId = message.sender_id;
+      conversationId = message.conversation_id;
+      messageId = message.id;
+    } else {
+      const reportedUser = await this.getOtherUser(reporterId, data.reported_user_id, 'reported_user_id');
+      reportedUserId = reportedUser.id;
+
+      if (data.conversation_id !== undefined && data.conversation_id !== null) {
+        if (typeof data.conversation_id !== 'string' || !UUID_PATTERN.test(data.conversation_id)) {
+          throw new Error('Invalid conversation_id');
+        }
+        await this.requireParticipant(data.conversation_id, reporterId);
+        conversationId = data.conversation_id;
+      }
+    }
+
+    if (data.block === true) {
+      await this.userBlockModel.block(reporterId, reportedUserId);
+    }
+
+    const duplicate = await this.userReportModel.findOpenDuplicate(reporterId, reportedUserId, messageId);
+    if (duplicate) {
+      return duplicate;
+    }
+
+    return this.userReportModel.create({
+      reporter_id: reporterId,
+      reported_user_id: reportedUserId,
+      conversation_id: conversationId,
+      message_id: messageId,
+      reason,
+      details,
+      context: await this.captureContext(conversationId, messageId),
+    });
+  }
+
+  /**
+   * Handle GET /api/moderation/reports (admin only)
+   */
+  async getReportQueue(
+    userId: string,
+    options: { status?: unknown; page?: unknown; limit?: unknown }
+  ): Promise<{ reports: UserReport[]; total: number; hasMore: boolean }> {
+    await this.requireAdmin(userId);
+
+    const status = (options.status ?? UserReportStatus.OPEN) as UserReportStatus;
+    if (!Object.values(UserReportStatus).includes(status)) {
+      throw new Error(`Invalid status. Must be one of: ${Object.values(UserReportStatus).join(', ')}`);
+    }
+
+    const page = options.page !== undefined ? parseInt(String(options.page), 10) : 1;
+    const limit = options.limit !== undefined ? parseInt(String(options.limit), 10) : 20;
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error('Invalid page');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUEUE_PAGE_SIZE) {
+      throw new Error(`Invalid limit: must be between 1 and ${MAX_QUEUE_PAGE_SIZE}`);
+    }
+
+    return this.userReportModel.findByStatus(status, { page, limit });
+  }
+
+  /**
+   * Handle PATCH /api/moderation/reports/:id (admin only)
+   * Close an open report as actioned or dismissed. Actioning can also
+   * deactivate the reported account, which stops it signing in again.
+   */
+  async resolveReport(
+    userId: string,
+    reportId: string,
+    data: { status?: unknown; resolution_note?: unknown; deactivate_user?: unknown }
+  ): Promise<UserReport> {
+    await this.requireAdmin(userId);
+
+    const report = UUID_PATTERN.test(reportId) ? await this.userReportModel.findById(reportId) : null;
+    if (!report) {
+      throw new Error('Report not found');
+    }
+    if (report.status !== UserReportStatus.OPEN) {
+      throw new Error('Invalid request: This report has already been reviewed');
+    }
+
+    const status = data.status as UserReportStatus;
+    if (status !== UserReportStatus.ACTIONED && status !== UserReportStatus.DISMISSED) {
+      throw new Error('Invalid status. Must be one of: actioned, dismissed');
+    }
+    if (data.resolution_note !== undefined && data.resolution_note !== null && typeof data.resolution_note !== 'string') {
+      throw new Error('Invalid resolution_note');
+    }
+    if (data.deactivate_user === true && status !== UserReportStatus.ACTIONED) {
+      throw new Error('Invalid request: Only actioned reports can deactivate the reported user');
+    }
+
+    if (data.deactivate_user === true) {
+      await this.userModel.update(report.reported_user_id, { is_active: false });
+    }
+
+    const resolved = await this.userReportModel.resolve(reportId, {
+      status,
+      reviewed_by: userId,
+      resolution_note: (data.resolution_note as string | null | undefined)?.trim() || null,
+    });
+
+    return resolved as UserReport;
+  }
+
+  /**
+   * Look up the user a block or report is about; it can't be the caller
+   */
+  private async getOtherUser(userId: string, otherUserId: unknown, field: string) {
+    if (!otherUserId) {
+      throw new Error(`${field} is required`);
+    }
+    if (typeof otherUserId !== 'string' || !UUID_PATTERN.test(otherUserId)) {
+      throw new Error(`Invalid ${field}`);
+    }
+    if (otherUserId === userId) {
+      throw new Error(`Invalid ${field}: you cannot choose yourself`);
+    }
+
+    const user = await this.userModel.findById(otherUserId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user;
+  }
+
+  private async requireParticipant(conversationId: string, userId: string): Promise<void> {
+    const isParticipant = await this.conversationModel.isParticipant(conversationId, userId);
+    if (!isParticipant) {
+      throw new Error('You are not a participant in this conversation');
+    }
+  }
+
+  private async requireAdmin(userId: string): Promise<void> {
+    const user = await this.userModel.findById(userId);
+    if (!user?.is_admin) {
+      throw new Error('Unauthorized: Moderator access required');
+    }
+  }
+
+  /**
+   * Snapshot the reported message and the messages just before it, or the
+   * latest messages of a reported conversation
+   */
+  private async captureContext(
+    conversationId: string | null,
+    messageId: string | null
+  ): Promise<UserReportContext> {
+    if (!conversationId) {
+      return {};
+    }
+
+    const conversation = await this.conversationModel.findById(conversationId);
+    const { messages } = await this.messageModel.findByConversationId(conversationId, {
+      limit: CONTEXT_MESSAGES,
+      before: messageId || undefined,
+    });
+
+    if (messageId) {
+      const reported = await this.messageModel.findByIdWithSender(messageId);
+      if (reported) {
+        messages.push(reported);
+      }
+    }
+
+    return {
+      conversation_subject: conversation?.subject ?? null,
+      reported_message_id: messageId || undefined,
+      messages: messages.map(toContextMessage),
+    };
+  }
+}
@@ -1,6 +1,92 @@
+import crypto from 'crypto';
 import { PropertyListingModel } from '../database/models/PropertyListing';
 import { PropertyListingMetricsModel } from '../database/models/PropertyListingMetrics';
-import { PropertyListing, PropertyListingStatus, PropertyType } from '../types';
+import { ConversationModel } from '../database/models/Conversation';
+import { MessageModel } from '../database/models/Message';
+import { DemandListingModel } from '../database/models/DemandListing';
+import { PropertyFavoriteModel } from '../database/models/PropertyFavorite';
+import { ListingShareModel } from '../database/models/ListingShare';
+import { ListingEventModel } from '../database/models/ListingEvent';
+import { ListingImportJobModel } from '../database/models/ListingImportJob';
+import { ListingMediaModel } from '../database/models/ListingMedia';
+import { MessagingController } from './MessagingController';
+import { savedSearchService } from '../services/SavedSearchService';
+import { BusinessAccessService, businessAccessService } from '../services/BusinessAccessService';
+import { notificationService } from '../services/NotificationService';
+import { geocodingService } from '../services/geo/GeocodingService';
+import { trafficClassifier } from '../services/analytics/TrafficClassifier';
+import { MAX_IMPORT_FILE_SIZE, writeCsvFeed, writeResoFeed } from '../services/listingFeed/listingFeed';
+import { ListingImportService, listingImportService } from '../services/listingFeed/ListingImportService';
+import {
+  ListingMediaFile,
+  ListingMediaService,
+  listingMediaService,
+  MAX_LISTING_DOCUMENTS,
+  MAX_LISTING_PHOTOS,
+  PHOTO_VARIANTS,
+} from '../services/storage/ListingMediaService';
+import { getMessagingSocket } from '../websocket/messagingSocket';
+import {
+  Conversation,
+  FavoritePropertyListing,
+  GeoBounds,
+  ListingDocument,
+  ListingDocumentVisibility,
+  ListingEventType,
+  ListingFeedFormat,
+  ListingImportJob,
+  ListingInquiryCard,
+  ListingMedia,
+  ListingMediaKind,
+  ListingPhotoVariant,
+  ListingShare,
+  ListingShareChannel,
+  ListingTrafficAnalytics,
+  Message,
+  MessageType,
+  PropertyListing,
+  PropertyListingDocument,
+  PropertyListingPhoto,
+  PropertyListingStatus,
+  PropertySearchSort,
+  PropertyType,
+  UserRole,
+} from '../types';
+
+const MAX_INQUIRY_MESSAGE_LENGTH = 5000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_SEARCH_RADIUS_MILES = 250;
+const SEARCH_SORTS: PropertySearchSort[] = ['featured', 'distance'];
+const SHARE_CHANNELS = Object.values(ListingShareChannel);
+const MAX_FAVORITES_PAGE_SIZE = 100;
+const EVENT_TYPES = Object.values(ListingEventType);
+// Generated by the browser; long enough to be unguessable, short enough to index
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+// What was clicked, e.g. "phone", "website", "inquiry"
+const EVENT_TARGET_PATTERN = /^[a-z0-9_-]{1,40}$/;
+const MAX_REFERRER_LENGTH = 2048;
+const MAX_ANALYTICS_DAYS = 365;
+const FEED_FORMATS = Object.values(ListingFeedFormat);
+const DOCUMENT_VISIBILITIES = Object.values(ListingDocumentVisibility);
+const MAX_CAPTION_LENGTH = 500;
+const MAX_DOCUMENT_NAME_LENGTH = 255;
+// Formats by upload file extension, when the format isn't given
+const FEED_FORMAT_EXTENSIONS: Record<string, ListingFeedFormat> = {
+  csv: ListingFeedFormat.CSV,
+  json: ListingFeedFormat.RESO,
+};
+
+/**
+ * Parse a numeric query value, rejecting blanks and anything outside [min, max]
+ */
+const parseCoordinate = (value: unknown, name: string, min: number, max: number): number => {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${name}: must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+};
 
 /**
  * Property Listing API response types
@@ -21,9 +107,27 @@ interface PropertyListingDetailResponse {
     total_inquiries: number;
     total_favorites: number;
     total_shares: number;
+    unique_favorites: number;
   };
 }
 
+interface FavoriteStatusResponse {
+  favorited: boolean;
+  favorites_count: number;
+}
+
+interface ListingShareResponse {
+  share: ListingShare;
+  url: string;
+  created: boolean;
+}
+
+interface PropertyInquiryResponse {
+  conversation: Conversation;
+  message: Message | null;
+  created: boolean;
+}
+
 interface PropertySearchResponse {
   listings: PropertyListing[];
   total: number;
@@ -43,13 +147,58 @@ interface PropertySearchResponse {
 export class PropertyListingController {
   private propertyListingModel: PropertyListingModel;
   private propertyListingMetricsModel: PropertyListingMetricsModel;
+  private conversationModel: ConversationModel;
+  private messageModel: MessageModel;
+  private demandListingModel: DemandListingModel;
+  private businessAccess: BusinessAccessService;
+  private propertyFavoriteModel: PropertyFavoriteModel;
+  private listingShareModel: ListingShareModel;
+  private listingEventModel: ListingEventModel;
+  private listingImportJobModel: ListingImportJobModel;
+  private listingImportService: ListingImportService;
+  private listingMediaModel: ListingMediaModel;
+  private mediaService: ListingMediaService;
+  private messagingController: MessagingController;
 
   constructor(
     propertyListingModel?: PropertyListingModel,
-    propertyListingMetricsModel?: PropertyListingMetricsModel
+    propertyListingMetricsModel?: PropertyListingMetricsModel,
+    conversationModel?: ConversationModel,
+    messageModel?: MessageModel,
+    demandListingModel?: DemandListingModel,
+    businessAccess?: BusinessAccessService,
+    propertyFavoriteModel?: PropertyFavoriteModel,
+    listingShareModel?: ListingShareModel,
+    listingEventModel?: ListingEventModel,
+    listingImportJobModel?: ListingImportJobModel,
+    importService?: ListingImportService,
+    listingMediaModel?: ListingMediaModel,
+    mediaService?: ListingMediaService,
+    messagingController?: MessagingController
   ) {
     this.propertyListingModel = propertyListingModel || new PropertyListingModel();
     this.propertyListingMetricsModel = propertyListingMetricsModel || new PropertyListingMetricsModel();
+    this.conversationModel = conversationModel || new ConversationModel();
+    this.messageModel = messageModel || new MessageModel();
+    this.demandListingModel = demandListingModel || new DemandListingModel();
+    this.businessAccess = businessAccess || businessAccessService;
+    this.propertyFavoriteModel = propertyFavoriteModel || new PropertyFavoriteModel();
+    this.listingShareModel = listingShareModel || new ListingShareModel();
+    this.listingEventModel = listingEventModel || new ListingEventModel();
+    this.listingImportJobModel = listingImportJobModel || new ListingImportJobModel();
+    this.listingImportService = importService || listingImportService;
+    this.listingMediaModel = listingMediaModel || new ListingMediaModel();
+    this.mediaService = mediaService || listingMediaService;
+    this.messagingController = messagingController || new MessagingController();
+  }
+
+  /**
+   * Alert saved searches that now match the listing, without holding up the response
+   */
+  private alertSavedSearches(listing: PropertyListing): void {
+    savedSearchService
+      .notifyMatchingSearches(listing)
+      .catch((err) => console.error('Failed to send saved search alerts:', err));
   }
 
   /**
@@ -105,16 +254,26 @@ export class PropertyListingController {
       maxPrice?: number;
       amenities?: string[];
       search?: string;
+      // Raw query values, validated here
+      lat?: unknown;
+      lng?: unknown;
+      radiusMiles?: unknown;
+      bbox?: unknown;
+      sort?: unknown;
       page?: number;
       limit?: number;
     } = {}
   ): Promise<PropertySearchResponse> {
+    const { lat, lng, radiusMiles, bbox, sort, ...rest } = filters;
+    const geo = this.parseGeoFilters({ lat, lng, radiusMiles, bbox, sort });
+
     const page = Math.max(1, filters.page || 1);
     const limit = Math.min(100, Math.max(1, filters.limit || 20));
     const offset = (page - 1) * limit;
 
     const result = await this.propertyListingModel.search({
-      ...filters,
+      ...rest,
+      ...geo,
       limit,
       offset,
     });
@@ -140,32 +299,107 @@ export class PropertyListingController {
     };
   }
 
+  /**
+   * Validate the geo part of a search.
+   * - lat + lng: the point distances are measured from
+   * - radius_miles: only listings within that distance of lat/lng
+   * - bbox (minLng,minLat,maxLng,maxLat): only listings inside a map viewport
+   * - sort=distance: nearest first, measured from lat/lng or the bbox center
+   */
+  private parseGeoFilters(query: {
+    lat?: unknown;
+    lng?: unknown;
+    radiusMiles?: unknown;
+    bbox?: unknown;
+    sort?: unknown;
+  }): {
+    near?: { latitude: number; longitude: number };
+    radiusMiles?: number;
+    bounds?: GeoBounds;
+    sort: PropertySearchSort;
+  } {
+    const sort = (query.sort ?? 'featured') as PropertySearchSort;
+    if (!SEARCH_SORTS.includes(sort)) {
+      throw new Error(`Invalid sort. Must be one of: ${SEARCH_SORTS.join(', ')}`);
+    }
+
+    if ((query.lat === undefined) !== (query.lng === undefined)) {
+      throw new Error('Invalid location: lat and lng must be given together');
+    }
+    let near =
+      query.lat !== undefined
+        ? {
+            latitude: parseCoordinate(query.lat, 'lat', -90, 90),
+            longitude: parseCoordinate(query.lng, 'lng', -180, 180),
+          }
+        : undefined;
+
+    let bounds: GeoBounds | undefined;
+    if (query.bbox !== undefined) {
+      const parts = typeof query.bbox === 'string' ? query.bbox.split(',') : [];
+      if (parts.length !== 4) {
+        throw new Error('Invalid bbox: expected minLng,minLat,maxLng,maxLat');
+      }
+      bounds = {
+        west: parseCoordinate(parts[0], 'bbox', -180, 180),
+        south: parseCoordinate(parts[1], 'bbox', -90, 90),
+        east: parseCoordinate(parts[2], 'bbox', -180, 180),
+        north: parseCoordinate(parts[3], 'bbox', -90, 90),
+      };
+      if (bounds.west > bounds.east || bounds.south > bounds.north) {
+        throw new Error('Invalid bbox: min values must not exceed max values');
+      }
+    }
+
+    let radiusMiles: number | undefined;
+    if (query.radiusMiles !== undefined) {
+      radiusMiles = parseCoordinate(query.radiusMiles, 'radius_miles', 0, MAX_SEARCH_RADIUS_MILES);
+      if (radiusMiles === 0) {
+        throw new Error(`Invalid radius_miles: must be a number between 0 and ${MAX_SEARCH_RADIUS_MILES}`);
+      }
+      if (!near) {
+        throw new Error('Invalid location: radius_miles requires lat and lng');
+      }
+      if (bounds) {
+        throw new Error('Invalid location: use either radius_miles or bbox, not both');
+      }
+      bounds = geocodingService.boundingBox(near, radiusMiles);
+    }
+
+    if (sort === 'distance' && !near) {
+      if (!bounds) {
+        throw new Error('Invalid sort: distance requires lat and lng or a bbox');
+      }
+      near = {
+        latitude: (bounds.south + bounds.north) / 2,
+        longitude: (bounds.west + bounds.east) / 2,
+      };
+    }
+
+    return { near, radiusMiles, bounds, sort };
+  }
+
   /**
    * Handle GET /api/property-listings/:id
-   * Get single property listing with details and metrics
+   * Get single property listing with details and metrics. Views are recorded
+   * separately by the browser through recordEvent
    */
-  async getListingById(
-    listingId: string,
-    userId?: string,
-    recordView: boolean = true
-  ): Promise<PropertyListingDetailResponse> {
+  async getListingById(listingId: string): Promise<PropertyListingDetailResponse> {
     const listing = await this.propertyListingModel.findById(listingId);
 
     if (!listing) {
       throw new Error('Property listing not found');
     }
 
-    // If viewing someone else's listing, record the view
-    if (recordView && listing.user_id !== userId) {
-      await this.propertyListingMetricsModel.incrementMetric(listingId, 'views');
-    }
-
     // Get metrics for the listing
-    const metrics = await this.propertyListingMetricsModel.getAggregatedMetrics(listingId);
+    const [metrics, uniqueFavorites] = await Promise.all([
+      this.propertyListingMetricsModel.getAggregatedMetrics(listingId),
+      this.propertyFavoriteModel.countByListingId(listingId),
+    ]);
 
     return {
       listing,
-      metrics,
+      metrics: { ...metrics, unique_favorites: uniqueFavorites },
     };
   }
 
@@ -198,9 +432,9 @@ export class PropertyListingController {
       max_lease_term?: string | null;
       amenities?: string[];
       highlights?: string[];
-      photos?: Array<{ url: string; caption?: string; order?: number }>;
+      photos?: PropertyListingPhoto[];
       virtual_tour_url?: string | null;
-      documents?: Array<{ name: string; url: string; type?: string; size?: number }>;
+      documents?: PropertyListingDocument[];
       contact_name?: string | null;
       contact_email?: string | null;
       contact_phone?: string | null;
@@ -270,12 +504,20 @@ export class PropertyListingController {
     }
 
     // Update the listing
-    const updatedListing = await this.propertyListingModel.update(listingId, data);
+    let updatedListing = await this.propertyListingModel.update(listingId, data);
 
     if (!updatedListing) {
       throw new Error('Failed to update property listing');
     }
 
+    // Photos and documents sent here replace only those given as URLs; uploaded ones are kept
+    if (data.photos !== undefined || data.documents !== undefined) {
+      await this.syncListingMedia(updatedListing);
+      updatedListing = (await this.propertyListingModel.findById(listingId)) || updatedListing;
+    }
+
+    this.alertSavedSearches(updatedListing);
+
     return updatedListing;
   }
 
@@ -307,6 +549,8 @@ export class PropertyListingController {
       throw new Error('Failed to update listing status');
     }
 
+    this.alertSavedSearches(updatedListing);
+
     return updatedListing;
   }
 
@@ -327,12 +571,19 @@ export class PropertyListingController {
       throw new Error('Unauthorized: You do not own this listing');
     }
 
-    // Delete the listing (metrics will cascade delete)
+    const media = [
+      ...(await this.listingMediaModel.findByListingId(listingId, ListingMediaKind.PHOTO)),
+      ...(await this.listingMediaModel.findByListingId(listingId, ListingMediaKind.DOCUMENT)),
+    ];
+
+    // Delete the listing (metrics and media rows will cascade delete)
     const deleted = await this.propertyListingModel.delete(listingId);
 
     if (!deleted) {
       throw new Error('Failed to delete property listing');
     }
+
+    await Promise.all(media.map((item) => this.mediaService.remove(item)));
   }
 
   /**
@@ -353,30 +604,771 @@ export class PropertyListingController {
 
   /**
    * Handle POST /api/property-listings/:id/inquiry
-   * Record an inquiry for a property listing
+   * Record an inquiry and open the deal-room conversation between the tenant
+   * and the listing owner, reusing the one they already have for this listing.
+   * A new conversation is seeded with an inquiry card; an existing one only
+   * gets another card when the tenant writes a message. Blocks and the new
+   * conversation limit apply as they do to any other conversation.
+   *
+   * @param listingId - Property listing being inquired about
+   * @param tenantUserId - ID of the inquiring tenant
+   * @param data - Optional message, demand listing and move-in date for the card
    */
-  async recordInquiry(listingId: string): Promise<void> {
+  async createInquiry(
+    listingId: string,
+    tenantUserId: string,
+    data: { message?: string; demand_listing_id?: string; move_in_date?: string } = {}
+  ): Promise<PropertyInquiryResponse> {
     const listing = await this.propertyListingModel.findById(listingId);
 
     if (!listing) {
       throw new Error('Property listing not found');
     }
 
+    if (listing.user_id === tenantUserId) {
+      throw new Error('Invalid request: You cannot inquire about your own listing');
+    }
+
+    if (listing.status !== PropertyListingStatus.ACTIVE) {
+      throw new Error('Invalid request: This listing is not accepting inquiries');
+    }
+
+    const note = data.message?.trim() || '';
+    if (note.length > MAX_INQUIRY_MESSAGE_LENGTH) {
+      throw new Error(
+        `Invalid request: Message must be ${MAX_INQUIRY_MESSAGE_LENGTH} characters or fewer`
+      );
+    }
+
+    if (data.move_in_date && !DATE_PATTERN.test(data.move_in_date)) {
+      throw new Error('Invalid request: move_in_date must be a date (YYYY-MM-DD)');
+    }
+
+    await this.messagingController.assertNotBlocked(tenantUserId, [listing.user_id]);
+
+    const card = await this.buildInquiryCard(listing, tenantUserId, data);
+
+    const existing = await this.conversationModel.findListingConversation(
+      tenantUserId,
+      listing.user_id,
+      listing.id
+    );
+    if (!existing) {
+      await this.messagingController.checkNewConversationLimit(tenantUserId);
+    }
+
     await this.propertyListingMetricsModel.incrementMetric(listingId, 'inquiries');
+
+    const conversation =
+      existing ||
+      (await this.conversationModel.create({
+        created_by: tenantUserId,
+        participant_ids: [listing.user_id],
+        subject: listing.title,
+        property_listing_id: listing.id,
+        demand_listing_id: card.demand_listing_id || undefined,
+      }));
+
+    if (existing && !note) {
+      return { conversation, message: null, created: false };
+    }
+
+    const content = note || `I'm interested in ${listing.title}.`;
+    const message = await this.messageModel.create({
+      conversation_id: conversation.id,
+      sender_id: tenantUserId,
+      content,
+      message_type: MessageType.INQUIRY,
+      metadata: card,
+    });
+
+    const withSender = (await this.messageModel.findByIdWithSender(message.id)) || message;
+    getMessagingSocket()?.emitNewMessage(conversation.id, withSender);
+
+    notificationService
+      .notifyConversationParticipants(conversation.id, tenantUserId, content)
+      .catch((err) => console.error('Failed to send inquiry notifications:', err));
+
+    return { conversation, message: withSender, created: !existing };
+  }
+
+  /**
+   * Snapshot what the tenant is looking for, taken from their demand listing
+   * when one is given, so the card still reads correctly if it changes later
+   */
+  private async buildInquiryCard(
+    listing: PropertyListing,
+    tenantUserId: string,
+    data: { demand_listing_id?: string; move_in_date?: string }
+  ): Promise<ListingInquiryCard> {
+    const card: ListingInquiryCard = {
+      property_listing_id: listing.id,
+      property_title: listing.title,
+      demand_listing_id: null,
+      business_name: null,
+      sqft_min: null,
+      sqft_max: null,
+      budget_min: null,
+      budget_max: null,
+      move_in_date: data.move_in_date || null,
+    };
+
+    if (!data.demand_listing_id) {
+      return card;
+    }
+
+    const demandListing = UUID_PATTERN.test(data.demand_listing_id)
+      ? await this.demandListingModel.findById(data.demand_listing_id)
+      : null;
+
+    if (!demandListing) {
+      throw new Error('Demand listing not found');
+    }
+
+    const { business } = await this.businessAccess.authorize(demandListing.business_id, tenantUserId);
+
+    return {
+      ...card,
+      demand_listing_id: demandListing.id,
+      business_name: business.name,
+      sqft_min: demandListing.sqft_min,
+      sqft_max: demandListing.sqft_max,
+      budget_min: demandListing.budget_min,
+      budget_max: demandListing.budget_max,
+      move_in_date: data.move_in_date || demandListing.start_date,
+    };
   }
 
   /**
    * Handle POST /api/property-listings/:id/favorite
-   * Record a favorite for a property listing
+   * Save the listing, or unsave it if the user already has. Saving counts
+   * toward the day's favorites metric and unsaving takes it back off the day
+   * it was saved, so the metric only ever reflects one save per user.
    */
-  async recordFavorite(listingId: string): Promise<void> {
-    const listing = await this.propertyListingModel.findById(listingId);
+  async toggleFavorite(listingId: string, userId: string): Promise<FavoriteStatusResponse> {
+    const listing = await this.getListingOrThrow(listingId);
+
+    if (listing.user_id === userId) {
+      throw new Error('Invalid request: You cannot save your own listing');
+    }
+
+    const removedAt = await this.propertyFavoriteModel.remove(userId, listingId);
+    if (removedAt) {
+      await this.propertyListingMetricsModel.decrementMetric(listingId, 'favorites', removedAt);
+    } else if (await this.propertyFavoriteModel.add(userId, listingId)) {
+      await this.propertyListingMetricsModel.incrementMetric(listingId, 'favorites');
+    }
+
+    return {
+      favorited: !removedAt,
+      favorites_count: await this.propertyFavoriteModel.countByListingId(listingId),
+    };
+  }
+
+  /**
+   * Handle GET /api/property-listings/:id/favorite
+   */
+  async getFavoriteStatus(listingId: string, userId: string): Promise<FavoriteStatusResponse> {
+    await this.getListingOrThrow(listingId);
+
+    const [favorited, favoritesCount] = await Promise.all([
+      this.propertyFavoriteModel.exists(userId, listingId),
+      this.propertyFavoriteModel.countByListingId(listingId),
+    ]);
+
+    return { favorited, favorites_count: favoritesCount };
+  }
+
+  /**
+   * Handle GET /api/property-listings/favorites
+   */
+  async listFavorites(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ listings: FavoritePropertyListing[]; total: number; hasMore: boolean }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(MAX_FAVORITES_PAGE_SIZE, Math.max(1, options.limit || 20));
+
+    return this.propertyFavoriteModel.findByUserId(userId, { page, limit });
+  }
+
+  /**
+   * Handle POST /api/property-listings/:id/shares
+   * Get a tracked share link for the listing. Each user has one link per
+   * listing and channel; only a newly created link counts as a share.
+   */
+  async createShareLink(listingId: string, userId: string, channel: unknown): Promise<ListingShareResponse> {
+    const shareChannel = (channel ?? ListingShareChannel.LINK) as ListingShareChannel;
+    if (!SHARE_CHANNELS.includes(shareChannel)) {
+      throw new Error(`Invalid channel. Must be one of: ${SHARE_CHANNELS.join(', ')}`);
+    }
+
+    await this.getListingOrThrow(listingId);
+
+    const { share, created } = await this.listingShareModel.findOrCreate({
+      property_listing_id: listingId,
+      user_id: userId,
+      channel: shareChannel,
+      token: crypto.randomBytes(12).toString('hex'),
+    });
+
+    if (created) {
+      await this.propertyListingMetricsModel.incrementMetric(listingId, 'shares');
+    }
+
+    return { share, url: this.shareUrl(share.token), created };
+  }
+
+  /**
+   * Handle GET /api/property-listings/shared/:token
+   * Count an open of a share link and say which listing it points to
+   */
+  async openShareLink(token: string): Promise<{ property_listing_id: string }> {
+    const share = /^[0-9a-f]{24}$/.test(token) ? await this.listingShareModel.recordOpen(token) : null;
+
+    if (!share) {
+      throw new Error('Share link not found');
+    }
+
+    return { property_listing_id: share.property_listing_id };
+  }
+
+  /**
+   * Handle GET /api/property-listings/:id/shares (listing owner only)
+   * Share links with who created them and how often each was opened, and how
+   * many people have the listing saved
+   */
+  async getShareStats(
+    listingId: string,
+    userId: string
+  ): Promise<{ shares: ListingShare[]; unique_favorites: number }> {
+    const listing = await this.getListingOrThrow(listingId);
+
+    if (listing.user_id !== userId) {
+      throw new Error('Unauthorized: You can only view share activity for your own listings');
+    }
+
+    const [shares, uniqueFavorites] = await Promise.all([
+      this.listingShareModel.findByListingId(listingId),
+      this.propertyFavoriteModel.countByListingId(listingId),
+    ]);
+
+    return { shares, unique_favorites: uniqueFavorites };
+  }
+
+  /**
+   * Handle POST /api/property-listings/:id/events
+   * Record a view of or click on a listing. Known bots and the owner's own
+   * visits are ignored, and repeats from the same viewer within the dedupe
+   * window are not recorded again. Recorded events reach the daily metrics
+   * when the rollup job next runs.
+   */
+  async recordEvent(
+    listingId: string,
+    data: { type?: unknown; session_id?: unknown; referrer?: unknown; via?: unknown; target?: unknown },
+    context: { userAgent?: string; viewer?: { userId: string; role: string } }
+  ): Promise<{ recorded: boolean }> {
+    const eventType = data.type as ListingEventType;
+    if (!EVENT_TYPES.includes(eventType)) {
+      throw new Error(`Invalid type. Must be one of: ${EVENT_TYPES.join(', ')}`);
+    }
+    if (typeof data.session_id !== 'string' || !SESSION_ID_PATTERN.test(data.session_id)) {
+      throw new Error('Invalid session_id: must be 16-64 letters, digits, dashes or underscores');
+    }
+    if (
+      eventType === ListingEventType.CLICK &&
+      (typeof data.target !== 'string' || !EVENT_TARGET_PATTERN.test(data.target))
+    ) {
+      throw new Error('Invalid target: clicks need a lowercase name of what was clicked');
+    }
+
+    if (trafficClassifier.isBot(context.userAgent)) {
+      return { recorded: false };
+    }
+
+    const listing = await this.getListingOrThrow(listingId);
+    const viewer = context.viewer;
+
+    if (viewer && listing.user_id === viewer.userId) {
+      return { recorded: false };
+    }
+
+    const referrer = typeof data.referrer === 'string' ? data.referrer.slice(0, MAX_REFERRER_LENGTH) : null;
+    const event = await this.listingEventModel.record({
+      property_listing_id: listingId,
+      event_type: eventType,
+      target: eventType === ListingEventType.CLICK ? (data.target as string) : null,
+      session_id: data.session_id,
+      viewer_user_id: viewer?.userId || null,
+      viewer_role: (viewer?.role as UserRole) || null,
+      referrer,
+      source: trafficClassifier.classifySource(referrer, typeof data.via === 'string' ? data.via : null),
+    });
+
+    return { recorded: !!event };
+  }
+
+  /**
+   * Handle GET /api/property-listings/analytics
+   * Unique and repeat viewers, traffic sources, viewer roles and businesses
+   * for the user's listings, or for one of them
+   */
+  async getTrafficAnalytics(
+    userId: string,
+    options: { days?: unknown; listingId?: unknown } = {}
+  ): Promise<ListingTrafficAnalytics> {
+    const days = options.days === undefined ? 30 : Number(options.days);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_ANALYTICS_DAYS) {
+      throw new Error(`Invalid days: must be a whole number from 1 to ${MAX_ANALYTICS_DAYS}`);
+    }
+
+    let listingId: string | undefined;
+    if (options.listingId !== undefined) {
+      const listing = await this.getListingOrThrow(String(options.listingId));
+      if (listing.user_id !== userId) {
+        throw new Error('Unauthorized: You can only view traffic for your own listings');
+      }
+      listingId = listing.id;
+    }
+
+    return this.listingEventModel.getTrafficAnalytics(userId, { days, listingId });
+  }
+
+  /**
+   * Handle POST /api/property-listings/import
+   * Queue a CSV or RESO JSON file of listings to validate and, unless it's a
+   * dry run, import. Processing starts straight away; poll getImportJob for
+   * the report.
+   */
+  async importListings(
+    userId: string,
+    file: { buffer: Buffer; size: number; originalName?: string },
+    options: { format?: unknown; dryRun?: unknown } = {}
+  ): Promise<ListingImportJob> {
+    const extension = (file.originalName || '').split('.').pop()?.toLowerCase() || '';
+    const format = (options.format || FEED_FORMAT_EXTENSIONS[extension]) as ListingFeedFormat;
+    if (!FEED_FORMATS.includes(format)) {
+      throw new Error(`Invalid format. Must be one of: ${FEED_FORMATS.join(', ')}`);
+    }
+    if (file.size === 0) {
+      throw new Error('Invalid file: the file is empty');
+    }
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      throw new Error(`Invalid file: size must not exceed ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB`);
+    }
+    // Spreadsheets saved as .xlsx rather than CSV, and other binary files
+    if (file.buffer.includes(0)) {
+      throw new Error('Invalid file: expected a CSV or JSON text file');
+    }
+
+    const job = await this.listingImportJobModel.create({
+      user_id: userId,
+      format,
+      file_name: file.originalName ? file.originalName.slice(0, 255) : null,
+      dry_run: options.dryRun === true || options.dryRun === 'true' || options.dryRun === '1',
+      payload: file.buffer.toString('utf8'),
+    });
+
+    // The import job picks this up later if it fails to start here
+    this.listingImportService
+      .processJob(job.id)
+      .catch((err) => console.error(`Failed to process listing import ${job.id}:`, err));
+
+    return job;
+  }
+
+  /**
+   * Handle GET /api/property-listings/imports/:jobId
+   * An import's status and, once completed, its report
+   */
+  async getImportJob(jobId: string, userId: string): Promise<ListingImportJob> {
+    const job = UUID_PATTERN.test(jobId) ? await this.listingImportJobModel.findByIdForUser(jobId, userId) : null;
+
+    if (!job) {
+      throw new Error('Import job not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Handle GET /api/property-listings/export
+   * All of the user's listings in a format importListings reads back
+   */
+  async exportListings(
+    userId: string,
+    format: unknown
+  ): Promise<{ body: string; contentType: string; fileName: string }> {
+    const exportFormat = (format || ListingFeedFormat.CSV) as ListingFeedFormat;
+    if (!FEED_FORMATS.includes(exportFormat)) {
+      throw new Error(`Invalid format. Must be one of: ${FEED_FORMATS.join(', ')}`);
+    }
+
+    const listings = await this.propertyListingModel.findByUserId(userId);
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (exportFormat === ListingFeedFormat.RESO) {
+      return {
+        body: writeResoFeed(listings),
+        contentType: 'application/json',
+        fileName: `listings-${date}.json`,
+      };
+    }
+    return { body: writeCsvFeed(listings), contentType: 'text/csv; charset=utf-8', fileName: `listings-${date}.csv` };
+  }
+
+  /**
+   * Handle POST /api/property-listings/:id/photos
+   * Upload photos, added after the listing's current ones. Each is stored as
+   * thumbnail, card and full renditions with its metadata stripped
+   */
+  async uploadListingPhotos(
+    listingId: string,
+    userId: string,
+    files: ListingMediaFile[],
+    captions: unknown[] = []
+  ): Promise<PropertyListingPhoto[]> {
+    const listing = await this.getOwnedListing(listingId, userId);
+
+    if (files.length === 0) {
+      throw new Error('Invalid request: At least one photo is required');
+    }
+    const existing = await this.listingMediaModel.countByListingId(listingId, ListingMediaKind.PHOTO);
+    if (existing + files.length > MAX_LISTING_PHOTOS) {
+      throw new Error(`Invalid request: A listing can have at most ${MAX_LISTING_PHOTOS} photos`);
+    }
+
+    // Reject the whole upload before storing anything if any file is unacceptable
+    files.forEach((file) => this.mediaService.validatePhoto(file));
+    const photoCaptions = files.map((_, index) => this.parseCaption(captions[index]));
+
+    for (const [index, file] of files.entries()) {
+      const stored = await this.mediaService.storePhoto(listingId, file);
+      await this.listingMediaModel.create({
+        property_listing_id: listingId,
+        uploaded_by: userId,
+        kind: ListingMediaKind.PHOTO,
+        file_name: file.originalName.slice(0, MAX_DOCUMENT_NAME_LENGTH),
+        mime_type: 'image/jpeg',
+        size_bytes: stored.size,
+        storage_key: stored.storageKey,
+        card_key: stored.cardKey,
+        thumbnail_key: stored.thumbnailKey,
+        width: stored.width,
+        height: stored.height,
+        caption: photoCaptions[index],
+      });
+    }
+
+    return this.syncListingMedia(listing);
+  }
+
+  /**
+   * Handle PATCH /api/property-listings/:id/photos/:photoId
+   * Change a photo's caption, or make it the cover photo
+   */
+  async updateListingPhoto(
+    listingId: string,
+    photoId: string,
+    userId: string,
+    data: { caption?: unknown; is_cover?: unknown }
+  ): Promise<PropertyListingPhoto[]> {
+    const listing = await this.getOwnedListing(listingId, userId);
+    const photo = await this.getListingMediaOrThrow(listing, photoId, ListingMediaKind.PHOTO);
+
+    if (data.is_cover !== undefined && data.is_cover !== true) {
+      throw new Error('Invalid is_cover: make another photo the cover instead');
+    }
+    if (data.caption !== undefined) {
+      await this.listingMediaModel.update(photo.id, { caption: this.parseCaption(data.caption) });
+    }
+    if (data.is_cover === true && !photo.is_cover) {
+      await this.listingMediaModel.setCover(listing.id, photo.id);
+    }
+
+    return this.syncListingMedia(listing);
+  }
+
+  /**
+   * Handle PATCH /api/property-listings/:id/photos/order
+   * Put the listing's photos in the given order; every photo must be listed
+   */
+  async reorderListingPhotos(listingId: string, userId: string, photoIds: unknown): Promise<PropertyListingPhoto[]> {
+    const listing = await this.getOwnedListing(listingId, userId);
+    const photos = await this.listingMediaModel.findByListingId(listing.id, ListingMediaKind.PHOTO);
+
+    const ids = Array.isArray(photoIds) ? photoIds : [];
+    const current = new Set(photos.map((photo) => photo.id));
+    if (ids.length !== current.size || new Set(ids).size !== ids.length || !ids.every((id) => current.has(id))) {
+      throw new Error("Invalid photo_ids: must list each of the listing's photos once");
+    }
+
+    await this.listingMediaModel.reorder(listing.id, ListingMediaKind.PHOTO, ids);
+
+    return this.syncListingMedia(listing);
+  }
+
+  /**
+   * Handle DELETE /api/property-listings/:id/photos/:photoId
+   */
+  async deleteListingPhoto(listingId: string, photoId: string, userId: string): Promise<PropertyListingPhoto[]> {
+    const listing = await this.getOwnedListing(listingId, userId);
+    const photo = await this.getListingMediaOrThrow(listing, photoId, ListingMediaKind.PHOTO);
+
+    const deleted = await this.listingMediaModel.delete(photo.id);
+    if (deleted) {
+      await this.mediaService.remove(deleted);
+    }
+
+    return this.syncListingMedia(listing);
+  }
+
+  /**
+   * Handle GET /api/property-listings/photos/:photoId
+   * A rendition of an uploaded photo (public)
+   */
+  async getListingPhoto(photoId: string, variant: unknown): Promise<{ buffer: Buffer; contentType: string }> {
+    const photoVariant = (variant || 'full') as ListingPhotoVariant;
+    if (!PHOTO_VARIANTS.includes(photoVariant)) {
+      throw new Error(`Invalid variant. Must be one of: ${PHOTO_VARIANTS.join(', ')}`);
+    }
+
+    const photo = UUID_PATTERN.test(photoId) ? await this.listingMediaModel.findById(photoId) : null;
+    if (!photo || photo.kind !== ListingMediaKind.PHOTO) {
+      throw new Error('Listing photo not found');
+    }
+
+    return this.mediaService.read(photo, photoVariant);
+  }
+
+  /**
+   * Handle POST /api/property-listings/:id/documents
+   * Upload a flyer, floor plan or other document, public or only for tenants
+   * who have inquired about the listing
+   */
+  async uploadListingDocument(
+    listingId: string,
+    userId: string,
+    file: ListingMediaFile,
+    data: { name?: unknown; visibility?: unknown } = {}
+  ): Promise<ListingDocument> {
+    const listing = await this.getOwnedListing(listingId, userId);
+    const visibility = this.parseVisibility(data.visibility) || ListingDocumentVisibility.PUBLIC;
+    const name = this.parseDocumentName(data.name) || file.originalName.slice(0, MAX_DOCUMENT_NAME_LENGTH);
+
+    const existing = await this.listingMediaModel.countByListingId(listingId, ListingMediaKind.DOCUMENT);
+    if (existing >= MAX_LISTING_DOCUMENTS) {
+      throw new Error(`Invalid request: A listing can have at most ${MAX_LISTING_DOCUMENTS} documents`);
+    }
+
+    const stored = await this.mediaService.storeDocument(listingId, file);
+    const document = await this.listingMediaModel.create({
+      property_listing_id: listingId,
+      uploaded_by: userId,
+      kind: ListingMediaKind.DOCUMENT,
+      file_name: name,
+      mime_type: stored.mimeType,
+      size_bytes: stored.size,
+      storage_key: stored.storageKey,
+      visibility,
+    });
+
+    await this.syncListingMedia(listing);
+
+    return this.mediaService.toDocument(document, false);
+  }
+
+  /**
+   * Handle GET /api/property-listings/:id/documents
+   * A listing's documents. Inquiry-only documents are listed to everyone but
+   * locked, without a URL, for viewers who can't open them yet
+   */
+  async listListingDocuments(listingId: string, viewerId?: string): Promise<ListingDocument[]> {
+    const listing = await this.getListingOrThrow(listingId);
+    const documents = await this.listingMediaModel.findByListingId(listing.id, ListingMediaKind.DOCUMENT);
+
+    const hasGated = documents.some((document) => document.visibility !== ListingDocumentVisibility.PUBLIC);
+    const unlocked = hasGated && (await this.canOpenGatedDocuments(listing, viewerId));
+
+    return documents.map((document) =>
+      this.mediaService.toDocument(document, document.visibility !== ListingDocumentVisibility.PUBLIC && !unlocked)
+    );
+  }
+
+  /**
+   * Handle GET /api/property-listings/:id/documents/:documentId
+   * Download a document the viewer is allowed to open
+   */
+  async downloadListingDocument(
+    listingId: string,
+    documentId: string,
+    viewerId?: string
+  ): Promise<{ buffer: Buffer; contentType: string; fileName: string }> {
+    const listing = await this.getListingOrThrow(listingId);
+    const document = await this.getListingMediaOrThrow(listing, documentId, ListingMediaKind.DOCUMENT);
+
+    if (
+      document.visibility !== ListingDocumentVisibility.PUBLIC &&
+      !(await this.canOpenGatedDocuments(listing, viewerId))
+    ) {
+      throw new Error('Unauthorized: Inquire about this listing to see this document');
+    }
+
+    const { buffer, contentType } = await this.mediaService.read(document);
+    return { buffer, contentType, fileName: document.file_name };
+  }
+
+  /**
+   * Handle PATCH /api/property-listings/:id/documents/:documentId
+   * Rename a document or change who can open it
+   */
+  async updateListingDocument(
+    listingId: string,
+    documentId: string,
+    userId: string,
+    data: { name?: unknown; visibility?: unknown }
+  ): Promise<ListingDocument> {
+    const listing = await this.getOwnedListing(listingId, userId);
+    const document = await this.getListingMediaOrThrow(listing, documentId, ListingMediaKind.DOCUMENT);
+
+    const updated = await this.listingMediaModel.update(document.id, {
+      file_name: this.parseDocumentName(data.name) || undefined,
+      visibility: this.parseVisibility(data.visibility) || undefined,
+    });
+    if (!updated) {
+      throw new Error('Listing document not found');
+    }
+
+    await this.syncListingMedia(listing);
+
+    return this.mediaService.toDocument(updated, false);
+  }
+
+  /**
+   * Handle DELETE /api/property-listings/:id/documents/:documentId
+   */
+  async deleteListingDocument(listingId: string, documentId: string, userId: string): Promise<void> {
+    const listing = await this.getOwnedListing(listingId, userId);
+    const document = await this.getListingMediaOrThrow(listing, documentId, ListingMediaKind.DOCUMENT);
+
+    const deleted = await this.listingMediaModel.delete(document.id);
+    if (deleted) {
+      await this.mediaService.remove(deleted);
+    }
+
+    await this.syncListingMedia(listing);
+  }
+
+  /**
+   * Whether a viewer can open inquiry-only documents: the owner, and tenants
+   * with a conversation about the listing
+   */
+  private async canOpenGatedDocuments(listing: PropertyListing, viewerId?: string): Promise<boolean> {
+    if (!viewerId) {
+      return false;
+    }
+    if (viewerId === listing.user_id) {
+      return true;
+    }
+
+    return !!(await this.conversationModel.findListingConversation(viewerId, listing.user_id, listing.id));
+  }
+
+  /**
+   * Copy uploaded photos, in their order with the cover flagged, and public
+   * documents onto the listing. Photos and documents given as URLs are kept
+   * after the uploaded ones
+   */
+  private async syncListingMedia(listing: PropertyListing): Promise<PropertyListingPhoto[]> {
+    const [photos, documents] = await Promise.all([
+      this.listingMediaModel.findByListingId(listing.id, ListingMediaKind.PHOTO),
+      this.listingMediaModel.findByListingId(listing.id, ListingMediaKind.DOCUMENT),
+    ]);
+
+    const linkedPhotos = (listing.photos || []).filter((photo) => !photo.media_id);
+    const listingPhotos = [
+      ...photos.map((photo, index) => this.mediaService.toListingPhoto(photo, index)),
+      ...linkedPhotos.map((photo, index) => ({ ...photo, order: photos.length + index })),
+    ];
+
+    const listingDocuments = [
+      ...documents
+        .filter((document) => document.visibility === ListingDocumentVisibility.PUBLIC)
+        .map((document) => this.mediaService.toListingDocument(document)),
+      ...(listing.documents || []).filter((document) => !document.media_id),
+    ];
+
+    await this.propertyListingModel.update(listing.id, { photos: listingPhotos, documents: listingDocuments });
+
+    return listingPhotos;
+  }
+
+  private async getOwnedListing(listingId: string, userId: string): Promise<PropertyListing> {
+    const listing = await this.getListingOrThrow(listingId);
+
+    if (listing.user_id !== userId) {
+      throw new Error('Unauthorized: You do not own this listing');
+    }
+
+    return listing;
+  }
+
+  private async getListingMediaOrThrow(
+    listing: PropertyListing,
+    mediaId: string,
+    kind: ListingMediaKind
+  ): Promise<ListingMedia> {
+    const media = UUID_PATTERN.test(mediaId) ? await this.listingMediaModel.findById(mediaId) : null;
+
+    if (!media || media.property_listing_id !== listing.id || media.kind !== kind) {
+      throw new Error(kind === ListingMediaKind.PHOTO ? 'Listing photo not found' : 'Listing document not found');
+    }
+
+    return media;
+  }
+
+  private parseCaption(value: unknown): string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (typeof value !== 'string' || value.trim().length > MAX_CAPTION_LENGTH) {
+      throw new Error(`Invalid caption: must be text of at most ${MAX_CAPTION_LENGTH} characters`);
+    }
+    return value.trim() || null;
+  }
+
+  private parseDocumentName(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (typeof value !== 'string' || !value.trim() || value.trim().length > MAX_DOCUMENT_NAME_LENGTH) {
+      throw new Error(`Invalid name: must be text of at most ${MAX_DOCUMENT_NAME_LENGTH} characters`);
+    }
+    return value.trim();
+  }
+
+  private parseVisibility(value: unknown): ListingDocumentVisibility | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (!DOCUMENT_VISIBILITIES.includes(value as ListingDocumentVisibility)) {
+      throw new Error(`Invalid visibility. Must be one of: ${DOCUMENT_VISIBILITIES.join(', ')}`);
+    }
+    return value as ListingDocumentVisibility;
+  }
+
+  private async getListingOrThrow(listingId: string): Promise<PropertyListing> {
+    const listing = UUID_PATTERN.test(listingId) ? await this.propertyListingModel.findById(listingId) : null;
 
     if (!listing) {
       throw new Error('Property listing not found');
     }
 
-    await this.propertyListingMetricsModel.incrementMetric(listingId, 'favorites');
+    return listing;
+  }
+
+  private shareUrl(token: string): string {
+    return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/shared/${token}`;
   }
 
   /**
@@ -391,18 +1383,20 @@ export class PropertyListingController {
       total_inquiries: number;
       total_favorites: number;
       total_shares: number;
+      unique_favorites: number;
     };
   }> {
-    const [totalListings, activeListings, metrics] = await Promise.all([
+    const [totalListings, activeListings, metrics, uniqueFavorites] = await Promise.all([
       this.propertyListingModel.countByUserId(userId),
       this.propertyListingModel.countActiveByUserId(userId),
       this.propertyListingMetricsModel.getAggregatedMetricsByUserId(userId),
+      this.propertyFavoriteModel.countUniqueByOwnerId(userId),
     ]);
 
     return {
       totalListings,
       activeListings,
-      metrics,
+      metrics: { ...metrics, unique_favorites: uniqueFavorites },
     };
   }
 }
@@ -0,0 +1,230 @@
+import { SavedSearchModel } from '../database/models/SavedSearch';
+import { PropertyListingModel } from '../database/models/PropertyListing';
+import { PropertyListing, PropertyType, SavedSearch, SavedSearchFilters } from '../types';
+
+// Keeps the alert matcher cheap and the management list readable
+const MAX_SAVED_SEARCHES = 25;
+const MAX_NAME_LENGTH = 100;
+
+const NUMERIC_FILTERS = ['min_sqft', 'max_sqft', 'min_price', 'max_price'] as const;
+const TEXT_FILTERS = ['city', 'state', 'search'] as const;
+
+interface SavedSearchResultsResponse {
+  search: SavedSearch;
+  listings: PropertyListing[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Validate and normalize a filter set from the request body
+ * Drops empty values so an unset filter never narrows the search
+ */
+export function normalizeSavedSearchFilters(input: unknown): SavedSearchFilters {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Invalid filters: expected an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: SavedSearchFilters = {};
+
+  for (const key of TEXT_FILTERS) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string') {
+      throw new Error(`Invalid ${key}`);
+    }
+    if (value.trim()) {
+      filters[key] = value.trim();
+    }
+  }
+
+  if (raw.property_type !== undefined && raw.property_type !== null && raw.property_type !== '') {
+    if (!Object.values(PropertyType).includes(raw.property_type as PropertyType)) {
+      throw new Error('Invalid property_type');
+    }
+    filters.property_type = raw.property_type as PropertyType;
+  }
+
+  for (const key of NUMERIC_FILTERS) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') continue;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+      throw new Error(`Invalid ${key}: expected a non-negative number`);
+    }
+    filters[key] = number;
+  }
+
+  if (filters.min_sqft && filters.max_sqft && filters.min_sqft > filters.max_sqft) {
+    throw new Error('Invalid square footage range');
+  }
+  if (filters.min_price && filters.max_price && filters.min_price > filters.max_price) {
+    throw new Error('Invalid price range');
+  }
+
+  if (raw.amenities !== undefined && raw.amenities !== null) {
+    const amenities = typeof raw.amenities === 'string' ? raw.amenities.split(',') : raw.amenities;
+    if (!Array.isArray(amenities) || amenities.some((a) => typeof a !== 'string')) {
+      throw new Error('Invalid amenities: expected a list of strings');
+    }
+    const cleaned = amenities.map((a: string) => a.trim()).filter(Boolean);
+    if (cleaned.length > 0) {
+      filters.amenities = cleaned;
+    }
+  }
+
+  if (Object.keys(filters).length === 0) {
+    throw new Error('Invalid filters: at least one filter is required');
+  }
+
+  return filters;
+}
+
+/**
+ * Controller for saved search endpoints
+ * Handles saved search management and running a saved search
+ */
+export class SavedSearchController {
+  private savedSearchModel: SavedSearchModel;
+  private propertyListingModel: PropertyListingModel;
+
+  constructor(savedSearchModel?: SavedSearchModel, propertyListingModel?: PropertyListingModel) {
+    this.savedSearchModel = savedSearchModel || new SavedSearchModel();
+    this.propertyListingModel = propertyListingModel || new PropertyListingModel();
+  }
+
+  /**
+   * Handle GET /api/saved-searches
+   */
+  async listSearches(userId: string): Promise<SavedSearch[]> {
+    return this.savedSearchModel.findByUserId(userId);
+  }
+
+  /**
+   * Handle POST /api/saved-searches
+   */
+  async createSearch(
+    userId: string,
+    data: { name?: string; filters?: unknown; alert_in_app?: boolean; alert_email?: boolean }
+  ): Promise<SavedSearch> {
+    const name = this.validateName(data.name);
+    const filters = normalizeSavedSearchFilters(data.filters);
+
+    const existing = await this.savedSearchModel.findByUserId(userId);
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      throw new Error(`Invalid request: You can save up to ${MAX_SAVED_SEARCHES} searches`);
+    }
+
+    return this.savedSearchModel.create({
+      user_id: userId,
+      name,
+      filters,
+      alert_in_app: data.alert_in_app,
+      alert_email: data.alert_email,
+    });
+  }
+
+  /**
+   * Handle PUT /api/saved-searches/:id
+   */
+  async updateSearch(
+    searchId: string,
+    userId: string,
+    data: { name?: string; filters?: unknown; alert_in_app?: boolean; alert_email?: boolean }
+  ): Promise<SavedSearch> {
+    await this.getOwnedSearch(searchId, userId);
+
+    for (const key of ['alert_in_app', 'alert_email'] as const) {
+      if (data[key] !== undefined && typeof data[key] !== 'boolean') {
+        throw new Error(`Invalid ${key}: expected a boolean`);
+      }
+    }
+
+    const updated = await this.savedSearchModel.update(searchId, {
+      name: data.name !== undefined ? this.validateName(data.name) : undefined,
+      filters: data.filters !== undefined ? normalizeSavedSearchFilters(data.filters) : undefined,
+      alert_in_app: data.alert_in_app,
+      alert_email: data.alert_email,
+    });
+
+    if (!updated) {
+      throw new Error('Saved search not found');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Handle DELETE /api/saved-searches/:id
+   */
+  async deleteSearch(searchId: string, userId: string): Promise<void> {
+    await this.getOwnedSearch(searchId, userId);
+    await this.savedSearchModel.delete(searchId);
+  }
+
+  /**
+   * Handle GET /api/saved-searches/:id/results
+   * Run the saved search against active listings
+   */
+  async getResults(
+    searchId: string,
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<SavedSearchResultsResponse> {
+    const search = await this.getOwnedSearch(searchId, userId);
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const offset = (page - 1) * limit;
+    const { filters } = search;
+
+    const result = await this.propertyListingModel.search({
+      city: filters.city,
+      state: filters.state,
+      propertyType: filters.property_type,
+      minSqft: filters.min_sqft,
+      maxSqft: filters.max_sqft,
+      minPrice: filters.min_price,
+      maxPrice: filters.max_price,
+      amenities: filters.amenities,
+      search: filters.search,
+      limit,
+      offset,
+    });
+
+    return {
+      search,
+      listings: result.listings,
+      total: result.total,
+      page,
+      limit,
+      hasMore: offset + result.listings.length < result.total,
+    };
+  }
+
+  private async getOwnedSearch(searchId: string, userId: string): Promise<SavedSearch> {
+    const search = await this.savedSearchModel.findById(searchId);
+
+    if (!search) {
+      throw new Error('Saved search not found');
+    }
+
+    if (search.user_id !== userId) {
+      throw new Error('Unauthorized: You do not own this saved search');
+    }
+
+    return search;
+  }
+
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error('Name is required');
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw new Error(`Invalid name: must be ${MAX_NAME_LENGTH} characters or less`);
+    }
+    return name.trim();
+  }
+}
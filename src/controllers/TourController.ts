@@ -0,0 +1,374 @@
+import { TourModel } from '../database/models/Tour';
+import { PropertyListingModel } from '../database/models/PropertyListing';
+import { ConversationModel } from '../database/models/Conversation';
+import { MessageModel } from '../database/models/Message';
+import { MessagingController } from './MessagingController';
+import { notificationService } from '../services/NotificationService';
+import { buildTourCalendarInvite } from '../services/calendar/tourCalendar';
+import { getMessagingSocket } from '../websocket/messagingSocket';
+import { Tour, TourStatus, TourTimeSlot, TourWithDetails } from '../types';
+
+// Keep the choice manageable for the other party
+const MAX_PROPOSED_SLOTS = 5;
+
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 240;
+
+/**
+ * Controller for property tour endpoints
+ * Tenants request tours, either party proposes time slots, and the other
+ * party confirms one of them. Every step is posted to the conversation
+ * between tenant and landlord so the thread keeps the full history.
+ * Users who have blocked each other cannot request, propose or confirm
+ * tours; either can still cancel one, without it being posted.
+ */
+export class TourController {
+  private tourModel: TourModel;
+  private propertyListingModel: PropertyListingModel;
+  private conversationModel: ConversationModel;
+  private messageModel: MessageModel;
+  private messagingController: MessagingController;
+
+  constructor(
+    tourModel?: TourModel,
+    propertyListingModel?: PropertyListingModel,
+    conversationModel?: ConversationModel,
+    messageModel?: MessageModel,
+    messagingController?: MessagingController
+  ) {
+    this.tourModel = tourModel || new TourModel();
+    this.propertyListingModel = propertyListingModel || new PropertyListingModel();
+    this.conversationModel = conversationModel || new ConversationModel();
+    this.messageModel = messageModel || new MessageModel();
+    this.messagingController = messagingController || new MessagingController();
+  }
+
+  /**
+   * Handle POST /api/tours
+   * Request a tour of a property listing
+   *
+   * @param tenantUserId - ID of the requesting tenant
+   * @param data - Property and optional preferred time slots
+   * @returns Created tour
+   */
+  async requestTour(
+    tenantUserId: string,
+    data: {
+      property_listing_id?: string;
+      preferred_times?: string[];
+      duration_minutes?: number;
+      notes?: string;
+    }
+  ): Promise<Tour> {
+    if (!data.property_listing_id) {
+      throw new Error('property_listing_id is required');
+    }
+
+    const property = await this.propertyListingModel.findById(data.property_listing_id);
+    if (!property) {
+      throw new Error('Property listing not found');
+    }
+
+    if (property.user_id === tenantUserId) {
+      throw new Error('Invalid request: You cannot request a tour of your own property');
+    }
+
+    const durationMinutes = this.validateDuration(data.duration_minutes);
+    const proposedSlots = data.preferred_times?.length
+      ? this.buildSlots(data.preferred_times, tenantUserId)
+      : [];
+
+    await this.messagingController.assertNotBlocked(tenantUserId, [property.user_id]);
+
+    const conversation = await this.conversationModel.getOrCreateDirectConversation(
+      tenantUserId,
+      property.user_id,
+      { property_listing_id: property.id }
+    );
+
+    const tour = await this.tourModel.create({
+      property_listing_id: property.id,
+      tenant_user_id: tenantUserId,
+      landlord_user_id: property.user_id,
+      conversation_id: conversation.id,
+      proposed_slots: proposedSlots,
+      duration_minutes: durationMinutes,
+      notes: data.notes?.trim() || null,
+    });
+
+    const lines = [`Tour requested for ${property.title}.`];
+    if (proposedSlots.length > 0) {
+      lines.push('Preferred times:', ...proposedSlots.map((slot) => `- ${this.formatSlot(slot.start_time)}`));
+    }
+    if (tour.notes) {
+      lines.push(`Notes: ${tour.notes}`);
+    }
+    await this.postTourMessage(tour, tenantUserId, lines.join('\n'));
+
+    return tour;
+  }
+
+  /**
+   * Handle GET /api/tours
+   * List tours the user is part of, as tenant or landlord
+   */
+  async listTours(
+    userId: string,
+    filters: { status?: string; upcoming?: boolean } = {}
+  ): Promise<TourWithDetails[]> {
+    let status: TourStatus | undefined;
+    if (filters.status) {
+      if (!Object.values(TourStatus).includes(filters.status as TourStatus)) {
+        throw new Error('Invalid status filter');
+      }
+      status = filters.status as TourStatus;
+    }
+
+    return this.tourModel.findByUserId(userId, { status, upcoming: filters.upcoming });
+  }
+
+  /**
+   * Handle GET /api/tours/:id
+   * Get a single tour (participants only)
+   */
+  async getTour(tourId: string, userId: string): Promise<TourWithDetails> {
+    const tour = await this.tourModel.findByIdWithDetails(tourId);
+    if (!tour) {
+      throw new Error('Tour not found');
+    }
+
+    this.assertParticipant(tour, userId);
+
+    return tour;
+  }
+
+  /**
+   * Handle POST /api/tours/:id/propose
+   * Offer one or more time slots; the other party confirms one of them.
+   * Proposing on a confirmed tour reschedules it.
+   */
+  async proposeTimes(tourId: string, userId: string, times: string[] | undefined): Promise<Tour> {
+    const tour = await this.getOpenTour(tourId, userId);
+
+    if (!times || times.length === 0) {
+      throw new Error('At least one time slot is required');
+    }
+
+    const slots = this.buildSlots(times, userId);
+    await this.messagingController.assertNotBlocked(userId, [this.getOtherParty(tour, userId)]);
+
+    const updated = (await this.tourModel.update(tour.id, {
+      status: TourStatus.PROPOSED,
+      proposed_slots: slots,
+      scheduled_at: null,
+      reminder_sent_at: null,
+    })) as Tour;
+
+    const heading =
+      tour.status === TourStatus.CONFIRMED
+        ? 'Tour needs to be rescheduled. Proposed times:'
+        : 'Proposed tour times:';
+    await this.postTourMessage(
+      updated,
+      userId,
+      [heading, ...slots.map((slot) => `- ${this.formatSlot(slot.start_time)}`)].join('\n')
+    );
+
+    return updated;
+  }
+
+  /**
+   * Handle POST /api/tours/:id/confirm
+   * Confirm one of the slots proposed by the other party
+   */
+  async confirmTour(tourId: string, userId: string, startTime: string | undefined): Promise<Tour> {
+    const tour = await this.getOpenTour(tourId, userId);
+
+    if (!startTime) {
+      throw new Error('start_time is required');
+    }
+
+    const requested = new Date(startTime);
+    const slot = tour.proposed_slots.find(
+      (candidate) => new Date(candidate.start_time).getTime() === requested.getTime()
+    );
+
+    if (!slot) {
+      throw new Error('Invalid start_time: Not one of the proposed times');
+    }
+
+    if (slot.proposed_by_user_id === userId) {
+      throw new Error('Invalid start_time: The other party must confirm a time you proposed');
+    }
+
+    if (requested.getTime() <= Date.now()) {
+      throw new Error('Invalid start_time: Time slot is in the past');
+    }
+
+    await this.messagingController.assertNotBlocked(userId, [this.getOtherParty(tour, userId)]);
+
+    const updated = (await this.tourModel.update(tour.id, {
+      status: TourStatus.CONFIRMED,
+      scheduled_at: requested,
+      reminder_sent_at: null,
+    })) as Tour;
+
+    await this.postTourMessage(updated, userId, `Tour confirmed for ${this.formatSlot(slot.start_time)}.`);
+
+    return updated;
+  }
+
+  /**
+   * Handle POST /api/tours/:id/cancel
+   * Cancel a tour (either participant)
+   */
+  async cancelTour(tourId: string, userId: string, reason?: string): Promise<Tour> {
+    const tour = await this.getOpenTour(tourId, userId);
+
+    const updated = (await this.tourModel.update(tour.id, {
+      status: TourStatus.CANCELLED,
+      cancelled_by_user_id: userId,
+      cancellation_reason: reason?.trim() || null,
+    })) as Tour;
+
+    const content = updated.cancellation_reason
+      ? `Tour cancelled: ${updated.cancellation_reason}`
+      : 'Tour cancelled.';
+    await this.postTourMessage(updated, userId, content);
+
+    return updated;
+  }
+
+  /**
+   * Handle GET /api/tours/:id/calendar.ics
+   * Build an iCalendar file for a scheduled tour
+   */
+  async getCalendarFile(tourId: string, userId: string): Promise<string> {
+    const tour = await this.getTour(tourId, userId);
+
+    if (!tour.scheduled_at) {
+      throw new Error('Invalid request: Tour has not been scheduled yet');
+    }
+
+    return buildTourCalendarInvite(tour);
+  }
+
+  /**
+   * Load a tour that can still change and check the user takes part in it
+   */
+  private async getOpenTour(tourId: string, userId: string): Promise<Tour> {
+    const tour = await this.tourModel.findById(tourId);
+    if (!tour) {
+      throw new Error('Tour not found');
+    }
+
+    this.assertParticipant(tour, userId);
+
+    if (tour.status === TourStatus.CANCELLED || tour.status === TourStatus.COMPLETED) {
+      throw new Error(`Invalid request: Tour is already ${tour.status}`);
+    }
+
+    return tour;
+  }
+
+  private assertParticipant(tour: Tour, userId: string): void {
+    if (tour.tenant_user_id !== userId && tour.landlord_user_id !== userId) {
+      throw new Error('Unauthorized: You are not part of this tour');
+    }
+  }
+
+  private getOtherParty(tour: Tour, userId: string): string {
+    return tour.tenant_user_id === userId ? tour.landlord_user_id : tour.tenant_user_id;
+  }
+
+  private validateDuration(durationMinutes?: number): number {
+    if (durationMinutes === undefined) {
+      return 60;
+    }
+
+    if (
+      !Number.isInteger(durationMinutes) ||
+      durationMinutes < MIN_DURATION_MINUTES ||
+      durationMinutes > MAX_DURATION_MINUTES
+    ) {
+      throw new Error(
+        `Invalid duration_minutes: Must be between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}`
+      );
+    }
+
+    return durationMinutes;
+  }
+
+  private buildSlots(times: string[], userId: string): TourTimeSlot[] {
+    if (!Array.isArray(times) || times.length > MAX_PROPOSED_SLOTS) {
+      throw new Error(`Invalid time slots: Provide between 1 and ${MAX_PROPOSED_SLOTS} times`);
+    }
+
+    const seen = new Set<number>();
+    const slots: TourTimeSlot[] = [];
+
+    for (const time of times) {
+      const date = new Date(time);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Invalid time slot: ${time}`);
+      }
+      if (date.getTime() <= Date.now()) {
+        throw new Error('Invalid time slot: Times must be in the future');
+      }
+      if (seen.has(date.getTime())) {
+        continue;
+      }
+
+      seen.add(date.getTime());
+      slots.push({ start_time: date.toISOString(), proposed_by_user_id: userId });
+    }
+
+    return slots.sort((a, b) => a.start_time.localeCompare(b.start_time));
+  }
+
+  private formatSlot(startTime: string): string {
+    return new Date(startTime).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: 'UTC',
+      timeZoneName: 'short',
+    });
+  }
+
+  /**
+   * Post a tour update into the tour's conversation and push it to live clients
+   */
+  private async postTourMessage(tour: Tour, senderId: string, content: string): Promise<void> {
+    if (!tour.conversation_id) {
+      return;
+    }
+
+    const blocked = await this.messagingController
+      .assertNotBlocked(senderId, [this.getOtherParty(tour, senderId)])
+      .then(() => false, () => true);
+    if (blocked) {
+      return;
+    }
+
+    try {
+      const message = await this.messageModel.create({
+        conversation_id: tour.conversation_id,
+        sender_id: senderId,
+        content,
+      });
+
+      const withSender = await this.messageModel.findByIdWithSender(message.id);
+      getMessagingSocket()?.emitNewMessage(tour.conversation_id, withSender || message);
+
+      notificationService
+        .notifyConversationParticipants(tour.conversation_id, senderId, content)
+        .catch((err) => console.error('Failed to send tour message notifications:', err));
+    } catch (error) {
+      // The tour change has already been saved; a missing thread entry is not fatal
+      console.error('Failed to post tour message:', error);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+// Migration to add a search centroid and radius to demand_listings for distance-based matching
+export const addGeoFieldsToDemandListingsMigration: Migration = {
+  name: '020-add-geo-fields-to-demand-listings',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE demand_listings
+      ADD COLUMN IF NOT EXISTS latitude DECIMAL(10, 8),
+      ADD COLUMN IF NOT EXISTS longitude DECIMAL(11, 8),
+      ADD COLUMN IF NOT EXISTS search_radius_miles DECIMAL(6, 2);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE demand_listings
+      DROP COLUMN IF EXISTS latitude,
+      DROP COLUMN IF EXISTS longitude,
+      DROP COLUMN IF EXISTS search_radius_miles;
+    `);
+  },
+};
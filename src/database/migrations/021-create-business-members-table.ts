@@ -0,0 +1,70 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create business team membership
+ *
+ * - business_member_role enum (owner, admin, viewer)
+ * - business_members: users with access to a business and their role
+ * - business_invites: token, role and expiry so invites can be accepted or declined
+ * - Backfills an owner membership for every existing business
+ */
+export const createBusinessMembersTableMigration: Migration = {
+  name: '021-create-business-members-table',
+
+  async up(pool: Pool): Promise<void> {
+    // Create business_member_role enum
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE business_member_role AS ENUM ('owner', 'admin', 'viewer');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    // Create business_members table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS business_members (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role business_member_role NOT NULL DEFAULT 'viewer',
+        invited_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE(business_id, user_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_business_members_business_id ON business_members(business_id);
+      CREATE INDEX IF NOT EXISTS idx_business_members_user_id ON business_members(user_id);
+    `);
+
+    // Add token, role and expiry to business_invites
+    await pool.query(`
+      ALTER TABLE business_invites
+      ADD COLUMN IF NOT EXISTS token VARCHAR(64) UNIQUE,
+      ADD COLUMN IF NOT EXISTS role business_member_role NOT NULL DEFAULT 'viewer',
+      ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS responded_at TIMESTAMP;
+    `);
+
+    // Existing business owners become owner members
+    await pool.query(`
+      INSERT INTO business_members (business_id, user_id, role)
+      SELECT id, user_id, 'owner' FROM businesses
+      ON CONFLICT (business_id, user_id) DO NOTHING;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE business_invites
+      DROP COLUMN IF EXISTS token,
+      DROP COLUMN IF EXISTS role,
+      DROP COLUMN IF EXISTS expires_at,
+      DROP COLUMN IF EXISTS responded_at;
+    `);
+    await pool.query('DROP TABLE IF EXISTS business_members CASCADE');
+    await pool.query('DROP TYPE IF EXISTS business_member_role CASCADE');
+  },
+};
@@ -0,0 +1,58 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create tours table
+ *
+ * Property tours requested by tenants and scheduled by landlords.
+ * proposed_slots holds the time slots currently on offer as
+ * [{ start_time, proposed_by_user_id }]; scheduled_at is set on confirmation.
+ */
+export const createToursTableMigration: Migration = {
+  name: '022-create-tours-table',
+
+  async up(pool: Pool): Promise<void> {
+    // Create tour_status enum
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE tour_status AS ENUM ('requested', 'proposed', 'confirmed', 'cancelled', 'completed');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    // Create tours table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS tours (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        property_listing_id UUID NOT NULL REFERENCES property_listings(id) ON DELETE CASCADE,
+        tenant_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        landlord_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+        status tour_status NOT NULL DEFAULT 'requested',
+        proposed_slots JSONB NOT NULL DEFAULT '[]',
+        scheduled_at TIMESTAMP WITH TIME ZONE,
+        duration_minutes INTEGER NOT NULL DEFAULT 60,
+        notes TEXT,
+        cancelled_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        cancellation_reason TEXT,
+        reminder_sent_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tours_property_listing_id ON tours(property_listing_id);
+      CREATE INDEX IF NOT EXISTS idx_tours_tenant_user_id ON tours(tenant_user_id);
+      CREATE INDEX IF NOT EXISTS idx_tours_landlord_user_id ON tours(landlord_user_id);
+      CREATE INDEX IF NOT EXISTS idx_tours_status ON tours(status);
+      CREATE INDEX IF NOT EXISTS idx_tours_reminder_due
+        ON tours(scheduled_at)
+        WHERE status = 'confirmed' AND reminder_sent_at IS NULL;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS tours CASCADE');
+    await pool.query('DROP TYPE IF EXISTS tour_status CASCADE');
+  },
+};
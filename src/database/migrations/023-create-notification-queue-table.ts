@@ -0,0 +1,47 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create notification_queue table
+ *
+ * Holds email notifications deferred by a user's email_frequency or quiet
+ * hours until the digest worker sends them as a single email.
+ * Also tracks when each user last received a digest.
+ */
+export const createNotificationQueueTableMigration: Migration = {
+  name: '023-create-notification-queue-table',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS notification_queue (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        email_type VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        sent_at TIMESTAMP WITH TIME ZONE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_notification_queue_pending
+        ON notification_queue(user_id, created_at)
+        WHERE sent_at IS NULL;
+    `);
+
+    await pool.query(`
+      ALTER TABLE notification_preferences
+        ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMP WITH TIME ZONE;
+    `);
+
+    // The settings page used to store 'instant'; normalize to the documented value
+    await pool.query(`
+      UPDATE notification_preferences
+      SET email_frequency = 'immediate'
+      WHERE email_frequency IS NULL OR email_frequency NOT IN ('immediate', 'daily', 'weekly');
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('ALTER TABLE notification_preferences DROP COLUMN IF EXISTS last_digest_sent_at');
+    await pool.query('DROP TABLE IF EXISTS notification_queue CASCADE');
+  },
+};
@@ -0,0 +1,42 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create notifications table
+ *
+ * Persistent in-app notification feed shown in the navigation bell.
+ * Rows are created for each in-app notification the user has enabled
+ * (inapp_* preferences) and are kept until archived.
+ */
+export const createNotificationsTableMigration: Migration = {
+  name: '024-create-notifications-table',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        type VARCHAR(50) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        body TEXT,
+        link VARCHAR(500),
+        data JSONB NOT NULL DEFAULT '{}',
+        read_at TIMESTAMP WITH TIME ZONE,
+        archived_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+        ON notifications(user_id, created_at DESC)
+        WHERE archived_at IS NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_notifications_unread
+        ON notifications(user_id)
+        WHERE read_at IS NULL AND archived_at IS NULL;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS notifications CASCADE');
+  },
+};
@@ -0,0 +1,52 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create saved_searches and saved_search_alerts tables
+ *
+ * Saved searches store a named property search filter set (Pro feature).
+ * saved_search_alerts records which listings a search has already alerted
+ * on, so a listing that is edited after going live isn't announced twice.
+ */
+export const createSavedSearchesTableMigration: Migration = {
+  name: '025-create-saved-searches-table',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS saved_searches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        filters JSONB NOT NULL DEFAULT '{}',
+        alert_in_app BOOLEAN NOT NULL DEFAULT TRUE,
+        alert_email BOOLEAN NOT NULL DEFAULT TRUE,
+        last_alerted_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+
+      CREATE INDEX IF NOT EXISTS idx_saved_searches_alerting
+        ON saved_searches(user_id)
+        WHERE alert_in_app = TRUE OR alert_email = TRUE;
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS saved_search_alerts (
+        saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+        property_listing_id UUID NOT NULL REFERENCES property_listings(id) ON DELETE CASCADE,
+        alerted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (saved_search_id, property_listing_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_property_listing_id
+        ON saved_search_alerts(property_listing_id);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS saved_search_alerts CASCADE');
+    await pool.query('DROP TABLE IF EXISTS saved_searches CASCADE');
+  },
+};
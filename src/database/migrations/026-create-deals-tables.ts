@@ -0,0 +1,73 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create deals tables
+ *
+ * Deal pipeline pairing a tenant demand listing with a property listing.
+ * Each deal belongs to the pipeline of the user who created it; position
+ * orders cards within a stage column. deal_stage_history records every
+ * stage change.
+ */
+export const createDealsTablesMigration: Migration = {
+  name: '026-create-deals-tables',
+
+  async up(pool: Pool): Promise<void> {
+    // Create deal_stage enum
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE deal_stage AS ENUM (
+          'prospect', 'touring', 'loi', 'lease_negotiation', 'signed', 'lost'
+        );
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    // Create deals table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS deals (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        demand_listing_id UUID NOT NULL REFERENCES demand_listings(id) ON DELETE CASCADE,
+        property_listing_id UUID NOT NULL REFERENCES property_listings(id) ON DELETE CASCADE,
+        property_match_id UUID REFERENCES property_matches(id) ON DELETE SET NULL,
+        stage deal_stage NOT NULL DEFAULT 'prospect',
+        position INTEGER NOT NULL DEFAULT 0,
+        notes TEXT,
+        expected_close_date DATE,
+        stage_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        closed_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (user_id, demand_listing_id, property_listing_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_deals_user_stage ON deals(user_id, stage, position);
+      CREATE INDEX IF NOT EXISTS idx_deals_demand_listing_id ON deals(demand_listing_id);
+      CREATE INDEX IF NOT EXISTS idx_deals_property_listing_id ON deals(property_listing_id);
+    `);
+
+    // Create deal_stage_history table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS deal_stage_history (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        deal_id UUID NOT NULL REFERENCES deals(id) ON DELETE CASCADE,
+        from_stage deal_stage,
+        to_stage deal_stage NOT NULL,
+        changed_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        note TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal_id
+        ON deal_stage_history(deal_id, created_at);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS deal_stage_history CASCADE');
+    await pool.query('DROP TABLE IF EXISTS deals CASCADE');
+    await pool.query('DROP TYPE IF EXISTS deal_stage CASCADE');
+  },
+};
@@ -0,0 +1,47 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create market_snapshots table
+ *
+ * Daily supply and demand snapshot per state, city and property type,
+ * recorded by the market snapshot job. Market insights compare snapshots
+ * to compute period-over-period changes, vacancy and absorption.
+ * Demand listings are bucketed into the property type their asset type
+ * maps to.
+ */
+export const createMarketSnapshotsTableMigration: Migration = {
+  name: '027-create-market-snapshots-table',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS market_snapshots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        snapshot_date DATE NOT NULL,
+        state VARCHAR(50) NOT NULL,
+        city VARCHAR(100) NOT NULL,
+        property_type VARCHAR(50) NOT NULL,
+        active_listings INTEGER NOT NULL DEFAULT 0,
+        leased_listings INTEGER NOT NULL DEFAULT 0,
+        total_listings INTEGER NOT NULL DEFAULT 0,
+        sqft_available BIGINT NOT NULL DEFAULT 0,
+        sqft_leased BIGINT NOT NULL DEFAULT 0,
+        priced_listings INTEGER NOT NULL DEFAULT 0,
+        avg_asking_rent_psf DECIMAL(12, 2),
+        demand_listings INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (snapshot_date, state, city, property_type)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_market_snapshots_date ON market_snapshots(snapshot_date);
+      CREATE INDEX IF NOT EXISTS idx_market_snapshots_state_city
+        ON market_snapshots(state, city, snapshot_date);
+      CREATE INDEX IF NOT EXISTS idx_market_snapshots_property_type
+        ON market_snapshots(property_type, snapshot_date);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS market_snapshots CASCADE');
+  },
+};
@@ -0,0 +1,93 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create broker client tables
+ *
+ * broker_clients records a broker representing a client, either a tenant
+ * business (business_id) or a landlord and their property listings
+ * (client_user_id). The broker requests representation and the client
+ * grants consent; only active relationships let the broker act for the
+ * client. broker_client_audit_log records consent changes and every action
+ * a broker takes on a client's behalf.
+ */
+export const createBrokerClientsTablesMigration: Migration = {
+  name: '028-create-broker-clients-tables',
+
+  async up(pool: Pool): Promise<void> {
+    // Create broker_client_type and broker_client_status enums
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE broker_client_type AS ENUM ('tenant', 'landlord');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    await pool.query(`
+      DO $$ BEGIN
+        CREATE TYPE broker_client_status AS ENUM ('pending', 'active', 'declined', 'revoked');
+      EXCEPTION
+        WHEN duplicate_object THEN null;
+      END $$;
+    `);
+
+    // Create broker_clients table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS broker_clients (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        broker_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        client_type broker_client_type NOT NULL,
+        business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+        client_user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+        status broker_client_status NOT NULL DEFAULT 'pending',
+        message TEXT,
+        responded_at TIMESTAMP WITH TIME ZONE,
+        revoked_at TIMESTAMP WITH TIME ZONE,
+        revoked_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        CONSTRAINT broker_client_target CHECK (
+          (client_type = 'tenant' AND business_id IS NOT NULL AND client_user_id IS NULL) OR
+          (client_type = 'landlord' AND client_user_id IS NOT NULL AND business_id IS NULL)
+        )
+      );
+
+      -- One open (pending or active) relationship per broker and client
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_broker_clients_open_business
+        ON broker_clients(broker_user_id, business_id)
+        WHERE business_id IS NOT NULL AND status IN ('pending', 'active');
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_broker_clients_open_user
+        ON broker_clients(broker_user_id, client_user_id)
+        WHERE client_user_id IS NOT NULL AND status IN ('pending', 'active');
+
+      CREATE INDEX IF NOT EXISTS idx_broker_clients_broker ON broker_clients(broker_user_id, status);
+      CREATE INDEX IF NOT EXISTS idx_broker_clients_business ON broker_clients(business_id);
+      CREATE INDEX IF NOT EXISTS idx_broker_clients_client_user ON broker_clients(client_user_id);
+    `);
+
+    // Create broker_client_audit_log table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS broker_client_audit_log (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        broker_client_id UUID NOT NULL REFERENCES broker_clients(id) ON DELETE CASCADE,
+        actor_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        action VARCHAR(100) NOT NULL,
+        resource_type VARCHAR(50),
+        resource_id UUID,
+        details JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_broker_client_audit_log_client
+        ON broker_client_audit_log(broker_client_id, created_at DESC);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS broker_client_audit_log CASCADE');
+    await pool.query('DROP TABLE IF EXISTS broker_clients CASCADE');
+    await pool.query('DROP TYPE IF EXISTS broker_client_status CASCADE');
+    await pool.query('DROP TYPE IF EXISTS broker_client_type CASCADE');
+  },
+};
@@ -0,0 +1,44 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create message_attachments table
+ *
+ * Files uploaded to a conversation. An upload starts unattached and is
+ * claimed by the message its uploader sends with it; the message keeps a
+ * copy of the display fields in its attachments JSONB. Storage keys point
+ * into the configured attachment storage backend (S3 or local disk), with
+ * optional keys for the generated image thumbnail or PDF first-page preview.
+ */
+export const createMessageAttachmentsTableMigration: Migration = {
+  name: '029-create-message-attachments-table',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS message_attachments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        uploader_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+        file_name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(100) NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        storage_key VARCHAR(500) NOT NULL,
+        thumbnail_key VARCHAR(500),
+        preview_key VARCHAR(500),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_attachments_conversation
+        ON message_attachments(conversation_id);
+      CREATE INDEX IF NOT EXISTS idx_message_attachments_message
+        ON message_attachments(message_id);
+      CREATE INDEX IF NOT EXISTS idx_message_attachments_unclaimed
+        ON message_attachments(uploader_id, created_at) WHERE message_id IS NULL;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS message_attachments CASCADE');
+  },
+};
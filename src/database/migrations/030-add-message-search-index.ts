@@ -0,0 +1,37 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add full-text search to messages
+ *
+ * Adds a generated tsvector column over the message content (weight A) and
+ * the names of its attachments (weight B), with a GIN index for @@ queries.
+ * Postgres keeps the column up to date on every insert and update, including
+ * the content rewrite done by soft delete.
+ */
+export const addMessageSearchIndexMigration: Migration = {
+  name: '030-add-message-search-index',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE messages
+        ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', coalesce(content, '')), 'A') ||
+          setweight(
+            to_tsvector('english', coalesce(jsonb_path_query_array(attachments, '$[*].name')::text, '')),
+            'B'
+          )
+        ) STORED;
+
+      CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+        ON messages USING GIN(search_vector);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`
+      DROP INDEX IF EXISTS idx_messages_search_vector;
+      ALTER TABLE messages DROP COLUMN IF EXISTS search_vector;
+    `);
+  },
+};
@@ -0,0 +1,63 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add message editing, replies and reactions
+ *
+ * - messages.reply_to_message_id: the message a reply quotes
+ * - messages.edited_at: set when the sender edits a message
+ * - message_edits: previous content kept on every edit
+ * - message_reactions: one row per user and emoji on a message
+ */
+export const addMessageEditsRepliesReactionsMigration: Migration = {
+  name: '031-add-message-edits-replies-reactions',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE messages
+        ADD COLUMN IF NOT EXISTS reply_to_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+      CREATE INDEX IF NOT EXISTS idx_messages_reply_to
+        ON messages(reply_to_message_id) WHERE reply_to_message_id IS NOT NULL;
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS message_edits (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        previous_content TEXT NOT NULL,
+        edited_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        edited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_edits_message
+        ON message_edits(message_id, edited_at DESC);
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS message_reactions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        emoji VARCHAR(32) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        CONSTRAINT unique_message_reaction UNIQUE (message_id, user_id, emoji)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_reactions_message
+        ON message_reactions(message_id);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS message_reactions CASCADE');
+    await pool.query('DROP TABLE IF EXISTS message_edits CASCADE');
+    await pool.query(`
+      DROP INDEX IF EXISTS idx_messages_reply_to;
+      ALTER TABLE messages
+        DROP COLUMN IF EXISTS edited_at,
+        DROP COLUMN IF EXISTS reply_to_message_id;
+    `);
+  },
+};
@@ -0,0 +1,30 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add message types
+ *
+ * - messages.message_type: 'text' for regular messages, 'inquiry' for the
+ *   listing inquiry card that opens a deal-room conversation
+ * - messages.metadata: structured payload rendered by non-text messages
+ */
+export const addMessageTypesMigration: Migration = {
+  name: '032-add-message-types',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE messages
+        ADD COLUMN IF NOT EXISTS message_type VARCHAR(20) NOT NULL DEFAULT 'text'
+          CHECK (message_type IN ('text', 'inquiry')),
+        ADD COLUMN IF NOT EXISTS metadata JSONB;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE messages
+        DROP COLUMN IF EXISTS metadata,
+        DROP COLUMN IF EXISTS message_type;
+    `);
+  },
+};
@@ -0,0 +1,42 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add conversation participant roles and system messages
+ *
+ * - conversation_participants.role: 'admin' or 'member'; admins can remove
+ *   participants and change roles. Existing creators become admins.
+ * - messages.message_type gains 'system' for membership and subject changes
+ */
+export const addConversationParticipantRolesMigration: Migration = {
+  name: '033-add-conversation-participant-roles',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE conversation_participants
+        ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'member'
+          CHECK (role IN ('admin', 'member'));
+
+      UPDATE conversation_participants cp
+      SET role = 'admin'
+      FROM conversations c
+      WHERE cp.conversation_id = c.id AND cp.user_id = c.created_by;
+    `);
+
+    await pool.query(`
+      ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+      ALTER TABLE messages ADD CONSTRAINT messages_message_type_check
+        CHECK (message_type IN ('text', 'inquiry', 'system'));
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`
+      DELETE FROM messages WHERE message_type = 'system';
+      ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+      ALTER TABLE messages ADD CONSTRAINT messages_message_type_check
+        CHECK (message_type IN ('text', 'inquiry'));
+    `);
+    await pool.query('ALTER TABLE conversation_participants DROP COLUMN IF EXISTS role');
+  },
+};
@@ -0,0 +1,40 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Create message_templates table
+ *
+ * Canned responses inserted from the message composer. A template with a
+ * business_id is shared with that business's team; otherwise it belongs to
+ * user_id alone. Content may contain {{variable}} placeholders filled from
+ * the conversation's property listing.
+ */
+export const createMessageTemplatesTableMigration: Migration = {
+  name: '034-create-message-templates-table',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS message_templates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        content TEXT NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_message_templates_user_id
+        ON message_templates(user_id)
+        WHERE business_id IS NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_message_templates_business_id
+        ON message_templates(business_id)
+        WHERE business_id IS NOT NULL;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS message_templates CASCADE');
+  },
+};
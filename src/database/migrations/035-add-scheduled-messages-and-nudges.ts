@@ -0,0 +1,69 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add scheduled messages and follow-up nudges
+ *
+ * - scheduled_messages: messages queued by their sender for a later send_at.
+ *   The scheduled-messages job delivers pending rows once they are due and
+ *   records the resulting message_id, or the error if delivery failed.
+ * - conversation_participants.nudge_*: a participant's "remind me if no reply
+ *   in N days" setting. nudged_message_id is the last message of theirs they
+ *   were reminded about, so each unanswered message nudges at most once.
+ */
+export const addScheduledMessagesAndNudgesMigration: Migration = {
+  name: '035-add-scheduled-messages-and-nudges',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS scheduled_messages (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        content TEXT NOT NULL DEFAULT '',
+        attachment_ids UUID[] NOT NULL DEFAULT '{}',
+        reply_to_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+        send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'sent', 'cancelled', 'failed')),
+        message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+        error TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due
+        ON scheduled_messages(send_at)
+        WHERE status = 'pending';
+
+      CREATE INDEX IF NOT EXISTS idx_scheduled_messages_conversation_sender
+        ON scheduled_messages(conversation_id, sender_id)
+        WHERE status = 'pending';
+    `);
+
+    await pool.query(`
+      ALTER TABLE conversation_participants
+        ADD COLUMN IF NOT EXISTS nudge_after_days SMALLINT
+          CHECK (nudge_after_days BETWEEN 1 AND 30),
+        ADD COLUMN IF NOT EXISTS nudge_in_app BOOLEAN NOT NULL DEFAULT TRUE,
+        ADD COLUMN IF NOT EXISTS nudge_email BOOLEAN NOT NULL DEFAULT FALSE,
+        ADD COLUMN IF NOT EXISTS nudged_message_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_conversation_participants_nudge
+        ON conversation_participants(conversation_id)
+        WHERE nudge_after_days IS NOT NULL AND left_at IS NULL;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`
+      DROP INDEX IF EXISTS idx_conversation_participants_nudge;
+      ALTER TABLE conversation_participants
+        DROP COLUMN IF EXISTS nudge_after_days,
+        DROP COLUMN IF EXISTS nudge_in_app,
+        DROP COLUMN IF EXISTS nudge_email,
+        DROP COLUMN IF EXISTS nudged_message_id;
+    `);
+    await pool.query('DROP TABLE IF EXISTS scheduled_messages CASCADE');
+  },
+};
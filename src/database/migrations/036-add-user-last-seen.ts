@@ -0,0 +1,25 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add users.last_seen_at
+ *
+ * Live presence is kept in Redis by the messaging socket; last_seen_at is the
+ * durable copy shown next to offline participants. It is written when a user
+ * connects, periodically while they stay connected, and when their last tab
+ * disconnects.
+ */
+export const addUserLastSeenMigration: Migration = {
+  name: '036-add-user-last-seen',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('ALTER TABLE users DROP COLUMN IF EXISTS last_seen_at');
+  },
+};
@@ -0,0 +1,68 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add user blocks, abuse reports and moderators
+ *
+ * - user_blocks: one row per blocker/blocked pair. A block in either direction
+ *   stops the two users starting conversations with each other, adding each
+ *   other to groups, or messaging in a conversation that is just the two of them.
+ * - user_reports: a report about a user or one of their messages. context is a
+ *   snapshot of the reported message and the conversation around it, taken
+ *   when the report is filed so later edits and deletions don't change what
+ *   moderators review.
+ * - users.is_admin: moderators who can review the report queue. Granted
+ *   directly in the database.
+ */
+export const addUserBlocksAndReportsMigration: Migration = {
+  name: '037-add-user-blocks-and-reports',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT FALSE;
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_blocks (
+        blocker_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        blocked_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (blocker_id, blocked_id),
+        CHECK (blocker_id <> blocked_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_reports (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        reported_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+        message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+        reason VARCHAR(20) NOT NULL
+          CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'scam', 'other')),
+        details TEXT,
+        context JSONB NOT NULL DEFAULT '{}',
+        status VARCHAR(20) NOT NULL DEFAULT 'open'
+          CHECK (status IN ('open', 'actioned', 'dismissed')),
+        reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        reviewed_at TIMESTAMP WITH TIME ZONE,
+        resolution_note TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_user_reports_status ON user_reports(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_user_reports_reported_user ON user_reports(reported_user_id);
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query('DROP TABLE IF EXISTS user_reports CASCADE');
+    await pool.query('DROP TABLE IF EXISTS user_blocks CASCADE');
+    await pool.query('ALTER TABLE users DROP COLUMN IF EXISTS is_admin');
+  },
+};
@@ -0,0 +1,26 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add a spatial index on property listing locations
+ *
+ * Radius and map (bounding box) searches filter on
+ * point(longitude, latitude) <@ box(...), which this GiST index serves using
+ * the built-in geometric types, so no extension is needed. Listings that
+ * haven't been geocoded are left out of the index.
+ */
+export const addPropertyListingLocationIndexMigration: Migration = {
+  name: '038-add-property-listing-location-index',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_property_listings_location
+      ON property_listings USING GIST (point(longitude::float8, latitude::float8))
+      WHERE latitude IS NOT NULL AND longitude IS NOT NULL
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`DROP INDEX IF EXISTS idx_property_listings_location`);
+  },
+};
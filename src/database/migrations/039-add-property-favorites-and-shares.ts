@@ -0,0 +1,49 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add per-user property favorites and tracked share links
+ *
+ * - property_favorites: one row per user per saved listing, so a user can
+ *   only save a listing once and owners can count the people who saved it.
+ *   Saving adds one to the day's favorites_count in property_listing_metrics.
+ * - listing_shares: a share link for a listing, attributed to the user who
+ *   created it and the channel it was shared through. Creating a link adds
+ *   one to the day's shares_count; opens are counted per link.
+ */
+export const addPropertyFavoritesAndSharesMigration: Migration = {
+  name: '039-add-property-favorites-and-shares',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS property_favorites (
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        property_listing_id UUID NOT NULL REFERENCES property_listings(id) ON DELETE CASCADE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (user_id, property_listing_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_property_favorites_listing ON property_favorites(property_listing_id);
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS listing_shares (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        property_listing_id UUID NOT NULL REFERENCES property_listings(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token VARCHAR(64) NOT NULL UNIQUE,
+        channel VARCHAR(20) NOT NULL DEFAULT 'link'
+          CHECK (channel IN ('link', 'email', 'sms', 'social')),
+        open_count INTEGER NOT NULL DEFAULT 0,
+        last_opened_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE (property_listing_id, user_id, channel)
+      );
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`DROP TABLE IF EXISTS listing_shares`);
+    await pool.query(`DROP TABLE IF EXISTS property_favorites`);
+  },
+};
@@ -0,0 +1,49 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add listing view and click events
+ *
+ * - listing_events: one row per deduplicated view or click on a listing, with
+ *   the browser session, the signed-in viewer's role and business, and where
+ *   the visit came from. Repeats from the same viewer within the dedupe window
+ *   and known bots are never inserted.
+ * - rolled_up_at marks events already added to property_listing_metrics, so
+ *   the rollup job can run on any instance without counting an event twice.
+ */
+export const addListingEventsMigration: Migration = {
+  name: '040-add-listing-events',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS listing_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        property_listing_id UUID NOT NULL REFERENCES property_listings(id) ON DELETE CASCADE,
+        event_type VARCHAR(10) NOT NULL CHECK (event_type IN ('view', 'click')),
+        target VARCHAR(40),
+        session_id VARCHAR(64) NOT NULL,
+        viewer_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        viewer_role VARCHAR(20),
+        viewer_business_id UUID REFERENCES businesses(id) ON DELETE SET NULL,
+        referrer TEXT,
+        source VARCHAR(20) NOT NULL DEFAULT 'direct'
+          CHECK (source IN ('direct', 'internal', 'share_link', 'search_engine', 'social', 'email', 'referral')),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        rolled_up_at TIMESTAMP WITH TIME ZONE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_listing_events_listing_created
+        ON listing_events(property_listing_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_listing_events_dedupe
+        ON listing_events(property_listing_id, event_type, session_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_listing_events_viewer
+        ON listing_events(viewer_user_id, created_at) WHERE viewer_user_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_listing_events_pending
+        ON listing_events(created_at) WHERE rolled_up_at IS NULL;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`DROP TABLE IF EXISTS listing_events`);
+  },
+};
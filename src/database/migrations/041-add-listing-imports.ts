@@ -0,0 +1,57 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add bulk listing imports
+ *
+ * - property_listings.external_id: the landlord's own ID for a listing (their
+ *   property management system's, or the RESO ListingId), unique per landlord,
+ *   so re-importing a portfolio updates listings instead of duplicating them.
+ * - listing_import_jobs: an uploaded CSV or RESO JSON file and the report from
+ *   validating and (unless it is a dry run) importing it. The file is kept only
+ *   until the job finishes.
+ */
+export const addListingImportsMigration: Migration = {
+  name: '041-add-listing-imports',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      ALTER TABLE property_listings ADD COLUMN IF NOT EXISTS external_id VARCHAR(100);
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_property_listings_user_external_id
+        ON property_listings(user_id, external_id) WHERE external_id IS NOT NULL;
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS listing_import_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'reso')),
+        file_name VARCHAR(255),
+        dry_run BOOLEAN NOT NULL DEFAULT false,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+        payload TEXT,
+        total_rows INTEGER NOT NULL DEFAULT 0,
+        created_count INTEGER NOT NULL DEFAULT 0,
+        updated_count INTEGER NOT NULL DEFAULT 0,
+        skipped_count INTEGER NOT NULL DEFAULT 0,
+        errors JSONB NOT NULL DEFAULT '[]',
+        error_message TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        started_at TIMESTAMP WITH TIME ZONE,
+        completed_at TIMESTAMP WITH TIME ZONE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_listing_import_jobs_user ON listing_import_jobs(user_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_listing_import_jobs_unfinished
+        ON listing_import_jobs(created_at) WHERE status IN ('pending', 'processing');
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`DROP TABLE IF EXISTS listing_import_jobs`);
+    await pool.query(`DROP INDEX IF EXISTS idx_property_listings_user_external_id`);
+    await pool.query(`ALTER TABLE property_listings DROP COLUMN IF EXISTS external_id`);
+  },
+};
@@ -0,0 +1,53 @@
+import { Pool } from 'pg';
+import { Migration } from './migration-runner';
+
+/**
+ * Migration: Add uploaded listing photos and documents
+ *
+ * listing_media holds files uploaded for a property listing:
+ * - photos, stored as thumbnail, card and full renditions (the upload itself
+ *   is not kept, so camera EXIF such as GPS never reaches storage), with a
+ *   caption, a position and at most one cover photo per listing
+ * - documents such as flyers and floor plans, either public or only for
+ *   tenants who have inquired about the listing
+ *
+ * property_listings.photos and .documents keep a copy of the photos and the
+ * public documents so listing queries stay a single read.
+ */
+export const addListingMediaMigration: Migration = {
+  name: '042-add-listing-media',
+
+  async up(pool: Pool): Promise<void> {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS listing_media (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        property_listing_id UUID NOT NULL REFERENCES property_listings(id) ON DELETE CASCADE,
+        uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        kind VARCHAR(20) NOT NULL CHECK (kind IN ('photo', 'document')),
+        file_name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(100) NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        storage_key VARCHAR(500) NOT NULL,
+        thumbnail_key VARCHAR(500),
+        card_key VARCHAR(500),
+        width INTEGER,
+        height INTEGER,
+        caption VARCHAR(500),
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        is_cover BOOLEAN NOT NULL DEFAULT false,
+        visibility VARCHAR(20) NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'inquired')),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_listing_media_listing
+        ON listing_media(property_listing_id, kind, sort_order);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_listing_media_cover
+        ON listing_media(property_listing_id) WHERE is_cover;
+    `);
+  },
+
+  async down(pool: Pool): Promise<void> {
+    await pool.query(`DROP TABLE IF EXISTS listing_media`);
+  },
+};
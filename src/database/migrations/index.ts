@@ -18,6 +18,29 @@ import { createMessagingTablesMigration } from './016-create-messaging-tables';
 import { createPropertyMatchesMigration } from './017-create-property-matches-table';
 import { createNotificationPreferencesMigration } from './018-create-notification-preferences-table';
 import { createSubscriptionsTablesMigration } from './019-create-subscriptions-tables';
+import { addGeoFieldsToDemandListingsMigration } from './020-add-geo-fields-to-demand-listings';
+import { createBusinessMembersTableMigration } from './021-create-business-members-table';
+import { createToursTableMigration } from './022-create-tours-table';
+import { createNotificationQueueTableMigration } from './023-create-notification-queue-table';
+import { createNotificationsTableMigration } from './024-create-notifications-table';
+import { createSavedSearchesTableMigration } from './025-create-saved-searches-table';
+import { createDealsTablesMigration } from './026-create-deals-tables';
+import { createMarketSnapshotsTableMigration } from './027-create-market-snapshots-table';
+import { createBrokerClientsTablesMigration } from './028-create-broker-clients-tables';
+import { createMessageAttachmentsTableMigration } from './029-create-message-attachments-table';
+import { addMessageSearchIndexMigration } from './030-add-message-search-index';
+import { addMessageEditsRepliesReactionsMigration } from './031-add-message-edits-replies-reactions';
+import { addMessageTypesMigration } from './032-add-message-types';
+import { addConversationParticipantRolesMigration } from './033-add-conversation-participant-roles';
+import { createMessageTemplatesTableMigration } from './034-create-message-templates-table';
+import { addScheduledMessagesAndNudgesMigration } from './035-add-scheduled-messages-and-nudges';
+import { addUserLastSeenMigration } from './036-add-user-last-seen';
+import { addUserBlocksAndReportsMigration } from './037-add-user-blocks-and-reports';
+import { addPropertyListingLocationIndexMigration } from './038-add-property-listing-location-index';
+import { addPropertyFavoritesAndSharesMigration } from './039-add-property-favorites-and-shares';
+import { addListingEventsMigration } from './040-add-listing-events';
+import { addListingImportsMigration } from './041-add-listing-imports';
+import { addListingMediaMigration } from './042-add-listing-media';
 
 // Export all migrations in order
 export const migrations: Migration[] = [
@@ -40,4 +63,27 @@ export const migrations: Migration[] = [
   createPropertyMatchesMigration,
   createNotificationPreferencesMigration,
   createSubscriptionsTablesMigration,
+  addGeoFieldsToDemandListingsMigration,
+  createBusinessMembersTableMigration,
+  createToursTableMigration,
+  createNotificationQueueTableMigration,
+  createNotificationsTableMigration,
+  createSavedSearchesTableMigration,
+  createDealsTablesMigration,
+  createMarketSnapshotsTableMigration,
+  createBrokerClientsTablesMigration,
+  createMessageAttachmentsTableMigration,
+  addMessageSearchIndexMigration,
+  addMessageEditsRepliesReactionsMigration,
+  addMessageTypesMigration,
+  addConversationParticipantRolesMigration,
+  createMessageTemplatesTableMigration,
+  addScheduledMessagesAndNudgesMigration,
+  addUserLastSeenMigration,
+  addUserBlocksAndReportsMigration,
+  addPropertyListingLocationIndexMigration,
+  addPropertyFavoritesAndSharesMigration,
+  addListingEventsMigration,
+  addListingImportsMigration,
+  addListingMediaMigration,
 ];
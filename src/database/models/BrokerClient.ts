@@ -0,0 +1,374 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import {
+  BrokerClient,
+  BrokerClientAuditEntry,
+  BrokerClientConversation,
+  BrokerClientDeal,
+  BrokerClientMatch,
+  BrokerClientStatus,
+  BrokerClientType,
+  BrokerClientWithDetails,
+  BrokerDashboardData,
+} from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const DETAILS_SELECT = `
+  SELECT
+    bc.*,
+    COALESCE(b.name, NULLIF(TRIM(CONCAT(cp.first_name, ' ', cp.last_name)), ''), cu.email) as client_name,
+    COALESCE(cu.email, owner.email) as client_email,
+    NULLIF(TRIM(CONCAT(bp.first_name, ' ', bp.last_name)), '') as broker_name,
+    bu.email as broker_email
+  FROM broker_clients bc
+  JOIN users bu ON bu.id = bc.broker_user_id
+  LEFT JOIN user_profiles bp ON bp.user_id = bc.broker_user_id
+  LEFT JOIN businesses b ON b.id = bc.business_id
+  LEFT JOIN users owner ON owner.id = b.user_id
+  LEFT JOIN users cu ON cu.id = bc.client_user_id
+  LEFT JOIN user_profiles cp ON cp.user_id = bc.client_user_id
+`;
+
+/**
+ * A broker's active clients and the listings they represent ($1 = broker)
+ * Tenant clients bring their business's demand listings, landlord clients
+ * their property listings.
+ */
+const CLIENT_SCOPE_SQL = `
+  WITH clients AS (
+    SELECT
+      bc.id as broker_client_id,
+      bc.business_id,
+      bc.client_user_id,
+      COALESCE(b.name, NULLIF(TRIM(CONCAT(up.first_name, ' ', up.last_name)), ''), u.email) as client_name
+    FROM broker_clients bc
+    LEFT JOIN businesses b ON b.id = bc.business_id
+    LEFT JOIN users u ON u.id = bc.client_user_id
+    LEFT JOIN user_profiles up ON up.user_id = bc.client_user_id
+    WHERE bc.broker_user_id = $1 AND bc.status = 'active'
+  ),
+  client_demand AS (
+    SELECT dl.id, c.broker_client_id, c.client_name
+    FROM demand_listings dl
+    JOIN clients c ON c.business_id = dl.business_id
+  ),
+  client_property AS (
+    SELECT pl.id, c.broker_client_id, c.client_name
+    FROM property_listings pl
+    JOIN clients c ON c.client_user_id = pl.user_id
+  )
+`;
+
+/**
+ * BrokerClient Model
+ * Broker representation of tenant businesses and landlords, with the
+ * audit trail of consent changes and actions taken on a client's behalf
+ */
+export class BrokerClientModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Create a pending representation request
+   */
+  async create(data: {
+    broker_user_id: string;
+    client_type: BrokerClientType;
+    business_id?: string | null;
+    client_user_id?: string | null;
+    message?: string | null;
+  }): Promise<BrokerClient> {
+    const result = await this.pool.query(
+      `INSERT INTO broker_clients (id, broker_user_id, client_type, business_id, client_user_id, message)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        uuidv4(),
+        data.broker_user_id,
+        data.client_type,
+        data.business_id || null,
+        data.client_user_id || null,
+        data.message || null,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find broker client by ID
+   */
+  async findById(id: string): Promise<BrokerClient | null> {
+    const result = await this.pool.query('SELECT * FROM broker_clients WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find broker client by ID with display names
+   */
+  async findByIdWithDetails(id: string): Promise<BrokerClientWithDetails | null> {
+    const result = await this.pool.query(`${DETAILS_SELECT} WHERE bc.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the broker's pending or active relationship with a client
+   */
+  async findOpen(
+    brokerUserId: string,
+    client: { business_id?: string | null; client_user_id?: string | null }
+  ): Promise<BrokerClient | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM broker_clients
+       WHERE broker_user_id = $1
+         AND (business_id = $2 OR client_user_id = $3)
+         AND status IN ('pending', 'active')
+       LIMIT 1`,
+      [brokerUserId, client.business_id || null, client.client_user_id || null]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a broker's client roster, open relationships first
+   */
+  async findByBroker(brokerUserId: string): Promise<BrokerClientWithDetails[]> {
+    const result = await this.pool.query(
+      `${DETAILS_SELECT}
+       WHERE bc.broker_user_id = $1
+       ORDER BY
+         CASE bc.status WHEN 'active' THEN 0 WHEN 'pending' THEN 1 ELSE 2 END,
+         bc.updated_at DESC`,
+      [brokerUserId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find pending and active brokers for a user: brokers representing them as
+   * a landlord, or representing a business they own
+   */
+  async findForClient(userId: string): Promise<BrokerClientWithDetails[]> {
+    const result = await this.pool.query(
+      `${DETAILS_SELECT}
+       WHERE (bc.client_user_id = $1 OR b.user_id = $1)
+         AND bc.status IN ('pending', 'active')
+       ORDER BY bc.status DESC, bc.created_at DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Move a relationship to a new consent status
+   * Records when the client responded, or who ended the relationship.
+   */
+  async updateStatus(
+    id: string,
+    status: BrokerClientStatus,
+    actorUserId: string
+  ): Promise<BrokerClient | null> {
+    const result = await this.pool.query(
+      `UPDATE broker_clients
+       SET status = $2,
+           responded_at = CASE WHEN $2 IN ('active', 'declined') THEN NOW() ELSE responded_at END,
+           revoked_at = CASE WHEN $2 = 'revoked' THEN NOW() ELSE revoked_at END,
+           revoked_by_user_id = CASE WHEN $2 = 'revoked' THEN $3::uuid ELSE revoked_by_user_id END,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, status, actorUserId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Append an entry to a relationship's audit trail
+   */
+  async recordAction(data: {
+    broker_client_id: string;
+    actor_user_id: string;
+    action: string;
+    resource_type?: string | null;
+    resource_id?: string | null;
+    details?: Record<string, unknown>;
+  }): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO broker_client_audit_log
+         (id, broker_client_id, actor_user_id, action, resource_type, resource_id, details)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        uuidv4(),
+        data.broker_client_id,
+        data.actor_user_id,
+        data.action,
+        data.resource_type || null,
+        data.resource_id || null,
+        JSON.stringify(data.details || {}),
+      ]
+    );
+  }
+
+  /**
+   * Get a relationship's audit trail, newest first
+   */
+  async getAuditLog(brokerClientId: string, limit: number = 100): Promise<BrokerClientAuditEntry[]> {
+    const result = await this.pool.query(
+      `SELECT
+         log.*,
+         COALESCE(NULLIF(TRIM(CONCAT(up.first_name, ' ', up.last_name)), ''), u.email) as actor_name
+       FROM broker_client_audit_log log
+       LEFT JOIN users u ON u.id = log.actor_user_id
+       LEFT JOIN user_profiles up ON up.user_id = log.actor_user_id
+       WHERE log.broker_client_id = $1
+       ORDER BY log.created_at DESC
+       LIMIT $2`,
+      [brokerClientId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Best active matches involving the broker's clients' listings
+   */
+  async findClientMatches(brokerUserId: string, limit: number = 10): Promise<BrokerClientMatch[]> {
+    const result = await this.pool.query(
+      `${CLIENT_SCOPE_SQL}
+       SELECT
+         pm.id,
+         COALESCE(cd.broker_client_id, cp.broker_client_id) as broker_client_id,
+         COALESCE(cd.client_name, cp.client_name) as client_name,
+         pm.match_score::float as match_score,
+         pm.demand_listing_id,
+         dl.title as demand_listing_title,
+         pm.property_listing_id,
+         pl.title as property_title,
+         pl.city as property_city,
+         pl.state as property_state,
+         pm.created_at
+       FROM property_matches pm
+       JOIN demand_listings dl ON dl.id = pm.demand_listing_id
+       JOIN property_listings pl ON pl.id = pm.property_listing_id
+       LEFT JOIN client_demand cd ON cd.id = pm.demand_listing_id
+       LEFT JOIN client_property cp ON cp.id = pm.property_listing_id
+       WHERE (cd.id IS NOT NULL OR cp.id IS NOT NULL)
+         AND pm.is_dismissed = FALSE
+         AND dl.status = 'active'
+         AND pl.status = 'active'
+       ORDER BY pm.match_score DESC, pm.created_at DESC
+       LIMIT $2`,
+      [brokerUserId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Most recent conversations about the broker's clients' listings
+   */
+  async findClientConversations(
+    brokerUserId: string,
+    limit: number = 10
+  ): Promise<BrokerClientConversation[]> {
+    const result = await this.pool.query(
+      `${CLIENT_SCOPE_SQL}
+       SELECT
+         c.id,
+         COALESCE(cd.broker_client_id, cp.broker_client_id) as broker_client_id,
+         COALESCE(cd.client_name, cp.client_name) as client_name,
+         c.subject,
+         pl.title as property_title,
+         dl.title as demand_listing_title,
+         LEFT(last_message.content, 140) as last_message_preview,
+         c.last_message_at
+       FROM conversations c
+       LEFT JOIN client_demand cd ON cd.id = c.demand_listing_id
+       LEFT JOIN client_property cp ON cp.id = c.property_listing_id
+       LEFT JOIN property_listings pl ON pl.id = c.property_listing_id
+       LEFT JOIN demand_listings dl ON dl.id = c.demand_listing_id
+       LEFT JOIN LATERAL (
+         SELECT content FROM messages
+         WHERE conversation_id = c.id AND is_deleted = FALSE
+         ORDER BY created_at DESC
+         LIMIT 1
+       ) last_message ON TRUE
+       WHERE cd.id IS NOT NULL OR cp.id IS NOT NULL
+       ORDER BY c.last_message_at DESC
+       LIMIT $2`,
+      [brokerUserId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Open deals on any pipeline involving the broker's clients' listings
+   * A listing pair tracked on several boards is reported once.
+   */
+  async findClientDeals(brokerUserId: string, limit: number = 20): Promise<BrokerClientDeal[]> {
+    const result = await this.pool.query(
+      `${CLIENT_SCOPE_SQL}
+       SELECT * FROM (
+         SELECT DISTINCT ON (d.demand_listing_id, d.property_listing_id)
+           d.id,
+           COALESCE(cd.broker_client_id, cp.broker_client_id) as broker_client_id,
+           COALESCE(cd.client_name, cp.client_name) as client_name,
+           d.stage,
+           pl.title as property_title,
+           dl.title as demand_listing_title,
+           b.name as business_name,
+           TO_CHAR(d.expected_close_date, 'YYYY-MM-DD') as expected_close_date,
+           d.updated_at
+         FROM deals d
+         JOIN property_listings pl ON pl.id = d.property_listing_id
+         JOIN demand_listings dl ON dl.id = d.demand_listing_id
+         JOIN businesses b ON b.id = dl.business_id
+         LEFT JOIN client_demand cd ON cd.id = d.demand_listing_id
+         LEFT JOIN client_property cp ON cp.id = d.property_listing_id
+         WHERE (cd.id IS NOT NULL OR cp.id IS NOT NULL)
+           AND d.stage NOT IN ('signed', 'lost')
+         ORDER BY d.demand_listing_id, d.property_listing_id, d.updated_at DESC
+       ) client_deals
+       ORDER BY updated_at DESC
+       LIMIT $2`,
+      [brokerUserId, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Dashboard counts across the broker's clients
+   */
+  async getDashboardKpis(brokerUserId: string): Promise<BrokerDashboardData['kpis']> {
+    const result = await this.pool.query(
+      `${CLIENT_SCOPE_SQL}
+       SELECT
+         (SELECT COUNT(*) FROM clients)::int as active_clients,
+         (SELECT COUNT(*) FROM broker_clients
+          WHERE broker_user_id = $1 AND status = 'pending')::int as pending_requests,
+         (SELECT COUNT(*) FROM property_matches pm
+          WHERE pm.is_dismissed = FALSE
+            AND (pm.demand_listing_id IN (SELECT id FROM client_demand)
+              OR pm.property_listing_id IN (SELECT id FROM client_property)))::int as active_matches,
+         (SELECT COUNT(*) FROM conversations c
+          WHERE c.last_message_at > NOW() - INTERVAL '30 days'
+            AND (c.demand_listing_id IN (SELECT id FROM client_demand)
+              OR c.property_listing_id IN (SELECT id FROM client_property)))::int as active_conversations,
+         (SELECT COUNT(DISTINCT (d.demand_listing_id, d.property_listing_id)) FROM deals d
+          WHERE d.stage NOT IN ('signed', 'lost')
+            AND (d.demand_listing_id IN (SELECT id FROM client_demand)
+              OR d.property_listing_id IN (SELECT id FROM client_property)))::int as open_deals`,
+      [brokerUserId]
+    );
+
+    const row = result.rows[0] || {};
+    return {
+      activeClients: row.active_clients || 0,
+      pendingRequests: row.pending_requests || 0,
+      activeMatches: row.active_matches || 0,
+      activeConversations: row.active_conversations || 0,
+      openDeals: row.open_deals || 0,
+    };
+  }
+}
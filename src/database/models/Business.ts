@@ -1,6 +1,6 @@
 import { Pool } from 'pg';
 import pool from '../../config/database';
-import { Business, BusinessStatus } from '../../types';
+import { Business, BusinessMemberRole, BusinessStatus } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 
 export class BusinessModel {
@@ -121,6 +121,47 @@ export class BusinessModel {
     };
   }
 
+  // Find businesses the user owns or is a team member of, with their role on each
+  async findAccessibleByUserIdPaginated(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0,
+    status?: BusinessStatus,
+    search?: string
+  ): Promise<{ businesses: (Business & { member_role: BusinessMemberRole })[]; total: number }> {
+    const from = `FROM businesses b
+      LEFT JOIN business_members bm ON bm.business_id = b.id AND bm.user_id = $1
+      WHERE (b.user_id = $1 OR bm.user_id IS NOT NULL)`;
+    let filters = '';
+    const params: any[] = [userId];
+    let paramIndex = 2;
+
+    if (status) {
+      filters += ` AND b.status = $${paramIndex}`;
+      params.push(status);
+      paramIndex++;
+    }
+
+    if (search) {
+      filters += ` AND b.name ILIKE $${paramIndex}`;
+      params.push(`%${search}%`);
+      paramIndex++;
+    }
+
+    const query = `SELECT b.*, CASE WHEN b.user_id = $1 THEN 'owner' ELSE bm.role::text END as member_role
+      ${from}${filters}
+      ORDER BY b.created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+    const countQuery = `SELECT COUNT(*) as count ${from}${filters}`;
+
+    const businessesResult = await this.pool.query(query, [...params, limit, offset]);
+    const countResult = await this.pool.query(countQuery, params);
+
+    return {
+      businesses: businessesResult.rows,
+      total: parseInt(countResult.rows[0].count, 10),
+    };
+  }
+
   // Update business
   async update(id: string, data: Partial<Business>): Promise<Business | null> {
     const fields: string[] = [];
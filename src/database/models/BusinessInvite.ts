@@ -1,6 +1,6 @@
 import { Pool } from 'pg';
 import pool from '../../config/database';
-import { BusinessInvite, BusinessInviteStatus } from '../../types';
+import { BusinessInvite, BusinessInviteStatus, BusinessMemberRole } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 
 export class BusinessInviteModel {
@@ -16,10 +16,13 @@ export class BusinessInviteModel {
     invited_by_user_id: string;
     invited_user_email: string;
     status?: BusinessInviteStatus;
+    token?: string | null;
+    role?: BusinessMemberRole;
+    expires_at?: Date | null;
   }): Promise<BusinessInvite> {
     const result = await this.pool.query(
-      `INSERT INTO business_invites (id, business_id, invited_by_user_id, invited_user_email, status)
-       VALUES ($1, $2, $3, $4, $5)
+      `INSERT INTO business_invites (id, business_id, invited_by_user_id, invited_user_email, status, token, role, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        RETURNING *`,
       [
         uuidv4(),
@@ -27,6 +30,9 @@ export class BusinessInviteModel {
         data.invited_by_user_id,
         data.invited_user_email,
         data.status || 'pending',
+        data.token || null,
+        data.role || 'viewer',
+        data.expires_at || null,
       ]
     );
 
@@ -43,6 +49,32 @@ export class BusinessInviteModel {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
+  // Find invite by its emailed token
+  async findByToken(token: string): Promise<BusinessInvite | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM business_invites WHERE token = $1',
+      [token]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  // Find a pending invite for an email address on a business
+  async findPendingByBusinessAndEmail(
+    businessId: string,
+    email: string
+  ): Promise<BusinessInvite | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM business_invites
+       WHERE business_id = $1 AND LOWER(invited_user_email) = LOWER($2) AND status = 'pending'
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [businessId, email]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
   // Find all invites by business ID
   async findByBusinessId(businessId: string): Promise<BusinessInvite[]> {
     const result = await this.pool.query(
@@ -73,17 +105,17 @@ export class BusinessInviteModel {
     return result.rows;
   }
 
-  // Update invite status
+  // Update invite status (responded_at is stamped once the invite leaves pending)
   async update(
     id: string,
     status: BusinessInviteStatus
   ): Promise<BusinessInvite | null> {
     const result = await this.pool.query(
       `UPDATE business_invites
-       SET status = $1, updated_at = NOW()
-       WHERE id = $2
+       SET status = $1, responded_at = $2, updated_at = NOW()
+       WHERE id = $3
        RETURNING *`,
-      [status, id]
+      [status, status === 'pending' ? null : new Date(), id]
     );
 
     return result.rows.length > 0 ? result.rows[0] : null;
@@ -0,0 +1,88 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { BusinessMember, BusinessMemberRole, BusinessTeamMember } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export class BusinessMemberModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  // Add a member to a business, updating the role if they are already a member
+  async create(data: {
+    business_id: string;
+    user_id: string;
+    role: BusinessMemberRole;
+    invited_by_user_id?: string | null;
+  }): Promise<BusinessMember> {
+    const result = await this.pool.query(
+      `INSERT INTO business_members (id, business_id, user_id, role, invited_by_user_id)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (business_id, user_id)
+       DO UPDATE SET role = EXCLUDED.role, updated_at = NOW()
+       RETURNING *`,
+      [uuidv4(), data.business_id, data.user_id, data.role, data.invited_by_user_id || null]
+    );
+
+    return result.rows[0];
+  }
+
+  // Find a user's membership in a business
+  async findByBusinessAndUser(
+    businessId: string,
+    userId: string
+  ): Promise<BusinessMember | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM business_members WHERE business_id = $1 AND user_id = $2',
+      [businessId, userId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  // Find all members of a business with basic user details
+  async findByBusinessId(businessId: string): Promise<BusinessTeamMember[]> {
+    const result = await this.pool.query(
+      `SELECT bm.*, u.email, up.first_name, up.last_name, up.photo_url
+       FROM business_members bm
+       JOIN users u ON bm.user_id = u.id
+       LEFT JOIN user_profiles up ON up.user_id = bm.user_id
+       WHERE bm.business_id = $1
+       ORDER BY
+         CASE bm.role WHEN 'owner' THEN 0 WHEN 'admin' THEN 1 ELSE 2 END,
+         bm.created_at ASC`,
+      [businessId]
+    );
+
+    return result.rows;
+  }
+
+  // Update a member's role
+  async updateRole(
+    businessId: string,
+    userId: string,
+    role: BusinessMemberRole
+  ): Promise<BusinessMember | null> {
+    const result = await this.pool.query(
+      `UPDATE business_members
+       SET role = $1, updated_at = NOW()
+       WHERE business_id = $2 AND user_id = $3
+       RETURNING *`,
+      [role, businessId, userId]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  // Remove a member from a business
+  async delete(businessId: string, userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM business_members WHERE business_id = $1 AND user_id = $2',
+      [businessId, userId]
+    );
+
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -1,8 +1,61 @@
 import { Pool } from 'pg';
 import pool from '../../config/database';
-import { Conversation, ConversationParticipant, ConversationWithDetails } from '../../types';
+import {
+  Conversation,
+  ConversationDemandListingSummary,
+  ConversationNudge,
+  ConversationParticipant,
+  ConversationParticipantRole,
+  ConversationPropertyListingSummary,
+  ConversationWithDetails,
+} from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 
+const PARTICIPANT_SELECT = `SELECT cp.*, cp.role as participant_role,
+         u.id as user_id, u.email, u.role, u.last_seen_at,
+         up.first_name, up.last_name, up.photo_url
+  FROM conversation_participants cp
+  JOIN users u ON cp.user_id = u.id
+  LEFT JOIN user_profiles up ON u.id = up.user_id`;
+
+const mapParticipantRow = (row: any): ConversationParticipant => ({
+  id: row.id,
+  conversation_id: row.conversation_id,
+  user_id: row.user_id,
+  role: row.participant_role,
+  last_read_at: row.last_read_at,
+  unread_count: row.unread_count,
+  is_muted: row.is_muted,
+  joined_at: row.joined_at,
+  left_at: row.left_at,
+  user: {
+    id: row.user_id,
+    email: row.email,
+    role: row.role,
+    last_seen_at: row.last_seen_at,
+    profile: row.first_name ? {
+      first_name: row.first_name,
+      last_name: row.last_name,
+      photo_url: row.photo_url,
+    } : undefined,
+  },
+});
+
+/**
+ * A participant's unanswered message that is due a follow-up nudge
+ */
+export interface DueConversationNudge {
+  conversation_id: string;
+  user_id: string;
+  nudge_after_days: number;
+  nudge_in_app: boolean;
+  nudge_email: boolean;
+  subject: string | null;
+  message_id: string;
+  message_sent_at: Date;
+  recipient_names: string | null;
+}
+
 export class ConversationModel {
   private pool: Pool;
 
@@ -46,11 +99,17 @@ export class ConversationModel {
       // Add all participants (including creator)
       const allParticipants = [...new Set([data.created_by, ...data.participant_ids])];
 
+      // The creator administers the conversation
       for (const userId of allParticipants) {
         await client.query(
-          `INSERT INTO conversation_participants (id, conversation_id, user_id)
-           VALUES ($1, $2, $3)`,
-          [uuidv4(), conversationId, userId]
+          `INSERT INTO conversation_participants (id, conversation_id, user_id, role)
+           VALUES ($1, $2, $3, $4)`,
+          [
+            uuidv4(),
+            conversationId,
+            userId,
+            userId === data.created_by ? ConversationParticipantRole.ADMIN : ConversationParticipantRole.MEMBER,
+          ]
         );
       }
 
@@ -94,36 +153,12 @@ export class ConversationModel {
 
     // Get participants with user info
     const participantsResult = await this.pool.query(
-      `SELECT cp.*,
-              u.id as user_id, u.email, u.role,
-              up.first_name, up.last_name, up.photo_url
-       FROM conversation_participants cp
-       JOIN users u ON cp.user_id = u.id
-       LEFT JOIN user_profiles up ON u.id = up.user_id
+      `${PARTICIPANT_SELECT}
        WHERE cp.conversation_id = $1 AND cp.left_at IS NULL`,
       [id]
     );
 
-    const participants: ConversationParticipant[] = participantsResult.rows.map((row) => ({
-      id: row.id,
-      conversation_id: row.conversation_id,
-      user_id: row.user_id,
-      last_read_at: row.last_read_at,
-      unread_count: row.unread_count,
-      is_muted: row.is_muted,
-      joined_at: row.joined_at,
-      left_at: row.left_at,
-      user: {
-        id: row.user_id,
-        email: row.email,
-        role: row.role,
-        profile: row.first_name ? {
-          first_name: row.first_name,
-          last_name: row.last_name,
-          photo_url: row.photo_url,
-        } : undefined,
-      },
-    }));
+    const participants: ConversationParticipant[] = participantsResult.rows.map(mapParticipantRow);
 
     // Get last message
     const lastMessageResult = await this.pool.query(
@@ -162,45 +197,123 @@ export class ConversationModel {
       },
     } : null;
 
-    // Get unread count for current user
+    // Get unread count and nudge setting for current user
     const unreadResult = await this.pool.query(
-      `SELECT unread_count FROM conversation_participants
+      `SELECT unread_count, nudge_after_days, nudge_in_app, nudge_email
+       FROM conversation_participants
        WHERE conversation_id = $1 AND user_id = $2`,
       [id, userId]
     );
 
     const unreadCount = unreadResult.rows[0]?.unread_count || 0;
+    const nudge = unreadResult.rows[0]?.nudge_after_days
+      ? {
+          after_days: unreadResult.rows[0].nudge_after_days,
+          in_app: unreadResult.rows[0].nudge_in_app,
+          email: unreadResult.rows[0].nudge_email,
+        }
+      : null;
 
     // Find other participant (for 1-on-1 chats)
     const otherParticipant = participants.find((p) => p.user_id !== userId);
 
+    // Get the listings the conversation is about
+    const [propertyListing, demandListing] = await Promise.all([
+      conversation.property_listing_id
+        ? this.findPropertyListingSummary(conversation.property_listing_id)
+        : null,
+      conversation.demand_listing_id
+        ? this.findDemandListingSummary(conversation.demand_listing_id)
+        : null,
+    ]);
+
     return {
       ...conversation,
       participants,
       lastMessage,
       unreadCount,
       otherParticipant,
+      propertyListing,
+      demandListing,
+      nudge,
     };
   }
 
+  /**
+   * Get the summary shown on a conversation's pinned property listing card
+   */
+  private async findPropertyListingSummary(
+    propertyListingId: string
+  ): Promise<ConversationPropertyListingSummary | null> {
+    const result = await this.pool.query(
+      `SELECT id, user_id, title, property_type, status, address, city, state, sqft,
+              asking_price, price_per_sqft, lease_type,
+              photos->0->>'url' as photo_url
+       FROM property_listings
+       WHERE id = $1`,
+      [propertyListingId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get the summary shown on a conversation's pinned demand listing card
+   */
+  private async findDemandListingSummary(
+    demandListingId: string
+  ): Promise<ConversationDemandListingSummary | null> {
+    const result = await this.pool.query(
+      `SELECT dl.id, dl.business_id, b.name as business_name, dl.title, dl.location_name,
+              dl.city, dl.state, dl.sqft_min, dl.sqft_max, dl.budget_min, dl.budget_max,
+              dl.start_date, dl.status
+       FROM demand_listings dl
+       JOIN businesses b ON dl.business_id = b.id
+       WHERE dl.id = $1`,
+      [demandListingId]
+    );
+
+    return result.rows[0] || null;
+  }
+
   /**
    * Find all conversations for a user
    */
   async findByUserId(
     userId: string,
-    options?: { page?: number; limit?: number }
+    options?: {
+      page?: number;
+      limit?: number;
+      property_listing_id?: string;
+      demand_listing_id?: string;
+    }
   ): Promise<{ conversations: ConversationWithDetails[]; total: number; hasMore: boolean }> {
     const page = options?.page || 1;
     const limit = options?.limit || 20;
     const offset = (page - 1) * limit;
 
+    const conditions = ['cp.user_id = $1', 'cp.left_at IS NULL'];
+    const params: any[] = [userId];
+
+    if (options?.property_listing_id) {
+      params.push(options.property_listing_id);
+      conditions.push(`c.property_listing_id = $${params.length}`);
+    }
+
+    if (options?.demand_listing_id) {
+      params.push(options.demand_listing_id);
+      conditions.push(`c.demand_listing_id = $${params.length}`);
+    }
+
+    const whereClause = conditions.join(' AND ');
+
     // Get total count
     const countResult = await this.pool.query(
       `SELECT COUNT(DISTINCT c.id) as total
        FROM conversations c
        JOIN conversation_participants cp ON c.id = cp.conversation_id
-       WHERE cp.user_id = $1 AND cp.left_at IS NULL`,
-      [userId]
+       WHERE ${whereClause}`,
+      params
     );
     const total = parseInt(countResult.rows[0].total, 10);
 
@@ -209,10 +322,10 @@ export class ConversationModel {
       `SELECT DISTINCT c.*
        FROM conversations c
        JOIN conversation_participants cp ON c.id = cp.conversation_id
-       WHERE cp.user_id = $1 AND cp.left_at IS NULL
+       WHERE ${whereClause}
        ORDER BY c.last_message_at DESC
-       LIMIT $2 OFFSET $3`,
-      [userId, limit, offset]
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
     );
 
     // Get details for each conversation
@@ -256,6 +369,36 @@ export class ConversationModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Find the 1-on-1 conversation two users have about a property listing
+   */
+  async findListingConversation(
+    userId1: string,
+    userId2: string,
+    propertyListingId: string
+  ): Promise<Conversation | null> {
+    const result = await this.pool.query(
+      `SELECT c.* FROM conversations c
+       WHERE c.property_listing_id = $3
+       AND c.id IN (
+         SELECT cp1.conversation_id
+         FROM conversation_participants cp1
+         JOIN conversation_participants cp2 ON cp1.conversation_id = cp2.conversation_id
+         WHERE cp1.user_id = $1 AND cp2.user_id = $2
+           AND cp1.left_at IS NULL AND cp2.left_at IS NULL
+       )
+       AND (
+         SELECT COUNT(*) FROM conversation_participants cp
+         WHERE cp.conversation_id = c.id AND cp.left_at IS NULL
+       ) = 2
+       ORDER BY c.created_at ASC
+       LIMIT 1`,
+      [userId1, userId2, propertyListingId]
+    );
+
+    return result.rows[0] || null;
+  }
+
   /**
    * Get or create a direct conversation between two users
    */
@@ -336,17 +479,81 @@ export class ConversationModel {
 
   /**
    * Add a participant to a conversation
+   * Someone who left earlier rejoins as a member
    */
   async addParticipant(conversationId: string, userId: string): Promise<void> {
     await this.pool.query(
       `INSERT INTO conversation_participants (id, conversation_id, user_id)
        VALUES ($1, $2, $3)
        ON CONFLICT (conversation_id, user_id) DO UPDATE
-       SET left_at = NULL, joined_at = NOW()`,
+       SET left_at = NULL, joined_at = NOW(), role = 'member'`,
       [uuidv4(), conversationId, userId]
     );
   }
 
+  /**
+   * Find an active participant of a conversation
+   */
+  async findParticipant(conversationId: string, userId: string): Promise<ConversationParticipant | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM conversation_participants
+       WHERE conversation_id = $1 AND user_id = $2 AND left_at IS NULL`,
+      [conversationId, userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Change a participant's role
+   */
+  async setParticipantRole(
+    conversationId: string,
+    userId: string,
+    role: ConversationParticipantRole
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE conversation_participants
+       SET role = $3
+       WHERE conversation_id = $1 AND user_id = $2 AND left_at IS NULL`,
+      [conversationId, userId, role]
+    );
+  }
+
+  /**
+   * Make the longest-standing participant an admin when no admin is left
+   */
+  async ensureAdmin(conversationId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE conversation_participants
+       SET role = 'admin'
+       WHERE id = (
+         SELECT id FROM conversation_participants
+         WHERE conversation_id = $1 AND left_at IS NULL
+         ORDER BY joined_at ASC
+         LIMIT 1
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM conversation_participants
+         WHERE conversation_id = $1 AND left_at IS NULL AND role = 'admin'
+       )`,
+      [conversationId]
+    );
+  }
+
+  /**
+   * Rename a conversation
+   */
+  async updateSubject(conversationId: string, subject: string | null): Promise<Conversation | null> {
+    const result = await this.pool.query(
+      `UPDATE conversations
+       SET subject = $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [conversationId, subject]
+    );
+    return result.rows[0] || null;
+  }
+
   /**
    * Remove a participant from a conversation (soft delete)
    */
@@ -359,6 +566,20 @@ export class ConversationModel {
     );
   }
 
+  /**
+   * Find everyone who has taken part in a conversation, including those who
+   * have left, in the order they joined
+   */
+  async findAllParticipants(conversationId: string): Promise<ConversationParticipant[]> {
+    const result = await this.pool.query(
+      `${PARTICIPANT_SELECT}
+       WHERE cp.conversation_id = $1
+       ORDER BY cp.joined_at ASC`,
+      [conversationId]
+    );
+    return result.rows.map(mapParticipantRow);
+  }
+
   /**
    * Check if a user is a participant in a conversation
    */
@@ -371,6 +592,23 @@ export class ConversationModel {
     return result.rows.length > 0;
   }
 
+  /**
+   * Find everyone who shares an active conversation with a user
+   */
+  async findContactIds(userId: string): Promise<string[]> {
+    const result = await this.pool.query(
+      `SELECT DISTINCT other.user_id
+       FROM conversation_participants mine
+       JOIN conversation_participants other
+         ON other.conversation_id = mine.conversation_id
+        AND other.user_id <> mine.user_id
+        AND other.left_at IS NULL
+       WHERE mine.user_id = $1 AND mine.left_at IS NULL`,
+      [userId]
+    );
+    return result.rows.map((row) => row.user_id);
+  }
+
   /**
    * Mute/unmute a conversation for a user
    */
@@ -382,4 +620,68 @@ export class ConversationModel {
       [conversationId, userId, isMuted]
     );
   }
+
+  /**
+   * Set or clear a user's follow-up nudge for a conversation
+   * Changing the setting re-arms the nudge for their latest message
+   */
+  async setNudge(conversationId: string, userId: string, nudge: ConversationNudge | null): Promise<void> {
+    await this.pool.query(
+      `UPDATE conversation_participants
+       SET nudge_after_days = $3, nudge_in_app = $4, nudge_email = $5, nudged_message_id = NULL
+       WHERE conversation_id = $1 AND user_id = $2`,
+      [conversationId, userId, nudge?.after_days ?? null, nudge?.in_app ?? true, nudge?.email ?? false]
+    );
+  }
+
+  /**
+   * Find participants due a follow-up nudge: their own message is the latest
+   * in the conversation, it has gone unanswered for their nudge period, and
+   * they haven't been reminded about it yet
+   */
+  async findDueForNudge(now: Date, limit: number = 100): Promise<DueConversationNudge[]> {
+    const result = await this.pool.query(
+      `SELECT cp.conversation_id, cp.user_id, cp.nudge_after_days, cp.nudge_in_app, cp.nudge_email,
+              c.subject, lm.id AS message_id, lm.created_at AS message_sent_at,
+              (SELECT string_agg(COALESCE(NULLIF(TRIM(CONCAT(up.first_name, ' ', up.last_name)), ''), u.email), ', ')
+               FROM conversation_participants op
+               JOIN users u ON u.id = op.user_id
+               LEFT JOIN user_profiles up ON up.user_id = u.id
+               WHERE op.conversation_id = cp.conversation_id
+                 AND op.user_id <> cp.user_id
+                 AND op.left_at IS NULL) AS recipient_names
+       FROM conversation_participants cp
+       JOIN conversations c ON c.id = cp.conversation_id
+       JOIN LATERAL (
+         SELECT m.id, m.sender_id, m.created_at
+         FROM messages m
+         WHERE m.conversation_id = cp.conversation_id
+           AND m.is_deleted = FALSE
+           AND m.message_type <> 'system'
+         ORDER BY m.created_at DESC
+         LIMIT 1
+       ) lm ON TRUE
+       WHERE cp.nudge_after_days IS NOT NULL
+         AND cp.left_at IS NULL
+         AND lm.sender_id = cp.user_id
+         AND lm.created_at <= $1::timestamptz - cp.nudge_after_days * INTERVAL '1 day'
+         AND cp.nudged_message_id IS DISTINCT FROM lm.id
+       ORDER BY lm.created_at
+       LIMIT $2`,
+      [now, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Record that the user was nudged about their unanswered message
+   */
+  async markNudged(conversationId: string, userId: string, messageId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE conversation_participants
+       SET nudged_message_id = $3
+       WHERE conversation_id = $1 AND user_id = $2`,
+      [conversationId, userId, messageId]
+    );
+  }
 }
@@ -0,0 +1,304 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { Deal, DealStage, DealStageChange, DealWithDetails } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const DETAILS_SELECT = `
+  SELECT d.*,
+         pl.title as property_title, pl.city as property_city,
+         pl.state as property_state, pl.status as property_status,
+         dl.title as demand_listing_title, dl.location_name as demand_listing_location,
+         dl.status as demand_listing_status,
+         b.name as business_name,
+         pm.match_score
+  FROM deals d
+  JOIN property_listings pl ON d.property_listing_id = pl.id
+  JOIN demand_listings dl ON d.demand_listing_id = dl.id
+  JOIN businesses b ON dl.business_id = b.id
+  LEFT JOIN property_matches pm ON d.property_match_id = pm.id
+`;
+
+// Stages that end a deal
+const CLOSED_STAGES = [DealStage.SIGNED, DealStage.LOST];
+
+/**
+ * Deal Model
+ * Pipeline deals between demand listings and property listings
+ */
+export class DealModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Create a deal at the bottom of the Prospect column and record its first stage
+   */
+  async create(data: {
+    user_id: string;
+    demand_listing_id: string;
+    property_listing_id: string;
+    property_match_id?: string | null;
+    notes?: string | null;
+    expected_close_date?: string | null;
+  }): Promise<Deal> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO deals (
+          id, user_id, demand_listing_id, property_listing_id, property_match_id,
+          stage, position, notes, expected_close_date
+        )
+        VALUES (
+          $1, $2, $3, $4, $5, $6,
+          (SELECT COALESCE(MAX(position) + 1, 0) FROM deals WHERE user_id = $2 AND stage = $6),
+          $7, $8
+        )
+        RETURNING *`,
+        [
+          uuidv4(),
+          data.user_id,
+          data.demand_listing_id,
+          data.property_listing_id,
+          data.property_match_id || null,
+          DealStage.PROSPECT,
+          data.notes || null,
+          data.expected_close_date || null,
+        ]
+      );
+
+      const deal: Deal = result.rows[0];
+
+      await client.query(
+        `INSERT INTO deal_stage_history (id, deal_id, from_stage, to_stage, changed_by_user_id)
+         VALUES ($1, $2, NULL, $3, $4)`,
+        [uuidv4(), deal.id, deal.stage, data.user_id]
+      );
+
+      await client.query('COMMIT');
+
+      return deal;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Find deal by ID
+   */
+  async findById(id: string): Promise<Deal | null> {
+    const result = await this.pool.query('SELECT * FROM deals WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find deal by ID with listing details and stage history
+   */
+  async findByIdWithDetails(id: string): Promise<DealWithDetails | null> {
+    const result = await this.pool.query(`${DETAILS_SELECT} WHERE d.id = $1`, [id]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return { ...result.rows[0], stage_history: await this.getStageHistory(id) };
+  }
+
+  /**
+   * Find the user's deal for a demand listing / property listing pair
+   */
+  async findByListings(
+    userId: string,
+    demandListingId: string,
+    propertyListingId: string
+  ): Promise<Deal | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM deals
+       WHERE user_id = $1 AND demand_listing_id = $2 AND property_listing_id = $3`,
+      [userId, demandListingId, propertyListingId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a user's pipeline, ordered by column position
+   */
+  async findByUserId(userId: string, filters: { stage?: DealStage } = {}): Promise<DealWithDetails[]> {
+    const conditions = ['d.user_id = $1'];
+    const values: any[] = [userId];
+
+    if (filters.stage) {
+      values.push(filters.stage);
+      conditions.push(`d.stage = $${values.length}`);
+    }
+
+    const result = await this.pool.query(
+      `${DETAILS_SELECT}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY d.stage, d.position, d.created_at`,
+      values
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a deal's stage changes, oldest first
+   */
+  async getStageHistory(dealId: string): Promise<DealStageChange[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM deal_stage_history WHERE deal_id = $1 ORDER BY created_at ASC',
+      [dealId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Update deal details
+   */
+  async update(
+    id: string,
+    data: Partial<Pick<Deal, 'notes' | 'expected_close_date'>>
+  ): Promise<Deal | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramIndex}`);
+        values.push(value);
+        paramIndex++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push('updated_at = NOW()');
+    values.push(id);
+
+    const result = await this.pool.query(
+      `UPDATE deals SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Move a deal to a stage and position on the board
+   *
+   * Cards at or below the target position shift down to make room. A stage
+   * change is recorded in the history, and moving to Signed marks the
+   * property leased and the demand listing closed, as far as close_listings
+   * allows, in the same transaction.
+   */
+  async moveToStage(
+    id: string,
+    data: {
+      stage: DealStage;
+      position: number;
+      changed_by_user_id: string;
+      note?: string | null;
+      close_listings?: { property: boolean; demand: boolean };
+    }
+  ): Promise<Deal | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const current = await client.query('SELECT * FROM deals WHERE id = $1 FOR UPDATE', [id]);
+      const deal: Deal | undefined = current.rows[0];
+
+      if (!deal) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const stageChanged = deal.stage !== data.stage;
+
+      // Close the gap left in the source column, then open one in the target
+      await client.query(
+        `UPDATE deals SET position = position - 1
+         WHERE user_id = $1 AND stage = $2 AND position > $3 AND id != $4`,
+        [deal.user_id, deal.stage, deal.position, id]
+      );
+      await client.query(
+        `UPDATE deals SET position = position + 1
+         WHERE user_id = $1 AND stage = $2 AND position >= $3 AND id != $4`,
+        [deal.user_id, data.stage, data.position, id]
+      );
+
+      const closedAt = CLOSED_STAGES.includes(data.stage) ? (stageChanged ? 'NOW()' : 'closed_at') : 'NULL';
+      const result = await client.query(
+        `UPDATE deals
+         SET stage = $1, position = $2,
+             stage_changed_at = ${stageChanged ? 'NOW()' : 'stage_changed_at'},
+             closed_at = ${closedAt},
+             updated_at = NOW()
+         WHERE id = $3
+         RETURNING *`,
+        [data.stage, data.position, id]
+      );
+
+      if (stageChanged) {
+        await client.query(
+          `INSERT INTO deal_stage_history (id, deal_id, from_stage, to_stage, changed_by_user_id, note)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [uuidv4(), id, deal.stage, data.stage, data.changed_by_user_id, data.note || null]
+        );
+      }
+
+      if (stageChanged && data.stage === DealStage.SIGNED && data.close_listings?.property) {
+        await client.query(
+          `UPDATE property_listings SET status = 'leased', updated_at = NOW() WHERE id = $1`,
+          [deal.property_listing_id]
+        );
+      }
+      if (stageChanged && data.stage === DealStage.SIGNED && data.close_listings?.demand) {
+        await client.query(
+          `UPDATE demand_listings SET status = 'closed', updated_at = NOW() WHERE id = $1`,
+          [deal.demand_listing_id]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Count deals in a stage of the user's pipeline
+   */
+  async countByStage(userId: string, stage: DealStage): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT COUNT(*) as count FROM deals WHERE user_id = $1 AND stage = $2',
+      [userId, stage]
+    );
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Delete deal
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM deals WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -33,15 +33,18 @@ export class DemandListingModel {
     is_corporate_location?: boolean;
     additional_features?: string[];
     stealth_mode?: boolean;
+    latitude?: number | null;
+    longitude?: number | null;
+    search_radius_miles?: number | null;
   }): Promise<DemandListing> {
     const result = await this.pool.query(
       `INSERT INTO demand_listings (
         id, business_id, title, description, location_name, city, state, address,
         sqft_min, sqft_max, budget_min, budget_max, duration_type, start_date,
         industry, asset_type, requirements, status, lot_size, is_corporate_location,
-        additional_features, stealth_mode
+        additional_features, stealth_mode, latitude, longitude, search_radius_miles
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25)
       RETURNING *`,
       [
         uuidv4(),
@@ -66,6 +69,9 @@ export class DemandListingModel {
         data.is_corporate_location || false,
         JSON.stringify(data.additional_features || []),
         data.stealth_mode || false,
+        data.latitude ?? null,
+        data.longitude ?? null,
+        data.search_radius_miles ?? null,
       ]
     );
 
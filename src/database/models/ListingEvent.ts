@@ -0,0 +1,258 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import {
+  ListingEvent,
+  ListingEventType,
+  ListingTrafficAnalytics,
+  ListingTrafficSource,
+  UserRole,
+} from '../../types';
+
+// The same viewer doing the same thing again within this window is not counted again
+export const EVENT_DEDUPE_WINDOW_MINUTES = 30;
+
+// A signed-in viewer is the same viewer across browsers; anyone else is their session
+const VIEWER_KEY = 'COALESCE(e.viewer_user_id::text, e.session_id)';
+
+/**
+ * ListingEvent Model
+ * Deduplicated views of and clicks on property listings, rolled up into the
+ * daily property_listing_metrics counts by the listing-event-rollup job
+ */
+export class ListingEventModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Record an event unless the same viewer (their account when signed in,
+   * otherwise their session) recorded the same event on the listing within
+   * the dedupe window. A signed-in viewer is attributed to the first business
+   * they own, else one they are a member of; businesses in stealth mode are
+   * never attributed
+   *
+   * @returns The event, or null if it was a duplicate
+   */
+  async record(
+    data: {
+      property_listing_id: string;
+      event_type: ListingEventType;
+      target?: string | null;
+      session_id: string;
+      viewer_user_id?: string | null;
+      viewer_role?: UserRole | null;
+      referrer?: string | null;
+      source: ListingTrafficSource;
+    },
+    dedupeWindowMinutes: number = EVENT_DEDUPE_WINDOW_MINUTES
+  ): Promise<ListingEvent | null> {
+    const result = await this.pool.query(
+      `INSERT INTO listing_events (
+        property_listing_id, event_type, target, session_id,
+        viewer_user_id, viewer_role, viewer_business_id, referrer, source
+      )
+      SELECT $1, $2, $3, $4, $5, $6,
+        (SELECT b.id FROM businesses b
+         WHERE b.stealth_mode_enabled = false
+           AND (b.user_id = $5::uuid OR EXISTS (
+             SELECT 1 FROM business_members bm WHERE bm.business_id = b.id AND bm.user_id = $5::uuid
+           ))
+         ORDER BY (b.user_id = $5::uuid) DESC, b.created_at ASC
+         LIMIT 1),
+        $7, $8
+      WHERE NOT EXISTS (
+        SELECT 1 FROM listing_events e
+        WHERE e.property_listing_id = $1
+          AND e.event_type = $2
+          AND e.target IS NOT DISTINCT FROM $3::varchar
+          AND (e.session_id = $4 OR ($5::uuid IS NOT NULL AND e.viewer_user_id = $5::uuid))
+          AND e.created_at > NOW() - make_interval(mins => $9)
+      )
+      RETURNING *`,
+      [
+        data.property_listing_id,
+        data.event_type,
+        data.target || null,
+        data.session_id,
+        data.viewer_user_id || null,
+        data.viewer_role || null,
+        data.referrer || null,
+        data.source,
+        dedupeWindowMinutes,
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Add a batch of events not yet rolled up to the daily views and clicks in
+   * property_listing_metrics (by UTC day, like incrementMetric), marking them
+   * rolled up in the same statement. Rows locked by another instance are skipped
+   *
+   * @returns Number of events rolled up
+   */
+  async rollupPending(limit: number = 5000): Promise<number> {
+    const result = await this.pool.query(
+      `WITH batch AS (
+        SELECT id FROM listing_events
+        WHERE rolled_up_at IS NULL
+        ORDER BY created_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      ),
+      marked AS (
+        UPDATE listing_events e
+        SET rolled_up_at = NOW()
+        FROM batch
+        WHERE e.id = batch.id
+        RETURNING e.property_listing_id, e.event_type, e.created_at
+      ),
+      totals AS (
+        SELECT property_listing_id,
+               (created_at AT TIME ZONE 'UTC')::date AS metric_date,
+               COUNT(*) FILTER (WHERE event_type = 'view') AS views,
+               COUNT(*) FILTER (WHERE event_type = 'click') AS clicks
+        FROM marked
+        GROUP BY property_listing_id, metric_date
+      ),
+      upserted AS (
+        INSERT INTO property_listing_metrics (id, property_listing_id, metric_date, views_count, clicks_count)
+        SELECT gen_random_uuid(), property_listing_id, metric_date, views, clicks FROM totals
+        ON CONFLICT (property_listing_id, metric_date)
+        DO UPDATE SET
+          views_count = property_listing_metrics.views_count + EXCLUDED.views_count,
+          clicks_count = property_listing_metrics.clicks_count + EXCLUDED.clicks_count,
+          updated_at = NOW()
+        RETURNING 1
+      )
+      SELECT (SELECT COUNT(*) FROM marked) AS count`,
+      [limit]
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Traffic to an owner's listings over the last `days` days, optionally for
+   * one listing. Repeat viewers came back to the same listing after the
+   * dedupe window
+   */
+  async getTrafficAnalytics(
+    ownerId: string,
+    options: { days: number; listingId?: string }
+  ): Promise<ListingTrafficAnalytics> {
+    const scoped = `scoped AS (
+      SELECT e.*, ${VIEWER_KEY} AS viewer_key
+      FROM listing_events e
+      JOIN property_listings p ON p.id = e.property_listing_id
+      WHERE p.user_id = $1
+        AND e.created_at >= NOW() - make_interval(days => $2)
+        AND ($3::uuid IS NULL OR e.property_listing_id = $3::uuid)
+    ),
+    viewers AS (
+      SELECT property_listing_id, viewer_key, COUNT(*) AS views
+      FROM scoped
+      WHERE event_type = 'view'
+      GROUP BY property_listing_id, viewer_key
+    )`;
+    const params = [ownerId, options.days, options.listingId || null];
+
+    const [totals, sources, roles, businesses, daily, listings] = await Promise.all([
+      this.pool.query(
+        `WITH ${scoped}
+         SELECT
+           (SELECT COUNT(*) FROM scoped WHERE event_type = 'view') AS views,
+           (SELECT COUNT(*) FROM scoped WHERE event_type = 'click') AS clicks,
+           (SELECT COUNT(DISTINCT viewer_key) FROM viewers) AS unique_viewers,
+           (SELECT COUNT(DISTINCT viewer_key) FROM viewers WHERE views > 1) AS repeat_viewers`,
+        params
+      ),
+      this.pool.query(
+        `WITH ${scoped}
+         SELECT source, COUNT(*) AS views
+         FROM scoped
+         WHERE event_type = 'view'
+         GROUP BY source
+         ORDER BY views DESC`,
+        params
+      ),
+      this.pool.query(
+        `WITH ${scoped}
+         SELECT COALESCE(viewer_role, 'anonymous') AS role, COUNT(DISTINCT viewer_key) AS viewers
+         FROM scoped
+         WHERE event_type = 'view'
+         GROUP BY role
+         ORDER BY viewers DESC`,
+        params
+      ),
+      // Stealth mode is checked again here in case it was turned on after the visit
+      this.pool.query(
+        `WITH ${scoped}
+         SELECT b.id AS business_id, b.name, COUNT(*) AS views
+         FROM scoped
+         JOIN businesses b ON b.id = scoped.viewer_business_id AND b.stealth_mode_enabled = false
+         WHERE scoped.event_type = 'view'
+         GROUP BY b.id, b.name
+         ORDER BY views DESC
+         LIMIT 10`,
+        params
+      ),
+      this.pool.query(
+        `WITH ${scoped}
+         SELECT to_char((created_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD') AS date,
+                COUNT(*) FILTER (WHERE event_type = 'view') AS views,
+                COUNT(DISTINCT viewer_key) FILTER (WHERE event_type = 'view') AS unique_viewers,
+                COUNT(*) FILTER (WHERE event_type = 'click') AS clicks
+         FROM scoped
+         GROUP BY date
+         ORDER BY date ASC`,
+        params
+      ),
+      this.pool.query(
+        `WITH ${scoped}
+         SELECT p.id AS property_listing_id, p.title,
+                (SELECT COUNT(*) FROM scoped s WHERE s.property_listing_id = p.id AND s.event_type = 'view') AS views,
+                (SELECT COUNT(*) FROM viewers v WHERE v.property_listing_id = p.id) AS unique_viewers,
+                (SELECT COUNT(*) FROM viewers v WHERE v.property_listing_id = p.id AND v.views > 1) AS repeat_viewers,
+                (SELECT COUNT(*) FROM scoped s WHERE s.property_listing_id = p.id AND s.event_type = 'click') AS clicks
+         FROM property_listings p
+         WHERE p.id IN (SELECT property_listing_id FROM scoped)
+         ORDER BY views DESC, p.title ASC`,
+        params
+      ),
+    ]);
+
+    const count = (value: string | number | null) => parseInt(String(value || 0), 10);
+    const row = totals.rows[0] || {};
+
+    return {
+      days: options.days,
+      totals: {
+        views: count(row.views),
+        clicks: count(row.clicks),
+        unique_viewers: count(row.unique_viewers),
+        repeat_viewers: count(row.repeat_viewers),
+      },
+      sources: sources.rows.map((r) => ({ source: r.source, views: count(r.views) })),
+      viewer_roles: roles.rows.map((r) => ({ role: r.role, viewers: count(r.viewers) })),
+      businesses: businesses.rows.map((r) => ({ business_id: r.business_id, name: r.name, views: count(r.views) })),
+      daily: daily.rows.map((r) => ({
+        date: r.date,
+        views: count(r.views),
+        unique_viewers: count(r.unique_viewers),
+        clicks: count(r.clicks),
+      })),
+      listings: listings.rows.map((r) => ({
+        property_listing_id: r.property_listing_id,
+        title: r.title,
+        views: count(r.views),
+        unique_viewers: count(r.unique_viewers),
+        repeat_viewers: count(r.repeat_viewers),
+        clicks: count(r.clicks),
+      })),
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { ListingFeedFormat, ListingImportJob, ListingImportRowError } from '../../types';
+
+// Everything but the uploaded file, which callers never need back
+const JOB_COLUMNS = `id, user_id, format, file_name, dry_run, status, total_rows,
+  created_count, updated_count, skipped_count, errors, error_message,
+  created_at, started_at, completed_at`;
+
+/**
+ * ListingImportJob Model
+ * Bulk listing imports, from upload through their validation and import report
+ */
+export class ListingImportJobModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Queue an import of an uploaded file
+   */
+  async create(data: {
+    user_id: string;
+    format: ListingFeedFormat;
+    file_name?: string | null;
+    dry_run: boolean;
+    payload: string;
+  }): Promise<ListingImportJob> {
+    const result = await this.pool.query(
+      `INSERT INTO listing_import_jobs (user_id, format, file_name, dry_run, payload)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${JOB_COLUMNS}`,
+      [data.user_id, data.format, data.file_name || null, data.dry_run, data.payload]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find one of a user's import jobs
+   */
+  async findByIdForUser(id: string, userId: string): Promise<ListingImportJob | null> {
+    const result = await this.pool.query(
+      `SELECT ${JOB_COLUMNS} FROM listing_import_jobs WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Take a job to process, returning it with its file. A job is available
+   * while pending, or if processing stalled (its server went away) for longer
+   * than staleAfterMinutes. Returns null if another worker has it
+   */
+  async claim(
+    id: string,
+    staleAfterMinutes: number = 15
+  ): Promise<(ListingImportJob & { payload: string }) | null> {
+    const result = await this.pool.query(
+      `UPDATE listing_import_jobs
+       SET status = 'processing', started_at = NOW()
+       WHERE id = $1
+         AND payload IS NOT NULL
+         AND (status = 'pending'
+           OR (status = 'processing' AND started_at < NOW() - make_interval(mins => $2)))
+       RETURNING ${JOB_COLUMNS}, payload`,
+      [id, staleAfterMinutes]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * IDs of jobs waiting to be processed, or stalled, oldest first
+   */
+  async findUnfinishedIds(staleAfterMinutes: number = 15, limit: number = 10): Promise<string[]> {
+    const result = await this.pool.query(
+      `SELECT id FROM listing_import_jobs
+       WHERE status = 'pending'
+          OR (status = 'processing' AND started_at < NOW() - make_interval(mins => $1))
+       ORDER BY created_at ASC
+       LIMIT $2`,
+      [staleAfterMinutes, limit]
+    );
+
+    return result.rows.map((row) => row.id);
+  }
+
+  /**
+   * Record a finished job's report and let go of its file
+   */
+  async complete(
+    id: string,
+    report: {
+      total_rows: number;
+      created_count: number;
+      updated_count: number;
+      skipped_count: number;
+      errors: ListingImportRowError[];
+    }
+  ): Promise<ListingImportJob | null> {
+    const result = await this.pool.query(
+      `UPDATE listing_import_jobs
+       SET status = 'completed', payload = NULL, completed_at = NOW(),
+           total_rows = $2, created_count = $3, updated_count = $4, skipped_count = $5, errors = $6
+       WHERE id = $1
+       RETURNING ${JOB_COLUMNS}`,
+      [
+        id,
+        report.total_rows,
+        report.created_count,
+        report.updated_count,
+        report.skipped_count,
+        JSON.stringify(report.errors),
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Record that a job couldn't be processed at all, such as an unreadable file
+   */
+  async fail(id: string, message: string): Promise<ListingImportJob | null> {
+    const result = await this.pool.query(
+      `UPDATE listing_import_jobs
+       SET status = 'failed', payload = NULL, completed_at = NOW(), error_message = $2
+       WHERE id = $1
+       RETURNING ${JOB_COLUMNS}`,
+      [id, message]
+    );
+
+    return result.rows[0] || null;
+  }
+}
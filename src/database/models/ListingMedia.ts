@@ -0,0 +1,191 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { ListingDocumentVisibility, ListingMedia, ListingMediaKind } from '../../types';
+
+/**
+ * ListingMedia Model
+ * Photos and documents uploaded for property listings
+ */
+export class ListingMediaModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Add a photo or document after the listing's existing ones of that kind.
+   * The first photo becomes the cover
+   */
+  async create(data: {
+    property_listing_id: string;
+    uploaded_by: string;
+    kind: ListingMediaKind;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    storage_key: string;
+    thumbnail_key?: string | null;
+    card_key?: string | null;
+    width?: number | null;
+    height?: number | null;
+    caption?: string | null;
+    visibility?: ListingDocumentVisibility;
+  }): Promise<ListingMedia> {
+    const result = await this.pool.query(
+      `INSERT INTO listing_media (
+        property_listing_id, uploaded_by, kind, file_name, mime_type, size_bytes,
+        storage_key, thumbnail_key, card_key, width, height, caption, visibility,
+        sort_order, is_cover
+      )
+      VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+        (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM listing_media WHERE property_listing_id = $1 AND kind = $3),
+        $3 = 'photo' AND NOT EXISTS (
+          SELECT 1 FROM listing_media WHERE property_listing_id = $1 AND is_cover
+        )
+      )
+      RETURNING *`,
+      [
+        data.property_listing_id,
+        data.uploaded_by,
+        data.kind,
+        data.file_name,
+        data.mime_type,
+        data.size_bytes,
+        data.storage_key,
+        data.thumbnail_key || null,
+        data.card_key || null,
+        data.width || null,
+        data.height || null,
+        data.caption || null,
+        data.visibility || ListingDocumentVisibility.PUBLIC,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  async findById(id: string): Promise<ListingMedia | null> {
+    const result = await this.pool.query('SELECT * FROM listing_media WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * A listing's photos or documents in display order
+   */
+  async findByListingId(listingId: string, kind: ListingMediaKind): Promise<ListingMedia[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM listing_media
+       WHERE property_listing_id = $1 AND kind = $2
+       ORDER BY sort_order ASC, created_at ASC`,
+      [listingId, kind]
+    );
+
+    return result.rows;
+  }
+
+  async countByListingId(listingId: string, kind: ListingMediaKind): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT COUNT(*) FROM listing_media WHERE property_listing_id = $1 AND kind = $2',
+      [listingId, kind]
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Update a photo's caption or a document's name and visibility
+   */
+  async update(
+    id: string,
+    data: { caption?: string | null; file_name?: string; visibility?: ListingDocumentVisibility }
+  ): Promise<ListingMedia | null> {
+    const result = await this.pool.query(
+      `UPDATE listing_media
+       SET caption = CASE WHEN $2 THEN $3 ELSE caption END,
+           file_name = COALESCE($4, file_name),
+           visibility = COALESCE($5, visibility),
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, data.caption !== undefined, data.caption ?? null, data.file_name ?? null, data.visibility ?? null]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Make a photo the listing's cover, in place of the current one
+   */
+  async setCover(listingId: string, mediaId: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      // Cleared first: the one-cover index is checked row by row
+      await client.query(
+        'UPDATE listing_media SET is_cover = false WHERE property_listing_id = $1 AND is_cover',
+        [listingId]
+      );
+      await client.query(
+        `UPDATE listing_media SET is_cover = true, updated_at = NOW()
+         WHERE id = $1 AND property_listing_id = $2 AND kind = 'photo'`,
+        [mediaId, listingId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Put a listing's photos or documents in the given order
+   */
+  async reorder(listingId: string, kind: ListingMediaKind, orderedIds: string[]): Promise<void> {
+    await this.pool.query(
+      `UPDATE listing_media m
+       SET sort_order = o.position - 1, updated_at = NOW()
+       FROM unnest($3::uuid[]) WITH ORDINALITY AS o(id, position)
+       WHERE m.id = o.id AND m.property_listing_id = $1 AND m.kind = $2`,
+      [listingId, kind, orderedIds]
+    );
+  }
+
+  /**
+   * Delete a photo or document. Deleting the cover makes the next photo the cover
+   */
+  async delete(id: string): Promise<ListingMedia | null> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await client.query('DELETE FROM listing_media WHERE id = $1 RETURNING *', [id]);
+      const media: ListingMedia | undefined = result.rows[0];
+
+      if (media?.is_cover) {
+        await client.query(
+          `UPDATE listing_media SET is_cover = true
+           WHERE id = (
+             SELECT id FROM listing_media
+             WHERE property_listing_id = $1 AND kind = 'photo'
+             ORDER BY sort_order ASC, created_at ASC
+             LIMIT 1
+           )`,
+          [media.property_listing_id]
+        );
+      }
+
+      await client.query('COMMIT');
+      return media || null;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { ListingShare, ListingShareChannel } from '../../types';
+
+/**
+ * ListingShare Model
+ * Tracked share links. A user gets one link per listing and channel, so
+ * sharing again reuses the link and its open count
+ */
+export class ListingShareModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Create the user's link for a listing and channel, or return the one they
+   * already have. created is false when the link already existed
+   */
+  async findOrCreate(data: {
+    property_listing_id: string;
+    user_id: string;
+    channel: ListingShareChannel;
+    token: string;
+  }): Promise<{ share: ListingShare; created: boolean }> {
+    const inserted = await this.pool.query(
+      `INSERT INTO listing_shares (property_listing_id, user_id, channel, token)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (property_listing_id, user_id, channel) DO NOTHING
+       RETURNING *`,
+      [data.property_listing_id, data.user_id, data.channel, data.token]
+    );
+
+    if (inserted.rows[0]) {
+      return { share: inserted.rows[0], created: true };
+    }
+
+    const existing = await this.pool.query(
+      `SELECT * FROM listing_shares
+       WHERE property_listing_id = $1 AND user_id = $2 AND channel = $3`,
+      [data.property_listing_id, data.user_id, data.channel]
+    );
+    return { share: existing.rows[0], created: false };
+  }
+
+  /**
+   * Count an open of a share link, returning the link or null for an unknown token
+   */
+  async recordOpen(token: string): Promise<ListingShare | null> {
+    const result = await this.pool.query(
+      `UPDATE listing_shares
+       SET open_count = open_count + 1, last_opened_at = NOW()
+       WHERE token = $1
+       RETURNING *`,
+      [token]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a listing's share links with who created them, most opened first
+   */
+  async findByListingId(propertyListingId: string): Promise<ListingShare[]> {
+    const result = await this.pool.query(
+      `SELECT ls.*, u.email AS sharer_email,
+              up.first_name AS sharer_first_name, up.last_name AS sharer_last_name
+       FROM listing_shares ls
+       JOIN users u ON u.id = ls.user_id
+       LEFT JOIN user_profiles up ON up.user_id = u.id
+       WHERE ls.property_listing_id = $1
+       ORDER BY ls.open_count DESC, ls.created_at DESC`,
+      [propertyListingId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,310 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { MarketInsightsFilters, MarketSnapshotTotals } from '../../types';
+
+type SnapshotFilters = Pick<MarketInsightsFilters, 'state' | 'city' | 'propertyType'>;
+
+/**
+ * Current supply and demand grouped by state, city and property type
+ *
+ * Demand listings carry an asset type rather than a property type; they are
+ * bucketed with the inverse of the matching service's ASSET_TYPE_MAP.
+ * Asking rent per sqft falls back to asking_price / sqft when the listing
+ * has no explicit price_per_sqft.
+ */
+const CURRENT_MARKET_SQL = `
+  WITH supply AS (
+    SELECT
+      UPPER(TRIM(state)) as state,
+      INITCAP(TRIM(city)) as city,
+      property_type::text as property_type,
+      COUNT(*) FILTER (WHERE status = 'active') as active_listings,
+      COUNT(*) FILTER (WHERE status = 'leased') as leased_listings,
+      COUNT(*) as total_listings,
+      COALESCE(SUM(sqft) FILTER (WHERE status = 'active'), 0) as sqft_available,
+      COALESCE(SUM(sqft) FILTER (WHERE status = 'leased'), 0) as sqft_leased,
+      COUNT(*) FILTER (
+        WHERE status = 'active' AND COALESCE(price_per_sqft, asking_price / NULLIF(sqft, 0)) IS NOT NULL
+      ) as priced_listings,
+      ROUND(AVG(COALESCE(price_per_sqft, asking_price / NULLIF(sqft, 0))) FILTER (WHERE status = 'active'), 2)
+        as avg_asking_rent_psf
+    FROM property_listings
+    GROUP BY 1, 2, 3
+  ),
+  demand AS (
+    SELECT
+      UPPER(TRIM(state)) as state,
+      INITCAP(TRIM(city)) as city,
+      CASE asset_type
+        WHEN 'storefront' THEN 'retail'
+        WHEN 'retail' THEN 'retail'
+        WHEN 'restaurant' THEN 'restaurant'
+        WHEN 'office_space' THEN 'office'
+        WHEN 'office' THEN 'office'
+        WHEN 'industrial_space' THEN 'industrial'
+        WHEN 'warehouse' THEN 'warehouse'
+        WHEN 'medical_office' THEN 'medical'
+        WHEN 'flex' THEN 'flex'
+        WHEN 'land' THEN 'land'
+        ELSE 'other'
+      END as property_type,
+      COUNT(*) as demand_listings
+    FROM demand_listings
+    WHERE status = 'active'
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    COALESCE(s.state, d.state) as state,
+    COALESCE(s.city, d.city) as city,
+    COALESCE(s.property_type, d.property_type) as property_type,
+    COALESCE(s.active_listings, 0) as active_listings,
+    COALESCE(s.leased_listings, 0) as leased_listings,
+    COALESCE(s.total_listings, 0) as total_listings,
+    COALESCE(s.sqft_available, 0) as sqft_available,
+    COALESCE(s.sqft_leased, 0) as sqft_leased,
+    COALESCE(s.priced_listings, 0) as priced_listings,
+    s.avg_asking_rent_psf,
+    COALESCE(d.demand_listings, 0) as demand_listings
+  FROM supply s
+  FULL OUTER JOIN demand d
+    ON s.state = d.state AND s.city = d.city AND s.property_type = d.property_type
+`;
+
+// Sums snapshot rows; asking rent is averaged weighted by priced listings
+const TOTALS_SELECT = `
+  COALESCE(SUM(active_listings), 0)::int as active_listings,
+  COALESCE(SUM(leased_listings), 0)::int as leased_listings,
+  COALESCE(SUM(total_listings), 0)::int as total_listings,
+  COALESCE(SUM(sqft_available), 0)::bigint as sqft_available,
+  COALESCE(SUM(sqft_leased), 0)::bigint as sqft_leased,
+  COALESCE(SUM(priced_listings), 0)::int as priced_listings,
+  ROUND(
+    SUM(avg_asking_rent_psf * priced_listings) / NULLIF(SUM(priced_listings), 0),
+    2
+  ) as avg_asking_rent_psf,
+  COALESCE(SUM(demand_listings), 0)::int as demand_listings
+`;
+
+/**
+ * MarketSnapshot Model
+ * Daily market supply/demand snapshots used for market insights trends
+ */
+export class MarketSnapshotModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Record the current market as the snapshot for a date
+   * Re-running for the same date replaces that day's figures.
+   *
+   * @returns Number of snapshot rows written
+   */
+  async capture(snapshotDate: string): Promise<number> {
+    const result = await this.pool.query(
+      `INSERT INTO market_snapshots (
+        snapshot_date, state, city, property_type,
+        active_listings, leased_listings, total_listings,
+        sqft_available, sqft_leased, priced_listings, avg_asking_rent_psf, demand_listings
+      )
+      SELECT $1::date, market.*
+      FROM (${CURRENT_MARKET_SQL}) market
+      ON CONFLICT (snapshot_date, state, city, property_type) DO UPDATE SET
+        active_listings = EXCLUDED.active_listings,
+        leased_listings = EXCLUDED.leased_listings,
+        total_listings = EXCLUDED.total_listings,
+        sqft_available = EXCLUDED.sqft_available,
+        sqft_leased = EXCLUDED.sqft_leased,
+        priced_listings = EXCLUDED.priced_listings,
+        avg_asking_rent_psf = EXCLUDED.avg_asking_rent_psf,
+        demand_listings = EXCLUDED.demand_listings,
+        created_at = NOW()`,
+      [snapshotDate]
+    );
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Whether a snapshot has been recorded for a date
+   */
+  async existsForDate(snapshotDate: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM market_snapshots WHERE snapshot_date = $1 LIMIT 1',
+      [snapshotDate]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Latest snapshot date on or before a date
+   */
+  async findLatestDate(onOrBefore: string): Promise<string | null> {
+    const result = await this.pool.query(
+      `SELECT TO_CHAR(MAX(snapshot_date), 'YYYY-MM-DD') as snapshot_date
+       FROM market_snapshots WHERE snapshot_date <= $1`,
+      [onOrBefore]
+    );
+    return result.rows[0]?.snapshot_date || null;
+  }
+
+  /**
+   * Earliest snapshot date on or after a date
+   */
+  async findEarliestDate(onOrAfter: string): Promise<string | null> {
+    const result = await this.pool.query(
+      `SELECT TO_CHAR(MIN(snapshot_date), 'YYYY-MM-DD') as snapshot_date
+       FROM market_snapshots WHERE snapshot_date >= $1`,
+      [onOrAfter]
+    );
+    return result.rows[0]?.snapshot_date || null;
+  }
+
+  /**
+   * Snapshot totals for a date, summed over the rows matching the filters
+   */
+  async getTotals(snapshotDate: string, filters: SnapshotFilters = {}): Promise<MarketSnapshotTotals> {
+    const { conditions, values } = this.buildFilters(filters, [snapshotDate]);
+
+    const result = await this.pool.query(
+      `SELECT ${TOTALS_SELECT}
+       FROM market_snapshots
+       WHERE snapshot_date = $1 ${conditions}`,
+      values
+    );
+
+    return this.parseTotals(result.rows[0]);
+  }
+
+  /**
+   * Snapshot totals for a date per property type
+   */
+  async getTotalsByType(
+    snapshotDate: string,
+    filters: SnapshotFilters = {}
+  ): Promise<Array<MarketSnapshotTotals & { property_type: string }>> {
+    const { conditions, values } = this.buildFilters(filters, [snapshotDate]);
+
+    const result = await this.pool.query(
+      `SELECT property_type, ${TOTALS_SELECT}
+       FROM market_snapshots
+       WHERE snapshot_date = $1 ${conditions}
+       GROUP BY property_type
+       ORDER BY SUM(total_listings) DESC`,
+      values
+    );
+
+    return result.rows.map((row) => ({ property_type: row.property_type, ...this.parseTotals(row) }));
+  }
+
+  /**
+   * Available and leased sqft per snapshot date and property type in a range
+   */
+  async getSqftSeries(
+    from: string,
+    to: string,
+    filters: SnapshotFilters = {}
+  ): Promise<Array<{ snapshot_date: string; property_type: string; sqft_available: number; sqft_leased: number }>> {
+    const { conditions, values } = this.buildFilters(filters, [from, to]);
+
+    const result = await this.pool.query(
+      `SELECT
+         TO_CHAR(snapshot_date, 'YYYY-MM-DD') as snapshot_date,
+         property_type,
+         COALESCE(SUM(sqft_available), 0)::bigint as sqft_available,
+         COALESCE(SUM(sqft_leased), 0)::bigint as sqft_leased
+       FROM market_snapshots
+       WHERE snapshot_date BETWEEN $1 AND $2 ${conditions}
+       GROUP BY snapshot_date, property_type
+       ORDER BY snapshot_date`,
+      values
+    );
+
+    return result.rows.map((row) => ({
+      snapshot_date: row.snapshot_date,
+      property_type: row.property_type,
+      sqft_available: Number(row.sqft_available),
+      sqft_leased: Number(row.sqft_leased),
+    }));
+  }
+
+  /**
+   * Live market totals, computed the same way as a snapshot
+   * Used before the first snapshot has been recorded.
+   */
+  async getCurrentTotals(filters: SnapshotFilters = {}): Promise<MarketSnapshotTotals> {
+    const { conditions, values } = this.buildFilters(filters, []);
+
+    const result = await this.pool.query(
+      `SELECT ${TOTALS_SELECT}
+       FROM (${CURRENT_MARKET_SQL}) market
+       WHERE TRUE ${conditions}`,
+      values
+    );
+
+    return this.parseTotals(result.rows[0]);
+  }
+
+  /**
+   * Live market totals per property type
+   */
+  async getCurrentTotalsByType(
+    filters: SnapshotFilters = {}
+  ): Promise<Array<MarketSnapshotTotals & { property_type: string }>> {
+    const { conditions, values } = this.buildFilters(filters, []);
+
+    const result = await this.pool.query(
+      `SELECT property_type, ${TOTALS_SELECT}
+       FROM (${CURRENT_MARKET_SQL}) market
+       WHERE TRUE ${conditions}
+       GROUP BY property_type
+       ORDER BY SUM(total_listings) DESC`,
+      values
+    );
+
+    return result.rows.map((row) => ({ property_type: row.property_type, ...this.parseTotals(row) }));
+  }
+
+  /**
+   * Build "AND ..." conditions for the location / type filters
+   */
+  private buildFilters(filters: SnapshotFilters, initialValues: any[]): { conditions: string; values: any[] } {
+    const conditions: string[] = [];
+    const values = [...initialValues];
+
+    if (filters.state) {
+      values.push(filters.state.trim().toUpperCase());
+      conditions.push(`state = $${values.length}`);
+    }
+
+    if (filters.city) {
+      values.push(filters.city.trim());
+      conditions.push(`LOWER(city) = LOWER($${values.length})`);
+    }
+
+    if (filters.propertyType) {
+      values.push(filters.propertyType);
+      conditions.push(`property_type = $${values.length}`);
+    }
+
+    return {
+      conditions: conditions.map((condition) => `AND ${condition}`).join(' '),
+      values,
+    };
+  }
+
+  private parseTotals(row: any): MarketSnapshotTotals {
+    return {
+      active_listings: Number(row?.active_listings || 0),
+      leased_listings: Number(row?.leased_listings || 0),
+      total_listings: Number(row?.total_listings || 0),
+      sqft_available: Number(row?.sqft_available || 0),
+      sqft_leased: Number(row?.sqft_leased || 0),
+      priced_listings: Number(row?.priced_listings || 0),
+      avg_asking_rent_psf: row?.avg_asking_rent_psf != null ? Number(row.avg_asking_rent_psf) : null,
+      demand_listings: Number(row?.demand_listings || 0),
+    };
+  }
+}
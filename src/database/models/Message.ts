@@ -1,8 +1,90 @@
 import { Pool } from 'pg';
 import pool from '../../config/database';
-import { Message, MessageStatus } from '../../types';
+import {
+  ConversationEvent,
+  ListingInquiryCard,
+  Message,
+  MessageAttachment,
+  MessageEdit,
+  MessageReactionSummary,
+  MessageSearchFilters,
+  MessageSearchResult,
+  MessageStatus,
+  MessageType,
+} from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 
+// Columns returned for raw message rows (leaves out the search_vector index column)
+const MESSAGE_COLUMNS = `id, conversation_id, sender_id, content, attachments, status,
+  message_type, metadata, reply_to_message_id, edited_at, is_deleted, deleted_at, created_at, updated_at`;
+
+// Sender, quoted message and reactions for messages selected as "m"
+const MESSAGE_DETAILS_SELECT = `
+  u.id as sender_user_id, u.email as sender_email, u.role as sender_role,
+  up.first_name as sender_first_name, up.last_name as sender_last_name, up.photo_url as sender_photo_url,
+  rm.id as reply_id, rm.sender_id as reply_sender_id, rm.content as reply_content,
+  rm.is_deleted as reply_is_deleted,
+  COALESCE(NULLIF(TRIM(CONCAT(rup.first_name, ' ', rup.last_name)), ''), ru.email) as reply_sender_name,
+  (
+    SELECT COALESCE(json_agg(json_build_object(
+      'emoji', r.emoji, 'count', r.count, 'user_ids', r.user_ids
+    ) ORDER BY r.first_reacted_at), '[]'::json)
+    FROM (
+      SELECT emoji, COUNT(*)::int as count,
+             array_agg(user_id ORDER BY created_at) as user_ids,
+             MIN(created_at) as first_reacted_at
+      FROM message_reactions
+      WHERE message_id = m.id
+      GROUP BY emoji
+    ) r
+  ) as reactions`;
+
+const MESSAGE_DETAILS_JOINS = `
+  JOIN users u ON m.sender_id = u.id
+  LEFT JOIN user_profiles up ON u.id = up.user_id
+  LEFT JOIN messages rm ON m.reply_to_message_id = rm.id
+  LEFT JOIN users ru ON rm.sender_id = ru.id
+  LEFT JOIN user_profiles rup ON ru.id = rup.user_id`;
+
+/**
+ * Map a message row selected with MESSAGE_DETAILS_SELECT
+ * The quoted text of a deleted message is not passed on
+ */
+const mapMessageRow = (row: any): Message => ({
+  id: row.id,
+  conversation_id: row.conversation_id,
+  sender_id: row.sender_id,
+  content: row.content,
+  attachments: row.attachments || [],
+  status: row.status,
+  message_type: row.message_type,
+  metadata: row.metadata || null,
+  reply_to_message_id: row.reply_to_message_id || null,
+  edited_at: row.edited_at || null,
+  is_deleted: row.is_deleted,
+  deleted_at: row.deleted_at,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+  reply_to: row.reply_id ? {
+    id: row.reply_id,
+    sender_id: row.reply_sender_id,
+    sender_name: row.reply_sender_name || 'Unknown User',
+    content: row.reply_is_deleted ? '' : row.reply_content,
+    is_deleted: row.reply_is_deleted,
+  } : null,
+  reactions: row.reactions || [],
+  sender: {
+    id: row.sender_user_id,
+    email: row.sender_email,
+    role: row.sender_role,
+    profile: row.sender_first_name ? {
+      first_name: row.sender_first_name,
+      last_name: row.sender_last_name,
+      photo_url: row.sender_photo_url,
+    } : undefined,
+  },
+});
+
 export class MessageModel {
   private pool: Pool;
 
@@ -17,18 +99,27 @@ export class MessageModel {
     conversation_id: string;
     sender_id: string;
     content: string;
-    attachments?: Array<{ name: string; url: string; type?: string; size?: number }>;
+    attachments?: MessageAttachment[];
+    reply_to_message_id?: string | null;
+    message_type?: MessageType;
+    metadata?: ListingInquiryCard | ConversationEvent | null;
   }): Promise<Message> {
     const result = await this.pool.query(
-      `INSERT INTO messages (id, conversation_id, sender_id, content, attachments)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING *`,
+      `INSERT INTO messages (
+        id, conversation_id, sender_id, content, attachments, reply_to_message_id,
+        message_type, metadata
+      )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${MESSAGE_COLUMNS}`,
       [
         uuidv4(),
         data.conversation_id,
         data.sender_id,
         data.content,
         JSON.stringify(data.attachments || []),
+        data.reply_to_message_id || null,
+        data.message_type || MessageType.TEXT,
+        data.metadata ? JSON.stringify(data.metadata) : null,
       ]
     );
 
@@ -40,7 +131,7 @@ export class MessageModel {
    */
   async findById(id: string): Promise<Message | null> {
     const result = await this.pool.query(
-      'SELECT * FROM messages WHERE id = $1',
+      `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = $1`,
       [id]
     );
     return result.rows[0] || null;
@@ -51,12 +142,9 @@ export class MessageModel {
    */
   async findByIdWithSender(id: string): Promise<Message | null> {
     const result = await this.pool.query(
-      `SELECT m.*,
-              u.id as sender_user_id, u.email as sender_email, u.role as sender_role,
-              up.first_name as sender_first_name, up.last_name as sender_last_name, up.photo_url as sender_photo_url
+      `SELECT m.*, ${MESSAGE_DETAILS_SELECT}
        FROM messages m
-       JOIN users u ON m.sender_id = u.id
-       LEFT JOIN user_profiles up ON u.id = up.user_id
+       ${MESSAGE_DETAILS_JOINS}
        WHERE m.id = $1`,
       [id]
     );
@@ -65,29 +153,7 @@ export class MessageModel {
       return null;
     }
 
-    const row = result.rows[0];
-    return {
-      id: row.id,
-      conversation_id: row.conversation_id,
-      sender_id: row.sender_id,
-      content: row.content,
-      attachments: row.attachments || [],
-      status: row.status,
-      is_deleted: row.is_deleted,
-      deleted_at: row.deleted_at,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      sender: {
-        id: row.sender_user_id,
-        email: row.sender_email,
-        role: row.sender_role,
-        profile: row.sender_first_name ? {
-          first_name: row.sender_first_name,
-          last_name: row.sender_last_name,
-          photo_url: row.sender_photo_url,
-        } : undefined,
-      },
-    };
+    return mapMessageRow(result.rows[0]);
   }
 
   /**
@@ -102,12 +168,9 @@ export class MessageModel {
 
     // Build query
     let query = `
-      SELECT m.*,
-             u.id as sender_user_id, u.email as sender_email, u.role as sender_role,
-             up.first_name as sender_first_name, up.last_name as sender_last_name, up.photo_url as sender_photo_url
+      SELECT m.*, ${MESSAGE_DETAILS_SELECT}
       FROM messages m
-      JOIN users u ON m.sender_id = u.id
-      LEFT JOIN user_profiles up ON u.id = up.user_id
+      ${MESSAGE_DETAILS_JOINS}
       WHERE m.conversation_id = $1 AND m.is_deleted = FALSE
     `;
 
@@ -136,28 +199,7 @@ export class MessageModel {
     const messages = result.rows.slice(0, limit);
 
     // Map results to Message type with sender info
-    const mappedMessages: Message[] = messages.map((row) => ({
-      id: row.id,
-      conversation_id: row.conversation_id,
-      sender_id: row.sender_id,
-      content: row.content,
-      attachments: row.attachments || [],
-      status: row.status,
-      is_deleted: row.is_deleted,
-      deleted_at: row.deleted_at,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      sender: {
-        id: row.sender_user_id,
-        email: row.sender_email,
-        role: row.sender_role,
-        profile: row.sender_first_name ? {
-          first_name: row.sender_first_name,
-          last_name: row.sender_last_name,
-          photo_url: row.sender_photo_url,
-        } : undefined,
-      },
-    }));
+    const mappedMessages: Message[] = messages.map(mapMessageRow);
 
     // Reverse to show oldest first (for chat display)
     return {
@@ -167,6 +209,22 @@ export class MessageModel {
     };
   }
 
+  /**
+   * Find every message in a conversation, oldest first, including deleted
+   * ones so exports keep their place in the record
+   */
+  async findAllByConversationId(conversationId: string): Promise<Message[]> {
+    const result = await this.pool.query(
+      `SELECT m.*, ${MESSAGE_DETAILS_SELECT}
+       FROM messages m
+       ${MESSAGE_DETAILS_JOINS}
+       WHERE m.conversation_id = $1
+       ORDER BY m.created_at ASC`,
+      [conversationId]
+    );
+    return result.rows.map(mapMessageRow);
+  }
+
   /**
    * Update message status
    */
@@ -191,6 +249,85 @@ export class MessageModel {
     );
   }
 
+  /**
+   * Replace a message's content, keeping the previous content in its edit history
+   */
+  async updateContent(id: string, content: string, editedBy: string): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `INSERT INTO message_edits (id, message_id, previous_content, edited_by)
+         SELECT $1, id, content, $3 FROM messages WHERE id = $2`,
+        [uuidv4(), id, editedBy]
+      );
+
+      await client.query(
+        `UPDATE messages
+         SET content = $2, edited_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [id, content]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the edit history of a message, newest first
+   */
+  async getEdits(messageId: string): Promise<MessageEdit[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM message_edits WHERE message_id = $1 ORDER BY edited_at DESC`,
+      [messageId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Add a reaction (no-op if the user already reacted with this emoji)
+   */
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO message_reactions (id, message_id, user_id, emoji)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (message_id, user_id, emoji) DO NOTHING`,
+      [uuidv4(), messageId, userId, emoji]
+    );
+  }
+
+  /**
+   * Remove a user's reaction
+   */
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM message_reactions WHERE message_id = $1 AND user_id = $2 AND emoji = $3`,
+      [messageId, userId, emoji]
+    );
+  }
+
+  /**
+   * Get a message's reactions grouped by emoji, in the order they were first used
+   */
+  async getReactions(messageId: string): Promise<MessageReactionSummary[]> {
+    const result = await this.pool.query(
+      `SELECT emoji, COUNT(*)::int as count, array_agg(user_id ORDER BY created_at) as user_ids
+       FROM message_reactions
+       WHERE message_id = $1
+       GROUP BY emoji
+       ORDER BY MIN(created_at)`,
+      [messageId]
+    );
+    return result.rows;
+  }
+
   /**
    * Get read receipts for a message
    */
@@ -202,6 +339,23 @@ export class MessageModel {
     return result.rows;
   }
 
+  /**
+   * Get read receipts for every message in a conversation
+   */
+  async getConversationReadReceipts(
+    conversationId: string
+  ): Promise<Array<{ message_id: string; user_id: string; read_at: Date }>> {
+    const result = await this.pool.query(
+      `SELECT mrr.message_id, mrr.user_id, mrr.read_at
+       FROM message_read_receipts mrr
+       JOIN messages m ON m.id = mrr.message_id
+       WHERE m.conversation_id = $1
+       ORDER BY mrr.read_at ASC`,
+      [conversationId]
+    );
+    return result.rows;
+  }
+
   /**
    * Check if a message has been read by a user
    */
@@ -244,53 +398,85 @@ export class MessageModel {
   }
 
   /**
-   * Search messages by content
+   * Full-text search over the messages in the user's conversations
+   * Results are ranked by relevance, then newest first. Pass the id of the
+   * last result seen as `after` to fetch the next page.
    */
   async search(
     userId: string,
     searchQuery: string,
-    options?: { limit?: number }
-  ): Promise<Message[]> {
+    options?: MessageSearchFilters & { limit?: number; after?: string }
+  ): Promise<{ messages: MessageSearchResult[]; hasMore: boolean }> {
     const limit = options?.limit || 20;
 
-    const result = await this.pool.query(
-      `SELECT m.*,
-              u.id as sender_user_id, u.email as sender_email, u.role as sender_role,
-              up.first_name as sender_first_name, up.last_name as sender_last_name, up.photo_url as sender_photo_url
-       FROM messages m
-       JOIN users u ON m.sender_id = u.id
-       LEFT JOIN user_profiles up ON u.id = up.user_id
-       JOIN conversation_participants cp ON m.conversation_id = cp.conversation_id
-       WHERE cp.user_id = $1
-         AND cp.left_at IS NULL
-         AND m.is_deleted = FALSE
-         AND m.content ILIKE $2
-       ORDER BY m.created_at DESC
-       LIMIT $3`,
-      [userId, `%${searchQuery}%`, limit]
-    );
+    let query = `
+      WITH search AS (SELECT websearch_to_tsquery('english', $2) AS query)
+      SELECT m.*,
+             ts_rank(m.search_vector, search.query) AS rank,
+             ts_headline('english', m.content, search.query,
+               'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30, MaxFragments=2') AS highlight,
+             u.id as sender_user_id, u.email as sender_email, u.role as sender_role,
+             up.first_name as sender_first_name, up.last_name as sender_last_name, up.photo_url as sender_photo_url
+      FROM messages m
+      CROSS JOIN search
+      JOIN users u ON m.sender_id = u.id
+      LEFT JOIN user_profiles up ON u.id = up.user_id
+      JOIN conversation_participants cp ON m.conversation_id = cp.conversation_id
+      WHERE cp.user_id = $1
+        AND cp.left_at IS NULL
+        AND m.is_deleted = FALSE
+        AND m.search_vector @@ search.query
+    `;
+
+    const params: any[] = [userId, searchQuery];
+
+    if (options?.conversation_id) {
+      params.push(options.conversation_id);
+      query += ` AND m.conversation_id = $${params.length}`;
+    }
+
+    if (options?.sender_id) {
+      params.push(options.sender_id);
+      query += ` AND m.sender_id = $${params.length}`;
+    }
+
+    if (options?.from) {
+      params.push(options.from);
+      query += ` AND m.created_at >= $${params.length}`;
+    }
 
-    return result.rows.map((row) => ({
-      id: row.id,
-      conversation_id: row.conversation_id,
-      sender_id: row.sender_id,
-      content: row.content,
-      attachments: row.attachments || [],
-      status: row.status,
-      is_deleted: row.is_deleted,
-      deleted_at: row.deleted_at,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      sender: {
-        id: row.sender_user_id,
-        email: row.sender_email,
-        role: row.sender_role,
-        profile: row.sender_first_name ? {
-          first_name: row.sender_first_name,
-          last_name: row.sender_last_name,
-          photo_url: row.sender_photo_url,
-        } : undefined,
-      },
+    if (options?.to) {
+      params.push(options.to);
+      query += ` AND m.created_at <= $${params.length}`;
+    }
+
+    if (options?.has_attachment !== undefined) {
+      query += options.has_attachment
+        ? ` AND jsonb_array_length(m.attachments) > 0`
+        : ` AND jsonb_array_length(m.attachments) = 0`;
+    }
+
+    // Resume after the cursor message, recomputing its rank for this query
+    if (options?.after) {
+      params.push(options.after);
+      query += ` AND (ts_rank(m.search_vector, search.query), m.created_at, m.id) < (
+        SELECT ts_rank(c.search_vector, search.query), c.created_at, c.id
+        FROM messages c WHERE c.id = $${params.length}
+      )`;
+    }
+
+    params.push(limit + 1); // Fetch one extra to check hasMore
+    query += ` ORDER BY rank DESC, m.created_at DESC, m.id DESC LIMIT $${params.length}`;
+
+    const result = await this.pool.query(query, params);
+
+    const hasMore = result.rows.length > limit;
+    const messages: MessageSearchResult[] = result.rows.slice(0, limit).map((row) => ({
+      ...mapMessageRow(row),
+      rank: Number(row.rank),
+      highlight: row.highlight,
     }));
+
+    return { messages, hasMore };
   }
 }
@@ -0,0 +1,87 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { MessageAttachmentUpload } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export class MessageAttachmentModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Record an uploaded file; it stays unclaimed until sent with a message
+   */
+  async create(data: {
+    conversation_id: string;
+    uploader_id: string;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    storage_key: string;
+    thumbnail_key?: string | null;
+    preview_key?: string | null;
+  }): Promise<MessageAttachmentUpload> {
+    const result = await this.pool.query(
+      `INSERT INTO message_attachments (
+         id, conversation_id, uploader_id, file_name, mime_type, size_bytes,
+         storage_key, thumbnail_key, preview_key
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        uuidv4(),
+        data.conversation_id,
+        data.uploader_id,
+        data.file_name,
+        data.mime_type,
+        data.size_bytes,
+        data.storage_key,
+        data.thumbnail_key || null,
+        data.preview_key || null,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find attachment by ID
+   */
+  async findById(id: string): Promise<MessageAttachmentUpload | null> {
+    const result = await this.pool.query('SELECT * FROM message_attachments WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the uploader's unclaimed uploads to a conversation among the given IDs
+   */
+  async findUnclaimed(
+    ids: string[],
+    conversationId: string,
+    uploaderId: string
+  ): Promise<MessageAttachmentUpload[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM message_attachments
+       WHERE id = ANY($1::uuid[])
+         AND conversation_id = $2
+         AND uploader_id = $3
+         AND message_id IS NULL
+       ORDER BY created_at ASC`,
+      [ids, conversationId, uploaderId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Attach uploads to the message they were sent with
+   */
+  async claim(ids: string[], messageId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE message_attachments SET message_id = $2
+       WHERE id = ANY($1::uuid[]) AND message_id IS NULL`,
+      [ids, messageId]
+    );
+  }
+}
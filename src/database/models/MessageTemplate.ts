@@ -0,0 +1,120 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { MessageTemplate } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const TEMPLATE_SELECT = `SELECT mt.*, b.name AS business_name
+  FROM message_templates mt
+  LEFT JOIN businesses b ON b.id = mt.business_id`;
+
+/**
+ * MessageTemplate Model
+ * Canned responses owned by a user or shared with a business team
+ */
+export class MessageTemplateModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Create a template
+   */
+  async create(data: {
+    user_id: string;
+    business_id?: string | null;
+    name: string;
+    content: string;
+  }): Promise<MessageTemplate> {
+    const id = uuidv4();
+    await this.pool.query(
+      `INSERT INTO message_templates (id, user_id, business_id, name, content)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, data.user_id, data.business_id || null, data.name, data.content]
+    );
+
+    return (await this.findById(id)) as MessageTemplate;
+  }
+
+  /**
+   * Find template by ID
+   */
+  async findById(id: string): Promise<MessageTemplate | null> {
+    const result = await this.pool.query(`${TEMPLATE_SELECT} WHERE mt.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the user's personal templates and those shared with businesses they
+   * own or are a team member of; personal templates first, then by name
+   */
+  async findAccessibleByUserId(userId: string): Promise<MessageTemplate[]> {
+    const result = await this.pool.query(
+      `${TEMPLATE_SELECT}
+       WHERE (mt.business_id IS NULL AND mt.user_id = $1)
+          OR mt.business_id IN (
+            SELECT ab.id FROM businesses ab
+            LEFT JOIN business_members bm ON bm.business_id = ab.id AND bm.user_id = $1
+            WHERE ab.user_id = $1 OR bm.user_id IS NOT NULL
+          )
+       ORDER BY mt.business_id IS NOT NULL, LOWER(mt.name)`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Count a user's personal templates, or a business's shared templates
+   */
+  async countByOwner(userId: string, businessId: string | null): Promise<number> {
+    const result = businessId
+      ? await this.pool.query('SELECT COUNT(*) AS count FROM message_templates WHERE business_id = $1', [
+          businessId,
+        ])
+      : await this.pool.query(
+          'SELECT COUNT(*) AS count FROM message_templates WHERE user_id = $1 AND business_id IS NULL',
+          [userId]
+        );
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Update a template's name or content
+   */
+  async update(
+    id: string,
+    data: Partial<Pick<MessageTemplate, 'name' | 'content'>>
+  ): Promise<MessageTemplate | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramIndex}`);
+        values.push(value);
+        paramIndex++;
+      }
+    });
+
+    if (fields.length > 0) {
+      fields.push('updated_at = NOW()');
+      values.push(id);
+      await this.pool.query(
+        `UPDATE message_templates SET ${fields.join(', ')} WHERE id = $${paramIndex}`,
+        values
+      );
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Delete a template
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM message_templates WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+}
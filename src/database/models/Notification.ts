@@ -0,0 +1,146 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { InAppNotification, NotificationType } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Notification Model
+ * In-app notification feed for the navigation bell
+ */
+export class NotificationModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Create a notification for a user
+   */
+  async create(data: {
+    user_id: string;
+    type: NotificationType;
+    title: string;
+    body?: string | null;
+    link?: string | null;
+    data?: Record<string, unknown>;
+  }): Promise<InAppNotification> {
+    const result = await this.pool.query(
+      `INSERT INTO notifications (id, user_id, type, title, body, link, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        uuidv4(),
+        data.user_id,
+        data.type,
+        data.title,
+        data.body || null,
+        data.link || null,
+        JSON.stringify(data.data || {}),
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find a user's notifications, newest first
+   * Pass the id of the last notification seen as `before` to page back
+   */
+  async findByUserId(
+    userId: string,
+    options?: { limit?: number; before?: string; unreadOnly?: boolean; archived?: boolean }
+  ): Promise<{ notifications: InAppNotification[]; hasMore: boolean }> {
+    const limit = options?.limit || 20;
+
+    let query = `
+      SELECT * FROM notifications
+      WHERE user_id = $1 AND archived_at IS ${options?.archived ? 'NOT NULL' : 'NULL'}
+    `;
+    const params: any[] = [userId];
+
+    if (options?.unreadOnly) {
+      query += ' AND read_at IS NULL';
+    }
+
+    // id breaks ties so notifications created in the same instant aren't skipped or repeated across pages
+    if (options?.before) {
+      query += ` AND (created_at, id) < (SELECT created_at, id FROM notifications WHERE id = $${params.length + 1})`;
+      params.push(options.before);
+    }
+
+    query += ` ORDER BY created_at DESC, id DESC LIMIT $${params.length + 1}`;
+    params.push(limit + 1); // Fetch one extra to check hasMore
+
+    const result = await this.pool.query(query, params);
+
+    return {
+      notifications: result.rows.slice(0, limit),
+      hasMore: result.rows.length > limit,
+    };
+  }
+
+  /**
+   * Count a user's unread, unarchived notifications
+   */
+  async countUnread(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) as count FROM notifications
+       WHERE user_id = $1 AND read_at IS NULL AND archived_at IS NULL`,
+      [userId]
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Mark a notification read/unread or archived/unarchived
+   * Scoped to the owner; returns null if the notification doesn't belong to the user
+   */
+  async update(
+    id: string,
+    userId: string,
+    data: { read?: boolean; archived?: boolean }
+  ): Promise<InAppNotification | null> {
+    const fields: string[] = [];
+
+    if (data.read !== undefined) {
+      fields.push(data.read ? 'read_at = COALESCE(read_at, NOW())' : 'read_at = NULL');
+    }
+    if (data.archived !== undefined) {
+      fields.push(data.archived ? 'archived_at = COALESCE(archived_at, NOW())' : 'archived_at = NULL');
+    }
+
+    if (fields.length === 0) {
+      const existing = await this.pool.query(
+        'SELECT * FROM notifications WHERE id = $1 AND user_id = $2',
+        [id, userId]
+      );
+      return existing.rows[0] || null;
+    }
+
+    const result = await this.pool.query(
+      `UPDATE notifications SET ${fields.join(', ')}
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [id, userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Mark all of a user's notifications as read
+   *
+   * @returns Number of notifications marked read
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE notifications SET read_at = NOW()
+       WHERE user_id = $1 AND read_at IS NULL`,
+      [userId]
+    );
+
+    return result.rowCount || 0;
+  }
+}
@@ -28,6 +28,7 @@ export interface NotificationPreferences {
   quiet_hours_start: string | null;
   quiet_hours_end: string | null;
   timezone: string;
+  last_digest_sent_at: Date | null;
 
   // Unsubscribe tracking
   unsubscribed_all: boolean;
@@ -211,8 +212,10 @@ export class NotificationPreferencesModel {
         // Always send these critical emails
         return true;
       case EmailType.NEW_MATCH:
+      case EmailType.SAVED_SEARCH_ALERT:
         return preferences.email_new_matches;
       case EmailType.NEW_MESSAGE:
+      case EmailType.MESSAGE_NUDGE:
         return preferences.email_new_messages;
       case EmailType.BUSINESS_INVITE:
         return preferences.email_business_invites;
@@ -227,6 +230,18 @@ export class NotificationPreferencesModel {
     }
   }
 
+  /**
+   * Record that a digest email was just sent to the user
+   */
+  static async markDigestSent(userId: string): Promise<void> {
+    await pool.query(
+      `UPDATE notification_preferences
+       SET last_digest_sent_at = NOW()
+       WHERE user_id = $1`,
+      [userId]
+    );
+  }
+
   /**
    * Unsubscribe user from all marketing emails
    */
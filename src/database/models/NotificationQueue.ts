@@ -0,0 +1,114 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { EmailType } from '../../services/email/EmailService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Email types that can be deferred into a digest
+ */
+export type DigestibleEmailType =
+  | EmailType.NEW_MESSAGE
+  | EmailType.NEW_MATCH
+  | EmailType.BUSINESS_INVITE;
+
+/**
+ * Payloads stored for each deferred email type
+ */
+export interface NewMessageQueuePayload {
+  conversation_id: string;
+  sender_name: string;
+  message_preview: string;
+}
+
+export interface NewMatchQueuePayload {
+  match_count: number;
+  top_match_title: string;
+  top_match_score: number;
+  top_match_location: string;
+}
+
+export interface BusinessInviteQueuePayload {
+  inviter_name: string;
+  business_name: string;
+  role: string;
+  invite_token: string;
+}
+
+/**
+ * Notification Queue Interface
+ */
+export interface QueuedNotification {
+  id: string;
+  user_id: string;
+  email_type: DigestibleEmailType;
+  payload: NewMessageQueuePayload | NewMatchQueuePayload | BusinessInviteQueuePayload;
+  created_at: Date;
+  sent_at: Date | null;
+}
+
+/**
+ * NotificationQueue Model
+ * Email notifications waiting to be sent as part of a digest
+ */
+export class NotificationQueueModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Queue a notification for a user's next digest
+   */
+  async enqueue(
+    userId: string,
+    emailType: DigestibleEmailType,
+    payload: QueuedNotification['payload']
+  ): Promise<QueuedNotification> {
+    const result = await this.pool.query(
+      `INSERT INTO notification_queue (id, user_id, email_type, payload)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [uuidv4(), userId, emailType, JSON.stringify(payload)]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find users that have notifications waiting
+   */
+  async findUserIdsWithPending(): Promise<string[]> {
+    const result = await this.pool.query<{ user_id: string }>(
+      'SELECT DISTINCT user_id FROM notification_queue WHERE sent_at IS NULL'
+    );
+
+    return result.rows.map((row) => row.user_id);
+  }
+
+  /**
+   * Find a user's waiting notifications, oldest first
+   */
+  async findPendingByUserId(userId: string): Promise<QueuedNotification[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM notification_queue
+       WHERE user_id = $1 AND sent_at IS NULL
+       ORDER BY created_at ASC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Mark notifications as sent
+   */
+  async markSent(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.pool.query(
+      'UPDATE notification_queue SET sent_at = NOW() WHERE id = ANY($1::uuid[])',
+      [ids]
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { FavoritePropertyListing } from '../../types';
+
+/**
+ * PropertyFavorite Model
+ * Listings users have saved; each user can save a listing once
+ */
+export class PropertyFavoriteModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Save a listing. Returns false if the user had already saved it
+   */
+  async add(userId: string, propertyListingId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO property_favorites (user_id, property_listing_id)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id, property_listing_id) DO NOTHING`,
+      [userId, propertyListingId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Unsave a listing. Returns when it had been saved, or null if it wasn't
+   */
+  async remove(userId: string, propertyListingId: string): Promise<Date | null> {
+    const result = await this.pool.query(
+      `DELETE FROM property_favorites
+       WHERE user_id = $1 AND property_listing_id = $2
+       RETURNING created_at`,
+      [userId, propertyListingId]
+    );
+    return result.rows[0]?.created_at || null;
+  }
+
+  async exists(userId: string, propertyListingId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM property_favorites WHERE user_id = $1 AND property_listing_id = $2',
+      [userId, propertyListingId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Find the listings a user has saved, most recently saved first
+   */
+  async findByUserId(
+    userId: string,
+    options: { page: number; limit: number }
+  ): Promise<{ listings: FavoritePropertyListing[]; total: number; hasMore: boolean }> {
+    const offset = (options.page - 1) * options.limit;
+
+    const [listingsResult, countResult] = await Promise.all([
+      this.pool.query(
+        `SELECT pl.*, pf.created_at AS favorited_at
+         FROM property_favorites pf
+         JOIN property_listings pl ON pl.id = pf.property_listing_id
+         WHERE pf.user_id = $1
+         ORDER BY pf.created_at DESC
+         LIMIT $2 OFFSET $3`,
+        [userId, options.limit, offset]
+      ),
+      this.pool.query('SELECT COUNT(*) AS count FROM property_favorites WHERE user_id = $1', [userId]),
+    ]);
+
+    const total = parseInt(countResult.rows[0].count, 10);
+    return {
+      listings: listingsResult.rows,
+      total,
+      hasMore: offset + listingsResult.rows.length < total,
+    };
+  }
+
+  /**
+   * Count the people who currently have a listing saved
+   */
+  async countByListingId(propertyListingId: string): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT COUNT(*) AS count FROM property_favorites WHERE property_listing_id = $1',
+      [propertyListingId]
+    );
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Count the distinct people who currently have any of an owner's listings saved
+   */
+  async countUniqueByOwnerId(ownerId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(DISTINCT pf.user_id) AS count
+       FROM property_favorites pf
+       JOIN property_listings pl ON pl.id = pf.property_listing_id
+       WHERE pl.user_id = $1`,
+      [ownerId]
+    );
+    return parseInt(result.rows[0].count, 10);
+  }
+}
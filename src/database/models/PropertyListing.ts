@@ -1,7 +1,29 @@
 import { Pool } from 'pg';
 import pool from '../../config/database';
-import { PropertyListing, PropertyListingStatus, PropertyType } from '../../types';
+import {
+  GeoBounds,
+  PropertyListing,
+  PropertyListingDocument,
+  PropertyListingPhoto,
+  PropertyListingStatus,
+  PropertySearchSort,
+  PropertyType,
+} from '../../types';
 import { v4 as uuidv4 } from 'uuid';
+import { EARTH_RADIUS_MILES } from '../../services/geo/GeocodingService';
+
+// Must match the expression indexed by idx_property_listings_location
+const LOCATION_POINT = 'point(longitude::float8, latitude::float8)';
+
+/**
+ * Haversine distance in miles from ($latParam, $lngParam) to each listing
+ */
+const distanceSql = (latParam: number, lngParam: number): string => `
+  ${EARTH_RADIUS_MILES} * 2 * ASIN(SQRT(LEAST(1,
+    POWER(SIN(RADIANS(latitude::float8 - $${latParam}::float8) / 2), 2)
+    + COS(RADIANS($${latParam}::float8)) * COS(RADIANS(latitude::float8))
+    * POWER(SIN(RADIANS(longitude::float8 - $${lngParam}::float8) / 2), 2)
+  )))`;
 
 export class PropertyListingModel {
   private pool: Pool;
@@ -15,6 +37,7 @@ export class PropertyListingModel {
    */
   async create(data: {
     user_id: string;
+    external_id?: string | null;
     title: string;
     description?: string | null;
     property_type: PropertyType;
@@ -38,9 +61,9 @@ export class PropertyListingModel {
     max_lease_term?: string | null;
     amenities?: string[];
     highlights?: string[];
-    photos?: Array<{ url: string; caption?: string; order?: number }>;
+    photos?: PropertyListingPhoto[];
     virtual_tour_url?: string | null;
-    documents?: Array<{ name: string; url: string; type?: string; size?: number }>;
+    documents?: PropertyListingDocument[];
     contact_name?: string | null;
     contact_email?: string | null;
     contact_phone?: string | null;
@@ -56,9 +79,9 @@ export class PropertyListingModel {
         available_date, min_lease_term, max_lease_term,
         amenities, highlights, photos, virtual_tour_url, documents,
         contact_name, contact_email, contact_phone,
-        is_featured, is_verified
+        is_featured, is_verified, external_id
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34)
       RETURNING *`,
       [
         uuidv4(),
@@ -94,6 +117,7 @@ export class PropertyListingModel {
         data.contact_phone || null,
         data.is_featured || false,
         data.is_verified || false,
+        data.external_id || null,
       ]
     );
 
@@ -112,6 +136,24 @@ export class PropertyListingModel {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
+  /**
+   * Find a user's listings with any of the given external IDs or listing IDs,
+   * for matching the rows of an import to existing listings
+   */
+  async findForImport(userId: string, externalIds: string[], ids: string[]): Promise<PropertyListing[]> {
+    if (externalIds.length === 0 && ids.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT * FROM property_listings
+       WHERE user_id = $1 AND (external_id = ANY($2::text[]) OR id = ANY($3::uuid[]))`,
+      [userId, externalIds, ids]
+    );
+
+    return result.rows;
+  }
+
   /**
    * Find property listings by user ID
    */
@@ -211,6 +253,13 @@ export class PropertyListingModel {
     maxPrice?: number;
     amenities?: string[];
     search?: string;
+    // Geo filters. bounds alone is a map viewport; near + radiusMiles is a
+    // radius search and must come with bounds covering the radius, which
+    // lets the spatial index do the first pass.
+    near?: { latitude: number; longitude: number };
+    radiusMiles?: number;
+    bounds?: GeoBounds;
+    sort?: PropertySearchSort;
     limit?: number;
     offset?: number;
   }): Promise<{ listings: PropertyListing[]; total: number }> {
@@ -303,8 +352,46 @@ export class PropertyListingModel {
       paramIndex++;
     }
 
-    // Ordering - featured first, then by date
-    query += ` ORDER BY is_featured DESC, created_at DESC`;
+    // Bounding box (served by the GiST index on the listing's point)
+    if (filters.bounds) {
+      const { south, west, north, east } = filters.bounds;
+      const condition = ` AND latitude IS NOT NULL AND longitude IS NOT NULL
+        AND ${LOCATION_POINT} <@ box(
+          point($${paramIndex}::float8, $${paramIndex + 1}::float8),
+          point($${paramIndex + 2}::float8, $${paramIndex + 3}::float8)
+        )`;
+      query += condition;
+      countQuery += condition;
+      params.push(west, south, east, north);
+      paramIndex += 4;
+    }
+
+    // Radius: the exact distance check on what the bounding box let through
+    if (filters.near && filters.radiusMiles) {
+      const condition = ` AND ${distanceSql(paramIndex, paramIndex + 1)} <= $${paramIndex + 2}::float8`;
+      query += condition;
+      countQuery += condition;
+      params.push(filters.near.latitude, filters.near.longitude, filters.radiusMiles);
+      paramIndex += 3;
+    }
+
+    // Everything after this point is only referenced by the listings query
+    const countParams = [...params];
+
+    if (filters.near) {
+      query = query.replace(
+        'SELECT *',
+        `SELECT *, ${distanceSql(paramIndex, paramIndex + 1)} AS distance_miles`
+      );
+      params.push(filters.near.latitude, filters.near.longitude);
+      paramIndex += 2;
+    }
+
+    // Ordering - nearest first when asked, otherwise featured first, then by date
+    query +=
+      filters.sort === 'distance' && filters.near
+        ? ` ORDER BY distance_miles ASC NULLS LAST, is_featured DESC, created_at DESC`
+        : ` ORDER BY is_featured DESC, created_at DESC`;
 
     // Pagination
     const limit = filters.limit || 20;
@@ -315,7 +402,7 @@ export class PropertyListingModel {
     // Execute queries
     const [listingsResult, countResult] = await Promise.all([
       this.pool.query(query, params),
-      this.pool.query(countQuery, params.slice(0, -2)),
+      this.pool.query(countQuery, countParams),
     ]);
 
     return {
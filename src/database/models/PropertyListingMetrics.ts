@@ -80,6 +80,25 @@ export class PropertyListingMetricsModel {
     return result.rows[0];
   }
 
+  /**
+   * Take one back off a metric for the given day, such as a favorite that was
+   * since removed. Never goes below zero
+   */
+  async decrementMetric(
+    propertyListingId: string,
+    metric: 'favorites' | 'shares',
+    date: Date
+  ): Promise<void> {
+    const metricColumn = `${metric}_count`;
+
+    await this.pool.query(
+      `UPDATE property_listing_metrics
+       SET ${metricColumn} = GREATEST(${metricColumn} - 1, 0), updated_at = NOW()
+       WHERE property_listing_id = $1 AND metric_date = $2`,
+      [propertyListingId, date.toISOString().split('T')[0]]
+    );
+  }
+
   /**
    * Find metrics by property listing ID
    */
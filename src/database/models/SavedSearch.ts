@@ -0,0 +1,145 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { PropertyListing, SavedSearch, SavedSearchFilters } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * SavedSearch Model
+ * Named property search filter sets with new-listing alerts
+ */
+export class SavedSearchModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Create a saved search
+   */
+  async create(data: {
+    user_id: string;
+    name: string;
+    filters: SavedSearchFilters;
+    alert_in_app?: boolean;
+    alert_email?: boolean;
+  }): Promise<SavedSearch> {
+    const result = await this.pool.query(
+      `INSERT INTO saved_searches (id, user_id, name, filters, alert_in_app, alert_email)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        uuidv4(),
+        data.user_id,
+        data.name,
+        JSON.stringify(data.filters),
+        data.alert_in_app ?? true,
+        data.alert_email ?? true,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find saved search by ID
+   */
+  async findById(id: string): Promise<SavedSearch | null> {
+    const result = await this.pool.query('SELECT * FROM saved_searches WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a user's saved searches, newest first
+   */
+  async findByUserId(userId: string): Promise<SavedSearch[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM saved_searches WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Update a saved search
+   */
+  async update(
+    id: string,
+    data: Partial<Pick<SavedSearch, 'name' | 'filters' | 'alert_in_app' | 'alert_email'>>
+  ): Promise<SavedSearch | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramIndex}`);
+        values.push(key === 'filters' ? JSON.stringify(value) : value);
+        paramIndex++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push('updated_at = NOW()');
+    values.push(id);
+
+    const result = await this.pool.query(
+      `UPDATE saved_searches SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM saved_searches WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Find alerting searches that could match a listing
+   * Narrows by the exact-match filters (state, property type) in SQL; the
+   * remaining filters are checked by the caller. Excludes the listing owner.
+   */
+  async findAlertCandidates(listing: PropertyListing): Promise<SavedSearch[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM saved_searches
+       WHERE (alert_in_app = TRUE OR alert_email = TRUE)
+         AND user_id != $1
+         AND (filters->>'state' IS NULL OR filters->>'state' = $2)
+         AND (filters->>'property_type' IS NULL OR filters->>'property_type' = $3)`,
+      [listing.user_id, listing.state, listing.property_type]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Record that a search alerted on a listing
+   *
+   * @returns false if the search already alerted on this listing
+   */
+  async recordAlert(savedSearchId: string, propertyListingId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO saved_search_alerts (saved_search_id, property_listing_id)
+       VALUES ($1, $2)
+       ON CONFLICT DO NOTHING`,
+      [savedSearchId, propertyListingId]
+    );
+
+    if (!result.rowCount) {
+      return false;
+    }
+
+    await this.pool.query(
+      'UPDATE saved_searches SET last_alerted_at = NOW() WHERE id = $1',
+      [savedSearchId]
+    );
+    return true;
+  }
+}
@@ -0,0 +1,132 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { ScheduledMessage, ScheduledMessageStatus } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * ScheduledMessage Model
+ * Messages queued by their sender for delivery at a later time
+ */
+export class ScheduledMessageModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Queue a message for delivery
+   */
+  async create(data: {
+    conversation_id: string;
+    sender_id: string;
+    content: string;
+    attachment_ids: string[];
+    reply_to_message_id: string | null;
+    send_at: Date;
+  }): Promise<ScheduledMessage> {
+    const result = await this.pool.query(
+      `INSERT INTO scheduled_messages (
+        id, conversation_id, sender_id, content, attachment_ids, reply_to_message_id, send_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        uuidv4(),
+        data.conversation_id,
+        data.sender_id,
+        data.content,
+        data.attachment_ids,
+        data.reply_to_message_id,
+        data.send_at,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Find scheduled message by ID
+   */
+  async findById(id: string): Promise<ScheduledMessage | null> {
+    const result = await this.pool.query('SELECT * FROM scheduled_messages WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a sender's pending messages in a conversation, soonest first
+   */
+  async findPendingBySender(conversationId: string, senderId: string): Promise<ScheduledMessage[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM scheduled_messages
+       WHERE conversation_id = $1 AND sender_id = $2 AND status = 'pending'
+       ORDER BY send_at ASC`,
+      [conversationId, senderId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Count a sender's pending messages in a conversation
+   */
+  async countPendingBySender(conversationId: string, senderId: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS count FROM scheduled_messages
+       WHERE conversation_id = $1 AND sender_id = $2 AND status = 'pending'`,
+      [conversationId, senderId]
+    );
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Find pending messages whose send time has arrived, oldest first
+   */
+  async findDue(now: Date, limit: number = 100): Promise<ScheduledMessage[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM scheduled_messages
+       WHERE status = 'pending' AND send_at <= $1
+       ORDER BY send_at ASC
+       LIMIT $2`,
+      [now, limit]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Cancel a pending message
+   *
+   * @returns false if the message was no longer pending
+   */
+  async cancel(id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE scheduled_messages
+       SET status = $2, updated_at = NOW()
+       WHERE id = $1 AND status = 'pending'`,
+      [id, ScheduledMessageStatus.CANCELLED]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Record that a scheduled message was delivered as messageId
+   */
+  async markSent(id: string, messageId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE scheduled_messages
+       SET status = $2, message_id = $3, updated_at = NOW()
+       WHERE id = $1`,
+      [id, ScheduledMessageStatus.SENT, messageId]
+    );
+  }
+
+  /**
+   * Record why a scheduled message could not be delivered
+   */
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE scheduled_messages
+       SET status = $2, error = $3, updated_at = NOW()
+       WHERE id = $1`,
+      [id, ScheduledMessageStatus.FAILED, error]
+    );
+  }
+}
@@ -0,0 +1,196 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { Tour, TourStatus, TourTimeSlot, TourWithDetails } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const DETAILS_SELECT = `
+  SELECT t.*,
+         pl.title as property_title, pl.address as property_address,
+         pl.city as property_city, pl.state as property_state,
+         tu.email as tenant_email,
+         NULLIF(TRIM(CONCAT(tp.first_name, ' ', tp.last_name)), '') as tenant_name,
+         lu.email as landlord_email,
+         NULLIF(TRIM(CONCAT(lp.first_name, ' ', lp.last_name)), '') as landlord_name
+  FROM tours t
+  JOIN property_listings pl ON t.property_listing_id = pl.id
+  JOIN users tu ON t.tenant_user_id = tu.id
+  LEFT JOIN user_profiles tp ON tp.user_id = t.tenant_user_id
+  JOIN users lu ON t.landlord_user_id = lu.id
+  LEFT JOIN user_profiles lp ON lp.user_id = t.landlord_user_id
+`;
+
+export class TourModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Create a new tour request
+   */
+  async create(data: {
+    property_listing_id: string;
+    tenant_user_id: string;
+    landlord_user_id: string;
+    conversation_id?: string | null;
+    proposed_slots?: TourTimeSlot[];
+    duration_minutes?: number;
+    notes?: string | null;
+  }): Promise<Tour> {
+    const result = await this.pool.query(
+      `INSERT INTO tours (
+        id, property_listing_id, tenant_user_id, landlord_user_id,
+        conversation_id, proposed_slots, duration_minutes, notes
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *`,
+      [
+        uuidv4(),
+        data.property_listing_id,
+        data.tenant_user_id,
+        data.landlord_user_id,
+        data.conversation_id || null,
+        JSON.stringify(data.proposed_slots || []),
+        data.duration_minutes || 60,
+        data.notes || null,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Find tour by ID
+   */
+  async findById(id: string): Promise<Tour | null> {
+    const result = await this.pool.query('SELECT * FROM tours WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find tour by ID with property and participant details
+   */
+  async findByIdWithDetails(id: string): Promise<TourWithDetails | null> {
+    const result = await this.pool.query(`${DETAILS_SELECT} WHERE t.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find tours where the user is the tenant or the landlord
+   */
+  async findByUserId(
+    userId: string,
+    filters: { status?: TourStatus; upcoming?: boolean } = {}
+  ): Promise<TourWithDetails[]> {
+    const conditions = ['(t.tenant_user_id = $1 OR t.landlord_user_id = $1)'];
+    const values: any[] = [userId];
+
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`t.status = $${values.length}`);
+    }
+
+    if (filters.upcoming) {
+      conditions.push(`(t.scheduled_at IS NULL OR t.scheduled_at >= NOW())`);
+    }
+
+    const result = await this.pool.query(
+      `${DETAILS_SELECT}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY t.scheduled_at ASC NULLS LAST, t.created_at DESC`,
+      values
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Update tour fields
+   */
+  async update(
+    id: string,
+    data: Partial<
+      Pick<
+        Tour,
+        | 'status'
+        | 'proposed_slots'
+        | 'scheduled_at'
+        | 'duration_minutes'
+        | 'notes'
+        | 'cancelled_by_user_id'
+        | 'cancellation_reason'
+        | 'reminder_sent_at'
+        | 'conversation_id'
+      >
+    >
+  ): Promise<Tour | null> {
+    const fields: string[] = [];
+    const values: any[] = [];
+    let paramIndex = 1;
+
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        fields.push(`${key} = $${paramIndex}`);
+        values.push(key === 'proposed_slots' ? JSON.stringify(value) : value);
+        paramIndex++;
+      }
+    });
+
+    if (fields.length === 0) {
+      return this.findById(id);
+    }
+
+    fields.push('updated_at = NOW()');
+    values.push(id);
+
+    const result = await this.pool.query(
+      `UPDATE tours SET ${fields.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find confirmed tours starting within a window that have not had a reminder
+   */
+  async findDueForReminder(from: Date, to: Date): Promise<TourWithDetails[]> {
+    const result = await this.pool.query(
+      `${DETAILS_SELECT}
+       WHERE t.status = 'confirmed'
+         AND t.reminder_sent_at IS NULL
+         AND t.scheduled_at > $1
+         AND t.scheduled_at <= $2
+       ORDER BY t.scheduled_at ASC`,
+      [from, to]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Record that the reminder for a tour has been sent
+   */
+  async markReminderSent(id: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE tours SET reminder_sent_at = NOW(), updated_at = NOW() WHERE id = $1',
+      [id]
+    );
+  }
+
+  /**
+   * Mark confirmed tours whose time has passed as completed
+   */
+  async completePastTours(before: Date): Promise<number> {
+    const result = await this.pool.query(
+      `UPDATE tours
+       SET status = 'completed', updated_at = NOW()
+       WHERE status = 'confirmed'
+         AND scheduled_at + (duration_minutes * INTERVAL '1 minute') < $1`,
+      [before]
+    );
+
+    return result.rowCount || 0;
+  }
+}
@@ -100,6 +100,16 @@ export class UserModel {
     );
   }
 
+  // Record when the user was last connected, never moving it backwards
+  async updateLastSeen(id: string, seenAt: Date): Promise<void> {
+    await this.pool.query(
+      `UPDATE users
+       SET last_seen_at = GREATEST(COALESCE(last_seen_at, $2), $2)
+       WHERE id = $1`,
+      [id, seenAt]
+    );
+  }
+
   // Set email verification token
   async setEmailVerificationToken(
     id: string,
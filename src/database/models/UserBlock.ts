@@ -0,0 +1,97 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { BlockedUser } from '../../types';
+
+/**
+ * UserBlock Model
+ * Users who have blocked each other. Blocks are checked in both directions
+ */
+export class UserBlockModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Block a user; blocking someone already blocked is a no-op
+   */
+  async block(blockerId: string, blockedId: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO user_blocks (blocker_id, blocked_id)
+       VALUES ($1, $2)
+       ON CONFLICT (blocker_id, blocked_id) DO NOTHING`,
+      [blockerId, blockedId]
+    );
+  }
+
+  /**
+   * Remove a block
+   */
+  async unblock(blockerId: string, blockedId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM user_blocks WHERE blocker_id = $1 AND blocked_id = $2',
+      [blockerId, blockedId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Find the users someone has blocked, most recent first
+   */
+  async findByBlockerId(blockerId: string): Promise<BlockedUser[]> {
+    const result = await this.pool.query(
+      `SELECT ub.blocked_id AS user_id, ub.created_at AS blocked_at,
+              u.email, up.first_name, up.last_name, up.photo_url
+       FROM user_blocks ub
+       JOIN users u ON u.id = ub.blocked_id
+       LEFT JOIN user_profiles up ON up.user_id = u.id
+       WHERE ub.blocker_id = $1
+       ORDER BY ub.created_at DESC`,
+      [blockerId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Of the given users, find those with a block either way between them and userId
+   */
+  async findBlockedBetween(userId: string, otherUserIds: string[]): Promise<string[]> {
+    if (otherUserIds.length === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT DISTINCT CASE WHEN blocker_id = $1 THEN blocked_id ELSE blocker_id END AS user_id
+       FROM user_blocks
+       WHERE (blocker_id = $1 AND blocked_id = ANY($2::uuid[]))
+          OR (blocked_id = $1 AND blocker_id = ANY($2::uuid[]))`,
+      [userId, otherUserIds]
+    );
+    return result.rows.map((row) => row.user_id);
+  }
+
+  /**
+   * Check if a conversation is just the user and one other person, with a
+   * block either way between them
+   */
+  async isBlockedInDirectConversation(conversationId: string, userId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT 1
+       FROM conversation_participants other
+       JOIN user_blocks ub
+         ON (ub.blocker_id = $2 AND ub.blocked_id = other.user_id)
+         OR (ub.blocker_id = other.user_id AND ub.blocked_id = $2)
+       WHERE other.conversation_id = $1
+         AND other.user_id <> $2
+         AND other.left_at IS NULL
+         AND (
+           SELECT COUNT(*) FROM conversation_participants cp
+           WHERE cp.conversation_id = $1 AND cp.left_at IS NULL
+         ) = 2
+       LIMIT 1`,
+      [conversationId, userId]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+}
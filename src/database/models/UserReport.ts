@@ -0,0 +1,137 @@
+import { Pool } from 'pg';
+import pool from '../../config/database';
+import { UserReport, UserReportContext, UserReportReason, UserReportStatus } from '../../types';
+import { v4 as uuidv4 } from 'uuid';
+
+const REPORT_SELECT = `SELECT ur.*,
+         reporter.email AS reporter_email,
+         reported.email AS reported_user_email,
+         reported.is_active AS reported_user_is_active,
+         (SELECT COUNT(*)::int FROM user_reports other
+          WHERE other.reported_user_id = ur.reported_user_id AND other.status = 'open'
+         ) AS reported_user_open_reports
+  FROM user_reports ur
+  JOIN users reporter ON reporter.id = ur.reporter_id
+  JOIN users reported ON reported.id = ur.reported_user_id`;
+
+/**
+ * UserReport Model
+ * Reports of abusive users and messages, and the moderation queue they feed
+ */
+export class UserReportModel {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * File a report
+   */
+  async create(data: {
+    reporter_id: string;
+    reported_user_id: string;
+    conversation_id?: string | null;
+    message_id?: string | null;
+    reason: UserReportReason;
+    details?: string | null;
+    context: UserReportContext;
+  }): Promise<UserReport> {
+    const id = uuidv4();
+    await this.pool.query(
+      `INSERT INTO user_reports
+         (id, reporter_id, reported_user_id, conversation_id, message_id, reason, details, context)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        id,
+        data.reporter_id,
+        data.reported_user_id,
+        data.conversation_id || null,
+        data.message_id || null,
+        data.reason,
+        data.details || null,
+        JSON.stringify(data.context),
+      ]
+    );
+
+    return (await this.findById(id)) as UserReport;
+  }
+
+  /**
+   * Find report by ID
+   */
+  async findById(id: string): Promise<UserReport | null> {
+    const result = await this.pool.query(`${REPORT_SELECT} WHERE ur.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a reporter's open report about the same user and message, if any
+   */
+  async findOpenDuplicate(
+    reporterId: string,
+    reportedUserId: string,
+    messageId: string | null
+  ): Promise<UserReport | null> {
+    const result = await this.pool.query(
+      `${REPORT_SELECT}
+       WHERE ur.reporter_id = $1 AND ur.reported_user_id = $2
+         AND ur.message_id IS NOT DISTINCT FROM $3
+         AND ur.status = 'open'
+       LIMIT 1`,
+      [reporterId, reportedUserId, messageId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find reports by status for the moderation queue
+   * Open reports come oldest first; reviewed ones most recently reviewed first
+   */
+  async findByStatus(
+    status: UserReportStatus,
+    options?: { page?: number; limit?: number }
+  ): Promise<{ reports: UserReport[]; total: number; hasMore: boolean }> {
+    const page = options?.page || 1;
+    const limit = options?.limit || 20;
+    const offset = (page - 1) * limit;
+    const order = status === UserReportStatus.OPEN ? 'ur.created_at ASC' : 'ur.reviewed_at DESC';
+
+    const result = await this.pool.query(
+      `${REPORT_SELECT}
+       WHERE ur.status = $1
+       ORDER BY ${order}
+       LIMIT $2 OFFSET $3`,
+      [status, limit, offset]
+    );
+
+    const countResult = await this.pool.query(
+      'SELECT COUNT(*) AS total FROM user_reports WHERE status = $1',
+      [status]
+    );
+    const total = parseInt(countResult.rows[0].total, 10);
+
+    return {
+      reports: result.rows,
+      total,
+      hasMore: offset + result.rows.length < total,
+    };
+  }
+
+  /**
+   * Close a report with a moderator's decision
+   */
+  async resolve(
+    id: string,
+    data: { status: UserReportStatus; reviewed_by: string; resolution_note?: string | null }
+  ): Promise<UserReport | null> {
+    await this.pool.query(
+      `UPDATE user_reports
+       SET status = $2, reviewed_by = $3, reviewed_at = NOW(), resolution_note = $4, updated_at = NOW()
+       WHERE id = $1`,
+      [id, data.status, data.reviewed_by, data.resolution_note || null]
+    );
+
+    return this.findById(id);
+  }
+}
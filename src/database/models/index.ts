@@ -13,3 +13,21 @@ export { PropertyListingMetricsModel } from './PropertyListingMetrics';
 export { ConversationModel } from './Conversation';
 export { MessageModel } from './Message';
 export { NotificationPreferencesModel } from './NotificationPreferences';
+export { BusinessMemberModel } from './BusinessMember';
+export { TourModel } from './Tour';
+export { NotificationQueueModel } from './NotificationQueue';
+export { NotificationModel } from './Notification';
+export { SavedSearchModel } from './SavedSearch';
+export { DealModel } from './Deal';
+export { MarketSnapshotModel } from './MarketSnapshot';
+export { BrokerClientModel } from './BrokerClient';
+export { MessageAttachmentModel } from './MessageAttachment';
+export { MessageTemplateModel } from './MessageTemplate';
+export { ScheduledMessageModel } from './ScheduledMessage';
+export { UserBlockModel } from './UserBlock';
+export { UserReportModel } from './UserReport';
+export { PropertyFavoriteModel } from './PropertyFavorite';
+export { ListingShareModel } from './ListingShare';
+export { ListingEventModel } from './ListingEvent';
+export { ListingImportJobModel } from './ListingImportJob';
+export { ListingMediaModel } from './ListingMedia';
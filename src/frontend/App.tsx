@@ -3,17 +3,24 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AuthProvider } from '@contexts/AuthContext';
 import { ErrorBoundary } from '@components/ErrorBoundary';
 import ProtectedRoute from '@components/ProtectedRoute';
+import { UserRole } from '@types';
 import Login from '@pages/Login';
 import Dashboard from '@pages/Dashboard';
 import LandlordDashboard from '@pages/LandlordDashboard';
+import BrokerDashboard from '@pages/BrokerDashboard';
 import BusinessDetail from '@pages/BusinessDetail';
 import PropertyDetail from '@pages/PropertyDetail';
+import PropertySearch from '@pages/PropertySearch';
+import SavedListings from '@pages/SavedListings';
+import SharedListing from '@pages/SharedListing';
 import Messages from '@pages/Messages';
 import MarketInsights from '@pages/MarketInsights';
 import Settings from '@pages/Settings';
 import Profile from '@pages/Profile';
 import Applications from '@pages/Applications';
 import MetricsDashboard from '@pages/MetricsDashboard';
+import InviteAccept from '@pages/InviteAccept';
+import Moderation from '@pages/Moderation';
 import './index.css';
 
 /**
@@ -43,6 +50,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/broker-dashboard"
+              element={
+                <ProtectedRoute roles={[UserRole.BROKER]}>
+                  <BrokerDashboard />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/business/:id"
               element={
@@ -59,6 +74,30 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/search"
+              element={
+                <ProtectedRoute>
+                  <PropertySearch />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/saved"
+              element={
+                <ProtectedRoute>
+                  <SavedListings />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/shared/:token"
+              element={
+                <ProtectedRoute>
+                  <SharedListing />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/property/:id"
               element={
@@ -115,6 +154,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/moderation"
+              element={
+                <ProtectedRoute>
+                  <Moderation />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/metrics"
               element={
@@ -124,6 +171,15 @@ function App() {
               }
             />
 
+            <Route
+              path="/invite/accept"
+              element={
+                <ProtectedRoute>
+                  <InviteAccept />
+                </ProtectedRoute>
+              }
+            />
+
             {/* Catch-all redirect */}
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
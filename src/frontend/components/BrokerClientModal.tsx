@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  getBrokerAuditLog,
+  getBrokerClientListings,
+  updateBrokerClientListingStatus,
+} from '@utils/apiClient';
+import {
+  BrokerClientAuditEntry,
+  BrokerClientType,
+  BrokerClientWithDetails,
+  DemandListing,
+  PropertyListing,
+  PropertyListingStatus,
+} from '@types';
+import styles from './BrokerClientModal.module.css';
+
+interface BrokerClientModalProps {
+  client: BrokerClientWithDetails | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  representation_requested: 'Requested to represent',
+  consent_granted: 'Granted access',
+  consent_declined: 'Declined the request',
+  consent_revoked: 'Ended the representation',
+  demand_listing_created: 'Created a demand listing',
+  demand_listing_updated: 'Updated a demand listing',
+  property_listing_updated: 'Updated a property listing',
+  property_listing_status_changed: 'Changed a listing status',
+};
+
+const LISTING_STATUS_OPTIONS: Array<{ value: PropertyListingStatus; label: string }> = [
+  { value: PropertyListingStatus.ACTIVE, label: 'Active' },
+  { value: PropertyListingStatus.PENDING, label: 'Pending' },
+  { value: PropertyListingStatus.LEASED, label: 'Leased' },
+  { value: PropertyListingStatus.OFF_MARKET, label: 'Off Market' },
+];
+
+/**
+ * BrokerAuditTrail Component
+ *
+ * Newest-first list of consent changes and actions a broker took for a client.
+ * Shared by the broker's client modal and the client's broker access settings.
+ */
+export const BrokerAuditTrail: React.FC<{ entries: BrokerClientAuditEntry[] }> = ({ entries }) => {
+  if (entries.length === 0) {
+    return <p className={styles.muted}>No activity yet.</p>;
+  }
+
+  return (
+    <ol className={styles.auditList}>
+      {entries.map((entry) => (
+        <li key={entry.id} className={styles.auditItem}>
+          <span>
+            <strong>{entry.actor_name || 'Someone'}</strong>{' '}
+            {(AUDIT_ACTION_LABELS[entry.action] || entry.action).toLowerCase()}
+            {typeof entry.details?.to === 'string' && ` (${entry.details.to})`}
+          </span>
+          <span className={styles.auditDate}>{new Date(entry.created_at).toLocaleString()}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+/**
+ * BrokerClientModal Component
+ *
+ * Manage a single client the broker represents
+ * - Tenant clients: their business's demand listings
+ * - Landlord clients: their property listings, with a status picker
+ * - Audit trail of everything done on the client's behalf
+ */
+export const BrokerClientModal: React.FC<BrokerClientModalProps> = ({ client, onClose, onChanged }) => {
+  const [demandListings, setDemandListings] = useState<DemandListing[]>([]);
+  const [propertyListings, setPropertyListings] = useState<PropertyListing[]>([]);
+  const [auditLog, setAuditLog] = useState<BrokerClientAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadClient = useCallback(async (brokerClientId: string) => {
+    try {
+      setError(null);
+      const [listings, entries] = await Promise.all([
+        getBrokerClientListings(brokerClientId),
+        getBrokerAuditLog(brokerClientId),
+      ]);
+      setDemandListings(listings.demandListings);
+      setPropertyListings(listings.propertyListings);
+      setAuditLog(entries);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load client'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!client) return;
+    setLoading(true);
+    setDemandListings([]);
+    setPropertyListings([]);
+    setAuditLog([]);
+    loadClient(client.id);
+  }, [client, loadClient]);
+
+  if (!client) return null;
+
+  const handleStatusChange = async (listingId: string, status: PropertyListingStatus) => {
+    try {
+      setSavingId(listingId);
+      setError(null);
+      await updateBrokerClientListingStatus(client.id, listingId, status);
+      await loadClient(client.id);
+      onChanged();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to update listing status'));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const isTenant = client.client_type === BrokerClientType.TENANT;
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>{client.client_name}</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <p className={styles.muted}>Loading...</p>
+          ) : (
+            <>
+              <div className={styles.sectionTitle}>{isTenant ? 'Demand Listings' : 'Property Listings'}</div>
+
+              {isTenant &&
+                (demandListings.length === 0 ? (
+                  <p className={styles.muted}>This client has no demand listings yet.</p>
+                ) : (
+                  <ul className={styles.listingList}>
+                    {demandListings.map((listing) => (
+                      <li key={listing.id} className={styles.listingItem}>
+                        <div className={styles.listingMain}>
+                          <span className={styles.listingTitle}>{listing.title || listing.location_name}</span>
+                          <span className={styles.muted}>
+                            {listing.city}, {listing.state}
+                          </span>
+                        </div>
+                        <span className={styles.listingStatus}>{listing.status}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+
+              {!isTenant &&
+                (propertyListings.length === 0 ? (
+                  <p className={styles.muted}>This client has no property listings yet.</p>
+                ) : (
+                  <ul className={styles.listingList}>
+                    {propertyListings.map((listing) => (
+                      <li key={listing.id} className={styles.listingItem}>
+                        <div className={styles.listingMain}>
+                          <span className={styles.listingTitle}>{listing.title}</span>
+                          <span className={styles.muted}>
+                            {listing.city}, {listing.state}
+                          </span>
+                        </div>
+                        <select
+                          className={styles.select}
+                          value={listing.status}
+                          disabled={savingId === listing.id}
+                          onChange={(e) => handleStatusChange(listing.id, e.target.value as PropertyListingStatus)}
+                          aria-label={`Status for ${listing.title}`}
+                        >
+                          {LISTING_STATUS_OPTIONS.map(({ value, label }) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+
+              <div className={styles.sectionTitle}>Activity</div>
+              <BrokerAuditTrail entries={auditLog} />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  getBusinessTeam,
+  inviteBusinessMember,
+  revokeBusinessInvite,
+  removeBusinessMember,
+} from '@utils/apiClient';
+import { BusinessInvite, BusinessMemberRole, BusinessTeamMember } from '@types';
+import styles from './BusinessTeamModal.module.css';
+
+interface BusinessTeamModalProps {
+  isOpen: boolean;
+  businessId: string;
+  businessName: string;
+  currentUserId: string;
+  currentRole: BusinessMemberRole;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<BusinessMemberRole, string> = {
+  [BusinessMemberRole.OWNER]: 'Owner',
+  [BusinessMemberRole.ADMIN]: 'Admin',
+  [BusinessMemberRole.VIEWER]: 'Viewer',
+};
+
+// API errors arrive as { code, message } objects on the rejected payload
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+/**
+ * BusinessTeamModal Component
+ *
+ * Lists a business's team members and pending invites
+ * - Admins and the owner can invite by email and revoke pending invites
+ * - The owner can remove anyone; admins can remove viewers
+ * - Any non-owner member can leave the team
+ */
+export const BusinessTeamModal: React.FC<BusinessTeamModalProps> = ({
+  isOpen,
+  businessId,
+  businessName,
+  currentUserId,
+  currentRole,
+  onClose,
+}) => {
+  const [members, setMembers] = useState<BusinessTeamMember[]>([]);
+  const [invites, setInvites] = useState<BusinessInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<BusinessMemberRole>(BusinessMemberRole.VIEWER);
+  const [sending, setSending] = useState(false);
+
+  const canManage = currentRole !== BusinessMemberRole.VIEWER;
+
+  const loadTeam = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const team = await getBusinessTeam(businessId);
+      setMembers(team.members);
+      setInvites(team.invites);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load team'));
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadTeam();
+    }
+  }, [isOpen, loadTeam]);
+
+  if (!isOpen) return null;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      setSending(true);
+      setError(null);
+      await inviteBusinessMember(businessId, email.trim(), role);
+      setEmail('');
+      await loadTeam();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to send invite'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    try {
+      setError(null);
+      await revokeBusinessInvite(businessId, inviteId);
+      setInvites((prev) => prev.filter((invite) => invite.id !== inviteId));
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to revoke invite'));
+    }
+  };
+
+  const handleRemove = async (member: BusinessTeamMember) => {
+    const isSelf = member.user_id === currentUserId;
+    const prompt = isSelf
+      ? `Leave ${businessName}? You will lose access to this business.`
+      : `Remove ${member.email} from ${businessName}?`;
+    if (!window.confirm(prompt)) return;
+
+    try {
+      setError(null);
+      await removeBusinessMember(businessId, member.user_id);
+      if (isSelf) {
+        onClose();
+        return;
+      }
+      setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id));
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to remove member'));
+    }
+  };
+
+  const canRemove = (member: BusinessTeamMember): boolean => {
+    if (member.role === BusinessMemberRole.OWNER) return false;
+    if (member.user_id === currentUserId) return true;
+    if (currentRole === BusinessMemberRole.OWNER) return true;
+    return currentRole === BusinessMemberRole.ADMIN && member.role === BusinessMemberRole.VIEWER;
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>Team</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          {canManage && (
+            <form className={styles.inviteForm} onSubmit={handleInvite}>
+              <input
+                type="email"
+                className={styles.input}
+                placeholder="colleague@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={sending}
+                required
+              />
+              <select
+                className={styles.select}
+                value={role}
+                onChange={(e) => setRole(e.target.value as BusinessMemberRole)}
+                disabled={sending}
+              >
+                <option value={BusinessMemberRole.VIEWER}>Viewer</option>
+                <option value={BusinessMemberRole.ADMIN}>Admin</option>
+              </select>
+              <button type="submit" className={styles.primaryButton} disabled={sending}>
+                {sending ? 'Sending...' : 'Invite'}
+              </button>
+            </form>
+          )}
+
+          {loading ? (
+            <p className={styles.muted}>Loading team...</p>
+          ) : (
+            <>
+              <h3 className={styles.listTitle}>Members ({members.length})</h3>
+              <ul className={styles.list}>
+                {members.map((member) => (
+                  <li key={member.user_id} className={styles.listItem}>
+                    <div className={styles.identity}>
+                      <span className={styles.name}>
+                        {member.first_name
+                          ? `${member.first_name} ${member.last_name || ''}`.trim()
+                          : member.email}
+                        {member.user_id === currentUserId && ' (you)'}
+                      </span>
+                      {member.first_name && <span className={styles.muted}>{member.email}</span>}
+                    </div>
+                    <span className={styles.roleBadge}>{ROLE_LABELS[member.role]}</span>
+                    {canRemove(member) && (
+                      <button className={styles.linkButton} onClick={() => handleRemove(member)}>
+                        {member.user_id === currentUserId ? 'Leave' : 'Remove'}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {invites.length > 0 && (
+                <>
+                  <h3 className={styles.listTitle}>Pending Invites ({invites.length})</h3>
+                  <ul className={styles.list}>
+                    {invites.map((invite) => (
+                      <li key={invite.id} className={styles.listItem}>
+                        <div className={styles.identity}>
+                          <span className={styles.name}>{invite.invited_user_email}</span>
+                          {invite.expires_at && (
+                            <span className={styles.muted}>
+                              Expires {new Date(invite.expires_at).toLocaleDateString()}
+                            </span>
+                          )}
+                        </div>
+                        <span className={styles.roleBadge}>{ROLE_LABELS[invite.role]}</span>
+                        {canManage && (
+                          <button className={styles.linkButton} onClick={() => handleRevoke(invite.id)}>
+                            Revoke
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
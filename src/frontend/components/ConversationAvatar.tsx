@@ -0,0 +1,53 @@
+import React from 'react';
+import { ConversationParticipant } from '@types';
+import styles from './ConversationAvatar.module.css';
+
+interface ConversationAvatarProps {
+  participants: ConversationParticipant[];
+  currentUserId: string;
+  alt: string;
+  size?: 'small' | 'medium';
+}
+
+const getInitials = (participant: ConversationParticipant | undefined): string => {
+  if (participant?.user?.profile) {
+    const { first_name, last_name } = participant.user.profile;
+    return `${first_name?.[0] || ''}${last_name?.[0] || ''}`.toUpperCase();
+  }
+  return participant?.user?.email?.[0]?.toUpperCase() || '?';
+};
+
+/**
+ * ConversationAvatar Component
+ * Shows the other participant's photo or initials, or stacked initials for group conversations
+ */
+export const ConversationAvatar: React.FC<ConversationAvatarProps> = ({
+  participants,
+  currentUserId,
+  alt,
+  size = 'medium',
+}) => {
+  const others = participants.filter((p) => p.user_id !== currentUserId);
+  const sizeClass = size === 'small' ? styles.small : styles.medium;
+
+  if (others.length > 1) {
+    return (
+      <div className={`${styles.group} ${sizeClass}`} aria-label={alt} role="img">
+        <span className={`${styles.groupMember} ${styles.groupBack}`}>{getInitials(others[1])}</span>
+        <span className={`${styles.groupMember} ${styles.groupFront}`}>
+          {others.length > 2 ? `+${others.length - 1}` : getInitials(others[0])}
+        </span>
+      </div>
+    );
+  }
+
+  const photoUrl = others[0]?.user?.profile?.photo_url;
+
+  return (
+    <div className={`${styles.avatar} ${sizeClass}`}>
+      {photoUrl ? <img src={photoUrl} alt={alt} className={styles.avatarImage} /> : getInitials(others[0])}
+    </div>
+  );
+};
+
+export default ConversationAvatar;
@@ -1,36 +1,69 @@
 import React, { useState, useMemo } from 'react';
 import { ConversationWithDetails } from '@types';
+import { ConversationAvatar } from './ConversationAvatar';
 import styles from './ConversationList.module.css';
 
 interface ConversationListProps {
   conversations: ConversationWithDetails[];
   selectedConversationId?: string;
   currentUserId: string;
+  // Users currently online, for the presence dot
+  onlineUserIds?: Set<string>;
   loading?: boolean;
   onSelectConversation: (conversation: ConversationWithDetails) => void;
   onNewChat?: () => void;
+  onSearchMessages?: () => void;
 }
 
 /**
  * ConversationList Component
- * Displays a list of conversations with search and selection
+ * Displays a list of conversations with search, listing filter and selection
+ * A dot on the avatar shows when someone else in the conversation is online
  */
 export const ConversationList: React.FC<ConversationListProps> = ({
   conversations,
   selectedConversationId,
   currentUserId,
+  onlineUserIds,
   loading = false,
   onSelectConversation,
   onNewChat,
+  onSearchMessages,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [listingFilter, setListingFilter] = useState('');
 
-  // Filter conversations by search query
+  // Listings the user's conversations are about, keyed as "property:<id>" / "demand:<id>"
+  const listingOptions = useMemo(() => {
+    const byKey = new Map<string, string>();
+    conversations.forEach((conv) => {
+      if (conv.propertyListing) {
+        byKey.set(`property:${conv.propertyListing.id}`, conv.propertyListing.title);
+      }
+      if (conv.demandListing) {
+        byKey.set(
+          `demand:${conv.demandListing.id}`,
+          conv.demandListing.title || conv.demandListing.business_name
+        );
+      }
+    });
+    return Array.from(byKey, ([key, title]) => ({ key, title })).sort((a, b) => a.title.localeCompare(b.title));
+  }, [conversations]);
+
+  // Filter conversations by listing and search query
   const filteredConversations = useMemo(() => {
-    if (!searchQuery.trim()) return conversations;
+    const byListing = listingFilter
+      ? conversations.filter(
+          (conv) =>
+            `property:${conv.property_listing_id}` === listingFilter ||
+            `demand:${conv.demand_listing_id}` === listingFilter
+        )
+      : conversations;
+
+    if (!searchQuery.trim()) return byListing;
 
     const query = searchQuery.toLowerCase();
-    return conversations.filter((conv) => {
+    return byListing.filter((conv) => {
       // Search in participant names
       const otherParticipant = conv.participants?.find((p) => p.user_id !== currentUserId);
       const participantName = otherParticipant?.user?.profile
@@ -49,33 +82,22 @@ export const ConversationList: React.FC<ConversationListProps> = ({
         lastMessage.toLowerCase().includes(query)
       );
     });
-  }, [conversations, searchQuery, currentUserId]);
+  }, [conversations, listingFilter, searchQuery, currentUserId]);
 
-  // Get display name for a conversation
+  // Get display name for a conversation; unnamed groups list their members' first names
   const getDisplayName = (conversation: ConversationWithDetails): string => {
     if (conversation.subject) return conversation.subject;
 
-    const otherParticipant = conversation.participants?.find((p) => p.user_id !== currentUserId);
-    if (otherParticipant?.user?.profile) {
-      return `${otherParticipant.user.profile.first_name} ${otherParticipant.user.profile.last_name}`;
+    const others = conversation.participants?.filter((p) => p.user_id !== currentUserId) || [];
+    if (others.length > 1) {
+      return others.map((p) => p.user?.profile?.first_name || p.user?.email || 'Unknown').join(', ');
     }
-    return otherParticipant?.user?.email || 'Unknown User';
-  };
 
-  // Get avatar initials
-  const getInitials = (conversation: ConversationWithDetails): string => {
-    const otherParticipant = conversation.participants?.find((p) => p.user_id !== currentUserId);
+    const otherParticipant = others[0];
     if (otherParticipant?.user?.profile) {
-      const { first_name, last_name } = otherParticipant.user.profile;
-      return `${first_name?.[0] || ''}${last_name?.[0] || ''}`.toUpperCase();
+      return `${otherParticipant.user.profile.first_name} ${otherParticipant.user.profile.last_name}`;
     }
-    return otherParticipant?.user?.email?.[0]?.toUpperCase() || '?';
-  };
-
-  // Get avatar image URL
-  const getAvatarUrl = (conversation: ConversationWithDetails): string | null => {
-    const otherParticipant = conversation.participants?.find((p) => p.user_id !== currentUserId);
-    return otherParticipant?.user?.profile?.photo_url || null;
+    return otherParticipant?.user?.email || 'Unknown User';
   };
 
   // Format timestamp
@@ -122,18 +144,33 @@ export const ConversationList: React.FC<ConversationListProps> = ({
     <div className={styles.conversationList}>
       <div className={styles.header}>
         <h2 className={styles.title}>Messages</h2>
-        {onNewChat && (
-          <button
-            className={styles.newChatButton}
-            onClick={onNewChat}
-            aria-label="Start new conversation"
-            title="New message"
-          >
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M12 5v14M5 12h14" />
-            </svg>
-          </button>
-        )}
+        <div className={styles.headerActions}>
+          {onSearchMessages && (
+            <button
+              className={styles.searchMessagesButton}
+              onClick={onSearchMessages}
+              aria-label="Search messages"
+              title="Search messages"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <circle cx="11" cy="11" r="7" />
+                <path d="M21 21l-4.35-4.35" />
+              </svg>
+            </button>
+          )}
+          {onNewChat && (
+            <button
+              className={styles.newChatButton}
+              onClick={onNewChat}
+              aria-label="Start new conversation"
+              title="New message"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M12 5v14M5 12h14" />
+              </svg>
+            </button>
+          )}
+        </div>
       </div>
 
       <div className={styles.searchContainer}>
@@ -145,6 +182,21 @@ export const ConversationList: React.FC<ConversationListProps> = ({
           onChange={(e) => setSearchQuery(e.target.value)}
           aria-label="Search conversations"
         />
+        {listingOptions.length > 0 && (
+          <select
+            className={styles.listingFilter}
+            value={listingFilter}
+            onChange={(e) => setListingFilter(e.target.value)}
+            aria-label="Filter by listing"
+          >
+            <option value="">All listings</option>
+            {listingOptions.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.title}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       <div className={styles.listContainer}>
@@ -158,7 +210,7 @@ export const ConversationList: React.FC<ConversationListProps> = ({
               </svg>
             </div>
             <p className={styles.emptyText}>
-              {searchQuery ? 'No conversations found' : 'No messages yet'}
+              {searchQuery || listingFilter ? 'No conversations found' : 'No messages yet'}
             </p>
           </div>
         ) : (
@@ -166,8 +218,9 @@ export const ConversationList: React.FC<ConversationListProps> = ({
             const isSelected = conversation.id === selectedConversationId;
             const isUnread = (conversation.unreadCount || 0) > 0;
             const displayName = getDisplayName(conversation);
-            const avatarUrl = getAvatarUrl(conversation);
-            const initials = getInitials(conversation);
+            const hasOnlineParticipant = (conversation.participants || []).some(
+              (p) => p.user_id !== currentUserId && onlineUserIds?.has(p.user_id)
+            );
 
             return (
               <div
@@ -184,12 +237,13 @@ export const ConversationList: React.FC<ConversationListProps> = ({
                 }}
                 aria-selected={isSelected}
               >
-                <div className={styles.avatar}>
-                  {avatarUrl ? (
-                    <img src={avatarUrl} alt={displayName} className={styles.avatarImage} />
-                  ) : (
-                    initials
-                  )}
+                <div className={styles.avatarWrapper}>
+                  <ConversationAvatar
+                    participants={conversation.participants || []}
+                    currentUserId={currentUserId}
+                    alt={displayName}
+                  />
+                  {hasOnlineParticipant && <span className={styles.onlineDot} aria-label="Online" />}
                 </div>
 
                 <div className={styles.conversationInfo}>
@@ -204,7 +258,9 @@ export const ConversationList: React.FC<ConversationListProps> = ({
 
                   <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                     <p className={styles.lastMessage}>
-                      {conversation.lastMessage?.content || 'No messages yet'}
+                      {conversation.lastMessage
+                        ? conversation.lastMessage.content || 'Sent an attachment'
+                        : 'No messages yet'}
                     </p>
                     {isUnread && (
                       <span className={styles.unreadBadge}>{conversation.unreadCount}</span>
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ConversationDemandListingSummary, ConversationPropertyListingSummary } from '@types';
+import styles from './ConversationListingCard.module.css';
+
+interface ConversationListingCardProps {
+  propertyListing?: ConversationPropertyListingSummary | null;
+  demandListing?: ConversationDemandListingSummary | null;
+}
+
+// DECIMAL columns arrive as strings, so amounts are coerced before formatting
+const formatCurrency = (amount: number | string): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(Number(amount));
+
+const formatSqft = (sqft: number | string): string => new Intl.NumberFormat('en-US').format(Number(sqft));
+
+const formatRange = (
+  min: number | null,
+  max: number | null,
+  format: (value: number) => string
+): string | null => {
+  if (min && max) return `${format(min)} – ${format(max)}`;
+  if (min) return `${format(min)}+`;
+  if (max) return `Up to ${format(max)}`;
+  return null;
+};
+
+const formatStatus = (status: string): string =>
+  status.replace(/_/g, ' ').replace(/^\w/, (letter) => letter.toUpperCase());
+
+/**
+ * ConversationListingCard Component
+ * Pinned summary of the property and demand listings a conversation is about
+ */
+export const ConversationListingCard: React.FC<ConversationListingCardProps> = ({
+  propertyListing,
+  demandListing,
+}) => {
+  if (!propertyListing && !demandListing) return null;
+
+  const propertyPrice = propertyListing?.asking_price
+    ? formatCurrency(propertyListing.asking_price)
+    : propertyListing?.price_per_sqft
+      ? `${formatCurrency(propertyListing.price_per_sqft)}/SF`
+      : null;
+  const demandSize = demandListing ? formatRange(demandListing.sqft_min, demandListing.sqft_max, formatSqft) : null;
+  const demandBudget = demandListing
+    ? formatRange(demandListing.budget_min, demandListing.budget_max, formatCurrency)
+    : null;
+
+  return (
+    <div className={styles.listingCard} aria-label="Conversation listings">
+      {propertyListing && (
+        <Link to={`/property/${propertyListing.id}`} className={styles.listing}>
+          {propertyListing.photo_url ? (
+            <img src={propertyListing.photo_url} alt="" className={styles.photo} />
+          ) : (
+            <div className={styles.photoPlaceholder}>
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 9l9-7 9 7v11a2 2 0 01-2 2H5a2 2 0 01-2-2z" />
+              </svg>
+            </div>
+          )}
+          <div className={styles.details}>
+            <span className={styles.label}>Property</span>
+            <span className={styles.title}>{propertyListing.title}</span>
+            <span className={styles.meta}>
+              {propertyListing.address}, {propertyListing.city}, {propertyListing.state}
+            </span>
+            <span className={styles.meta}>
+              {formatSqft(propertyListing.sqft)} SF
+              {propertyPrice && ` · ${propertyPrice}`}
+              {propertyListing.lease_type && ` · ${propertyListing.lease_type}`}
+            </span>
+          </div>
+          <span className={styles.status}>{formatStatus(propertyListing.status)}</span>
+        </Link>
+      )}
+
+      {demandListing && (
+        <div className={styles.listing}>
+          <div className={styles.details}>
+            <span className={styles.label}>Looking for space</span>
+            <span className={styles.title}>{demandListing.title || demandListing.business_name}</span>
+            <span className={styles.meta}>
+              {demandListing.business_name} · {demandListing.location_name}, {demandListing.state}
+            </span>
+            {(demandSize || demandBudget) && (
+              <span className={styles.meta}>
+                {[demandSize && `${demandSize} SF`, demandBudget && `${demandBudget}/mo`]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </span>
+            )}
+          </div>
+          <span className={styles.status}>{formatStatus(demandListing.status)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationListingCard;
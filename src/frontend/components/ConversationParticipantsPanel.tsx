@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import {
+  ConversationExportFormat,
+  ConversationNudge,
+  ConversationParticipant,
+  ConversationParticipantRole,
+  ConversationWithDetails,
+} from '@types';
+import { getConversationExportUrl } from '../utils/apiClient';
+import styles from './ConversationParticipantsPanel.module.css';
+
+interface ConversationParticipantsPanelProps {
+  conversation: ConversationWithDetails;
+  currentUserId: string;
+  onAddParticipants?: (emails: string[]) => Promise<void>;
+  onRemoveParticipant?: (userId: string) => Promise<void>;
+  onSetParticipantRole?: (userId: string, role: ConversationParticipantRole) => Promise<void>;
+  onRenameConversation?: (subject: string) => Promise<void>;
+  onSetNudge?: (nudge: ConversationNudge | null) => Promise<void>;
+  onReportUser?: (participant: ConversationParticipant) => void;
+  onBlockUser?: (userId: string) => Promise<void>;
+}
+
+const NUDGE_DAY_OPTIONS = [1, 2, 3, 5, 7, 14, 30];
+const EXPORT_FORMATS: Array<{ format: ConversationExportFormat; label: string }> = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'json', label: 'JSON' },
+  { format: 'txt', label: 'Text' },
+];
+
+const getParticipantName = (participant: ConversationParticipant): string =>
+  participant.user?.profile
+    ? `${participant.user.profile.first_name} ${participant.user.profile.last_name}`
+    : participant.user?.email || 'Unknown User';
+
+/**
+ * ConversationParticipantsPanel Component
+ * Lists a conversation's participants and lets members rename it and invite people;
+ * the creator and admins can also remove participants and change roles.
+ * Each participant can ask to be reminded if their last message goes unanswered,
+ * and download the conversation's record as PDF, JSON or text.
+ * Anyone can report or block the other participants.
+ */
+export const ConversationParticipantsPanel: React.FC<ConversationParticipantsPanelProps> = ({
+  conversation,
+  currentUserId,
+  onAddParticipants,
+  onRemoveParticipant,
+  onSetParticipantRole,
+  onRenameConversation,
+  onSetNudge,
+  onReportUser,
+  onBlockUser,
+}) => {
+  const [subjectDraft, setSubjectDraft] = useState(conversation.subject || '');
+  const [emailsDraft, setEmailsDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentParticipant = conversation.participants.find((p) => p.user_id === currentUserId);
+  const isAdmin =
+    conversation.created_by === currentUserId || currentParticipant?.role === ConversationParticipantRole.ADMIN;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onRenameConversation || subjectDraft.trim() === (conversation.subject || '')) return;
+    run(() => onRenameConversation(subjectDraft.trim()));
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const emails = emailsDraft
+      .split(/[\s,;]+/)
+      .map((email) => email.trim())
+      .filter(Boolean);
+    if (!onAddParticipants || emails.length === 0) return;
+    run(async () => {
+      await onAddParticipants(emails);
+      setEmailsDraft('');
+    });
+  };
+
+  const nudge = conversation.nudge || null;
+
+  const handleNudgeChange = (changes: Partial<ConversationNudge>) => {
+    if (!onSetNudge) return;
+    const next = { after_days: 3, in_app: true, email: false, ...nudge, ...changes };
+    run(() => onSetNudge(next.in_app || next.email ? next : null));
+  };
+
+  return (
+    <div className={styles.panel} aria-label="Conversation participants">
+      {error && (
+        <div className={styles.error} role="alert">
+          {error}
+        </div>
+      )}
+
+      {onRenameConversation && (
+        <form className={styles.row} onSubmit={handleRename}>
+          <input
+            className={styles.input}
+            value={subjectDraft}
+            onChange={(e) => setSubjectDraft(e.target.value)}
+            placeholder="Name this conversation"
+            maxLength={255}
+            disabled={busy}
+            aria-label="Conversation name"
+          />
+          <button type="submit" className={styles.button} disabled={busy}>
+            Rename
+          </button>
+        </form>
+      )}
+
+      <ul className={styles.participantList}>
+        {conversation.participants.map((participant) => {
+          const isCreator = participant.user_id === conversation.created_by;
+          const isSelf = participant.user_id === currentUserId;
+          const participantIsAdmin = isCreator || participant.role === ConversationParticipantRole.ADMIN;
+
+          return (
+            <li key={participant.user_id} className={styles.participant}>
+              <span className={styles.participantName}>
+                {getParticipantName(participant)}
+                {isSelf && ' (you)'}
+              </span>
+              {participantIsAdmin && <span className={styles.badge}>{isCreator ? 'Creator' : 'Admin'}</span>}
+              {isAdmin && !isCreator && !isSelf && (
+                <span className={styles.participantActions}>
+                  {onSetParticipantRole && (
+                    <button
+                      className={styles.linkButton}
+                      disabled={busy}
+                      onClick={() =>
+                        run(() =>
+                          onSetParticipantRole(
+                            participant.user_id,
+                            participantIsAdmin ? ConversationParticipantRole.MEMBER : ConversationParticipantRole.ADMIN
+                          )
+                        )
+                      }
+                    >
+                      {participantIsAdmin ? 'Remove admin' : 'Make admin'}
+                    </button>
+                  )}
+                  {onRemoveParticipant && (
+                    <button
+                      className={`${styles.linkButton} ${styles.danger}`}
+                      disabled={busy}
+                      onClick={() => run(() => onRemoveParticipant(participant.user_id))}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </span>
+              )}
+              {!isSelf && (onReportUser || onBlockUser) && (
+                <span className={styles.participantActions}>
+                  {onReportUser && (
+                    <button className={styles.linkButton} disabled={busy} onClick={() => onReportUser(participant)}>
+                      Report
+                    </button>
+                  )}
+                  {onBlockUser && (
+                    <button
+                      className={`${styles.linkButton} ${styles.danger}`}
+                      disabled={busy}
+                      onClick={() => {
+                        if (window.confirm(`Block ${getParticipantName(participant)}? Neither of you will be able to message the other directly.`)) {
+                          run(() => onBlockUser(participant.user_id));
+                        }
+                      }}
+                    >
+                      Block
+                    </button>
+                  )}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {onAddParticipants && (
+        <form className={styles.row} onSubmit={handleAdd}>
+          <input
+            className={styles.input}
+            value={emailsDraft}
+            onChange={(e) => setEmailsDraft(e.target.value)}
+            placeholder="Add people by email"
+            disabled={busy}
+            aria-label="Emails to add"
+          />
+          <button type="submit" className={styles.button} disabled={busy || !emailsDraft.trim()}>
+            Add
+          </button>
+        </form>
+      )}
+
+      {onSetNudge && (
+        <div className={styles.nudgeRow}>
+          <label className={styles.nudgeLabel} htmlFor={`nudge-${conversation.id}`}>
+            Remind me if no reply in
+          </label>
+          <select
+            id={`nudge-${conversation.id}`}
+            className={styles.nudgeSelect}
+            value={nudge?.after_days ?? ''}
+            onChange={(e) =>
+              e.target.value
+                ? handleNudgeChange({ after_days: Number(e.target.value) })
+                : run(() => onSetNudge(null))
+            }
+            disabled={busy}
+          >
+            <option value="">Off</option>
+            {NUDGE_DAY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days === 1 ? '1 day' : `${days} days`}
+              </option>
+            ))}
+          </select>
+          {nudge && (
+            <>
+              <label className={styles.nudgeChannel}>
+                <input
+                  type="checkbox"
+                  checked={nudge.in_app}
+                  onChange={(e) => handleNudgeChange({ in_app: e.target.checked })}
+                  disabled={busy}
+                />
+                In-app
+              </label>
+              <label className={styles.nudgeChannel}>
+                <input
+                  type="checkbox"
+                  checked={nudge.email}
+                  onChange={(e) => handleNudgeChange({ email: e.target.checked })}
+                  disabled={busy}
+                />
+                Email
+              </label>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className={styles.exportRow}>
+        <span className={styles.nudgeLabel}>Export conversation</span>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <a key={format} className={styles.exportLink} href={getConversationExportUrl(conversation.id, format)}>
+            {label}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationParticipantsPanel;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getDeal, updateDeal, deleteDeal } from '@utils/apiClient';
+import { DealStage, DealWithDetails } from '@types';
+import { DEAL_STAGES } from './DealPipelineBoard';
+import styles from './DealDetailsModal.module.css';
+
+interface DealDetailsModalProps {
+  dealId: string | null;
+  onClose: () => void;
+  onMove: (dealId: string, stage: DealStage) => void;
+  onChanged: () => void;
+}
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+const stageLabel = (stage: DealStage | null): string =>
+  DEAL_STAGES.find((s) => s.stage === stage)?.label || 'Created';
+
+/**
+ * DealDetailsModal Component
+ *
+ * Details for a single pipeline deal
+ * - Property and tenant listing summary
+ * - Stage picker (alternative to dragging on the board)
+ * - Editable notes and expected close date
+ * - Stage history timeline
+ */
+export const DealDetailsModal: React.FC<DealDetailsModalProps> = ({
+  dealId,
+  onClose,
+  onMove,
+  onChanged,
+}) => {
+  const navigate = useNavigate();
+  const [deal, setDeal] = useState<DealWithDetails | null>(null);
+  const [notes, setNotes] = useState('');
+  const [expectedCloseDate, setExpectedCloseDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!dealId) {
+      setDeal(null);
+      return;
+    }
+
+    let cancelled = false;
+    setError(null);
+    getDeal(dealId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setDeal(loaded);
+        setNotes(loaded.notes || '');
+        setExpectedCloseDate(loaded.expected_close_date?.slice(0, 10) || '');
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load deal'));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dealId]);
+
+  if (!dealId) return null;
+
+  const handleSave = async () => {
+    if (!deal) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await updateDeal(deal.id, {
+        notes: notes.trim() || null,
+        expected_close_date: expectedCloseDate || null,
+      });
+      onChanged();
+      onClose();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to save deal'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deal || !window.confirm('Remove this deal from your pipeline?')) return;
+
+    try {
+      setSaving(true);
+      await deleteDeal(deal.id);
+      onChanged();
+      onClose();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to delete deal'));
+      setSaving(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const isSigned = deal?.stage === DealStage.SIGNED;
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>{deal?.property_title || 'Deal'}</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          {!deal ? (
+            !error && <p className={styles.muted}>Loading...</p>
+          ) : (
+            <>
+              <div className={styles.summary}>
+                <button
+                  className={styles.linkButton}
+                  onClick={() => navigate(`/property/${deal.property_listing_id}`)}
+                >
+                  {deal.property_title} — {deal.property_city}, {deal.property_state}
+                </button>
+                <div className={styles.muted}>
+                  {deal.business_name} · {deal.demand_listing_title || deal.demand_listing_location}
+                </div>
+              </div>
+
+              <label className={styles.label} htmlFor="deal-stage">
+                Stage
+              </label>
+              <select
+                id="deal-stage"
+                className={styles.input}
+                value={deal.stage}
+                disabled={isSigned || saving}
+                onChange={(e) => onMove(deal.id, e.target.value as DealStage)}
+              >
+                {DEAL_STAGES.map(({ stage, label }) => (
+                  <option key={stage} value={stage}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {isSigned && (
+                <p className={styles.muted}>
+                  Signed deals are locked. Whichever of the property and tenant listing you manage was closed.
+                </p>
+              )}
+
+              <label className={styles.label} htmlFor="deal-close-date">
+                Expected close date
+              </label>
+              <input
+                id="deal-close-date"
+                type="date"
+                className={styles.input}
+                value={expectedCloseDate}
+                onChange={(e) => setExpectedCloseDate(e.target.value)}
+                disabled={saving}
+              />
+
+              <label className={styles.label} htmlFor="deal-notes">
+                Notes
+              </label>
+              <textarea
+                id="deal-notes"
+                className={styles.textarea}
+                rows={4}
+                maxLength={5000}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={saving}
+              />
+
+              {deal.stage_history && deal.stage_history.length > 0 && (
+                <>
+                  <div className={styles.label}>History</div>
+                  <ol className={styles.history}>
+                    {deal.stage_history.map((change) => (
+                      <li key={change.id} className={styles.historyItem}>
+                        <span>
+                          {change.from_stage
+                            ? `${stageLabel(change.from_stage)} → ${stageLabel(change.to_stage)}`
+                            : `Added as ${stageLabel(change.to_stage)}`}
+                        </span>
+                        <span className={styles.historyDate}>
+                          {new Date(change.created_at).toLocaleDateString()}
+                        </span>
+                        {change.note && <div className={styles.historyNote}>{change.note}</div>}
+                      </li>
+                    ))}
+                  </ol>
+                </>
+              )}
+
+              <div className={styles.actions}>
+                <button className={styles.deleteButton} onClick={handleDelete} disabled={saving}>
+                  Remove
+                </button>
+                <div className={styles.actionsRight}>
+                  <button className={styles.secondaryButton} onClick={onClose} disabled={saving}>
+                    Cancel
+                  </button>
+                  <button className={styles.primaryButton} onClick={handleSave} disabled={saving}>
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
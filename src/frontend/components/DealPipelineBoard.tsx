@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { DealStage, DealWithDetails } from '@types';
+import styles from './DealPipelineBoard.module.css';
+
+export const DEAL_STAGES: Array<{ stage: DealStage; label: string }> = [
+  { stage: DealStage.PROSPECT, label: 'Prospect' },
+  { stage: DealStage.TOURING, label: 'Touring' },
+  { stage: DealStage.LOI, label: 'LOI' },
+  { stage: DealStage.LEASE_NEGOTIATION, label: 'Lease Negotiation' },
+  { stage: DealStage.SIGNED, label: 'Signed' },
+  { stage: DealStage.LOST, label: 'Lost' },
+];
+
+interface DealPipelineBoardProps {
+  deals: DealWithDetails[];
+  onMove: (dealId: string, stage: DealStage, position: number) => void;
+  onSelect: (deal: DealWithDetails) => void;
+}
+
+interface DropTarget {
+  stage: DealStage;
+  position: number;
+}
+
+/**
+ * DealPipelineBoard Component
+ *
+ * Kanban board for the deal pipeline
+ * - One column per stage, cards ordered by board position
+ * - Drag a card onto a column or before another card to move it
+ * - Signed deals are locked in place
+ */
+export const DealPipelineBoard: React.FC<DealPipelineBoardProps> = ({ deals, onMove, onSelect }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const columnDeals = (stage: DealStage) =>
+    deals.filter((deal) => deal.stage === stage).sort((a, b) => a.position - b.position);
+
+  const handleDragStart = (e: React.DragEvent, deal: DealWithDetails) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', deal.id);
+    setDraggingId(deal.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, stage: DealStage, position: number) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (dropTarget?.stage !== stage || dropTarget.position !== position) {
+      setDropTarget({ stage, position });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const dealId = e.dataTransfer.getData('text/plain') || draggingId;
+    const deal = deals.find((d) => d.id === dealId);
+
+    if (deal && dropTarget) {
+      // Positions below the card's old slot shift up once it leaves the column
+      let position = dropTarget.position;
+      if (deal.stage === dropTarget.stage && deal.position < position) {
+        position -= 1;
+      }
+      if (deal.stage !== dropTarget.stage || deal.position !== position) {
+        onMove(deal.id, dropTarget.stage, position);
+      }
+    }
+
+    handleDragEnd();
+  };
+
+  const formatDate = (date: string | null) =>
+    date
+      ? new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      : null;
+
+  return (
+    <div className={styles.board}>
+      {DEAL_STAGES.map(({ stage, label }) => {
+        const cards = columnDeals(stage);
+        const isTarget = dropTarget?.stage === stage;
+
+        return (
+          <section
+            key={stage}
+            className={`${styles.column} ${isTarget ? styles.columnActive : ''}`}
+            onDragOver={(e) => handleDragOver(e, stage, cards.length)}
+            onDrop={handleDrop}
+            aria-label={`${label} deals`}
+          >
+            <header className={styles.columnHeader}>
+              <span className={styles.columnTitle}>{label}</span>
+              <span className={styles.columnCount}>{cards.length}</span>
+            </header>
+
+            <div className={styles.cardList}>
+              {cards.map((deal, index) => {
+                const locked = deal.stage === DealStage.SIGNED;
+                const showIndicator = isTarget && dropTarget?.position === index && draggingId !== deal.id;
+
+                return (
+                  <React.Fragment key={deal.id}>
+                    {showIndicator && <div className={styles.dropIndicator} />}
+                    <article
+                      className={`${styles.card} ${draggingId === deal.id ? styles.cardDragging : ''}`}
+                      draggable={!locked}
+                      onDragStart={(e) => handleDragStart(e, deal)}
+                      onDragEnd={handleDragEnd}
+                      onDragOver={(e) => handleDragOver(e, stage, index)}
+                      onClick={() => onSelect(deal)}
+                      role="button"
+                      tabIndex={0}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') onSelect(deal);
+                      }}
+                    >
+                      <div className={styles.cardTitle}>{deal.property_title}</div>
+                      <div className={styles.cardMeta}>
+                        {deal.property_city}, {deal.property_state}
+                      </div>
+                      <div className={styles.cardTenant}>
+                        {deal.business_name} · {deal.demand_listing_title || deal.demand_listing_location}
+                      </div>
+                      <div className={styles.cardFooter}>
+                        {deal.match_score !== null && (
+                          <span className={styles.matchScore}>{Math.round(Number(deal.match_score))}% match</span>
+                        )}
+                        {deal.expected_close_date && (
+                          <span className={styles.closeDate}>Close {formatDate(deal.expected_close_date)}</span>
+                        )}
+                      </div>
+                    </article>
+                  </React.Fragment>
+                );
+              })}
+              {isTarget && dropTarget?.position === cards.length && <div className={styles.dropIndicator} />}
+              {cards.length === 0 && !isTarget && <div className={styles.emptyColumn}>No deals</div>}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { PropertyListingPhoto } from '@types';
+import { getPhotoSrc } from '@utils/listingPhotos';
+import styles from './ListingGallery.module.css';
+
+interface ListingGalleryProps {
+  photos: PropertyListingPhoto[];
+  title: string;
+  // Shown when the listing has no photos, or a photo fails to load
+  fallbackUrl: string;
+  // Overlays such as the status badge
+  children?: React.ReactNode;
+}
+
+const coverIndex = (photos: PropertyListingPhoto[]) => Math.max(photos.findIndex((photo) => photo.is_cover), 0);
+
+/**
+ * ListingGallery Component
+ *
+ * Photo gallery for a listing, filling its container
+ * - Opens on the cover photo
+ * - Previous/next buttons, arrow keys and a thumbnail strip
+ * - Shows each photo's caption
+ */
+export const ListingGallery: React.FC<ListingGalleryProps> = ({ photos, title, fallbackUrl, children }) => {
+  const [index, setIndex] = useState(() => coverIndex(photos));
+
+  useEffect(() => {
+    setIndex(coverIndex(photos));
+  }, [photos]);
+
+  const photo = photos[index];
+  const hasMany = photos.length > 1;
+
+  const show = (next: number) => setIndex((next + photos.length) % photos.length);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!hasMany) return;
+    if (e.key === 'ArrowLeft') show(index - 1);
+    if (e.key === 'ArrowRight') show(index + 1);
+  };
+
+  return (
+    <div
+      className={styles.gallery}
+      onKeyDown={handleKeyDown}
+      tabIndex={hasMany ? 0 : undefined}
+      aria-roledescription="gallery"
+      aria-label={`Photos of ${title}`}
+    >
+      <img
+        src={photo ? getPhotoSrc(photo) : fallbackUrl}
+        alt={photo?.caption || title}
+        className={styles.mainPhoto}
+        onError={(e) => {
+          (e.target as HTMLImageElement).src = fallbackUrl;
+        }}
+      />
+      {children}
+
+      {hasMany && (
+        <>
+          <button
+            type="button"
+            className={`${styles.navButton} ${styles.previous}`}
+            onClick={() => show(index - 1)}
+            aria-label="Previous photo"
+          >
+            ‹
+          </button>
+          <button
+            type="button"
+            className={`${styles.navButton} ${styles.next}`}
+            onClick={() => show(index + 1)}
+            aria-label="Next photo"
+          >
+            ›
+          </button>
+        </>
+      )}
+
+      {photo && (photo.caption || hasMany) && (
+        <div className={styles.footer}>
+          <p className={styles.caption}>
+            {photo.caption}
+            {hasMany && (
+              <span className={styles.counter}>
+                {index + 1} / {photos.length}
+              </span>
+            )}
+          </p>
+          {hasMany && (
+            <div className={styles.thumbnails}>
+              {photos.map((item, itemIndex) => (
+                <button
+                  key={item.media_id || `${item.url}-${itemIndex}`}
+                  type="button"
+                  className={`${styles.thumbnailButton} ${itemIndex === index ? styles.active : ''}`}
+                  onClick={() => setIndex(itemIndex)}
+                  aria-label={`Show photo ${itemIndex + 1}`}
+                  aria-current={itemIndex === index}
+                >
+                  <img src={getPhotoSrc(item, 'thumbnail')} alt="" className={styles.thumbnail} loading="lazy" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { importPropertyListings, getListingImportJob } from '@utils/apiClient';
+import { ListingFeedFormat, ListingImportJob, ListingImportStatus } from '@types';
+import styles from './ListingImportModal.module.css';
+
+interface ListingImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after an import (not a dry run) has created or updated listings
+  onImported: () => void;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+const FORMAT_OPTIONS = [
+  { value: '', label: 'Detect from file (.csv or .json)' },
+  { value: ListingFeedFormat.CSV, label: 'CSV' },
+  { value: ListingFeedFormat.RESO, label: 'RESO JSON' },
+];
+
+// API errors arrive as { code, message } objects
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message || (typeof err?.message === 'string' ? err.message : null) || fallback;
+
+const isFinished = (job: ListingImportJob) =>
+  job.status === ListingImportStatus.COMPLETED || job.status === ListingImportStatus.FAILED;
+
+const plural = (count: number, noun: string) => `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * One-line summary of a finished import's counts
+ */
+const summarizeReport = (report: ListingImportJob): string => {
+  const created = report.created_count.toLocaleString();
+  const updated = report.updated_count.toLocaleString();
+  const skipped = report.skipped_count.toLocaleString();
+  const rows = plural(report.total_rows, 'row');
+  return report.dry_run
+    ? `${rows} checked: ${created} would be created, ${updated} updated and ${skipped} skipped.`
+    : `${rows} imported: ${created} created, ${updated} updated and ${skipped} skipped.`;
+};
+
+/**
+ * ListingImportModal Component
+ *
+ * Bulk import listings from a CSV or RESO JSON file
+ * - Validate a file with a dry run, showing row-level errors
+ * - Import it, updating listings matched by external ID
+ * - Follow the import until it finishes
+ */
+export const ListingImportModal: React.FC<ListingImportModalProps> = ({ isOpen, onClose, onImported }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState('');
+  const [job, setJob] = useState<ListingImportJob | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setFormat('');
+      setJob(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Follow the job until it finishes
+  useEffect(() => {
+    if (!job || isFinished(job)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const updated = await getListingImportJob(job.id);
+        setJob(updated);
+        if (updated.status === ListingImportStatus.COMPLETED && !updated.dry_run) {
+          onImported();
+        }
+      } catch (err: any) {
+        setError(getErrorMessage(err, 'Failed to check on the import'));
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job, onImported]);
+
+  if (!isOpen) return null;
+
+  const running = submitting || (!!job && !isFinished(job));
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setJob(null);
+    setError(null);
+  };
+
+  const startImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setJob(
+        await importPropertyListings(file, {
+          format: (format || undefined) as ListingFeedFormat | undefined,
+          dry_run: dryRun,
+        })
+      );
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to upload the file'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const renderReport = (report: ListingImportJob) => {
+    if (!isFinished(report)) {
+      return (
+        <p className={styles.muted} role="status">
+          {report.dry_run ? 'Checking' : 'Importing'} {report.file_name || 'your file'}...
+        </p>
+      );
+    }
+
+    if (report.status === ListingImportStatus.FAILED) {
+      return (
+        <div className={styles.errorMessage} role="alert">
+          {report.error_message || 'The import failed'}
+        </div>
+      );
+    }
+
+    return (
+      <div className={styles.report}>
+        <p className={styles.summary} role="status">
+          {summarizeReport(report)}
+        </p>
+
+        {report.errors.length > 0 && (
+          <>
+            <p className={styles.muted}>
+              Rows with errors are skipped. Fix them and import the file again; rows already imported are updated, not
+              duplicated.
+            </p>
+            <div className={styles.errorTableWrapper}>
+              <table className={styles.errorTable}>
+                <thead>
+                  <tr>
+                    <th>Row</th>
+                    <th>External ID</th>
+                    <th>Field</th>
+                    <th>Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.errors.map((rowError, index) => (
+                    <tr key={`${rowError.row}-${rowError.field}-${index}`}>
+                      <td>{rowError.row}</td>
+                      <td>{rowError.external_id || '—'}</td>
+                      <td>{rowError.field || '—'}</td>
+                      <td>{rowError.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>Import Listings</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.modalBody}>
+          <p className={styles.muted}>
+            Upload a CSV (one column per field, like an export) or a RESO Data Dictionary JSON feed. Listings are
+            matched by external ID, so importing the same file again updates them.
+          </p>
+
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          <div className={styles.formGrid}>
+            <input
+              className={styles.input}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              disabled={running}
+              aria-label="Listings file"
+            />
+            <select
+              className={styles.input}
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              disabled={running}
+              aria-label="File format"
+            >
+              {FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {job && renderReport(job)}
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.secondaryButton} onClick={onClose}>
+              Close
+            </button>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              onClick={() => startImport(true)}
+              disabled={!file || running}
+            >
+              Check File
+            </button>
+            <button
+              type="button"
+              className={styles.primaryButton}
+              onClick={() => startImport(false)}
+              disabled={!file || running}
+            >
+              {job?.dry_run && isFinished(job) ? 'Import Now' : 'Import'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
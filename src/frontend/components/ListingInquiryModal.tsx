@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { createPropertyInquiry } from '@utils/apiClient';
+import { Conversation } from '@types';
+import styles from './ListingInquiryModal.module.css';
+
+interface ListingInquiryModalProps {
+  isOpen: boolean;
+  propertyId: string;
+  propertyTitle: string;
+  onClose: () => void;
+  onSent: (conversation: Conversation) => void;
+}
+
+// API errors arrive as { code, message } objects on the rejected payload
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+/**
+ * ListingInquiryModal Component
+ *
+ * Lets a tenant message the owner of a property listing. The inquiry opens
+ * (or reuses) their conversation about the listing with an inquiry card.
+ */
+export const ListingInquiryModal: React.FC<ListingInquiryModalProps> = ({
+  isOpen,
+  propertyId,
+  propertyTitle,
+  onClose,
+  onSent,
+}) => {
+  const [message, setMessage] = useState('');
+  const [moveInDate, setMoveInDate] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const result = await createPropertyInquiry(propertyId, {
+        message: message.trim() || undefined,
+        move_in_date: moveInDate || undefined,
+      });
+      setMessage('');
+      setMoveInDate('');
+      onSent(result.conversation);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to send inquiry'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>Message the Landlord</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <form className={styles.modalBody} onSubmit={handleSubmit}>
+          <p className={styles.muted}>{propertyTitle}</p>
+
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          <label className={styles.label} htmlFor="inquiry-message">
+            Message (optional)
+          </label>
+          <textarea
+            id="inquiry-message"
+            className={styles.textarea}
+            rows={4}
+            placeholder="Tell the landlord about your business and what you need"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            disabled={submitting}
+          />
+
+          <label className={styles.label} htmlFor="inquiry-move-in">
+            Target move-in date (optional)
+          </label>
+          <input
+            id="inquiry-move-in"
+            type="date"
+            className={styles.input}
+            value={moveInDate}
+            onChange={(e) => setMoveInDate(e.target.value)}
+            disabled={submitting}
+          />
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.secondaryButton} onClick={onClose} disabled={submitting}>
+              Cancel
+            </button>
+            <button type="submit" className={styles.primaryButton} disabled={submitting}>
+              {submitting ? 'Sending...' : 'Send Inquiry'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeoBounds, PropertyListing } from '@types';
+import {
+  LatLng,
+  MapPin,
+  TILE_SIZE,
+  clampZoom,
+  clusterPins,
+  project,
+  unproject,
+  viewportBounds,
+  worldSize,
+} from '@utils/mapClustering';
+import styles from './ListingMap.module.css';
+
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+interface ListingMapProps {
+  listings: PropertyListing[];
+  view: MapView;
+  onViewChange: (view: MapView) => void;
+  onBoundsChange: (bounds: GeoBounds) => void;
+  onOpenListing: (listingId: string) => void;
+  highlightedListingId?: string | null;
+}
+
+// Zoom past this and co-located listings open as a list instead of zooming further
+const CLUSTER_EXPAND_ZOOM = 16;
+// Trackpads send bursts of wheel events; one zoom step per burst
+const WHEEL_ZOOM_INTERVAL_MS = 250;
+
+const formatPrice = (price: number | null): string =>
+  price
+    ? new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(
+        Number(price)
+      )
+    : 'Contact for pricing';
+
+/**
+ * ListingMap Component
+ *
+ * Slippy map of property listings on OpenStreetMap tiles
+ * - Drag to pan, scroll or use the +/- buttons to zoom
+ * - Nearby listings are grouped into clusters showing a count;
+ *   clicking a cluster zooms in on it
+ * - Clicking a pin (or a cluster that can't be split further) lists its
+ *   listings in a popup
+ * - Reports the visible bounds whenever the view or map size changes
+ */
+export const ListingMap: React.FC<ListingMapProps> = ({
+  listings,
+  view,
+  onViewChange,
+  onBoundsChange,
+  onOpenListing,
+  highlightedListingId,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; origin: { x: number; y: number } } | null>(null);
+  const lastWheelZoomRef = useRef(0);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [openClusterKey, setOpenClusterKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const measure = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+
+    // React's wheel listener is passive, so stop the page scrolling here
+    const preventScroll = (e: WheelEvent) => e.preventDefault();
+    container.addEventListener('wheel', preventScroll, { passive: false });
+
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('wheel', preventScroll);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (size.width > 0 && size.height > 0) {
+      onBoundsChange(viewportBounds(view.center, view.zoom, size.width, size.height));
+    }
+  }, [view, size, onBoundsChange]);
+
+  const middle = project(view.center, view.zoom);
+  const originX = middle.x - size.width / 2;
+  const originY = middle.y - size.height / 2;
+
+  /**
+   * Move the map so the given world point sits at the center, keeping the
+   * map from scrolling past the top or bottom of the world
+   */
+  const centerOn = (point: { x: number; y: number }, zoom: number) => {
+    const world = worldSize(zoom);
+    const halfHeight = Math.min(size.height / 2, world / 2);
+    const y = Math.min(world - halfHeight, Math.max(halfHeight, point.y));
+    const x = ((point.x % world) + world) % world;
+    onViewChange({ center: unproject({ x, y }, zoom), zoom });
+  };
+
+  // Zoom keeping the map position under (screenX, screenY) fixed
+  const zoomAround = (nextZoom: number, screenX = size.width / 2, screenY = size.height / 2) => {
+    const zoom = clampZoom(nextZoom);
+    if (zoom === view.zoom) return;
+
+    const anchor = unproject({ x: originX + screenX, y: originY + screenY }, view.zoom);
+    const anchorPoint = project(anchor, zoom);
+    setOpenClusterKey(null);
+    centerOn(
+      { x: anchorPoint.x - screenX + size.width / 2, y: anchorPoint.y - screenY + size.height / 2 },
+      zoom
+    );
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, origin: middle };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    centerOn(
+      { x: drag.origin.x - (e.clientX - drag.pointerX), y: drag.origin.y - (e.clientY - drag.pointerY) },
+      view.zoom
+    );
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    dragRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    if (e.deltaY === 0 || e.timeStamp - lastWheelZoomRef.current < WHEEL_ZOOM_INTERVAL_MS) return;
+    lastWheelZoomRef.current = e.timeStamp;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    zoomAround(view.zoom + (e.deltaY < 0 ? 1 : -1), e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  // Tiles covering the viewport; x wraps around the world, y doesn't
+  const tiles = useMemo(() => {
+    const tileCount = Math.pow(2, view.zoom);
+    const result: { key: string; url: string; left: number; top: number }[] = [];
+
+    for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + size.width) / TILE_SIZE); tx++) {
+      for (
+        let ty = Math.max(0, Math.floor(originY / TILE_SIZE));
+        ty <= Math.min(tileCount - 1, Math.floor((originY + size.height) / TILE_SIZE));
+        ty++
+      ) {
+        const x = ((tx % tileCount) + tileCount) % tileCount;
+        result.push({
+          key: `${view.zoom}/${tx}/${ty}`,
+          url: `https://tile.openstreetmap.org/${view.zoom}/${x}/${ty}.png`,
+          left: tx * TILE_SIZE - originX,
+          top: ty * TILE_SIZE - originY,
+        });
+      }
+    }
+
+    return result;
+  }, [view.zoom, originX, originY, size.width, size.height]);
+
+  const clusters = useMemo(() => {
+    const pins: MapPin<PropertyListing>[] = listings
+      .filter((listing) => listing.latitude !== null && listing.longitude !== null)
+      .map((listing) => ({
+        id: listing.id,
+        // DECIMAL columns arrive as strings
+        position: { latitude: Number(listing.latitude), longitude: Number(listing.longitude) },
+        item: listing,
+      }));
+    return clusterPins(pins, view.zoom);
+  }, [listings, view.zoom]);
+
+  const openCluster = clusters.find((cluster) => cluster.key === openClusterKey) || null;
+
+  return (
+    <div
+      ref={containerRef}
+      className={styles.map}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={handleWheel}
+      role="application"
+      aria-label="Map of listings"
+    >
+      {tiles.map((tile) => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          className={styles.tile}
+          style={{ left: tile.left, top: tile.top }}
+          draggable={false}
+        />
+      ))}
+
+      {clusters.map((cluster) => {
+        const left = cluster.point.x - originX;
+        const top = cluster.point.y - originY;
+        if (left < -40 || top < -40 || left > size.width + 40 || top > size.height + 40) {
+          return null;
+        }
+
+        const count = cluster.pins.length;
+        const highlighted = cluster.pins.some((pin) => pin.id === highlightedListingId);
+
+        return (
+          <button
+            key={cluster.key}
+            type="button"
+            className={`${count > 1 ? styles.cluster : styles.pin} ${highlighted ? styles.highlighted : ''}`}
+            style={{ left, top }}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => {
+              if (count > 1 && view.zoom < CLUSTER_EXPAND_ZOOM) {
+                const zoom = clampZoom(view.zoom + 2);
+                setOpenClusterKey(null);
+                centerOn(project(unproject(cluster.point, view.zoom), zoom), zoom);
+              } else {
+                setOpenClusterKey(cluster.key === openClusterKey ? null : cluster.key);
+              }
+            }}
+            aria-label={count > 1 ? `${count} listings` : cluster.pins[0].item.title}
+          >
+            {count > 1 ? count : ''}
+          </button>
+        );
+      })}
+
+      {openCluster && (
+        <div
+          className={styles.popup}
+          style={{ left: openCluster.point.x - originX, top: openCluster.point.y - originY }}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          {openCluster.pins.map((pin) => (
+            <button
+              key={pin.id}
+              type="button"
+              className={styles.popupItem}
+              onClick={() => onOpenListing(pin.id)}
+            >
+              <span className={styles.popupTitle}>{pin.item.title}</span>
+              <span className={styles.popupMeta}>
+                {new Intl.NumberFormat('en-US').format(pin.item.sqft)} SF · {formatPrice(pin.item.asking_price)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className={styles.zoomControls} onPointerDown={(e) => e.stopPropagation()}>
+        <button type="button" onClick={() => zoomAround(view.zoom + 1)} aria-label="Zoom in">
+          +
+        </button>
+        <button type="button" onClick={() => zoomAround(view.zoom - 1)} aria-label="Zoom out">
+          −
+        </button>
+      </div>
+
+      <div className={styles.attribution}>
+        ©{' '}
+        <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noopener noreferrer">
+          OpenStreetMap
+        </a>{' '}
+        contributors
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  getPropertyListing,
+  getListingDocuments,
+  getListingMediaUrl,
+  uploadListingPhotos,
+  updateListingPhoto,
+  reorderListingPhotos,
+  deleteListingPhoto,
+  uploadListingDocument,
+  updateListingDocument,
+  deleteListingDocument,
+} from '@utils/apiClient';
+import { ListingDocument, ListingDocumentVisibility, PropertyListingPhoto } from '@types';
+import styles from './ListingMediaManager.module.css';
+
+interface ListingMediaManagerProps {
+  listingId: string;
+  // Called after photos or documents change, so the page can refresh the listing
+  onChange?: () => void;
+}
+
+// Matches the server's per-request limit
+const PHOTOS_PER_UPLOAD = 10;
+
+const VISIBILITY_OPTIONS = [
+  { value: ListingDocumentVisibility.PUBLIC, label: 'Anyone' },
+  { value: ListingDocumentVisibility.INQUIRED, label: 'Tenants who have inquired' },
+];
+
+// API errors arrive as { code, message } objects
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message || (typeof err?.message === 'string' ? err.message : null) || fallback;
+
+const uploadedOnly = (photos: PropertyListingPhoto[]) => photos.filter((photo) => photo.media_id);
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+/**
+ * ListingMediaManager Component
+ *
+ * Manage an existing listing's uploaded photos and documents
+ * - Upload several photos at once
+ * - Drag photos (or use the arrow buttons) to reorder them
+ * - Edit captions and choose the cover photo
+ * - Upload flyers and floor plans, public or only for tenants who have inquired
+ */
+export const ListingMediaManager: React.FC<ListingMediaManagerProps> = ({ listingId, onChange }) => {
+  const [photos, setPhotos] = useState<PropertyListingPhoto[]>([]);
+  const [documents, setDocuments] = useState<ListingDocument[]>([]);
+  const [captions, setCaptions] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [documentName, setDocumentName] = useState('');
+  const [documentVisibility, setDocumentVisibility] = useState(ListingDocumentVisibility.PUBLIC);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  // Order last saved on the server, to put back if a reorder fails
+  const savedPhotosRef = useRef<PropertyListingPhoto[]>([]);
+
+  const applyPhotos = useCallback((next: PropertyListingPhoto[]) => {
+    const uploaded = uploadedOnly(next);
+    savedPhotosRef.current = uploaded;
+    setPhotos(uploaded);
+    setCaptions(Object.fromEntries(uploaded.map((photo) => [photo.media_id as string, photo.caption || ''])));
+  }, []);
+
+  useEffect(() => {
+    const loadMedia = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const [{ listing }, listingDocuments] = await Promise.all([
+          getPropertyListing(listingId),
+          getListingDocuments(listingId),
+        ]);
+        applyPhotos(listing.photos || []);
+        setDocuments(listingDocuments);
+      } catch (err: any) {
+        setError(getErrorMessage(err, 'Failed to load photos and documents'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMedia();
+  }, [listingId, applyPhotos]);
+
+  /**
+   * Run a change, showing its error and telling the page when it succeeds
+   */
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+      onChange?.();
+    } catch (err: any) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePhotoFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    run(async () => {
+      for (let start = 0; start < files.length; start += PHOTOS_PER_UPLOAD) {
+        applyPhotos(await uploadListingPhotos(listingId, files.slice(start, start + PHOTOS_PER_UPLOAD)));
+      }
+    }, 'Failed to upload photos');
+  };
+
+  const saveOrder = (ordered: PropertyListingPhoto[]) => {
+    const ids = ordered.map((photo) => photo.media_id as string);
+    const savedIds = savedPhotosRef.current.map((photo) => photo.media_id);
+    if (ids.every((id, index) => id === savedIds[index])) return;
+
+    run(async () => {
+      try {
+        applyPhotos(await reorderListingPhotos(listingId, ids));
+      } catch (err) {
+        setPhotos(savedPhotosRef.current);
+        throw err;
+      }
+    }, 'Failed to save the photo order');
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+    setPhotos((current) => moveItem(current, dragIndex, index));
+    setDragIndex(index);
+  };
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    saveOrder(photos);
+  };
+
+  const handleCaptionBlur = (photo: PropertyListingPhoto) => {
+    const caption = (captions[photo.media_id as string] || '').trim();
+    if (caption === (photo.caption || '')) return;
+
+    run(async () => {
+      applyPhotos(await updateListingPhoto(listingId, photo.media_id as string, { caption: caption || null }));
+    }, 'Failed to save the caption');
+  };
+
+  const handleMakeCover = (photo: PropertyListingPhoto) =>
+    run(async () => {
+      applyPhotos(await updateListingPhoto(listingId, photo.media_id as string, { is_cover: true }));
+    }, 'Failed to set the cover photo');
+
+  const handleDeletePhoto = (photo: PropertyListingPhoto) => {
+    if (!window.confirm('Delete this photo?')) return;
+
+    run(async () => {
+      applyPhotos(await deleteListingPhoto(listingId, photo.media_id as string));
+    }, 'Failed to delete the photo');
+  };
+
+  const handleUploadDocument = () => {
+    if (!documentFile) return;
+
+    run(async () => {
+      const document = await uploadListingDocument(listingId, documentFile, {
+        name: documentName.trim() || undefined,
+        visibility: documentVisibility,
+      });
+      setDocuments((current) => [...current, document]);
+      setDocumentFile(null);
+      setDocumentName('');
+      if (documentInputRef.current) documentInputRef.current.value = '';
+    }, 'Failed to upload the document');
+  };
+
+  const handleVisibilityChange = (document: ListingDocument, visibility: ListingDocumentVisibility) =>
+    run(async () => {
+      const updated = await updateListingDocument(listingId, document.id, { visibility });
+      setDocuments((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+    }, 'Failed to update the document');
+
+  const handleDeleteDocument = (document: ListingDocument) => {
+    if (!window.confirm(`Delete ${document.name}?`)) return;
+
+    run(async () => {
+      await deleteListingDocument(listingId, document.id);
+      setDocuments((current) => current.filter((item) => item.id !== document.id));
+    }, 'Failed to delete the document');
+  };
+
+  if (loading) {
+    return <p className={styles.muted}>Loading photos and documents...</p>;
+  }
+
+  return (
+    <div className={styles.manager}>
+      {error && (
+        <div className={styles.errorMessage} role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className={styles.header}>
+        <span className={styles.muted}>
+          JPG, PNG or WebP up to 20 MB. Drag photos to reorder them; the cover photo is shown first.
+        </span>
+        <label className={styles.uploadButton}>
+          {busy ? 'Working...' : 'Add Photos'}
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            multiple
+            onChange={handlePhotoFiles}
+            disabled={busy}
+            className={styles.hiddenInput}
+          />
+        </label>
+      </div>
+
+      {photos.length === 0 ? (
+        <p className={styles.muted}>No photos yet.</p>
+      ) : (
+        <ul className={styles.photoGrid}>
+          {photos.map((photo, index) => (
+            <li
+              key={photo.media_id}
+              className={`${styles.photoItem} ${dragIndex === index ? styles.dragging : ''}`}
+              draggable={!busy}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDragEnd={handleDragEnd}
+            >
+              <div className={styles.thumbnailWrapper}>
+                <img
+                  src={getListingMediaUrl(photo.thumbnail_url || photo.url)}
+                  alt={photo.caption || `Photo ${index + 1}`}
+                  className={styles.thumbnail}
+                  draggable={false}
+                />
+                {photo.is_cover && <span className={styles.coverBadge}>Cover</span>}
+              </div>
+              <input
+                type="text"
+                className={styles.input}
+                value={captions[photo.media_id as string] || ''}
+                onChange={(e) => setCaptions((current) => ({ ...current, [photo.media_id as string]: e.target.value }))}
+                onBlur={() => handleCaptionBlur(photo)}
+                placeholder="Caption"
+                maxLength={500}
+                disabled={busy}
+                aria-label={`Caption for photo ${index + 1}`}
+              />
+              <div className={styles.photoActions}>
+                <button
+                  type="button"
+                  className={styles.iconButton}
+                  onClick={() => saveOrder(moveItem(photos, index, index - 1))}
+                  disabled={busy || index === 0}
+                  aria-label="Move earlier"
+                >
+                  ←
+                </button>
+                <button
+                  type="button"
+                  className={styles.iconButton}
+                  onClick={() => saveOrder(moveItem(photos, index, index + 1))}
+                  disabled={busy || index === photos.length - 1}
+                  aria-label="Move later"
+                >
+                  →
+                </button>
+                {!photo.is_cover && (
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => handleMakeCover(photo)}
+                    disabled={busy}
+                  >
+                    Make cover
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className={`${styles.linkButton} ${styles.danger}`}
+                  onClick={() => handleDeletePhoto(photo)}
+                  disabled={busy}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h4 className={styles.subheading}>Documents</h4>
+      {documents.length > 0 && (
+        <ul className={styles.documentList}>
+          {documents.map((document) => (
+            <li key={document.id} className={styles.documentItem}>
+              <span className={styles.documentName}>{document.name}</span>
+              <select
+                className={styles.input}
+                value={document.visibility}
+                onChange={(e) => handleVisibilityChange(document, e.target.value as ListingDocumentVisibility)}
+                disabled={busy}
+                aria-label={`Who can see ${document.name}`}
+              >
+                {VISIBILITY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className={`${styles.linkButton} ${styles.danger}`}
+                onClick={() => handleDeleteDocument(document)}
+                disabled={busy}
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.documentForm}>
+        <input
+          ref={documentInputRef}
+          type="file"
+          accept="application/pdf,image/jpeg,image/png"
+          onChange={(e) => setDocumentFile(e.target.files?.[0] || null)}
+          disabled={busy}
+          className={styles.input}
+          aria-label="Document file"
+        />
+        <input
+          type="text"
+          className={styles.input}
+          value={documentName}
+          onChange={(e) => setDocumentName(e.target.value)}
+          placeholder="Name (e.g., Floor Plan)"
+          maxLength={255}
+          disabled={busy}
+          aria-label="Document name"
+        />
+        <select
+          className={styles.input}
+          value={documentVisibility}
+          onChange={(e) => setDocumentVisibility(e.target.value as ListingDocumentVisibility)}
+          disabled={busy}
+          aria-label="Who can see the document"
+        >
+          {VISIBILITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className={styles.uploadButton}
+          onClick={handleUploadDocument}
+          disabled={busy || !documentFile}
+        >
+          Upload
+        </button>
+      </div>
+      <span className={styles.muted}>PDF, JPG or PNG up to 25 MB, such as a flyer or floor plan.</span>
+    </div>
+  );
+};
@@ -1,41 +1,101 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Message, MessageAttachment, MessageTemplate } from '@types';
 import styles from './MessageInput.module.css';
 
-interface Attachment {
+const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // 25 MB, enforced again by the server
+const ACCEPTED_FILE_TYPES = 'image/jpeg,image/png,image/gif,image/webp,.pdf,.doc,.docx,.xls,.xlsx,.txt,.csv';
+
+// Format a date for a datetime-local input, in the viewer's timezone
+const toLocalInputValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+/**
+ * File picked in the input: uploading, uploaded, or failed
+ */
+interface PendingAttachment {
+  key: string;
   name: string;
-  url: string;
-  type?: string;
-  size?: number;
+  status: 'uploading' | 'uploaded' | 'failed';
+  attachment?: MessageAttachment;
+  error?: string;
 }
 
 interface MessageInputProps {
-  onSend: (content: string, attachments?: Attachment[]) => void;
+  onSend: (content: string, attachments?: MessageAttachment[]) => void;
+  onUploadAttachment?: (file: File) => Promise<MessageAttachment>;
   onTypingStart?: () => void;
   onTypingStop?: () => void;
+  replyingTo?: Message | null;
+  onCancelReply?: () => void;
   disabled?: boolean;
   placeholder?: string;
   maxLength?: number;
+  // Canned responses offered when the message starts with "/"
+  templates?: MessageTemplate[];
+  onInsertTemplate?: (template: MessageTemplate) => Promise<string>;
+  onManageTemplates?: () => void;
+  // Send the message later instead of now
+  onSchedule?: (content: string, sendAt: Date, attachments?: MessageAttachment[]) => Promise<void>;
 }
 
 /**
  * MessageInput Component
- * Text input with attachment support and typing indicators
+ * Text input with attachment support, replies and typing indicators
+ * Files upload as soon as they are picked; the message sends once they finish
+ * Typing "/" opens a picker that replaces the message with a filled-in template
+ * The clock button schedules the message for a later time instead of sending it
  */
 export const MessageInput: React.FC<MessageInputProps> = ({
   onSend,
+  onUploadAttachment,
   onTypingStart,
   onTypingStop,
+  replyingTo,
+  onCancelReply,
   disabled = false,
   placeholder = 'Type a message...',
   maxLength = 5000,
+  templates = [],
+  onInsertTemplate,
+  onManageTemplates,
+  onSchedule,
 }) => {
   const [content, setContent] = useState('');
-  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
   const [isTyping, setIsTyping] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Slash-command template picker
+  const [pickerIndex, setPickerIndex] = useState(0);
+  const [pickerDismissed, setPickerDismissed] = useState(false);
+  const [insertingTemplate, setInsertingTemplate] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  // Schedule send
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [scheduling, setScheduling] = useState(false);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+
+  const slashQuery = onInsertTemplate ? /^\/(\S*)$/.exec(content)?.[1] : undefined;
+  const showTemplatePicker = slashQuery !== undefined && !pickerDismissed;
+  const matchingTemplates = useMemo(() => {
+    if (slashQuery === undefined) return [];
+    const query = slashQuery.toLowerCase();
+    return templates.filter((template) => template.name.toLowerCase().includes(query));
+  }, [templates, slashQuery]);
+
+  // Focus the input when starting a reply
+  useEffect(() => {
+    if (replyingTo) {
+      textareaRef.current?.focus();
+    }
+  }, [replyingTo]);
+
   // Auto-resize textarea
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -78,18 +138,22 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     const value = e.target.value;
     if (value.length <= maxLength) {
       setContent(value);
+      setPickerIndex(0);
+      setPickerDismissed(false);
+      setTemplateError(null);
       if (value.trim()) {
         handleTyping();
       }
     }
   };
 
-  // Handle send
-  const handleSend = () => {
-    const trimmedContent = content.trim();
-    if (!trimmedContent && attachments.length === 0) return;
+  const uploadedAttachments = attachments
+    .filter((pending) => pending.status === 'uploaded' && pending.attachment)
+    .map((pending) => pending.attachment as MessageAttachment);
+  const isUploading = attachments.some((pending) => pending.status === 'uploading');
 
-    onSend(trimmedContent, attachments.length > 0 ? attachments : undefined);
+  // Clear the composer once a message is sent or scheduled
+  const resetComposer = () => {
     setContent('');
     setAttachments([]);
 
@@ -106,28 +170,136 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     textareaRef.current?.focus();
   };
 
+  // Handle send
+  const handleSend = () => {
+    const trimmedContent = content.trim();
+    if (isUploading || (!trimmedContent && uploadedAttachments.length === 0)) return;
+
+    onSend(trimmedContent, uploadedAttachments.length > 0 ? uploadedAttachments : undefined);
+    resetComposer();
+  };
+
+  const toggleSchedule = () => {
+    if (!showSchedule && !scheduleAt) {
+      // Default to the top of the next hour
+      const nextHour = new Date();
+      nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0);
+      setScheduleAt(toLocalInputValue(nextHour));
+    }
+    setScheduleError(null);
+    setShowSchedule((prev) => !prev);
+  };
+
+  // Handle schedule send
+  const handleSchedule = async () => {
+    const trimmedContent = content.trim();
+    if (!onSchedule || isUploading || (!trimmedContent && uploadedAttachments.length === 0)) return;
+
+    const sendAt = new Date(scheduleAt);
+    if (Number.isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+      setScheduleError('Pick a time in the future');
+      return;
+    }
+
+    try {
+      setScheduling(true);
+      setScheduleError(null);
+      await onSchedule(
+        trimmedContent,
+        sendAt,
+        uploadedAttachments.length > 0 ? uploadedAttachments : undefined
+      );
+      resetComposer();
+      setShowSchedule(false);
+      setScheduleAt('');
+    } catch (err: any) {
+      setScheduleError(err?.data?.error?.message || err?.message || 'Failed to schedule message');
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  // Replace the slash command with the filled-in template
+  const insertTemplate = async (template: MessageTemplate) => {
+    if (!onInsertTemplate) return;
+
+    try {
+      setInsertingTemplate(true);
+      setTemplateError(null);
+      const text = await onInsertTemplate(template);
+      setContent(text.slice(0, maxLength));
+      textareaRef.current?.focus();
+    } catch (err: any) {
+      setTemplateError(err?.data?.error?.message || err?.message || 'Failed to insert template');
+    } finally {
+      setInsertingTemplate(false);
+    }
+  };
+
   // Handle key press
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showTemplatePicker && matchingTemplates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setPickerIndex((prev) => (prev + step + matchingTemplates.length) % matchingTemplates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertTemplate(matchingTemplates[Math.min(pickerIndex, matchingTemplates.length - 1)]);
+        return;
+      }
+    }
+    if (showTemplatePicker && e.key === 'Escape') {
+      setPickerDismissed(true);
+      return;
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && replyingTo) {
+      onCancelReply?.();
     }
   };
 
-  // Handle file selection
+  const replyingToName = replyingTo?.sender?.profile
+    ? `${replyingTo.sender.profile.first_name} ${replyingTo.sender.profile.last_name}`
+    : replyingTo?.sender?.email || 'message';
+
+  const updateAttachment = (key: string, changes: Partial<PendingAttachment>) => {
+    setAttachments((prev) =>
+      prev.map((pending) => (pending.key === key ? { ...pending, ...changes } : pending))
+    );
+  };
+
+  // Handle file selection: upload each file right away
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
-    if (!files || files.length === 0) return;
+    if (!files || files.length === 0 || !onUploadAttachment) return;
 
-    // For now, just add file names (in a real app, you'd upload to a storage service)
-    const newAttachments: Attachment[] = Array.from(files).map((file) => ({
-      name: file.name,
-      url: URL.createObjectURL(file), // This would be replaced with actual upload URL
-      type: file.type,
-      size: file.size,
-    }));
+    Array.from(files).forEach((file) => {
+      const key = `${file.name}-${file.size}-${Date.now()}-${Math.random()}`;
 
-    setAttachments((prev) => [...prev, ...newAttachments]);
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        setAttachments((prev) => [
+          ...prev,
+          { key, name: file.name, status: 'failed', error: 'Larger than 25 MB' },
+        ]);
+        return;
+      }
+
+      setAttachments((prev) => [...prev, { key, name: file.name, status: 'uploading' }]);
+      onUploadAttachment(file)
+        .then((attachment) => updateAttachment(key, { status: 'uploaded', attachment }))
+        .catch((err: any) =>
+          updateAttachment(key, {
+            status: 'failed',
+            error: err?.data?.error?.message || err?.message || 'Upload failed',
+          })
+        );
+    });
 
     // Reset file input
     if (fileInputRef.current) {
@@ -135,9 +307,9 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
   };
 
-  // Remove attachment
-  const removeAttachment = (index: number) => {
-    setAttachments((prev) => prev.filter((_, i) => i !== index));
+  // Remove attachment (an uploaded file that is never sent is simply not attached)
+  const removeAttachment = (key: string) => {
+    setAttachments((prev) => prev.filter((pending) => pending.key !== key));
   };
 
   // Get character count class
@@ -148,22 +320,54 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     return '';
   };
 
-  const canSend = (content.trim().length > 0 || attachments.length > 0) && !disabled;
+  const canSend =
+    (content.trim().length > 0 || uploadedAttachments.length > 0) && !isUploading && !disabled;
 
   return (
     <div className={styles.messageInputContainer}>
+      {/* Message being replied to */}
+      {replyingTo && (
+        <div className={styles.replyPreview}>
+          <div className={styles.replyPreviewText}>
+            <span className={styles.replyPreviewLabel}>Replying to {replyingToName}</span>
+            <span className={styles.replyPreviewContent}>
+              {replyingTo.content || 'Attachment'}
+            </span>
+          </div>
+          <button
+            className={styles.removeAttachment}
+            onClick={onCancelReply}
+            aria-label="Cancel reply"
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
+
       {/* Attachments preview */}
       {attachments.length > 0 && (
         <div className={styles.attachmentsPreview}>
-          {attachments.map((attachment, index) => (
-            <div key={index} className={styles.attachmentItem}>
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.key}
+              className={`${styles.attachmentItem} ${attachment.status === 'failed' ? styles.attachmentFailed : ''}`}
+              title={attachment.error}
+            >
               <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                 <path d="M21.44 11.05l-9.19 9.19a6 6 0 01-8.49-8.49l9.19-9.19a4 4 0 015.66 5.66l-9.2 9.19a2 2 0 01-2.83-2.83l8.49-8.48" />
               </svg>
               <span className={styles.attachmentName}>{attachment.name}</span>
+              {attachment.status === 'uploading' && (
+                <span className={styles.attachmentStatus}>Uploading...</span>
+              )}
+              {attachment.status === 'failed' && (
+                <span className={styles.attachmentStatus}>{attachment.error}</span>
+              )}
               <button
                 className={styles.removeAttachment}
-                onClick={() => removeAttachment(index)}
+                onClick={() => removeAttachment(attachment.key)}
                 aria-label={`Remove ${attachment.name}`}
               >
                 <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -175,13 +379,84 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         </div>
       )}
 
+      {/* Slash-command template picker */}
+      {showTemplatePicker && (
+        <div className={styles.templatePicker} role="listbox" aria-label="Message templates">
+          {insertingTemplate ? (
+            <div className={styles.templatePickerEmpty}>Inserting template...</div>
+          ) : matchingTemplates.length === 0 ? (
+            <div className={styles.templatePickerEmpty}>
+              {templates.length === 0 ? 'No templates yet' : `No templates match "/${slashQuery}"`}
+            </div>
+          ) : (
+            matchingTemplates.map((template, index) => (
+              <button
+                key={template.id}
+                className={`${styles.templateOption} ${index === pickerIndex ? styles.templateOptionActive : ''}`}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertTemplate(template)}
+                role="option"
+                aria-selected={index === pickerIndex}
+              >
+                <span className={styles.templateOptionName}>
+                  /{template.name}
+                  {template.business_name && (
+                    <span className={styles.templateOptionTeam}>{template.business_name}</span>
+                  )}
+                </span>
+                <span className={styles.templateOptionContent}>{template.content}</span>
+              </button>
+            ))
+          )}
+          {templateError && <div className={styles.templatePickerError}>{templateError}</div>}
+          {onManageTemplates && (
+            <button
+              className={styles.templatePickerManage}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onManageTemplates}
+            >
+              Manage templates
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Schedule send */}
+      {showSchedule && onSchedule && (
+        <div className={styles.schedulePanel}>
+          <label className={styles.scheduleLabel} htmlFor="message-schedule-at">
+            Send at
+          </label>
+          <input
+            id="message-schedule-at"
+            type="datetime-local"
+            className={styles.scheduleInput}
+            value={scheduleAt}
+            min={toLocalInputValue(new Date())}
+            onChange={(e) => {
+              setScheduleAt(e.target.value);
+              setScheduleError(null);
+            }}
+            disabled={scheduling}
+          />
+          <button
+            className={styles.scheduleButton}
+            onClick={handleSchedule}
+            disabled={!canSend || !scheduleAt || scheduling}
+          >
+            {scheduling ? 'Scheduling...' : 'Schedule'}
+          </button>
+          {scheduleError && <span className={styles.scheduleError}>{scheduleError}</span>}
+        </div>
+      )}
+
       {/* Input wrapper */}
       <div className={styles.inputWrapper}>
         {/* Attach button */}
         <button
           className={styles.attachButton}
           onClick={() => fileInputRef.current?.click()}
-          disabled={disabled}
+          disabled={disabled || !onUploadAttachment}
           aria-label="Attach file"
           title="Attach file"
         >
@@ -197,7 +472,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           multiple
           className={styles.fileInput}
           onChange={handleFileSelect}
-          accept="image/*,.pdf,.doc,.docx,.txt"
+          accept={ACCEPTED_FILE_TYPES}
         />
 
         {/* Text input */}
@@ -215,6 +490,23 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           />
         </div>
 
+        {/* Schedule button */}
+        {onSchedule && (
+          <button
+            className={`${styles.attachButton} ${showSchedule ? styles.attachButtonActive : ''}`}
+            onClick={toggleSchedule}
+            disabled={disabled}
+            aria-label="Schedule message"
+            aria-pressed={showSchedule}
+            title="Send later"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10" />
+              <path d="M12 6v6l4 2" />
+            </svg>
+          </button>
+        )}
+
         {/* Send button */}
         <button
           className={styles.sendButton}
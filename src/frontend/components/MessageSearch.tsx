@@ -0,0 +1,295 @@
+import React, { useState, useMemo } from 'react';
+import { searchMessages } from '@utils/apiClient';
+import { ConversationWithDetails, MessageSearchResult } from '@types';
+import styles from './MessageSearch.module.css';
+
+interface MessageSearchProps {
+  conversations: ConversationWithDetails[];
+  currentUserId: string;
+  onSelectResult: (conversation: ConversationWithDetails, message: MessageSearchResult) => void;
+  onClose: () => void;
+}
+
+interface SearchFilters {
+  conversationId: string;
+  senderId: string;
+  from: string;
+  to: string;
+  hasAttachment: boolean;
+}
+
+const EMPTY_FILTERS: SearchFilters = {
+  conversationId: '',
+  senderId: '',
+  from: '',
+  to: '',
+  hasAttachment: false,
+};
+
+const getErrorMessage = (err: unknown, fallback: string): string =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+/**
+ * Render a search excerpt, turning the <mark></mark> delimiters into
+ * highlights. The excerpt is raw message text, so it is never set as HTML.
+ */
+const HighlightedText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+        <mark key={index} className={styles.highlight}>
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+/**
+ * MessageSearch Component
+ * Full-text search across the user's conversations
+ *
+ * Features:
+ * - Web-search syntax: "quoted phrases", -excluded words, or
+ * - Filters by conversation, sender, date range and attachments
+ * - Ranked results with highlighted excerpts, loaded a page at a time
+ */
+export const MessageSearch: React.FC<MessageSearchProps> = ({
+  conversations,
+  currentUserId,
+  onSelectResult,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [searched, setSearched] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get display name for a conversation
+  const getConversationName = (conversation: ConversationWithDetails): string => {
+    if (conversation.subject) return conversation.subject;
+
+    const otherParticipant = conversation.participants?.find((p) => p.user_id !== currentUserId);
+    if (otherParticipant?.user?.profile) {
+      return `${otherParticipant.user.profile.first_name} ${otherParticipant.user.profile.last_name}`;
+    }
+    return otherParticipant?.user?.email || 'Unknown User';
+  };
+
+  // Everyone the user has a conversation with, for the sender filter
+  const senders = useMemo(() => {
+    const byId = new Map<string, string>();
+    conversations.forEach((conversation) => {
+      conversation.participants?.forEach((participant) => {
+        if (participant.user_id === currentUserId || byId.has(participant.user_id)) return;
+        const profile = participant.user?.profile;
+        byId.set(
+          participant.user_id,
+          profile ? `${profile.first_name} ${profile.last_name}` : participant.user?.email || 'Unknown User'
+        );
+      });
+    });
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [conversations, currentUserId]);
+
+  const conversationsById = useMemo(
+    () => new Map(conversations.map((conversation) => [conversation.id, conversation])),
+    [conversations]
+  );
+
+  const runSearch = async (cursor?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await searchMessages(query.trim(), {
+        conversation_id: filters.conversationId || undefined,
+        sender_id: filters.senderId || undefined,
+        // Date inputs are local calendar days; include the whole "to" day
+        from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+        to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+        has_attachment: filters.hasAttachment || undefined,
+        cursor,
+      });
+
+      setResults((prev) => (cursor ? [...prev, ...data.messages] : data.messages));
+      setNextCursor(data.nextCursor);
+      setSearched(true);
+    } catch (err) {
+      console.error('Failed to search messages:', err);
+      setError(getErrorMessage(err, 'Failed to search messages'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim().length < 2) {
+      setError('Enter at least 2 characters to search');
+      return;
+    }
+    runSearch();
+  };
+
+  const updateFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const getSenderName = (message: MessageSearchResult): string => {
+    if (message.sender_id === currentUserId) return 'You';
+    const profile = message.sender?.profile;
+    return profile ? `${profile.first_name} ${profile.last_name}` : message.sender?.email || 'Unknown User';
+  };
+
+  const formatDate = (date: Date | string): string =>
+    new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div className={styles.messageSearch}>
+      <div className={styles.header}>
+        <h2 className={styles.title}>Search Messages</h2>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close search">
+          ×
+        </button>
+      </div>
+
+      <form className={styles.form} onSubmit={handleSubmit}>
+        <input
+          type="search"
+          className={styles.searchInput}
+          placeholder='Search, e.g. "floor plan" -draft'
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Search messages"
+          autoFocus
+        />
+
+        <div className={styles.filters}>
+          <select
+            className={styles.select}
+            value={filters.conversationId}
+            onChange={(e) => updateFilter('conversationId', e.target.value)}
+            aria-label="Conversation"
+          >
+            <option value="">All conversations</option>
+            {conversations.map((conversation) => (
+              <option key={conversation.id} value={conversation.id}>
+                {getConversationName(conversation)}
+              </option>
+            ))}
+          </select>
+
+          <select
+            className={styles.select}
+            value={filters.senderId}
+            onChange={(e) => updateFilter('senderId', e.target.value)}
+            aria-label="Sender"
+          >
+            <option value="">From anyone</option>
+            <option value={currentUserId}>From me</option>
+            {senders.map((sender) => (
+              <option key={sender.id} value={sender.id}>
+                From {sender.name}
+              </option>
+            ))}
+          </select>
+
+          <div className={styles.dateRange}>
+            <input
+              type="date"
+              className={styles.dateInput}
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              aria-label="From date"
+            />
+            <span className={styles.dateSeparator}>to</span>
+            <input
+              type="date"
+              className={styles.dateInput}
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              aria-label="To date"
+            />
+          </div>
+
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={filters.hasAttachment}
+              onChange={(e) => updateFilter('hasAttachment', e.target.checked)}
+            />
+            Has attachments
+          </label>
+        </div>
+
+        <button type="submit" className={styles.searchButton} disabled={loading}>
+          {loading ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+
+      {error && <div className={styles.errorMessage}>{error}</div>}
+
+      <div className={styles.results}>
+        {searched && results.length === 0 && !loading ? (
+          <p className={styles.emptyText}>No messages found</p>
+        ) : (
+          results.map((message) => {
+            const conversation = conversationsById.get(message.conversation_id);
+
+            return (
+              <button
+                key={message.id}
+                type="button"
+                className={styles.resultItem}
+                onClick={() => conversation && onSelectResult(conversation, message)}
+                disabled={!conversation}
+              >
+                <div className={styles.resultHeader}>
+                  <span className={styles.resultSender}>{getSenderName(message)}</span>
+                  <span className={styles.resultDate}>{formatDate(message.created_at)}</span>
+                </div>
+                {conversation && (
+                  <span className={styles.resultConversation}>
+                    in {getConversationName(conversation)}
+                  </span>
+                )}
+                <p className={styles.resultExcerpt}>
+                  {message.highlight ? <HighlightedText text={message.highlight} /> : 'Sent an attachment'}
+                </p>
+                {message.attachments.length > 0 && (
+                  <span className={styles.resultAttachments}>
+                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21.44 11.05l-9.19 9.19a6 6 0 01-8.49-8.49l9.19-9.19a4 4 0 015.66 5.66l-9.2 9.19a2 2 0 01-2.83-2.83l8.49-8.48" />
+                    </svg>
+                    {message.attachments.map((attachment) => attachment.name).join(', ')}
+                  </span>
+                )}
+              </button>
+            );
+          })
+        )}
+
+        {nextCursor && (
+          <button
+            type="button"
+            className={styles.loadMoreButton}
+            onClick={() => runSearch(nextCursor)}
+            disabled={loading}
+          >
+            {loading ? 'Loading...' : 'Load more results'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageSearch;
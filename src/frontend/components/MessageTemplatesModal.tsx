@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  getBusinesses,
+  createMessageTemplate,
+  updateMessageTemplate,
+  deleteMessageTemplate,
+} from '@utils/apiClient';
+import { Business, BusinessMemberRole, MessageTemplate } from '@types';
+import styles from './MessageTemplatesModal.module.css';
+
+interface MessageTemplatesModalProps {
+  isOpen: boolean;
+  templates: MessageTemplate[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+interface TemplateFormState {
+  id: string | null;
+  name: string;
+  content: string;
+  business_id: string;
+}
+
+const EMPTY_FORM: TemplateFormState = { id: null, name: '', content: '', business_id: '' };
+
+// Filled from the property listing the conversation is about
+const TEMPLATE_VARIABLES = [
+  'title',
+  'address',
+  'city',
+  'state',
+  'sqft',
+  'asking_price',
+  'price_per_sqft',
+  'lease_type',
+  'cam_charges',
+  'available_date',
+  'min_lease_term',
+  'max_lease_term',
+  'contact_name',
+  'contact_email',
+  'contact_phone',
+];
+
+// API errors arrive as { code, message } objects on the rejected payload
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+/**
+ * MessageTemplatesModal Component
+ *
+ * Manage canned responses inserted from the composer with "/"
+ * - Personal templates, or templates shared with a business team the user administers
+ * - {{variables}} are filled from the conversation's property listing
+ */
+export const MessageTemplatesModal: React.FC<MessageTemplatesModalProps> = ({
+  isOpen,
+  templates,
+  onClose,
+  onChanged,
+}) => {
+  const [form, setForm] = useState<TemplateFormState>(EMPTY_FORM);
+  const [teamBusinesses, setTeamBusinesses] = useState<Business[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Businesses the user can share templates with (owner or admin)
+  const loadBusinesses = useCallback(async () => {
+    try {
+      const result = await getBusinesses({ limit: 100 });
+      setTeamBusinesses(
+        (result.items as (Business & { member_role?: BusinessMemberRole })[]).filter(
+          (business) =>
+            business.member_role === BusinessMemberRole.OWNER || business.member_role === BusinessMemberRole.ADMIN
+        )
+      );
+    } catch (err) {
+      console.error('Failed to load businesses:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(EMPTY_FORM);
+      setError(null);
+      loadBusinesses();
+    }
+  }, [isOpen, loadBusinesses]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      if (form.id) {
+        await updateMessageTemplate(form.id, { name: form.name, content: form.content });
+      } else {
+        await createMessageTemplate({
+          name: form.name,
+          content: form.content,
+          business_id: form.business_id || undefined,
+        });
+      }
+      setForm(EMPTY_FORM);
+      onChanged();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to save template'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: MessageTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      setError(null);
+      await deleteMessageTemplate(template.id);
+      if (form.id === template.id) {
+        setForm(EMPTY_FORM);
+      }
+      onChanged();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to delete template'));
+    }
+  };
+
+  const insertVariable = (variable: string) => {
+    setForm((prev) => ({ ...prev, content: `${prev.content}{{${variable}}}` }));
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>Message Templates</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          {templates.length === 0 ? (
+            <p className={styles.muted}>No templates yet. Type "/" in a message to insert one.</p>
+          ) : (
+            <ul className={styles.templateList}>
+              {templates.map((template) => (
+                <li key={template.id} className={styles.templateItem}>
+                  <div className={styles.templateInfo}>
+                    <span className={styles.templateName}>
+                      /{template.name}
+                      {template.business_name && <span className={styles.badge}>{template.business_name}</span>}
+                    </span>
+                    <span className={styles.templatePreview}>{template.content}</span>
+                  </div>
+                  <div className={styles.templateActions}>
+                    <button
+                      className={styles.linkButton}
+                      onClick={() =>
+                        setForm({
+                          id: template.id,
+                          name: template.name,
+                          content: template.content,
+                          business_id: template.business_id || '',
+                        })
+                      }
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className={`${styles.linkButton} ${styles.danger}`}
+                      onClick={() => handleDelete(template)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form className={styles.form} onSubmit={handleSubmit}>
+            <h3 className={styles.formTitle}>{form.id ? 'Edit template' : 'New template'}</h3>
+
+            <label className={styles.label} htmlFor="template-name">
+              Name
+            </label>
+            <input
+              id="template-name"
+              className={styles.input}
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. cam-charges"
+              maxLength={100}
+              disabled={saving}
+              required
+            />
+
+            <label className={styles.label} htmlFor="template-content">
+              Message
+            </label>
+            <textarea
+              id="template-content"
+              className={styles.textarea}
+              rows={4}
+              value={form.content}
+              onChange={(e) => setForm((prev) => ({ ...prev, content: e.target.value }))}
+              placeholder="CAM charges are {{cam_charges}}/SF on a {{lease_type}} lease."
+              maxLength={5000}
+              disabled={saving}
+              required
+            />
+            <div className={styles.variables}>
+              {TEMPLATE_VARIABLES.map((variable) => (
+                <button
+                  key={variable}
+                  type="button"
+                  className={styles.variable}
+                  onClick={() => insertVariable(variable)}
+                  disabled={saving}
+                >
+                  {`{{${variable}}}`}
+                </button>
+              ))}
+            </div>
+
+            {!form.id && teamBusinesses.length > 0 && (
+              <>
+                <label className={styles.label} htmlFor="template-business">
+                  Share with
+                </label>
+                <select
+                  id="template-business"
+                  className={styles.input}
+                  value={form.business_id}
+                  onChange={(e) => setForm((prev) => ({ ...prev, business_id: e.target.value }))}
+                  disabled={saving}
+                >
+                  <option value="">Only me</option>
+                  {teamBusinesses.map((business) => (
+                    <option key={business.id} value={business.id}>
+                      {business.name} team
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+
+            <div className={styles.actions}>
+              {form.id && (
+                <button
+                  type="button"
+                  className={styles.secondaryButton}
+                  onClick={() => setForm(EMPTY_FORM)}
+                  disabled={saving}
+                >
+                  Cancel
+                </button>
+              )}
+              <button type="submit" className={styles.primaryButton} disabled={saving}>
+                {saving ? 'Saving...' : form.id ? 'Save Changes' : 'Add Template'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageTemplatesModal;
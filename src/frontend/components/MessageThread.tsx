@@ -1,5 +1,19 @@
-import React, { useEffect, useRef, useMemo } from 'react';
-import { Message, ConversationWithDetails, MessageStatus } from '@types';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
+import {
+  Message,
+  ConversationNudge,
+  ConversationParticipantRole,
+  ConversationWithDetails,
+  ListingInquiryCard,
+  MessageEdit,
+  MessageStatus,
+  MessageType,
+  ScheduledMessage,
+} from '@types';
+import { ConversationAvatar } from './ConversationAvatar';
+import { ConversationListingCard } from './ConversationListingCard';
+import { ConversationParticipantsPanel } from './ConversationParticipantsPanel';
+import { ReportModal } from './ReportModal';
 import styles from './MessageThread.module.css';
 
 interface MessageThreadProps {
@@ -9,13 +23,89 @@ interface MessageThreadProps {
   loading?: boolean;
   hasMore?: boolean;
   typingUsers?: string[];
+  // Users currently online, for the header's presence line
+  onlineUserIds?: Set<string>;
   onLoadMore?: () => void;
   onBack?: () => void;
+  onReply?: (message: Message) => void;
+  onEditMessage?: (messageId: string, content: string) => Promise<void>;
+  onToggleReaction?: (message: Message, emoji: string, reacted: boolean) => void;
+  onLoadEditHistory?: (messageId: string) => Promise<MessageEdit[]>;
+  onAddParticipants?: (emails: string[]) => Promise<void>;
+  onRemoveParticipant?: (userId: string) => Promise<void>;
+  onSetParticipantRole?: (userId: string, role: ConversationParticipantRole) => Promise<void>;
+  onRenameConversation?: (subject: string) => Promise<void>;
+  onSetNudge?: (nudge: ConversationNudge | null) => Promise<void>;
+  // The current user's messages waiting to be sent
+  scheduledMessages?: ScheduledMessage[];
+  onCancelScheduledMessage?: (scheduledMessageId: string) => void;
+  onBlockUser?: (userId: string) => Promise<void>;
 }
 
+// Who is being reported, and the message if it's a message report
+interface ReportTarget {
+  userId: string;
+  name: string;
+  messageId?: string;
+}
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '🙏', '🎉'];
+
+/**
+ * Edit history shown under an edited message
+ */
+interface EditHistoryState {
+  messageId: string;
+  edits: MessageEdit[];
+  loading: boolean;
+  error?: string;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatInquiryRange = (min: number | null, max: number | null, unit: string): string | null => {
+  const format = (value: number) => new Intl.NumberFormat('en-US').format(Number(value));
+  if (min && max) return `${format(min)} – ${format(max)} ${unit}`;
+  if (min) return `${format(min)}+ ${unit}`;
+  if (max) return `Up to ${format(max)} ${unit}`;
+  return null;
+};
+
+/**
+ * Structured card posted when a tenant inquires about a listing
+ */
+const InquiryCard: React.FC<{ card: ListingInquiryCard }> = ({ card }) => {
+  const details = [
+    card.business_name,
+    formatInquiryRange(card.sqft_min, card.sqft_max, 'SF'),
+    formatInquiryRange(card.budget_min, card.budget_max, 'USD/mo'),
+    card.move_in_date &&
+      `Move-in ${new Date(`${String(card.move_in_date).slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })}`,
+  ].filter(Boolean);
+
+  return (
+    <div className={styles.inquiryCard}>
+      <span className={styles.inquiryLabel}>Inquiry</span>
+      <span className={styles.inquiryTitle}>{card.property_title}</span>
+      {details.length > 0 && <span className={styles.inquiryDetails}>{details.join(' · ')}</span>}
+    </div>
+  );
+};
+
 /**
  * MessageThread Component
  * Displays messages in a conversation with real-time updates
+ * Messages can be replied to, reacted to, and edited by their sender
+ * Membership and subject changes appear as centered system messages
+ * The user's scheduled messages are listed below the thread until they send
  */
 export const MessageThread: React.FC<MessageThreadProps> = ({
   conversation,
@@ -24,13 +114,37 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
   loading = false,
   hasMore = false,
   typingUsers = [],
+  onlineUserIds,
   onLoadMore,
   onBack,
+  onReply,
+  onEditMessage,
+  onToggleReaction,
+  onLoadEditHistory,
+  onAddParticipants,
+  onRemoveParticipant,
+  onSetParticipantRole,
+  onRenameConversation,
+  onSetNudge,
+  scheduledMessages = [],
+  onCancelScheduledMessage,
+  onBlockUser,
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const prevMessagesLengthRef = useRef(messages.length);
 
+  // Inline editing
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistoryState | null>(null);
+  const [showParticipants, setShowParticipants] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     if (messages.length > prevMessagesLengthRef.current) {
@@ -39,30 +153,32 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
     prevMessagesLengthRef.current = messages.length;
   }, [messages.length]);
 
-  // Get other participant for display
-  const otherParticipant = useMemo(() => {
-    if (!conversation?.participants) return null;
-    return conversation.participants.find((p) => p.user_id !== currentUserId);
+  // Get other participants for display
+  const otherParticipants = useMemo(() => {
+    if (!conversation?.participants) return [];
+    return conversation.participants.filter((p) => p.user_id !== currentUserId);
   }, [conversation, currentUserId]);
+  const otherParticipant = otherParticipants[0];
+  const isGroup = otherParticipants.length > 1;
 
-  // Get display name
+  // Get display name; unnamed groups list their members' first names
   const displayName = useMemo(() => {
     if (conversation?.subject) return conversation.subject;
+    if (isGroup) {
+      return otherParticipants.map((p) => p.user?.profile?.first_name || p.user?.email || 'Unknown').join(', ');
+    }
     if (otherParticipant?.user?.profile) {
       return `${otherParticipant.user.profile.first_name} ${otherParticipant.user.profile.last_name}`;
     }
     return otherParticipant?.user?.email || 'Unknown User';
-  }, [conversation, otherParticipant]);
+  }, [conversation, otherParticipants, otherParticipant, isGroup]);
 
-  // Get avatar info
-  const avatarUrl = otherParticipant?.user?.profile?.photo_url || null;
-  const initials = useMemo(() => {
-    if (otherParticipant?.user?.profile) {
-      const { first_name, last_name } = otherParticipant.user.profile;
-      return `${first_name?.[0] || ''}${last_name?.[0] || ''}`.toUpperCase();
-    }
-    return otherParticipant?.user?.email?.[0]?.toUpperCase() || '?';
-  }, [otherParticipant]);
+  const getParticipantName = (userId: string): string => {
+    const participant = conversation?.participants.find((p) => p.user_id === userId);
+    return participant?.user?.profile
+      ? `${participant.user.profile.first_name} ${participant.user.profile.last_name}`
+      : participant?.user?.email || 'this user';
+  };
 
   // Format message timestamp
   const formatTime = (date: Date | string): string => {
@@ -120,6 +236,27 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
     return `${typingUsers.length} people typing...`;
   }, [typingUsers]);
 
+  // Presence line: online / last seen for direct chats, an online count for groups
+  const presenceText = useMemo(() => {
+    if (isGroup) {
+      const online = otherParticipants.filter((p) => onlineUserIds?.has(p.user_id)).length;
+      const count = `${conversation?.participants.length ?? 0} participants`;
+      return online > 0 ? `${count} · ${online} online` : count;
+    }
+    if (!otherParticipant) return '';
+    if (onlineUserIds?.has(otherParticipant.user_id)) return 'Online';
+
+    const lastSeenAt = otherParticipant.user?.last_seen_at;
+    if (!lastSeenAt) return otherParticipant.user?.role || '';
+
+    const seen = new Date(lastSeenAt);
+    const minutes = Math.floor((Date.now() - seen.getTime()) / 60000);
+    if (minutes < 1) return 'Last seen just now';
+    if (minutes < 60) return `Last seen ${minutes}m ago`;
+    if (seen.toDateString() === new Date().toDateString()) return `Last seen today at ${formatTime(seen)}`;
+    return `Last seen ${seen.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  }, [conversation, isGroup, otherParticipants, otherParticipant, onlineUserIds]);
+
   // Render message status icon
   const renderMessageStatus = (status: MessageStatus) => {
     if (status === MessageStatus.READ) {
@@ -144,6 +281,79 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
     return null;
   };
 
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+    setEditError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditError(null);
+  };
+
+  const saveEdit = async (message: Message) => {
+    if (!onEditMessage) return;
+    if (editDraft.trim() === message.content) {
+      cancelEditing();
+      return;
+    }
+
+    try {
+      setSavingEdit(true);
+      await onEditMessage(message.id, editDraft);
+      cancelEditing();
+    } catch (err: any) {
+      setEditError(err?.message || 'Failed to edit message');
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>, message: Message) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit(message);
+    } else if (e.key === 'Escape') {
+      cancelEditing();
+    }
+  };
+
+  const toggleEditHistory = async (messageId: string) => {
+    if (editHistory?.messageId === messageId) {
+      setEditHistory(null);
+      return;
+    }
+    if (!onLoadEditHistory) return;
+
+    setEditHistory({ messageId, edits: [], loading: true });
+    try {
+      const edits = await onLoadEditHistory(messageId);
+      setEditHistory((prev) => (prev?.messageId === messageId ? { messageId, edits, loading: false } : prev));
+    } catch (err: any) {
+      setEditHistory((prev) =>
+        prev?.messageId === messageId
+          ? { messageId, edits: [], loading: false, error: err?.message || 'Failed to load edit history' }
+          : prev
+      );
+    }
+  };
+
+  const handleReaction = (message: Message, emoji: string) => {
+    const reacted = !message.reactions?.some(
+      (reaction) => reaction.emoji === emoji && reaction.user_ids.includes(currentUserId)
+    );
+    onToggleReaction?.(message, emoji, reacted);
+    setReactionPickerFor(null);
+  };
+
+  // Scroll to a quoted message if it is loaded
+  const scrollToMessage = (messageId: string) => {
+    containerRef.current
+      ?.querySelector(`[data-message-id="${messageId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   // No conversation selected
   if (!conversation) {
     return (
@@ -171,22 +381,74 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
           </button>
         )}
 
-        <div className={styles.headerAvatar}>
-          {avatarUrl ? (
-            <img src={avatarUrl} alt={displayName} className={styles.headerAvatarImage} />
-          ) : (
-            initials
-          )}
-        </div>
+        <ConversationAvatar
+          participants={conversation.participants}
+          currentUserId={currentUserId}
+          alt={displayName}
+          size="small"
+        />
 
         <div className={styles.headerInfo}>
           <h2 className={styles.headerName}>{displayName}</h2>
           <p className={`${styles.headerStatus} ${typingText ? styles.typing : ''}`}>
-            {typingText || (otherParticipant?.user?.role || '')}
+            {typingText || presenceText}
           </p>
         </div>
+
+        <button
+          className={styles.participantsToggle}
+          onClick={() => setShowParticipants((prev) => !prev)}
+          aria-expanded={showParticipants}
+          aria-label="Show participants"
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M17 21v-2a4 4 0 00-4-4H5a4 4 0 00-4 4v2" />
+            <circle cx="9" cy="7" r="4" />
+            <path d="M23 21v-2a4 4 0 00-3-3.87M16 3.13a4 4 0 010 7.75" />
+          </svg>
+        </button>
       </div>
 
+      {showParticipants && (
+        <ConversationParticipantsPanel
+          key={conversation.id}
+          conversation={conversation}
+          currentUserId={currentUserId}
+          onAddParticipants={onAddParticipants}
+          onRemoveParticipant={onRemoveParticipant}
+          onSetParticipantRole={onSetParticipantRole}
+          onRenameConversation={onRenameConversation}
+          onSetNudge={onSetNudge}
+          onReportUser={(participant) =>
+            setReportTarget({ userId: participant.user_id, name: getParticipantName(participant.user_id) })
+          }
+          onBlockUser={onBlockUser}
+        />
+      )}
+
+      <ReportModal
+        isOpen={reportTarget !== null}
+        reportedUserId={reportTarget?.userId || ''}
+        reportedName={reportTarget?.name || ''}
+        conversationId={conversation.id}
+        messageId={reportTarget?.messageId}
+        onClose={() => setReportTarget(null)}
+        onSubmitted={(_report, blocked) => {
+          setReportTarget(null);
+          window.alert(
+            blocked
+              ? 'Thanks for letting us know. The user has been blocked and our moderators will review your report.'
+              : 'Thanks for letting us know. Our moderators will review your report.'
+          );
+        }}
+      />
+
+      {/* Pinned listing summary */}
+      <ConversationListingCard
+        propertyListing={conversation.propertyListing}
+        demandListing={conversation.demandListing}
+      />
+
       {/* Messages */}
       <div className={styles.messagesContainer} ref={containerRef}>
         {loading && messages.length === 0 ? (
@@ -224,37 +486,155 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
                 </div>
 
                 {group.messages.map((message) => {
+                  if (message.message_type === MessageType.SYSTEM) {
+                    return (
+                      <div key={message.id} data-message-id={message.id} className={styles.systemMessage}>
+                        <span>{message.content}</span>
+                        <span className={styles.messageTimestamp}>{formatTime(message.created_at)}</span>
+                      </div>
+                    );
+                  }
+
                   const isSent = message.sender_id === currentUserId;
                   const isDeleted = message.is_deleted;
 
+                  const isEditing = editingMessageId === message.id;
+                  const replyTo = message.reply_to;
+                  const showActions = !isDeleted && !isEditing && (onReply || onToggleReaction || onEditMessage);
+
                   return (
                     <div
                       key={message.id}
+                      data-message-id={message.id}
                       className={`${styles.messageWrapper} ${isSent ? styles.sent : styles.received} ${isDeleted ? styles.deleted : ''}`}
                     >
+                      {/* Hover actions */}
+                      {showActions && (
+                        <div className={styles.messageActions}>
+                          {onReply && (
+                            <button className={styles.messageAction} onClick={() => onReply(message)}>
+                              Reply
+                            </button>
+                          )}
+                          {onToggleReaction && (
+                            <button
+                              className={styles.messageAction}
+                              onClick={() => setReactionPickerFor(reactionPickerFor === message.id ? null : message.id)}
+                              aria-expanded={reactionPickerFor === message.id}
+                            >
+                              React
+                            </button>
+                          )}
+                          {isSent && onEditMessage && message.message_type !== MessageType.INQUIRY && (
+                            <button className={styles.messageAction} onClick={() => startEditing(message)}>
+                              Edit
+                            </button>
+                          )}
+                          {!isSent && (
+                            <button
+                              className={styles.messageAction}
+                              onClick={() =>
+                                setReportTarget({
+                                  userId: message.sender_id,
+                                  name: getParticipantName(message.sender_id),
+                                  messageId: message.id,
+                                })
+                              }
+                            >
+                              Report
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {reactionPickerFor === message.id && (
+                        <div className={styles.reactionPicker} role="menu">
+                          {QUICK_REACTIONS.map((emoji) => (
+                            <button
+                              key={emoji}
+                              className={styles.reactionPickerButton}
+                              onClick={() => handleReaction(message, emoji)}
+                              aria-label={`React with ${emoji}`}
+                            >
+                              {emoji}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
                       <div className={styles.messageBubble}>
                         {isDeleted ? (
                           'This message was deleted'
                         ) : (
                           <>
-                            {message.content}
+                            {message.message_type === MessageType.INQUIRY && message.metadata && (
+                              <InquiryCard card={message.metadata as ListingInquiryCard} />
+                            )}
+                            {/* Quoted message */}
+                            {replyTo && (
+                              <button className={styles.replyQuote} onClick={() => scrollToMessage(replyTo.id)}>
+                                <span className={styles.replyQuoteSender}>{replyTo.sender_name}</span>
+                                <span className={styles.replyQuoteContent}>
+                                  {replyTo.is_deleted ? 'This message was deleted' : replyTo.content || 'Attachment'}
+                                </span>
+                              </button>
+                            )}
+                            {isEditing ? (
+                              <div className={styles.editForm}>
+                                <textarea
+                                  className={styles.editTextarea}
+                                  value={editDraft}
+                                  onChange={(e) => setEditDraft(e.target.value)}
+                                  onKeyDown={(e) => handleEditKeyDown(e, message)}
+                                  disabled={savingEdit}
+                                  aria-label="Edit message"
+                                  autoFocus
+                                />
+                                {editError && <span className={styles.editError}>{editError}</span>}
+                                <div className={styles.editActions}>
+                                  <button className={styles.editButton} onClick={cancelEditing} disabled={savingEdit}>
+                                    Cancel
+                                  </button>
+                                  <button
+                                    className={`${styles.editButton} ${styles.editSave}`}
+                                    onClick={() => saveEdit(message)}
+                                    disabled={savingEdit}
+                                  >
+                                    {savingEdit ? 'Saving...' : 'Save'}
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              message.content
+                            )}
                             {/* Attachments */}
                             {message.attachments && message.attachments.length > 0 && (
                               <div className={styles.attachments}>
                                 {message.attachments.map((attachment, index) => (
                                   <a
-                                    key={index}
+                                    key={attachment.id || index}
                                     href={attachment.url}
                                     target="_blank"
                                     rel="noopener noreferrer"
-                                    className={styles.attachment}
+                                    className={`${styles.attachment} ${attachment.thumbnail_url || attachment.preview_url ? styles.attachmentWithPreview : ''}`}
                                   >
+                                    {(attachment.thumbnail_url || attachment.preview_url) && (
+                                      <img
+                                        src={(attachment.thumbnail_url || attachment.preview_url) as string}
+                                        alt={attachment.name}
+                                        className={styles.attachmentPreview}
+                                        loading="lazy"
+                                      />
+                                    )}
                                     <span className={styles.attachmentIcon}>
                                       <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                                         <path d="M21.44 11.05l-9.19 9.19a6 6 0 01-8.49-8.49l9.19-9.19a4 4 0 015.66 5.66l-9.2 9.19a2 2 0 01-2.83-2.83l8.49-8.48" />
                                       </svg>
                                     </span>
                                     <span className={styles.attachmentName}>{attachment.name}</span>
+                                    {attachment.size !== undefined && (
+                                      <span className={styles.attachmentSize}>{formatFileSize(attachment.size)}</span>
+                                    )}
                                   </a>
                                 ))}
                               </div>
@@ -262,10 +642,70 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
                           </>
                         )}
                       </div>
+
+                      {/* Reactions */}
+                      {!isDeleted && message.reactions && message.reactions.length > 0 && (
+                        <div className={styles.reactions}>
+                          {message.reactions.map((reaction) => {
+                            const reactedByMe = reaction.user_ids.includes(currentUserId);
+                            return (
+                              <button
+                                key={reaction.emoji}
+                                className={`${styles.reaction} ${reactedByMe ? styles.reactionActive : ''}`}
+                                onClick={() => handleReaction(message, reaction.emoji)}
+                                disabled={!onToggleReaction}
+                                aria-pressed={reactedByMe}
+                                aria-label={`${reaction.emoji} ${reaction.count}`}
+                              >
+                                <span>{reaction.emoji}</span>
+                                <span className={styles.reactionCount}>{reaction.count}</span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+
                       <span className={styles.messageTimestamp}>
                         {formatTime(message.created_at)}
+                        {!isDeleted && message.edited_at && (
+                          <button
+                            className={styles.editedMarker}
+                            onClick={() => toggleEditHistory(message.id)}
+                            disabled={!onLoadEditHistory}
+                            title={`Edited ${new Date(message.edited_at).toLocaleString('en-US')}`}
+                          >
+                            edited
+                          </button>
+                        )}
                         {isSent && !isDeleted && renderMessageStatus(message.status)}
                       </span>
+
+                      {/* Edit history */}
+                      {editHistory?.messageId === message.id && (
+                        <div className={styles.editHistory}>
+                          {editHistory.loading ? (
+                            <span>Loading edit history...</span>
+                          ) : editHistory.error ? (
+                            <span className={styles.editError}>{editHistory.error}</span>
+                          ) : (
+                            editHistory.edits.map((edit) => (
+                              <div key={edit.id} className={styles.editHistoryItem}>
+                                <span className={styles.editHistoryTime}>
+                                  {new Date(edit.edited_at).toLocaleString('en-US', {
+                                    month: 'short',
+                                    day: 'numeric',
+                                    hour: 'numeric',
+                                    minute: '2-digit',
+                                  })}
+                                </span>
+                                <span className={styles.editHistoryContent}>
+                                  {edit.previous_content || 'No text'}
+                                </span>
+                              </div>
+                            ))
+                          )}
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -277,6 +717,40 @@ export const MessageThread: React.FC<MessageThreadProps> = ({
           </>
         )}
       </div>
+
+      {/* Scheduled messages */}
+      {scheduledMessages.length > 0 && (
+        <ul className={styles.scheduledList} aria-label="Scheduled messages">
+          {scheduledMessages.map((scheduled) => (
+            <li key={scheduled.id} className={styles.scheduledItem}>
+              <span className={styles.scheduledTime}>
+                Sends{' '}
+                {new Date(scheduled.send_at).toLocaleString('en-US', {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </span>
+              <span className={styles.scheduledContent}>
+                {scheduled.content ||
+                  (scheduled.attachment_ids.length === 1
+                    ? '1 attachment'
+                    : `${scheduled.attachment_ids.length} attachments`)}
+              </span>
+              {onCancelScheduledMessage && (
+                <button
+                  className={styles.scheduledCancel}
+                  onClick={() => onCancelScheduledMessage(scheduled.id)}
+                >
+                  Cancel
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
@@ -1,22 +1,27 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
+import { useAuth } from '@contexts/AuthContext';
+import { UserRole } from '@types';
 import styles from './NavigationTabs.module.css';
 
 /**
  * NavigationTabs Component
  *
- * Displays navigation tabs: Dashboard, Trends, Applications
- * - Dashboard is active and functional
+ * Displays navigation tabs: Dashboard, Find Space, Trends, Applications
+ * - Dashboard is active and functional; brokers land on their client dashboard
+ * - Find Space is the map search over active property listings
  * - Trends and Applications are grayed out (placeholder tabs)
  * - Uses React Router NavLink for active state styling
  * - Active tab highlights with blue underline and bold text
  * - Messages moved to icon next to profile
  */
 export const NavigationTabs: React.FC = () => {
+  const { role } = useAuth();
+
   return (
     <div className={styles.navigationTabs} role="tablist" aria-label="Main navigation tabs">
       <NavLink
-        to="/dashboard"
+        to={role === UserRole.BROKER ? '/broker-dashboard' : '/dashboard'}
         className={({ isActive }) =>
           `${styles.tab} ${isActive ? styles.active : ''}`
         }
@@ -26,6 +31,17 @@ export const NavigationTabs: React.FC = () => {
         Dashboard
       </NavLink>
 
+      <NavLink
+        to="/search"
+        className={({ isActive }) =>
+          `${styles.tab} ${isActive ? styles.active : ''}`
+        }
+        role="tab"
+        aria-label="Find Space"
+      >
+        Find Space
+      </NavLink>
+
       <NavLink
         to="/trends"
         className={({ isActive }) =>
@@ -0,0 +1,285 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  updateNotification,
+  markAllNotificationsRead,
+} from '@utils/apiClient';
+import { websocketClient } from '@utils/websocketClient';
+import { InAppNotification, NotificationType } from '@types';
+import styles from './NotificationBell.module.css';
+
+const PAGE_SIZE = 20;
+
+/**
+ * NotificationBell Component
+ *
+ * Bell icon button with the in-app notification center dropdown
+ * - Displays unread notification count badge
+ * - Lists notifications newest first, with load more
+ * - Mark read on click, mark all read, and archive per item
+ * - Subscribes to the dashboard WebSocket for new notifications
+ */
+export const NotificationBell: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<InAppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Fetch unread count and subscribe to updates
+  // Re-run on navigation: pages that own the dashboard socket disconnect it
+  // (and drop its listeners) when they unmount
+  useEffect(() => {
+    const fetchUnreadCount = async () => {
+      try {
+        const { unreadCount: count } = await getUnreadNotificationCount();
+        setUnreadCount(count);
+      } catch (error) {
+        console.error('Failed to fetch unread notification count:', error);
+      }
+    };
+
+    fetchUnreadCount();
+
+    websocketClient.connectToDashboard();
+
+    const unsubscribeNew = websocketClient.onNotification((data) => {
+      setNotifications((prev) => [data.notification, ...prev]);
+      setUnreadCount(data.unreadCount);
+    });
+
+    const unsubscribeUnread = websocketClient.onNotificationUnread((data) => {
+      setUnreadCount(data.unreadCount);
+    });
+
+    return () => {
+      unsubscribeNew();
+      unsubscribeUnread();
+    };
+  }, [location.pathname]);
+
+  // Close dropdown when clicking outside or pressing Escape
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const loadNotifications = useCallback(async (before?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await getNotifications({ limit: PAGE_SIZE, before });
+      setNotifications((prev) => (before ? [...prev, ...data.notifications] : data.notifications));
+      setHasMore(data.hasMore);
+      setUnreadCount(data.unreadCount);
+    } catch (err: any) {
+      setError(err?.data?.error?.message || err?.message || 'Failed to load notifications');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const toggleDropdown = () => {
+    if (!isOpen) {
+      loadNotifications();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleNotificationClick = async (notification: InAppNotification) => {
+    if (!notification.read_at) {
+      try {
+        const { notification: updated, unreadCount: count } = await updateNotification(
+          notification.id,
+          { read: true }
+        );
+        setNotifications((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
+        setUnreadCount(count);
+      } catch (err) {
+        console.error('Failed to mark notification read:', err);
+      }
+    }
+
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleArchive = async (event: React.MouseEvent, notificationId: string) => {
+    event.stopPropagation();
+    try {
+      const { unreadCount: count } = await updateNotification(notificationId, { archived: true });
+      setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+      setUnreadCount(count);
+    } catch (err: any) {
+      setError(err?.data?.error?.message || 'Failed to archive notification');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      const { unreadCount: count } = await markAllNotificationsRead();
+      const readAt = new Date();
+      setNotifications((prev) => prev.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+      setUnreadCount(count);
+    } catch (err: any) {
+      setError(err?.data?.error?.message || 'Failed to mark notifications read');
+    }
+  };
+
+  const formatTimestamp = (date: Date | string): string => {
+    const notificationDate = new Date(date);
+    const diffMinutes = Math.floor((Date.now() - notificationDate.getTime()) / (1000 * 60));
+
+    if (diffMinutes < 1) return 'Just now';
+    if (diffMinutes < 60) return `${diffMinutes}m ago`;
+    if (diffMinutes < 60 * 24) return `${Math.floor(diffMinutes / 60)}h ago`;
+    if (diffMinutes < 60 * 24 * 7) return `${Math.floor(diffMinutes / (60 * 24))}d ago`;
+    return notificationDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  const getBody = (notification: InAppNotification): string | null => {
+    // Tour times are stored in UTC; show them in the viewer's timezone
+    if (notification.type === NotificationType.TOUR_REMINDER && notification.data.tour_date) {
+      const tourDate = new Date(notification.data.tour_date as string).toLocaleString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      });
+      return notification.body ? `${tourDate} · ${notification.body}` : tourDate;
+    }
+    return notification.body;
+  };
+
+  return (
+    <div className={styles.notificationBell} ref={dropdownRef}>
+      <button
+        className={`${styles.trigger} ${isOpen ? styles.active : ''}`}
+        onClick={toggleDropdown}
+        aria-label={`Notifications${unreadCount > 0 ? `, ${unreadCount} unread` : ''}`}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        {/* Bell icon */}
+        <svg
+          width="24"
+          height="24"
+          viewBox="0 0 24 24"
+          fill="none"
+          xmlns="http://www.w3.org/2000/svg"
+        >
+          <path
+            d="M18 8C18 6.4087 17.3679 4.88258 16.2426 3.75736C15.1174 2.63214 13.5913 2 12 2C10.4087 2 8.88258 2.63214 7.75736 3.75736C6.63214 4.88258 6 6.4087 6 8C6 15 3 17 3 17H21C21 17 18 15 18 8Z"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+          <path
+            d="M13.73 21C13.5542 21.3031 13.3019 21.5547 12.9982 21.7295C12.6946 21.9044 12.3504 21.9965 12 21.9965C11.6496 21.9965 11.3054 21.9044 11.0018 21.7295C10.6982 21.5547 10.4458 21.3031 10.27 21"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        </svg>
+
+        {/* Unread badge */}
+        {unreadCount > 0 && (
+          <span className={styles.badge} aria-hidden="true">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={styles.panel} role="menu">
+          <div className={styles.header}>
+            <span className={styles.title}>Notifications</span>
+            {unreadCount > 0 && (
+              <button className={styles.markAllButton} onClick={handleMarkAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.list}>
+            {notifications.length === 0 && !isLoading && (
+              <div className={styles.empty}>You're all caught up</div>
+            )}
+
+            {notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={`${styles.item} ${notification.read_at ? '' : styles.unread}`}
+                onClick={() => handleNotificationClick(notification)}
+                role="menuitem"
+                tabIndex={0}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') handleNotificationClick(notification);
+                }}
+              >
+                <div className={styles.itemContent}>
+                  <div className={styles.itemTitle}>{notification.title}</div>
+                  {getBody(notification) && (
+                    <div className={styles.itemBody}>{getBody(notification)}</div>
+                  )}
+                  <div className={styles.itemTime}>{formatTimestamp(notification.created_at)}</div>
+                </div>
+                <button
+                  className={styles.archiveButton}
+                  onClick={(event) => handleArchive(event, notification.id)}
+                  aria-label="Archive notification"
+                  title="Archive"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+
+            {isLoading && <div className={styles.empty}>Loading...</div>}
+
+            {hasMore && !isLoading && (
+              <button
+                className={styles.loadMoreButton}
+                onClick={() => loadNotifications(notifications[notifications.length - 1]?.id)}
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
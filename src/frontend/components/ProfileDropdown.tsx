@@ -7,7 +7,7 @@ import styles from './ProfileDropdown.module.css';
  * ProfileDropdown Component
  *
  * Settings icon button that opens a dropdown menu
- * - Dropdown menu items: Go to Profile, Settings, Logout
+ * - Dropdown menu items: Go to Profile, Saved Listings, Settings, Moderation (moderators only), Logout
  * - Closes on outside click
  * - Navigates to appropriate routes
  * - Integrates with AuthContext for logout functionality
@@ -61,11 +61,21 @@ export const ProfileDropdown: React.FC = () => {
     navigate('/profile');
   };
 
+  const handleSavedListingsClick = () => {
+    setIsOpen(false);
+    navigate('/saved');
+  };
+
   const handleSettingsClick = () => {
     setIsOpen(false);
     navigate('/settings');
   };
 
+  const handleModerationClick = () => {
+    setIsOpen(false);
+    navigate('/moderation');
+  };
+
   const handleLogoutClick = async () => {
     setIsOpen(false);
     await logout();
@@ -131,6 +141,14 @@ export const ProfileDropdown: React.FC = () => {
             <span className={styles.menuItemIcon}>👤</span>
             Go to Profile
           </button>
+          <button
+            className={styles.menuItem}
+            onClick={handleSavedListingsClick}
+            role="menuitem"
+          >
+            <span className={styles.menuItemIcon}>♥</span>
+            Saved Listings
+          </button>
           <button
             className={styles.menuItem}
             onClick={handleSettingsClick}
@@ -139,6 +157,16 @@ export const ProfileDropdown: React.FC = () => {
             <span className={styles.menuItemIcon}>⚙️</span>
             Settings
           </button>
+          {user?.isAdmin && (
+            <button
+              className={styles.menuItem}
+              onClick={handleModerationClick}
+              role="menuitem"
+            >
+              <span className={styles.menuItemIcon}>🛡️</span>
+              Moderation
+            </button>
+          )}
           <hr className={styles.divider} />
           <button
             className={styles.menuItem}
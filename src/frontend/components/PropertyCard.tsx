@@ -2,6 +2,7 @@ import React from 'react';
 import { PropertyListing, PropertyListingStatus, PropertyType } from '../../types';
 import { MetricBadge } from './MetricBadge';
 import { ThreeDotsMenu } from './ThreeDotsMenu';
+import { getCoverPhoto, getPhotoSrc } from '@utils/listingPhotos';
 import styles from './PropertyCard.module.css';
 
 interface PropertyCardProps {
@@ -51,7 +52,8 @@ export const PropertyCard: React.FC<PropertyCardProps> = React.memo(({
 
   // Default placeholder for properties without photos
   const defaultPhotoUrl = `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='400' height='300' viewBox='0 0 400 300'%3E%3Crect width='400' height='300' fill='%23e5e7eb'/%3E%3Ctext x='200' y='150' font-family='Arial, sans-serif' font-size='48' fill='%239ca3af' text-anchor='middle' dominant-baseline='middle'%3E🏢%3C/text%3E%3C/svg%3E`;
-  const photoUrl = property.photos?.[0]?.url || defaultPhotoUrl;
+  const coverPhoto = getCoverPhoto(property.photos);
+  const photoUrl = coverPhoto ? getPhotoSrc(coverPhoto, 'card') : defaultPhotoUrl;
 
   // Format property type for display
   const formatPropertyType = (type: PropertyType): string => {
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
+import { ListingMediaManager } from './ListingMediaManager';
 import styles from './PropertyListingModal.module.css';
 
 interface PropertyListingModalProps {
   isOpen: boolean;
   onClose: () => void;
   onListingCreated: () => void;
+  // Called when photos or documents are uploaded, edited or deleted (edit mode only)
+  onMediaChanged?: () => void;
   editListing?: {
     id: string;
     title: string;
@@ -97,6 +100,7 @@ export const PropertyListingModal: React.FC<PropertyListingModalProps> = ({
   isOpen,
   onClose,
   onListingCreated,
+  onMediaChanged,
   editListing = null,
 }) => {
   const isEditMode = !!editListing;
@@ -732,6 +736,16 @@ export const PropertyListingModal: React.FC<PropertyListingModalProps> = ({
               </div>
             </div>
 
+            {/* Photos & Documents: uploads attach to a saved listing */}
+            <div className={styles.section}>
+              <h3 className={styles.sectionTitle}>Photos & Documents</h3>
+              {isEditMode && editListing ? (
+                <ListingMediaManager listingId={editListing.id} onChange={onMediaChanged} />
+              ) : (
+                <p className={styles.sectionHint}>Add photos and documents after creating the listing.</p>
+              )}
+            </div>
+
             {/* Error message */}
             {errors.general && (
               <div className={styles.errorMessage} role="alert">
@@ -25,6 +25,7 @@ interface PropertyListingsSectionProps {
   onUpdateStatus?: (propertyId: string) => void;
   onPropertyClick?: (propertyId: string) => void;
   onLoadMore?: () => void;
+  onManageSavedSearches?: () => void;
   hasMore?: boolean;
   isLoadingMore?: boolean;
   totalCount?: number;
@@ -36,6 +37,7 @@ interface PropertyListingsSectionProps {
  * Displays the property listings with search and filter controls
  * - Section header with property count
  * - Search input and status/type filters
+ * - Saved searches entry point (when onManageSavedSearches is provided)
  * - Grid of property cards
  * - Empty state when no properties
  * - Loading states for initial load and infinite scroll
@@ -62,6 +64,7 @@ export const PropertyListingsSection: React.FC<PropertyListingsSectionProps> = (
   onUpdateStatus,
   onPropertyClick,
   onLoadMore,
+  onManageSavedSearches,
   hasMore = false,
   isLoadingMore = false,
   totalCount,
@@ -148,6 +151,15 @@ export const PropertyListingsSection: React.FC<PropertyListingsSectionProps> = (
             Clear Filters
           </button>
         )}
+        {onManageSavedSearches && (
+          <button
+            className={styles.savedSearchesButton}
+            onClick={onManageSavedSearches}
+            aria-label="Manage saved searches"
+          >
+            Saved Searches
+          </button>
+        )}
       </div>
 
       {/* Property grid or empty state */}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { PropertyMatchWithProperty, PropertyType } from '@types';
+import { getCoverPhoto, getPhotoSrc } from '@utils/listingPhotos';
 import styles from './PropertyMatchCard.module.css';
 
 interface PropertyMatchCardProps {
@@ -62,10 +63,10 @@ export const PropertyMatchCard: React.FC<PropertyMatchCardProps> = ({
     return typeMap[type] || type;
   };
 
-  // Get first photo URL
+  // Get cover photo URL
   const getPhotoUrl = (): string | null => {
-    if (!property.photos || property.photos.length === 0) return null;
-    return property.photos[0].url;
+    const coverPhoto = getCoverPhoto(property.photos);
+    return coverPhoto ? getPhotoSrc(coverPhoto, 'card') : null;
   };
 
   const scoreCategory = getScoreCategory(match.match_score);
@@ -72,7 +72,7 @@ function getRoleDashboard(role: UserRole): string {
     case UserRole.LANDLORD:
       return '/landlord-dashboard'; // Placeholder for future implementation
     case UserRole.BROKER:
-      return '/broker-dashboard'; // Placeholder for future implementation
+      return '/broker-dashboard';
     default:
       return '/';
   }
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { createReport } from '@utils/apiClient';
+import { UserReport, UserReportReason } from '@types';
+import styles from './ReportModal.module.css';
+
+interface ReportModalProps {
+  isOpen: boolean;
+  reportedUserId: string;
+  reportedName: string;
+  conversationId?: string;
+  // Set when reporting a specific message rather than the user
+  messageId?: string;
+  onClose: () => void;
+  onSubmitted: (report: UserReport, blocked: boolean) => void;
+}
+
+const REASONS: Array<{ value: UserReportReason; label: string }> = [
+  { value: UserReportReason.SPAM, label: 'Spam' },
+  { value: UserReportReason.SCAM, label: 'Scam or fraud' },
+  { value: UserReportReason.HARASSMENT, label: 'Harassment' },
+  { value: UserReportReason.INAPPROPRIATE, label: 'Inappropriate content' },
+  { value: UserReportReason.OTHER, label: 'Something else' },
+];
+
+// API errors arrive as { code, message } objects on the rejected payload
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+/**
+ * ReportModal Component
+ *
+ * Reports a message or a user to the moderators, optionally blocking them too.
+ * The conversation around the report is captured on the server.
+ */
+export const ReportModal: React.FC<ReportModalProps> = ({
+  isOpen,
+  reportedUserId,
+  reportedName,
+  conversationId,
+  messageId,
+  onClose,
+  onSubmitted,
+}) => {
+  const [reason, setReason] = useState<UserReportReason>(UserReportReason.SPAM);
+  const [details, setDetails] = useState('');
+  const [block, setBlock] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const report = await createReport(
+        messageId
+          ? { message_id: messageId, reason, details: details.trim() || undefined, block }
+          : {
+              reported_user_id: reportedUserId,
+              conversation_id: conversationId,
+              reason,
+              details: details.trim() || undefined,
+              block,
+            }
+      );
+      setDetails('');
+      setBlock(false);
+      onSubmitted(report, block);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to submit report'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>{messageId ? 'Report Message' : `Report ${reportedName}`}</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <form className={styles.modalBody} onSubmit={handleSubmit}>
+          <p className={styles.muted}>
+            Our moderators will review {messageId ? `this message from ${reportedName}` : 'this conversation'}.
+            {' '}They won't be told who reported them.
+          </p>
+
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          <label className={styles.label} htmlFor="report-reason">
+            Reason
+          </label>
+          <select
+            id="report-reason"
+            className={styles.input}
+            value={reason}
+            onChange={(e) => setReason(e.target.value as UserReportReason)}
+            disabled={submitting}
+          >
+            {REASONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          <label className={styles.label} htmlFor="report-details">
+            Details (optional)
+          </label>
+          <textarea
+            id="report-details"
+            className={styles.textarea}
+            rows={4}
+            maxLength={2000}
+            placeholder="Anything that helps us understand what happened"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            disabled={submitting}
+          />
+
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={block}
+              onChange={(e) => setBlock(e.target.checked)}
+              disabled={submitting}
+            />
+            Also block {reportedName}
+          </label>
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.secondaryButton} onClick={onClose} disabled={submitting}>
+              Cancel
+            </button>
+            <button type="submit" className={styles.primaryButton} disabled={submitting}>
+              {submitting ? 'Sending...' : 'Send Report'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
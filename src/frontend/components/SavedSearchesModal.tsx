@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchResults,
+} from '@utils/apiClient';
+import { PropertyListing, PropertyType, SavedSearch, SavedSearchFilters } from '@types';
+import styles from './SavedSearchesModal.module.css';
+
+interface SavedSearchesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Pre-fills the "save a new search" form, e.g. from the current filter bar
+  initialFilters?: SavedSearchFilters;
+}
+
+interface FilterFormState {
+  name: string;
+  city: string;
+  state: string;
+  property_type: string;
+  min_sqft: string;
+  max_sqft: string;
+  min_price: string;
+  max_price: string;
+  amenities: string;
+  search: string;
+}
+
+const PROPERTY_TYPE_OPTIONS = [
+  { value: '', label: 'Any type' },
+  { value: PropertyType.RETAIL, label: 'Retail' },
+  { value: PropertyType.RESTAURANT, label: 'Restaurant' },
+  { value: PropertyType.OFFICE, label: 'Office' },
+  { value: PropertyType.INDUSTRIAL, label: 'Industrial' },
+  { value: PropertyType.WAREHOUSE, label: 'Warehouse' },
+  { value: PropertyType.MEDICAL, label: 'Medical' },
+  { value: PropertyType.FLEX, label: 'Flex' },
+  { value: PropertyType.LAND, label: 'Land' },
+  { value: PropertyType.OTHER, label: 'Other' },
+];
+
+// API errors arrive as { code, message } objects, or a plain string from the tier guard
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+const toFormState = (filters: SavedSearchFilters = {}): FilterFormState => ({
+  name: '',
+  city: filters.city || '',
+  state: filters.state || '',
+  property_type: filters.property_type || '',
+  min_sqft: filters.min_sqft?.toString() || '',
+  max_sqft: filters.max_sqft?.toString() || '',
+  min_price: filters.min_price?.toString() || '',
+  max_price: filters.max_price?.toString() || '',
+  amenities: filters.amenities?.join(', ') || '',
+  search: filters.search || '',
+});
+
+const toFilters = (form: FilterFormState): SavedSearchFilters => {
+  const filters: SavedSearchFilters = {};
+  if (form.city.trim()) filters.city = form.city.trim();
+  if (form.state.trim()) filters.state = form.state.trim().toUpperCase();
+  if (form.property_type) filters.property_type = form.property_type as PropertyType;
+  if (form.min_sqft) filters.min_sqft = Number(form.min_sqft);
+  if (form.max_sqft) filters.max_sqft = Number(form.max_sqft);
+  if (form.min_price) filters.min_price = Number(form.min_price);
+  if (form.max_price) filters.max_price = Number(form.max_price);
+  const amenities = form.amenities.split(',').map((a) => a.trim()).filter(Boolean);
+  if (amenities.length > 0) filters.amenities = amenities;
+  if (form.search.trim()) filters.search = form.search.trim();
+  return filters;
+};
+
+/**
+ * One-line summary of a saved search's filters
+ */
+const describeFilters = (filters: SavedSearchFilters): string => {
+  const parts: string[] = [];
+  const location = [filters.city, filters.state].filter(Boolean).join(', ');
+  if (location) parts.push(location);
+  if (filters.property_type) {
+    parts.push(PROPERTY_TYPE_OPTIONS.find((o) => o.value === filters.property_type)?.label || filters.property_type);
+  }
+  if (filters.min_sqft || filters.max_sqft) {
+    parts.push(`${filters.min_sqft?.toLocaleString() || '0'}–${filters.max_sqft?.toLocaleString() || '∞'} sq ft`);
+  }
+  if (filters.min_price || filters.max_price) {
+    parts.push(`$${filters.min_price?.toLocaleString() || '0'}–${filters.max_price ? `$${filters.max_price.toLocaleString()}` : '∞'}`);
+  }
+  if (filters.amenities?.length) parts.push(filters.amenities.join(', '));
+  if (filters.search) parts.push(`"${filters.search}"`);
+  return parts.join(' · ');
+};
+
+/**
+ * SavedSearchesModal Component
+ *
+ * Manage saved property searches (Pro feature)
+ * - Save the current filters under a name
+ * - Toggle in-app and email alerts for new matching listings
+ * - Preview a search's current results
+ * - Delete saved searches
+ */
+export const SavedSearchesModal: React.FC<SavedSearchesModalProps> = ({
+  isOpen,
+  onClose,
+  initialFilters,
+}) => {
+  const navigate = useNavigate();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<FilterFormState>(toFormState(initialFilters));
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<{
+    searchId: string;
+    listings: PropertyListing[];
+    total: number;
+  } | null>(null);
+
+  const loadSearches = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSearches(await getSavedSearches());
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load saved searches'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(toFormState(initialFilters));
+      setPreview(null);
+      loadSearches();
+    }
+  }, [isOpen, initialFilters, loadSearches]);
+
+  if (!isOpen) return null;
+
+  const updateField = (field: keyof FilterFormState, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      const search = await createSavedSearch({ name: form.name.trim(), filters: toFilters(form) });
+      setSearches((prev) => [search, ...prev]);
+      setForm(toFormState());
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to save search'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleAlert = async (search: SavedSearch, field: 'alert_in_app' | 'alert_email') => {
+    try {
+      setError(null);
+      const updated = await updateSavedSearch(search.id, { [field]: !search[field] });
+      setSearches((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to update alerts'));
+    }
+  };
+
+  const handleDelete = async (searchId: string) => {
+    if (!window.confirm('Delete this saved search?')) return;
+
+    try {
+      setError(null);
+      await deleteSavedSearch(searchId);
+      setSearches((prev) => prev.filter((s) => s.id !== searchId));
+      if (preview?.searchId === searchId) setPreview(null);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to delete saved search'));
+    }
+  };
+
+  const handlePreview = async (searchId: string) => {
+    if (preview?.searchId === searchId) {
+      setPreview(null);
+      return;
+    }
+
+    try {
+      setError(null);
+      const { listings, total } = await getSavedSearchResults(searchId, { limit: 5 });
+      setPreview({ searchId, listings, total });
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to run saved search'));
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>Saved Searches</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.modalBody}>
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          {/* Existing saved searches */}
+          {loading ? (
+            <p className={styles.muted}>Loading...</p>
+          ) : searches.length === 0 ? (
+            <p className={styles.muted}>
+              You haven't saved any searches yet. We'll alert you when new listings match a saved search.
+            </p>
+          ) : (
+            <ul className={styles.searchList}>
+              {searches.map((search) => (
+                <li key={search.id} className={styles.searchItem}>
+                  <div className={styles.searchHeader}>
+                    <div>
+                      <div className={styles.searchName}>{search.name}</div>
+                      <div className={styles.searchSummary}>{describeFilters(search.filters)}</div>
+                    </div>
+                    <div className={styles.searchActions}>
+                      <button className={styles.linkButton} onClick={() => handlePreview(search.id)}>
+                        {preview?.searchId === search.id ? 'Hide results' : 'View results'}
+                      </button>
+                      <button className={styles.deleteButton} onClick={() => handleDelete(search.id)}>
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className={styles.alertToggles}>
+                    <label className={styles.checkboxLabel}>
+                      <input
+                        type="checkbox"
+                        checked={search.alert_in_app}
+                        onChange={() => handleToggleAlert(search, 'alert_in_app')}
+                      />
+                      In-app alerts
+                    </label>
+                    <label className={styles.checkboxLabel}>
+                      <input
+                        type="checkbox"
+                        checked={search.alert_email}
+                        onChange={() => handleToggleAlert(search, 'alert_email')}
+                      />
+                      Email alerts
+                    </label>
+                  </div>
+
+                  {preview?.searchId === search.id && (
+                    <div className={styles.preview}>
+                      <div className={styles.muted}>
+                        {preview.total} active listing{preview.total === 1 ? '' : 's'} match
+                      </div>
+                      {preview.listings.map((listing) => (
+                        <button
+                          key={listing.id}
+                          className={styles.previewItem}
+                          onClick={() => navigate(`/property/${listing.id}`)}
+                        >
+                          {listing.title} — {listing.city}, {listing.state}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Save a new search */}
+          <form className={styles.saveForm} onSubmit={handleSave}>
+            <h3 className={styles.formTitle}>Save a new search</h3>
+
+            <input
+              className={styles.input}
+              placeholder="Name, e.g. Austin retail under 3,000 sq ft"
+              value={form.name}
+              onChange={(e) => updateField('name', e.target.value)}
+              disabled={saving}
+              aria-label="Search name"
+            />
+
+            <div className={styles.formGrid}>
+              <input
+                className={styles.input}
+                placeholder="City"
+                value={form.city}
+                onChange={(e) => updateField('city', e.target.value)}
+                disabled={saving}
+                aria-label="City"
+              />
+              <input
+                className={styles.input}
+                placeholder="State (e.g. TX)"
+                maxLength={2}
+                value={form.state}
+                onChange={(e) => updateField('state', e.target.value)}
+                disabled={saving}
+                aria-label="State"
+              />
+              <select
+                className={styles.input}
+                value={form.property_type}
+                onChange={(e) => updateField('property_type', e.target.value)}
+                disabled={saving}
+                aria-label="Property type"
+              >
+                {PROPERTY_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                className={styles.input}
+                placeholder="Keywords"
+                value={form.search}
+                onChange={(e) => updateField('search', e.target.value)}
+                disabled={saving}
+                aria-label="Keywords"
+              />
+              <input
+                className={styles.input}
+                type="number"
+                min={0}
+                placeholder="Min sq ft"
+                value={form.min_sqft}
+                onChange={(e) => updateField('min_sqft', e.target.value)}
+                disabled={saving}
+                aria-label="Minimum square feet"
+              />
+              <input
+                className={styles.input}
+                type="number"
+                min={0}
+                placeholder="Max sq ft"
+                value={form.max_sqft}
+                onChange={(e) => updateField('max_sqft', e.target.value)}
+                disabled={saving}
+                aria-label="Maximum square feet"
+              />
+              <input
+                className={styles.input}
+                type="number"
+                min={0}
+                placeholder="Min price"
+                value={form.min_price}
+                onChange={(e) => updateField('min_price', e.target.value)}
+                disabled={saving}
+                aria-label="Minimum price"
+              />
+              <input
+                className={styles.input}
+                type="number"
+                min={0}
+                placeholder="Max price"
+                value={form.max_price}
+                onChange={(e) => updateField('max_price', e.target.value)}
+                disabled={saving}
+                aria-label="Maximum price"
+              />
+            </div>
+
+            <input
+              className={styles.input}
+              placeholder="Amenities, comma separated (matches any)"
+              value={form.amenities}
+              onChange={(e) => updateField('amenities', e.target.value)}
+              disabled={saving}
+              aria-label="Amenities"
+            />
+
+            <div className={styles.actions}>
+              <button type="button" className={styles.secondaryButton} onClick={onClose} disabled={saving}>
+                Close
+              </button>
+              <button type="submit" className={styles.primaryButton} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Search'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import { Logo } from './Logo';
 import { NavigationTabs } from './NavigationTabs';
 import { TierBadge } from './TierBadge';
+import { NotificationBell } from './NotificationBell';
 import { MessageIcon } from './MessageIcon';
 import { ProfileDropdown } from './ProfileDropdown';
 import { useAuth } from '@contexts/AuthContext';
@@ -17,11 +18,11 @@ interface TopNavigationProps {
  * Main navigation bar for the tenant dashboard
  * - Displays logo on the left
  * - Shows navigation tabs in the center
- * - Displays tier badge and profile dropdown on the right
+ * - Displays tier badge, notification bell, messages and profile dropdown on the right
  * - Sticky positioning at top of page
  * - Integrates with AuthContext for user data
  *
- * Layout: [Logo] [Navigation Tabs] [Tier Badge] [Profile Dropdown]
+ * Layout: [Logo] [Navigation Tabs] [Tier Badge] [Notifications] [Messages] [Profile Dropdown]
  */
 export const TopNavigation: React.FC<TopNavigationProps> = ({ tier = 'Free Plan' }) => {
   const { user, isLoading } = useAuth();
@@ -49,9 +50,10 @@ export const TopNavigation: React.FC<TopNavigationProps> = ({ tier = 'Free Plan'
           <NavigationTabs />
         </div>
 
-        {/* Right section: Tier badge, Message icon, Profile dropdown */}
+        {/* Right section: Tier badge, Notification bell, Message icon, Profile dropdown */}
         <div className={styles.rightSection}>
           <TierBadge tier={tier} />
+          <NotificationBell />
           <MessageIcon />
           <ProfileDropdown />
         </div>
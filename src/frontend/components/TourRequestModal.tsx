@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { requestTour } from '@utils/apiClient';
+import { Tour } from '@types';
+import styles from './TourRequestModal.module.css';
+
+interface TourRequestModalProps {
+  isOpen: boolean;
+  propertyId: string;
+  propertyTitle: string;
+  onClose: () => void;
+  onRequested: (tour: Tour) => void;
+}
+
+const MAX_PREFERRED_TIMES = 3;
+
+// API errors arrive as { code, message } objects on the rejected payload
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+/**
+ * TourRequestModal Component
+ *
+ * Lets a tenant request a tour with up to three preferred times.
+ * The landlord confirms one of them or proposes alternatives in return.
+ */
+export const TourRequestModal: React.FC<TourRequestModalProps> = ({
+  isOpen,
+  propertyId,
+  propertyTitle,
+  onClose,
+  onRequested,
+}) => {
+  const [times, setTimes] = useState<string[]>(['']);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const updateTime = (index: number, value: string) => {
+    setTimes((prev) => prev.map((time, i) => (i === index ? value : time)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      // datetime-local values are in the browser's timezone; send them as UTC
+      const preferredTimes = times.filter(Boolean).map((time) => new Date(time).toISOString());
+      const tour = await requestTour({
+        property_listing_id: propertyId,
+        preferred_times: preferredTimes,
+        notes: notes.trim() || undefined,
+      });
+      setTimes(['']);
+      setNotes('');
+      onRequested(tour);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to request tour'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.modalBackdrop} onClick={handleBackdropClick} role="dialog" aria-modal="true">
+      <div className={styles.modalContainer}>
+        <div className={styles.modalHeader}>
+          <h2 className={styles.modalTitle}>Request a Tour</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <form className={styles.modalBody} onSubmit={handleSubmit}>
+          <p className={styles.muted}>{propertyTitle}</p>
+
+          {error && (
+            <div className={styles.errorMessage} role="alert">
+              {error}
+            </div>
+          )}
+
+          <label className={styles.label}>Preferred times</label>
+          {times.map((time, index) => (
+            <input
+              key={index}
+              type="datetime-local"
+              className={styles.input}
+              value={time}
+              onChange={(e) => updateTime(index, e.target.value)}
+              disabled={submitting}
+              aria-label={`Preferred time ${index + 1}`}
+            />
+          ))}
+          {times.length < MAX_PREFERRED_TIMES && (
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() => setTimes((prev) => [...prev, ''])}
+              disabled={submitting}
+            >
+              + Add another time
+            </button>
+          )}
+
+          <label className={styles.label} htmlFor="tour-notes">
+            Notes (optional)
+          </label>
+          <textarea
+            id="tour-notes"
+            className={styles.textarea}
+            rows={3}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            disabled={submitting}
+          />
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.secondaryButton} onClick={onClose} disabled={submitting}>
+              Cancel
+            </button>
+            <button type="submit" className={styles.primaryButton} disabled={submitting}>
+              {submitting ? 'Sending...' : 'Request Tour'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -50,6 +50,7 @@ export { PropertyCard } from './PropertyCard';
 export { PropertyCardSkeleton } from './PropertyCardSkeleton';
 export { PropertyListingsSection } from './PropertyListingsSection';
 export { PropertyListingModal } from './PropertyListingModal';
+export { ListingMap } from './ListingMap';
 
 // Messaging components
 export { ConversationList } from './ConversationList';
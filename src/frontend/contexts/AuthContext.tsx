@@ -11,6 +11,8 @@ interface AuthUser {
   firstName?: string;
   lastName?: string;
   photoUrl?: string | null;
+  // Moderators can review the report queue
+  isAdmin?: boolean;
 }
 
 /**
@@ -109,6 +111,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               firstName: userData.profile?.first_name,
               lastName: userData.profile?.last_name,
               photoUrl: userData.profile?.photo_url,
+              isAdmin: userData.isAdmin,
             });
           }
         }
@@ -152,6 +155,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           firstName: userData.profile?.first_name,
           lastName: userData.profile?.last_name,
           photoUrl: userData.profile?.photo_url,
+          isAdmin: userData.isAdmin,
         });
       }
     } catch (error) {
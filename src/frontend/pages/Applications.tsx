@@ -1,20 +1,227 @@
-import React from 'react';
-import { PlaceholderPage } from '@components/PlaceholderPage';
+import React, { useState, useEffect, useCallback } from 'react';
+import { TopNavigation } from '@components/TopNavigation';
+import { DealPipelineBoard } from '@components/DealPipelineBoard';
+import { DealDetailsModal } from '@components/DealDetailsModal';
+import { getDeals, moveDeal, createDeal, getPropertyMatches } from '@utils/apiClient';
+import { DealStage, DealWithDetails, PropertyMatchWithProperty } from '@types';
+import styles from './Applications.module.css';
+
+// The subscription guard answers with a plain string error and a tier payload
+const isUpgradeError = (err: any): boolean =>
+  err?.status === 403 && err?.data?.error === 'Subscription upgrade required';
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
 
 /**
- * Applications Page (Placeholder)
+ * Reorder deals locally the way the server will after a move
+ */
+const applyMove = (
+  deals: DealWithDetails[],
+  dealId: string,
+  stage: DealStage,
+  position: number
+): DealWithDetails[] => {
+  const moving = deals.find((deal) => deal.id === dealId);
+  if (!moving) return deals;
+
+  const column = (s: DealStage) =>
+    deals
+      .filter((deal) => deal.stage === s && deal.id !== dealId)
+      .sort((a, b) => a.position - b.position);
+
+  const target = column(stage);
+  target.splice(Math.min(position, target.length), 0, { ...moving, stage });
+
+  const positions = new Map<string, { stage: DealStage; position: number }>();
+  target.forEach((deal, index) => positions.set(deal.id, { stage, position: index }));
+  if (moving.stage !== stage) {
+    column(moving.stage).forEach((deal, index) =>
+      positions.set(deal.id, { stage: moving.stage, position: index })
+    );
+  }
+
+  return deals.map((deal) => (positions.has(deal.id) ? { ...deal, ...positions.get(deal.id)! } : deal));
+};
+
+/**
+ * Applications Page
  *
- * Future feature for tracking property applications
- * - View submitted applications
- * - Track application status
- * - Manage application documents
+ * Deal pipeline (Pro feature) tracking tenant–property opportunities
+ * - Kanban board with a column per deal stage
+ * - Drag and drop to move deals between stages
+ * - Add deals from the user's property matches
+ * - Deal details with notes, expected close date and stage history
+ *
+ * Moving a deal to Signed marks the property leased and the tenant's
+ * listing closed (those the user manages), so the move is confirmed first.
  */
 const Applications: React.FC = () => {
+  const [deals, setDeals] = useState<DealWithDetails[]>([]);
+  const [matches, setMatches] = useState<PropertyMatchWithProperty[]>([]);
+  const [selectedMatchId, setSelectedMatchId] = useState('');
+  const [selectedDealId, setSelectedDealId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [needsUpgrade, setNeedsUpgrade] = useState(false);
+
+  const loadDeals = useCallback(async () => {
+    try {
+      setDeals(await getDeals());
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load deals'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDeals();
+
+    // Matches seed new deals; not every user has demand listings, so failures are quiet
+    getPropertyMatches(20)
+      .then(({ matches: loaded }) => setMatches(loaded))
+      .catch(() => setMatches([]));
+  }, [loadDeals]);
+
+  const handleError = (err: any, fallback: string) => {
+    if (isUpgradeError(err)) {
+      setNeedsUpgrade(true);
+      setError(null);
+    } else {
+      setError(getErrorMessage(err, fallback));
+    }
+  };
+
+  const handleMove = async (dealId: string, stage: DealStage, position?: number) => {
+    const deal = deals.find((d) => d.id === dealId);
+    if (!deal) return;
+
+    if (
+      stage === DealStage.SIGNED &&
+      !window.confirm(
+        `Mark this deal as signed? Your listings in it (${deal.property_title} or the tenant listing) will be closed.`
+      )
+    ) {
+      return;
+    }
+
+    const targetPosition = position ?? deals.filter((d) => d.stage === stage && d.id !== dealId).length;
+    const previous = deals;
+    setDeals(applyMove(deals, dealId, stage, targetPosition));
+    setError(null);
+
+    try {
+      await moveDeal(dealId, { stage, position: targetPosition });
+      if (stage !== deal.stage) {
+        loadDeals();
+      }
+    } catch (err: any) {
+      setDeals(previous);
+      handleError(err, 'Failed to move deal');
+    }
+  };
+
+  const handleAddDeal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMatchId) return;
+
+    try {
+      setAdding(true);
+      setError(null);
+      await createDeal({ property_match_id: selectedMatchId });
+      setSelectedMatchId('');
+      await loadDeals();
+    } catch (err: any) {
+      handleError(err, 'Failed to add deal');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const openDeals = deals.filter((deal) => deal.stage !== DealStage.SIGNED && deal.stage !== DealStage.LOST);
+  const trackedMatchKeys = new Set(deals.map((deal) => `${deal.demand_listing_id}:${deal.property_listing_id}`));
+  const availableMatches = matches.filter(
+    (match) => !trackedMatchKeys.has(`${match.demand_listing_id}:${match.property_listing_id}`)
+  );
+
   return (
-    <PlaceholderPage
-      title="Applications"
-      message="Coming Soon"
-    />
+    <div className={styles.pageContainer}>
+      <TopNavigation />
+
+      <main className={styles.mainContent}>
+        <header className={styles.pageHeader}>
+          <div>
+            <h1 className={styles.pageTitle}>Applications</h1>
+            <p className={styles.pageSubtitle}>
+              {openDeals.length} open deal{openDeals.length === 1 ? '' : 's'} in your pipeline
+            </p>
+          </div>
+
+          <form className={styles.addDealForm} onSubmit={handleAddDeal}>
+            <select
+              className={styles.matchSelect}
+              value={selectedMatchId}
+              onChange={(e) => setSelectedMatchId(e.target.value)}
+              disabled={adding || availableMatches.length === 0}
+              aria-label="Property match to track"
+            >
+              <option value="">
+                {availableMatches.length === 0 ? 'No untracked matches' : 'Add a deal from your matches...'}
+              </option>
+              {availableMatches.map((match) => (
+                <option key={match.id} value={match.id}>
+                  {match.property.title} — {match.property.city}, {match.property.state} (
+                  {Math.round(match.match_score)}%)
+                </option>
+              ))}
+            </select>
+            <button type="submit" className={styles.addButton} disabled={adding || !selectedMatchId}>
+              {adding ? 'Adding...' : 'Add Deal'}
+            </button>
+          </form>
+        </header>
+
+        {needsUpgrade && (
+          <div className={styles.upgradeBanner} role="status">
+            The deal pipeline is a Pro feature. Upgrade your plan to add and move deals.
+          </div>
+        )}
+
+        {error && (
+          <div className={styles.errorBanner} role="alert">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className={styles.loadingContainer}>
+            <div className={styles.loadingSpinner} />
+            <p className={styles.loadingText}>Loading pipeline...</p>
+          </div>
+        ) : (
+          <DealPipelineBoard
+            deals={deals}
+            onMove={handleMove}
+            onSelect={(deal) => setSelectedDealId(deal.id)}
+          />
+        )}
+      </main>
+
+      <DealDetailsModal
+        dealId={selectedDealId}
+        onClose={() => setSelectedDealId(null)}
+        onMove={(dealId, stage) => {
+          setSelectedDealId(null);
+          handleMove(dealId, stage);
+        }}
+        onChanged={loadDeals}
+      />
+    </div>
   );
 };
 
@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { TopNavigation } from '@components/TopNavigation';
+import { KPICard } from '@components/KPICard';
+import { BrokerClientModal } from '@components/BrokerClientModal';
+import { DEAL_STAGES } from '@components/DealPipelineBoard';
+import {
+  getBrokerDashboard,
+  requestBrokerRepresentation,
+  revokeBrokerRepresentation,
+} from '@utils/apiClient';
+import {
+  BrokerClientStatus,
+  BrokerClientType,
+  BrokerClientWithDetails,
+  BrokerDashboardData,
+} from '@types';
+import styles from './BrokerDashboard.module.css';
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+const STATUS_LABELS: Record<BrokerClientStatus, string> = {
+  [BrokerClientStatus.PENDING]: 'Awaiting consent',
+  [BrokerClientStatus.ACTIVE]: 'Active',
+  [BrokerClientStatus.DECLINED]: 'Declined',
+  [BrokerClientStatus.REVOKED]: 'Ended',
+};
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * BrokerDashboard Page
+ *
+ * Dashboard for brokers representing tenants and landlords
+ * - Client roster with consent status; clients must approve each request
+ * - Combined matches, conversations and open deals across active clients
+ * - Manage a client's listings and review the audit trail of actions taken for them
+ */
+const BrokerDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const [data, setData] = useState<BrokerDashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [clientType, setClientType] = useState<BrokerClientType>(BrokerClientType.TENANT);
+  const [clientRef, setClientRef] = useState('');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [selectedClient, setSelectedClient] = useState<BrokerClientWithDetails | null>(null);
+
+  const loadDashboard = useCallback(async () => {
+    try {
+      setData(await getBrokerDashboard());
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load broker dashboard'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDashboard();
+  }, [loadDashboard]);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clientRef.trim()) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await requestBrokerRepresentation({
+        client_type: clientType,
+        ...(clientType === BrokerClientType.TENANT
+          ? { business_id: clientRef.trim() }
+          : { client_email: clientRef.trim() }),
+        message: message.trim() || undefined,
+      });
+      setClientRef('');
+      setMessage('');
+      await loadDashboard();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to send request'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnd = async (client: BrokerClientWithDetails) => {
+    const prompt =
+      client.status === BrokerClientStatus.PENDING
+        ? `Withdraw your request to represent ${client.client_name}?`
+        : `Stop representing ${client.client_name}? You will lose access to their listings.`;
+    if (!window.confirm(prompt)) return;
+
+    try {
+      setError(null);
+      await revokeBrokerRepresentation(client.id);
+      await loadDashboard();
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to end representation'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={styles.pageContainer}>
+        <TopNavigation />
+        <main className={styles.mainContent}>
+          <div className={styles.loadingContainer}>
+            <div className={styles.loadingSpinner} />
+            <p className={styles.loadingText}>Loading broker dashboard...</p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const clients = data?.clients || [];
+
+  return (
+    <div className={styles.pageContainer}>
+      <TopNavigation />
+
+      <main className={styles.mainContent}>
+        <header className={styles.pageHeader}>
+          <h1 className={styles.pageTitle}>Broker Dashboard</h1>
+          <p className={styles.pageSubtitle}>Your clients' matches, conversations and deals in one place</p>
+        </header>
+
+        {error && (
+          <div className={styles.errorBanner} role="alert">
+            {error}
+          </div>
+        )}
+
+        {data && (
+          <div className={styles.kpiGrid}>
+            <KPICard title="Active Clients" value={data.kpis.activeClients} />
+            <KPICard title="Awaiting Consent" value={data.kpis.pendingRequests} />
+            <KPICard title="Client Matches" value={data.kpis.activeMatches} />
+            <KPICard title="Active Conversations" value={data.kpis.activeConversations} />
+            <KPICard title="Open Deals" value={data.kpis.openDeals} />
+          </div>
+        )}
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <h2 className={styles.cardTitle}>Clients</h2>
+          </div>
+
+          <form className={styles.requestForm} onSubmit={handleRequest}>
+            <select
+              className={styles.input}
+              value={clientType}
+              onChange={(e) => setClientType(e.target.value as BrokerClientType)}
+              aria-label="Client type"
+            >
+              <option value={BrokerClientType.TENANT}>Tenant business</option>
+              <option value={BrokerClientType.LANDLORD}>Landlord</option>
+            </select>
+            <input
+              className={styles.input}
+              value={clientRef}
+              onChange={(e) => setClientRef(e.target.value)}
+              placeholder={clientType === BrokerClientType.TENANT ? 'Business ID' : 'Landlord email'}
+              aria-label={clientType === BrokerClientType.TENANT ? 'Business ID' : 'Landlord email'}
+              type={clientType === BrokerClientType.TENANT ? 'text' : 'email'}
+            />
+            <input
+              className={`${styles.input} ${styles.messageInput}`}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Note to the client (optional)"
+              maxLength={1000}
+              aria-label="Note to the client"
+            />
+            <button type="submit" className={styles.primaryButton} disabled={submitting || !clientRef.trim()}>
+              {submitting ? 'Sending...' : 'Request Access'}
+            </button>
+          </form>
+
+          {clients.length === 0 ? (
+            <p className={styles.empty}>
+              No clients yet. Clients approve each request before you can act on their behalf.
+            </p>
+          ) : (
+            <ul className={styles.list}>
+              {clients.map((client) => (
+                <li key={client.id} className={styles.listItem}>
+                  <div className={styles.itemMain}>
+                    <span className={styles.itemTitle}>{client.client_name}</span>
+                    <span className={styles.itemMeta}>
+                      {client.client_type === BrokerClientType.TENANT ? 'Tenant' : 'Landlord'}
+                      {client.client_email ? ` · ${client.client_email}` : ''}
+                    </span>
+                  </div>
+                  <span className={`${styles.statusBadge} ${styles[client.status]}`}>
+                    {STATUS_LABELS[client.status]}
+                  </span>
+                  <div className={styles.itemActions}>
+                    {client.status === BrokerClientStatus.ACTIVE && (
+                      <button className={styles.secondaryButton} onClick={() => setSelectedClient(client)}>
+                        Manage
+                      </button>
+                    )}
+                    {(client.status === BrokerClientStatus.ACTIVE ||
+                      client.status === BrokerClientStatus.PENDING) && (
+                      <button className={styles.linkButton} onClick={() => handleEnd(client)}>
+                        {client.status === BrokerClientStatus.PENDING ? 'Withdraw' : 'End'}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <div className={styles.columns}>
+          <section className={styles.card}>
+            <div className={styles.cardHeader}>
+              <h2 className={styles.cardTitle}>Top Matches</h2>
+            </div>
+            {!data || data.matches.length === 0 ? (
+              <p className={styles.empty}>No active matches for your clients' listings.</p>
+            ) : (
+              <ul className={styles.list}>
+                {data.matches.map((match) => (
+                  <li
+                    key={match.id}
+                    className={`${styles.listItem} ${styles.clickable}`}
+                    onClick={() => navigate(`/property/${match.property_listing_id}`)}
+                  >
+                    <div className={styles.itemMain}>
+                      <span className={styles.itemTitle}>{match.property_title}</span>
+                      <span className={styles.itemMeta}>
+                        {match.client_name} · {match.demand_listing_title || 'Requirement'} ·{' '}
+                        {match.property_city}, {match.property_state}
+                      </span>
+                    </div>
+                    <span className={styles.score}>{Math.round(Number(match.match_score))}%</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className={styles.card}>
+            <div className={styles.cardHeader}>
+              <h2 className={styles.cardTitle}>Recent Conversations</h2>
+            </div>
+            {!data || data.conversations.length === 0 ? (
+              <p className={styles.empty}>No conversations about your clients' listings yet.</p>
+            ) : (
+              <ul className={styles.list}>
+                {data.conversations.map((conversation) => (
+                  <li key={conversation.id} className={styles.listItem}>
+                    <div className={styles.itemMain}>
+                      <span className={styles.itemTitle}>
+                        {conversation.subject ||
+                          conversation.property_title ||
+                          conversation.demand_listing_title ||
+                          'Conversation'}
+                      </span>
+                      <span className={styles.itemMeta}>
+                        {conversation.client_name}
+                        {conversation.last_message_preview ? ` · ${conversation.last_message_preview}` : ''}
+                      </span>
+                    </div>
+                    <span className={styles.itemDate}>{formatDate(conversation.last_message_at)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <section className={styles.card}>
+          <div className={styles.cardHeader}>
+            <h2 className={styles.cardTitle}>Open Deals</h2>
+          </div>
+          {!data || data.deals.length === 0 ? (
+            <p className={styles.empty}>No open deals involving your clients.</p>
+          ) : (
+            <ul className={styles.list}>
+              {data.deals.map((deal) => (
+                <li key={deal.id} className={styles.listItem}>
+                  <div className={styles.itemMain}>
+                    <span className={styles.itemTitle}>{deal.property_title}</span>
+                    <span className={styles.itemMeta}>
+                      {deal.client_name} · {deal.business_name}
+                      {deal.demand_listing_title ? ` · ${deal.demand_listing_title}` : ''}
+                    </span>
+                  </div>
+                  <span className={styles.stageBadge}>{DEAL_STAGES.find((s) => s.stage === deal.stage)?.label || deal.stage}</span>
+                  {deal.expected_close_date && (
+                    <span className={styles.itemDate}>Close {formatDate(`${deal.expected_close_date}T00:00:00`)}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+
+      <BrokerClientModal
+        client={selectedClient}
+        onClose={() => setSelectedClient(null)}
+        onChanged={loadDashboard}
+      />
+    </div>
+  );
+};
+
+export default BrokerDashboard;
@@ -3,9 +3,10 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { TopNavigation } from '@components/TopNavigation';
 import { LoadingSpinner } from '@components/LoadingSpinner';
 import { DemandListingModal } from '@components/DemandListingModal';
+import { BusinessTeamModal } from '@components/BusinessTeamModal';
 import { useAuth } from '@contexts/AuthContext';
 import { getMatchesForDemandListing } from '@utils/apiClient';
-import { Business, DemandListing, BusinessMetrics } from '@types';
+import { Business, BusinessMemberRole, DemandListing, BusinessMetrics } from '@types';
 import styles from './BusinessDetail.module.css';
 
 interface MetricsData {
@@ -26,6 +27,7 @@ interface MetricsData {
  * - "Add Locations" button to create new demand listings
  * - List of all demand listings for this business
  * - Empty state when no locations exist
+ * - Team modal for inviting and managing members
  */
 const BusinessDetail: React.FC = () => {
   const { id: businessId } = useParams<{ id: string }>();
@@ -37,6 +39,8 @@ const BusinessDetail: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showDemandListingModal, setShowDemandListingModal] = useState(false);
+  const [showTeamModal, setShowTeamModal] = useState(false);
+  const [memberRole, setMemberRole] = useState<BusinessMemberRole>(BusinessMemberRole.OWNER);
   const [editingListing, setEditingListing] = useState<DemandListing | null>(null);
 
   // Filter state
@@ -100,6 +104,7 @@ const BusinessDetail: React.FC = () => {
         }
 
         setBusiness(data.data.business);
+        setMemberRole(data.data.role || BusinessMemberRole.OWNER);
         setDemandListings(data.data.demandListings || []);
       } catch (err: any) {
         console.error('Failed to load business:', err);
@@ -346,9 +351,7 @@ const BusinessDetail: React.FC = () => {
             <div className={styles.headerActions}>
               <button
                 className={styles.headerActionButton}
-                onClick={() => {
-                  alert('Invite Brokers feature coming soon');
-                }}
+                onClick={() => setShowTeamModal(true)}
               >
                 <svg
                   width="24"
@@ -365,7 +368,7 @@ const BusinessDetail: React.FC = () => {
                   <path d="M23 21v-2a4 4 0 0 0-3-3.87" />
                   <path d="M16 3.13a4 4 0 0 1 0 7.75" />
                 </svg>
-                <span>Invite Brokers</span>
+                <span>Team</span>
               </button>
 
               <button
@@ -391,25 +394,27 @@ const BusinessDetail: React.FC = () => {
                 <span>{metricsLoading ? 'Loading...' : 'Review Metrics'}</span>
               </button>
 
-              <button
-                className={styles.headerActionButton}
-                onClick={() => setShowDemandListingModal(true)}
-              >
-                <svg
-                  width="24"
-                  height="24"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
+              {memberRole !== BusinessMemberRole.VIEWER && (
+                <button
+                  className={styles.headerActionButton}
+                  onClick={() => setShowDemandListingModal(true)}
                 >
-                  <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z" />
-                  <circle cx="12" cy="10" r="3" />
-                </svg>
-                <span>Add Location</span>
-              </button>
+                  <svg
+                    width="24"
+                    height="24"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z" />
+                    <circle cx="12" cy="10" r="3" />
+                  </svg>
+                  <span>Add Location</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -784,6 +789,18 @@ const BusinessDetail: React.FC = () => {
         </div>
       </main>
 
+      {/* Team Modal */}
+      {businessId && user && (
+        <BusinessTeamModal
+          isOpen={showTeamModal}
+          businessId={businessId}
+          businessName={business.name}
+          currentUserId={user.userId}
+          currentRole={memberRole}
+          onClose={() => setShowTeamModal(false)}
+        />
+      )}
+
       {/* Demand Listing Modal */}
       {businessId && (
         <DemandListingModal
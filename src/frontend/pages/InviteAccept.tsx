@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { TopNavigation } from '@components/TopNavigation';
+import { LoadingSpinner } from '@components/LoadingSpinner';
+import {
+  getBusinessInvite,
+  acceptBusinessInvite,
+  declineBusinessInvite,
+} from '@utils/apiClient';
+import { Business, BusinessInvite } from '@types';
+import styles from './InviteAccept.module.css';
+
+type InvitePreview = {
+  invite: BusinessInvite;
+  business: Pick<Business, 'id' | 'name' | 'logo_url' | 'category'>;
+};
+
+// API errors arrive as { code, message } objects on the rejected payload
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+/**
+ * InviteAccept Page
+ *
+ * Landing page for the business invite email link (/invite/accept?token=...)
+ * - Shows the business and offered role
+ * - Accepting joins the team and opens the business
+ * - Declining marks the invite declined
+ */
+const InviteAccept: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token');
+
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [declined, setDeclined] = useState(false);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      if (!token) {
+        setError('This invite link is missing its token.');
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setPreview(await getBusinessInvite(token));
+      } catch (err: any) {
+        setError(getErrorMessage(err, 'Failed to load invite'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!token || !preview) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await acceptBusinessInvite(token);
+      navigate(`/business/${preview.business.id}`);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to accept invite'));
+      setSubmitting(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!token) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await declineBusinessInvite(token);
+      setDeclined(true);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to decline invite'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const isPending = preview?.invite.status === 'pending';
+
+  return (
+    <div className={styles.invitePage}>
+      <TopNavigation />
+
+      <main className={styles.content}>
+        {loading ? (
+          <LoadingSpinner size="large" centered />
+        ) : (
+          <div className={styles.card}>
+            {preview && (
+              <>
+                <h1 className={styles.title}>Join {preview.business.name}</h1>
+                <p className={styles.subtitle}>
+                  You've been invited as {preview.invite.role === 'admin' ? 'an' : 'a'}{' '}
+                  <strong>{preview.invite.role}</strong>.
+                </p>
+              </>
+            )}
+
+            {error && (
+              <div className={styles.errorMessage} role="alert">
+                {error}
+              </div>
+            )}
+
+            {declined ? (
+              <p className={styles.subtitle}>Invite declined.</p>
+            ) : (
+              preview && !isPending && (
+                <p className={styles.subtitle}>This invite has already been {preview.invite.status}.</p>
+              )
+            )}
+
+            <div className={styles.actions}>
+              {preview && isPending && !declined ? (
+                <>
+                  <button
+                    className={styles.secondaryButton}
+                    onClick={handleDecline}
+                    disabled={submitting}
+                  >
+                    Decline
+                  </button>
+                  <button
+                    className={styles.primaryButton}
+                    onClick={handleAccept}
+                    disabled={submitting}
+                  >
+                    {submitting ? 'Joining...' : 'Accept Invite'}
+                  </button>
+                </>
+              ) : (
+                <button className={styles.primaryButton} onClick={() => navigate('/dashboard')}>
+                  Go to Dashboard
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default InviteAccept;
@@ -1,8 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { TopNavigation } from '@components/TopNavigation';
 import { PropertyListingsSection } from '@components/PropertyListingsSection';
 import { PropertyListingModal } from '@components/PropertyListingModal';
+import { SavedSearchesModal } from '@components/SavedSearchesModal';
+import { ListingImportModal } from '@components/ListingImportModal';
 import { KPICard } from '@components/KPICard';
 import { useAuth } from '@contexts/AuthContext';
 import {
@@ -12,9 +14,10 @@ import {
   updatePropertyListingStatus,
   createPropertyListing,
   updatePropertyListing,
+  getPropertyListingsExportUrl,
 } from '@utils/apiClient';
 import { usePropertyFilter } from '@hooks/usePropertyFilter';
-import { PropertyListing, PropertyType, PropertyListingStatus } from '@types';
+import { ListingFeedFormat, PropertyListing, PropertyType, PropertyListingStatus, SavedSearchFilters } from '@types';
 import styles from './LandlordDashboard.module.css';
 
 /**
@@ -25,6 +28,8 @@ import styles from './LandlordDashboard.module.css';
  * - KPI cards showing property stats
  * - Property listings with search, filter, and pagination
  * - Property listing creation modal
+ * - Saved searches modal (seeded from the current filters)
+ * - Bulk import (CSV or RESO JSON) and export of listings
  *
  * Features:
  * - Loads property listings and stats on mount
@@ -49,16 +54,16 @@ const LandlordDashboard: React.FC = () => {
   const [stats, setStats] = useState({
     total: 0,
     active: 0,
-    pending: 0,
-    leased: 0,
-    offMarket: 0,
     totalViews: 0,
     totalInquiries: 0,
+    uniqueSavers: 0,
   });
 
   // Modal state
   const [showPropertyModal, setShowPropertyModal] = useState(false);
   const [editingProperty, setEditingProperty] = useState<PropertyListing | null>(null);
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // Property filtering
   const {
@@ -73,6 +78,15 @@ const LandlordDashboard: React.FC = () => {
     hasActiveFilters,
   } = usePropertyFilter(properties);
 
+  // Seed a new saved search with the filters currently applied
+  const savedSearchFilters = useMemo<SavedSearchFilters>(
+    () => ({
+      search: searchQuery.trim() || undefined,
+      property_type: typeFilter !== 'all' ? (typeFilter as PropertyType) : undefined,
+    }),
+    [searchQuery, typeFilter]
+  );
+
   /**
    * Load dashboard stats
    */
@@ -242,6 +256,14 @@ const LandlordDashboard: React.FC = () => {
     setEditingProperty(null);
   }, [loadPropertyListings, loadStats]);
 
+  /**
+   * Refresh after ListingImportModal finishes an import, leaving it open on the report
+   */
+  const handleListingsImported = useCallback(async () => {
+    await loadPropertyListings();
+    await loadStats();
+  }, [loadPropertyListings, loadStats]);
+
   /**
    * Render error state
    */
@@ -282,9 +304,20 @@ const LandlordDashboard: React.FC = () => {
                 Manage your commercial real estate listings
               </p>
             </div>
-            <button className={styles.addPropertyButton} onClick={handleAddProperty}>
-              + Add Property
-            </button>
+            <div className={styles.headerActions}>
+              <a className={styles.secondaryButton} href={getPropertyListingsExportUrl(ListingFeedFormat.CSV)}>
+                Export CSV
+              </a>
+              <a className={styles.secondaryButton} href={getPropertyListingsExportUrl(ListingFeedFormat.RESO)}>
+                Export RESO
+              </a>
+              <button className={styles.secondaryButton} onClick={() => setShowImport(true)}>
+                Import
+              </button>
+              <button className={styles.addPropertyButton} onClick={handleAddProperty}>
+                + Add Property
+              </button>
+            </div>
           </div>
 
           {/* KPI Cards */}
@@ -309,6 +342,11 @@ const LandlordDashboard: React.FC = () => {
               value={stats.totalInquiries}
               loading={loading}
             />
+            <KPICard
+              title="Saved By"
+              value={stats.uniqueSavers}
+              loading={loading}
+            />
           </div>
 
           {/* Property listings section */}
@@ -328,6 +366,7 @@ const LandlordDashboard: React.FC = () => {
             onViewDetails={handleViewDetails}
             onUpdateStatus={handleUpdateStatus}
             onPropertyClick={handlePropertyClick}
+            onManageSavedSearches={() => setShowSavedSearches(true)}
             hasMore={hasMore && !hasActiveFilters}
             isLoadingMore={isLoadingMore}
             totalCount={totalCount}
@@ -343,8 +382,23 @@ const LandlordDashboard: React.FC = () => {
           setEditingProperty(null);
         }}
         onListingCreated={handlePropertySaved}
+        onMediaChanged={loadPropertyListings}
         editListing={editingProperty}
       />
+
+      {/* Saved Searches Modal */}
+      <SavedSearchesModal
+        isOpen={showSavedSearches}
+        onClose={() => setShowSavedSearches(false)}
+        initialFilters={savedSearchFilters}
+      />
+
+      {/* Listing Import Modal */}
+      <ListingImportModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={handleListingsImported}
+      />
     </div>
   );
 };
@@ -18,7 +18,7 @@ import {
 } from 'recharts';
 import { TopNavigation } from '@components/TopNavigation';
 import { getMarketInsights } from '@utils/apiClient';
-import { MarketInsightsData } from '@types';
+import { MarketInsightsData, MarketInsightsFilters, PropertyType } from '@types';
 import styles from './MarketInsights.module.css';
 
 // Chart colors
@@ -31,20 +31,54 @@ const COLORS = {
   secondary: ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'],
 };
 
+// Reporting periods, in days back from today
+const RANGES = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+];
+
+const PROPERTY_TYPE_OPTIONS: Array<{ value: PropertyType; label: string }> = [
+  { value: PropertyType.RETAIL, label: 'Retail' },
+  { value: PropertyType.RESTAURANT, label: 'Restaurant' },
+  { value: PropertyType.OFFICE, label: 'Office' },
+  { value: PropertyType.INDUSTRIAL, label: 'Industrial' },
+  { value: PropertyType.WAREHOUSE, label: 'Warehouse' },
+  { value: PropertyType.MEDICAL, label: 'Medical' },
+  { value: PropertyType.FLEX, label: 'Flex Space' },
+  { value: PropertyType.LAND, label: 'Land' },
+  { value: PropertyType.OTHER, label: 'Other' },
+];
+
 /**
  * MarketInsights Page
  * Displays market analytics with charts and KPIs
+ *
+ * Trends and changes come from the daily market snapshots and can be
+ * narrowed by state, property type and reporting period.
  */
 const MarketInsights: React.FC = () => {
   const [data, setData] = useState<MarketInsightsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [stateFilter, setStateFilter] = useState('');
+  const [propertyTypeFilter, setPropertyTypeFilter] = useState<PropertyType | ''>('');
+  const [rangeDays, setRangeDays] = useState(365);
+
+  // Only complete two-letter codes narrow the results
+  const stateCode = /^[A-Za-z]{2}$/.test(stateFilter.trim()) ? stateFilter.trim().toUpperCase() : '';
 
   const fetchData = useCallback(async () => {
+    const filters: MarketInsightsFilters = {
+      from: new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    };
+    if (stateCode) filters.state = stateCode;
+    if (propertyTypeFilter) filters.propertyType = propertyTypeFilter;
+
     try {
       setIsLoading(true);
       setError(null);
-      const insights = await getMarketInsights();
+      const insights = await getMarketInsights(filters);
       setData(insights);
     } catch (err: any) {
       console.error('Failed to fetch market insights:', err);
@@ -52,7 +86,7 @@ const MarketInsights: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [stateCode, propertyTypeFilter, rangeDays]);
 
   useEffect(() => {
     fetchData();
@@ -83,14 +117,22 @@ const MarketInsights: React.FC = () => {
     );
   };
 
-  // Format date for display
+  // Format date for display; monthly trend points are labelled YYYY-MM
   const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+    const isMonth = dateStr.length === 7;
+    const date = new Date(isMonth ? `${dateStr}-01T00:00:00Z` : `${dateStr}T00:00:00Z`);
+    return date.toLocaleDateString(
+      'en-US',
+      isMonth
+        ? { month: 'short', year: '2-digit', timeZone: 'UTC' }
+        : { month: 'short', day: 'numeric', timeZone: 'UTC' }
+    );
   };
 
-  // Loading state
-  if (isLoading) {
+  const rangeLabel = RANGES.find((range) => range.days === rangeDays)?.label || '';
+
+  // Loading state (filter changes keep the current data on screen)
+  if (isLoading && !data) {
     return (
       <div className={styles.pageContainer}>
         <TopNavigation />
@@ -142,12 +184,50 @@ const MarketInsights: React.FC = () => {
           <div className={styles.titleRow}>
             <h1 className={styles.pageTitle}>Market Insights</h1>
             <span className={styles.lastUpdated}>
-              Last updated: {new Date(data.lastUpdated).toLocaleString()}
+              {data.snapshotDate
+                ? `Market snapshot: ${formatDate(data.snapshotDate)}`
+                : 'Live figures (no snapshot history yet)'}
+              {' · '}Last updated: {new Date(data.lastUpdated).toLocaleString()}
             </span>
           </div>
           <p className={styles.pageSubtitle}>
             Aggregate market data and trends across commercial real estate sectors
           </p>
+
+          <div className={styles.filterBar}>
+            <input
+              className={styles.filterInput}
+              value={stateFilter}
+              onChange={(e) => setStateFilter(e.target.value.slice(0, 2))}
+              placeholder="State (e.g. TX)"
+              aria-label="State"
+            />
+            <select
+              className={styles.filterSelect}
+              value={propertyTypeFilter}
+              onChange={(e) => setPropertyTypeFilter(e.target.value as PropertyType | '')}
+              aria-label="Property type"
+            >
+              <option value="">All property types</option>
+              {PROPERTY_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className={styles.filterSelect}
+              value={rangeDays}
+              onChange={(e) => setRangeDays(Number(e.target.value))}
+              aria-label="Reporting period"
+            >
+              {RANGES.map((range) => (
+                <option key={range.days} value={range.days}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+          </div>
         </header>
 
         {/* KPI Cards */}
@@ -188,7 +268,7 @@ const MarketInsights: React.FC = () => {
             <div className={styles.chartHeader}>
               <div>
                 <h3 className={styles.chartTitle}>Vacancy Rate Trends</h3>
-                <p className={styles.chartSubtitle}>12-month vacancy rates by asset type</p>
+                <p className={styles.chartSubtitle}>Vacancy rates by asset type · {rangeLabel}</p>
               </div>
             </div>
             <div className={styles.chartContainer}>
@@ -307,7 +387,7 @@ const MarketInsights: React.FC = () => {
             <div className={styles.chartHeader}>
               <div>
                 <h3 className={styles.chartTitle}>Net Absorption by Asset Type</h3>
-                <p className={styles.chartSubtitle}>Square footage absorbed (leased)</p>
+                <p className={styles.chartSubtitle}>Change in leased square footage · {rangeLabel}</p>
               </div>
             </div>
             <div className={styles.chartContainer}>
@@ -1,17 +1,43 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '@contexts/AuthContext';
 import { TopNavigation } from '@components/TopNavigation';
 import { ConversationList } from '@components/ConversationList';
 import { MessageThread } from '@components/MessageThread';
 import { MessageInput } from '@components/MessageInput';
+import { MessageSearch } from '@components/MessageSearch';
+import { MessageTemplatesModal } from '@components/MessageTemplatesModal';
 import {
   getConversations,
   getMessages,
   sendMessage as sendMessageApi,
   markConversationAsRead,
+  uploadMessageAttachment,
+  editMessage as editMessageApi,
+  getMessageEdits,
+  setMessageReaction,
+  addConversationParticipants,
+  removeConversationParticipant,
+  setConversationParticipantRole,
+  renameConversation,
+  getMessageTemplates,
+  renderMessageTemplate,
+  scheduleMessage as scheduleMessageApi,
+  getScheduledMessages,
+  cancelScheduledMessage,
+  setConversationNudge,
+  blockUser,
 } from '@utils/apiClient';
 import { messagingWebSocket } from '@utils/messagingWebsocket';
-import { ConversationWithDetails, Message } from '@types';
+import {
+  ConversationNudge,
+  ConversationParticipantRole,
+  ConversationWithDetails,
+  Message,
+  MessageAttachment,
+  MessageTemplate,
+  ScheduledMessage,
+} from '@types';
 import styles from './Messages.module.css';
 
 /**
@@ -21,12 +47,14 @@ import styles from './Messages.module.css';
 const Messages: React.FC = () => {
   const { user } = useAuth();
   const currentUserId = user?.userId || '';
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // State
   const [conversations, setConversations] = useState<ConversationWithDetails[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<ConversationWithDetails | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
 
   // Loading states
   const [loadingConversations, setLoadingConversations] = useState(true);
@@ -46,6 +74,19 @@ const Messages: React.FC = () => {
   // Mobile view state
   const [showSidebar, setShowSidebar] = useState(true);
 
+  // Message search replaces the conversation list while open
+  const [showSearch, setShowSearch] = useState(false);
+
+  // Canned responses for the composer's slash picker
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+
+  // The user's messages waiting to be sent in the open conversation
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+
+  // Contacts with the messaging page open somewhere
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+
   // Fetch conversations
   const fetchConversations = useCallback(async () => {
     try {
@@ -61,6 +102,23 @@ const Messages: React.FC = () => {
     }
   }, []);
 
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setTemplates(await getMessageTemplates());
+    } catch (err: any) {
+      console.error('Failed to fetch message templates:', err);
+    }
+  }, []);
+
+  const fetchScheduledMessages = useCallback(async (conversationId: string) => {
+    try {
+      const data = await getScheduledMessages(conversationId);
+      setScheduledMessages(data.scheduled_messages);
+    } catch (err: any) {
+      console.error('Failed to fetch scheduled messages:', err);
+    }
+  }, []);
+
   // Fetch messages for a conversation
   const fetchMessages = useCallback(async (conversationId: string, before?: string) => {
     try {
@@ -104,6 +162,13 @@ const Messages: React.FC = () => {
       if (selectedConversation && data.message.conversation_id === selectedConversation.id) {
         setMessages((prev) => [...prev, data.message]);
 
+        // One of our scheduled messages was delivered
+        if (data.message.sender_id === currentUserId) {
+          setScheduledMessages((prev) =>
+            prev.filter((scheduled) => new Date(scheduled.send_at).getTime() > Date.now())
+          );
+        }
+
         // Mark as read since we're viewing the conversation
         markConversationAsRead(selectedConversation.id).catch(console.error);
       }
@@ -131,6 +196,16 @@ const Messages: React.FC = () => {
       });
     });
 
+    const unsubscribeMessageEdited = messagingWebSocket.onMessageEdited((data) => {
+      setMessages((prev) => prev.map((m) => (m.id === data.message.id ? data.message : m)));
+    });
+
+    const unsubscribeMessageReaction = messagingWebSocket.onMessageReaction((data) => {
+      setMessages((prev) =>
+        prev.map((m) => (m.id === data.messageId ? { ...m, reactions: data.reactions } : m))
+      );
+    });
+
     const unsubscribeTypingStart = messagingWebSocket.onTypingStart((data) => {
       if (data.userId !== currentUserId) {
         setTypingUsers((prev) => {
@@ -150,6 +225,57 @@ const Messages: React.FC = () => {
       setConversations((prev) => [data.conversation, ...prev]);
     });
 
+    const unsubscribeParticipantsChanged = messagingWebSocket.onParticipantsChanged((data) => {
+      const applyParticipants = (conv: ConversationWithDetails) =>
+        conv.id === data.conversationId ? { ...conv, participants: data.participants } : conv;
+      setConversations((prev) => prev.map(applyParticipants));
+      setSelectedConversation((prev) => (prev ? applyParticipants(prev) : prev));
+    });
+
+    const unsubscribeConversationRenamed = messagingWebSocket.onConversationRenamed((data) => {
+      const applySubject = (conv: ConversationWithDetails) =>
+        conv.id === data.conversationId ? { ...conv, subject: data.subject } : conv;
+      setConversations((prev) => prev.map(applySubject));
+      setSelectedConversation((prev) => (prev ? applySubject(prev) : prev));
+    });
+
+    const unsubscribeConversationRemoved = messagingWebSocket.onConversationRemoved((data) => {
+      setConversations((prev) => prev.filter((conv) => conv.id !== data.conversationId));
+      if (selectedConversation?.id === data.conversationId) {
+        setSelectedConversation(null);
+        setMessages([]);
+        setShowSidebar(true);
+      }
+    });
+
+    const unsubscribePresenceSnapshot = messagingWebSocket.onPresenceSnapshot((data) => {
+      setOnlineUserIds(new Set(data.onlineUserIds));
+    });
+
+    const unsubscribePresenceUpdate = messagingWebSocket.onPresenceUpdate((data) => {
+      setOnlineUserIds((prev) => {
+        const next = new Set(prev);
+        if (data.isOnline) {
+          next.add(data.userId);
+        } else {
+          next.delete(data.userId);
+        }
+        return next;
+      });
+
+      if (data.lastSeenAt) {
+        const lastSeenAt = new Date(data.lastSeenAt);
+        const applyLastSeen = (conv: ConversationWithDetails) => ({
+          ...conv,
+          participants: conv.participants.map((p) =>
+            p.user_id === data.userId && p.user ? { ...p, user: { ...p.user, last_seen_at: lastSeenAt } } : p
+          ),
+        });
+        setConversations((prev) => prev.map(applyLastSeen));
+        setSelectedConversation((prev) => (prev ? applyLastSeen(prev) : prev));
+      }
+    });
+
     const unsubscribeUnreadUpdate = messagingWebSocket.onUnreadUpdate((data) => {
       // Could update a global unread badge here
       console.log('Unread count updated:', data.unreadCount);
@@ -162,29 +288,47 @@ const Messages: React.FC = () => {
 
     return () => {
       unsubscribeNewMessage();
+      unsubscribeMessageEdited();
+      unsubscribeMessageReaction();
       unsubscribeTypingStart();
       unsubscribeTypingStop();
       unsubscribeNewConversation();
+      unsubscribeParticipantsChanged();
+      unsubscribeConversationRenamed();
+      unsubscribeConversationRemoved();
+      unsubscribePresenceSnapshot();
+      unsubscribePresenceUpdate();
       unsubscribeUnreadUpdate();
       clearInterval(checkConnection);
       messagingWebSocket.disconnect();
     };
   }, [currentUserId, selectedConversation]);
 
-  // Fetch conversations on mount
+  // Tell the server which conversation is open so it can skip emails the user would see anyway
+  useEffect(() => {
+    messagingWebSocket.viewConversation(selectedConversation?.id ?? null);
+  }, [selectedConversation?.id]);
+
+  useEffect(() => () => messagingWebSocket.viewConversation(null), []);
+
+  // Fetch conversations and templates on mount
   useEffect(() => {
     fetchConversations();
-  }, [fetchConversations]);
+    fetchTemplates();
+  }, [fetchConversations, fetchTemplates]);
 
   // Handle conversation selection
   const handleSelectConversation = useCallback(
     async (conversation: ConversationWithDetails) => {
       setSelectedConversation(conversation);
       setMessages([]);
+      setReplyingTo(null);
+      setScheduledMessages([]);
       oldestMessageIdRef.current = null;
       setShowSidebar(false);
 
       // Fetch messages
+      fetchScheduledMessages(conversation.id);
       await fetchMessages(conversation.id);
 
       // Join WebSocket room
@@ -202,12 +346,36 @@ const Messages: React.FC = () => {
         }
       }
     },
-    [fetchMessages]
+    [fetchMessages, fetchScheduledMessages]
+  );
+
+  // Open the conversation linked from elsewhere, e.g. after a listing inquiry
+  const linkedConversationId = searchParams.get('conversation');
+  useEffect(() => {
+    if (!linkedConversationId || loadingConversations) return;
+
+    const linked = conversations.find((conv) => conv.id === linkedConversationId);
+    if (linked) {
+      handleSelectConversation(linked);
+    }
+    setSearchParams({}, { replace: true });
+  }, [linkedConversationId, loadingConversations, conversations, handleSelectConversation, setSearchParams]);
+
+  // Open the conversation a search result belongs to
+  const handleSelectSearchResult = useCallback(
+    (conversation: ConversationWithDetails) => {
+      if (conversation.id !== selectedConversation?.id) {
+        handleSelectConversation(conversation);
+      } else {
+        setShowSidebar(false);
+      }
+    },
+    [selectedConversation, handleSelectConversation]
   );
 
   // Handle send message
   const handleSendMessage = useCallback(
-    async (content: string, attachments?: any[]) => {
+    async (content: string, attachments?: MessageAttachment[]) => {
       if (!selectedConversation) return;
 
       try {
@@ -215,10 +383,12 @@ const Messages: React.FC = () => {
         const { message } = await sendMessageApi(selectedConversation.id, {
           content,
           attachments,
+          reply_to_message_id: replyingTo?.id,
         });
 
         // Message will be added via WebSocket, but add optimistically for better UX
         setMessages((prev) => [...prev, message]);
+        setReplyingTo(null);
       } catch (err: any) {
         console.error('Failed to send message:', err);
         setError('Failed to send message. Please try again.');
@@ -226,6 +396,143 @@ const Messages: React.FC = () => {
         setSendingMessage(false);
       }
     },
+    [selectedConversation, replyingTo]
+  );
+
+  // Schedule the message for later; errors are shown by the composer
+  const handleScheduleMessage = useCallback(
+    async (content: string, sendAt: Date, attachments?: MessageAttachment[]) => {
+      if (!selectedConversation) return;
+
+      const { scheduled_message } = await scheduleMessageApi(selectedConversation.id, {
+        content,
+        attachments,
+        reply_to_message_id: replyingTo?.id,
+        send_at: sendAt.toISOString(),
+      });
+
+      setScheduledMessages((prev) =>
+        [...prev, scheduled_message].sort(
+          (a, b) => new Date(a.send_at).getTime() - new Date(b.send_at).getTime()
+        )
+      );
+      setReplyingTo(null);
+    },
+    [selectedConversation, replyingTo]
+  );
+
+  const handleCancelScheduledMessage = useCallback(async (scheduledMessageId: string) => {
+    try {
+      await cancelScheduledMessage(scheduledMessageId);
+      setScheduledMessages((prev) => prev.filter((scheduled) => scheduled.id !== scheduledMessageId));
+    } catch (err: any) {
+      console.error('Failed to cancel scheduled message:', err);
+      setError('Failed to cancel scheduled message. It may already have been sent.');
+    }
+  }, []);
+
+  // Save an edit; errors are shown by the thread's edit form
+  const handleEditMessage = useCallback(async (messageId: string, content: string) => {
+    const { message } = await editMessageApi(messageId, content);
+    setMessages((prev) => prev.map((m) => (m.id === message.id ? message : m)));
+  }, []);
+
+  const handleToggleReaction = useCallback(
+    async (message: Message, emoji: string, reacted: boolean) => {
+      try {
+        const { reactions } = await setMessageReaction(message.id, emoji, reacted);
+        setMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, reactions } : m)));
+      } catch (err: any) {
+        console.error('Failed to update reaction:', err);
+        setError('Failed to update reaction. Please try again.');
+      }
+    },
+    []
+  );
+
+  const handleLoadEditHistory = useCallback(async (messageId: string) => {
+    const { edits } = await getMessageEdits(messageId);
+    return edits;
+  }, []);
+
+  // Keep the list and the open thread in sync after a membership or subject change
+  const applyConversationUpdate = useCallback((conversation: ConversationWithDetails) => {
+    setConversations((prev) => prev.map((c) => (c.id === conversation.id ? { ...c, ...conversation } : c)));
+    setSelectedConversation((prev) => (prev?.id === conversation.id ? { ...prev, ...conversation } : prev));
+  }, []);
+
+  // Group management errors are shown by the thread's participant panel
+  const handleAddParticipants = useCallback(
+    async (emails: string[]) => {
+      if (!selectedConversation) return;
+      const { conversation } = await addConversationParticipants(selectedConversation.id, { emails });
+      applyConversationUpdate(conversation);
+    },
+    [selectedConversation, applyConversationUpdate]
+  );
+
+  const handleRemoveParticipant = useCallback(
+    async (userId: string) => {
+      if (!selectedConversation) return;
+      const { conversation } = await removeConversationParticipant(selectedConversation.id, userId);
+      applyConversationUpdate(conversation);
+    },
+    [selectedConversation, applyConversationUpdate]
+  );
+
+  const handleSetParticipantRole = useCallback(
+    async (userId: string, role: ConversationParticipantRole) => {
+      if (!selectedConversation) return;
+      const { conversation } = await setConversationParticipantRole(selectedConversation.id, userId, role);
+      applyConversationUpdate(conversation);
+    },
+    [selectedConversation, applyConversationUpdate]
+  );
+
+  const handleRenameConversation = useCallback(
+    async (subject: string) => {
+      if (!selectedConversation) return;
+      const { conversation } = await renameConversation(selectedConversation.id, subject);
+      applyConversationUpdate(conversation);
+    },
+    [selectedConversation, applyConversationUpdate]
+  );
+
+  const handleSetNudge = useCallback(
+    async (nudge: ConversationNudge | null) => {
+      if (!selectedConversation) return;
+      const result = await setConversationNudge(selectedConversation.id, {
+        after_days: nudge?.after_days ?? null,
+        in_app: nudge?.in_app,
+        email: nudge?.email,
+      });
+      applyConversationUpdate({ ...selectedConversation, nudge: result.nudge });
+    },
+    [selectedConversation, applyConversationUpdate]
+  );
+
+  // Blocking takes effect on the server; the panel shows any error
+  const handleBlockUser = useCallback(async (userId: string) => {
+    await blockUser(userId);
+  }, []);
+
+  // Fill a template from the open conversation's listing; errors are shown by the picker
+  const handleInsertTemplate = useCallback(
+    async (template: MessageTemplate) => {
+      const { content } = await renderMessageTemplate(template.id, selectedConversation?.id);
+      return content;
+    },
+    [selectedConversation]
+  );
+
+  // Upload a picked file to the open conversation
+  const handleUploadAttachment = useCallback(
+    async (file: File) => {
+      if (!selectedConversation) {
+        throw new Error('Select a conversation first');
+      }
+      return uploadMessageAttachment(selectedConversation.id, file);
+    },
     [selectedConversation]
   );
 
@@ -284,13 +591,24 @@ const Messages: React.FC = () => {
       <main className={styles.mainContent}>
         {/* Conversation list sidebar */}
         <aside className={`${styles.sidebar} ${!showSidebar ? styles.hidden : ''}`}>
-          <ConversationList
-            conversations={conversations}
-            selectedConversationId={selectedConversation?.id}
-            currentUserId={currentUserId}
-            loading={loadingConversations}
-            onSelectConversation={handleSelectConversation}
-          />
+          {showSearch ? (
+            <MessageSearch
+              conversations={conversations}
+              currentUserId={currentUserId}
+              onSelectResult={handleSelectSearchResult}
+              onClose={() => setShowSearch(false)}
+            />
+          ) : (
+            <ConversationList
+              conversations={conversations}
+              selectedConversationId={selectedConversation?.id}
+              currentUserId={currentUserId}
+              onlineUserIds={onlineUserIds}
+              loading={loadingConversations}
+              onSelectConversation={handleSelectConversation}
+              onSearchMessages={() => setShowSearch(true)}
+            />
+          )}
         </aside>
 
         {/* Chat area */}
@@ -302,21 +620,48 @@ const Messages: React.FC = () => {
             loading={loadingMessages}
             hasMore={hasMoreMessages}
             typingUsers={typingUsers}
+            onlineUserIds={onlineUserIds}
             onLoadMore={handleLoadMore}
             onBack={handleBack}
+            onReply={setReplyingTo}
+            onEditMessage={handleEditMessage}
+            onToggleReaction={handleToggleReaction}
+            onLoadEditHistory={handleLoadEditHistory}
+            onAddParticipants={handleAddParticipants}
+            onRemoveParticipant={handleRemoveParticipant}
+            onSetParticipantRole={handleSetParticipantRole}
+            onRenameConversation={handleRenameConversation}
+            onSetNudge={handleSetNudge}
+            scheduledMessages={scheduledMessages}
+            onCancelScheduledMessage={handleCancelScheduledMessage}
+            onBlockUser={handleBlockUser}
           />
 
           {selectedConversation && (
             <MessageInput
               onSend={handleSendMessage}
+              onUploadAttachment={handleUploadAttachment}
               onTypingStart={handleTypingStart}
               onTypingStop={handleTypingStop}
+              replyingTo={replyingTo}
+              onCancelReply={() => setReplyingTo(null)}
+              templates={templates}
+              onInsertTemplate={handleInsertTemplate}
+              onManageTemplates={() => setShowTemplates(true)}
+              onSchedule={handleScheduleMessage}
               disabled={sendingMessage}
               placeholder="Type a message..."
             />
           )}
         </section>
       </main>
+
+      <MessageTemplatesModal
+        isOpen={showTemplates}
+        templates={templates}
+        onClose={() => setShowTemplates(false)}
+        onChanged={fetchTemplates}
+      />
     </div>
   );
 };
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { TopNavigation } from '@components/TopNavigation';
 import { LoadingSpinner } from '@components/LoadingSpinner';
+import { useAuth } from '@contexts/AuthContext';
+import { getListingTrafficAnalytics } from '@utils/apiClient';
+import { ListingTrafficAnalytics, ListingTrafficSource, UserRole } from '@types';
 import styles from './MetricsDashboard.module.css';
 
 interface LocationMetrics {
@@ -102,8 +105,176 @@ const DonutChart: React.FC<{
   );
 };
 
+const TRAFFIC_SOURCE_LABELS: Record<ListingTrafficSource, string> = {
+  [ListingTrafficSource.DIRECT]: 'Direct',
+  [ListingTrafficSource.INTERNAL]: 'Browsing TenantList',
+  [ListingTrafficSource.SHARE_LINK]: 'Share links',
+  [ListingTrafficSource.SEARCH_ENGINE]: 'Search engines',
+  [ListingTrafficSource.SOCIAL]: 'Social media',
+  [ListingTrafficSource.EMAIL]: 'Email',
+  [ListingTrafficSource.REFERRAL]: 'Other websites',
+};
+
+const formatViewerRole = (role: string) =>
+  role === 'anonymous' ? 'Signed out' : `${role.charAt(0).toUpperCase()}${role.slice(1)}s`;
+
+// Horizontal bar list, each bar sized against the largest value
+const BarList: React.FC<{ rows: { label: string; value: number }[]; emptyText: string }> = ({ rows, emptyText }) => {
+  if (rows.length === 0) {
+    return <p className={styles.trafficEmpty}>{emptyText}</p>;
+  }
+
+  const max = Math.max(...rows.map((row) => row.value), 1);
+  return (
+    <ul className={styles.barList}>
+      {rows.map((row) => (
+        <li key={row.label} className={styles.barRow}>
+          <span className={styles.barLabel}>{row.label}</span>
+          <span className={styles.barTrack}>
+            <span className={styles.barFill} style={{ width: `${(row.value / max) * 100}%` }} />
+          </span>
+          <span className={styles.barValue}>{row.value}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// Listing traffic for landlords and brokers (Enterprise): who viewed their
+// listings, how often, and where they came from
+const ListingTrafficCard: React.FC<{ days: number }> = ({ days }) => {
+  const navigate = useNavigate();
+  const [traffic, setTraffic] = useState<ListingTrafficAnalytics | null>(null);
+  const [upgradeUrl, setUpgradeUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    getListingTrafficAnalytics({ days })
+      .then((data) => {
+        if (!cancelled) setTraffic(data);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        if (err?.status === 403 && err?.data?.details?.upgradeUrl) {
+          setUpgradeUrl(err.data.details.upgradeUrl);
+        } else {
+          setError('Failed to load listing traffic');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  if (upgradeUrl) {
+    return (
+      <div className={styles.summaryCard}>
+        <h2 className={styles.summaryTitle}>Listing Traffic</h2>
+        <p className={styles.trafficEmpty}>
+          See unique and repeat viewers of your listings and where they came from on the Enterprise plan.
+        </p>
+        <button className={styles.downloadButton} onClick={() => navigate(upgradeUrl)}>
+          Upgrade
+        </button>
+      </div>
+    );
+  }
+
+  if (error || !traffic) {
+    return (
+      <div className={styles.summaryCard}>
+        <h2 className={styles.summaryTitle}>Listing Traffic</h2>
+        {error ? <p className={styles.trafficEmpty}>{error}</p> : <LoadingSpinner size="small" centered />}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.summaryCard}>
+      <h2 className={styles.summaryTitle}>Listing Traffic</h2>
+      <p className={styles.trafficNote}>
+        Last {traffic.days} days. Each viewer counts once per visit; bots and your own visits are left out.
+      </p>
+
+      <div className={styles.summaryGrid}>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>Views</span>
+          <span className={styles.summaryValue}>{traffic.totals.views}</span>
+        </div>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>Unique Viewers</span>
+          <span className={styles.summaryValue}>{traffic.totals.unique_viewers}</span>
+        </div>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>Repeat Viewers</span>
+          <span className={styles.summaryValue}>{traffic.totals.repeat_viewers}</span>
+        </div>
+        <div className={styles.summaryItem}>
+          <span className={styles.summaryLabel}>Clicks</span>
+          <span className={styles.summaryValue}>{traffic.totals.clicks}</span>
+        </div>
+      </div>
+
+      <div className={styles.trafficGrid}>
+        <section>
+          <h3 className={styles.trafficHeading}>Sources</h3>
+          <BarList
+            rows={traffic.sources.map((row) => ({ label: TRAFFIC_SOURCE_LABELS[row.source], value: row.views }))}
+            emptyText="No views yet"
+          />
+        </section>
+        <section>
+          <h3 className={styles.trafficHeading}>Viewers</h3>
+          <BarList
+            rows={traffic.viewer_roles.map((row) => ({ label: formatViewerRole(row.role), value: row.viewers }))}
+            emptyText="No viewers yet"
+          />
+        </section>
+        <section>
+          <h3 className={styles.trafficHeading}>Businesses</h3>
+          <BarList
+            rows={traffic.businesses.map((row) => ({ label: row.name, value: row.views }))}
+            emptyText="No signed-in businesses have viewed your listings"
+          />
+        </section>
+      </div>
+
+      {traffic.listings.length > 0 && (
+        <table className={styles.metricsTable}>
+          <thead>
+            <tr>
+              <th>Listing</th>
+              <th>Views</th>
+              <th>Unique Viewers</th>
+              <th>Repeat Viewers</th>
+              <th>Clicks</th>
+            </tr>
+          </thead>
+          <tbody>
+            {traffic.listings.map((listing) => (
+              <tr key={listing.property_listing_id}>
+                <td>{listing.title}</td>
+                <td>{listing.views}</td>
+                <td>{listing.unique_viewers}</td>
+                <td>{listing.repeat_viewers}</td>
+                <td>{listing.clicks}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
 const MetricsDashboard: React.FC = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const isListingOwner = user?.role === UserRole.LANDLORD || user?.role === UserRole.BROKER;
 
   // State
   const [loading, setLoading] = useState(true);
@@ -315,6 +486,8 @@ const MetricsDashboard: React.FC = () => {
             </div>
           </div>
 
+          {isListingOwner && <ListingTrafficCard days={Number(dateRange)} />}
+
           {/* Filters and Table Card */}
           <div className={styles.tableCard}>
             {/* Filters Row */}
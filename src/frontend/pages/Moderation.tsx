@@ -0,0 +1,261 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { TopNavigation } from '@components/TopNavigation';
+import { getReportQueue, resolveReport } from '@utils/apiClient';
+import { UserReport, UserReportStatus } from '@types';
+import styles from './Moderation.module.css';
+
+const PAGE_SIZE = 20;
+
+const STATUS_OPTIONS: Array<{ value: UserReportStatus; label: string }> = [
+  { value: UserReportStatus.OPEN, label: 'Open' },
+  { value: UserReportStatus.ACTIONED, label: 'Actioned' },
+  { value: UserReportStatus.DISMISSED, label: 'Dismissed' },
+];
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+const formatDateTime = (value: Date | string): string =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+interface ReportCardProps {
+  report: UserReport;
+  onResolve: (
+    report: UserReport,
+    data: { status: UserReportStatus; resolution_note?: string; deactivate_user?: boolean }
+  ) => Promise<void>;
+}
+
+/**
+ * One report with the conversation captured when it was filed, and the
+ * review controls while it is open
+ */
+const ReportCard: React.FC<ReportCardProps> = ({ report, onResolve }) => {
+  const [note, setNote] = useState('');
+  const [deactivate, setDeactivate] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const resolve = async (status: UserReportStatus) => {
+    setBusy(true);
+    try {
+      await onResolve(report, {
+        status,
+        resolution_note: note.trim() || undefined,
+        deactivate_user: status === UserReportStatus.ACTIONED && deactivate,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const messages = report.context.messages || [];
+
+  return (
+    <li className={styles.report}>
+      <div className={styles.reportHeader}>
+        <span className={styles.reason}>{report.reason}</span>
+        <strong>{report.reported_user_email}</strong>
+        {report.reported_user_is_active === false && <span className={styles.meta}>(deactivated)</span>}
+        <span className={styles.meta}>
+          reported by {report.reporter_email} · {formatDateTime(report.created_at)}
+          {report.status === UserReportStatus.OPEN &&
+            (report.reported_user_open_reports || 0) > 1 &&
+            ` · ${report.reported_user_open_reports} open reports against this user`}
+        </span>
+      </div>
+
+      {report.details && <p className={styles.details}>{report.details}</p>}
+
+      {messages.length > 0 && (
+        <ul className={styles.context} aria-label="Conversation when reported">
+          {report.context.conversation_subject && (
+            <li className={styles.meta}>{report.context.conversation_subject}</li>
+          )}
+          {messages.map((message) => (
+            <li
+              key={message.id}
+              className={message.id === report.context.reported_message_id ? styles.reported : undefined}
+            >
+              <span className={styles.contextSender}>{message.sender_name}:</span> {message.content}
+              {message.attachments.length > 0 && ` [${message.attachments.join(', ')}]`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.status === UserReportStatus.OPEN ? (
+        <div className={styles.reviewForm}>
+          <input
+            className={styles.noteInput}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Resolution note (optional)"
+            disabled={busy}
+            aria-label="Resolution note"
+          />
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={deactivate}
+              onChange={(e) => setDeactivate(e.target.checked)}
+              disabled={busy || report.reported_user_is_active === false}
+            />
+            Deactivate account
+          </label>
+          <button className={styles.button} onClick={() => resolve(UserReportStatus.ACTIONED)} disabled={busy}>
+            Action
+          </button>
+          <button
+            className={styles.secondaryButton}
+            onClick={() => resolve(UserReportStatus.DISMISSED)}
+            disabled={busy}
+          >
+            Dismiss
+          </button>
+        </div>
+      ) : (
+        <p className={styles.resolution}>
+          {report.status === UserReportStatus.ACTIONED ? 'Actioned' : 'Dismissed'}
+          {report.reviewed_at && ` ${formatDateTime(report.reviewed_at)}`}
+          {report.resolution_note && ` — ${report.resolution_note}`}
+        </p>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Moderation Page
+ *
+ * The report queue for moderators (users.is_admin)
+ * - Open reports oldest first, with the conversation captured at report time
+ * - Action or dismiss a report, optionally deactivating the reported account
+ * - Browse previously actioned and dismissed reports
+ */
+const Moderation: React.FC = () => {
+  const [status, setStatus] = useState<UserReportStatus>(UserReportStatus.OPEN);
+  const [page, setPage] = useState(1);
+  const [reports, setReports] = useState<UserReport[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getReportQueue({ status, page, limit: PAGE_SIZE });
+      setReports(result.reports);
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load reports'));
+    } finally {
+      setLoading(false);
+    }
+  }, [status, page]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleResolve = useCallback(
+    async (
+      report: UserReport,
+      data: { status: UserReportStatus; resolution_note?: string; deactivate_user?: boolean }
+    ) => {
+      try {
+        setError(null);
+        await resolveReport(report.id, data);
+        // Reviewed reports leave the open queue
+        setReports((prev) => prev.filter((r) => r.id !== report.id));
+        setTotal((prev) => prev - 1);
+      } catch (err: any) {
+        setError(getErrorMessage(err, 'Failed to review report'));
+      }
+    },
+    []
+  );
+
+  return (
+    <div className={styles.pageContainer}>
+      <TopNavigation />
+
+      <main className={styles.mainContent}>
+        <header className={styles.pageHeader}>
+          <div>
+            <h1 className={styles.pageTitle}>Moderation</h1>
+            <p className={styles.pageSubtitle}>
+              {total} {status} report{total === 1 ? '' : 's'}
+            </p>
+          </div>
+
+          <select
+            className={styles.statusSelect}
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as UserReportStatus);
+              setPage(1);
+            }}
+            aria-label="Report status"
+          >
+            {STATUS_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </header>
+
+        {error && (
+          <div className={styles.errorBanner} role="alert">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className={styles.empty}>Loading reports...</p>
+        ) : reports.length === 0 ? (
+          <p className={styles.empty}>No {status} reports.</p>
+        ) : (
+          <ul className={styles.reportList}>
+            {reports.map((report) => (
+              <ReportCard key={report.id} report={report} onResolve={handleResolve} />
+            ))}
+          </ul>
+        )}
+
+        {(page > 1 || hasMore) && (
+          <div className={styles.pagination}>
+            <button
+              className={styles.secondaryButton}
+              onClick={() => setPage((prev) => prev - 1)}
+              disabled={loading || page === 1}
+            >
+              Previous
+            </button>
+            <button
+              className={styles.secondaryButton}
+              onClick={() => setPage((prev) => prev + 1)}
+              disabled={loading || !hasMore}
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Moderation;
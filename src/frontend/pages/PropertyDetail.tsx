@@ -1,37 +1,76 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { TopNavigation } from '@components/TopNavigation';
 import { LoadingSpinner } from '@components/LoadingSpinner';
 import { PropertyListingModal } from '@components/PropertyListingModal';
+import { TourRequestModal } from '@components/TourRequestModal';
+import { ListingInquiryModal } from '@components/ListingInquiryModal';
+import { ListingGallery } from '@components/ListingGallery';
 import { useAuth } from '@contexts/AuthContext';
 import {
   getPropertyListing,
   updatePropertyListing,
   updatePropertyListingStatus,
   deletePropertyListing,
+  getTours,
+  confirmTour,
+  cancelTour,
+  getTourCalendarUrl,
+  getFavoriteStatus,
+  toggleFavorite,
+  createShareLink,
+  getListingShareStats,
+  getListingDocuments,
+  getListingMediaUrl,
 } from '@utils/apiClient';
-import { PropertyListing, PropertyListingStatus, PropertyType } from '@types';
+import {
+  ListingDocument,
+  ListingShare,
+  PropertyListing,
+  PropertyListingStatus,
+  PropertyType,
+  TourStatus,
+  TourWithDetails,
+  UserRole,
+} from '@types';
+import { trackListingClick, trackListingView } from '@utils/listingTracking';
 import styles from './PropertyDetail.module.css';
 
 /**
  * PropertyDetail Page
  *
  * Shows a specific property listing with all details:
- * - Property header with photo and basic info
+ * - Property header with a photo gallery and basic info
  * - Status badge and key metrics
  * - Full property details (location, features, pricing)
  * - Contact information
+ * - Documents (flyers, floor plans); some unlock once the tenant inquires
+ * - Tours for this property (request, confirm, cancel, add to calendar)
+ * - Messaging the landlord about the property
+ * - Saving the listing and copying a tracked share link
  * - Action buttons (edit, update status, delete)
+ * - For the owner: how many people saved it and share link activity
  */
 const PropertyDetail: React.FC = () => {
   const { id: propertyId } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
+  const fromShareLink = Boolean((location.state as { fromShareLink?: boolean } | null)?.fromShareLink);
 
   const [property, setProperty] = useState<PropertyListing | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showTourModal, setShowTourModal] = useState(false);
+  const [showInquiryModal, setShowInquiryModal] = useState(false);
+  const [tours, setTours] = useState<TourWithDetails[]>([]);
+  const [favorite, setFavorite] = useState<{ favorited: boolean; favorites_count: number } | null>(null);
+  const [shareStats, setShareStats] = useState<{ shares: ListingShare[]; unique_favorites: number } | null>(
+    null
+  );
+  const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<ListingDocument[]>([]);
 
   // Load property data
   useEffect(() => {
@@ -44,6 +83,7 @@ const PropertyDetail: React.FC = () => {
 
         const data = await getPropertyListing(propertyId);
         setProperty(data.listing);
+        trackListingView(propertyId, fromShareLink);
       } catch (err: any) {
         console.error('Failed to load property:', err);
         setError(err.message || 'Failed to load property');
@@ -53,8 +93,114 @@ const PropertyDetail: React.FC = () => {
     };
 
     loadProperty();
+  }, [propertyId, fromShareLink]);
+
+  // Load documents; which are unlocked depends on the current user
+  const loadDocuments = useCallback(async () => {
+    if (!propertyId) return;
+
+    try {
+      setDocuments(await getListingDocuments(propertyId));
+    } catch (err) {
+      console.error('Failed to load documents:', err);
+    }
   }, [propertyId]);
 
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments, user]);
+
+  // Load tours the current user has for this property
+  const loadTours = useCallback(async () => {
+    if (!propertyId) return;
+
+    try {
+      const data = await getTours({ upcoming: true });
+      setTours(
+        data.filter(
+          (tour) => tour.property_listing_id === propertyId && tour.status !== TourStatus.CANCELLED
+        )
+      );
+    } catch (err) {
+      console.error('Failed to load tours:', err);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadTours();
+  }, [loadTours]);
+
+  // Owners see who saved and shared the listing; everyone else can save it
+  const listingOwnerId = property?.user_id;
+  useEffect(() => {
+    if (!propertyId || !listingOwnerId || !user) return;
+
+    if (listingOwnerId === user.userId) {
+      getListingShareStats(propertyId)
+        .then(setShareStats)
+        .catch((err) => console.error('Failed to load share activity:', err));
+    } else {
+      getFavoriteStatus(propertyId)
+        .then(setFavorite)
+        .catch((err) => console.error('Failed to load saved status:', err));
+    }
+  }, [propertyId, listingOwnerId, user]);
+
+  const handleToggleFavorite = async () => {
+    if (!propertyId) return;
+
+    try {
+      setFavorite(await toggleFavorite(propertyId));
+    } catch (err: any) {
+      alert(err?.data?.error?.message || err.message || 'Failed to save listing');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!propertyId) return;
+
+    try {
+      const { url } = await createShareLink(propertyId);
+      try {
+        await navigator.clipboard.writeText(url);
+        setShareMessage('Share link copied');
+      } catch {
+        window.prompt('Copy this share link', url);
+      }
+    } catch (err: any) {
+      alert(err?.data?.error?.message || err.message || 'Failed to create share link');
+    }
+  };
+
+  const handleConfirmTour = async (tourId: string, startTime: string) => {
+    try {
+      await confirmTour(tourId, startTime);
+      await loadTours();
+    } catch (err: any) {
+      alert(err?.data?.error?.message || err.message || 'Failed to confirm tour');
+    }
+  };
+
+  const handleCancelTour = async (tourId: string) => {
+    if (!window.confirm('Cancel this tour?')) return;
+
+    try {
+      await cancelTour(tourId);
+      await loadTours();
+    } catch (err: any) {
+      alert(err?.data?.error?.message || err.message || 'Failed to cancel tour');
+    }
+  };
+
+  const formatTourTime = (time: string | Date): string =>
+    new Date(time).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
   // Format helpers
   const formatPrice = (price: number | null): string => {
     if (!price) return 'Contact for pricing';
@@ -160,6 +306,19 @@ const PropertyDetail: React.FC = () => {
     }
   };
 
+  // Photos and documents are saved as they change in the edit modal, which stays open
+  const handleMediaChanged = async () => {
+    if (!propertyId) return;
+
+    try {
+      const result = await getPropertyListing(propertyId);
+      setProperty((current) => (current ? { ...current, photos: result.listing.photos } : result.listing));
+      loadDocuments();
+    } catch (err: any) {
+      console.error('Failed to refresh photos:', err);
+    }
+  };
+
   if (loading) {
     return (
       <div className={styles.propertyDetail}>
@@ -192,8 +351,8 @@ const PropertyDetail: React.FC = () => {
   }
 
   const defaultPhotoUrl = `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='800' height='400' viewBox='0 0 800 400'%3E%3Crect width='800' height='400' fill='%23e5e7eb'/%3E%3Ctext x='400' y='200' font-family='Arial, sans-serif' font-size='64' fill='%239ca3af' text-anchor='middle' dominant-baseline='middle'%3E🏢%3C/text%3E%3C/svg%3E`;
-  const photoUrl = property.photos?.[0]?.url || defaultPhotoUrl;
   const statusInfo = formatStatus(property.status);
+  const isOwner = user?.userId === property.user_id;
 
   return (
     <div className={styles.propertyDetail}>
@@ -213,17 +372,11 @@ const PropertyDetail: React.FC = () => {
           <div className={styles.propertyHeader}>
             {/* Photo section */}
             <div className={styles.photoSection}>
-              <img
-                src={photoUrl}
-                alt={property.title}
-                className={styles.mainPhoto}
-                onError={(e) => {
-                  (e.target as HTMLImageElement).src = defaultPhotoUrl;
-                }}
-              />
-              <span className={`${styles.statusBadge} ${statusInfo.className}`}>
-                {statusInfo.label}
-              </span>
+              <ListingGallery photos={property.photos || []} title={property.title} fallbackUrl={defaultPhotoUrl}>
+                <span className={`${styles.statusBadge} ${statusInfo.className}`}>
+                  {statusInfo.label}
+                </span>
+              </ListingGallery>
             </div>
 
             {/* Info section */}
@@ -270,29 +423,92 @@ const PropertyDetail: React.FC = () => {
                   <span className={styles.performanceValue}>{property.matchesCount || 0}</span>
                   <span className={styles.performanceLabel}>Matches</span>
                 </div>
+                {shareStats && (
+                  <div className={styles.performanceMetric}>
+                    <span className={styles.performanceValue}>{shareStats.unique_favorites}</span>
+                    <span className={styles.performanceLabel}>Saved By</span>
+                  </div>
+                )}
               </div>
 
               {/* Action buttons */}
-              <div className={styles.actions}>
-                <button
-                  className={`${styles.actionButton} ${styles.primary}`}
-                  onClick={() => setShowEditModal(true)}
-                >
-                  Edit Listing
-                </button>
-                <button
-                  className={`${styles.actionButton} ${styles.secondary}`}
-                  onClick={handleUpdateStatus}
-                >
-                  Update Status
-                </button>
-                <button
-                  className={`${styles.actionButton} ${styles.danger}`}
-                  onClick={handleDelete}
-                >
-                  Delete
-                </button>
-              </div>
+              {isOwner ? (
+                <div className={styles.actions}>
+                  <button
+                    className={`${styles.actionButton} ${styles.primary}`}
+                    onClick={() => setShowEditModal(true)}
+                  >
+                    Edit Listing
+                  </button>
+                  <button
+                    className={`${styles.actionButton} ${styles.secondary}`}
+                    onClick={handleUpdateStatus}
+                  >
+                    Update Status
+                  </button>
+                  <button
+                    className={`${styles.actionButton} ${styles.secondary}`}
+                    onClick={handleShare}
+                  >
+                    Share
+                  </button>
+                  <button
+                    className={`${styles.actionButton} ${styles.danger}`}
+                    onClick={handleDelete}
+                  >
+                    Delete
+                  </button>
+                </div>
+              ) : (
+                <div className={styles.actions}>
+                  {user?.role === UserRole.TENANT && (
+                    <>
+                      <button
+                        className={`${styles.actionButton} ${styles.primary}`}
+                        onClick={() => {
+                          trackListingClick(property.id, 'tour');
+                          setShowTourModal(true);
+                        }}
+                      >
+                        Request Tour
+                      </button>
+                      <button
+                        className={`${styles.actionButton} ${styles.secondary}`}
+                        onClick={() => {
+                          trackListingClick(property.id, 'inquiry');
+                          setShowInquiryModal(true);
+                        }}
+                      >
+                        Message Landlord
+                      </button>
+                    </>
+                  )}
+                  <button
+                    className={`${styles.actionButton} ${styles.secondary}`}
+                    onClick={() => {
+                      trackListingClick(property.id, 'save');
+                      handleToggleFavorite();
+                    }}
+                    aria-pressed={favorite?.favorited || false}
+                  >
+                    {favorite?.favorited ? '♥ Saved' : '♡ Save'}
+                  </button>
+                  <button
+                    className={`${styles.actionButton} ${styles.secondary}`}
+                    onClick={() => {
+                      trackListingClick(property.id, 'share');
+                      handleShare();
+                    }}
+                  >
+                    Share
+                  </button>
+                </div>
+              )}
+              {shareMessage && (
+                <p className={styles.shareMessage} role="status">
+                  {shareMessage}
+                </p>
+              )}
             </div>
           </div>
 
@@ -410,6 +626,122 @@ const PropertyDetail: React.FC = () => {
               </div>
             )}
 
+            {/* Documents */}
+            {documents.length > 0 && (
+              <div className={styles.detailCard}>
+                <h2 className={styles.cardTitle}>Documents</h2>
+                <div className={styles.detailsList}>
+                  {documents.map((document) => (
+                    <div key={document.id} className={styles.detailItem}>
+                      <span className={styles.detailLabel}>
+                        {document.url ? (
+                          <a
+                            href={getListingMediaUrl(document.url)}
+                            onClick={() => trackListingClick(property.id, 'document')}
+                          >
+                            {document.name}
+                          </a>
+                        ) : (
+                          <>🔒 {document.name}</>
+                        )}
+                      </span>
+                      <span className={styles.detailValue}>
+                        {document.locked ? (
+                          user?.role === UserRole.TENANT ? (
+                            <button className={styles.linkButton} onClick={() => setShowInquiryModal(true)}>
+                              Inquire to view
+                            </button>
+                          ) : (
+                            'Shared with tenants who inquire'
+                          )
+                        ) : (
+                          `${Math.max(1, Math.round(document.size / 1024)).toLocaleString()} KB`
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Tours */}
+            {tours.length > 0 && (
+              <div className={styles.detailCard}>
+                <h2 className={styles.cardTitle}>Tours</h2>
+                <div className={styles.detailsList}>
+                  {tours.map((tour) => {
+                    const otherParty = isOwner
+                      ? tour.tenant_name || tour.tenant_email
+                      : tour.landlord_name || tour.landlord_email;
+                    const confirmableSlots = tour.proposed_slots.filter(
+                      (slot) => slot.proposed_by_user_id !== user?.userId
+                    );
+
+                    return (
+                      <div key={tour.id} className={styles.tourItem}>
+                        <div className={styles.detailItem}>
+                          <span className={styles.detailLabel}>{otherParty}</span>
+                          <span className={styles.detailValue}>
+                            {tour.status === TourStatus.CONFIRMED && tour.scheduled_at
+                              ? formatTourTime(tour.scheduled_at)
+                              : 'Awaiting confirmation'}
+                          </span>
+                        </div>
+
+                        {tour.status !== TourStatus.CONFIRMED && confirmableSlots.length > 0 && (
+                          <div className={styles.tourSlots}>
+                            {confirmableSlots.map((slot) => (
+                              <button
+                                key={slot.start_time}
+                                className={styles.tourSlotButton}
+                                onClick={() => handleConfirmTour(tour.id, slot.start_time)}
+                              >
+                                Confirm {formatTourTime(slot.start_time)}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        <div className={styles.tourActions}>
+                          {tour.status === TourStatus.CONFIRMED && (
+                            <a href={getTourCalendarUrl(tour.id)}>Add to calendar</a>
+                          )}
+                          <button className={styles.tourCancelButton} onClick={() => handleCancelTour(tour.id)}>
+                            Cancel tour
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Share activity (owner only) */}
+            {shareStats && shareStats.shares.length > 0 && (
+              <div className={styles.detailCard}>
+                <h2 className={styles.cardTitle}>Share Activity</h2>
+                <div className={styles.detailsList}>
+                  {shareStats.shares.map((share) => {
+                    const sharer =
+                      [share.sharer_first_name, share.sharer_last_name].filter(Boolean).join(' ') ||
+                      share.sharer_email;
+
+                    return (
+                      <div key={share.id} className={styles.detailItem}>
+                        <span className={styles.detailLabel}>
+                          {sharer} · {share.channel}
+                        </span>
+                        <span className={styles.detailValue}>
+                          {share.open_count} open{share.open_count === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Contact Information */}
             {(property.contact_name || property.contact_email || property.contact_phone) && (
               <div className={styles.detailCard}>
@@ -425,7 +757,10 @@ const PropertyDetail: React.FC = () => {
                     <div className={styles.detailItem}>
                       <span className={styles.detailLabel}>Email</span>
                       <span className={styles.detailValue}>
-                        <a href={`mailto:${property.contact_email}`}>{property.contact_email}</a>
+                        <a
+                          href={`mailto:${property.contact_email}`}
+                          onClick={() => trackListingClick(property.id, 'email')}
+                        >{property.contact_email}</a>
                       </span>
                     </div>
                   )}
@@ -433,7 +768,10 @@ const PropertyDetail: React.FC = () => {
                     <div className={styles.detailItem}>
                       <span className={styles.detailLabel}>Phone</span>
                       <span className={styles.detailValue}>
-                        <a href={`tel:${property.contact_phone}`}>{property.contact_phone}</a>
+                        <a
+                          href={`tel:${property.contact_phone}`}
+                          onClick={() => trackListingClick(property.id, 'phone')}
+                        >{property.contact_phone}</a>
                       </span>
                     </div>
                   )}
@@ -449,8 +787,30 @@ const PropertyDetail: React.FC = () => {
         isOpen={showEditModal}
         onClose={() => setShowEditModal(false)}
         onListingCreated={handleEditSave}
+        onMediaChanged={handleMediaChanged}
         editListing={property}
       />
+
+      {/* Tour Request Modal */}
+      <TourRequestModal
+        isOpen={showTourModal}
+        propertyId={property.id}
+        propertyTitle={property.title}
+        onClose={() => setShowTourModal(false)}
+        onRequested={() => {
+          setShowTourModal(false);
+          loadTours();
+        }}
+      />
+
+      {/* Listing Inquiry Modal */}
+      <ListingInquiryModal
+        isOpen={showInquiryModal}
+        propertyId={property.id}
+        propertyTitle={property.title}
+        onClose={() => setShowInquiryModal(false)}
+        onSent={(conversation) => navigate(`/messages?conversation=${conversation.id}`)}
+      />
     </div>
   );
 };
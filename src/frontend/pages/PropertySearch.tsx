@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { TopNavigation } from '@components/TopNavigation';
+import { ListingMap, MapView } from '@components/ListingMap';
+import { searchPropertyListings } from '@utils/apiClient';
+import { GeoBounds, PropertyListing, PropertySearchSort, PropertyType } from '@types';
+import styles from './PropertySearch.module.css';
+
+// The most the search API returns at once; the map asks for one page
+const MAP_RESULT_LIMIT = 100;
+// Wait for panning and typing to settle before searching
+const SEARCH_DEBOUNCE_MS = 400;
+// Continental US
+const DEFAULT_VIEW: MapView = { center: { latitude: 39.5, longitude: -98.35 }, zoom: 4 };
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+const formatPrice = (price: number | null): string =>
+  price
+    ? new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(
+        Number(price)
+      )
+    : 'Contact for pricing';
+
+const formatPropertyType = (type: PropertyType): string => type.charAt(0).toUpperCase() + type.slice(1);
+
+const toBbox = (bounds: GeoBounds): string =>
+  [bounds.west, bounds.south, bounds.east, bounds.north].map((value) => value.toFixed(5)).join(',');
+
+/**
+ * PropertySearch Page
+ *
+ * Map search over active property listings
+ * - The map shows clustered pins for listings in view and searches again
+ *   as it is panned or zoomed
+ * - Filters for keywords, property type, size and price
+ * - Sort featured first, or nearest the map center first
+ * - "Near me" centers the map on the browser's location
+ */
+const PropertySearch: React.FC = () => {
+  const navigate = useNavigate();
+  const [view, setView] = useState<MapView>(DEFAULT_VIEW);
+  const [bounds, setBounds] = useState<GeoBounds | null>(null);
+  const [search, setSearch] = useState('');
+  const [propertyType, setPropertyType] = useState<PropertyType | ''>('');
+  const [minSqft, setMinSqft] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+  const [sort, setSort] = useState<PropertySearchSort>('featured');
+  const [listings, setListings] = useState<PropertyListing[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hoveredListingId, setHoveredListingId] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const handleBoundsChange = useCallback((next: GeoBounds) => setBounds(next), []);
+
+  useEffect(() => {
+    if (!bounds) return;
+
+    const timer = setTimeout(async () => {
+      const requestId = ++requestIdRef.current;
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await searchPropertyListings({
+          bbox: toBbox(bounds),
+          sort,
+          search: search.trim() || undefined,
+          property_type: propertyType || undefined,
+          min_sqft: minSqft ? Number(minSqft) : undefined,
+          max_price: maxPrice ? Number(maxPrice) : undefined,
+          limit: MAP_RESULT_LIMIT,
+        });
+
+        // A later search started while this one was in flight
+        if (requestId !== requestIdRef.current) return;
+        setListings(result.listings);
+        setTotal(result.total);
+      } catch (err: any) {
+        if (requestId !== requestIdRef.current) return;
+        setError(getErrorMessage(err, 'Failed to search listings'));
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [bounds, sort, search, propertyType, minSqft, maxPrice]);
+
+  const handleNearMe = () => {
+    if (!navigator.geolocation) {
+      setError('Your browser does not share its location');
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setView({
+          center: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+          zoom: 12,
+        });
+        setSort('distance');
+      },
+      () => setError('Could not get your location')
+    );
+  };
+
+  const openListing = (listingId: string) => navigate(`/property/${listingId}`);
+
+  return (
+    <div className={styles.pageContainer}>
+      <TopNavigation />
+
+      <main className={styles.mainContent}>
+        <header className={styles.pageHeader}>
+          <div>
+            <h1 className={styles.pageTitle}>Find Space</h1>
+            <p className={styles.pageSubtitle}>
+              {loading
+                ? 'Searching...'
+                : `${total} listing${total === 1 ? '' : 's'} in this area`}
+            </p>
+          </div>
+
+          <div className={styles.filters}>
+            <input
+              type="search"
+              className={styles.filterInput}
+              placeholder="Keywords"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              aria-label="Keywords"
+            />
+            <select
+              className={styles.filterInput}
+              value={propertyType}
+              onChange={(e) => setPropertyType(e.target.value as PropertyType | '')}
+              aria-label="Property type"
+            >
+              <option value="">All types</option>
+              {Object.values(PropertyType).map((type) => (
+                <option key={type} value={type}>
+                  {formatPropertyType(type)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              className={styles.filterInput}
+              placeholder="Min SF"
+              value={minSqft}
+              onChange={(e) => setMinSqft(e.target.value)}
+              aria-label="Minimum square feet"
+            />
+            <input
+              type="number"
+              min="0"
+              className={styles.filterInput}
+              placeholder="Max price"
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
+              aria-label="Maximum price"
+            />
+            <select
+              className={styles.filterInput}
+              value={sort}
+              onChange={(e) => setSort(e.target.value as PropertySearchSort)}
+              aria-label="Sort by"
+            >
+              <option value="featured">Featured</option>
+              <option value="distance">Nearest to map center</option>
+            </select>
+            <button type="button" className={styles.nearMeButton} onClick={handleNearMe}>
+              Near me
+            </button>
+          </div>
+        </header>
+
+        {error && (
+          <div className={styles.errorBanner} role="alert">
+            {error}
+          </div>
+        )}
+
+        <div className={styles.searchLayout}>
+          <div className={styles.mapPanel}>
+            <ListingMap
+              listings={listings}
+              view={view}
+              onViewChange={setView}
+              onBoundsChange={handleBoundsChange}
+              onOpenListing={openListing}
+              highlightedListingId={hoveredListingId}
+            />
+          </div>
+
+          <section className={styles.resultsPanel} aria-label="Search results">
+            {total > listings.length && (
+              <p className={styles.resultsNote}>
+                Showing {listings.length} of {total}. Zoom in to see the rest.
+              </p>
+            )}
+
+            {!loading && listings.length === 0 ? (
+              <p className={styles.emptyText}>No listings here. Try zooming out or changing your filters.</p>
+            ) : (
+              <ul className={styles.resultsList}>
+                {listings.map((listing) => (
+                  <li key={listing.id}>
+                    <button
+                      type="button"
+                      className={`${styles.resultItem} ${
+                        hoveredListingId === listing.id ? styles.resultItemActive : ''
+                      }`}
+                      onClick={() => openListing(listing.id)}
+                      onMouseEnter={() => setHoveredListingId(listing.id)}
+                      onMouseLeave={() => setHoveredListingId(null)}
+                    >
+                      <span className={styles.resultTitle}>{listing.title}</span>
+                      <span className={styles.resultMeta}>
+                        {formatPropertyType(listing.property_type)} · {listing.city}, {listing.state}
+                      </span>
+                      <span className={styles.resultMeta}>
+                        {new Intl.NumberFormat('en-US').format(listing.sqft)} SF ·{' '}
+                        {formatPrice(listing.asking_price)}
+                        {listing.distance_miles !== undefined && listing.distance_miles !== null && (
+                          <> · {listing.distance_miles.toFixed(1)} mi</>
+                        )}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PropertySearch;
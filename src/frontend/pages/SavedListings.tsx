@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { TopNavigation } from '@components/TopNavigation';
+import { PropertyCard } from '@components/PropertyCard';
+import { getFavoriteListings, toggleFavorite } from '@utils/apiClient';
+import { FavoritePropertyListing } from '@types';
+import styles from './SavedListings.module.css';
+
+const PAGE_SIZE = 24;
+
+const getErrorMessage = (err: any, fallback: string): string =>
+  err?.data?.error?.message ||
+  (typeof err?.data?.error === 'string' ? err.data.error : null) ||
+  (typeof err?.message === 'string' ? err.message : null) ||
+  fallback;
+
+/**
+ * SavedListings Page
+ *
+ * Listings the current user has saved, most recently saved first
+ * - Open a listing, or remove it from saved
+ * - Load more in pages
+ */
+const SavedListings: React.FC = () => {
+  const navigate = useNavigate();
+  const [listings, setListings] = useState<FavoritePropertyListing[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (nextPage: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await getFavoriteListings({ page: nextPage, limit: PAGE_SIZE });
+      setListings((current) => (nextPage === 1 ? result.listings : [...current, ...result.listings]));
+      setTotal(result.total);
+      setHasMore(result.hasMore);
+      setPage(nextPage);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to load saved listings'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  const handleRemove = async (listingId: string) => {
+    try {
+      await toggleFavorite(listingId);
+      setListings((current) => current.filter((listing) => listing.id !== listingId));
+      setTotal((current) => current - 1);
+    } catch (err: any) {
+      setError(getErrorMessage(err, 'Failed to remove listing'));
+    }
+  };
+
+  return (
+    <div className={styles.pageContainer}>
+      <TopNavigation />
+
+      <main className={styles.mainContent}>
+        <header className={styles.pageHeader}>
+          <h1 className={styles.pageTitle}>Saved Listings</h1>
+          <p className={styles.pageSubtitle}>
+            {total} saved listing{total === 1 ? '' : 's'}
+          </p>
+        </header>
+
+        {error && (
+          <div className={styles.errorBanner} role="alert">
+            {error}
+          </div>
+        )}
+
+        {!loading && listings.length === 0 ? (
+          <p className={styles.emptyText}>
+            You haven't saved any listings yet. Use Save on a listing to keep it here.
+          </p>
+        ) : (
+          <div className={styles.listingsGrid}>
+            {listings.map((listing) => (
+              <div key={listing.id} className={styles.savedItem}>
+                <PropertyCard property={listing} onClick={(id) => navigate(`/property/${id}`)} />
+                <div className={styles.savedFooter}>
+                  <span>Saved {new Date(listing.favorited_at).toLocaleDateString()}</span>
+                  <button type="button" className={styles.removeButton} onClick={() => handleRemove(listing.id)}>
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasMore && (
+          <button
+            type="button"
+            className={styles.loadMoreButton}
+            onClick={() => loadPage(page + 1)}
+            disabled={loading}
+          >
+            {loading ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SavedListings;
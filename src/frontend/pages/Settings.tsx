@@ -2,10 +2,23 @@ import React, { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { TopNavigation } from '@components/TopNavigation';
-import { SubscriptionPlan, SubscriptionWithPlan, BillingTransaction, SubscriptionTier } from '@types';
+import { BrokerAuditTrail } from '@components/BrokerClientModal';
+import {
+  SubscriptionPlan,
+  SubscriptionWithPlan,
+  BillingTransaction,
+  SubscriptionTier,
+  SubscriptionUsage,
+  SubscriptionLimitType,
+  BrokerClientAuditEntry,
+  BrokerClientStatus,
+  BrokerClientType,
+  BrokerClientWithDetails,
+} from '@types';
 import {
   getSubscriptionPlans,
   getCurrentSubscription,
+  getSubscriptionUsage,
   createCheckoutSession,
   createBillingPortalSession,
   getBillingHistory,
@@ -14,22 +27,50 @@ import {
   unsubscribeAllNotifications,
   resubscribeNotifications,
   NotificationPreferences,
+  getBrokerRepresentations,
+  respondToBrokerRequest,
+  revokeBrokerRepresentation,
+  getBrokerAuditLog,
 } from '@utils/apiClient';
 import styles from './Settings.module.css';
 
 type TabType = 'subscription' | 'billing' | 'notifications' | 'account';
 
+const TABS: TabType[] = ['subscription', 'billing', 'notifications', 'account'];
+
+const USAGE_LABELS: Record<SubscriptionLimitType, string> = {
+  locations: 'Business Locations',
+  qfps: 'Active QFPs',
+  team_members: 'Team Members',
+};
+
+// Offered for quiet hours; the user's saved timezone is always included
+const TIMEZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'UTC',
+];
+
 const Settings: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { user, logout } = useAuth();
-  const [activeTab, setActiveTab] = useState<TabType>('subscription');
+  const [activeTab, setActiveTab] = useState<TabType>(() => {
+    const tab = searchParams.get('tab') as TabType | null;
+    return tab && TABS.includes(tab) ? tab : 'subscription';
+  });
   const [billingInterval, setBillingInterval] = useState<'monthly' | 'annual'>('monthly');
   const [loading, setLoading] = useState(true);
   const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
   const [currentSubscription, setCurrentSubscription] = useState<SubscriptionWithPlan | null>(null);
   const [currentTier, setCurrentTier] = useState<SubscriptionTier>(SubscriptionTier.STARTER);
   const [billingHistory, setBillingHistory] = useState<BillingTransaction[]>([]);
+  const [usage, setUsage] = useState<SubscriptionUsage | null>(null);
   const [isStripeConfigured, setIsStripeConfigured] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -41,6 +82,12 @@ const Settings: React.FC = () => {
   const [notificationSaving, setNotificationSaving] = useState(false);
 
   // Account state
+  // Brokers representing this user (pending requests and active access)
+  const [brokerAccess, setBrokerAccess] = useState<BrokerClientWithDetails[] | null>(null);
+  const [brokerAccessLoading, setBrokerAccessLoading] = useState(false);
+  const [brokerAuditId, setBrokerAuditId] = useState<string | null>(null);
+  const [brokerAuditLog, setBrokerAuditLog] = useState<BrokerClientAuditEntry[]>([]);
+
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
 
@@ -73,6 +120,13 @@ const Settings: React.FC = () => {
         setCurrentTier(subscriptionData.tier);
         setIsStripeConfigured(subscriptionData.isConfigured);
 
+        // Usage meters are optional; the plans still render without them
+        try {
+          setUsage(await getSubscriptionUsage());
+        } catch (e) {
+          console.error('Failed to load subscription usage:', e);
+        }
+
         // Load billing history if user has a subscription
         if (subscriptionData.subscription) {
           try {
@@ -139,6 +193,67 @@ const Settings: React.FC = () => {
     }
   }, [activeTab]);
 
+  // Load broker access when the account tab is active
+  useEffect(() => {
+    if (activeTab === 'account' && !brokerAccess && !brokerAccessLoading) {
+      loadBrokerAccess();
+    }
+  }, [activeTab]);
+
+  const loadBrokerAccess = async () => {
+    try {
+      setBrokerAccessLoading(true);
+      setBrokerAccess(await getBrokerRepresentations());
+    } catch (e: any) {
+      setError(e.message || 'Failed to load broker access');
+    } finally {
+      setBrokerAccessLoading(false);
+    }
+  };
+
+  const handleBrokerResponse = async (brokerClientId: string, grant: boolean) => {
+    try {
+      setError(null);
+      await respondToBrokerRequest(brokerClientId, grant);
+      setSuccessMessage(grant ? 'Broker access granted.' : 'Broker request declined.');
+      setTimeout(() => setSuccessMessage(null), 3000);
+      await loadBrokerAccess();
+    } catch (e: any) {
+      setError(e.message || 'Failed to respond to broker request');
+    }
+  };
+
+  const handleBrokerRevoke = async (representation: BrokerClientWithDetails) => {
+    if (!window.confirm(`Revoke ${representation.broker_name}'s access to ${representation.client_name}?`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await revokeBrokerRepresentation(representation.id);
+      setSuccessMessage('Broker access revoked.');
+      setTimeout(() => setSuccessMessage(null), 3000);
+      if (brokerAuditId === representation.id) setBrokerAuditId(null);
+      await loadBrokerAccess();
+    } catch (e: any) {
+      setError(e.message || 'Failed to revoke broker access');
+    }
+  };
+
+  const handleToggleBrokerAudit = async (brokerClientId: string) => {
+    if (brokerAuditId === brokerClientId) {
+      setBrokerAuditId(null);
+      return;
+    }
+
+    try {
+      setBrokerAuditLog(await getBrokerAuditLog(brokerClientId));
+      setBrokerAuditId(brokerClientId);
+    } catch (e: any) {
+      setError(e.message || 'Failed to load broker activity');
+    }
+  };
+
   const loadNotificationPreferences = async () => {
     try {
       setNotificationLoading(true);
@@ -183,7 +298,7 @@ const Settings: React.FC = () => {
     }
   };
 
-  const handleEmailFrequencyChange = async (frequency: 'instant' | 'daily' | 'weekly') => {
+  const handleEmailFrequencyChange = async (frequency: 'immediate' | 'daily' | 'weekly') => {
     if (!notificationPrefs) return;
 
     const updatedPrefs = {
@@ -208,6 +323,34 @@ const Settings: React.FC = () => {
     }
   };
 
+  const handleDeliverySettingChange = async (
+    key: 'quiet_hours_start' | 'quiet_hours_end' | 'timezone',
+    value: string
+  ) => {
+    if (!notificationPrefs) return;
+
+    const updatedPrefs = {
+      ...notificationPrefs,
+      settings: {
+        ...notificationPrefs.settings,
+        [key]: value || null,
+      },
+    };
+    setNotificationPrefs(updatedPrefs);
+
+    try {
+      setNotificationSaving(true);
+      await updateNotificationPreferences({
+        settings: { [key]: value || null },
+      });
+    } catch (e: any) {
+      setNotificationPrefs(notificationPrefs);
+      setError(e.message || 'Failed to update delivery settings');
+    } finally {
+      setNotificationSaving(false);
+    }
+  };
+
   const handleUnsubscribeAll = async () => {
     if (!confirm('Are you sure you want to unsubscribe from all marketing emails?')) return;
 
@@ -309,6 +452,47 @@ const Settings: React.FC = () => {
         </div>
       )}
 
+      {/* Plan Usage */}
+      {usage && (
+        <div className={styles.sectionCard}>
+          <h3 className={styles.sectionTitle}>Plan Usage</h3>
+          <p className={styles.sectionDescription}>
+            How much of your current plan's limits you are using
+          </p>
+          <div className={styles.usageGrid}>
+            {(Object.keys(USAGE_LABELS) as SubscriptionLimitType[]).map((limitType) => {
+              const meter = usage.usage[limitType];
+              const isUnlimited = meter.limit === -1;
+              const percent = isUnlimited || meter.limit === 0
+                ? 0
+                : Math.min(100, Math.round((meter.used / meter.limit) * 100));
+
+              return (
+                <div key={limitType} className={styles.usageMeter}>
+                  <div className={styles.usageHeader}>
+                    <span className={styles.usageLabel}>{USAGE_LABELS[limitType]}</span>
+                    <span className={styles.usageCount}>
+                      {meter.used} / {isUnlimited ? 'Unlimited' : meter.limit}
+                    </span>
+                  </div>
+                  <div className={styles.usageBar}>
+                    <div
+                      className={`${styles.usageFill} ${
+                        percent >= 100 ? styles.full : percent >= 80 ? styles.nearLimit : ''
+                      }`}
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                  {!isUnlimited && meter.remaining === 0 && (
+                    <span className={styles.usageHint}>Limit reached - upgrade to add more</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Subscription Plans */}
       <div className={styles.sectionCard}>
         <h3 className={styles.sectionTitle}>Available Plans</h3>
@@ -549,10 +733,10 @@ const Settings: React.FC = () => {
           <div className={styles.frequencySection}>
             <h4 className={styles.frequencyTitle}>Email Frequency</h4>
             <p className={styles.frequencyDescription}>
-              How often would you like to receive email digests?
+              Get emails as things happen, or batched into a daily (8am) or weekly (Monday) digest
             </p>
             <div className={styles.frequencyOptions}>
-              {(['instant', 'daily', 'weekly'] as const).map((freq) => (
+              {(['immediate', 'daily', 'weekly'] as const).map((freq) => (
                 <label key={freq} className={styles.frequencyOption}>
                   <input
                     type="radio"
@@ -568,6 +752,51 @@ const Settings: React.FC = () => {
               ))}
             </div>
           </div>
+
+          {/* Quiet Hours */}
+          <div className={styles.frequencySection}>
+            <h4 className={styles.frequencyTitle}>Quiet Hours</h4>
+            <p className={styles.frequencyDescription}>
+              Emails during these hours are held and sent together once quiet hours end
+            </p>
+            <div className={styles.frequencyOptions}>
+              <label className={styles.frequencyOption}>
+                <span className={styles.frequencyLabel}>From</span>
+                <input
+                  type="time"
+                  className={styles.timeInput}
+                  value={notificationPrefs.settings.quiet_hours_start?.slice(0, 5) || ''}
+                  onChange={(e) => handleDeliverySettingChange('quiet_hours_start', e.target.value)}
+                  disabled={notificationSaving}
+                />
+              </label>
+              <label className={styles.frequencyOption}>
+                <span className={styles.frequencyLabel}>To</span>
+                <input
+                  type="time"
+                  className={styles.timeInput}
+                  value={notificationPrefs.settings.quiet_hours_end?.slice(0, 5) || ''}
+                  onChange={(e) => handleDeliverySettingChange('quiet_hours_end', e.target.value)}
+                  disabled={notificationSaving}
+                />
+              </label>
+              <label className={styles.frequencyOption}>
+                <span className={styles.frequencyLabel}>Timezone</span>
+                <select
+                  className={styles.timeInput}
+                  value={notificationPrefs.settings.timezone}
+                  onChange={(e) => handleDeliverySettingChange('timezone', e.target.value)}
+                  disabled={notificationSaving}
+                >
+                  {Array.from(new Set([notificationPrefs.settings.timezone, ...TIMEZONES])).map((tz) => (
+                    <option key={tz} value={tz}>
+                      {tz.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
         </div>
 
         {/* In-App Notifications */}
@@ -650,6 +879,76 @@ const Settings: React.FC = () => {
         </div>
       </div>
 
+      {/* Broker Access Section */}
+      <div className={styles.sectionCard}>
+        <h3 className={styles.sectionTitle}>Broker Access</h3>
+        <p className={styles.sectionDescription}>
+          Brokers can manage your listings and act on your behalf only after you approve them.
+          Every action they take is recorded.
+        </p>
+
+        {brokerAccessLoading && !brokerAccess ? (
+          <p className={styles.accountItemDescription}>Loading...</p>
+        ) : !brokerAccess || brokerAccess.length === 0 ? (
+          <p className={styles.accountItemDescription}>No brokers represent you.</p>
+        ) : (
+          brokerAccess.map((representation) => (
+            <div key={representation.id} className={styles.brokerAccessItem}>
+              <div className={styles.accountItem}>
+                <div className={styles.accountItemInfo}>
+                  <span className={styles.accountItemLabel}>
+                    {representation.broker_name}
+                    {representation.client_type === BrokerClientType.TENANT &&
+                      ` · ${representation.client_name}`}
+                  </span>
+                  <span className={styles.accountItemDescription}>
+                    {representation.status === BrokerClientStatus.PENDING
+                      ? representation.message || `${representation.broker_email} is asking to represent you`
+                      : `Active since ${new Date(
+                          representation.responded_at || representation.created_at
+                        ).toLocaleDateString()}`}
+                  </span>
+                </div>
+                <div className={styles.brokerAccessActions}>
+                  {representation.status === BrokerClientStatus.PENDING ? (
+                    <>
+                      <button
+                        className={`${styles.accountButton} ${styles.secondary}`}
+                        onClick={() => handleBrokerResponse(representation.id, false)}
+                      >
+                        Decline
+                      </button>
+                      <button
+                        className={styles.accountButton}
+                        onClick={() => handleBrokerResponse(representation.id, true)}
+                      >
+                        Approve
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        className={`${styles.accountButton} ${styles.secondary}`}
+                        onClick={() => handleToggleBrokerAudit(representation.id)}
+                      >
+                        {brokerAuditId === representation.id ? 'Hide Activity' : 'View Activity'}
+                      </button>
+                      <button
+                        className={`${styles.accountButton} ${styles.danger}`}
+                        onClick={() => handleBrokerRevoke(representation)}
+                      >
+                        Revoke
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {brokerAuditId === representation.id && <BrokerAuditTrail entries={brokerAuditLog} />}
+            </div>
+          ))
+        )}
+      </div>
+
       {/* Security Section */}
       <div className={styles.sectionCard}>
         <h3 className={styles.sectionTitle}>Security</h3>
@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { TopNavigation } from '@components/TopNavigation';
+import { LoadingSpinner } from '@components/LoadingSpinner';
+import { openShareLink } from '@utils/apiClient';
+import styles from './SavedListings.module.css';
+
+/**
+ * SharedListing Page
+ *
+ * Landing page for a listing share link: counts the open, then shows the listing
+ */
+const SharedListing: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    openShareLink(token)
+      .then(({ property_listing_id }) =>
+        navigate(`/property/${property_listing_id}`, { replace: true, state: { fromShareLink: true } })
+      )
+      .catch(() => setError('This share link is invalid or the listing is no longer available.'));
+  }, [token, navigate]);
+
+  return (
+    <div className={styles.pageContainer}>
+      <TopNavigation />
+      <main className={styles.mainContent}>
+        {error ? <p className={styles.emptyText}>{error}</p> : <LoadingSpinner size="large" centered />}
+      </main>
+    </div>
+  );
+};
+
+export default SharedListing;
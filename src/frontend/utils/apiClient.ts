@@ -7,17 +7,62 @@ import {
   BusinessLocation,
   BusinessMetrics,
   PropertyListing,
+  PropertyListingPhoto,
+  FavoritePropertyListing,
+  ListingDocument,
+  ListingDocumentVisibility,
+  ListingShare,
+  ListingShareChannel,
+  ListingEventType,
+  ListingFeedFormat,
+  ListingImportJob,
+  ListingTrafficAnalytics,
+  PropertySearchSort,
   PropertyType,
   PropertyListingStatus,
   Conversation,
+  ConversationNudge,
+  ConversationParticipantRole,
   ConversationWithDetails,
   Message,
+  MessageTemplate,
+  RenderedMessageTemplate,
+  ScheduledMessage,
+  ConversationExportFormat,
+  BlockedUser,
+  UserReport,
+  UserReportReason,
+  UserReportStatus,
   PropertyMatchWithProperty,
   MarketInsightsData,
+  MarketInsightsFilters,
   SubscriptionPlan,
   SubscriptionWithPlan,
   BillingTransaction,
   SubscriptionTier,
+  SubscriptionUsage,
+  BusinessInvite,
+  BusinessMember,
+  BusinessMemberRole,
+  BusinessTeamMember,
+  Tour,
+  TourStatus,
+  TourWithDetails,
+  InAppNotification,
+  SavedSearch,
+  SavedSearchFilters,
+  Deal,
+  DealStage,
+  DealWithDetails,
+  BrokerClientAuditEntry,
+  BrokerClientType,
+  BrokerClientWithDetails,
+  BrokerDashboardData,
+  DemandListing,
+  MessageAttachment,
+  MessageEdit,
+  MessageReactionSummary,
+  MessageSearchResult,
 } from '@types';
 
 /**
@@ -193,6 +238,17 @@ class ApiClient {
     const response = await this.client.patch<ApiResponse<T>>(url, data);
     return response.data;
   }
+
+  /**
+   * POST multipart/form-data (file uploads)
+   */
+  async upload<T = any>(url: string, formData: FormData): Promise<ApiResponse<T>> {
+    const response = await this.client.post<ApiResponse<T>>(url, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 120000, // Large files on slow connections
+    });
+    return response.data;
+  }
 }
 
 // Create singleton instance
@@ -343,6 +399,11 @@ export const searchPropertyListings = async (params: {
   max_price?: number;
   amenities?: string;
   search?: string;
+  lat?: number;
+  lng?: number;
+  radius_miles?: number;
+  bbox?: string; // minLng,minLat,maxLng,maxLat
+  sort?: PropertySearchSort;
   page?: number;
   limit?: number;
 }): Promise<{ listings: PropertyListing[]; total: number; page: number; limit: number; hasMore: boolean }> => {
@@ -445,30 +506,353 @@ export const deletePropertyListing = async (listingId: string): Promise<void> =>
   }
 };
 
+/**
+ * Inquire about a property listing, opening (or reusing) a conversation with its owner
+ */
+export const createPropertyInquiry = async (
+  listingId: string,
+  data: { message?: string; demand_listing_id?: string; move_in_date?: string } = {}
+): Promise<{ conversation: Conversation; message: Message | null; created: boolean }> => {
+  const response = await apiClient.post<{ conversation: Conversation; message: Message | null; created: boolean }>(
+    `/api/property-listings/${listingId}/inquiry`,
+    data
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to send inquiry');
+  }
+  return response.data;
+};
+
 /**
  * Get property listing dashboard stats
  */
 export const getPropertyDashboardStats = async (): Promise<{
   total: number;
   active: number;
-  pending: number;
-  leased: number;
-  offMarket: number;
   totalViews: number;
   totalInquiries: number;
+  uniqueSavers: number;
 }> => {
   const response = await apiClient.get<{
-    total: number;
-    active: number;
-    pending: number;
-    leased: number;
-    offMarket: number;
-    totalViews: number;
-    totalInquiries: number;
+    totalListings: number;
+    activeListings: number;
+    metrics: {
+      total_views: number;
+      total_inquiries: number;
+      unique_favorites: number;
+    };
   }>('/api/property-listings/dashboard');
   if (!response.success || !response.data) {
     throw new Error(response.error || 'Failed to fetch dashboard stats');
   }
+  const { totalListings, activeListings, metrics } = response.data;
+  return {
+    total: totalListings,
+    active: activeListings,
+    totalViews: metrics.total_views,
+    totalInquiries: metrics.total_inquiries,
+    uniqueSavers: metrics.unique_favorites,
+  };
+};
+
+/**
+ * Whether the current user has saved a listing, and how many people have
+ */
+export const getFavoriteStatus = async (
+  listingId: string
+): Promise<{ favorited: boolean; favorites_count: number }> => {
+  const response = await apiClient.get<{ favorited: boolean; favorites_count: number }>(
+    `/api/property-listings/${listingId}/favorite`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch saved status');
+  }
+  return response.data;
+};
+
+/**
+ * Save a listing, or unsave it if already saved
+ */
+export const toggleFavorite = async (
+  listingId: string
+): Promise<{ favorited: boolean; favorites_count: number }> => {
+  const response = await apiClient.post<{ favorited: boolean; favorites_count: number }>(
+    `/api/property-listings/${listingId}/favorite`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to save listing');
+  }
+  return response.data;
+};
+
+/**
+ * Get the current user's saved listings
+ */
+export const getFavoriteListings = async (params?: {
+  page?: number;
+  limit?: number;
+}): Promise<{ listings: FavoritePropertyListing[]; total: number; hasMore: boolean }> => {
+  const response = await apiClient.get<{ listings: FavoritePropertyListing[]; total: number; hasMore: boolean }>(
+    '/api/property-listings/favorites',
+    params
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch saved listings');
+  }
+  return response.data;
+};
+
+/**
+ * Get a tracked share link for a listing
+ */
+export const createShareLink = async (
+  listingId: string,
+  channel?: ListingShareChannel
+): Promise<{ share: ListingShare; url: string; created: boolean }> => {
+  const response = await apiClient.post<{ share: ListingShare; url: string; created: boolean }>(
+    `/api/property-listings/${listingId}/shares`,
+    { channel }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to create share link');
+  }
+  return response.data;
+};
+
+/**
+ * Open a share link, returning the listing it points to
+ */
+export const openShareLink = async (token: string): Promise<{ property_listing_id: string }> => {
+  const response = await apiClient.get<{ property_listing_id: string }>(`/api/property-listings/shared/${token}`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Share link not found');
+  }
+  return response.data;
+};
+
+/**
+ * Get share links and saves for one of the current user's listings
+ */
+export const getListingShareStats = async (
+  listingId: string
+): Promise<{ shares: ListingShare[]; unique_favorites: number }> => {
+  const response = await apiClient.get<{ shares: ListingShare[]; unique_favorites: number }>(
+    `/api/property-listings/${listingId}/shares`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch share activity');
+  }
+  return response.data;
+};
+
+/**
+ * Upload a CSV or RESO JSON file of listings to import. The import runs in
+ * the background; poll getListingImportJob for its report
+ */
+export const importPropertyListings = async (
+  file: File,
+  options: { format?: ListingFeedFormat; dry_run?: boolean } = {}
+): Promise<ListingImportJob> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.format) formData.append('format', options.format);
+  if (options.dry_run) formData.append('dry_run', 'true');
+
+  const response = await apiClient.upload<{ job: ListingImportJob }>('/api/property-listings/import', formData);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to import listings');
+  }
+  return response.data.job;
+};
+
+/**
+ * Get a listing import's status and report
+ */
+export const getListingImportJob = async (jobId: string): Promise<ListingImportJob> => {
+  const response = await apiClient.get<{ job: ListingImportJob }>(`/api/property-listings/imports/${jobId}`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch import');
+  }
+  return response.data.job;
+};
+
+/**
+ * URL that downloads all of the current user's listings (sent with the auth cookie)
+ */
+export const getPropertyListingsExportUrl = (format: ListingFeedFormat): string =>
+  `${import.meta.env.VITE_API_BASE_URL ?? ''}/api/property-listings/export?format=${format}`;
+
+/**
+ * Full URL of an uploaded listing photo or document. The server gives them
+ * relative to the API
+ */
+export const getListingMediaUrl = (url: string): string =>
+  url.startsWith('/api/') ? `${import.meta.env.VITE_API_BASE_URL ?? ''}${url}` : url;
+
+/**
+ * Upload photos to the end of a listing's gallery; returns all of its photos
+ */
+export const uploadListingPhotos = async (
+  listingId: string,
+  files: File[],
+  captions: string[] = []
+): Promise<PropertyListingPhoto[]> => {
+  const formData = new FormData();
+  files.forEach((file, index) => {
+    formData.append('files', file);
+    formData.append('captions', captions[index] || '');
+  });
+
+  const response = await apiClient.upload<{ photos: PropertyListingPhoto[] }>(
+    `/api/property-listings/${listingId}/photos`,
+    formData
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to upload photos');
+  }
+  return response.data.photos;
+};
+
+/**
+ * Change a photo's caption, or make it the cover photo
+ */
+export const updateListingPhoto = async (
+  listingId: string,
+  photoId: string,
+  data: { caption?: string | null; is_cover?: true }
+): Promise<PropertyListingPhoto[]> => {
+  const response = await apiClient.patch<{ photos: PropertyListingPhoto[] }>(
+    `/api/property-listings/${listingId}/photos/${photoId}`,
+    data
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update photo');
+  }
+  return response.data.photos;
+};
+
+/**
+ * Save the order of a listing's uploaded photos
+ */
+export const reorderListingPhotos = async (listingId: string, photoIds: string[]): Promise<PropertyListingPhoto[]> => {
+  const response = await apiClient.patch<{ photos: PropertyListingPhoto[] }>(
+    `/api/property-listings/${listingId}/photos/order`,
+    { photo_ids: photoIds }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to reorder photos');
+  }
+  return response.data.photos;
+};
+
+/**
+ * Delete an uploaded photo
+ */
+export const deleteListingPhoto = async (listingId: string, photoId: string): Promise<PropertyListingPhoto[]> => {
+  const response = await apiClient.delete<{ photos: PropertyListingPhoto[] }>(
+    `/api/property-listings/${listingId}/photos/${photoId}`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to delete photo');
+  }
+  return response.data.photos;
+};
+
+/**
+ * A listing's documents; inquiry-only ones are locked until the user inquires
+ */
+export const getListingDocuments = async (listingId: string): Promise<ListingDocument[]> => {
+  const response = await apiClient.get<{ documents: ListingDocument[] }>(
+    `/api/property-listings/${listingId}/documents`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch documents');
+  }
+  return response.data.documents;
+};
+
+/**
+ * Upload a flyer, floor plan or other document to a listing
+ */
+export const uploadListingDocument = async (
+  listingId: string,
+  file: File,
+  options: { name?: string; visibility?: ListingDocumentVisibility } = {}
+): Promise<ListingDocument> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.name) formData.append('name', options.name);
+  if (options.visibility) formData.append('visibility', options.visibility);
+
+  const response = await apiClient.upload<{ document: ListingDocument }>(
+    `/api/property-listings/${listingId}/documents`,
+    formData
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to upload document');
+  }
+  return response.data.document;
+};
+
+/**
+ * Rename a document or change who can see it
+ */
+export const updateListingDocument = async (
+  listingId: string,
+  documentId: string,
+  data: { name?: string; visibility?: ListingDocumentVisibility }
+): Promise<ListingDocument> => {
+  const response = await apiClient.patch<{ document: ListingDocument }>(
+    `/api/property-listings/${listingId}/documents/${documentId}`,
+    data
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update document');
+  }
+  return response.data.document;
+};
+
+/**
+ * Delete a document
+ */
+export const deleteListingDocument = async (listingId: string, documentId: string): Promise<void> => {
+  const response = await apiClient.delete(`/api/property-listings/${listingId}/documents/${documentId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to delete document');
+  }
+};
+
+/**
+ * Record a view of or click on a listing. Bots, the owner and repeat visits
+ * are filtered out by the server, which says whether the event was recorded
+ */
+export const recordListingEvent = async (
+  listingId: string,
+  event: {
+    type: ListingEventType;
+    session_id: string;
+    referrer?: string;
+    via?: 'share_link' | 'internal';
+    target?: string;
+  }
+): Promise<{ recorded: boolean }> => {
+  const response = await apiClient.post<{ recorded: boolean }>(`/api/property-listings/${listingId}/events`, event);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to record listing event');
+  }
+  return response.data;
+};
+
+/**
+ * Get traffic to the current user's listings (Enterprise)
+ */
+export const getListingTrafficAnalytics = async (
+  params: { days?: number; listing_id?: string } = {}
+): Promise<ListingTrafficAnalytics> => {
+  const response = await apiClient.get<ListingTrafficAnalytics>('/api/property-listings/analytics', params);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch listing traffic');
+  }
   return response.data;
 };
 
@@ -504,6 +888,8 @@ export const getRecentPropertyListings = async (limit?: number): Promise<{ listi
 export const getConversations = async (params?: {
   page?: number;
   limit?: number;
+  property_listing_id?: string;
+  demand_listing_id?: string;
 }): Promise<{ conversations: ConversationWithDetails[]; total: number; hasMore: boolean }> => {
   const response = await apiClient.get<{ conversations: ConversationWithDetails[]; total: number; hasMore: boolean }>(
     '/api/messages/conversations',
@@ -572,7 +958,8 @@ export const sendMessage = async (
   conversationId: string,
   data: {
     content: string;
-    attachments?: Array<{ name: string; url: string; type?: string; size?: number }>;
+    attachments?: Array<Pick<MessageAttachment, 'id'>>;
+    reply_to_message_id?: string | null;
   }
 ): Promise<{ message: Message }> => {
   const response = await apiClient.post<{ message: Message }>(
@@ -585,6 +972,123 @@ export const sendMessage = async (
   return response.data;
 };
 
+/**
+ * Schedule a message to be sent at send_at
+ */
+export const scheduleMessage = async (
+  conversationId: string,
+  data: {
+    content: string;
+    attachments?: Array<Pick<MessageAttachment, 'id'>>;
+    reply_to_message_id?: string | null;
+    send_at: string;
+  }
+): Promise<{ scheduled_message: ScheduledMessage }> => {
+  const response = await apiClient.post<{ scheduled_message: ScheduledMessage }>(
+    `/api/messages/conversations/${conversationId}/messages`,
+    data
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to schedule message');
+  }
+  return response.data;
+};
+
+/**
+ * Get the user's pending scheduled messages in a conversation
+ */
+export const getScheduledMessages = async (
+  conversationId: string
+): Promise<{ scheduled_messages: ScheduledMessage[] }> => {
+  const response = await apiClient.get<{ scheduled_messages: ScheduledMessage[] }>(
+    `/api/messages/conversations/${conversationId}/scheduled-messages`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch scheduled messages');
+  }
+  return response.data;
+};
+
+/**
+ * Cancel a scheduled message before it is sent
+ */
+export const cancelScheduledMessage = async (scheduledMessageId: string): Promise<void> => {
+  const response = await apiClient.delete(`/api/messages/scheduled-messages/${scheduledMessageId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to cancel scheduled message');
+  }
+};
+
+/**
+ * Download link for a conversation's exported record (auth is cookie-based)
+ */
+export const getConversationExportUrl = (conversationId: string, format: ConversationExportFormat): string =>
+  `${import.meta.env.VITE_API_BASE_URL ?? ''}/api/messages/conversations/${conversationId}/export?format=${format}`;
+
+/**
+ * Edit one of the user's messages
+ */
+export const editMessage = async (messageId: string, content: string): Promise<{ message: Message }> => {
+  const response = await apiClient.patch<{ message: Message }>(`/api/messages/${messageId}`, { content });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to edit message');
+  }
+  return response.data;
+};
+
+/**
+ * Get the previous versions of an edited message, newest first
+ */
+export const getMessageEdits = async (messageId: string): Promise<{ edits: MessageEdit[] }> => {
+  const response = await apiClient.get<{ edits: MessageEdit[] }>(`/api/messages/${messageId}/edits`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch edit history');
+  }
+  return response.data;
+};
+
+/**
+ * Add or remove the user's emoji reaction to a message
+ */
+export const setMessageReaction = async (
+  messageId: string,
+  emoji: string,
+  reacted: boolean
+): Promise<{ reactions: MessageReactionSummary[] }> => {
+  const response = reacted
+    ? await apiClient.post<{ reactions: MessageReactionSummary[] }>(`/api/messages/${messageId}/reactions`, {
+        emoji,
+      })
+    : await apiClient.delete<{ reactions: MessageReactionSummary[] }>(
+        `/api/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`
+      );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update reaction');
+  }
+  return response.data;
+};
+
+/**
+ * Upload a file to a conversation; send the returned attachment with a message
+ */
+export const uploadMessageAttachment = async (
+  conversationId: string,
+  file: File
+): Promise<MessageAttachment> => {
+  const formData = new FormData();
+  formData.append('conversation_id', conversationId);
+  formData.append('file', file);
+
+  const response = await apiClient.upload<{ attachment: MessageAttachment }>(
+    '/api/messages/attachments',
+    formData
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to upload attachment');
+  }
+  return response.data.attachment;
+};
+
 /**
  * Mark a conversation as read
  */
@@ -617,15 +1121,28 @@ export const deleteMessage = async (messageId: string): Promise<void> => {
 };
 
 /**
- * Search messages
+ * Full-text search across the user's conversations
+ * Pass the previous page's nextCursor as `cursor` to load more results
  */
 export const searchMessages = async (
   query: string,
-  limit?: number
-): Promise<{ messages: Message[] }> => {
-  const response = await apiClient.get<{ messages: Message[] }>('/api/messages/search', {
+  options?: {
+    conversation_id?: string;
+    sender_id?: string;
+    from?: string;
+    to?: string;
+    has_attachment?: boolean;
+    limit?: number;
+    cursor?: string;
+  }
+): Promise<{ messages: MessageSearchResult[]; hasMore: boolean; nextCursor: string | null }> => {
+  const response = await apiClient.get<{
+    messages: MessageSearchResult[];
+    hasMore: boolean;
+    nextCursor: string | null;
+  }>('/api/messages/search', {
     q: query,
-    limit,
+    ...options,
   });
   if (!response.success || !response.data) {
     throw new Error(response.error || 'Failed to search messages');
@@ -648,6 +1165,24 @@ export const muteConversation = async (
   }
 };
 
+/**
+ * Set or turn off the follow-up nudge for a conversation
+ * Pass null after_days to turn it off
+ */
+export const setConversationNudge = async (
+  conversationId: string,
+  data: { after_days: number | null; in_app?: boolean; email?: boolean }
+): Promise<{ nudge: ConversationNudge | null }> => {
+  const response = await apiClient.put<{ nudge: ConversationNudge | null }>(
+    `/api/messages/conversations/${conversationId}/nudge`,
+    data
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update follow-up reminder');
+  }
+  return response.data;
+};
+
 /**
  * Leave a conversation
  */
@@ -659,22 +1194,247 @@ export const leaveConversation = async (conversationId: string): Promise<void> =
 };
 
 /**
- * Matching API methods
+ * Add participants to a conversation by user ID or email
  */
+export const addConversationParticipants = async (
+  conversationId: string,
+  data: { user_ids?: string[]; emails?: string[] }
+): Promise<{ conversation: ConversationWithDetails }> => {
+  const response = await apiClient.post<{ conversation: ConversationWithDetails }>(
+    `/api/messages/conversations/${conversationId}/participants`,
+    data
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to add participants');
+  }
+  return response.data;
+};
 
 /**
- * Get top property matches for the current user
+ * Remove a participant from a conversation
  */
-export const getPropertyMatches = async (limit?: number): Promise<{
-  matches: PropertyMatchWithProperty[];
-  total: number;
-}> => {
-  const response = await apiClient.get<{ matches: PropertyMatchWithProperty[]; total: number }>(
-    '/api/matches',
-    { limit }
+export const removeConversationParticipant = async (
+  conversationId: string,
+  userId: string
+): Promise<{ conversation: ConversationWithDetails }> => {
+  const response = await apiClient.delete<{ conversation: ConversationWithDetails }>(
+    `/api/messages/conversations/${conversationId}/participants/${userId}`
   );
   if (!response.success || !response.data) {
-    throw new Error(response.error || 'Failed to fetch property matches');
+    throw new Error(response.error || 'Failed to remove participant');
+  }
+  return response.data;
+};
+
+/**
+ * Make a conversation participant an admin or a member
+ */
+export const setConversationParticipantRole = async (
+  conversationId: string,
+  userId: string,
+  role: ConversationParticipantRole
+): Promise<{ conversation: ConversationWithDetails }> => {
+  const response = await apiClient.patch<{ conversation: ConversationWithDetails }>(
+    `/api/messages/conversations/${conversationId}/participants/${userId}`,
+    { role }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update participant');
+  }
+  return response.data;
+};
+
+/**
+ * Rename a conversation; an empty subject clears it
+ */
+export const renameConversation = async (
+  conversationId: string,
+  subject: string
+): Promise<{ conversation: ConversationWithDetails }> => {
+  const response = await apiClient.patch<{ conversation: ConversationWithDetails }>(
+    `/api/messages/conversations/${conversationId}`,
+    { subject }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to rename conversation');
+  }
+  return response.data;
+};
+
+/**
+ * Message template API methods
+ */
+
+/**
+ * List the user's personal and business team message templates
+ */
+export const getMessageTemplates = async (): Promise<MessageTemplate[]> => {
+  const response = await apiClient.get<MessageTemplate[]>('/api/message-templates');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch message templates');
+  }
+  return response.data;
+};
+
+/**
+ * Create a message template; with business_id it is shared with the business team
+ */
+export const createMessageTemplate = async (data: {
+  name: string;
+  content: string;
+  business_id?: string;
+}): Promise<MessageTemplate> => {
+  const response = await apiClient.post<MessageTemplate>('/api/message-templates', data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to save message template');
+  }
+  return response.data;
+};
+
+/**
+ * Rename a message template or change its content
+ */
+export const updateMessageTemplate = async (
+  templateId: string,
+  data: { name?: string; content?: string }
+): Promise<MessageTemplate> => {
+  const response = await apiClient.put<MessageTemplate>(`/api/message-templates/${templateId}`, data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update message template');
+  }
+  return response.data;
+};
+
+/**
+ * Delete a message template
+ */
+export const deleteMessageTemplate = async (templateId: string): Promise<void> => {
+  const response = await apiClient.delete<void>(`/api/message-templates/${templateId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to delete message template');
+  }
+};
+
+/**
+ * Fill a template's variables from the conversation's property listing
+ */
+export const renderMessageTemplate = async (
+  templateId: string,
+  conversationId?: string
+): Promise<RenderedMessageTemplate> => {
+  const response = await apiClient.post<RenderedMessageTemplate>(
+    `/api/message-templates/${templateId}/render`,
+    { conversation_id: conversationId }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to insert message template');
+  }
+  return response.data;
+};
+
+/**
+ * Moderation API methods
+ */
+
+/**
+ * List the users the current user has blocked
+ */
+export const getBlockedUsers = async (): Promise<BlockedUser[]> => {
+  const response = await apiClient.get<BlockedUser[]>('/api/moderation/blocks');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch blocked users');
+  }
+  return response.data;
+};
+
+/**
+ * Block a user
+ */
+export const blockUser = async (userId: string): Promise<BlockedUser[]> => {
+  const response = await apiClient.post<BlockedUser[]>('/api/moderation/blocks', { user_id: userId });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to block user');
+  }
+  return response.data;
+};
+
+/**
+ * Unblock a user
+ */
+export const unblockUser = async (userId: string): Promise<void> => {
+  const response = await apiClient.delete<void>(`/api/moderation/blocks/${userId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to unblock user');
+  }
+};
+
+/**
+ * Report a message (its sender is reported) or a user
+ */
+export const createReport = async (data: {
+  message_id?: string;
+  reported_user_id?: string;
+  conversation_id?: string;
+  reason: UserReportReason;
+  details?: string;
+  block?: boolean;
+}): Promise<UserReport> => {
+  const response = await apiClient.post<UserReport>('/api/moderation/reports', data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to submit report');
+  }
+  return response.data;
+};
+
+/**
+ * Get the moderation queue (moderators only)
+ */
+export const getReportQueue = async (params?: {
+  status?: UserReportStatus;
+  page?: number;
+  limit?: number;
+}): Promise<{ reports: UserReport[]; total: number; hasMore: boolean }> => {
+  const response = await apiClient.get<{ reports: UserReport[]; total: number; hasMore: boolean }>(
+    '/api/moderation/reports',
+    params
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch reports');
+  }
+  return response.data;
+};
+
+/**
+ * Close an open report as actioned or dismissed (moderators only)
+ */
+export const resolveReport = async (
+  reportId: string,
+  data: { status: UserReportStatus; resolution_note?: string; deactivate_user?: boolean }
+): Promise<UserReport> => {
+  const response = await apiClient.patch<UserReport>(`/api/moderation/reports/${reportId}`, data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to review report');
+  }
+  return response.data;
+};
+
+/**
+ * Matching API methods
+ */
+
+/**
+ * Get top property matches for the current user
+ */
+export const getPropertyMatches = async (limit?: number): Promise<{
+  matches: PropertyMatchWithProperty[];
+  total: number;
+}> => {
+  const response = await apiClient.get<{ matches: PropertyMatchWithProperty[]; total: number }>(
+    '/api/matches',
+    { limit }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch property matches');
   }
   return response.data;
 };
@@ -761,15 +1521,451 @@ export const dismissMatch = async (matchId: string): Promise<void> => {
   }
 };
 
+// ============================================================================
+// Business Team API
+// ============================================================================
+
+/**
+ * Get team members and pending invites for a business
+ */
+export const getBusinessTeam = async (
+  businessId: string
+): Promise<{ members: BusinessTeamMember[]; invites: BusinessInvite[] }> => {
+  const response = await apiClient.get<{ members: BusinessTeamMember[]; invites: BusinessInvite[] }>(
+    `/api/businesses/${businessId}/members`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch team');
+  }
+  return response.data;
+};
+
+/**
+ * Invite someone to a business team by email
+ */
+export const inviteBusinessMember = async (
+  businessId: string,
+  email: string,
+  role: BusinessMemberRole
+): Promise<BusinessInvite> => {
+  const response = await apiClient.post<{ invite: BusinessInvite }>(
+    `/api/businesses/${businessId}/invites`,
+    { email, role }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to send invite');
+  }
+  return response.data.invite;
+};
+
+/**
+ * Revoke a pending invite
+ */
+export const revokeBusinessInvite = async (businessId: string, inviteId: string): Promise<void> => {
+  const response = await apiClient.delete<void>(`/api/businesses/${businessId}/invites/${inviteId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to revoke invite');
+  }
+};
+
+/**
+ * Remove a member from a business team (or leave it when removing yourself)
+ */
+export const removeBusinessMember = async (businessId: string, userId: string): Promise<void> => {
+  const response = await apiClient.delete<void>(`/api/businesses/${businessId}/members/${userId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to remove member');
+  }
+};
+
+/**
+ * Get an invite from its emailed token
+ */
+export const getBusinessInvite = async (
+  token: string
+): Promise<{ invite: BusinessInvite; business: Pick<Business, 'id' | 'name' | 'logo_url' | 'category'> }> => {
+  const response = await apiClient.get<{
+    invite: BusinessInvite;
+    business: Pick<Business, 'id' | 'name' | 'logo_url' | 'category'>;
+  }>(`/api/invites/${token}`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch invite');
+  }
+  return response.data;
+};
+
+/**
+ * Accept a business invite
+ */
+export const acceptBusinessInvite = async (token: string): Promise<BusinessMember> => {
+  const response = await apiClient.post<{ member: BusinessMember }>(`/api/invites/${token}/accept`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to accept invite');
+  }
+  return response.data.member;
+};
+
+/**
+ * Decline a business invite
+ */
+export const declineBusinessInvite = async (token: string): Promise<void> => {
+  const response = await apiClient.post<void>(`/api/invites/${token}/decline`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to decline invite');
+  }
+};
+
+// ============================================================================
+// Tours API
+// ============================================================================
+
+/**
+ * Request a tour of a property listing
+ */
+export const requestTour = async (data: {
+  property_listing_id: string;
+  preferred_times?: string[];
+  duration_minutes?: number;
+  notes?: string;
+}): Promise<Tour> => {
+  const response = await apiClient.post<Tour>('/api/tours', data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to request tour');
+  }
+  return response.data;
+};
+
+/**
+ * Get tours the current user is part of
+ */
+export const getTours = async (params?: {
+  status?: TourStatus;
+  upcoming?: boolean;
+}): Promise<TourWithDetails[]> => {
+  const response = await apiClient.get<TourWithDetails[]>('/api/tours', params);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch tours');
+  }
+  return response.data;
+};
+
+/**
+ * Propose tour times for the other party to confirm
+ */
+export const proposeTourTimes = async (tourId: string, times: string[]): Promise<Tour> => {
+  const response = await apiClient.post<Tour>(`/api/tours/${tourId}/propose`, { times });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to propose tour times');
+  }
+  return response.data;
+};
+
+/**
+ * Confirm one of the proposed tour times
+ */
+export const confirmTour = async (tourId: string, startTime: string): Promise<Tour> => {
+  const response = await apiClient.post<Tour>(`/api/tours/${tourId}/confirm`, { start_time: startTime });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to confirm tour');
+  }
+  return response.data;
+};
+
+/**
+ * Cancel a tour
+ */
+export const cancelTour = async (tourId: string, reason?: string): Promise<Tour> => {
+  const response = await apiClient.post<Tour>(`/api/tours/${tourId}/cancel`, { reason });
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to cancel tour');
+  }
+  return response.data;
+};
+
+/**
+ * Download link for a scheduled tour's calendar file (auth is cookie-based)
+ */
+export const getTourCalendarUrl = (tourId: string): string =>
+  `${import.meta.env.VITE_API_BASE_URL ?? ''}/api/tours/${tourId}/calendar.ics`;
+
+// ============================================================================
+// Saved Searches API
+// ============================================================================
+
+export interface SavedSearchInput {
+  name: string;
+  filters: SavedSearchFilters;
+  alert_in_app?: boolean;
+  alert_email?: boolean;
+}
+
+/**
+ * Get the current user's saved searches
+ */
+export const getSavedSearches = async (): Promise<SavedSearch[]> => {
+  const response = await apiClient.get<SavedSearch[]>('/api/saved-searches');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch saved searches');
+  }
+  return response.data;
+};
+
+/**
+ * Save a property search (Pro feature)
+ */
+export const createSavedSearch = async (data: SavedSearchInput): Promise<SavedSearch> => {
+  const response = await apiClient.post<SavedSearch>('/api/saved-searches', data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to save search');
+  }
+  return response.data;
+};
+
+/**
+ * Rename a saved search, change its filters, or toggle its alerts
+ */
+export const updateSavedSearch = async (
+  searchId: string,
+  data: Partial<SavedSearchInput>
+): Promise<SavedSearch> => {
+  const response = await apiClient.put<SavedSearch>(`/api/saved-searches/${searchId}`, data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update saved search');
+  }
+  return response.data;
+};
+
+/**
+ * Delete a saved search
+ */
+export const deleteSavedSearch = async (searchId: string): Promise<void> => {
+  const response = await apiClient.delete<void>(`/api/saved-searches/${searchId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to delete saved search');
+  }
+};
+
+/**
+ * Run a saved search against active listings
+ */
+export const getSavedSearchResults = async (
+  searchId: string,
+  params?: { page?: number; limit?: number }
+): Promise<{ listings: PropertyListing[]; total: number; hasMore: boolean }> => {
+  const response = await apiClient.get<{ listings: PropertyListing[]; total: number; hasMore: boolean }>(
+    `/api/saved-searches/${searchId}/results`,
+    params
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to run saved search');
+  }
+  return response.data;
+};
+
+// ============================================================================
+// Deal Pipeline API
+// ============================================================================
+
+/**
+ * Get the current user's deal pipeline
+ */
+export const getDeals = async (params?: { stage?: DealStage }): Promise<DealWithDetails[]> => {
+  const response = await apiClient.get<DealWithDetails[]>('/api/deals', params);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch deals');
+  }
+  return response.data;
+};
+
+/**
+ * Get a deal with its stage history
+ */
+export const getDeal = async (dealId: string): Promise<DealWithDetails> => {
+  const response = await apiClient.get<DealWithDetails>(`/api/deals/${dealId}`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch deal');
+  }
+  return response.data;
+};
+
+/**
+ * Add a deal to the pipeline from a property match or a listing pair
+ */
+export const createDeal = async (data: {
+  property_match_id?: string;
+  demand_listing_id?: string;
+  property_listing_id?: string;
+  notes?: string;
+  expected_close_date?: string;
+}): Promise<Deal> => {
+  const response = await apiClient.post<Deal>('/api/deals', data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to create deal');
+  }
+  return response.data;
+};
+
+/**
+ * Update deal notes and expected close date
+ */
+export const updateDeal = async (
+  dealId: string,
+  data: { notes?: string | null; expected_close_date?: string | null }
+): Promise<Deal> => {
+  const response = await apiClient.patch<Deal>(`/api/deals/${dealId}`, data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update deal');
+  }
+  return response.data;
+};
+
+/**
+ * Move a deal to a stage and position on the board
+ */
+export const moveDeal = async (
+  dealId: string,
+  data: { stage: DealStage; position?: number; note?: string }
+): Promise<Deal> => {
+  const response = await apiClient.post<Deal>(`/api/deals/${dealId}/move`, data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to move deal');
+  }
+  return response.data;
+};
+
+/**
+ * Remove a deal from the pipeline
+ */
+export const deleteDeal = async (dealId: string): Promise<void> => {
+  const response = await apiClient.delete<void>(`/api/deals/${dealId}`);
+  if (!response.success) {
+    throw new Error(response.error || 'Failed to delete deal');
+  }
+};
+
+// ============================================================================
+// Broker Clients API
+// ============================================================================
+
+/**
+ * Get the broker dashboard: clients plus their matches, conversations and deals
+ */
+export const getBrokerDashboard = async (): Promise<BrokerDashboardData> => {
+  const response = await apiClient.get<BrokerDashboardData>('/api/dashboard/broker');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch broker dashboard');
+  }
+  return response.data;
+};
+
+/**
+ * Ask a tenant business or a landlord for consent to represent them
+ */
+export const requestBrokerRepresentation = async (data: {
+  client_type: BrokerClientType;
+  business_id?: string;
+  client_email?: string;
+  message?: string;
+}): Promise<BrokerClientWithDetails> => {
+  const response = await apiClient.post<BrokerClientWithDetails>('/api/broker-clients', data);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to send representation request');
+  }
+  return response.data;
+};
+
+/**
+ * Get pending requests and active brokers for the current user as a client
+ */
+export const getBrokerRepresentations = async (): Promise<BrokerClientWithDetails[]> => {
+  const response = await apiClient.get<BrokerClientWithDetails[]>('/api/broker-clients/representations');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch brokers');
+  }
+  return response.data;
+};
+
+/**
+ * Grant or decline a broker's pending representation request
+ */
+export const respondToBrokerRequest = async (
+  brokerClientId: string,
+  grant: boolean
+): Promise<BrokerClientWithDetails> => {
+  const response = await apiClient.post<BrokerClientWithDetails>(
+    `/api/broker-clients/${brokerClientId}/${grant ? 'consent' : 'decline'}`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to answer representation request');
+  }
+  return response.data;
+};
+
+/**
+ * End a representation (client revoking consent or broker stepping back)
+ */
+export const revokeBrokerRepresentation = async (brokerClientId: string): Promise<BrokerClientWithDetails> => {
+  const response = await apiClient.post<BrokerClientWithDetails>(`/api/broker-clients/${brokerClientId}/revoke`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to end representation');
+  }
+  return response.data;
+};
+
+/**
+ * Get a representation's audit trail
+ */
+export const getBrokerAuditLog = async (brokerClientId: string): Promise<BrokerClientAuditEntry[]> => {
+  const response = await apiClient.get<BrokerClientAuditEntry[]>(`/api/broker-clients/${brokerClientId}/audit`);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch audit trail');
+  }
+  return response.data;
+};
+
+/**
+ * Get the listings a broker can manage for a client
+ */
+export const getBrokerClientListings = async (
+  brokerClientId: string
+): Promise<{ demandListings: DemandListing[]; propertyListings: PropertyListing[] }> => {
+  const response = await apiClient.get<{ demandListings: DemandListing[]; propertyListings: PropertyListing[] }>(
+    `/api/broker-clients/${brokerClientId}/listings`
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch client listings');
+  }
+  return response.data;
+};
+
+/**
+ * Change the status of a landlord client's property listing on their behalf
+ */
+export const updateBrokerClientListingStatus = async (
+  brokerClientId: string,
+  listingId: string,
+  status: PropertyListingStatus
+): Promise<PropertyListing> => {
+  const response = await apiClient.patch<PropertyListing>(
+    `/api/broker-clients/${brokerClientId}/property-listings/${listingId}/status`,
+    { status }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update listing status');
+  }
+  return response.data;
+};
+
 // ============================================================================
 // Market Insights API
 // ============================================================================
 
 /**
  * Get complete market insights data
+ * Optionally narrowed to a location / property type and a date range
  */
-export const getMarketInsights = async (): Promise<MarketInsightsData> => {
-  const response = await apiClient.get<MarketInsightsData>('/api/market-insights');
+export const getMarketInsights = async (params?: MarketInsightsFilters): Promise<MarketInsightsData> => {
+  const response = await apiClient.get<MarketInsightsData>('/api/market-insights', params);
   if (!response.success || !response.data) {
     throw new Error(response.error || 'Failed to fetch market insights');
   }
@@ -810,6 +2006,17 @@ export const getCurrentSubscription = async (): Promise<{
   return response.data;
 };
 
+/**
+ * Get current user's usage against plan limits
+ */
+export const getSubscriptionUsage = async (): Promise<SubscriptionUsage> => {
+  const response = await apiClient.get<SubscriptionUsage>('/api/subscriptions/usage');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch subscription usage');
+  }
+  return response.data;
+};
+
 /**
  * Create checkout session for subscription
  */
@@ -883,7 +2090,7 @@ export interface NotificationPreferences {
     account_updates: boolean;
   };
   settings: {
-    email_frequency: 'instant' | 'daily' | 'weekly';
+    email_frequency: 'immediate' | 'daily' | 'weekly';
     quiet_hours_start: string | null;
     quiet_hours_end: string | null;
     timezone: string;
@@ -907,9 +2114,12 @@ export const getNotificationPreferences = async (): Promise<NotificationPreferen
 /**
  * Update notification preferences
  */
-export const updateNotificationPreferences = async (
-  updates: Partial<NotificationPreferences>
-): Promise<NotificationPreferences> => {
+export const updateNotificationPreferences = async (updates: {
+  email?: Partial<NotificationPreferences['email']>;
+  inApp?: Partial<NotificationPreferences['inApp']>;
+  settings?: Partial<NotificationPreferences['settings']>;
+  unsubscribed_all?: boolean;
+}): Promise<NotificationPreferences> => {
   const response = await apiClient.put<{ preferences: NotificationPreferences }>(
     '/api/notifications/preferences',
     updates
@@ -940,4 +2150,72 @@ export const resubscribeNotifications = async (): Promise<void> => {
   }
 };
 
+// ============================================================================
+// In-App Notifications API
+// ============================================================================
+
+export interface NotificationListResponse {
+  notifications: InAppNotification[];
+  hasMore: boolean;
+  unreadCount: number;
+}
+
+/**
+ * Get in-app notifications, newest first
+ * Pass the id of the last loaded notification as `before` to load older ones
+ */
+export const getNotifications = async (params?: {
+  limit?: number;
+  before?: string;
+  unread?: boolean;
+  archived?: boolean;
+}): Promise<NotificationListResponse> => {
+  const response = await apiClient.get<NotificationListResponse>('/api/notifications', params);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch notifications');
+  }
+  return response.data;
+};
+
+/**
+ * Get unread in-app notification count
+ */
+export const getUnreadNotificationCount = async (): Promise<{ unreadCount: number }> => {
+  const response = await apiClient.get<{ unreadCount: number }>('/api/notifications/unread-count');
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to fetch unread notification count');
+  }
+  return response.data;
+};
+
+/**
+ * Mark a notification read/unread or archive it
+ */
+export const updateNotification = async (
+  notificationId: string,
+  updates: { read?: boolean; archived?: boolean }
+): Promise<{ notification: InAppNotification; unreadCount: number }> => {
+  const response = await apiClient.patch<{ notification: InAppNotification; unreadCount: number }>(
+    `/api/notifications/${notificationId}`,
+    updates
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to update notification');
+  }
+  return response.data;
+};
+
+/**
+ * Mark all notifications as read
+ */
+export const markAllNotificationsRead = async (): Promise<{ unreadCount: number }> => {
+  const response = await apiClient.patch<{ updated: number; unreadCount: number }>(
+    '/api/notifications/read-all'
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to mark notifications read');
+  }
+  return response.data;
+};
+
 export default apiClient;
@@ -0,0 +1,16 @@
+import { ListingPhotoVariant, PropertyListingPhoto } from '@types';
+import { getListingMediaUrl } from './apiClient';
+
+/**
+ * The photo to show for a listing: its cover photo, or else its first photo
+ */
+export const getCoverPhoto = (photos: PropertyListingPhoto[] | null | undefined): PropertyListingPhoto | null =>
+  photos?.find((photo) => photo.is_cover) || photos?.[0] || null;
+
+/**
+ * Image URL for a photo at a size. Photos given by URL have only the one size
+ */
+export const getPhotoSrc = (photo: PropertyListingPhoto, variant: ListingPhotoVariant = 'full'): string => {
+  const url = variant === 'thumbnail' ? photo.thumbnail_url : variant === 'card' ? photo.card_url : undefined;
+  return getListingMediaUrl(url || photo.url);
+};
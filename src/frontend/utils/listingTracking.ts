@@ -0,0 +1,65 @@
+import { ListingEventType } from '@types';
+import { recordListingEvent } from './apiClient';
+
+/**
+ * Listing view and click tracking
+ *
+ * Each browser tab gets a random session ID, kept in sessionStorage so
+ * refreshes count as the same viewer. document.referrer only describes how the
+ * app was first loaded, so it is sent with the first view of the page load;
+ * later views came from within the app.
+ *
+ * Tracking never throws or blocks the page: failures are ignored.
+ */
+
+const SESSION_KEY = 'tenantlist:listing-session';
+
+let landingTracked = false;
+
+const createSessionId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID().replace(/-/g, '');
+  }
+  return Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+};
+
+export const getTrackingSessionId = (): string => {
+  try {
+    const existing = sessionStorage.getItem(SESSION_KEY);
+    if (existing) return existing;
+
+    const sessionId = createSessionId();
+    sessionStorage.setItem(SESSION_KEY, sessionId);
+    return sessionId;
+  } catch {
+    // Storage is blocked (private mode); the session lasts as long as the page
+    return createSessionId();
+  }
+};
+
+/**
+ * Record a view of a listing
+ * @param fromShareLink - The visit came through a share link
+ */
+export const trackListingView = (listingId: string, fromShareLink: boolean = false): void => {
+  const isLanding = !landingTracked;
+  landingTracked = true;
+
+  recordListingEvent(listingId, {
+    type: ListingEventType.VIEW,
+    session_id: getTrackingSessionId(),
+    referrer: isLanding && document.referrer ? document.referrer : undefined,
+    via: fromShareLink ? 'share_link' : isLanding ? undefined : 'internal',
+  }).catch(() => undefined);
+};
+
+/**
+ * Record a click on something on a listing, e.g. "phone" or "inquiry"
+ */
+export const trackListingClick = (listingId: string, target: string): void => {
+  recordListingEvent(listingId, {
+    type: ListingEventType.CLICK,
+    session_id: getTrackingSessionId(),
+    target,
+  }).catch(() => undefined);
+};
@@ -0,0 +1,110 @@
+import { GeoBounds } from '@types';
+
+/**
+ * Web Mercator helpers and pin clustering for the listing map
+ *
+ * Positions are in "world pixels": at zoom z the whole world is a square
+ * TILE_SIZE * 2^z pixels wide, the same grid the map tiles use.
+ */
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 18;
+// Web Mercator can't show the poles; tiles stop at this latitude
+export const MAX_LATITUDE = 85.0511;
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapPin<T> {
+  id: string;
+  position: LatLng;
+  item: T;
+}
+
+export interface PinCluster<T> {
+  // Stable for a given set of pins, so React can key on it
+  key: string;
+  point: WorldPoint;
+  pins: MapPin<T>[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const worldSize = (zoom: number): number => TILE_SIZE * Math.pow(2, zoom);
+
+export const project = ({ latitude, longitude }: LatLng, zoom: number): WorldPoint => {
+  const size = worldSize(zoom);
+  const sin = Math.sin((clamp(latitude, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unproject = ({ x, y }: WorldPoint, zoom: number): LatLng => {
+  const size = worldSize(zoom);
+  const n = Math.PI * (1 - (2 * y) / size);
+  return {
+    latitude: (Math.atan(Math.sinh(n)) * 180) / Math.PI,
+    longitude: (x / size) * 360 - 180,
+  };
+};
+
+/**
+ * The lat/lng rectangle a map of width x height pixels shows, clamped to
+ * valid coordinates so it can be sent as a search bbox
+ */
+export const viewportBounds = (center: LatLng, zoom: number, width: number, height: number): GeoBounds => {
+  const middle = project(center, zoom);
+  const size = worldSize(zoom);
+  const topLeft = unproject({ x: middle.x - width / 2, y: clamp(middle.y - height / 2, 0, size) }, zoom);
+  const bottomRight = unproject({ x: middle.x + width / 2, y: clamp(middle.y + height / 2, 0, size) }, zoom);
+  const wrapsWorld = width >= size;
+
+  return {
+    south: bottomRight.latitude,
+    west: wrapsWorld ? -180 : clamp(topLeft.longitude, -180, 180),
+    north: topLeft.latitude,
+    east: wrapsWorld ? 180 : clamp(bottomRight.longitude, -180, 180),
+  };
+};
+
+/**
+ * Group pins that would overlap on screen. Pins are bucketed into a grid of
+ * cellSize pixels at the current zoom; each bucket becomes one cluster drawn
+ * at the average position of its pins.
+ */
+export const clusterPins = <T>(pins: MapPin<T>[], zoom: number, cellSize = 64): PinCluster<T>[] => {
+  const cells = new Map<string, { point: WorldPoint; pins: MapPin<T>[] }>();
+
+  pins.forEach((pin) => {
+    const point = project(pin.position, zoom);
+    const cellKey = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(cellKey);
+    if (cell) {
+      cell.point = {
+        x: (cell.point.x * cell.pins.length + point.x) / (cell.pins.length + 1),
+        y: (cell.point.y * cell.pins.length + point.y) / (cell.pins.length + 1),
+      };
+      cell.pins.push(pin);
+    } else {
+      cells.set(cellKey, { point, pins: [pin] });
+    }
+  });
+
+  return Array.from(cells.values()).map((cell) => ({
+    key: cell.pins.map((pin) => pin.id).sort().join(','),
+    point: cell.point,
+    pins: cell.pins,
+  }));
+};
+
+export const clampZoom = (zoom: number): number => clamp(Math.round(zoom), MIN_ZOOM, MAX_ZOOM);
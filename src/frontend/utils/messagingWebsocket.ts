@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import { Message, ConversationWithDetails } from '@types';
+import { Message, ConversationWithDetails, ConversationParticipant, MessageReactionSummary } from '@types';
 
 /**
  * Messaging WebSocket event types
@@ -15,6 +15,18 @@ export interface MessageDeletedEvent {
   timestamp: string;
 }
 
+export interface MessageEditedEvent {
+  message: Message;
+  timestamp: string;
+}
+
+export interface MessageReactionEvent {
+  messageId: string;
+  conversationId: string;
+  reactions: MessageReactionSummary[];
+  timestamp: string;
+}
+
 export interface NewConversationEvent {
   conversation: ConversationWithDetails;
   timestamp: string;
@@ -26,6 +38,23 @@ export interface ConversationUpdatedEvent {
   timestamp: string;
 }
 
+export interface ConversationParticipantsEvent {
+  conversationId: string;
+  participants: ConversationParticipant[];
+  timestamp: string;
+}
+
+export interface ConversationRenamedEvent {
+  conversationId: string;
+  subject: string | null;
+  timestamp: string;
+}
+
+export interface ConversationRemovedEvent {
+  conversationId: string;
+  timestamp: string;
+}
+
 export interface UnreadUpdateEvent {
   unreadCount: number;
   timestamp: string;
@@ -42,6 +71,21 @@ export interface MessageReadEvent {
   timestamp: string;
 }
 
+export interface PresenceUpdateEvent {
+  userId: string;
+  isOnline: boolean;
+  lastSeenAt: string | null;
+  timestamp: string;
+}
+
+export interface PresenceSnapshotEvent {
+  onlineUserIds: string[];
+  timestamp: string;
+}
+
+// Must be well inside the server's presence TTL (75s)
+const PRESENCE_HEARTBEAT_MS = 30000;
+
 /**
  * Messaging WebSocket Client
  *
@@ -50,6 +94,7 @@ export interface MessageReadEvent {
  * - Handles real-time message events
  * - Supports typing indicators
  * - Manages conversation rooms
+ * - Keeps the user's presence alive and reports the conversation in view
  */
 class MessagingWebSocketClient {
   private socket: Socket | null = null;
@@ -59,6 +104,9 @@ class MessagingWebSocketClient {
   private maxReconnectDelay = 30000;
   private isConnecting = false;
   private eventHandlers: Map<string, Function[]> = new Map();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private viewingConversationId: string | null = null;
+  private visibilityListenerAdded = false;
 
   /**
    * Connect to messaging WebSocket namespace
@@ -84,6 +132,8 @@ class MessagingWebSocketClient {
         console.log('Messaging WebSocket connected');
         this.reconnectAttempts = 0;
         this.isConnecting = false;
+        this.startHeartbeat();
+        this.emitViewing();
       });
 
       this.socket.on('connect_error', (error: Error) => {
@@ -95,6 +145,7 @@ class MessagingWebSocketClient {
       this.socket.on('disconnect', (reason: string) => {
         console.log('Messaging WebSocket disconnected:', reason);
         this.isConnecting = false;
+        this.stopHeartbeat();
 
         if (reason !== 'io client disconnect') {
           this.handleReconnect(onConnectionFailed);
@@ -156,10 +207,52 @@ class MessagingWebSocketClient {
     });
   }
 
+  /**
+   * Send presence heartbeats while connected
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.socket?.emit('presence:heartbeat');
+    }, PRESENCE_HEARTBEAT_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Report the open conversation, or none while the tab is hidden
+   */
+  private emitViewing(): void {
+    if (!this.socket?.connected) return;
+    const visible = typeof document === 'undefined' || document.visibilityState === 'visible';
+    this.socket.emit('conversation:view', visible ? this.viewingConversationId : null);
+  }
+
+  /**
+   * Set the conversation the user has open (null for none)
+   * Used by the server to skip email notifications the user would see anyway
+   */
+  viewConversation(conversationId: string | null): void {
+    this.viewingConversationId = conversationId;
+
+    if (!this.visibilityListenerAdded && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => this.emitViewing());
+      this.visibilityListenerAdded = true;
+    }
+
+    this.emitViewing();
+  }
+
   /**
    * Disconnect from WebSocket
    */
   disconnect(): void {
+    this.stopHeartbeat();
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -229,6 +322,20 @@ class MessagingWebSocketClient {
     return this.addEventListener('message:deleted', callback);
   }
 
+  /**
+   * Listen for message edited events
+   */
+  onMessageEdited(callback: (data: MessageEditedEvent) => void): () => void {
+    return this.addEventListener('message:edited', callback);
+  }
+
+  /**
+   * Listen for message reaction changes
+   */
+  onMessageReaction(callback: (data: MessageReactionEvent) => void): () => void {
+    return this.addEventListener('message:reaction', callback);
+  }
+
   /**
    * Listen for new conversation events
    */
@@ -243,6 +350,27 @@ class MessagingWebSocketClient {
     return this.addEventListener('conversation:updated', callback);
   }
 
+  /**
+   * Listen for participant list changes
+   */
+  onParticipantsChanged(callback: (data: ConversationParticipantsEvent) => void): () => void {
+    return this.addEventListener('conversation:participants', callback);
+  }
+
+  /**
+   * Listen for conversation subject changes
+   */
+  onConversationRenamed(callback: (data: ConversationRenamedEvent) => void): () => void {
+    return this.addEventListener('conversation:renamed', callback);
+  }
+
+  /**
+   * Listen for the current user being removed from a conversation
+   */
+  onConversationRemoved(callback: (data: ConversationRemovedEvent) => void): () => void {
+    return this.addEventListener('conversation:removed', callback);
+  }
+
   /**
    * Listen for unread count updates
    */
@@ -271,6 +399,20 @@ class MessagingWebSocketClient {
     return this.addEventListener('message:read', callback);
   }
 
+  /**
+   * Listen for contacts coming online or going offline
+   */
+  onPresenceUpdate(callback: (data: PresenceUpdateEvent) => void): () => void {
+    return this.addEventListener('presence:update', callback);
+  }
+
+  /**
+   * Listen for the contacts who are online when the connection opens
+   */
+  onPresenceSnapshot(callback: (data: PresenceSnapshotEvent) => void): () => void {
+    return this.addEventListener('presence:snapshot', callback);
+  }
+
   /**
    * Listen for conversation joined confirmation
    */
@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import { DashboardKPIs, Business } from '@types';
+import { DashboardKPIs, Business, InAppNotification } from '@types';
 
 /**
  * WebSocket event types
@@ -8,6 +8,8 @@ export type KPIUpdateEvent = DashboardKPIs;
 export type BusinessUpdateEvent = Business;
 export type BusinessCreatedEvent = Business;
 export type BusinessDeletedEvent = { businessId: string };
+export type NotificationEvent = { notification: InAppNotification; unreadCount: number };
+export type NotificationUnreadEvent = { unreadCount: number };
 
 /**
  * WebSocket Client for Dashboard Real-time Updates
@@ -278,6 +280,52 @@ class WebSocketClient {
     };
   }
 
+  /**
+   * Listen for new in-app notifications
+   */
+  onNotification(callback: (data: NotificationEvent) => void): () => void {
+    return this.addEventListener('notification:new', callback);
+  }
+
+  /**
+   * Listen for notification unread count changes from other sessions
+   */
+  onNotificationUnread(callback: (data: NotificationUnreadEvent) => void): () => void {
+    return this.addEventListener('notification:unread', callback);
+  }
+
+  /**
+   * Register a handler for an event, kept for reattachment after reconnection
+   */
+  private addEventListener<T>(event: string, callback: (data: T) => void): () => void {
+    if (!this.socket) {
+      console.warn('Socket not connected. Call connectToDashboard first.');
+      return () => {};
+    }
+
+    const handler = (data: T) => {
+      callback(data);
+    };
+
+    this.socket.on(event, handler);
+
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)?.push(handler);
+
+    return () => {
+      this.socket?.off(event, handler);
+      const handlers = this.eventHandlers.get(event);
+      if (handlers) {
+        const index = handlers.indexOf(handler);
+        if (index > -1) {
+          handlers.splice(index, 1);
+        }
+      }
+    };
+  }
+
   /**
    * Check if socket is connected
    */
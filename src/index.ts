@@ -3,6 +3,7 @@ import http from 'http';
 import { createApp } from './app';
 import { initializeDashboardSocket } from './websocket/dashboardSocket';
 import { initializeMessagingSocket } from './websocket/messagingSocket';
+import { startJobs } from './jobs';
 
 // Load environment variables
 dotenv.config();
@@ -44,6 +45,11 @@ async function startServer() {
       console.log(`     - Dashboard namespace: /dashboard`);
       console.log(`     - Messaging namespace: /messaging`);
       console.log(`   Health check: http://localhost:${PORT}/health\n`);
+
+      // Start background jobs
+      if (process.env.NODE_ENV !== 'test') {
+        startJobs();
+      }
     });
 
     // Handle server errors
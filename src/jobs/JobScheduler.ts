@@ -0,0 +1,98 @@
+import Redis from 'ioredis';
+import redisClient from '../config/redis';
+
+/**
+ * A recurring background job
+ */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * JobScheduler
+ *
+ * Runs registered jobs on a fixed interval inside the API process.
+ * Each run takes a short-lived Redis lock so that only one instance
+ * executes a job at a time when several API servers are running, and a
+ * job never overlaps with its own previous run.
+ */
+export class JobScheduler {
+  private redis: Redis;
+  private jobs: ScheduledJob[] = [];
+  private timers: NodeJS.Timeout[] = [];
+  private running = new Set<string>();
+
+  constructor(redis?: Redis) {
+    this.redis = redis || redisClient;
+  }
+
+  /**
+   * Register a job; call before start()
+   */
+  register(job: ScheduledJob): void {
+    this.jobs.push(job);
+  }
+
+  /**
+   * Start all registered jobs
+   */
+  start(): void {
+    for (const job of this.jobs) {
+      const timer = setInterval(() => {
+        this.runJob(job).catch((error) => console.error(`Job ${job.name} failed:`, error));
+      }, job.intervalMs);
+      // Don't keep the process alive just for background jobs
+      timer.unref();
+      this.timers.push(timer);
+      console.log(`Scheduled job ${job.name} every ${Math.round(job.intervalMs / 1000)}s`);
+    }
+  }
+
+  /**
+   * Stop all jobs
+   */
+  stop(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+  }
+
+  /**
+   * Run a job once, honouring the in-process and cross-instance locks
+   * Returns false if the job was skipped because another run holds the lock
+   */
+  async runJob(job: ScheduledJob): Promise<boolean> {
+    if (this.running.has(job.name)) {
+      return false;
+    }
+
+    const lockKey = `job-lock:${job.name}`;
+    let acquired = false;
+
+    try {
+      // Lock expires just before the next tick in case this process dies mid-run
+      const result = await this.redis.set(lockKey, '1', 'PX', Math.max(job.intervalMs - 1000, 1000), 'NX');
+      acquired = result === 'OK';
+    } catch (error) {
+      // Without Redis, fall back to running locally
+      console.error(`Job lock unavailable for ${job.name}:`, error);
+      acquired = true;
+    }
+
+    if (!acquired) {
+      return false;
+    }
+
+    this.running.add(job.name);
+    try {
+      await job.run();
+      return true;
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
+
+// Export singleton instance
+export const jobScheduler = new JobScheduler();
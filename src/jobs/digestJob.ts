@@ -0,0 +1,16 @@
+import { digestService } from '../services/DigestService';
+import { ScheduledJob } from './JobScheduler';
+
+// Frequent enough that digests land soon after 8am or the end of quiet hours
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export const digestJob: ScheduledJob = {
+  name: 'email-digests',
+  intervalMs: CHECK_INTERVAL_MS,
+  run: async () => {
+    const count = await digestService.sendDueDigests();
+    if (count > 0) {
+      console.log(`Sent ${count} digest email(s)`);
+    }
+  },
+};
@@ -0,0 +1,24 @@
+import { jobScheduler } from './JobScheduler';
+import { tourReminderJob } from './tourReminderJob';
+import { digestJob } from './digestJob';
+import { marketSnapshotJob } from './marketSnapshotJob';
+import { scheduledMessageJob } from './scheduledMessageJob';
+import { messageNudgeJob } from './messageNudgeJob';
+import { listingEventRollupJob } from './listingEventRollupJob';
+import { listingImportJob } from './listingImportJob';
+
+/**
+ * Register and start all background jobs
+ */
+export function startJobs(): void {
+  jobScheduler.register(tourReminderJob);
+  jobScheduler.register(digestJob);
+  jobScheduler.register(marketSnapshotJob);
+  jobScheduler.register(scheduledMessageJob);
+  jobScheduler.register(messageNudgeJob);
+  jobScheduler.register(listingEventRollupJob);
+  jobScheduler.register(listingImportJob);
+  jobScheduler.start();
+}
+
+export { jobScheduler };
@@ -0,0 +1,41 @@
+import { ListingEventModel } from '../database/models/ListingEvent';
+import { ScheduledJob } from './JobScheduler';
+
+// Landlords see daily totals, so a few minutes behind is fine
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+// Events per statement; a backlog is worked through a batch at a time
+const BATCH_SIZE = 5000;
+// Stop after this many batches so one tick can't hold the job lock for long
+const MAX_BATCHES_PER_RUN = 20;
+
+/**
+ * Add recorded listing views and clicks to the daily property_listing_metrics
+ *
+ * @returns Number of events rolled up
+ */
+export async function rollupListingEvents(
+  listingEventModel: ListingEventModel = new ListingEventModel()
+): Promise<number> {
+  let total = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const count = await listingEventModel.rollupPending(BATCH_SIZE);
+    total += count;
+    if (count < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return total;
+}
+
+export const listingEventRollupJob: ScheduledJob = {
+  name: 'listing-event-rollup',
+  intervalMs: CHECK_INTERVAL_MS,
+  run: async () => {
+    const count = await rollupListingEvents();
+    if (count > 0) {
+      console.log(`Rolled up ${count} listing event(s)`);
+    }
+  },
+};
@@ -0,0 +1,28 @@
+import { ListingImportService, listingImportService } from '../services/listingFeed/ListingImportService';
+import { ScheduledJob } from './JobScheduler';
+
+// Imports start as soon as they're uploaded; this only catches ones that didn't
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Process listing imports that are still waiting, such as ones queued just
+ * before a restart, or whose processing stalled
+ *
+ * @returns Number of imports processed
+ */
+export async function processListingImports(
+  importService: ListingImportService = listingImportService
+): Promise<number> {
+  return importService.processPendingJobs();
+}
+
+export const listingImportJob: ScheduledJob = {
+  name: 'listing-import',
+  intervalMs: CHECK_INTERVAL_MS,
+  run: async () => {
+    const count = await processListingImports();
+    if (count > 0) {
+      console.log(`Processed ${count} listing import(s)`);
+    }
+  },
+};
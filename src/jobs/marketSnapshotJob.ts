@@ -0,0 +1,34 @@
+import { MarketSnapshotModel } from '../database/models/MarketSnapshot';
+import { ScheduledJob } from './JobScheduler';
+
+// Hourly checks so a restart never skips a day; each day is recorded once
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Record today's market snapshot (UTC) unless it already exists
+ *
+ * @returns Number of snapshot rows written, 0 if today was already recorded
+ */
+export async function recordDailyMarketSnapshot(
+  snapshotModel: MarketSnapshotModel = new MarketSnapshotModel(),
+  now: Date = new Date()
+): Promise<number> {
+  const snapshotDate = now.toISOString().slice(0, 10);
+
+  if (await snapshotModel.existsForDate(snapshotDate)) {
+    return 0;
+  }
+
+  return snapshotModel.capture(snapshotDate);
+}
+
+export const marketSnapshotJob: ScheduledJob = {
+  name: 'market-snapshots',
+  intervalMs: CHECK_INTERVAL_MS,
+  run: async () => {
+    const count = await recordDailyMarketSnapshot();
+    if (count > 0) {
+      console.log(`Recorded market snapshot with ${count} segment(s)`);
+    }
+  },
+};
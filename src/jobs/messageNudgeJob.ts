@@ -0,0 +1,47 @@
+import { ConversationModel } from '../database/models/Conversation';
+import { NotificationService, notificationService } from '../services/NotificationService';
+import { ScheduledJob } from './JobScheduler';
+
+// Nudges are measured in days, so hourly checks are precise enough
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Remind users whose last message in a conversation has gone unanswered for
+ * the number of days they asked to be nudged after
+ *
+ * @returns Number of nudges sent
+ */
+export async function sendDueMessageNudges(
+  conversationModel: ConversationModel = new ConversationModel(),
+  notifications: NotificationService = notificationService,
+  now: Date = new Date()
+): Promise<number> {
+  const dueNudges = await conversationModel.findDueForNudge(now);
+
+  for (const nudge of dueNudges) {
+    // Mark first so a slow email provider can't cause duplicate nudges on the next tick
+    await conversationModel.markNudged(nudge.conversation_id, nudge.user_id, nudge.message_id);
+
+    await notifications.sendMessageNudgeNotification(nudge.user_id, {
+      conversationId: nudge.conversation_id,
+      subject: nudge.subject,
+      recipientNames: nudge.recipient_names || 'the other participants',
+      days: nudge.nudge_after_days,
+      inApp: nudge.nudge_in_app,
+      email: nudge.nudge_email,
+    });
+  }
+
+  return dueNudges.length;
+}
+
+export const messageNudgeJob: ScheduledJob = {
+  name: 'message-nudges',
+  intervalMs: CHECK_INTERVAL_MS,
+  run: async () => {
+    const count = await sendDueMessageNudges();
+    if (count > 0) {
+      console.log(`Sent ${count} follow-up nudge(s)`);
+    }
+  },
+};
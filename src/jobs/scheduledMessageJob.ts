@@ -0,0 +1,44 @@
+import { ScheduledMessageModel } from '../database/models/ScheduledMessage';
+import { MessagingController } from '../controllers/MessagingController';
+import { ScheduledJob } from './JobScheduler';
+
+// Scheduled times are picked to the minute in the composer
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Deliver scheduled messages whose send time has arrived
+ * Each goes through the normal send path, so participants are notified and
+ * the message is pushed to open conversations as if it had just been sent
+ *
+ * @returns Number of messages delivered
+ */
+export async function sendDueScheduledMessages(
+  scheduledMessageModel: ScheduledMessageModel = new ScheduledMessageModel(),
+  messagingController: MessagingController = new MessagingController(),
+  now: Date = new Date()
+): Promise<number> {
+  const dueMessages = await scheduledMessageModel.findDue(now);
+  let delivered = 0;
+
+  for (const scheduled of dueMessages) {
+    const message = await messagingController.deliverScheduledMessage(scheduled);
+    if (message) {
+      delivered++;
+    } else {
+      console.warn(`Scheduled message ${scheduled.id} could not be delivered`);
+    }
+  }
+
+  return delivered;
+}
+
+export const scheduledMessageJob: ScheduledJob = {
+  name: 'scheduled-messages',
+  intervalMs: CHECK_INTERVAL_MS,
+  run: async () => {
+    const count = await sendDueScheduledMessages();
+    if (count > 0) {
+      console.log(`Delivered ${count} scheduled message(s)`);
+    }
+  },
+};
@@ -0,0 +1,71 @@
+import { TourModel } from '../database/models/Tour';
+import { NotificationService, notificationService } from '../services/NotificationService';
+import { buildTourCalendarInvite } from '../services/calendar/tourCalendar';
+import { ScheduledJob } from './JobScheduler';
+
+// Reminders go out roughly a day ahead, matching the "Tour Tomorrow" email
+const REMINDER_LEAD_TIME_MS = 24 * 60 * 60 * 1000;
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Send reminders for confirmed tours starting within the lead time
+ * Both the tenant and the landlord get an email with the tour attached as .ics
+ *
+ * @returns Number of tours reminded
+ */
+export async function sendDueTourReminders(
+  tourModel: TourModel = new TourModel(),
+  notifications: NotificationService = notificationService,
+  now: Date = new Date()
+): Promise<number> {
+  const dueTours = await tourModel.findDueForReminder(
+    now,
+    new Date(now.getTime() + REMINDER_LEAD_TIME_MS)
+  );
+
+  for (const tour of dueTours) {
+    const calendarInvite = buildTourCalendarInvite(tour);
+    const propertyAddress = [tour.property_address, tour.property_city, tour.property_state]
+      .filter(Boolean)
+      .join(', ');
+    const tourDate = new Date(tour.scheduled_at as Date);
+
+    // Mark first so a slow email provider can't cause duplicate reminders on the next tick
+    await tourModel.markReminderSent(tour.id);
+
+    await Promise.all([
+      notifications.sendTourReminderNotification(
+        tour.tenant_user_id,
+        tour.property_title,
+        propertyAddress,
+        tourDate,
+        tour.landlord_name || tour.landlord_email,
+        calendarInvite
+      ),
+      notifications.sendTourReminderNotification(
+        tour.landlord_user_id,
+        tour.property_title,
+        propertyAddress,
+        tourDate,
+        tour.tenant_name || tour.tenant_email,
+        calendarInvite
+      ),
+    ]);
+  }
+
+  // Tours that have finished no longer need attention
+  await tourModel.completePastTours(now);
+
+  return dueTours.length;
+}
+
+export const tourReminderJob: ScheduledJob = {
+  name: 'tour-reminders',
+  intervalMs: CHECK_INTERVAL_MS,
+  run: async () => {
+    const count = await sendDueTourReminders();
+    if (count > 0) {
+      console.log(`Sent tour reminders for ${count} tour(s)`);
+    }
+  },
+};
@@ -1,10 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { subscriptionService } from '../services/SubscriptionService';
-import { SubscriptionTier } from '../types';
+import { quotaService } from '../services/QuotaService';
+import { SubscriptionLimitType, SubscriptionTier } from '../types';
 
 interface AuthenticatedRequest extends Request {
   user?: {
-    id: string;
+    userId: string;
     email: string;
     role: string;
   };
@@ -17,7 +18,7 @@ interface AuthenticatedRequest extends Request {
  * Middleware to enforce subscription tier requirements for routes.
  * Features:
  * - Tier-based access control
- * - Feature limit checking
+ * - Feature limit checking and plan quota enforcement
  * - Graceful handling when Stripe is not configured
  */
 export class SubscriptionGuardMiddleware {
@@ -28,7 +29,7 @@ export class SubscriptionGuardMiddleware {
   requireTier(requiredTier: SubscriptionTier) {
     return async (req: Request, res: Response, next: NextFunction) => {
       const authReq = req as AuthenticatedRequest;
-      const userId = authReq.user?.id;
+      const userId = authReq.user?.userId;
 
       if (!userId) {
         return res.status(401).json({
@@ -71,7 +72,7 @@ export class SubscriptionGuardMiddleware {
   attachTier() {
     return async (req: Request, _res: Response, next: NextFunction) => {
       const authReq = req as AuthenticatedRequest;
-      const userId = authReq.user?.id;
+      const userId = authReq.user?.userId;
 
       if (userId) {
         try {
@@ -90,14 +91,17 @@ export class SubscriptionGuardMiddleware {
    * Check if user has reached a specific limit
    * @param limitType - The type of limit to check (locations, qfps, team_members)
    * @param getCurrentCount - Function to get current usage count
+   * @param resolveAccountUserId - Optional lookup of the user whose plan applies
+   *   (e.g. the business owner when a team member acts on their behalf)
    */
   checkLimit(
-    limitType: 'locations' | 'qfps' | 'team_members',
-    getCurrentCount: (userId: string) => Promise<number>
+    limitType: SubscriptionLimitType,
+    getCurrentCount: (userId: string) => Promise<number>,
+    resolveAccountUserId?: (req: Request) => Promise<string | null>
   ) {
     return async (req: Request, res: Response, next: NextFunction) => {
       const authReq = req as AuthenticatedRequest;
-      const userId = authReq.user?.id;
+      const userId = authReq.user?.userId;
 
       if (!userId) {
         return res.status(401).json({
@@ -107,8 +111,8 @@ export class SubscriptionGuardMiddleware {
       }
 
       try {
-        const subscription = await subscriptionService.getUserSubscription(userId);
-        const limits = subscription?.plan?.limits || { locations: 2, qfps: 3, team_members: 1 };
+        const accountUserId = (resolveAccountUserId && (await resolveAccountUserId(req))) || userId;
+        const { tier, limits } = await quotaService.getLimits(accountUserId);
         const limit = limits[limitType];
 
         // -1 means unlimited
@@ -116,22 +120,26 @@ export class SubscriptionGuardMiddleware {
           return next();
         }
 
-        const currentCount = await getCurrentCount(userId);
+        const currentCount = await getCurrentCount(accountUserId);
 
         if (currentCount >= limit) {
-          const userTier = await subscriptionService.getUserTier(userId);
+          const upgradeTier = await quotaService.getUpgradeTier(tier, limitType, currentCount);
           return res.status(403).json({
             success: false,
             error: `You have reached your ${limitType.replace('_', ' ')} limit`,
             details: {
-              currentTier: userTier,
+              code: 'LIMIT_REACHED',
+              limitType,
+              currentTier: tier,
               limit,
               currentCount,
+              upgradeTier,
               upgradeUrl: '/settings?tab=subscription',
             },
           });
         }
 
+        authReq.subscriptionTier = tier;
         next();
       } catch (error) {
         console.error('Error checking limit:', error);
@@ -140,6 +148,23 @@ export class SubscriptionGuardMiddleware {
       }
     };
   }
+
+  /**
+   * Enforce a plan quota using the built-in usage counters
+   * Place after an authentication guard on create routes
+   * @param limitType - The quota being consumed by the request
+   * @param resolveAccountUserId - Optional lookup of the user whose plan applies
+   */
+  enforceQuota(
+    limitType: SubscriptionLimitType,
+    resolveAccountUserId?: (req: Request) => Promise<string | null>
+  ) {
+    return this.checkLimit(
+      limitType,
+      (userId) => quotaService.countUsage(userId, limitType),
+      resolveAccountUserId
+    );
+  }
 }
 
 // Tier constants for easy reference
@@ -171,4 +171,32 @@ export class RoleGuardMiddleware {
       }
     };
   }
+
+  /**
+   * Attach the user when a valid token is sent, but let anonymous requests
+   * through. A missing, invalid or expired token is treated as anonymous
+   */
+  optionalAuthenticate() {
+    return (req: Request, _res: Response, next: NextFunction) => {
+      // Extract token from cookie first, fall back to Authorization header
+      let accessToken = (req as any).cookies?.accessToken;
+
+      if (!accessToken) {
+        const authHeader = req.headers.authorization;
+        accessToken = this.jwtService.extractTokenFromHeader(authHeader);
+      }
+
+      const payload = accessToken ? this.jwtService.verifyAccessToken(accessToken) : null;
+
+      if (payload) {
+        (req as any).user = {
+          userId: payload.userId,
+          email: payload.email,
+          role: payload.role,
+        };
+      }
+
+      next();
+    };
+  }
 }
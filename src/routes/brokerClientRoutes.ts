@@ -0,0 +1,520 @@
+import { Router, Request, Response } from 'express';
+import { BrokerClientController } from '../controllers/BrokerClientController';
+import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { subscriptionGuard } from '../middleware/SubscriptionGuardMiddleware';
+
+const router = Router();
+const brokerClientController = new BrokerClientController();
+const roleGuard = new RoleGuardMiddleware();
+
+/**
+ * Extended Request interface with authenticated user data
+ */
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+const unauthorized = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'User ID not found in token',
+    },
+  });
+
+/**
+ * Map broker client errors to HTTP responses
+ */
+const handleBrokerClientError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * GET /api/broker-clients
+ * List the broker's client roster (all statuses, open relationships first)
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: BrokerClientWithDetails[]
+ * }
+ */
+router.get(
+  '/',
+  roleGuard.requireBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const clients = await brokerClientController.listClients(userId);
+
+      res.status(200).json({
+        success: true,
+        data: clients,
+      });
+    } catch (error: any) {
+      console.error('List broker clients error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while fetching clients');
+    }
+  }
+);
+
+/**
+ * POST /api/broker-clients
+ * Ask a client for consent to represent them
+ *
+ * Request body:
+ * {
+ *   client_type: 'tenant' | 'landlord',
+ *   business_id?: string,    // required for tenant clients
+ *   client_email?: string,   // required for landlord clients
+ *   message?: string
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: BrokerClientWithDetails   // status 'pending'
+ * }
+ *
+ * Errors:
+ * - 400: Validation error or an open request already exists
+ * - 404: Business or landlord not found
+ */
+router.post(
+  '/',
+  roleGuard.requireBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const { client_type, business_id, client_email, message } = req.body;
+      const brokerClient = await brokerClientController.requestRepresentation(userId, {
+        client_type,
+        business_id,
+        client_email,
+        message,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: brokerClient,
+      });
+    } catch (error: any) {
+      console.error('Request representation error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while requesting representation');
+    }
+  }
+);
+
+/**
+ * GET /api/broker-clients/representations
+ * List pending requests and active brokers for the authenticated user as a
+ * client (as a landlord, or as the owner of a business)
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: BrokerClientWithDetails[]
+ * }
+ */
+router.get(
+  '/representations',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const representations = await brokerClientController.listRepresentations(userId);
+
+      res.status(200).json({
+        success: true,
+        data: representations,
+      });
+    } catch (error: any) {
+      console.error('List representations error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while fetching brokers');
+    }
+  }
+);
+
+/**
+ * POST /api/broker-clients/:id/consent
+ * Grant a pending request; the broker can then act on the client's behalf
+ * Only the landlord or the business owner can grant consent
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: BrokerClientWithDetails   // status 'active'
+ * }
+ */
+router.post(
+  '/:id/consent',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const brokerClient = await brokerClientController.respondToRequest(req.params.id, userId, true);
+
+      res.status(200).json({
+        success: true,
+        data: brokerClient,
+      });
+    } catch (error: any) {
+      console.error('Grant broker consent error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while granting consent');
+    }
+  }
+);
+
+/**
+ * POST /api/broker-clients/:id/decline
+ * Decline a pending request
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: BrokerClientWithDetails   // status 'declined'
+ * }
+ */
+router.post(
+  '/:id/decline',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const brokerClient = await brokerClientController.respondToRequest(req.params.id, userId, false);
+
+      res.status(200).json({
+        success: true,
+        data: brokerClient,
+      });
+    } catch (error: any) {
+      console.error('Decline broker request error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while declining the request');
+    }
+  }
+);
+
+/**
+ * POST /api/broker-clients/:id/revoke
+ * End a representation: the client withdraws consent, or the broker
+ * withdraws a request or stops representing the client
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: BrokerClientWithDetails   // status 'revoked'
+ * }
+ */
+router.post(
+  '/:id/revoke',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const brokerClient = await brokerClientController.revoke(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: brokerClient,
+      });
+    } catch (error: any) {
+      console.error('Revoke broker representation error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while ending the representation');
+    }
+  }
+);
+
+/**
+ * GET /api/broker-clients/:id/audit
+ * Audit trail of consent changes and actions the broker took for the client
+ * Visible to the broker and the client
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: BrokerClientAuditEntry[]   // newest first
+ * }
+ */
+router.get(
+  '/:id/audit',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const entries = await brokerClientController.getAuditLog(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: entries,
+      });
+    } catch (error: any) {
+      console.error('Get broker audit log error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while fetching the audit trail');
+    }
+  }
+);
+
+/**
+ * GET /api/broker-clients/:id/listings
+ * The client's listings the broker can manage
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: {
+ *     demandListings: DemandListing[],     // tenant clients
+ *     propertyListings: PropertyListing[]  // landlord clients
+ *   }
+ * }
+ */
+router.get(
+  '/:id/listings',
+  roleGuard.requireBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const listings = await brokerClientController.listClientListings(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: listings,
+      });
+    } catch (error: any) {
+      console.error('List client listings error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while fetching client listings');
+    }
+  }
+);
+
+/**
+ * POST /api/broker-clients/:id/demand-listings
+ * Create a demand listing for a tenant client's business
+ * Counts against the business owner's QFP quota once the client has consented
+ *
+ * Request body: same fields as POST /api/demand-listings, without business_id
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: DemandListing
+ * }
+ */
+router.post(
+  '/:id/demand-listings',
+  roleGuard.requireBroker(),
+  subscriptionGuard.enforceQuota('qfps', (req) =>
+    brokerClientController.getClientAccountUserId(req.params.id, (req as AuthenticatedRequest).user?.userId)
+  ),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const listing = await brokerClientController.createDemandListing(req.params.id, userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: listing,
+      });
+    } catch (error: any) {
+      console.error('Create client demand listing error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while creating the demand listing');
+    }
+  }
+);
+
+/**
+ * PUT /api/broker-clients/:id/demand-listings/:listingId
+ * Update one of a tenant client's demand listings
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: DemandListing
+ * }
+ */
+router.put(
+  '/:id/demand-listings/:listingId',
+  roleGuard.requireBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const listing = await brokerClientController.updateDemandListing(
+        req.params.id,
+        userId,
+        req.params.listingId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        data: listing,
+      });
+    } catch (error: any) {
+      console.error('Update client demand listing error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while updating the demand listing');
+    }
+  }
+);
+
+/**
+ * PUT /api/broker-clients/:id/property-listings/:listingId
+ * Update one of a landlord client's property listings
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: PropertyListing
+ * }
+ */
+router.put(
+  '/:id/property-listings/:listingId',
+  roleGuard.requireBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const listing = await brokerClientController.updatePropertyListing(
+        req.params.id,
+        userId,
+        req.params.listingId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        data: listing,
+      });
+    } catch (error: any) {
+      console.error('Update client property listing error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while updating the property listing');
+    }
+  }
+);
+
+/**
+ * PATCH /api/broker-clients/:id/property-listings/:listingId/status
+ * Change the status of one of a landlord client's property listings
+ *
+ * Request body:
+ * {
+ *   status: 'active' | 'pending' | 'leased' | 'off_market'
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: PropertyListing
+ * }
+ */
+router.patch(
+  '/:id/property-listings/:listingId/status',
+  roleGuard.requireBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const listing = await brokerClientController.updatePropertyListingStatus(
+        req.params.id,
+        userId,
+        req.params.listingId,
+        req.body.status
+      );
+
+      res.status(200).json({
+        success: true,
+        data: listing,
+      });
+    } catch (error: any) {
+      console.error('Update client listing status error:', error);
+      handleBrokerClientError(res, error, 'An error occurred while updating the listing status');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,233 @@
+import { Router, Request, Response } from 'express';
+import { BusinessTeamController } from '../controllers/BusinessTeamController';
+import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+
+const router = Router();
+const businessTeamController = new BusinessTeamController();
+const roleGuard = new RoleGuardMiddleware();
+
+/**
+ * Extended Request interface with authenticated user data
+ */
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+/**
+ * Map invite errors to HTTP responses
+ * Invites are only visible to the address they were sent to
+ */
+const handleInviteError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message === 'Invite not found' || error.message === 'Business not found') {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'This invite was sent to a different email address',
+      },
+    });
+  }
+
+  if (error.message.includes('expired')) {
+    return res.status(410).json({
+      success: false,
+      error: {
+        code: 'INVITE_EXPIRED',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('already been')) {
+    return res.status(409).json({
+      success: false,
+      error: {
+        code: 'INVITE_ALREADY_ANSWERED',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * GET /api/invites/:token
+ * Preview a business invite from an email link
+ *
+ * Path parameters:
+ * - token: Invite token
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: {
+ *     invite: BusinessInvite,
+ *     business: { id, name, logo_url, category }
+ *   }
+ * }
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Invite was sent to a different email address
+ * - 404: Invite not found
+ * - 500: Internal server error
+ */
+router.get(
+  '/:token',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const email = req.user?.email;
+
+      if (!email) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User email not found in token',
+          },
+        });
+      }
+
+      const result = await businessTeamController.getInvite(req.params.token, email);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Get business invite error:', error);
+      handleInviteError(res, error, 'An error occurred while fetching the invite');
+    }
+  }
+);
+
+/**
+ * POST /api/invites/:token/accept
+ * Accept a business invite and join the team
+ *
+ * Path parameters:
+ * - token: Invite token
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: {
+ *     member: BusinessMember
+ *   }
+ * }
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Invite was sent to a different email address
+ * - 404: Invite not found
+ * - 409: Invite already accepted or declined
+ * - 410: Invite expired
+ * - 500: Internal server error
+ */
+router.post(
+  '/:token/accept',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const email = req.user?.email;
+
+      if (!userId || !email) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const member = await businessTeamController.acceptInvite(req.params.token, userId, email);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          member,
+        },
+      });
+    } catch (error: any) {
+      console.error('Accept business invite error:', error);
+      handleInviteError(res, error, 'An error occurred while accepting the invite');
+    }
+  }
+);
+
+/**
+ * POST /api/invites/:token/decline
+ * Decline a business invite
+ *
+ * Path parameters:
+ * - token: Invite token
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   message: 'Invite declined'
+ * }
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Invite was sent to a different email address
+ * - 404: Invite not found
+ * - 409: Invite already accepted or declined
+ * - 410: Invite expired
+ * - 500: Internal server error
+ */
+router.post(
+  '/:token/decline',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const email = req.user?.email;
+
+      if (!email) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User email not found in token',
+          },
+        });
+      }
+
+      await businessTeamController.declineInvite(req.params.token, email);
+
+      res.status(200).json({
+        success: true,
+        message: 'Invite declined',
+      });
+    } catch (error: any) {
+      console.error('Decline business invite error:', error);
+      handleInviteError(res, error, 'An error occurred while declining the invite');
+    }
+  }
+);
+
+export default router;
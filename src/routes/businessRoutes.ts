@@ -1,10 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { BusinessController } from '../controllers/BusinessController';
+import { BusinessTeamController } from '../controllers/BusinessTeamController';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
-import { UserRole, BusinessStatus } from '../types';
+import { subscriptionGuard } from '../middleware/SubscriptionGuardMiddleware';
+import { quotaService } from '../services/QuotaService';
+import { UserRole, BusinessStatus, BusinessMemberRole } from '../types';
 
 const router = Router();
 const businessController = new BusinessController();
+const businessTeamController = new BusinessTeamController();
 const roleGuard = new RoleGuardMiddleware();
 
 /**
@@ -41,12 +45,13 @@ interface AuthenticatedRequest extends Request {
  * Errors:
  * - 400: Validation error (missing required fields)
  * - 401: Unauthorized (no token or invalid token)
- * - 403: Forbidden (non-tenant role)
+ * - 403: Forbidden (non-tenant role) or plan location limit reached
  * - 500: Internal server error
  */
 router.post(
   '/',
   roleGuard.requireTenant(),
+  subscriptionGuard.enforceQuota('locations'),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -103,7 +108,7 @@ router.post(
 
 /**
  * GET /api/businesses
- * List businesses for authenticated tenant user
+ * List businesses the authenticated tenant owns or is a team member of
  *
  * Query parameters:
  * - page: number (default: 1)
@@ -115,7 +120,7 @@ router.post(
  * {
  *   success: true,
  *   data: {
- *     businesses: Business[],
+ *     businesses: (Business & { member_role: 'owner' | 'admin' | 'viewer' })[],
  *     total: number,
  *     page: number,
  *     limit: number,
@@ -199,6 +204,7 @@ router.get(
  *   success: true,
  *   data: {
  *     business: Business,
+ *     role: 'owner' | 'admin' | 'viewer',
  *     demandListings: DemandListing[],
  *     listingsCount: number,
  *     statesCount: number,
@@ -208,13 +214,13 @@ router.get(
  *
  * Errors:
  * - 401: Unauthorized
- * - 403: Forbidden (user doesn't own the business)
+ * - 403: Forbidden (user is not a member of the business)
  * - 404: Business not found
  * - 500: Internal server error
  */
 router.get(
   '/:id',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -286,13 +292,13 @@ router.get(
  *
  * Errors:
  * - 401: Unauthorized
- * - 403: Forbidden (user doesn't own the business)
+ * - 403: Forbidden (user is not a member of the business)
  * - 404: Business not found
  * - 500: Internal server error
  */
 router.get(
   '/:id/demand-listings',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -372,13 +378,13 @@ router.get(
  *
  * Errors:
  * - 401: Unauthorized
- * - 403: Forbidden (user doesn't own the business)
+ * - 403: Forbidden (user is not a member of the business)
  * - 404: Business or location not found
  * - 500: Internal server error
  */
 router.get(
   '/:id/locations/:locationId/metrics',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -466,7 +472,7 @@ router.get(
  */
 router.get(
   '/:id/metrics',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -539,7 +545,10 @@ router.get(
  *   duration_type?: string,
  *   start_date?: string,
  *   industry?: string,
- *   asset_type: string (required)
+ *   asset_type: string (required),
+ *   latitude?: number,
+ *   longitude?: number,
+ *   search_radius_miles?: number (defaults to 25)
  * }
  *
  * Response (201):
@@ -551,15 +560,16 @@ router.get(
  * }
  *
  * Errors:
- * - 400: Validation error (missing required fields)
+ * - 400: Validation error (missing required fields, or an out-of-range location or search radius)
  * - 401: Unauthorized
- * - 403: Forbidden (user doesn't own the business)
+ * - 403: Forbidden (user is not an admin of the business) or plan QFP limit reached
  * - 404: Business not found
  * - 500: Internal server error
  */
 router.post(
   '/:id/demand-listings',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
+  subscriptionGuard.enforceQuota('qfps', (req) => quotaService.getBusinessOwnerId(req.params.id)),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -594,6 +604,9 @@ router.post(
         is_corporate_location,
         additional_features,
         stealth_mode,
+        latitude,
+        longitude,
+        search_radius_miles,
       } = req.body;
 
       // Create demand listing
@@ -617,6 +630,9 @@ router.post(
         is_corporate_location,
         additional_features,
         stealth_mode,
+        latitude,
+        longitude,
+        search_radius_miles,
       });
 
       res.status(201).json({
@@ -645,7 +661,7 @@ router.post(
         });
       }
 
-      if (error.message.includes('required')) {
+      if (error.message.includes('required') || error.message.startsWith('Invalid')) {
         return res.status(400).json({
           success: false,
           error: {
@@ -691,13 +707,13 @@ router.post(
  *
  * Errors:
  * - 401: Unauthorized
- * - 403: Forbidden (user doesn't own the business)
+ * - 403: Forbidden (user is not an admin of the business)
  * - 404: Business not found
  * - 500: Internal server error
  */
 router.put(
   '/:id',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -784,7 +800,7 @@ router.put(
  */
 router.delete(
   '/:id',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -841,4 +857,487 @@ router.delete(
   }
 );
 
+/**
+ * GET /api/businesses/:id/members
+ * List team members and pending invites for a business
+ *
+ * Path parameters:
+ * - id: Business UUID
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: {
+ *     members: BusinessMember[] (with email, first_name, last_name, photo_url),
+ *     invites: BusinessInvite[] (pending only)
+ *   }
+ * }
+ *
+ * Errors:
+ * - 401: Unauthorized
+ * - 403: Forbidden (user is not a member of the business)
+ * - 404: Business not found
+ * - 500: Internal server error
+ */
+router.get(
+  '/:id/members',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const businessId = req.params.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const result = await businessTeamController.listTeam(businessId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('List business members error:', error);
+
+      if (error.message === 'Business not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to view this team',
+          },
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while fetching team members',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/businesses/:id/invites
+ * Invite a user to the business team by email
+ *
+ * Path parameters:
+ * - id: Business UUID
+ *
+ * Request body:
+ * {
+ *   email: string (required),
+ *   role?: 'admin' | 'viewer' (default: 'viewer')
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: {
+ *     invite: BusinessInvite
+ *   }
+ * }
+ *
+ * Errors:
+ * - 400: Validation error (missing email or invalid role)
+ * - 401: Unauthorized
+ * - 403: Forbidden (user is not an admin of the business) or plan team member limit reached
+ * - 404: Business not found
+ * - 409: User is already a member
+ * - 500: Internal server error
+ */
+router.post(
+  '/:id/invites',
+  roleGuard.authenticate(),
+  subscriptionGuard.enforceQuota('team_members', (req) =>
+    quotaService.getBusinessOwnerId(req.params.id)
+  ),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const businessId = req.params.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const { email, role } = req.body;
+
+      const invite = await businessTeamController.inviteMember(businessId, userId, {
+        email,
+        role,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          invite,
+        },
+      });
+    } catch (error: any) {
+      console.error('Invite business member error:', error);
+
+      if (error.message === 'Business not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to invite members to this business',
+          },
+        });
+      }
+
+      if (error.message.includes('already a member')) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'ALREADY_MEMBER',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('required') || error.message.includes('Invalid')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while sending the invite',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/businesses/:id/invites/:inviteId
+ * Revoke a pending invite
+ *
+ * Path parameters:
+ * - id: Business UUID
+ * - inviteId: Invite UUID
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   message: 'Invite revoked successfully'
+ * }
+ *
+ * Errors:
+ * - 400: Invite has already been answered
+ * - 401: Unauthorized
+ * - 403: Forbidden (user is not an admin of the business)
+ * - 404: Business or invite not found
+ * - 500: Internal server error
+ */
+router.delete(
+  '/:id/invites/:inviteId',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const businessId = req.params.id;
+      const inviteId = req.params.inviteId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      await businessTeamController.revokeInvite(businessId, inviteId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Invite revoked successfully',
+      });
+    } catch (error: any) {
+      console.error('Revoke business invite error:', error);
+
+      if (error.message.includes('not found')) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to revoke invites for this business',
+          },
+        });
+      }
+
+      if (error.message.includes('already been')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while revoking the invite',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /api/businesses/:id/members/:userId
+ * Change a team member's role (owner only)
+ *
+ * Path parameters:
+ * - id: Business UUID
+ * - userId: Member's user UUID
+ *
+ * Request body:
+ * {
+ *   role: 'admin' | 'viewer' (required)
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: {
+ *     member: BusinessMember
+ *   }
+ * }
+ *
+ * Errors:
+ * - 400: Validation error (invalid role, or changing the owner)
+ * - 401: Unauthorized
+ * - 403: Forbidden (user doesn't own the business)
+ * - 404: Business or member not found
+ * - 500: Internal server error
+ */
+router.patch(
+  '/:id/members/:userId',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const businessId = req.params.id;
+      const memberUserId = req.params.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const role = req.body.role as BusinessMemberRole;
+
+      const member = await businessTeamController.updateMemberRole(
+        businessId,
+        memberUserId,
+        userId,
+        role
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          member,
+        },
+      });
+    } catch (error: any) {
+      console.error('Update business member error:', error);
+
+      if (error.message.includes('not found')) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the business owner can change member roles',
+          },
+        });
+      }
+
+      if (error.message.includes('Invalid')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while updating the member',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/businesses/:id/members/:userId
+ * Remove a team member, or leave the team when removing yourself
+ *
+ * Path parameters:
+ * - id: Business UUID
+ * - userId: Member's user UUID
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   message: 'Member removed successfully'
+ * }
+ *
+ * Errors:
+ * - 400: The owner cannot be removed
+ * - 401: Unauthorized
+ * - 403: Forbidden (insufficient role to remove this member)
+ * - 404: Business or member not found
+ * - 500: Internal server error
+ */
+router.delete(
+  '/:id/members/:userId',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const businessId = req.params.id;
+      const memberUserId = req.params.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      await businessTeamController.removeMember(businessId, memberUserId, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully',
+      });
+    } catch (error: any) {
+      console.error('Remove business member error:', error);
+
+      if (error.message.includes('not found')) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('Unauthorized')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to remove this member',
+          },
+        });
+      }
+
+      if (error.message.includes('Invalid')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while removing the member',
+        },
+      });
+    }
+  }
+);
+
 export default router;
@@ -2,12 +2,14 @@ import { Router, Request, Response } from 'express';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
 import { ProfileCompletionGuard } from '../middleware/ProfileCompletionGuard';
 import { DashboardController } from '../controllers/DashboardController';
+import { BrokerClientController } from '../controllers/BrokerClientController';
 import { UserRole } from '../types';
 
 const router = Router();
 const roleGuard = new RoleGuardMiddleware();
 const profileGuard = new ProfileCompletionGuard();
 const dashboardController = new DashboardController();
+const brokerClientController = new BrokerClientController();
 
 /**
  * Extended Request interface with authenticated user data
@@ -206,53 +208,61 @@ router.get(
 
 /**
  * GET /api/dashboard/broker
- * Get broker dashboard data
+ * Get broker dashboard data across the broker's consenting clients
  *
  * Request headers:
  * - Authorization: Bearer <accessToken>
  *
  * Response (200):
  * {
- *   dashboard: {
- *     role: 'broker',
- *     features: string[],
- *     redirectPath: '/dashboard/broker'
+ *   success: true,
+ *   data: {
+ *     kpis: {
+ *       activeClients: number,
+ *       pendingRequests: number,
+ *       activeMatches: number,
+ *       activeConversations: number,  // messages in the last 30 days
+ *       openDeals: number
+ *     },
+ *     clients: BrokerClientWithDetails[],
+ *     matches: BrokerClientMatch[],
+ *     conversations: BrokerClientConversation[],
+ *     deals: BrokerClientDeal[]
  *   }
  * }
  *
  * Errors:
  * - 401: Unauthorized
  * - 403: Forbidden (wrong role)
+ * - 500: Internal server error
  */
 router.get(
   '/broker',
   roleGuard.requireBroker(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const user = req.user;
+      const userId = req.user?.userId;
 
-      res.status(200).json({
-        dashboard: {
-          role: UserRole.BROKER,
-          user: {
-            id: user?.userId,
-            email: user?.email,
-            role: user?.role,
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
           },
-          features: [
-            'represent_tenants',
-            'represent_landlords',
-            'dual_mode_access',
-            'manage_broker_profile',
-            'view_all_listings',
-          ],
-          redirectPath: '/dashboard/broker',
-          welcomeMessage: 'Welcome to your Broker Dashboard',
-        },
+        });
+      }
+
+      const dashboardData = await brokerClientController.getDashboard(userId);
+
+      res.status(200).json({
+        success: true,
+        data: dashboardData,
       });
     } catch (error: any) {
       console.error('Broker dashboard error:', error);
       res.status(500).json({
+        success: false,
         error: {
           code: 'INTERNAL_ERROR',
           message: 'An error occurred loading dashboard',
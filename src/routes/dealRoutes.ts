@@ -0,0 +1,312 @@
+import { Router, Request, Response } from 'express';
+import { DealController } from '../controllers/DealController';
+import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { subscriptionGuard, FEATURE_TIERS } from '../middleware/SubscriptionGuardMiddleware';
+
+const router = Router();
+const dealController = new DealController();
+const roleGuard = new RoleGuardMiddleware();
+
+/**
+ * Extended Request interface with authenticated user data
+ */
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+const unauthorized = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'User ID not found in token',
+    },
+  });
+
+/**
+ * Map deal errors to HTTP responses
+ */
+const handleDealError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * GET /api/deals
+ * List the authenticated user's deal pipeline
+ * Not tier-gated so users who downgrade can still review and delete deals
+ *
+ * Query parameters:
+ * - stage: Only deals in this stage (optional)
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: DealWithDetails[]   // ordered by stage, then board position
+ * }
+ */
+router.get(
+  '/',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const deals = await dealController.listDeals(userId, {
+        stage: req.query.stage as string | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: deals,
+      });
+    } catch (error: any) {
+      console.error('List deals error:', error);
+      handleDealError(res, error, 'An error occurred while fetching deals');
+    }
+  }
+);
+
+/**
+ * GET /api/deals/:id
+ * Get a deal with listing details and stage history
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: DealWithDetails
+ * }
+ *
+ * Errors:
+ * - 403: Deal is not on your pipeline
+ * - 404: Deal not found
+ */
+router.get(
+  '/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const deal = await dealController.getDeal(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: deal,
+      });
+    } catch (error: any) {
+      console.error('Get deal error:', error);
+      handleDealError(res, error, 'An error occurred while fetching the deal');
+    }
+  }
+);
+
+/**
+ * POST /api/deals
+ * Add a deal to the pipeline (Pro feature)
+ *
+ * Request body (either a match or both listing IDs):
+ * {
+ *   property_match_id?: string,
+ *   demand_listing_id?: string,
+ *   property_listing_id?: string,
+ *   notes?: string,
+ *   expected_close_date?: string   // YYYY-MM-DD
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: Deal   // starts in the Prospect stage
+ * }
+ *
+ * Errors:
+ * - 400: Validation error or deal already tracked
+ * - 403: Not your property or tenant business, or subscription upgrade required
+ * - 404: Match or listing not found
+ */
+router.post(
+  '/',
+  roleGuard.authenticate(),
+  subscriptionGuard.requireTier(FEATURE_TIERS.KANBAN_PIPELINE),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const deal = await dealController.createDeal(userId, req.body || {});
+
+      res.status(201).json({
+        success: true,
+        data: deal,
+      });
+    } catch (error: any) {
+      console.error('Create deal error:', error);
+      handleDealError(res, error, 'An error occurred while creating the deal');
+    }
+  }
+);
+
+/**
+ * PATCH /api/deals/:id
+ * Update deal notes and expected close date (Pro feature)
+ *
+ * Request body:
+ * {
+ *   notes?: string | null,
+ *   expected_close_date?: string | null   // YYYY-MM-DD
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: Deal
+ * }
+ */
+router.patch(
+  '/:id',
+  roleGuard.authenticate(),
+  subscriptionGuard.requireTier(FEATURE_TIERS.KANBAN_PIPELINE),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const deal = await dealController.updateDeal(req.params.id, userId, req.body || {});
+
+      res.status(200).json({
+        success: true,
+        data: deal,
+      });
+    } catch (error: any) {
+      console.error('Update deal error:', error);
+      handleDealError(res, error, 'An error occurred while updating the deal');
+    }
+  }
+);
+
+/**
+ * POST /api/deals/:id/move
+ * Move a deal on the board (Pro feature)
+ * Moving to "signed" marks the property leased and the demand listing closed
+ *
+ * Request body:
+ * {
+ *   stage: 'prospect' | 'touring' | 'loi' | 'lease_negotiation' | 'signed' | 'lost',
+ *   position?: number,   // index within the column; defaults to the bottom
+ *   note?: string        // recorded in the stage history
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: Deal
+ * }
+ */
+router.post(
+  '/:id/move',
+  roleGuard.authenticate(),
+  subscriptionGuard.requireTier(FEATURE_TIERS.KANBAN_PIPELINE),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const deal = await dealController.moveDeal(req.params.id, userId, req.body || {});
+
+      res.status(200).json({
+        success: true,
+        data: deal,
+      });
+    } catch (error: any) {
+      console.error('Move deal error:', error);
+      handleDealError(res, error, 'An error occurred while moving the deal');
+    }
+  }
+);
+
+/**
+ * DELETE /api/deals/:id
+ * Remove a deal from the pipeline
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   message: 'Deal deleted successfully'
+ * }
+ */
+router.delete(
+  '/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      await dealController.deleteDeal(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Deal deleted successfully',
+      });
+    } catch (error: any) {
+      console.error('Delete deal error:', error);
+      handleDealError(res, error, 'An error occurred while deleting the deal');
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { BusinessController } from '../controllers/BusinessController';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { subscriptionGuard } from '../middleware/SubscriptionGuardMiddleware';
+import { quotaService } from '../services/QuotaService';
 
 const router = Router();
 const businessController = new BusinessController();
@@ -37,7 +39,10 @@ interface AuthenticatedRequest extends Request {
  *   duration_type?: string,
  *   start_date?: string,
  *   industry?: string,
- *   asset_type: string (required)
+ *   asset_type: string (required),
+ *   latitude?: number,
+ *   longitude?: number,
+ *   search_radius_miles?: number (defaults to 25)
  * }
  *
  * Response (201):
@@ -49,15 +54,18 @@ interface AuthenticatedRequest extends Request {
  * }
  *
  * Errors:
- * - 400: Validation error (missing required fields)
+ * - 400: Validation error (missing required fields, or an out-of-range location or search radius)
  * - 401: Unauthorized
- * - 403: Forbidden (user doesn't own the business)
+ * - 403: Forbidden (user is not an admin of the business) or plan QFP limit reached
  * - 404: Business not found
  * - 500: Internal server error
  */
 router.post(
   '/',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
+  subscriptionGuard.enforceQuota('qfps', (req) =>
+    quotaService.getBusinessOwnerId(req.body?.business_id)
+  ),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -92,6 +100,9 @@ router.post(
         is_corporate_location,
         additional_features,
         stealth_mode,
+        latitude,
+        longitude,
+        search_radius_miles,
       } = req.body;
 
       // Create demand listing
@@ -115,6 +126,9 @@ router.post(
         is_corporate_location,
         additional_features,
         stealth_mode,
+        latitude,
+        longitude,
+        search_radius_miles,
       });
 
       res.status(201).json({
@@ -143,7 +157,7 @@ router.post(
         });
       }
 
-      if (error.message.includes('required')) {
+      if (error.message.includes('required') || error.message.startsWith('Invalid')) {
         return res.status(400).json({
           success: false,
           error: {
@@ -170,7 +184,7 @@ router.post(
  */
 router.put(
   '/:id',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -205,6 +219,9 @@ router.put(
         is_corporate_location,
         additional_features,
         stealth_mode,
+        latitude,
+        longitude,
+        search_radius_miles,
       } = req.body;
 
       const demandListing = await businessController.updateDemandListing(listingId, userId, {
@@ -226,6 +243,9 @@ router.put(
         is_corporate_location,
         additional_features,
         stealth_mode,
+        latitude,
+        longitude,
+        search_radius_miles,
       });
 
       res.json({
@@ -257,6 +277,16 @@ router.put(
         });
       }
 
+      if (error.message.startsWith('Invalid')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
       res.status(500).json({
         success: false,
         error: {
@@ -274,7 +304,7 @@ router.put(
  */
 router.delete(
   '/:id',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -336,7 +366,7 @@ router.delete(
  */
 router.patch(
   '/:id/stealth',
-  roleGuard.requireTenant(),
+  roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
@@ -1,21 +1,98 @@
 import { Router, Request, Response } from 'express';
 import { marketInsightsService } from '../services/MarketInsightsService';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { MarketInsightsFilters, PropertyType } from '../types';
 
 const router = Router();
 const roleGuard = new RoleGuardMiddleware();
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FILTER_NAMES = ['state', 'city', 'propertyType', 'from', 'to'];
+
+const isValidDate = (value: string): boolean =>
+  DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+const sendInvalidFilter = (res: Response, message: string): void => {
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+    },
+  });
+};
+
+/**
+ * Parse the optional ?state=&city=&propertyType=&from=&to= filters
+ * Sends a 400 and returns null when a filter is invalid.
+ */
+const parseFilters = (req: Request, res: Response): MarketInsightsFilters | null => {
+  // A repeated parameter arrives as an array; reject it before reading any of them
+  const repeated = FILTER_NAMES.find((name) => req.query[name] !== undefined && typeof req.query[name] !== 'string');
+  if (repeated) {
+    sendInvalidFilter(res, `Invalid ${repeated}: give it only once`);
+    return null;
+  }
+
+  const { state, city, propertyType, from, to } = req.query as Record<string, string | undefined>;
+  const filters: MarketInsightsFilters = {};
+  let message: string | null = null;
+
+  if (state !== undefined) {
+    if (!/^[A-Za-z]{2}$/.test(state.trim())) {
+      message = 'Invalid state: use a two-letter state code';
+    }
+    filters.state = state.trim().toUpperCase();
+  }
+
+  if (city !== undefined && city.trim()) {
+    filters.city = city.trim();
+  }
+
+  if (propertyType !== undefined) {
+    if (!Object.values(PropertyType).includes(propertyType as PropertyType)) {
+      message = 'Invalid propertyType';
+    }
+    filters.propertyType = propertyType as PropertyType;
+  }
+
+  if (from !== undefined) {
+    if (!isValidDate(from)) message = 'Invalid from date: use YYYY-MM-DD';
+    filters.from = from;
+  }
+
+  if (to !== undefined) {
+    if (!isValidDate(to)) message = 'Invalid to date: use YYYY-MM-DD';
+    filters.to = to;
+  }
+
+  if (!message && filters.from && filters.to && filters.from > filters.to) {
+    message = 'Invalid date range: from must be on or before to';
+  }
+
+  if (message) {
+    sendInvalidFilter(res, message);
+    return null;
+  }
+
+  return filters;
+};
+
 /**
  * GET /api/market-insights
  * Get complete market insights data
  * Available to all authenticated users (all tiers)
+ * Optional filters: ?state=&city=&propertyType=&from=YYYY-MM-DD&to=YYYY-MM-DD
  */
 router.get(
   '/',
   roleGuard.authenticate(),
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
+    const filters = parseFilters(req, res);
+    if (!filters) return;
+
     try {
-      const insights = await marketInsightsService.getMarketInsights();
+      const insights = await marketInsightsService.getMarketInsights(filters);
 
       res.json({
         success: true,
@@ -41,9 +118,12 @@ router.get(
 router.get(
   '/overview',
   roleGuard.authenticate(),
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
+    const filters = parseFilters(req, res);
+    if (!filters) return;
+
     try {
-      const overview = await marketInsightsService.getMarketOverview();
+      const overview = await marketInsightsService.getMarketOverview(filters);
 
       res.json({
         success: true,
@@ -69,9 +149,12 @@ router.get(
 router.get(
   '/vacancy-trends',
   roleGuard.authenticate(),
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
+    const filters = parseFilters(req, res);
+    if (!filters) return;
+
     try {
-      const trends = await marketInsightsService.getVacancyTrends();
+      const trends = await marketInsightsService.getVacancyTrends(filters);
 
       res.json({
         success: true,
@@ -97,9 +180,12 @@ router.get(
 router.get(
   '/absorption',
   roleGuard.authenticate(),
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
+    const filters = parseFilters(req, res);
+    if (!filters) return;
+
     try {
-      const absorption = await marketInsightsService.getAbsorptionByType();
+      const absorption = await marketInsightsService.getAbsorptionByType(filters);
 
       res.json({
         success: true,
@@ -125,9 +211,12 @@ router.get(
 router.get(
   '/demand-by-industry',
   roleGuard.authenticate(),
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
+    const filters = parseFilters(req, res);
+    if (!filters) return;
+
     try {
-      const demand = await marketInsightsService.getDemandByIndustry();
+      const demand = await marketInsightsService.getDemandByIndustry(filters);
 
       res.json({
         success: true,
@@ -153,9 +242,12 @@ router.get(
 router.get(
   '/demand-by-state',
   roleGuard.authenticate(),
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
+    const filters = parseFilters(req, res);
+    if (!filters) return;
+
     try {
-      const demand = await marketInsightsService.getDemandByState();
+      const demand = await marketInsightsService.getDemandByState(filters);
 
       res.json({
         success: true,
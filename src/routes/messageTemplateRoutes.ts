@@ -0,0 +1,257 @@
+import { Router, Request, Response } from 'express';
+import { MessageTemplateController } from '../controllers/MessageTemplateController';
+import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+
+const router = Router();
+const messageTemplateController = new MessageTemplateController();
+const roleGuard = new RoleGuardMiddleware();
+
+/**
+ * Extended Request interface with authenticated user data
+ */
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+const unauthorized = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'User ID not found in token',
+    },
+  });
+
+/**
+ * Map message template errors to HTTP responses
+ */
+const handleMessageTemplateError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message === 'Message template not found' || error.message === 'Business not found') {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized') || error.message.includes('not a participant')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * GET /api/message-templates
+ * List the user's personal templates and their business teams' shared templates
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: MessageTemplate[]
+ * }
+ */
+router.get(
+  '/',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const templates = await messageTemplateController.listTemplates(userId);
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+      });
+    } catch (error: any) {
+      console.error('List message templates error:', error);
+      handleMessageTemplateError(res, error, 'An error occurred while fetching message templates');
+    }
+  }
+);
+
+/**
+ * POST /api/message-templates
+ * Create a template; with business_id it is shared with that business's team
+ *
+ * Request body:
+ * {
+ *   name: string,
+ *   content: string,          // may contain {{variables}} such as {{asking_price}}
+ *   business_id?: string      // requires admin access to the business
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: MessageTemplate
+ * }
+ *
+ * Errors:
+ * - 400: Validation error or unknown variable
+ * - 403: Not an admin of the business
+ */
+router.post(
+  '/',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const template = await messageTemplateController.createTemplate(userId, req.body || {});
+
+      res.status(201).json({
+        success: true,
+        data: template,
+      });
+    } catch (error: any) {
+      console.error('Create message template error:', error);
+      handleMessageTemplateError(res, error, 'An error occurred while saving the template');
+    }
+  }
+);
+
+/**
+ * POST /api/message-templates/:id/render
+ * Fill a template's variables from the conversation's property listing
+ *
+ * Request body: { conversation_id?: string }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { content, missing_variables }
+ * }
+ *
+ * Errors:
+ * - 403: Not a participant in the conversation, or not on the template's business team
+ * - 404: Template not found
+ */
+router.post(
+  '/:id/render',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const rendered = await messageTemplateController.renderTemplate(
+        req.params.id,
+        userId,
+        req.body?.conversation_id
+      );
+
+      res.status(200).json({
+        success: true,
+        data: rendered,
+      });
+    } catch (error: any) {
+      console.error('Render message template error:', error);
+      handleMessageTemplateError(res, error, 'An error occurred while rendering the template');
+    }
+  }
+);
+
+/**
+ * PUT /api/message-templates/:id
+ * Rename a template or change its content
+ *
+ * Request body: any of { name, content }
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 403: Not an admin of the template's business
+ * - 404: Template not found
+ */
+router.put(
+  '/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const template = await messageTemplateController.updateTemplate(req.params.id, userId, req.body || {});
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error: any) {
+      console.error('Update message template error:', error);
+      handleMessageTemplateError(res, error, 'An error occurred while updating the template');
+    }
+  }
+);
+
+/**
+ * DELETE /api/message-templates/:id
+ * Delete a template
+ *
+ * Errors:
+ * - 403: Not an admin of the template's business
+ * - 404: Template not found
+ */
+router.delete(
+  '/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      await messageTemplateController.deleteTemplate(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Message template deleted',
+      });
+    } catch (error: any) {
+      console.error('Delete message template error:', error);
+      handleMessageTemplateError(res, error, 'An error occurred while deleting the template');
+    }
+  }
+);
+
+export default router;
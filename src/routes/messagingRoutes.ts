@@ -1,11 +1,43 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { MessagingController } from '../controllers/MessagingController';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { MAX_ATTACHMENT_SIZE } from '../services/storage/MessageAttachmentService';
 
 const router = Router();
 const messagingController = new MessagingController();
 const roleGuard = new RoleGuardMiddleware();
 
+// Configure multer for attachment uploads (memory storage, one file per request)
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ATTACHMENT_SIZE,
+    files: 1,
+  },
+});
+
+/**
+ * Receive a single `file` field, answering upload errors with a 400
+ */
+const receiveAttachment = (req: Request, res: Response, next: NextFunction) => {
+  attachmentUpload.single('file')(req, res, (err: any) => {
+    if (err) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message:
+            err.code === 'LIMIT_FILE_SIZE'
+              ? `Invalid file: size must not exceed ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`
+              : err.message,
+        },
+      });
+    }
+    next();
+  });
+};
+
 /**
  * Extended Request interface with authenticated user data
  */
@@ -19,7 +51,8 @@ interface AuthenticatedRequest extends Request {
 
 /**
  * GET /api/messages/conversations
- * Get all conversations for authenticated user
+ * Get all conversations for authenticated user, optionally only those about
+ * a property_listing_id or demand_listing_id
  */
 router.get(
   '/conversations',
@@ -38,11 +71,13 @@ router.get(
         });
       }
 
-      const { page, limit } = req.query;
+      const { page, limit, property_listing_id, demand_listing_id } = req.query;
 
       const result = await messagingController.getConversations(userId, {
         page: page ? parseInt(page as string, 10) : undefined,
         limit: limit ? parseInt(limit as string, 10) : undefined,
+        property_listing_id: property_listing_id as string | undefined,
+        demand_listing_id: demand_listing_id as string | undefined,
       });
 
       res.json({
@@ -51,6 +86,17 @@ router.get(
       });
     } catch (error: any) {
       console.error('Get conversations error:', error);
+
+      if (error.message.startsWith('Invalid')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
       res.status(500).json({
         success: false,
         error: {
@@ -177,6 +223,37 @@ router.post(
       });
     } catch (error: any) {
       console.error('Create conversation error:', error);
+
+      if (error.message.includes('blocked')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.startsWith('Too many')) {
+        return res.status(429).json({
+          success: false,
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('Invalid')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
       res.status(500).json({
         success: false,
         error: {
@@ -248,6 +325,10 @@ router.get(
 /**
  * POST /api/messages/conversations/:id/messages
  * Send a message in a conversation
+ * Body: content, attachments, reply_to_message_id, send_at (optional ISO date-time)
+ *
+ * With a future send_at the message is scheduled instead of sent, and the
+ * response is { scheduled_message } rather than { message }
  */
 router.post(
   '/conversations/:id/messages',
@@ -267,9 +348,10 @@ router.post(
         });
       }
 
-      const { content, attachments } = req.body;
+      const { content, attachments, reply_to_message_id, send_at } = req.body;
+      const hasAttachments = Array.isArray(attachments) && attachments.length > 0;
 
-      if (!content || content.trim().length === 0) {
+      if ((!content || content.trim().length === 0) && !hasAttachments) {
         return res.status(400).json({
           success: false,
           error: {
@@ -279,9 +361,24 @@ router.post(
         });
       }
 
+      if (send_at !== undefined && send_at !== null) {
+        const scheduledMessage = await messagingController.scheduleMessage(conversationId, userId, {
+          content,
+          attachments,
+          reply_to_message_id,
+          send_at,
+        });
+
+        return res.status(201).json({
+          success: true,
+          data: { scheduled_message: scheduledMessage },
+        });
+      }
+
       const message = await messagingController.sendMessage(conversationId, userId, {
         content,
         attachments,
+        reply_to_message_id,
       });
 
       res.status(201).json({
@@ -291,7 +388,7 @@ router.post(
     } catch (error: any) {
       console.error('Send message error:', error);
 
-      if (error.message.includes('not a participant')) {
+      if (error.message.includes('not a participant') || error.message.includes('blocked')) {
         return res.status(403).json({
           success: false,
           error: {
@@ -301,7 +398,7 @@ router.post(
         });
       }
 
-      if (error.message.includes('required')) {
+      if (error.message.includes('required') || error.message.includes('Invalid')) {
         return res.status(400).json({
           success: false,
           error: {
@@ -455,7 +552,7 @@ router.delete(
         });
       }
 
-      if (error.message.includes('only delete your own')) {
+      if (error.message.includes('only delete your own') || error.message.startsWith('Only text messages')) {
         return res.status(403).json({
           success: false,
           error: {
@@ -477,11 +574,58 @@ router.delete(
 );
 
 /**
- * GET /api/messages/search
- * Search messages
+ * Map message edit, reaction, scheduling, nudge and export errors to HTTP responses
+ */
+const handleMessageActionError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (
+    error.message.includes('not a participant') ||
+    error.message.includes('only edit your own') ||
+    error.message.startsWith('Only text messages')
+  ) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * GET /api/messages/conversations/:id/scheduled-messages
+ * Get the user's pending scheduled messages in a conversation, soonest first
  */
 router.get(
-  '/search',
+  '/conversations/:id/scheduled-messages',
   roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -497,50 +641,111 @@ router.get(
         });
       }
 
-      const { q, limit } = req.query;
+      const scheduledMessages = await messagingController.getScheduledMessages(req.params.id, userId);
 
-      if (!q || (q as string).trim().length < 2) {
-        return res.status(400).json({
+      res.json({
+        success: true,
+        data: { scheduled_messages: scheduledMessages },
+      });
+    } catch (error: any) {
+      console.error('Get scheduled messages error:', error);
+      handleMessageActionError(res, error, 'An error occurred while fetching scheduled messages');
+    }
+  }
+);
+
+/**
+ * GET /api/messages/conversations/:id/export
+ * Download the conversation's full record: messages (with deleted placeholders),
+ * participants, read receipts and attachment manifests
+ * Query params: format ('pdf' | 'json' | 'txt', default 'pdf')
+ *
+ * Response (200): PDF, JSON or plain-text attachment
+ *
+ * Errors:
+ * - 400: Invalid format
+ * - 403: Not a participant
+ * - 404: Conversation not found
+ */
+router.get(
+  '/conversations/:id/export',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
           success: false,
           error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Search query must be at least 2 characters',
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
           },
         });
       }
 
-      const messages = await messagingController.searchMessages(userId, q as string, {
-        limit: limit ? parseInt(limit as string, 10) : undefined,
-      });
+      const { body, contentType, fileName } = await messagingController.exportConversation(
+        req.params.id,
+        userId,
+        req.query.format as string | undefined
+      );
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200).send(body);
+    } catch (error: any) {
+      console.error('Export conversation error:', error);
+      handleMessageActionError(res, error, 'An error occurred while exporting the conversation');
+    }
+  }
+);
+
+/**
+ * DELETE /api/messages/scheduled-messages/:id
+ * Cancel a scheduled message before it is sent (sender only)
+ */
+router.delete(
+  '/scheduled-messages/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      await messagingController.cancelScheduledMessage(req.params.id, userId);
 
       res.json({
         success: true,
-        data: { messages },
+        message: 'Scheduled message cancelled',
       });
     } catch (error: any) {
-      console.error('Search messages error:', error);
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'An error occurred while searching messages',
-        },
-      });
+      console.error('Cancel scheduled message error:', error);
+      handleMessageActionError(res, error, 'An error occurred while cancelling the scheduled message');
     }
   }
 );
 
 /**
- * PATCH /api/messages/conversations/:id/mute
- * Mute or unmute a conversation
+ * PATCH /api/messages/:id
+ * Edit a message's content (sender only)
+ * Body: content
  */
 router.patch(
-  '/conversations/:id/mute',
+  '/:id',
   roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
-      const conversationId = req.params.id;
 
       if (!userId) {
         return res.status(401).json({
@@ -552,59 +757,103 @@ router.patch(
         });
       }
 
-      const { muted } = req.body;
+      const message = await messagingController.editMessage(req.params.id, userId, req.body.content);
 
-      if (typeof muted !== 'boolean') {
-        return res.status(400).json({
+      res.json({
+        success: true,
+        data: { message },
+      });
+    } catch (error: any) {
+      console.error('Edit message error:', error);
+      handleMessageActionError(res, error, 'An error occurred while editing the message');
+    }
+  }
+);
+
+/**
+ * GET /api/messages/:id/edits
+ * Get the edit history of a message, newest first
+ */
+router.get(
+  '/:id/edits',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
           success: false,
           error: {
-            code: 'VALIDATION_ERROR',
-            message: 'muted field must be a boolean',
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
           },
         });
       }
 
-      await messagingController.setConversationMuted(conversationId, userId, muted);
+      const edits = await messagingController.getMessageEdits(req.params.id, userId);
 
       res.json({
         success: true,
-        message: `Conversation ${muted ? 'muted' : 'unmuted'} successfully`,
+        data: { edits },
       });
     } catch (error: any) {
-      console.error('Mute conversation error:', error);
+      console.error('Get message edits error:', error);
+      handleMessageActionError(res, error, 'An error occurred while fetching the edit history');
+    }
+  }
+);
 
-      if (error.message.includes('not a participant')) {
-        return res.status(403).json({
+/**
+ * POST /api/messages/:id/reactions
+ * React to a message
+ * Body: emoji
+ */
+router.post(
+  '/:id/reactions',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
-            message: error.message,
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
           },
         });
       }
 
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'An error occurred while updating conversation mute status',
-        },
+      const reactions = await messagingController.setReaction(
+        req.params.id,
+        userId,
+        req.body.emoji,
+        true
+      );
+
+      res.json({
+        success: true,
+        data: { reactions },
       });
+    } catch (error: any) {
+      console.error('Add reaction error:', error);
+      handleMessageActionError(res, error, 'An error occurred while adding the reaction');
     }
   }
 );
 
 /**
- * POST /api/messages/conversations/:id/leave
- * Leave a conversation
+ * DELETE /api/messages/:id/reactions/:emoji
+ * Remove the user's reaction (emoji is URL-encoded)
  */
-router.post(
-  '/conversations/:id/leave',
+router.delete(
+  '/:id/reactions/:emoji',
   roleGuard.authenticate(),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.userId;
-      const conversationId = req.params.id;
 
       if (!userId) {
         return res.status(401).json({
@@ -616,20 +865,95 @@ router.post(
         });
       }
 
-      await messagingController.leaveConversation(conversationId, userId);
+      const reactions = await messagingController.setReaction(
+        req.params.id,
+        userId,
+        req.params.emoji,
+        false
+      );
 
       res.json({
         success: true,
-        message: 'Left conversation successfully',
+        data: { reactions },
       });
     } catch (error: any) {
-      console.error('Leave conversation error:', error);
+      console.error('Remove reaction error:', error);
+      handleMessageActionError(res, error, 'An error occurred while removing the reaction');
+    }
+  }
+);
 
-      if (error.message.includes('not a participant')) {
-        return res.status(403).json({
+/**
+ * GET /api/messages/search
+ * Full-text search across the user's conversations, ranked by relevance
+ * Query: q (required), conversation_id, sender_id, from, to (ISO dates),
+ * has_attachment=true|false, limit (max 50), cursor (nextCursor of the previous page)
+ */
+router.get(
+  '/search',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
           success: false,
           error: {
-            code: 'FORBIDDEN',
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const { q, limit, cursor, conversation_id, sender_id, from, to, has_attachment } = req.query;
+
+      if (!q || (q as string).trim().length < 2) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Search query must be at least 2 characters',
+          },
+        });
+      }
+
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid date: from and to must be ISO dates',
+          },
+        });
+      }
+
+      const result = await messagingController.searchMessages(userId, q as string, {
+        conversation_id: (conversation_id as string) || undefined,
+        sender_id: (sender_id as string) || undefined,
+        from: fromDate,
+        to: toDate,
+        has_attachment:
+          has_attachment === 'true' ? true : has_attachment === 'false' ? false : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+        cursor: (cursor as string) || undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Search messages error:', error);
+
+      if (error.message.includes('Invalid') || error.message.includes('must be')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
             message: error.message,
           },
         });
@@ -639,11 +963,591 @@ router.post(
         success: false,
         error: {
           code: 'INTERNAL_ERROR',
-          message: 'An error occurred while leaving the conversation',
+          message: 'An error occurred while searching messages',
         },
       });
     }
   }
 );
 
+/**
+ * PATCH /api/messages/conversations/:id/mute
+ * Mute or unmute a conversation
+ */
+router.patch(
+  '/conversations/:id/mute',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const conversationId = req.params.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const { muted } = req.body;
+
+      if (typeof muted !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'muted field must be a boolean',
+          },
+        });
+      }
+
+      await messagingController.setConversationMuted(conversationId, userId, muted);
+
+      res.json({
+        success: true,
+        message: `Conversation ${muted ? 'muted' : 'unmuted'} successfully`,
+      });
+    } catch (error: any) {
+      console.error('Mute conversation error:', error);
+
+      if (error.message.includes('not a participant')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: error.message,
+          },
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while updating conversation mute status',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/messages/conversations/:id/nudge
+ * Remind the user if their last message goes unanswered
+ * Body: after_days (1-30, or null to turn off), in_app (default true), email (default false)
+ */
+router.put(
+  '/conversations/:id/nudge',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const nudge = await messagingController.setConversationNudge(req.params.id, userId, {
+        after_days: req.body.after_days,
+        in_app: req.body.in_app,
+        email: req.body.email,
+      });
+
+      res.json({
+        success: true,
+        data: { nudge },
+      });
+    } catch (error: any) {
+      console.error('Set conversation nudge error:', error);
+      handleMessageActionError(res, error, 'An error occurred while updating the follow-up reminder');
+    }
+  }
+);
+
+/**
+ * POST /api/messages/conversations/:id/leave
+ * Leave a conversation
+ */
+router.post(
+  '/conversations/:id/leave',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      const conversationId = req.params.id;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      await messagingController.leaveConversation(conversationId, userId);
+
+      res.json({
+        success: true,
+        message: 'Left conversation successfully',
+      });
+    } catch (error: any) {
+      console.error('Leave conversation error:', error);
+
+      if (error.message.includes('not a participant')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: error.message,
+          },
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while leaving the conversation',
+        },
+      });
+    }
+  }
+);
+
+/**
+ * Map conversation management errors to HTTP responses
+ */
+const handleConversationManagementError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (
+    error.message.includes('not a participant') ||
+    error.message.startsWith('Only') ||
+    error.message.includes('blocked')
+  ) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  return res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * PATCH /api/messages/conversations/:id
+ * Rename a conversation; an empty subject clears it
+ * Body: subject
+ */
+router.patch(
+  '/conversations/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const { subject } = req.body || {};
+
+      if (subject !== undefined && subject !== null && typeof subject !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'subject must be a string',
+          },
+        });
+      }
+
+      const conversation = await messagingController.renameConversation(req.params.id, userId, subject);
+
+      res.json({
+        success: true,
+        data: { conversation },
+      });
+    } catch (error: any) {
+      console.error('Rename conversation error:', error);
+      handleConversationManagementError(res, error, 'An error occurred while renaming the conversation');
+    }
+  }
+);
+
+/**
+ * POST /api/messages/conversations/:id/participants
+ * Add participants to a conversation
+ * Body: user_ids and/or emails
+ */
+router.post(
+  '/conversations/:id/participants',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const { user_ids, emails } = req.body || {};
+
+      if ((user_ids !== undefined && !Array.isArray(user_ids)) || (emails !== undefined && !Array.isArray(emails))) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'user_ids and emails must be arrays',
+          },
+        });
+      }
+
+      const conversation = await messagingController.addParticipants(req.params.id, userId, {
+        user_ids,
+        emails,
+      });
+
+      res.json({
+        success: true,
+        data: { conversation },
+      });
+    } catch (error: any) {
+      console.error('Add participants error:', error);
+      handleConversationManagementError(res, error, 'An error occurred while adding participants');
+    }
+  }
+);
+
+/**
+ * PATCH /api/messages/conversations/:id/participants/:userId
+ * Change a participant's role (creator or admin only)
+ * Body: role ('admin' | 'member')
+ */
+router.patch(
+  '/conversations/:id/participants/:userId',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const conversation = await messagingController.setParticipantRole(
+        req.params.id,
+        userId,
+        req.params.userId,
+        req.body?.role
+      );
+
+      res.json({
+        success: true,
+        data: { conversation },
+      });
+    } catch (error: any) {
+      console.error('Update participant role error:', error);
+      handleConversationManagementError(res, error, 'An error occurred while updating the participant');
+    }
+  }
+);
+
+/**
+ * DELETE /api/messages/conversations/:id/participants/:userId
+ * Remove a participant (creator or admin only); removing yourself leaves
+ */
+router.delete(
+  '/conversations/:id/participants/:userId',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const conversation = await messagingController.removeParticipant(
+        req.params.id,
+        userId,
+        req.params.userId
+      );
+
+      res.json({
+        success: true,
+        data: { conversation },
+      });
+    } catch (error: any) {
+      console.error('Remove participant error:', error);
+      handleConversationManagementError(res, error, 'An error occurred while removing the participant');
+    }
+  }
+);
+
+/**
+ * Map attachment errors to HTTP responses
+ */
+const handleAttachmentError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('not a participant') || error.message.includes('download link')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * POST /api/messages/attachments
+ * Upload a file to a conversation. Send the returned attachment's id with
+ * a message to attach it.
+ *
+ * Request body (multipart/form-data):
+ * - conversation_id: string
+ * - file: images, PDFs, Word/Excel documents or text files, up to 25 MB
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: {
+ *     attachment: { id, name, url, type, size, thumbnail_url, preview_url }
+ *   }
+ * }
+ *
+ * Errors:
+ * - 400: Missing file, disallowed type, too large, or contents rejected by the scan
+ * - 403: Not a participant in the conversation
+ */
+router.post(
+  '/attachments',
+  roleGuard.authenticate(),
+  receiveAttachment,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const conversationId = req.body?.conversation_id;
+
+      if (!conversationId) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'conversation_id is required',
+          },
+        });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A file is required',
+          },
+        });
+      }
+
+      const attachment = await messagingController.uploadAttachment(conversationId, userId, {
+        buffer: req.file.buffer,
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+        originalName: req.file.originalname,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { attachment },
+      });
+    } catch (error: any) {
+      console.error('Upload attachment error:', error);
+      handleAttachmentError(res, error, 'An error occurred while uploading the attachment');
+    }
+  }
+);
+
+/**
+ * GET /api/messages/attachments/:id/download
+ * Serve a signed download URL. Not cookie-authenticated: the signature binds
+ * the URL to the user it was issued to, who must still be a participant.
+ *
+ * Query params (set by the signed URL):
+ * - variant, user, expires, signature
+ *
+ * Errors:
+ * - 403: Invalid or expired link, or the user left the conversation
+ * - 404: Attachment or variant not found
+ */
+router.get('/attachments/:id/download', async (req: Request, res: Response) => {
+  try {
+    const { variant, user, expires, signature } = req.query as Record<string, string | undefined>;
+    const file = await messagingController.downloadAttachment(req.params.id, {
+      variant,
+      user,
+      expires,
+      signature,
+    });
+
+    // Images and PDFs render inline; everything else downloads
+    const inline = file.contentType.startsWith('image/') || file.contentType === 'application/pdf';
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Length', file.buffer.length);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.setHeader(
+      'Content-Disposition',
+      `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`
+    );
+    res.send(file.buffer);
+  } catch (error: any) {
+    console.error('Download attachment error:', error);
+    handleAttachmentError(res, error, 'An error occurred while downloading the attachment');
+  }
+});
+
+/**
+ * GET /api/messages/attachments/:id
+ * Redirect a participant to a short-lived signed download URL
+ *
+ * Query params:
+ * - variant: 'original' (default) | 'thumbnail' | 'preview'
+ *
+ * Response (302): Location is the signed download URL
+ */
+router.get(
+  '/attachments/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
+
+      const url = await messagingController.getAttachmentUrl(
+        req.params.id,
+        userId,
+        (req.query.variant as string) || 'original'
+      );
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.redirect(302, url);
+    } catch (error: any) {
+      console.error('Get attachment URL error:', error);
+      handleAttachmentError(res, error, 'An error occurred while fetching the attachment');
+    }
+  }
+);
+
 export default router;
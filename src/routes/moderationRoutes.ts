@@ -0,0 +1,298 @@
+import { Router, Request, Response } from 'express';
+import { ModerationController } from '../controllers/ModerationController';
+import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+
+const router = Router();
+const moderationController = new ModerationController();
+const roleGuard = new RoleGuardMiddleware();
+
+/**
+ * Extended Request interface with authenticated user data
+ */
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+const unauthorized = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'User ID not found in token',
+    },
+  });
+
+/**
+ * Map moderation errors to HTTP responses
+ */
+const handleModerationError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized') || error.message.includes('not a participant')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * GET /api/moderation/blocks
+ * List the users the current user has blocked
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: BlockedUser[]
+ * }
+ */
+router.get(
+  '/blocks',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const blocks = await moderationController.listBlocks(userId);
+
+      res.status(200).json({
+        success: true,
+        data: blocks,
+      });
+    } catch (error: any) {
+      console.error('List blocks error:', error);
+      handleModerationError(res, error, 'An error occurred while fetching blocked users');
+    }
+  }
+);
+
+/**
+ * POST /api/moderation/blocks
+ * Block a user. Neither of you can start a conversation with the other, add
+ * the other to a group, or message in a 1-on-1 chat you already have
+ *
+ * Request body:
+ * {
+ *   user_id: string
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: BlockedUser[]
+ * }
+ */
+router.post(
+  '/blocks',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const blocks = await moderationController.blockUser(userId, req.body?.user_id);
+
+      res.status(201).json({
+        success: true,
+        data: blocks,
+      });
+    } catch (error: any) {
+      console.error('Block user error:', error);
+      handleModerationError(res, error, 'An error occurred while blocking the user');
+    }
+  }
+);
+
+/**
+ * DELETE /api/moderation/blocks/:userId
+ * Unblock a user
+ *
+ * Errors:
+ * - 404: The user isn't blocked
+ */
+router.delete(
+  '/blocks/:userId',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      await moderationController.unblockUser(userId, req.params.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'User unblocked',
+      });
+    } catch (error: any) {
+      console.error('Unblock user error:', error);
+      handleModerationError(res, error, 'An error occurred while unblocking the user');
+    }
+  }
+);
+
+/**
+ * POST /api/moderation/reports
+ * Report a message or a user
+ *
+ * Request body:
+ * {
+ *   message_id?: string,        // report a message; its sender is the reported user
+ *   reported_user_id?: string,  // or report a user directly
+ *   conversation_id?: string,   // where it happened, when reporting a user
+ *   reason: 'spam' | 'harassment' | 'inappropriate' | 'scam' | 'other',
+ *   details?: string,
+ *   block?: boolean             // also block the reported user
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: UserReport
+ * }
+ */
+router.post(
+  '/reports',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const report = await moderationController.createReport(userId, req.body || {});
+
+      res.status(201).json({
+        success: true,
+        data: report,
+      });
+    } catch (error: any) {
+      console.error('Create report error:', error);
+      handleModerationError(res, error, 'An error occurred while submitting the report');
+    }
+  }
+);
+
+/**
+ * GET /api/moderation/reports
+ * The moderation queue (moderators only)
+ *
+ * Query parameters:
+ * - status: 'open' (default) | 'actioned' | 'dismissed'
+ * - page, limit
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { reports: UserReport[], total: number, hasMore: boolean }
+ * }
+ */
+router.get(
+  '/reports',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const queue = await moderationController.getReportQueue(userId, {
+        status: req.query.status,
+        page: req.query.page,
+        limit: req.query.limit,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: queue,
+      });
+    } catch (error: any) {
+      console.error('Get report queue error:', error);
+      handleModerationError(res, error, 'An error occurred while fetching reports');
+    }
+  }
+);
+
+/**
+ * PATCH /api/moderation/reports/:id
+ * Review an open report (moderators only)
+ *
+ * Request body:
+ * {
+ *   status: 'actioned' | 'dismissed',
+ *   resolution_note?: string,
+ *   deactivate_user?: boolean   // actioned reports only
+ * }
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: UserReport
+ * }
+ */
+router.patch(
+  '/reports/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const report = await moderationController.resolveReport(userId, req.params.id, req.body || {});
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error: any) {
+      console.error('Resolve report error:', error);
+      handleModerationError(res, error, 'An error occurred while reviewing the report');
+    }
+  }
+);
+
+export default router;
@@ -1,8 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { NotificationPreferencesModel, NotificationPreferences } from '../database/models/NotificationPreferences';
+import { NotificationModel } from '../database/models/Notification';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { getDashboardSocket } from '../websocket/dashboardSocket';
 
 const roleGuard = new RoleGuardMiddleware();
+const notificationModel = new NotificationModel();
 
 /**
  * Extended Request interface with authenticated user data
@@ -17,6 +20,230 @@ interface AuthenticatedRequest extends Request {
 
 const router = Router();
 
+const EMAIL_FREQUENCIES = ['immediate', 'instant', 'daily', 'weekly'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validate email delivery settings; returns an error message or null
+ * Quiet hours and timezone drive when digest emails are sent
+ */
+const validateDeliverySettings = (settings: Record<string, any>): string | null => {
+  if (settings.email_frequency !== undefined && !EMAIL_FREQUENCIES.includes(settings.email_frequency)) {
+    return 'Invalid email_frequency';
+  }
+
+  for (const key of ['quiet_hours_start', 'quiet_hours_end']) {
+    const value = settings[key];
+    if (value !== undefined && value !== null && value !== '' && !TIME_OF_DAY.test(value)) {
+      return `Invalid ${key}: expected HH:MM`;
+    }
+  }
+
+  if (settings.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: settings.timezone });
+    } catch {
+      return 'Invalid timezone';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Push the current unread count to the user's other open sessions
+ */
+const broadcastUnreadCount = async (userId: string): Promise<number> => {
+  const unreadCount = await notificationModel.countUnread(userId);
+  getDashboardSocket()?.emitNotificationUnread(userId, unreadCount);
+  return unreadCount;
+};
+
+/**
+ * GET /api/notifications
+ * List the current user's in-app notifications, newest first
+ * Query: limit (max 50), before (notification id cursor), unread=true, archived=true
+ */
+router.get(
+  '/',
+  roleGuard.authenticate(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = authReq.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 50);
+      const { before } = req.query;
+
+      if (before !== undefined && (typeof before !== 'string' || !UUID_PATTERN.test(before))) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CURSOR',
+            message: 'Invalid before cursor: must be a notification id',
+          },
+        });
+        return;
+      }
+
+      const [{ notifications, hasMore }, unreadCount] = await Promise.all([
+        notificationModel.findByUserId(userId, {
+          limit,
+          before,
+          unreadOnly: req.query.unread === 'true',
+          archived: req.query.archived === 'true',
+        }),
+        notificationModel.countUnread(userId),
+      ]);
+
+      res.json({
+        success: true,
+        data: { notifications, hasMore, unreadCount },
+      });
+    } catch (error: any) {
+      console.error('Error fetching notifications:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch notifications',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/notifications/unread-count
+ * Get the number of unread in-app notifications
+ */
+router.get(
+  '/unread-count',
+  roleGuard.authenticate(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = authReq.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const unreadCount = await notificationModel.countUnread(userId);
+
+      res.json({
+        success: true,
+        data: { unreadCount },
+      });
+    } catch (error: any) {
+      console.error('Error fetching unread notification count:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch unread notification count',
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /api/notifications/read-all
+ * Mark all of the current user's notifications as read
+ */
+router.patch(
+  '/read-all',
+  roleGuard.authenticate(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = authReq.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const updated = await notificationModel.markAllRead(userId);
+      const unreadCount = await broadcastUnreadCount(userId);
+
+      res.json({
+        success: true,
+        data: { updated, unreadCount },
+      });
+    } catch (error: any) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to mark notifications read',
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /api/notifications/:id
+ * Mark a notification read/unread or archive/unarchive it
+ * Body: { read?: boolean, archived?: boolean }
+ */
+router.patch(
+  '/:id',
+  roleGuard.authenticate(),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const authReq = req as AuthenticatedRequest;
+      const userId = authReq.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({ success: false, error: 'Unauthorized' });
+        return;
+      }
+
+      const { read, archived } = req.body;
+
+      if (read === undefined && archived === undefined) {
+        res.status(400).json({ success: false, error: 'read or archived is required' });
+        return;
+      }
+
+      if (
+        (read !== undefined && typeof read !== 'boolean') ||
+        (archived !== undefined && typeof archived !== 'boolean')
+      ) {
+        res.status(400).json({ success: false, error: 'read and archived must be booleans' });
+        return;
+      }
+
+      if (!UUID_PATTERN.test(req.params.id)) {
+        res.status(404).json({ success: false, error: 'Notification not found' });
+        return;
+      }
+
+      const notification = await notificationModel.update(req.params.id, userId, { read, archived });
+
+      if (!notification) {
+        res.status(404).json({ success: false, error: 'Notification not found' });
+        return;
+      }
+
+      const unreadCount = await broadcastUnreadCount(userId);
+
+      res.json({
+        success: true,
+        data: { notification, unreadCount },
+      });
+    } catch (error: any) {
+      console.error('Error updating notification:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update notification',
+      });
+    }
+  }
+);
+
 /**
  * GET /api/notifications/preferences
  * Get current user's notification preferences
@@ -115,9 +342,19 @@ router.put(
       }
 
       if (settings !== undefined) {
-        if (settings.email_frequency !== undefined) updates.email_frequency = settings.email_frequency;
-        if (settings.quiet_hours_start !== undefined) updates.quiet_hours_start = settings.quiet_hours_start;
-        if (settings.quiet_hours_end !== undefined) updates.quiet_hours_end = settings.quiet_hours_end;
+        const validationError = validateDeliverySettings(settings);
+        if (validationError) {
+          res.status(400).json({ success: false, error: validationError });
+          return;
+        }
+
+        if (settings.email_frequency !== undefined) {
+          // Older clients send 'instant' for immediate delivery
+          updates.email_frequency =
+            settings.email_frequency === 'instant' ? 'immediate' : settings.email_frequency;
+        }
+        if (settings.quiet_hours_start !== undefined) updates.quiet_hours_start = settings.quiet_hours_start || null;
+        if (settings.quiet_hours_end !== undefined) updates.quiet_hours_end = settings.quiet_hours_end || null;
         if (settings.timezone !== undefined) updates.timezone = settings.timezone;
       }
 
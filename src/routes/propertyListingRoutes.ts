@@ -1,12 +1,113 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import { PropertyListingController } from '../controllers/PropertyListingController';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { subscriptionGuard, FEATURE_TIERS } from '../middleware/SubscriptionGuardMiddleware';
+import { MAX_IMPORT_FILE_SIZE } from '../services/listingFeed/listingFeed';
+import {
+  ListingMediaFile,
+  MAX_LISTING_DOCUMENT_SIZE,
+  MAX_LISTING_PHOTO_SIZE,
+  MAX_PHOTOS_PER_UPLOAD,
+} from '../services/storage/ListingMediaService';
 import { PropertyListingStatus, PropertyType } from '../types';
 
 const router = Router();
 const propertyListingController = new PropertyListingController();
 const roleGuard = new RoleGuardMiddleware();
 
+// Configure multer for listing import files (memory storage, one file per request)
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_FILE_SIZE,
+    files: 1,
+  },
+});
+
+/**
+ * Receive a single `file` field, answering upload errors with a 400
+ */
+const receiveImportFile = (req: Request, res: Response, next: NextFunction) => {
+  importUpload.single('file')(req, res, (err: any) => {
+    if (err) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message:
+            err.code === 'LIMIT_FILE_SIZE'
+              ? `Invalid file: size must not exceed ${MAX_IMPORT_FILE_SIZE / 1024 / 1024} MB`
+              : err.message,
+        },
+      });
+    }
+    next();
+  });
+};
+
+// Configure multer for listing photos and documents (memory storage)
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_LISTING_PHOTO_SIZE,
+    files: MAX_PHOTOS_PER_UPLOAD,
+  },
+});
+
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_LISTING_DOCUMENT_SIZE,
+    files: 1,
+  },
+});
+
+const uploadError = (res: Response, err: any, maxFileSize: number) =>
+  res.status(400).json({
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message:
+        err.code === 'LIMIT_FILE_SIZE'
+          ? `Invalid file: size must not exceed ${maxFileSize / 1024 / 1024} MB`
+          : err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE'
+            ? `Invalid request: Upload at most ${MAX_PHOTOS_PER_UPLOAD} photos at a time`
+            : err.message,
+    },
+  });
+
+/**
+ * Receive up to MAX_PHOTOS_PER_UPLOAD `files`, answering upload errors with a 400
+ */
+const receiveListingPhotos = (req: Request, res: Response, next: NextFunction) => {
+  photoUpload.array('files', MAX_PHOTOS_PER_UPLOAD)(req, res, (err: any) => {
+    if (err) {
+      return uploadError(res, err, MAX_LISTING_PHOTO_SIZE);
+    }
+    next();
+  });
+};
+
+/**
+ * Receive a single `file` field, answering upload errors with a 400
+ */
+const receiveListingDocument = (req: Request, res: Response, next: NextFunction) => {
+  documentUpload.single('file')(req, res, (err: any) => {
+    if (err) {
+      return uploadError(res, err, MAX_LISTING_DOCUMENT_SIZE);
+    }
+    next();
+  });
+};
+
+const toMediaFile = (file: Express.Multer.File): ListingMediaFile => ({
+  buffer: file.buffer,
+  mimeType: file.mimetype,
+  size: file.size,
+  originalName: file.originalname,
+});
+
 /**
  * Extended Request interface with authenticated user data
  */
@@ -18,9 +119,70 @@ interface AuthenticatedRequest extends Request {
   };
 }
 
+const unauthorized = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'User ID not found in token',
+    },
+  });
+
+/**
+ * Map favorite and share errors to HTTP responses
+ */
+const handleEngagementError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message.includes('not found')) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
 /**
  * GET /api/property-listings/search
  * Public search for all active property listings (for tenants)
+ *
+ * Geo query parameters:
+ * - lat, lng: a point; listings then include distance_miles from it
+ * - radius_miles: only listings within this distance of lat/lng (max 250)
+ * - bbox: minLng,minLat,maxLng,maxLat - only listings inside a map viewport
+ * - sort: 'featured' (default) | 'distance' - nearest first, from lat/lng or the bbox center
+ *
+ * Errors:
+ * - 400: Invalid geo parameters
  */
 router.get('/search', async (req: Request, res: Response) => {
   try {
@@ -34,6 +196,11 @@ router.get('/search', async (req: Request, res: Response) => {
       max_price,
       amenities,
       search,
+      lat,
+      lng,
+      radius_miles,
+      bbox,
+      sort,
       page,
       limit,
     } = req.query;
@@ -48,6 +215,11 @@ router.get('/search', async (req: Request, res: Response) => {
       maxPrice: max_price ? parseFloat(max_price as string) : undefined,
       amenities: amenities ? (amenities as string).split(',') : undefined,
       search: search as string,
+      lat,
+      lng,
+      radiusMiles: radius_miles,
+      bbox,
+      sort,
       page: page ? parseInt(page as string, 10) : undefined,
       limit: limit ? parseInt(limit as string, 10) : undefined,
     });
@@ -58,6 +230,15 @@ router.get('/search', async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     console.error('Search property listings error:', error);
+    if (error.message.includes('Invalid')) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+        },
+      });
+    }
     res.status(500).json({
       success: false,
       error: {
@@ -206,16 +387,289 @@ router.get(
   }
 );
 
+/**
+ * GET /api/property-listings/favorites
+ * Listings the current user has saved, most recently saved first
+ *
+ * Query parameters:
+ * - page, limit
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { listings: FavoritePropertyListing[], total: number, hasMore: boolean }
+ * }
+ */
+router.get(
+  '/favorites',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const { page, limit } = req.query;
+      const result = await propertyListingController.listFavorites(userId, {
+        page: page ? parseInt(page as string, 10) : undefined,
+        limit: limit ? parseInt(limit as string, 10) : undefined,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('List favorites error:', error);
+      handleEngagementError(res, error, 'An error occurred while fetching your saved listings');
+    }
+  }
+);
+
+/**
+ * GET /api/property-listings/analytics
+ * Traffic to the user's listings from recorded view and click events
+ * (Enterprise feature)
+ *
+ * Query parameters:
+ * - days: How far back to look, 1-365 (default 30)
+ * - listing_id: Only this listing (must be the user's own)
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: ListingTrafficAnalytics
+ * }
+ *
+ * Errors:
+ * - 400: Invalid days
+ * - 403: Not your listing, or subscription upgrade required
+ * - 404: Listing not found
+ */
+router.get(
+  '/analytics',
+  roleGuard.requireLandlordOrBroker(),
+  subscriptionGuard.requireTier(FEATURE_TIERS.PAGE_VIEW_TRACKING),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const { days, listing_id } = req.query;
+      const result = await propertyListingController.getTrafficAnalytics(userId, {
+        days,
+        listingId: listing_id,
+      });
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Get listing analytics error:', error);
+      handleEngagementError(res, error, 'An error occurred while fetching listing traffic');
+    }
+  }
+);
+
+/**
+ * POST /api/property-listings/import
+ * Import listings from a CSV or RESO Data Dictionary JSON file (landlord/broker).
+ * The file is processed in the background; poll GET /imports/:jobId for the
+ * report. Rows are matched to existing listings by external_id, then by
+ * TenantList id, and update them; other rows create listings.
+ *
+ * Request: multipart/form-data
+ * - file: The CSV or JSON file (max 10 MB, 5000 listings)
+ * - format: 'csv' | 'reso' (default from the file extension, .csv or .json)
+ * - dry_run: 'true' to only validate and report what would change
+ *
+ * Response (202):
+ * {
+ *   success: true,
+ *   data: { job: ListingImportJob }
+ * }
+ *
+ * Errors:
+ * - 400: No file, invalid format, or unreadable file
+ */
+router.post(
+  '/import',
+  roleGuard.requireLandlordOrBroker(),
+  receiveImportFile,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A file is required',
+          },
+        });
+      }
+
+      const job = await propertyListingController.importListings(
+        userId,
+        { buffer: req.file.buffer, size: req.file.size, originalName: req.file.originalname },
+        { format: req.body?.format, dryRun: req.body?.dry_run }
+      );
+
+      res.status(202).json({
+        success: true,
+        data: { job },
+      });
+    } catch (error: any) {
+      console.error('Import listings error:', error);
+      handleEngagementError(res, error, 'An error occurred while importing listings');
+    }
+  }
+);
+
+/**
+ * GET /api/property-listings/imports/:jobId
+ * An import's status and, once completed, its counts and row-level errors
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { job: ListingImportJob }
+ * }
+ *
+ * Errors:
+ * - 404: Import job not found
+ */
+router.get(
+  '/imports/:jobId',
+  roleGuard.requireLandlordOrBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const job = await propertyListingController.getImportJob(req.params.jobId, userId);
+
+      res.json({
+        success: true,
+        data: { job },
+      });
+    } catch (error: any) {
+      console.error('Get listing import error:', error);
+      handleEngagementError(res, error, 'An error occurred while fetching the import');
+    }
+  }
+);
+
+/**
+ * GET /api/property-listings/export
+ * Download all of the user's listings in a file POST /import reads back
+ *
+ * Query parameters:
+ * - format: 'csv' (default) | 'reso'
+ *
+ * Response (200): The file, as an attachment
+ *
+ * Errors:
+ * - 400: Invalid format
+ */
+router.get(
+  '/export',
+  roleGuard.requireLandlordOrBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const { body, contentType, fileName } = await propertyListingController.exportListings(
+        userId,
+        req.query.format
+      );
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(200).send(body);
+    } catch (error: any) {
+      console.error('Export listings error:', error);
+      handleEngagementError(res, error, 'An error occurred while exporting listings');
+    }
+  }
+);
+
+/**
+ * GET /api/property-listings/shared/:token
+ * Open a share link (public). Counts the open against the link and returns
+ * the listing it points to
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { property_listing_id: string }
+ * }
+ */
+router.get('/shared/:token', async (req: Request, res: Response) => {
+  try {
+    const result = await propertyListingController.openShareLink(req.params.token);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    console.error('Open share link error:', error);
+    handleEngagementError(res, error, 'An error occurred while opening the share link');
+  }
+});
+
+/**
+ * GET /api/property-listings/photos/:photoId
+ * An uploaded listing photo (public)
+ *
+ * Query parameters:
+ * - variant: 'thumbnail' (240x180) | 'card' (640x480) | 'full' (default, up to 2048px)
+ *
+ * Response (200): The JPEG image
+ *
+ * Errors:
+ * - 400: Invalid variant
+ * - 404: Photo not found
+ */
+router.get('/photos/:photoId', async (req: Request, res: Response) => {
+  try {
+    const { buffer, contentType } = await propertyListingController.getListingPhoto(
+      req.params.photoId,
+      req.query.variant
+    );
+
+    res.setHeader('Content-Type', contentType);
+    // A photo's renditions never change; replacing a photo uploads a new one
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.status(200).send(buffer);
+  } catch (error: any) {
+    console.error('Get listing photo error:', error);
+    handleEngagementError(res, error, 'An error occurred while fetching the photo');
+  }
+});
+
 /**
  * GET /api/property-listings/:id
  * Get single property listing by ID
  */
-router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:id', async (req: Request, res: Response) => {
   try {
-    const listingId = req.params.id;
-    const userId = req.user?.userId;
-
-    const result = await propertyListingController.getListingById(listingId, userId);
+    const result = await propertyListingController.getListingById(req.params.id);
 
     res.json({
       success: true,
@@ -558,76 +1012,631 @@ router.delete(
 
 /**
  * POST /api/property-listings/:id/inquiry
- * Record an inquiry for a property listing
+ * Record an inquiry and open the tenant's conversation with the listing owner
+ *
+ * Request body:
+ * - message: Optional note shown on the inquiry card
+ * - demand_listing_id: Optional demand listing describing what the tenant needs
+ * - move_in_date: Optional target move-in date (YYYY-MM-DD)
+ *
+ * Responds 201 when a new conversation was opened, 200 when one was reused
  */
-router.post('/:id/inquiry', async (req: Request, res: Response) => {
-  try {
-    const listingId = req.params.id;
+router.post(
+  '/:id/inquiry',
+  roleGuard.requireTenant(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'User ID not found in token',
+          },
+        });
+      }
 
-    await propertyListingController.recordInquiry(listingId);
+      const { message, demand_listing_id, move_in_date } = req.body || {};
 
-    res.json({
-      success: true,
-      message: 'Inquiry recorded',
-    });
-  } catch (error: any) {
-    console.error('Record inquiry error:', error);
+      const result = await propertyListingController.createInquiry(req.params.id, userId, {
+        message: typeof message === 'string' ? message : undefined,
+        demand_listing_id: typeof demand_listing_id === 'string' ? demand_listing_id : undefined,
+        move_in_date: typeof move_in_date === 'string' ? move_in_date : undefined,
+      });
 
-    if (error.message === 'Property listing not found') {
-      return res.status(404).json({
+      res.status(result.created ? 201 : 200).json({
+        success: true,
+        data: result,
+        message: 'Inquiry recorded',
+      });
+    } catch (error: any) {
+      console.error('Record inquiry error:', error);
+
+      if (error.message === 'Property listing not found' || error.message === 'Demand listing not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.includes('Unauthorized') || error.message.includes('blocked')) {
+        return res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.startsWith('Too many')) {
+        return res.status(429).json({
+          success: false,
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: error.message,
+          },
+        });
+      }
+
+      if (error.message.startsWith('Invalid request')) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.message,
+          },
+        });
+      }
+
+      res.status(500).json({
         success: false,
         error: {
-          code: 'NOT_FOUND',
-          message: 'Property listing not found',
+          code: 'INTERNAL_ERROR',
+          message: 'An error occurred while recording the inquiry',
         },
       });
     }
-
-    res.status(500).json({
-      success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'An error occurred while recording the inquiry',
-      },
-    });
   }
-});
+);
 
 /**
- * POST /api/property-listings/:id/favorite
- * Record a favorite for a property listing
+ * POST /api/property-listings/:id/events
+ * Record a view of or click on a listing from the browser. Works signed out;
+ * when signed in, the viewer's role and business are recorded too
+ *
+ * Request body:
+ * {
+ *   type: 'view' | 'click',
+ *   session_id: string,      // random per browser session
+ *   referrer?: string,       // document.referrer
+ *   via?: 'share_link' | 'internal',
+ *   target?: string          // what was clicked, required for clicks
+ * }
+ *
+ * Response (202):
+ * {
+ *   success: true,
+ *   data: { recorded: boolean }   // false for bots, owners and repeats
+ * }
  */
-router.post('/:id/favorite', async (req: Request, res: Response) => {
-  try {
-    const listingId = req.params.id;
+router.post(
+  '/:id/events',
+  roleGuard.optionalAuthenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await propertyListingController.recordEvent(req.params.id, req.body || {}, {
+        userAgent: req.get('user-agent'),
+        viewer: req.user ? { userId: req.user.userId, role: req.user.role } : undefined,
+      });
 
-    await propertyListingController.recordFavorite(listingId);
+      res.status(202).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Record listing event error:', error);
+      handleEngagementError(res, error, 'An error occurred while recording the event');
+    }
+  }
+);
 
-    res.json({
-      success: true,
-      message: 'Favorite recorded',
-    });
-  } catch (error: any) {
-    console.error('Record favorite error:', error);
+/**
+ * GET /api/property-listings/:id/favorite
+ * Whether the current user has saved the listing, and how many people have
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { favorited: boolean, favorites_count: number }
+ * }
+ */
+router.get(
+  '/:id/favorite',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
 
-    if (error.message === 'Property listing not found') {
-      return res.status(404).json({
-        success: false,
-        error: {
-          code: 'NOT_FOUND',
-          message: 'Property listing not found',
-        },
+      const result = await propertyListingController.getFavoriteStatus(req.params.id, userId);
+
+      res.json({
+        success: true,
+        data: result,
       });
+    } catch (error: any) {
+      console.error('Get favorite status error:', error);
+      handleEngagementError(res, error, 'An error occurred while fetching the favorite');
     }
+  }
+);
 
-    res.status(500).json({
-      success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'An error occurred while recording the favorite',
-      },
-    });
+/**
+ * POST /api/property-listings/:id/favorite
+ * Save the listing for the current user, or unsave it if already saved
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { favorited: boolean, favorites_count: number }
+ * }
+ *
+ * Errors:
+ * - 400: The listing is the user's own
+ */
+router.post(
+  '/:id/favorite',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const result = await propertyListingController.toggleFavorite(req.params.id, userId);
+
+      res.json({
+        success: true,
+        data: result,
+        message: result.favorited ? 'Listing saved' : 'Listing removed from saved',
+      });
+    } catch (error: any) {
+      console.error('Toggle favorite error:', error);
+      handleEngagementError(res, error, 'An error occurred while saving the listing');
+    }
   }
-});
+);
+
+/**
+ * POST /api/property-listings/:id/shares
+ * Get a tracked share link for the listing, attributed to the current user.
+ * Asking again for the same channel returns the same link
+ *
+ * Request body:
+ * {
+ *   channel?: 'link' (default) | 'email' | 'sms' | 'social'
+ * }
+ *
+ * Response (201 when created, 200 when reused):
+ * {
+ *   success: true,
+ *   data: { share: ListingShare, url: string, created: boolean }
+ * }
+ */
+router.post(
+  '/:id/shares',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const result = await propertyListingController.createShareLink(req.params.id, userId, req.body?.channel);
+
+      res.status(result.created ? 201 : 200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Create share link error:', error);
+      handleEngagementError(res, error, 'An error occurred while creating the share link');
+    }
+  }
+);
+
+/**
+ * POST /api/property-listings/:id/photos
+ * Upload photos to the end of the listing's gallery (listing owner only).
+ * Each is stored as thumbnail, card and full renditions, without its EXIF data
+ *
+ * Request body (multipart/form-data):
+ * - files: Up to 10 JPG, PNG or WebP images of up to 20 MB
+ * - captions: Optional caption for each file, in the same order
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: { photos: PropertyListingPhoto[] }
+ * }
+ *
+ * Errors:
+ * - 400: No files, invalid or too many files, or invalid caption
+ * - 403: User doesn't own the listing
+ */
+router.post(
+  '/:id/photos',
+  roleGuard.requireLandlordOrBroker(),
+  receiveListingPhotos,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const captions = req.body?.captions === undefined ? [] : [].concat(req.body.captions);
+      const photos = await propertyListingController.uploadListingPhotos(
+        req.params.id,
+        userId,
+        files.map(toMediaFile),
+        captions
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { photos },
+      });
+    } catch (error: any) {
+      console.error('Upload listing photos error:', error);
+      handleEngagementError(res, error, 'An error occurred while uploading photos');
+    }
+  }
+);
+
+/**
+ * PATCH /api/property-listings/:id/photos/order
+ * Reorder the listing's photos (listing owner only)
+ *
+ * Request body:
+ * - photo_ids: Every photo ID of the listing, in the new order
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { photos: PropertyListingPhoto[] }
+ * }
+ */
+router.patch(
+  '/:id/photos/order',
+  roleGuard.requireLandlordOrBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const photos = await propertyListingController.reorderListingPhotos(
+        req.params.id,
+        userId,
+        req.body?.photo_ids
+      );
+
+      res.json({
+        success: true,
+        data: { photos },
+      });
+    } catch (error: any) {
+      console.error('Reorder listing photos error:', error);
+      handleEngagementError(res, error, 'An error occurred while reordering photos');
+    }
+  }
+);
+
+/**
+ * PATCH /api/property-listings/:id/photos/:photoId
+ * Update a photo's caption, or make it the cover photo (listing owner only)
+ *
+ * Request body:
+ * - caption: Caption of up to 500 characters, or null to remove it
+ * - is_cover: true to make this the cover photo
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { photos: PropertyListingPhoto[] }
+ * }
+ */
+router.patch(
+  '/:id/photos/:photoId',
+  roleGuard.requireLandlordOrBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const photos = await propertyListingController.updateListingPhoto(
+        req.params.id,
+        req.params.photoId,
+        userId,
+        req.body || {}
+      );
+
+      res.json({
+        success: true,
+        data: { photos },
+      });
+    } catch (error: any) {
+      console.error('Update listing photo error:', error);
+      handleEngagementError(res, error, 'An error occurred while updating the photo');
+    }
+  }
+);
+
+/**
+ * DELETE /api/property-listings/:id/photos/:photoId
+ * Delete a photo (listing owner only). Deleting the cover makes the next
+ * photo the cover
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { photos: PropertyListingPhoto[] }
+ * }
+ */
+router.delete(
+  '/:id/photos/:photoId',
+  roleGuard.requireLandlordOrBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const photos = await propertyListingController.deleteListingPhoto(req.params.id, req.params.photoId, userId);
+
+      res.json({
+        success: true,
+        data: { photos },
+      });
+    } catch (error: any) {
+      console.error('Delete listing photo error:', error);
+      handleEngagementError(res, error, 'An error occurred while deleting the photo');
+    }
+  }
+);
+
+/**
+ * POST /api/property-listings/:id/documents
+ * Upload a flyer, floor plan or other document (listing owner only)
+ *
+ * Request body (multipart/form-data):
+ * - file: A PDF, JPG or PNG of up to 25 MB
+ * - name: Optional display name (defaults to the file name)
+ * - visibility: 'public' (default) | 'inquired' (only tenants who have inquired)
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: { document: ListingDocument }
+ * }
+ */
+router.post(
+  '/:id/documents',
+  roleGuard.requireLandlordOrBroker(),
+  receiveListingDocument,
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A file is required',
+          },
+        });
+      }
+
+      const document = await propertyListingController.uploadListingDocument(
+        req.params.id,
+        userId,
+        toMediaFile(req.file),
+        { name: req.body?.name, visibility: req.body?.visibility }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { document },
+      });
+    } catch (error: any) {
+      console.error('Upload listing document error:', error);
+      handleEngagementError(res, error, 'An error occurred while uploading the document');
+    }
+  }
+);
+
+/**
+ * GET /api/property-listings/:id/documents
+ * The listing's documents. Inquiry-only documents are locked (no URL) unless
+ * the viewer is the owner or has inquired about the listing
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { documents: ListingDocument[] }
+ * }
+ */
+router.get(
+  '/:id/documents',
+  roleGuard.optionalAuthenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const documents = await propertyListingController.listListingDocuments(req.params.id, req.user?.userId);
+
+      res.json({
+        success: true,
+        data: { documents },
+      });
+    } catch (error: any) {
+      console.error('List listing documents error:', error);
+      handleEngagementError(res, error, 'An error occurred while fetching documents');
+    }
+  }
+);
+
+/**
+ * GET /api/property-listings/:id/documents/:documentId
+ * Download a document
+ *
+ * Response (200): The file, as an attachment
+ *
+ * Errors:
+ * - 403: Inquiry-only document and the viewer hasn't inquired
+ * - 404: Document not found
+ */
+router.get(
+  '/:id/documents/:documentId',
+  roleGuard.optionalAuthenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { buffer, contentType, fileName } = await propertyListingController.downloadListingDocument(
+        req.params.id,
+        req.params.documentId,
+        req.user?.userId
+      );
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/[^\w .()-]/g, '_')}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.status(200).send(buffer);
+    } catch (error: any) {
+      console.error('Download listing document error:', error);
+      handleEngagementError(res, error, 'An error occurred while downloading the document');
+    }
+  }
+);
+
+/**
+ * PATCH /api/property-listings/:id/documents/:documentId
+ * Rename a document or change its visibility (listing owner only)
+ *
+ * Request body:
+ * - name: Display name
+ * - visibility: 'public' | 'inquired'
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { document: ListingDocument }
+ * }
+ */
+router.patch(
+  '/:id/documents/:documentId',
+  roleGuard.requireLandlordOrBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const document = await propertyListingController.updateListingDocument(
+        req.params.id,
+        req.params.documentId,
+        userId,
+        req.body || {}
+      );
+
+      res.json({
+        success: true,
+        data: { document },
+      });
+    } catch (error: any) {
+      console.error('Update listing document error:', error);
+      handleEngagementError(res, error, 'An error occurred while updating the document');
+    }
+  }
+);
+
+/**
+ * DELETE /api/property-listings/:id/documents/:documentId
+ * Delete a document (listing owner only)
+ */
+router.delete(
+  '/:id/documents/:documentId',
+  roleGuard.requireLandlordOrBroker(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      await propertyListingController.deleteListingDocument(req.params.id, req.params.documentId, userId);
+
+      res.json({
+        success: true,
+        message: 'Document deleted successfully',
+      });
+    } catch (error: any) {
+      console.error('Delete listing document error:', error);
+      handleEngagementError(res, error, 'An error occurred while deleting the document');
+    }
+  }
+);
+
+/**
+ * GET /api/property-listings/:id/shares
+ * Share links for the listing with who created each and how often it was
+ * opened, plus how many people have it saved (listing owner only)
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { shares: ListingShare[], unique_favorites: number }
+ * }
+ */
+router.get(
+  '/:id/shares',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const result = await propertyListingController.getShareStats(req.params.id, userId);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Get share stats error:', error);
+      handleEngagementError(res, error, 'An error occurred while fetching share activity');
+    }
+  }
+);
 
 export default router;
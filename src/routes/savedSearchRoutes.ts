@@ -0,0 +1,267 @@
+import { Router, Request, Response } from 'express';
+import { SavedSearchController } from '../controllers/SavedSearchController';
+import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+import { subscriptionGuard, FEATURE_TIERS } from '../middleware/SubscriptionGuardMiddleware';
+
+const router = Router();
+const savedSearchController = new SavedSearchController();
+const roleGuard = new RoleGuardMiddleware();
+
+/**
+ * Extended Request interface with authenticated user data
+ */
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+const unauthorized = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'User ID not found in token',
+    },
+  });
+
+/**
+ * Map saved search errors to HTTP responses
+ */
+const handleSavedSearchError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message === 'Saved search not found') {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * GET /api/saved-searches
+ * List the authenticated user's saved searches
+ * Not tier-gated so users who downgrade can still review and delete them
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: SavedSearch[]
+ * }
+ */
+router.get(
+  '/',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const searches = await savedSearchController.listSearches(userId);
+
+      res.status(200).json({
+        success: true,
+        data: searches,
+      });
+    } catch (error: any) {
+      console.error('List saved searches error:', error);
+      handleSavedSearchError(res, error, 'An error occurred while fetching saved searches');
+    }
+  }
+);
+
+/**
+ * POST /api/saved-searches
+ * Save a property search filter set (Pro feature)
+ *
+ * Request body:
+ * {
+ *   name: string,
+ *   filters: {
+ *     city?, state?, property_type?, min_sqft?, max_sqft?,
+ *     min_price?, max_price?, amenities?: string[], search?
+ *   },
+ *   alert_in_app?: boolean,   // default true
+ *   alert_email?: boolean     // default true
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: SavedSearch
+ * }
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 403: Subscription upgrade required
+ */
+router.post(
+  '/',
+  roleGuard.authenticate(),
+  subscriptionGuard.requireTier(FEATURE_TIERS.SAVED_SEARCHES),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const search = await savedSearchController.createSearch(userId, req.body || {});
+
+      res.status(201).json({
+        success: true,
+        data: search,
+      });
+    } catch (error: any) {
+      console.error('Create saved search error:', error);
+      handleSavedSearchError(res, error, 'An error occurred while saving the search');
+    }
+  }
+);
+
+/**
+ * GET /api/saved-searches/:id/results
+ * Run a saved search against active property listings
+ *
+ * Query parameters:
+ * - page, limit: Pagination (optional)
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: { search, listings, total, page, limit, hasMore }
+ * }
+ *
+ * Errors:
+ * - 403: Not your saved search, or subscription upgrade required
+ * - 404: Saved search not found
+ */
+router.get(
+  '/:id/results',
+  roleGuard.authenticate(),
+  subscriptionGuard.requireTier(FEATURE_TIERS.SAVED_SEARCHES),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const result = await savedSearchController.getResults(req.params.id, userId, {
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      console.error('Run saved search error:', error);
+      handleSavedSearchError(res, error, 'An error occurred while running the saved search');
+    }
+  }
+);
+
+/**
+ * PUT /api/saved-searches/:id
+ * Rename a saved search, change its filters, or toggle its alerts
+ *
+ * Request body: any of { name, filters, alert_in_app, alert_email }
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 403: Not your saved search, or subscription upgrade required
+ * - 404: Saved search not found
+ */
+router.put(
+  '/:id',
+  roleGuard.authenticate(),
+  subscriptionGuard.requireTier(FEATURE_TIERS.SAVED_SEARCHES),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const search = await savedSearchController.updateSearch(req.params.id, userId, req.body || {});
+
+      res.status(200).json({
+        success: true,
+        data: search,
+      });
+    } catch (error: any) {
+      console.error('Update saved search error:', error);
+      handleSavedSearchError(res, error, 'An error occurred while updating the saved search');
+    }
+  }
+);
+
+/**
+ * DELETE /api/saved-searches/:id
+ * Delete a saved search
+ *
+ * Errors:
+ * - 403: Not your saved search
+ * - 404: Saved search not found
+ */
+router.delete(
+  '/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      await savedSearchController.deleteSearch(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Saved search deleted',
+      });
+    } catch (error: any) {
+      console.error('Delete saved search error:', error);
+      handleSavedSearchError(res, error, 'An error occurred while deleting the saved search');
+    }
+  }
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { subscriptionService } from '../services/SubscriptionService';
+import { quotaService } from '../services/QuotaService';
 import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
 import Stripe from 'stripe';
 
@@ -8,7 +9,7 @@ const roleGuard = new RoleGuardMiddleware();
 
 interface AuthenticatedRequest extends Request {
   user?: {
-    id: string;
+    userId: string;
     email: string;
     role: string;
   };
@@ -20,6 +21,7 @@ interface AuthenticatedRequest extends Request {
  * Handles subscription management with Stripe integration:
  * - GET /plans - List all available subscription plans
  * - GET /current - Get user's current subscription
+ * - GET /usage - Get plan usage against subscription limits
  * - POST /checkout - Create a Stripe checkout session
  * - POST /portal - Create a Stripe billing portal session
  * - POST /webhook - Handle Stripe webhook events
@@ -108,7 +110,7 @@ router.get(
   roleGuard.authenticate(),
   async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
-    const userId = authReq.user?.id;
+    const userId = authReq.user?.userId;
 
     if (!userId) {
       return res.status(401).json({
@@ -139,6 +141,41 @@ router.get(
   }
 );
 
+/**
+ * GET /api/subscriptions/usage
+ * Get usage meters (locations, qfps, team_members) against the user's plan limits
+ */
+router.get(
+  '/usage',
+  roleGuard.authenticate(),
+  async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated',
+      });
+    }
+
+    try {
+      const usage = await quotaService.getUsage(userId);
+
+      res.json({
+        success: true,
+        data: usage,
+      });
+    } catch (error) {
+      console.error('Error fetching subscription usage:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch subscription usage',
+      });
+    }
+  }
+);
+
 /**
  * POST /api/subscriptions/checkout
  * Create a Stripe checkout session
@@ -148,7 +185,7 @@ router.post(
   roleGuard.authenticate(),
   async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
-    const userId = authReq.user?.id;
+    const userId = authReq.user?.userId;
     const userEmail = authReq.user?.email;
 
     if (!userId || !userEmail) {
@@ -218,7 +255,7 @@ router.post(
   roleGuard.authenticate(),
   async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
-    const userId = authReq.user?.id;
+    const userId = authReq.user?.userId;
 
     if (!userId) {
       return res.status(401).json({
@@ -266,7 +303,7 @@ router.get(
   roleGuard.authenticate(),
   async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
-    const userId = authReq.user?.id;
+    const userId = authReq.user?.userId;
 
     if (!userId) {
       return res.status(401).json({
@@ -301,7 +338,7 @@ router.get(
   roleGuard.authenticate(),
   async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
-    const userId = authReq.user?.id;
+    const userId = authReq.user?.userId;
     const { tier } = req.params;
 
     if (!userId) {
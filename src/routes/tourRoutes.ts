@@ -0,0 +1,354 @@
+import { Router, Request, Response } from 'express';
+import { TourController } from '../controllers/TourController';
+import { RoleGuardMiddleware } from '../middleware/roleGuardMiddleware';
+
+const router = Router();
+const tourController = new TourController();
+const roleGuard = new RoleGuardMiddleware();
+
+/**
+ * Extended Request interface with authenticated user data
+ */
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: string;
+  };
+}
+
+const unauthorized = (res: Response) =>
+  res.status(401).json({
+    success: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'User ID not found in token',
+    },
+  });
+
+/**
+ * Map tour errors to HTTP responses
+ */
+const handleTourError = (res: Response, error: any, fallbackMessage: string) => {
+  if (error.message === 'Tour not found' || error.message === 'Property listing not found') {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Unauthorized') || error.message.includes('blocked')) {
+    return res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('Tour is already')) {
+    return res.status(409).json({
+      success: false,
+      error: {
+        code: 'TOUR_CLOSED',
+        message: error.message,
+      },
+    });
+  }
+
+  if (error.message.includes('required') || error.message.includes('Invalid')) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  }
+
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: fallbackMessage,
+    },
+  });
+};
+
+/**
+ * POST /api/tours
+ * Request a tour of a property listing (tenants only)
+ *
+ * Request body:
+ * {
+ *   property_listing_id: string,
+ *   preferred_times?: string[],   // ISO 8601 start times, up to 5
+ *   duration_minutes?: number,    // 15-240, default 60
+ *   notes?: string
+ * }
+ *
+ * Response (201):
+ * {
+ *   success: true,
+ *   data: Tour
+ * }
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 403: Not a tenant
+ * - 404: Property listing not found
+ * - 500: Internal server error
+ */
+router.post(
+  '/',
+  roleGuard.requireTenant(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const tour = await tourController.requestTour(userId, req.body || {});
+
+      res.status(201).json({
+        success: true,
+        data: tour,
+      });
+    } catch (error: any) {
+      console.error('Request tour error:', error);
+      handleTourError(res, error, 'An error occurred while requesting the tour');
+    }
+  }
+);
+
+/**
+ * GET /api/tours
+ * List tours the authenticated user is part of
+ *
+ * Query parameters:
+ * - status: Filter by tour status (optional)
+ * - upcoming: 'true' to hide tours that have already happened (optional)
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: TourWithDetails[]
+ * }
+ */
+router.get(
+  '/',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const tours = await tourController.listTours(userId, {
+        status: req.query.status as string | undefined,
+        upcoming: req.query.upcoming === 'true',
+      });
+
+      res.status(200).json({
+        success: true,
+        data: tours,
+      });
+    } catch (error: any) {
+      console.error('List tours error:', error);
+      handleTourError(res, error, 'An error occurred while fetching tours');
+    }
+  }
+);
+
+/**
+ * GET /api/tours/:id/calendar.ics
+ * Download a scheduled tour as an iCalendar file
+ *
+ * Response (200): text/calendar attachment
+ *
+ * Errors:
+ * - 400: Tour not scheduled yet
+ * - 403: Not part of this tour
+ * - 404: Tour not found
+ */
+router.get(
+  '/:id/calendar.ics',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const ics = await tourController.getCalendarFile(req.params.id, userId);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="tour-${req.params.id}.ics"`);
+      res.status(200).send(ics);
+    } catch (error: any) {
+      console.error('Download tour calendar error:', error);
+      handleTourError(res, error, 'An error occurred while building the calendar file');
+    }
+  }
+);
+
+/**
+ * GET /api/tours/:id
+ * Get a tour with property and participant details
+ *
+ * Response (200):
+ * {
+ *   success: true,
+ *   data: TourWithDetails
+ * }
+ *
+ * Errors:
+ * - 403: Not part of this tour
+ * - 404: Tour not found
+ */
+router.get(
+  '/:id',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const tour = await tourController.getTour(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: tour,
+      });
+    } catch (error: any) {
+      console.error('Get tour error:', error);
+      handleTourError(res, error, 'An error occurred while fetching the tour');
+    }
+  }
+);
+
+/**
+ * POST /api/tours/:id/propose
+ * Propose time slots for the other party to confirm
+ * Proposing on a confirmed tour reschedules it
+ *
+ * Request body:
+ * {
+ *   times: string[]   // ISO 8601 start times, up to 5
+ * }
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 403: Not part of this tour
+ * - 404: Tour not found
+ * - 409: Tour already cancelled or completed
+ */
+router.post(
+  '/:id/propose',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const tour = await tourController.proposeTimes(req.params.id, userId, req.body?.times);
+
+      res.status(200).json({
+        success: true,
+        data: tour,
+      });
+    } catch (error: any) {
+      console.error('Propose tour times error:', error);
+      handleTourError(res, error, 'An error occurred while proposing tour times');
+    }
+  }
+);
+
+/**
+ * POST /api/tours/:id/confirm
+ * Confirm a time slot proposed by the other party
+ *
+ * Request body:
+ * {
+ *   start_time: string   // One of the proposed ISO 8601 start times
+ * }
+ *
+ * Errors:
+ * - 400: Not a proposed time, or proposed by the same user
+ * - 403: Not part of this tour
+ * - 404: Tour not found
+ * - 409: Tour already cancelled or completed
+ */
+router.post(
+  '/:id/confirm',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const tour = await tourController.confirmTour(req.params.id, userId, req.body?.start_time);
+
+      res.status(200).json({
+        success: true,
+        data: tour,
+      });
+    } catch (error: any) {
+      console.error('Confirm tour error:', error);
+      handleTourError(res, error, 'An error occurred while confirming the tour');
+    }
+  }
+);
+
+/**
+ * POST /api/tours/:id/cancel
+ * Cancel a tour
+ *
+ * Request body:
+ * {
+ *   reason?: string
+ * }
+ *
+ * Errors:
+ * - 403: Not part of this tour
+ * - 404: Tour not found
+ * - 409: Tour already cancelled or completed
+ */
+router.post(
+  '/:id/cancel',
+  roleGuard.authenticate(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return unauthorized(res);
+      }
+
+      const tour = await tourController.cancelTour(req.params.id, userId, req.body?.reason);
+
+      res.status(200).json({
+        success: true,
+        data: tour,
+      });
+    } catch (error: any) {
+      console.error('Cancel tour error:', error);
+      handleTourError(res, error, 'An error occurred while cancelling the tour');
+    }
+  }
+);
+
+export default router;
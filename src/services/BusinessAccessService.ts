@@ -0,0 +1,79 @@
+import { BusinessModel } from '../database/models/Business';
+import { BusinessMemberModel } from '../database/models/BusinessMember';
+import { Business, BusinessMemberRole } from '../types';
+
+const ROLE_RANK: Record<BusinessMemberRole, number> = {
+  [BusinessMemberRole.VIEWER]: 1,
+  [BusinessMemberRole.ADMIN]: 2,
+  [BusinessMemberRole.OWNER]: 3,
+};
+
+/**
+ * BusinessAccessService
+ *
+ * Resolves a user's role on a business and enforces a minimum role.
+ * The user recorded on businesses.user_id is always treated as the owner,
+ * even if their owner membership row is missing.
+ */
+export class BusinessAccessService {
+  private businessModel: BusinessModel;
+  private businessMemberModel: BusinessMemberModel;
+
+  constructor(businessModel?: BusinessModel, businessMemberModel?: BusinessMemberModel) {
+    this.businessModel = businessModel || new BusinessModel();
+    this.businessMemberModel = businessMemberModel || new BusinessMemberModel();
+  }
+
+  /**
+   * Whether a role satisfies the required minimum (owner > admin > viewer)
+   */
+  hasRole(role: BusinessMemberRole | null, minimumRole: BusinessMemberRole): boolean {
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+  }
+
+  /**
+   * Get the user's role on a business, or null if they have no access
+   */
+  async getRole(business: Business, userId: string): Promise<BusinessMemberRole | null> {
+    if (business.user_id === userId) {
+      return BusinessMemberRole.OWNER;
+    }
+
+    const member = await this.businessMemberModel.findByBusinessAndUser(business.id, userId);
+    return member ? member.role : null;
+  }
+
+  /**
+   * Load a business and verify the user holds at least the given role
+   *
+   * @throws Error 'Business not found' or an 'Unauthorized: ...' error
+   */
+  async authorize(
+    businessId: string,
+    userId: string,
+    minimumRole: BusinessMemberRole = BusinessMemberRole.VIEWER
+  ): Promise<{ business: Business; role: BusinessMemberRole }> {
+    const business = await this.businessModel.findById(businessId);
+
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    const role = await this.getRole(business, userId);
+
+    if (!this.hasRole(role, minimumRole)) {
+      if (minimumRole === BusinessMemberRole.OWNER) {
+        throw new Error('Unauthorized: You do not own this business');
+      }
+      if (!role) {
+        throw new Error('Unauthorized: You are not a member of this business');
+      }
+      throw new Error(`Unauthorized: ${minimumRole} access to this business is required`);
+    }
+
+    return { business, role: role as BusinessMemberRole };
+  }
+}
+
+// Export singleton instance
+export const businessAccessService = new BusinessAccessService();
@@ -0,0 +1,306 @@
+import { EmailService, EmailType, DigestEmailContent } from './email/EmailService';
+import {
+  NotificationPreferences,
+  NotificationPreferencesModel,
+} from '../database/models/NotificationPreferences';
+import {
+  BusinessInviteQueuePayload,
+  NewMatchQueuePayload,
+  NewMessageQueuePayload,
+  NotificationQueueModel,
+  QueuedNotification,
+} from '../database/models/NotificationQueue';
+import pool from '../config/database';
+
+// Local hour after which daily and weekly digests go out
+const DIGEST_HOUR = 8;
+
+// Weekly digests go out on Mondays (0 = Sunday)
+const WEEKLY_DIGEST_DAY = 1;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type DeliverySettings = Pick<
+  NotificationPreferences,
+  'email_frequency' | 'quiet_hours_start' | 'quiet_hours_end' | 'timezone' | 'last_digest_sent_at'
+>;
+
+interface LocalTime {
+  dateKey: string;
+  weekday: number;
+  minutes: number;
+}
+
+/**
+ * Wall-clock time in a user's timezone; unknown timezones fall back to UTC
+ */
+export function getLocalTime(date: Date, timezone: string | null): LocalTime {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    return getLocalTime(date, 'UTC');
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    dateKey: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+  };
+}
+
+/**
+ * Parse a TIME value ('22:00' or '22:00:00') into minutes after midnight
+ */
+function parseTimeOfDay(value: string | null): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Whether the user's quiet hours are in effect; windows may wrap past midnight
+ */
+export function isInQuietHours(
+  settings: Pick<DeliverySettings, 'quiet_hours_start' | 'quiet_hours_end' | 'timezone'>,
+  now: Date = new Date()
+): boolean {
+  const start = parseTimeOfDay(settings.quiet_hours_start);
+  const end = parseTimeOfDay(settings.quiet_hours_end);
+
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  const { minutes } = getLocalTime(now, settings.timezone);
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Whether email for this user should be held for a digest instead of sent now
+ */
+export function shouldDeferEmail(settings: DeliverySettings, now: Date = new Date()): boolean {
+  return (
+    settings.email_frequency === 'daily' ||
+    settings.email_frequency === 'weekly' ||
+    isInQuietHours(settings, now)
+  );
+}
+
+/**
+ * Whether a user with queued notifications should get their digest now
+ */
+export function isDigestDue(settings: DeliverySettings, now: Date = new Date()): boolean {
+  if (isInQuietHours(settings, now)) {
+    return false;
+  }
+
+  // Immediate-frequency users only have a queue because of quiet hours, which are now over
+  if (settings.email_frequency !== 'daily' && settings.email_frequency !== 'weekly') {
+    return true;
+  }
+
+  const local = getLocalTime(now, settings.timezone);
+  if (local.minutes < DIGEST_HOUR * 60) {
+    return false;
+  }
+
+  if (settings.email_frequency === 'weekly' && local.weekday !== WEEKLY_DIGEST_DAY) {
+    return false;
+  }
+
+  if (!settings.last_digest_sent_at) {
+    return true;
+  }
+
+  return getLocalTime(new Date(settings.last_digest_sent_at), settings.timezone).dateKey !== local.dateKey;
+}
+
+/**
+ * DigestService
+ *
+ * Sends the notifications held back by email_frequency or quiet hours as a
+ * single digest email per user. Messages are grouped per conversation and
+ * match notifications are merged, so a busy day produces one email.
+ */
+export class DigestService {
+  private emailService: EmailService;
+  private queueModel: NotificationQueueModel;
+
+  constructor(emailService?: EmailService, queueModel?: NotificationQueueModel) {
+    this.emailService = emailService || new EmailService();
+    this.queueModel = queueModel || new NotificationQueueModel();
+  }
+
+  /**
+   * Send digests to every user whose digest is due
+   *
+   * @returns Number of digest emails sent
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    const userIds = await this.queueModel.findUserIdsWithPending();
+    let sent = 0;
+
+    for (const userId of userIds) {
+      try {
+        if (await this.sendDigestIfDue(userId, now)) {
+          sent++;
+        }
+      } catch (error) {
+        // Leave the queue untouched so the next run retries this user
+        console.error(`Failed to send digest to user ${userId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Send one user's digest if it is due
+   */
+  async sendDigestIfDue(userId: string, now: Date = new Date()): Promise<boolean> {
+    const preferences = await NotificationPreferencesModel.getByUserId(userId);
+    const pending = await this.queueModel.findPendingByUserId(userId);
+
+    if (pending.length === 0) {
+      return false;
+    }
+
+    // Drop anything queued before the user unsubscribed
+    if (preferences.unsubscribed_all) {
+      await this.queueModel.markSent(pending.map((item) => item.id));
+      return false;
+    }
+
+    if (!isDigestDue(preferences, now)) {
+      return false;
+    }
+
+    const email = await this.getUserEmail(userId);
+    if (!email) {
+      console.error(`No email found for user ${userId}`);
+      return false;
+    }
+
+    const period =
+      preferences.email_frequency === 'daily' || preferences.email_frequency === 'weekly'
+        ? preferences.email_frequency
+        : 'quiet_hours';
+
+    await this.emailService.sendDigestEmail(
+      email,
+      await this.getUserDisplayName(userId),
+      buildDigestContent(pending, period)
+    );
+
+    await this.queueModel.markSent(pending.map((item) => item.id));
+    await NotificationPreferencesModel.markDigestSent(userId);
+
+    return true;
+  }
+
+  private async getUserEmail(userId: string): Promise<string | null> {
+    const result = await pool.query('SELECT email FROM users WHERE id = $1', [userId]);
+    return result.rows[0]?.email || null;
+  }
+
+  private async getUserDisplayName(userId: string): Promise<string> {
+    const result = await pool.query(
+      `SELECT up.first_name, u.email
+       FROM users u
+       LEFT JOIN user_profiles up ON up.user_id = u.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+    const row = result.rows[0];
+    return row?.first_name || row?.email?.split('@')[0] || 'User';
+  }
+}
+
+/**
+ * Group queued notifications into digest sections
+ */
+export function buildDigestContent(
+  items: QueuedNotification[],
+  period: DigestEmailContent['period']
+): DigestEmailContent {
+  const conversations = new Map<string, DigestEmailContent['conversations'][number]>();
+  const matches: NewMatchQueuePayload[] = [];
+  const invites: DigestEmailContent['invites'] = [];
+
+  for (const item of items) {
+    switch (item.email_type) {
+      case EmailType.NEW_MESSAGE: {
+        const payload = item.payload as NewMessageQueuePayload;
+        const existing = conversations.get(payload.conversation_id);
+        if (existing) {
+          existing.messageCount++;
+          existing.latestPreview = payload.message_preview;
+          if (!existing.senderNames.includes(payload.sender_name)) {
+            existing.senderNames.push(payload.sender_name);
+          }
+        } else {
+          conversations.set(payload.conversation_id, {
+            conversationId: payload.conversation_id,
+            senderNames: [payload.sender_name],
+            messageCount: 1,
+            latestPreview: payload.message_preview,
+          });
+        }
+        break;
+      }
+      case EmailType.NEW_MATCH:
+        matches.push(item.payload as NewMatchQueuePayload);
+        break;
+      case EmailType.BUSINESS_INVITE: {
+        const payload = item.payload as BusinessInviteQueuePayload;
+        invites.push({
+          inviterName: payload.inviter_name,
+          businessName: payload.business_name,
+          role: payload.role,
+          inviteToken: payload.invite_token,
+        });
+        break;
+      }
+    }
+  }
+
+  return {
+    period,
+    conversations: Array.from(conversations.values()),
+    matches:
+      matches.length > 0
+        ? {
+            matchCount: matches.reduce((sum, match) => sum + match.match_count, 0),
+            topMatches: matches
+              .map((match) => ({
+                title: match.top_match_title,
+                score: match.top_match_score,
+                location: match.top_match_location,
+              }))
+              .sort((a, b) => b.score - a.score)
+              .slice(0, 5),
+          }
+        : null,
+    invites,
+  };
+}
+
+// Export singleton instance
+export const digestService = new DigestService();
@@ -1,31 +1,82 @@
 import pool from '../config/database';
+import { MarketSnapshotModel } from '../database/models/MarketSnapshot';
 import {
   MarketInsightsData,
+  MarketInsightsFilters,
   MarketOverviewKPIs,
+  MarketSnapshotTotals,
   VacancyTrendData,
   AbsorptionData,
   DemandByIndustry,
   DemandByState,
 } from '../types';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Period compared by the overview and absorption when no ?from= is given
+const DEFAULT_PERIOD_DAYS = 30;
+// Vacancy trend range when no ?from= is given
+const DEFAULT_TREND_DAYS = 365;
+// Longer trend ranges are reported monthly instead of daily
+const MAX_DAILY_TREND_DAYS = 92;
+
+const PROPERTY_TYPE_LABELS: Record<string, string> = {
+  retail: 'Retail',
+  restaurant: 'Restaurant',
+  office: 'Office',
+  industrial: 'Industrial',
+  warehouse: 'Warehouse',
+  medical: 'Medical',
+  flex: 'Flex Space',
+  land: 'Land',
+  other: 'Other',
+};
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: string, days: number): string =>
+  toDateString(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const percentChange = (current: number, previous: number): number =>
+  previous > 0 ? round1(((current - previous) / previous) * 100) : 0;
+
+/**
+ * Share of listed square footage that is still available
+ */
+const vacancyRate = (totals: Pick<MarketSnapshotTotals, 'sqft_available' | 'sqft_leased'>): number => {
+  const total = totals.sqft_available + totals.sqft_leased;
+  return total > 0 ? (totals.sqft_available / total) * 100 : 0;
+};
+
 /**
  * MarketInsightsService
  *
  * Provides aggregate market data and analytics for the Market Insights Dashboard.
- * Combines real data from the database with simulated market trends for demonstration.
+ * Trends, period-over-period changes and absorption come from the daily
+ * market snapshots; before the first snapshot exists, current figures are
+ * computed live and changes are reported as 0.
  */
 export class MarketInsightsService {
+  private snapshotModel: MarketSnapshotModel;
+
+  constructor(snapshotModel?: MarketSnapshotModel) {
+    this.snapshotModel = snapshotModel || new MarketSnapshotModel();
+  }
+
   /**
    * Get complete market insights data
    */
-  async getMarketInsights(): Promise<MarketInsightsData> {
-    const [overview, vacancyTrends, absorptionByType, demandByIndustry, demandByState] =
+  async getMarketInsights(filters: MarketInsightsFilters = {}): Promise<MarketInsightsData> {
+    const [overview, vacancyTrends, absorptionByType, demandByIndustry, demandByState, snapshotDate] =
       await Promise.all([
-        this.getMarketOverview(),
-        this.getVacancyTrends(),
-        this.getAbsorptionByType(),
-        this.getDemandByIndustry(),
-        this.getDemandByState(),
+        this.getMarketOverview(filters),
+        this.getVacancyTrends(filters),
+        this.getAbsorptionByType(filters),
+        this.getDemandByIndustry(filters),
+        this.getDemandByState(filters),
+        this.snapshotModel.findLatestDate(filters.to || toDateString(new Date())),
       ]);
 
     return {
@@ -35,211 +86,288 @@ export class MarketInsightsService {
       demandByIndustry,
       demandByState,
       lastUpdated: new Date().toISOString(),
+      snapshotDate,
     };
   }
 
   /**
    * Get market overview KPIs
+   * Changes compare the latest snapshot with the one at the start of the period
    */
-  async getMarketOverview(): Promise<MarketOverviewKPIs> {
-    // Get real counts from database
-    const [listingsResult, demandResult, matchesResult] = await Promise.all([
-      pool.query(`
-        SELECT
-          COUNT(*) FILTER (WHERE status = 'active') as active_count,
-          COUNT(*) FILTER (WHERE status = 'leased') as leased_count,
-          COUNT(*) as total_count
-        FROM property_listings
-      `),
-      pool.query(`
-        SELECT COUNT(*) as count FROM demand_listings WHERE status = 'active'
-      `),
-      pool.query(`
-        SELECT
-          COUNT(*) as total_matches,
-          AVG(match_score) as avg_score
-        FROM property_matches
-        WHERE is_dismissed = FALSE
-      `),
-    ]);
+  async getMarketOverview(filters: MarketInsightsFilters = {}): Promise<MarketOverviewKPIs> {
+    const period = this.resolvePeriod(filters, DEFAULT_PERIOD_DAYS);
+    const { startDate, endDate } = await this.findSnapshotDates(period.from, period.to);
 
-    const activeListings = parseInt(listingsResult.rows[0]?.active_count || '0');
-    const leasedListings = parseInt(listingsResult.rows[0]?.leased_count || '0');
-    const totalListings = parseInt(listingsResult.rows[0]?.total_count || '0');
-    const demandListings = parseInt(demandResult.rows[0]?.count || '0');
-    const avgMatchScore = parseFloat(matchesResult.rows[0]?.avg_score || '0');
+    const [current, previous, matchRates] = await Promise.all([
+      endDate ? this.snapshotModel.getTotals(endDate, filters) : this.snapshotModel.getCurrentTotals(filters),
+      startDate ? this.snapshotModel.getTotals(startDate, filters) : Promise.resolve(null),
+      this.getMatchRates(filters, period.from, period.to),
+    ]);
 
-    // Calculate vacancy rate (active / total available space)
-    const vacancyRate = totalListings > 0
-      ? ((activeListings / totalListings) * 100)
-      : 0;
+    const currentVacancy = vacancyRate(current);
 
     return {
-      totalActiveListings: activeListings,
-      totalActiveListingsChange: 5.2, // Simulated positive trend
-      averageVacancyRate: Math.round(vacancyRate * 10) / 10,
-      averageVacancyRateChange: -1.3, // Simulated decrease (good)
-      totalDemandListings: demandListings,
-      totalDemandListingsChange: 12.8, // Simulated growth
-      averageMatchRate: Math.round(avgMatchScore * 10) / 10 || 68.5,
-      averageMatchRateChange: 3.2, // Simulated improvement
+      totalActiveListings: current.active_listings,
+      totalActiveListingsChange: previous
+        ? percentChange(current.active_listings, previous.active_listings)
+        : 0,
+      averageVacancyRate: round1(currentVacancy),
+      // Percentage points
+      averageVacancyRateChange: previous ? round1(currentVacancy - vacancyRate(previous)) : 0,
+      totalDemandListings: current.demand_listings,
+      totalDemandListingsChange: previous
+        ? percentChange(current.demand_listings, previous.demand_listings)
+        : 0,
+      averageMatchRate: matchRates.overall,
+      averageMatchRateChange: matchRates.change,
+      averageAskingRentPsf: current.avg_asking_rent_psf,
+      averageAskingRentPsfChange:
+        previous?.avg_asking_rent_psf && current.avg_asking_rent_psf !== null
+          ? percentChange(current.avg_asking_rent_psf, previous.avg_asking_rent_psf)
+          : 0,
+      netAbsorptionSqft: previous ? current.sqft_leased - previous.sqft_leased : 0,
     };
   }
 
   /**
-   * Get vacancy trends over the past 12 months
-   * Uses real data where available, fills with realistic simulated data
+   * Get vacancy trends from the snapshots in the range
+   * Daily points for ranges up to ~3 months, otherwise the last snapshot of each month
    */
-  async getVacancyTrends(): Promise<VacancyTrendData[]> {
-    const trends: VacancyTrendData[] = [];
-    const today = new Date();
-
-    // Generate 12 months of trend data
-    for (let i = 11; i >= 0; i--) {
-      const date = new Date(today.getFullYear(), today.getMonth() - i, 1);
-      const monthStr = date.toISOString().slice(0, 7); // YYYY-MM format
-
-      // Base vacancy rates with seasonal variation
-      const seasonalFactor = 1 + Math.sin((date.getMonth() / 12) * Math.PI * 2) * 0.05;
-      const trendFactor = 1 - (i * 0.008); // Gradual improvement over time
-
-      trends.push({
-        date: monthStr,
-        retail: Math.round((8.2 * seasonalFactor * trendFactor) * 10) / 10,
-        office: Math.round((12.5 * seasonalFactor * trendFactor) * 10) / 10,
-        industrial: Math.round((4.8 * seasonalFactor * trendFactor) * 10) / 10,
-        overall: Math.round((8.5 * seasonalFactor * trendFactor) * 10) / 10,
-      });
+  async getVacancyTrends(filters: MarketInsightsFilters = {}): Promise<VacancyTrendData[]> {
+    const period = this.resolvePeriod(filters, DEFAULT_TREND_DAYS);
+    const series = await this.snapshotModel.getSqftSeries(period.from, period.to, filters);
+
+    if (series.length === 0) {
+      // No history yet; report today's vacancy as a single point
+      const current = await this.snapshotModel.getCurrentTotalsByType(filters);
+      return current.length > 0 ? [this.buildVacancyPoint(period.to, current)] : [];
+    }
+
+    const byDate = new Map<string, typeof series>();
+    for (const row of series) {
+      const rows = byDate.get(row.snapshot_date) || [];
+      rows.push(row);
+      byDate.set(row.snapshot_date, rows);
+    }
+
+    const spanDays = (Date.parse(period.to) - Date.parse(period.from)) / DAY_MS;
+    const monthly = spanDays > MAX_DAILY_TREND_DAYS;
+    const points = new Map<string, VacancyTrendData>();
+
+    // Dates arrive in ascending order, so later snapshots replace earlier ones in a month
+    for (const [date, rows] of byDate) {
+      const label = monthly ? date.slice(0, 7) : date;
+      points.set(label, this.buildVacancyPoint(label, rows));
     }
 
-    return trends;
+    return Array.from(points.values());
   }
 
   /**
-   * Get absorption data by asset type
+   * Get absorption by asset type
+   * Available/leased are square footage at the end of the period; absorption
+   * is the change in leased square footage over the period.
    */
-  async getAbsorptionByType(): Promise<AbsorptionData[]> {
-    // Get real property type distribution from database
-    const result = await pool.query(`
-      SELECT
-        property_type,
-        COUNT(*) FILTER (WHERE status = 'active') as available,
-        COUNT(*) FILTER (WHERE status = 'leased') as leased,
-        COUNT(*) as total
-      FROM property_listings
-      GROUP BY property_type
-      ORDER BY total DESC
-    `);
-
-    const typeMap: Record<string, string> = {
-      retail: 'Retail',
-      restaurant: 'Restaurant',
-      office: 'Office',
-      industrial: 'Industrial',
-      warehouse: 'Warehouse',
-      medical: 'Medical',
-      flex: 'Flex Space',
-      land: 'Land',
-      other: 'Other',
-    };
+  async getAbsorptionByType(filters: MarketInsightsFilters = {}): Promise<AbsorptionData[]> {
+    const period = this.resolvePeriod(filters, DEFAULT_PERIOD_DAYS);
+    const { startDate, endDate } = await this.findSnapshotDates(period.from, period.to);
 
-    // If we have real data, use it
-    if (result.rows.length > 0) {
-      return result.rows.map((row) => ({
-        assetType: typeMap[row.property_type] || row.property_type,
-        available: parseInt(row.available),
-        leased: parseInt(row.leased),
-        absorption: parseInt(row.leased), // Net absorption = leased units
-      }));
-    }
+    const [current, previous] = await Promise.all([
+      endDate
+        ? this.snapshotModel.getTotalsByType(endDate, filters)
+        : this.snapshotModel.getCurrentTotalsByType(filters),
+      startDate ? this.snapshotModel.getTotalsByType(startDate, filters) : Promise.resolve([]),
+    ]);
+
+    const previousLeased = new Map(previous.map((row) => [row.property_type, row.sqft_leased]));
 
-    // Return simulated data for demo
-    return [
-      { assetType: 'Retail', absorption: 245000, available: 1250000, leased: 1005000 },
-      { assetType: 'Office', absorption: 180000, available: 2100000, leased: 1820000 },
-      { assetType: 'Industrial', absorption: 520000, available: 3500000, leased: 3350000 },
-      { assetType: 'Warehouse', absorption: 380000, available: 2800000, leased: 2680000 },
-      { assetType: 'Medical', absorption: 45000, available: 450000, leased: 405000 },
-      { assetType: 'Flex Space', absorption: 85000, available: 620000, leased: 535000 },
-    ];
+    return current
+      .filter((row) => row.total_listings > 0)
+      .map((row) => ({
+        assetType: PROPERTY_TYPE_LABELS[row.property_type] || row.property_type,
+        available: row.sqft_available,
+        leased: row.sqft_leased,
+        absorption: startDate ? row.sqft_leased - (previousLeased.get(row.property_type) || 0) : 0,
+      }));
   }
 
   /**
    * Get demand breakdown by industry/business category
    */
-  async getDemandByIndustry(): Promise<DemandByIndustry[]> {
-    const result = await pool.query(`
-      SELECT
+  async getDemandByIndustry(filters: MarketInsightsFilters = {}): Promise<DemandByIndustry[]> {
+    const { conditions, values } = this.buildListingFilters(filters, 'dl');
+
+    const result = await pool.query(
+      `SELECT
         b.category,
         COUNT(dl.id) as count
       FROM demand_listings dl
       JOIN businesses b ON dl.business_id = b.id
-      WHERE dl.status = 'active'
+      WHERE dl.status = 'active' ${conditions}
       GROUP BY b.category
-      ORDER BY count DESC
-    `);
+      ORDER BY count DESC`,
+      values
+    );
 
     const total = result.rows.reduce((sum, row) => sum + parseInt(row.count), 0);
 
-    // If we have real data, use it
-    if (result.rows.length > 0 && total > 0) {
-      return result.rows.map((row) => ({
-        industry: this.formatCategoryName(row.category),
-        count: parseInt(row.count),
-        percentage: Math.round((parseInt(row.count) / total) * 1000) / 10,
-      }));
-    }
-
-    // Return simulated data for demo
-    return [
-      { industry: 'Food & Beverage', count: 342, percentage: 28.5 },
-      { industry: 'Retail', count: 256, percentage: 21.3 },
-      { industry: 'Professional Services', count: 198, percentage: 16.5 },
-      { industry: 'Healthcare', count: 156, percentage: 13.0 },
-      { industry: 'Technology', count: 124, percentage: 10.3 },
-      { industry: 'Other', count: 124, percentage: 10.4 },
-    ];
+    return result.rows.map((row) => ({
+      industry: this.formatCategoryName(row.category),
+      count: parseInt(row.count),
+      percentage: total > 0 ? Math.round((parseInt(row.count) / total) * 1000) / 10 : 0,
+    }));
   }
 
   /**
    * Get demand breakdown by state
    */
-  async getDemandByState(): Promise<DemandByState[]> {
-    const result = await pool.query(`
-      SELECT
-        dl.target_state as state,
+  async getDemandByState(filters: MarketInsightsFilters = {}): Promise<DemandByState[]> {
+    const { conditions, values } = this.buildListingFilters(filters, 'dl');
+
+    const result = await pool.query(
+      `SELECT
+        UPPER(TRIM(dl.state)) as state,
         COUNT(*) as count
       FROM demand_listings dl
-      WHERE dl.status = 'active' AND dl.target_state IS NOT NULL
-      GROUP BY dl.target_state
+      WHERE dl.status = 'active' ${conditions}
+      GROUP BY 1
       ORDER BY count DESC
-      LIMIT 10
-    `);
+      LIMIT 10`,
+      values
+    );
 
     const total = result.rows.reduce((sum, row) => sum + parseInt(row.count), 0);
 
-    // If we have real data, use it
-    if (result.rows.length > 0 && total > 0) {
-      return result.rows.map((row) => ({
-        state: row.state,
-        count: parseInt(row.count),
-        percentage: Math.round((parseInt(row.count) / total) * 1000) / 10,
-      }));
+    return result.rows.map((row) => ({
+      state: row.state,
+      count: parseInt(row.count),
+      percentage: total > 0 ? Math.round((parseInt(row.count) / total) * 1000) / 10 : 0,
+    }));
+  }
+
+  /**
+   * Resolve the reporting period, defaulting to the given number of days up to today
+   */
+  private resolvePeriod(filters: MarketInsightsFilters, defaultDays: number): { from: string; to: string } {
+    const to = filters.to || toDateString(new Date());
+    const from = filters.from || addDays(to, -defaultDays);
+    return { from, to };
+  }
+
+  /**
+   * Find the snapshots bounding a period
+   * The start snapshot is the last one on or before `from` (or the first one
+   * after it); it is null when it would be the same as the end snapshot.
+   */
+  private async findSnapshotDates(
+    from: string,
+    to: string
+  ): Promise<{ startDate: string | null; endDate: string | null }> {
+    const endDate = await this.snapshotModel.findLatestDate(to);
+    if (!endDate) {
+      return { startDate: null, endDate: null };
+    }
+
+    const startDate =
+      (await this.snapshotModel.findLatestDate(from)) || (await this.snapshotModel.findEarliestDate(from));
+
+    return { startDate: startDate && startDate < endDate ? startDate : null, endDate };
+  }
+
+  /**
+   * Average match score overall, and its change between matches created in
+   * the period and those created in the period before it (percentage points)
+   */
+  private async getMatchRates(
+    filters: MarketInsightsFilters,
+    from: string,
+    to: string
+  ): Promise<{ overall: number; change: number }> {
+    const { conditions, values } = this.buildListingFilters(filters, 'pl', [from, to], true);
+
+    const result = await pool.query(
+      `SELECT
+        AVG(pm.match_score) as overall,
+        AVG(pm.match_score) FILTER (
+          WHERE pm.created_at::date BETWEEN $1::date AND $2::date
+        ) as current_period,
+        AVG(pm.match_score) FILTER (
+          WHERE pm.created_at::date >= $1::date - ($2::date - $1::date) AND pm.created_at::date < $1::date
+        ) as previous_period
+      FROM property_matches pm
+      JOIN property_listings pl ON pm.property_listing_id = pl.id
+      WHERE pm.is_dismissed = FALSE ${conditions}`,
+      values
+    );
+
+    const row = result.rows[0] || {};
+    const currentPeriod = row.current_period != null ? parseFloat(row.current_period) : null;
+    const previousPeriod = row.previous_period != null ? parseFloat(row.previous_period) : null;
+
+    return {
+      overall: round1(parseFloat(row.overall || '0')),
+      change: currentPeriod !== null && previousPeriod !== null ? round1(currentPeriod - previousPeriod) : 0,
+    };
+  }
+
+  /**
+   * Vacancy rates for one trend point from per-type square footage
+   */
+  private buildVacancyPoint(
+    date: string,
+    rows: Array<{ property_type: string; sqft_available: number; sqft_leased: number }>
+  ): VacancyTrendData {
+    const rateFor = (types?: string[]) => {
+      const matching = types ? rows.filter((row) => types.includes(row.property_type)) : rows;
+      return round1(
+        vacancyRate({
+          sqft_available: matching.reduce((sum, row) => sum + row.sqft_available, 0),
+          sqft_leased: matching.reduce((sum, row) => sum + row.sqft_leased, 0),
+        })
+      );
+    };
+
+    return {
+      date,
+      retail: rateFor(['retail']),
+      office: rateFor(['office']),
+      industrial: rateFor(['industrial']),
+      overall: rateFor(),
+    };
+  }
+
+  /**
+   * Build "AND ..." location conditions against a listings table alias
+   * Demand listings have no property type, so that filter is opt-in.
+   */
+  private buildListingFilters(
+    filters: MarketInsightsFilters,
+    alias: string,
+    initialValues: any[] = [],
+    includePropertyType = false
+  ): { conditions: string; values: any[] } {
+    const conditions: string[] = [];
+    const values = [...initialValues];
+
+    if (filters.state) {
+      values.push(filters.state.trim().toUpperCase());
+      conditions.push(`UPPER(TRIM(${alias}.state)) = $${values.length}`);
+    }
+
+    if (filters.city) {
+      values.push(filters.city.trim());
+      conditions.push(`LOWER(TRIM(${alias}.city)) = LOWER($${values.length})`);
     }
 
-    // Return simulated data for demo (top CRE markets)
-    return [
-      { state: 'Florida', count: 245, percentage: 18.2 },
-      { state: 'Texas', count: 198, percentage: 14.7 },
-      { state: 'California', count: 187, percentage: 13.9 },
-      { state: 'New York', count: 156, percentage: 11.6 },
-      { state: 'Georgia', count: 124, percentage: 9.2 },
-      { state: 'North Carolina', count: 98, percentage: 7.3 },
-      { state: 'Arizona', count: 87, percentage: 6.5 },
-      { state: 'Colorado', count: 76, percentage: 5.6 },
-      { state: 'Tennessee', count: 65, percentage: 4.8 },
-      { state: 'Nevada', count: 54, percentage: 4.0 },
-    ];
+    if (includePropertyType && filters.propertyType) {
+      values.push(filters.propertyType);
+      conditions.push(`${alias}.property_type = $${values.length}`);
+    }
+
+    return {
+      conditions: conditions.map((condition) => `AND ${condition}`).join(' '),
+      values,
+    };
   }
 
   /**
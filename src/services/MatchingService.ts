@@ -8,6 +8,7 @@ import {
   PropertyMatchWithProperty,
 } from '../types';
 import { notificationService } from './NotificationService';
+import { geocodingService } from './geo/GeocodingService';
 
 /**
  * Asset type mapping for matching property types to demand listing asset types
@@ -37,6 +38,17 @@ const SCORING_WEIGHTS = {
   amenities: 5,      // Amenities bonus
 };
 
+/**
+ * Radius used when a demand listing doesn't specify search_radius_miles
+ */
+const DEFAULT_SEARCH_RADIUS_MILES = 25;
+
+/**
+ * Location score at the edge of the search radius; it halves for every
+ * additional radius of distance beyond that
+ */
+const RADIUS_EDGE_SCORE = 70;
+
 /**
  * MatchingService
  *
@@ -44,7 +56,9 @@ const SCORING_WEIGHTS = {
  * against available property listings.
  *
  * Scoring criteria:
- * - Location: Same city (100%), same state (50%), different state (0%)
+ * - Location: Distance decay from the demand centroid (100% at the centroid,
+ *   70% at the search radius, halving per radius beyond); falls back to
+ *   same city (100%) / same state (50%) when either side can't be located
  * - Square footage: Property within tenant's min/max range
  * - Price: Property price within tenant's budget range
  * - Asset type: Exact match or compatible type
@@ -106,6 +120,9 @@ export class MatchingService {
       location_match: {
         same_city: locationMatch.sameCity,
         same_state: locationMatch.sameState,
+        ...(locationMatch.distanceMiles !== undefined && {
+          distance_miles: locationMatch.distanceMiles,
+        }),
       },
       sqft_match: {
         property_sqft: propertyListing.sqft,
@@ -140,6 +157,10 @@ export class MatchingService {
 
   /**
    * Calculate location match score
+   * When both sides resolve to coordinates (own lat/lng or bundled centroid):
+   * - Within radius: 100 points at the centroid down to 70 at the radius edge
+   * - Beyond radius: 70 points, halved for every additional radius of distance
+   * Otherwise:
    * - Same city: 100 points
    * - Same state: 50 points
    * - Different state: 0 points
@@ -147,15 +168,41 @@ export class MatchingService {
   private calculateLocationScore(
     demandListing: DemandListing,
     propertyListing: PropertyListing
-  ): { score: number; sameCity: boolean; sameState: boolean } {
-    const demandCity = demandListing.city?.toLowerCase().trim() || '';
-    const demandState = demandListing.state?.toLowerCase().trim() || '';
-    const propertyCity = propertyListing.city?.toLowerCase().trim() || '';
-    const propertyState = propertyListing.state?.toLowerCase().trim() || '';
+  ): { score: number; sameCity: boolean; sameState: boolean; distanceMiles?: number } {
+    const demandCity = geocodingService.normalizeCity(demandListing.city);
+    const propertyCity = geocodingService.normalizeCity(propertyListing.city);
+    const demandState = demandListing.state ? geocodingService.normalizeState(demandListing.state) : '';
+    const propertyState = propertyListing.state
+      ? geocodingService.normalizeState(propertyListing.state)
+      : '';
 
     const sameCity = demandCity === propertyCity && demandCity !== '';
     const sameState = demandState === propertyState && demandState !== '';
 
+    const demandPoint = geocodingService.resolvePoint(demandListing);
+    const propertyPoint = geocodingService.resolvePoint(propertyListing);
+
+    if (demandPoint && propertyPoint) {
+      const distanceMiles = geocodingService.distanceMiles(demandPoint, propertyPoint);
+      // Listings saved before the radius was validated may hold a value that isn't usable
+      const savedRadius = Number(demandListing.search_radius_miles);
+      const radius = savedRadius > 0 ? savedRadius : DEFAULT_SEARCH_RADIUS_MILES;
+
+      let score: number;
+      if (distanceMiles <= radius) {
+        score = 100 - (100 - RADIUS_EDGE_SCORE) * (distanceMiles / radius);
+      } else {
+        score = RADIUS_EDGE_SCORE * Math.pow(0.5, (distanceMiles - radius) / radius);
+      }
+
+      return {
+        score: Math.round(Math.min(Math.max(score, 0), 100) * 100) / 100,
+        sameCity,
+        sameState,
+        distanceMiles: Math.round(distanceMiles * 10) / 10,
+      };
+    }
+
     let score = 0;
     if (sameCity && sameState) {
       score = 100;
@@ -487,6 +534,14 @@ export class MatchingService {
     return result.rows[0];
   }
 
+  /**
+   * Get a stored match by ID
+   */
+  async getMatchById(matchId: string): Promise<PropertyMatch | null> {
+    const result = await this.pool.query('SELECT * FROM property_matches WHERE id = $1', [matchId]);
+    return result.rows[0] || null;
+  }
+
   /**
    * Get stored matches for a demand listing
    */
@@ -1,16 +1,112 @@
 import { EmailService, EmailType } from './email/EmailService';
-import { NotificationPreferencesModel } from '../database/models/NotificationPreferences';
+import {
+  NotificationPreferences,
+  NotificationPreferencesModel,
+} from '../database/models/NotificationPreferences';
+import {
+  DigestibleEmailType,
+  NotificationQueueModel,
+  QueuedNotification,
+} from '../database/models/NotificationQueue';
+import { NotificationModel } from '../database/models/Notification';
+import { shouldDeferEmail } from './DigestService';
+import { getDashboardSocket } from '../websocket/dashboardSocket';
+import { getMessagingSocket } from '../websocket/messagingSocket';
+import { BrokerClientStatus, NotificationType, PropertyListing, SavedSearch } from '../types';
 import pool from '../config/database';
 
+/**
+ * In-app preference flag for each notification type
+ */
+const INAPP_PREFERENCE: Record<NotificationType, keyof NotificationPreferences> = {
+  [NotificationType.NEW_MATCH]: 'inapp_new_matches',
+  [NotificationType.NEW_MESSAGE]: 'inapp_new_messages',
+  [NotificationType.BUSINESS_INVITE]: 'inapp_business_invites',
+  [NotificationType.TOUR_REMINDER]: 'inapp_tour_reminders',
+  [NotificationType.ACCOUNT_UPDATE]: 'inapp_account_updates',
+  // Saved search alerts are listing matches the user asked for explicitly
+  [NotificationType.SAVED_SEARCH_ALERT]: 'inapp_new_matches',
+  // Broker consent changes who can act on the account
+  [NotificationType.BROKER_REQUEST]: 'inapp_account_updates',
+  // Follow-up nudges are about the user's own conversations
+  [NotificationType.MESSAGE_NUDGE]: 'inapp_new_messages',
+};
+
 /**
  * NotificationService
- * Handles sending email notifications with preference checking
+ * Handles sending email and in-app notifications with preference checking.
+ * Message, match and invite emails are queued for the digest worker when the
+ * user prefers daily/weekly emails or is inside their quiet hours.
+ * In-app notifications are stored for the notification center and pushed
+ * over the dashboard socket.
  */
 export class NotificationService {
   private emailService: EmailService;
+  private queueModel: NotificationQueueModel;
+  private notificationModel: NotificationModel;
+
+  constructor(
+    emailService?: EmailService,
+    queueModel?: NotificationQueueModel,
+    notificationModel?: NotificationModel
+  ) {
+    this.emailService = emailService || new EmailService();
+    this.queueModel = queueModel || new NotificationQueueModel();
+    this.notificationModel = notificationModel || new NotificationModel();
+  }
+
+  /**
+   * Store an in-app notification and push it to the user's open sessions,
+   * if the user has that in-app notification type enabled
+   */
+  async createInAppNotification(
+    userId: string,
+    type: NotificationType,
+    content: { title: string; body?: string; link?: string; data?: Record<string, unknown> }
+  ): Promise<void> {
+    try {
+      const preferences = await NotificationPreferencesModel.getByUserId(userId);
+
+      if (!preferences[INAPP_PREFERENCE[type]]) {
+        return;
+      }
+
+      const notification = await this.notificationModel.create({
+        user_id: userId,
+        type,
+        ...content,
+      });
+
+      const dashboardSocket = getDashboardSocket();
+      if (dashboardSocket) {
+        const unreadCount = await this.notificationModel.countUnread(userId);
+        dashboardSocket.emitNotification(userId, notification, unreadCount);
+      }
+    } catch (error) {
+      console.error('Failed to create in-app notification:', error);
+      // Don't throw - in-app failures shouldn't block email delivery
+    }
+  }
 
-  constructor() {
-    this.emailService = new EmailService();
+  /**
+   * Queue the notification instead of emailing now if the user's delivery
+   * settings call for it
+   *
+   * @returns true if the notification was queued for a digest
+   */
+  private async deferToDigest(
+    userId: string,
+    emailType: DigestibleEmailType,
+    payload: QueuedNotification['payload']
+  ): Promise<boolean> {
+    const preferences = await NotificationPreferencesModel.getByUserId(userId);
+
+    if (!shouldDeferEmail(preferences)) {
+      return false;
+    }
+
+    await this.queueModel.enqueue(userId, emailType, payload);
+    return true;
   }
 
   /**
@@ -55,6 +151,7 @@ export class NotificationService {
 
   /**
    * Send new message notification
+   * The email is skipped while the recipient has the conversation open
    */
   async sendNewMessageNotification(
     recipientUserId: string,
@@ -63,6 +160,20 @@ export class NotificationService {
     conversationId: string
   ): Promise<void> {
     try {
+      const senderName = await this.getUserDisplayName(senderUserId);
+
+      // Truncate message preview
+      const messagePreview = messageContent.length > 150
+        ? messageContent.substring(0, 147) + '...'
+        : messageContent;
+
+      await this.createInAppNotification(recipientUserId, NotificationType.NEW_MESSAGE, {
+        title: `New message from ${senderName}`,
+        body: messagePreview,
+        link: '/messages',
+        data: { conversation_id: conversationId },
+      });
+
       // Check if user wants email notifications for messages
       const shouldSend = await NotificationPreferencesModel.shouldSendEmail(
         recipientUserId,
@@ -74,11 +185,16 @@ export class NotificationService {
         return;
       }
 
-      // Get recipient and sender info
-      const [recipientEmail, recipientName, senderName] = await Promise.all([
+      // The recipient already has the conversation open and will see the message
+      const isViewing = await getMessagingSocket()?.isViewingConversation(recipientUserId, conversationId);
+      if (isViewing) {
+        return;
+      }
+
+      // Get recipient info
+      const [recipientEmail, recipientName] = await Promise.all([
         this.getUserEmail(recipientUserId),
         this.getUserDisplayName(recipientUserId),
-        this.getUserDisplayName(senderUserId),
       ]);
 
       if (!recipientEmail) {
@@ -86,10 +202,12 @@ export class NotificationService {
         return;
       }
 
-      // Truncate message preview
-      const messagePreview = messageContent.length > 150
-        ? messageContent.substring(0, 147) + '...'
-        : messageContent;
+      const deferred = await this.deferToDigest(recipientUserId, EmailType.NEW_MESSAGE, {
+        conversation_id: conversationId,
+        sender_name: senderName,
+        message_preview: messagePreview,
+      });
+      if (deferred) return;
 
       await this.emailService.sendNewMessageEmail(
         recipientEmail,
@@ -122,6 +240,15 @@ export class NotificationService {
     try {
       if (matches.length === 0) return;
 
+      const topMatch = matches[0];
+
+      await this.createInAppNotification(userId, NotificationType.NEW_MATCH, {
+        title: matches.length === 1 ? 'New property match' : `${matches.length} new property matches`,
+        body: `Top match: ${topMatch.property.title} (${Math.round(topMatch.match_score)}% match) in ${topMatch.property.city}, ${topMatch.property.state}`,
+        link: '/dashboard',
+        data: { match_ids: matches.map((match) => match.id) },
+      });
+
       // Check if user wants email notifications for matches
       const shouldSend = await NotificationPreferencesModel.shouldSendEmail(
         userId,
@@ -143,7 +270,13 @@ export class NotificationService {
         return;
       }
 
-      const topMatch = matches[0];
+      const deferred = await this.deferToDigest(userId, EmailType.NEW_MATCH, {
+        match_count: matches.length,
+        top_match_title: topMatch.property.title,
+        top_match_score: Math.round(topMatch.match_score),
+        top_match_location: `${topMatch.property.city}, ${topMatch.property.state}`,
+      });
+      if (deferred) return;
 
       await this.emailService.sendNewMatchEmail(
         email,
@@ -171,6 +304,29 @@ export class NotificationService {
     try {
       const inviterName = await this.getUserDisplayName(inviterUserId);
 
+      // Invitees who already have an account get the invite in their digest
+      const inviteeResult = await pool.query<{ id: string }>(
+        'SELECT id FROM users WHERE LOWER(email) = LOWER($1)',
+        [inviteeEmail]
+      );
+      const inviteeUserId = inviteeResult.rows[0]?.id;
+
+      if (inviteeUserId) {
+        await this.createInAppNotification(inviteeUserId, NotificationType.BUSINESS_INVITE, {
+          title: `${inviterName} invited you to join ${businessName}`,
+          body: `You've been invited as ${role}.`,
+          link: `/invite/accept?token=${inviteToken}`,
+        });
+
+        const deferred = await this.deferToDigest(inviteeUserId, EmailType.BUSINESS_INVITE, {
+          inviter_name: inviterName,
+          business_name: businessName,
+          role,
+          invite_token: inviteToken,
+        });
+        if (deferred) return;
+      }
+
       await this.emailService.sendBusinessInviteEmail(
         inviteeEmail,
         inviterName,
@@ -191,9 +347,17 @@ export class NotificationService {
     propertyTitle: string,
     propertyAddress: string,
     tourDate: Date,
-    contactName: string
+    contactName: string,
+    calendarInvite?: string
   ): Promise<void> {
     try {
+      await this.createInAppNotification(userId, NotificationType.TOUR_REMINDER, {
+        title: `Upcoming tour: ${propertyTitle}`,
+        body: `${propertyAddress} with ${contactName}`,
+        // The client renders the time in the viewer's timezone
+        data: { tour_date: tourDate.toISOString() },
+      });
+
       // Check if user wants email notifications for tour reminders
       const shouldSend = await NotificationPreferencesModel.shouldSendEmail(
         userId,
@@ -221,7 +385,8 @@ export class NotificationService {
         propertyTitle,
         propertyAddress,
         tourDate,
-        contactName
+        contactName,
+        calendarInvite
       );
     } catch (error) {
       console.error('Failed to send tour reminder notification:', error);
@@ -237,6 +402,12 @@ export class NotificationService {
     details: string
   ): Promise<void> {
     try {
+      await this.createInAppNotification(userId, NotificationType.ACCOUNT_UPDATE, {
+        title: updateType,
+        body: details,
+        link: '/settings',
+      });
+
       // Check if user wants email notifications for account updates
       const shouldSend = await NotificationPreferencesModel.shouldSendEmail(
         userId,
@@ -269,6 +440,183 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send saved search alert for a listing that matches the search
+   * Each channel is gated by the search's own alert settings as well as the
+   * user's notification preferences
+   */
+  async sendSavedSearchAlertNotification(
+    userId: string,
+    search: Pick<SavedSearch, 'id' | 'name' | 'alert_in_app' | 'alert_email'>,
+    listing: Pick<
+      PropertyListing,
+      'id' | 'title' | 'city' | 'state' | 'sqft' | 'asking_price'
+    >
+  ): Promise<void> {
+    try {
+      const location = `${listing.city}, ${listing.state}`;
+
+      if (search.alert_in_app) {
+        await this.createInAppNotification(userId, NotificationType.SAVED_SEARCH_ALERT, {
+          title: `New listing for "${search.name}"`,
+          body: `${listing.title} in ${location}`,
+          link: `/property/${listing.id}`,
+          data: { saved_search_id: search.id, property_listing_id: listing.id },
+        });
+      }
+
+      if (!search.alert_email) {
+        return;
+      }
+
+      const shouldSend = await NotificationPreferencesModel.shouldSendEmail(
+        userId,
+        EmailType.SAVED_SEARCH_ALERT
+      );
+
+      if (!shouldSend) {
+        console.log(`User ${userId} has disabled saved search alert emails`);
+        return;
+      }
+
+      const [email, name] = await Promise.all([
+        this.getUserEmail(userId),
+        this.getUserDisplayName(userId),
+      ]);
+
+      if (!email) {
+        console.error(`No email found for user ${userId}`);
+        return;
+      }
+
+      await this.emailService.sendSavedSearchAlertEmail(email, name, search.name, {
+        id: listing.id,
+        title: listing.title,
+        location,
+        sqft: Number(listing.sqft),
+        askingPrice: listing.asking_price !== null ? Number(listing.asking_price) : null,
+      });
+    } catch (error) {
+      console.error('Failed to send saved search alert notification:', error);
+    }
+  }
+
+  /**
+   * Remind a user that their last message in a conversation has gone unanswered
+   * Each channel is gated by the conversation's nudge settings as well as the
+   * user's notification preferences
+   */
+  async sendMessageNudgeNotification(
+    userId: string,
+    nudge: {
+      conversationId: string;
+      subject: string | null;
+      recipientNames: string;
+      days: number;
+      inApp: boolean;
+      email: boolean;
+    }
+  ): Promise<void> {
+    try {
+      const period = nudge.days === 1 ? 'a day' : `${nudge.days} days`;
+
+      if (nudge.inApp) {
+        await this.createInAppNotification(userId, NotificationType.MESSAGE_NUDGE, {
+          title: `No reply from ${nudge.recipientNames}`,
+          body: `It's been ${period} since your last message${
+            nudge.subject ? ` in "${nudge.subject}"` : ''
+          }. Time to follow up?`,
+          link: `/messages/${nudge.conversationId}`,
+          data: { conversation_id: nudge.conversationId },
+        });
+      }
+
+      if (!nudge.email) {
+        return;
+      }
+
+      const shouldSend = await NotificationPreferencesModel.shouldSendEmail(
+        userId,
+        EmailType.MESSAGE_NUDGE
+      );
+
+      if (!shouldSend) {
+        console.log(`User ${userId} has disabled message nudge emails`);
+        return;
+      }
+
+      const [email, name] = await Promise.all([
+        this.getUserEmail(userId),
+        this.getUserDisplayName(userId),
+      ]);
+
+      if (!email) {
+        console.error(`No email found for user ${userId}`);
+        return;
+      }
+
+      await this.emailService.sendMessageNudgeEmail(
+        email,
+        name,
+        nudge.recipientNames,
+        nudge.subject,
+        period,
+        nudge.conversationId
+      );
+    } catch (error) {
+      console.error('Failed to send message nudge notification:', error);
+    }
+  }
+
+  /**
+   * Ask a client to grant a broker access to act on their behalf
+   */
+  async sendBrokerRequestNotification(
+    clientUserId: string,
+    brokerUserId: string,
+    clientName: string,
+    brokerClientId: string
+  ): Promise<void> {
+    try {
+      const brokerName = await this.getUserDisplayName(brokerUserId);
+
+      await this.createInAppNotification(clientUserId, NotificationType.BROKER_REQUEST, {
+        title: `${brokerName} asked to represent ${clientName}`,
+        body: 'Review the request in Settings to let them act on your behalf.',
+        link: '/settings?tab=account',
+        data: { broker_client_id: brokerClientId },
+      });
+    } catch (error) {
+      console.error('Failed to send broker request notification:', error);
+    }
+  }
+
+  /**
+   * Tell a broker the client answered their request or ended the representation
+   */
+  async sendBrokerConsentNotification(
+    brokerUserId: string,
+    clientName: string,
+    status: BrokerClientStatus,
+    brokerClientId: string
+  ): Promise<void> {
+    const titles: Partial<Record<BrokerClientStatus, string>> = {
+      [BrokerClientStatus.ACTIVE]: `${clientName} accepted your representation request`,
+      [BrokerClientStatus.DECLINED]: `${clientName} declined your representation request`,
+      [BrokerClientStatus.REVOKED]: `${clientName} ended your representation`,
+    };
+
+    try {
+      await this.createInAppNotification(brokerUserId, NotificationType.BROKER_REQUEST, {
+        title: titles[status] || `${clientName} updated your representation`,
+        link: '/broker-dashboard',
+        data: { broker_client_id: brokerClientId, status },
+      });
+    } catch (error) {
+      console.error('Failed to send broker consent notification:', error);
+    }
+  }
+
   /**
    * Send notification to all participants in a conversation except the sender
    */
@@ -0,0 +1,143 @@
+import Redis from 'ioredis';
+import { UserModel } from '../database/models/User';
+
+// A connection counts as live until this long after its last heartbeat
+export const PRESENCE_TTL_SECONDS = 75;
+// How often last_seen_at is written to the database while a user stays connected
+const LAST_SEEN_WRITE_SECONDS = 60;
+
+/**
+ * Presence registry for the messaging namespace, backed by Redis so every
+ * server instance sees the same state
+ *
+ * Each socket (one per tab) is a member of the user's sorted set, scored by
+ * when it expires; heartbeats push the expiry forward. A user is online while
+ * any member is unexpired, so a tab or server that dies without disconnecting
+ * drops off within PRESENCE_TTL_SECONDS. Each socket can also record the
+ * conversation it has open.
+ */
+export class PresenceService {
+  private redis: Redis;
+  private userModel: UserModel;
+  private readonly KEY_PREFIX = 'presence:';
+
+  constructor(redisClient?: Redis, userModel?: UserModel) {
+    this.userModel = userModel || new UserModel();
+
+    if (redisClient) {
+      this.redis = redisClient;
+      return;
+    }
+
+    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+    this.redis = new Redis(redisUrl);
+
+    this.redis.on('error', (error) => {
+      console.error('Redis connection error:', error);
+    });
+  }
+
+  private connectionsKey(userId: string): string {
+    return `${this.KEY_PREFIX}user:${userId}`;
+  }
+
+  private viewingKey(connectionId: string): string {
+    return `${this.KEY_PREFIX}viewing:${connectionId}`;
+  }
+
+  private lastSeenWriteKey(userId: string): string {
+    return `${this.KEY_PREFIX}seen:${userId}`;
+  }
+
+  /**
+   * Register a connection
+   * @returns True if the user just came online
+   */
+  async connect(userId: string, connectionId: string, now: Date = new Date()): Promise<boolean> {
+    const wasOnline = await this.isOnline(userId, now);
+    await this.touch(userId, connectionId, now);
+    await this.userModel.updateLastSeen(userId, now);
+    return !wasOnline;
+  }
+
+  /**
+   * Keep a connection live
+   */
+  async heartbeat(userId: string, connectionId: string, now: Date = new Date()): Promise<void> {
+    await this.touch(userId, connectionId, now);
+    await this.redis.expire(this.viewingKey(connectionId), PRESENCE_TTL_SECONDS);
+
+    // Only the first heartbeat in each window writes through to the database
+    const due = await this.redis.set(this.lastSeenWriteKey(userId), '1', 'EX', LAST_SEEN_WRITE_SECONDS, 'NX');
+    if (due) {
+      await this.userModel.updateLastSeen(userId, now);
+    }
+  }
+
+  /**
+   * Remove a connection
+   * @returns True if it was the user's last live connection
+   */
+  async disconnect(userId: string, connectionId: string, now: Date = new Date()): Promise<boolean> {
+    await this.redis.zrem(this.connectionsKey(userId), connectionId);
+    await this.redis.del(this.viewingKey(connectionId));
+    await this.userModel.updateLastSeen(userId, now);
+    return !(await this.isOnline(userId, now));
+  }
+
+  /**
+   * Record the conversation a connection has open and in view, or null for none
+   */
+  async setViewing(connectionId: string, conversationId: string | null): Promise<void> {
+    const key = this.viewingKey(connectionId);
+    if (conversationId) {
+      await this.redis.set(key, conversationId, 'EX', PRESENCE_TTL_SECONDS);
+    } else {
+      await this.redis.del(key);
+    }
+  }
+
+  /**
+   * Check if a user has at least one live connection
+   */
+  async isOnline(userId: string, now: Date = new Date()): Promise<boolean> {
+    const connectionIds = await this.getConnectionIds(userId, now);
+    return connectionIds.length > 0;
+  }
+
+  /**
+   * Filter a list of users down to those who are online
+   */
+  async getOnlineUserIds(userIds: string[], now: Date = new Date()): Promise<string[]> {
+    const online = await Promise.all(userIds.map((userId) => this.isOnline(userId, now)));
+    return userIds.filter((_, index) => online[index]);
+  }
+
+  /**
+   * Check if any of a user's live connections has the conversation in view
+   */
+  async isViewingConversation(userId: string, conversationId: string, now: Date = new Date()): Promise<boolean> {
+    const connectionIds = await this.getConnectionIds(userId, now);
+    if (connectionIds.length === 0) {
+      return false;
+    }
+
+    const viewing = await this.redis.mget(...connectionIds.map((id) => this.viewingKey(id)));
+    return viewing.includes(conversationId);
+  }
+
+  private async touch(userId: string, connectionId: string, now: Date): Promise<void> {
+    const key = this.connectionsKey(userId);
+    await this.redis.zadd(key, now.getTime() + PRESENCE_TTL_SECONDS * 1000, connectionId);
+    await this.redis.expire(key, PRESENCE_TTL_SECONDS);
+  }
+
+  /**
+   * Live connection IDs, pruning any whose heartbeats stopped
+   */
+  private async getConnectionIds(userId: string, now: Date): Promise<string[]> {
+    const key = this.connectionsKey(userId);
+    await this.redis.zremrangebyscore(key, '-inf', now.getTime());
+    return this.redis.zrange(key, 0, -1);
+  }
+}
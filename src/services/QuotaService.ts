@@ -0,0 +1,177 @@
+import { Pool } from 'pg';
+import pool from '../config/database';
+import { subscriptionService } from './SubscriptionService';
+import {
+  SubscriptionLimits,
+  SubscriptionLimitType,
+  SubscriptionTier,
+  SubscriptionUsage,
+  UsageMeter,
+} from '../types';
+
+/**
+ * Limits applied when a user's plan can't be loaded (matches the Starter seed)
+ */
+export const DEFAULT_LIMITS: SubscriptionLimits = {
+  locations: 2,
+  qfps: 3,
+  team_members: 1,
+};
+
+const TIER_ORDER: SubscriptionTier[] = [
+  SubscriptionTier.STARTER,
+  SubscriptionTier.PRO,
+  SubscriptionTier.PREMIUM,
+  SubscriptionTier.ENTERPRISE,
+];
+
+/**
+ * QuotaService
+ *
+ * Counts per-user usage against the SubscriptionLimits of the user's plan:
+ * - locations: businesses owned by the user
+ * - qfps: demand listings (QFPs) that aren't closed, across those businesses
+ * - team_members: the owner plus distinct members and pending invitees
+ *
+ * Team members act on the owner's plan, so business-scoped creates are
+ * counted against the business owner rather than the requesting user.
+ */
+export class QuotaService {
+  private pool: Pool;
+
+  constructor(customPool?: Pool) {
+    this.pool = customPool || pool;
+  }
+
+  /**
+   * Get the limits for the user's effective tier
+   * Inactive subscriptions fall back to Starter via getUserTier
+   */
+  async getLimits(userId: string): Promise<{ tier: SubscriptionTier; limits: SubscriptionLimits }> {
+    const tier = await subscriptionService.getUserTier(userId);
+    const plan = await subscriptionService.getPlanByTier(tier);
+
+    return {
+      tier,
+      limits: { ...DEFAULT_LIMITS, ...(plan?.limits || {}) },
+    };
+  }
+
+  /**
+   * Resolve the owner whose plan a business-scoped request counts against
+   * Returns null if the business doesn't exist
+   */
+  async getBusinessOwnerId(businessId?: string): Promise<string | null> {
+    if (!businessId) {
+      return null;
+    }
+
+    const result = await this.pool.query('SELECT user_id FROM businesses WHERE id = $1', [
+      businessId,
+    ]);
+
+    return result.rows[0]?.user_id || null;
+  }
+
+  /**
+   * Count current usage for a single limit type
+   */
+  async countUsage(userId: string, limitType: SubscriptionLimitType): Promise<number> {
+    let result;
+
+    switch (limitType) {
+      case 'locations':
+        result = await this.pool.query(
+          'SELECT COUNT(*) as count FROM businesses WHERE user_id = $1',
+          [userId]
+        );
+        break;
+
+      case 'qfps':
+        result = await this.pool.query(
+          `SELECT COUNT(dl.id) as count
+           FROM demand_listings dl
+           JOIN businesses b ON dl.business_id = b.id
+           WHERE b.user_id = $1 AND dl.status != 'closed'`,
+          [userId]
+        );
+        break;
+
+      case 'team_members':
+        // The owner always occupies one seat; pending invites hold a seat until answered
+        result = await this.pool.query(
+          `SELECT 1 + COUNT(DISTINCT seat) as count FROM (
+             SELECT bm.user_id::text as seat
+             FROM business_members bm
+             JOIN businesses b ON bm.business_id = b.id
+             WHERE b.user_id = $1 AND bm.user_id != $1
+             UNION
+             SELECT LOWER(bi.invited_user_email) as seat
+             FROM business_invites bi
+             JOIN businesses b ON bi.business_id = b.id
+             WHERE b.user_id = $1 AND bi.status = 'pending'
+           ) seats`,
+          [userId]
+        );
+        break;
+
+      default:
+        throw new Error(`Unknown limit type: ${limitType}`);
+    }
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Get usage meters for every limit type
+   */
+  async getUsage(userId: string): Promise<SubscriptionUsage> {
+    const { tier, limits } = await this.getLimits(userId);
+
+    const limitTypes = Object.keys(DEFAULT_LIMITS) as SubscriptionLimitType[];
+    const counts = await Promise.all(
+      limitTypes.map((limitType) => this.countUsage(userId, limitType))
+    );
+
+    const usage = {} as Record<SubscriptionLimitType, UsageMeter>;
+    limitTypes.forEach((limitType, index) => {
+      usage[limitType] = this.buildMeter(counts[index], limits[limitType]);
+    });
+
+    return { tier, usage };
+  }
+
+  /**
+   * Find the lowest tier above the current one that would allow one more item
+   * Returns null if no plan would lift the limit
+   */
+  async getUpgradeTier(
+    currentTier: SubscriptionTier,
+    limitType: SubscriptionLimitType,
+    currentCount: number
+  ): Promise<SubscriptionTier | null> {
+    const plans = await subscriptionService.getPlans();
+    const currentIndex = TIER_ORDER.indexOf(currentTier);
+
+    const candidate = plans
+      .filter((plan) => TIER_ORDER.indexOf(plan.tier) > currentIndex)
+      .sort((a, b) => TIER_ORDER.indexOf(a.tier) - TIER_ORDER.indexOf(b.tier))
+      .find((plan) => {
+        const limit = plan.limits?.[limitType];
+        return limit === -1 || (limit !== undefined && limit > currentCount);
+      });
+
+    return candidate?.tier || null;
+  }
+
+  private buildMeter(used: number, limit: number): UsageMeter {
+    return {
+      used,
+      limit,
+      remaining: limit === -1 ? null : Math.max(0, limit - used),
+    };
+  }
+}
+
+// Export singleton instance
+export const quotaService = new QuotaService();
@@ -0,0 +1,105 @@
+import { SavedSearchModel } from '../database/models/SavedSearch';
+import { NotificationService, notificationService as defaultNotificationService } from './NotificationService';
+import { subscriptionService } from './SubscriptionService';
+import { FEATURE_TIERS } from '../middleware/SubscriptionGuardMiddleware';
+import { PropertyListing, PropertyListingStatus, SavedSearchFilters } from '../types';
+
+const includesText = (value: string | null | undefined, text: string): boolean =>
+  (value || '').toLowerCase().includes(text.toLowerCase());
+
+/**
+ * Whether a listing satisfies a saved search's filters
+ * Uses the same semantics as PropertyListingModel.search so alerts agree
+ * with what the user sees when they run the search.
+ */
+export function matchesSavedSearch(listing: PropertyListing, filters: SavedSearchFilters): boolean {
+  if (listing.status !== PropertyListingStatus.ACTIVE) return false;
+
+  if (filters.city && !includesText(listing.city, filters.city)) return false;
+  if (filters.state && listing.state !== filters.state) return false;
+  if (filters.property_type && listing.property_type !== filters.property_type) return false;
+
+  const sqft = Number(listing.sqft);
+  if (filters.min_sqft && sqft < filters.min_sqft) return false;
+  if (filters.max_sqft && sqft > filters.max_sqft) return false;
+
+  // Listings without an asking price never satisfy a price filter
+  const price = listing.asking_price === null ? null : Number(listing.asking_price);
+  if (filters.min_price && (price === null || price < filters.min_price)) return false;
+  if (filters.max_price && (price === null || price > filters.max_price)) return false;
+
+  // Any of the requested amenities
+  if (filters.amenities && filters.amenities.length > 0) {
+    const amenities = listing.amenities || [];
+    if (!filters.amenities.some((amenity) => amenities.includes(amenity))) return false;
+  }
+
+  if (filters.search) {
+    const text = filters.search;
+    if (
+      !includesText(listing.title, text) &&
+      !includesText(listing.address, text) &&
+      !includesText(listing.city, text) &&
+      !includesText(listing.description, text)
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * SavedSearchService
+ *
+ * Alerts saved search owners when a listing goes live or is edited into
+ * matching their search. Each search alerts at most once per listing, and
+ * only while its owner is still on a plan that includes saved searches.
+ */
+export class SavedSearchService {
+  private savedSearchModel: SavedSearchModel;
+  private notificationService: NotificationService;
+
+  constructor(savedSearchModel?: SavedSearchModel, notificationService?: NotificationService) {
+    this.savedSearchModel = savedSearchModel || new SavedSearchModel();
+    this.notificationService = notificationService || defaultNotificationService;
+  }
+
+  /**
+   * Alert every saved search the listing newly matches
+   *
+   * @returns Number of alerts sent
+   */
+  async notifyMatchingSearches(listing: PropertyListing): Promise<number> {
+    if (listing.status !== PropertyListingStatus.ACTIVE) {
+      return 0;
+    }
+
+    const candidates = await this.savedSearchModel.findAlertCandidates(listing);
+    const entitled = new Map<string, boolean>();
+    let sent = 0;
+
+    for (const search of candidates) {
+      if (!matchesSavedSearch(listing, search.filters)) continue;
+
+      if (!entitled.has(search.user_id)) {
+        entitled.set(
+          search.user_id,
+          await subscriptionService.hasAccessToTier(search.user_id, FEATURE_TIERS.SAVED_SEARCHES)
+        );
+      }
+      if (!entitled.get(search.user_id)) continue;
+
+      const isNew = await this.savedSearchModel.recordAlert(search.id, listing.id);
+      if (!isNew) continue;
+
+      await this.notificationService.sendSavedSearchAlertNotification(search.user_id, search, listing);
+      sent++;
+    }
+
+    return sent;
+  }
+}
+
+// Export singleton instance
+export const savedSearchService = new SavedSearchService();
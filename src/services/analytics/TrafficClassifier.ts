@@ -0,0 +1,104 @@
+import { ListingTrafficSource } from '../../types';
+
+// Crawlers, link unfurlers, monitors and scripted clients. Browsers never send these
+const BOT_USER_AGENT_PATTERN = new RegExp(
+  [
+    'bot\\b', 'bot/', 'crawl', 'spider', 'slurp', 'scrap', 'archiver',
+    'facebookexternalhit', 'embedly', 'whatsapp', 'headless', 'phantomjs', 'selenium',
+    'puppeteer', 'playwright', 'lighthouse', 'pingdom', 'uptime', 'monitor',
+    'curl/', 'wget/', 'python-requests', 'python-urllib', 'go-http-client',
+    'java/', 'okhttp', 'axios/', 'node-fetch', 'postman', 'insomnia',
+  ].join('|'),
+  'i'
+);
+
+const SEARCH_ENGINE_HOSTS = ['google.', 'bing.com', 'duckduckgo.com', 'search.yahoo.', 'yandex.', 'baidu.com', 'ecosia.org'];
+const SOCIAL_HOSTS = [
+  'facebook.com', 'fb.me', 'instagram.com', 'linkedin.com', 'lnkd.in', 'twitter.com', 't.co', 'x.com',
+  'reddit.com', 'pinterest.', 'tiktok.com', 'youtube.com', 'threads.net', 'nextdoor.com',
+];
+const EMAIL_HOSTS = ['mail.google.com', 'outlook.live.com', 'outlook.office.com', 'mail.yahoo.com', 'mail.aol.com'];
+
+/**
+ * Whether a host is the domain or a subdomain of one of the given entries.
+ * Entries ending in "." match any top-level domain (google.com, google.co.uk)
+ */
+const hostMatches = (host: string, entries: string[]): boolean =>
+  entries.some((entry) => {
+    if (entry.endsWith('.')) {
+      return host.startsWith(entry) || host.includes(`.${entry}`);
+    }
+    return host === entry || host.endsWith(`.${entry}`);
+  });
+
+/**
+ * TrafficClassifier
+ *
+ * Decides which listing events to count and where they came from. Bots are
+ * recognised by user agent; a request without one is treated as a bot, since
+ * every browser sends one. Sources come from the referrer, except that the
+ * app itself says when a visit started from a share link or inside the app,
+ * which a referrer can't tell apart.
+ */
+export class TrafficClassifier {
+  private appHost: string | null;
+
+  constructor(frontendUrl: string = process.env.FRONTEND_URL || 'http://localhost:3000') {
+    this.appHost = this.parseHost(frontendUrl);
+  }
+
+  /**
+   * Whether a user agent belongs to a crawler or script rather than a person
+   */
+  isBot(userAgent?: string | null): boolean {
+    if (!userAgent || !userAgent.trim()) {
+      return true;
+    }
+    return BOT_USER_AGENT_PATTERN.test(userAgent);
+  }
+
+  /**
+   * Classify where a visit came from
+   *
+   * @param referrer - document.referrer from the browser
+   * @param via - 'share_link' or 'internal' when the app knows better than the referrer
+   */
+  classifySource(referrer?: string | null, via?: string | null): ListingTrafficSource {
+    if (via === ListingTrafficSource.SHARE_LINK || via === ListingTrafficSource.INTERNAL) {
+      return via;
+    }
+
+    const host = referrer ? this.parseHost(referrer) : null;
+    if (!host) {
+      return ListingTrafficSource.DIRECT;
+    }
+    if (host === this.appHost) {
+      return ListingTrafficSource.INTERNAL;
+    }
+    // Checked before search engines so Gmail isn't counted as Google search
+    if (hostMatches(host, EMAIL_HOSTS)) {
+      return ListingTrafficSource.EMAIL;
+    }
+    if (hostMatches(host, SEARCH_ENGINE_HOSTS)) {
+      return ListingTrafficSource.SEARCH_ENGINE;
+    }
+    if (hostMatches(host, SOCIAL_HOSTS)) {
+      return ListingTrafficSource.SOCIAL;
+    }
+    return ListingTrafficSource.REFERRAL;
+  }
+
+  private parseHost(url: string): string | null {
+    try {
+      const { protocol, host } = new URL(url);
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        return null;
+      }
+      return host.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const trafficClassifier = new TrafficClassifier();
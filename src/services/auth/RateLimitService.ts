@@ -8,6 +8,7 @@ export enum RateLimitType {
   LOGIN_EMAIL = 'login:email',
   PASSWORD_RESET = 'password_reset',
   EMAIL_VERIFICATION = 'email_verification',
+  NEW_CONVERSATION = 'new_conversation',
 }
 
 /**
@@ -35,6 +36,10 @@ const RATE_LIMIT_CONFIGS: Record<RateLimitType, RateLimitConfig> = {
     maxAttempts: 3,
     windowSeconds: 60 * 60, // 1 hour
   },
+  [RateLimitType.NEW_CONVERSATION]: {
+    maxAttempts: 20,
+    windowSeconds: 60 * 60, // 1 hour
+  },
 };
 
 /**
@@ -71,7 +76,7 @@ export class RateLimitService {
   /**
    * Generate Redis key for rate limiting
    * @param type - Rate limit type
-   * @param identifier - IP address or email
+   * @param identifier - IP address, email or user ID
    * @returns Redis key
    */
   private getKey(type: RateLimitType, identifier: string): string {
@@ -81,7 +86,7 @@ export class RateLimitService {
   /**
    * Check rate limit and increment counter
    * @param type - Rate limit type
-   * @param identifier - IP address or email
+   * @param identifier - IP address, email or user ID
    * @returns Rate limit result
    */
   async checkRateLimit(type: RateLimitType, identifier: string): Promise<RateLimitResult> {
@@ -138,7 +143,7 @@ export class RateLimitService {
   /**
    * Get current rate limit status without incrementing
    * @param type - Rate limit type
-   * @param identifier - IP address or email
+   * @param identifier - IP address, email or user ID
    * @returns Rate limit result
    */
   async getRateLimitStatus(type: RateLimitType, identifier: string): Promise<RateLimitResult> {
@@ -178,7 +183,7 @@ export class RateLimitService {
   /**
    * Reset rate limit for an identifier
    * @param type - Rate limit type
-   * @param identifier - IP address or email
+   * @param identifier - IP address, email or user ID
    */
   async resetRateLimit(type: RateLimitType, identifier: string): Promise<void> {
     try {
@@ -0,0 +1,98 @@
+/**
+ * Minimal iCalendar (RFC 5545) builder for single events
+ * Produces a VCALENDAR with one VEVENT suitable for email attachments and downloads
+ */
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer?: { name: string; email: string };
+  attendees?: Array<{ name: string; email: string }>;
+  // Increment when the event is rescheduled so calendars replace the old copy
+  sequence?: number;
+  cancelled?: boolean;
+}
+
+const PRODUCT_ID = '-//DemandCRE//Tours//EN';
+
+/**
+ * Format a date as a UTC iCalendar timestamp (20250101T153000Z)
+ */
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape text values (backslash, semicolon, comma, newline)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 characters
+ */
+function foldLine(line: string): string {
+  if (line.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+/**
+ * Build an .ics document for a single event
+ */
+export function buildIcsEvent(event: CalendarEvent): string {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  }
+  if (event.organizer) {
+    lines.push(`ORGANIZER;CN=${escapeIcsText(event.organizer.name)}:mailto:${event.organizer.email}`);
+  }
+  for (const attendee of event.attendees || []) {
+    lines.push(`ATTENDEE;CN=${escapeIcsText(attendee.name)};ROLE=REQ-PARTICIPANT:mailto:${attendee.email}`);
+  }
+
+  if (!event.cancelled) {
+    // Calendar-side reminder one hour before the event
+    lines.push('BEGIN:VALARM', 'TRIGGER:-PT1H', 'ACTION:DISPLAY', `DESCRIPTION:${escapeIcsText(event.summary)}`, 'END:VALARM');
+  }
+
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,26 @@
+import { buildIcsEvent } from './icsBuilder';
+import { TourStatus, TourWithDetails } from '../../types';
+
+/**
+ * Build the .ics document for a scheduled tour
+ * Used for the download endpoint and for reminder email attachments
+ */
+export function buildTourCalendarInvite(tour: TourWithDetails): string {
+  const location = [tour.property_address, tour.property_city, tour.property_state]
+    .filter(Boolean)
+    .join(', ');
+
+  return buildIcsEvent({
+    uid: `tour-${tour.id}@demandcre`,
+    start: new Date(tour.scheduled_at as Date),
+    durationMinutes: tour.duration_minutes,
+    summary: `Property tour: ${tour.property_title}`,
+    description: tour.notes || undefined,
+    location,
+    organizer: { name: tour.landlord_name || tour.landlord_email, email: tour.landlord_email },
+    attendees: [{ name: tour.tenant_name || tour.tenant_email, email: tour.tenant_email }],
+    // Rescheduling updates the row, so its timestamp orders revisions
+    sequence: Math.floor(new Date(tour.updated_at).getTime() / 1000),
+    cancelled: tour.status === TourStatus.CANCELLED,
+  });
+}
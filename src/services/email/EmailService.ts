@@ -13,6 +13,33 @@ export enum EmailType {
   TOUR_REMINDER = 'tour_reminder',
   ACCOUNT_UPDATE = 'account_update',
   WEEKLY_DIGEST = 'weekly_digest',
+  DAILY_DIGEST = 'daily_digest',
+  SAVED_SEARCH_ALERT = 'saved_search_alert',
+  MESSAGE_NUDGE = 'message_nudge',
+}
+
+/**
+ * Batched notifications rendered into a single digest email
+ */
+export interface DigestEmailContent {
+  // 'quiet_hours' is for immediate-frequency users whose emails were held overnight
+  period: 'daily' | 'weekly' | 'quiet_hours';
+  conversations: Array<{
+    conversationId: string;
+    senderNames: string[];
+    messageCount: number;
+    latestPreview: string;
+  }>;
+  matches: {
+    matchCount: number;
+    topMatches: Array<{ title: string; score: number; location: string }>;
+  } | null;
+  invites: Array<{
+    inviterName: string;
+    businessName: string;
+    role: string;
+    inviteToken: string;
+  }>;
 }
 
 /**
@@ -124,6 +151,26 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send saved search alert for a new listing
+   */
+  async sendSavedSearchAlertEmail(
+    email: string,
+    recipientName: string,
+    searchName: string,
+    listing: { id: string; title: string; location: string; sqft: number; askingPrice: number | null }
+  ): Promise<void> {
+    const listingLink = `${this.frontendUrl}/property/${listing.id}`;
+
+    await this.sendEmail({
+      to: email,
+      subject: `New listing for your saved search "${searchName}"`,
+      html: this.generateSavedSearchAlertEmailHtml(recipientName, searchName, listing, listingLink),
+      text: this.generateSavedSearchAlertEmailText(recipientName, searchName, listing, listingLink),
+      emailType: EmailType.SAVED_SEARCH_ALERT,
+    });
+  }
+
   /**
    * Send new message notification
    */
@@ -155,6 +202,28 @@ export class EmailService {
     });
   }
 
+  /**
+   * Send a reminder that the user's last message has gone unanswered
+   */
+  async sendMessageNudgeEmail(
+    email: string,
+    recipientName: string,
+    otherNames: string,
+    subject: string | null,
+    period: string,
+    conversationId: string
+  ): Promise<void> {
+    const messageLink = `${this.frontendUrl}/messages/${conversationId}`;
+
+    await this.sendEmail({
+      to: email,
+      subject: `No reply from ${otherNames} yet`,
+      html: this.generateMessageNudgeEmailHtml(recipientName, otherNames, subject, period, messageLink),
+      text: this.generateMessageNudgeEmailText(recipientName, otherNames, subject, period, messageLink),
+      emailType: EmailType.MESSAGE_NUDGE,
+    });
+  }
+
   /**
    * Send business invite email
    */
@@ -195,7 +264,8 @@ export class EmailService {
     propertyTitle: string,
     propertyAddress: string,
     tourDate: Date,
-    contactName: string
+    contactName: string,
+    calendarInvite?: string
   ): Promise<void> {
     const propertyLink = `${this.frontendUrl}/dashboard`;
     const formattedDate = tourDate.toLocaleDateString('en-US', {
@@ -227,6 +297,41 @@ export class EmailService {
         propertyLink
       ),
       emailType: EmailType.TOUR_REMINDER,
+      attachments: calendarInvite
+        ? [{ content: calendarInvite, filename: 'tour.ics', type: 'text/calendar' }]
+        : undefined,
+    });
+  }
+
+  /**
+   * Send a digest of batched message, match and invite notifications
+   */
+  async sendDigestEmail(
+    email: string,
+    recipientName: string,
+    content: DigestEmailContent
+  ): Promise<void> {
+    const messageCount = content.conversations.reduce((sum, c) => sum + c.messageCount, 0);
+    const summary = [
+      messageCount > 0 ? `${messageCount} new message${messageCount > 1 ? 's' : ''}` : null,
+      content.matches ? `${content.matches.matchCount} new match${content.matches.matchCount > 1 ? 'es' : ''}` : null,
+      content.invites.length > 0 ? `${content.invites.length} invite${content.invites.length > 1 ? 's' : ''}` : null,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    const subjectPrefix = {
+      daily: 'Your daily DemandCRE digest',
+      weekly: 'Your weekly DemandCRE digest',
+      quiet_hours: 'While you were away',
+    }[content.period];
+
+    await this.sendEmail({
+      to: email,
+      subject: `${subjectPrefix}: ${summary}`,
+      html: this.generateDigestEmailHtml(recipientName, content),
+      text: this.generateDigestEmailText(recipientName, content),
+      emailType: content.period === 'weekly' ? EmailType.WEEKLY_DIGEST : EmailType.DAILY_DIGEST,
     });
   }
 
@@ -269,6 +374,7 @@ export class EmailService {
     html: string;
     text: string;
     emailType: EmailType;
+    attachments?: Array<{ content: string; filename: string; type: string }>;
   }): Promise<void> {
     // Development mode or skip flag - log to console
     if (this.isDevelopment || this.skipEmailService) {
@@ -277,6 +383,9 @@ export class EmailService {
       console.log(`To: ${params.to}`);
       console.log(`Subject: ${params.subject}`);
       console.log(`Text Preview: ${params.text.substring(0, 200)}...`);
+      if (params.attachments?.length) {
+        console.log(`Attachments: ${params.attachments.map((a) => a.filename).join(', ')}`);
+      }
       console.log('============================\n');
       return;
     }
@@ -304,6 +413,12 @@ export class EmailService {
         openTracking: { enable: true },
       },
       categories: [params.emailType],
+      attachments: params.attachments?.map((attachment) => ({
+        content: Buffer.from(attachment.content).toString('base64'),
+        filename: attachment.filename,
+        type: attachment.type,
+        disposition: 'attachment',
+      })),
     };
 
     try {
@@ -511,6 +626,56 @@ Don't miss out - properties go fast!
     `.trim();
   }
 
+  private formatListingFacts(listing: { sqft: number; askingPrice: number | null }): string {
+    const facts = [`${listing.sqft.toLocaleString('en-US')} sq ft`];
+    if (listing.askingPrice !== null) {
+      facts.push(`$${listing.askingPrice.toLocaleString('en-US')}`);
+    }
+    return facts.join(' · ');
+  }
+
+  private generateSavedSearchAlertEmailHtml(
+    recipientName: string,
+    searchName: string,
+    listing: { title: string; location: string; sqft: number; askingPrice: number | null },
+    listingLink: string
+  ): string {
+    return this.getEmailWrapper(`
+      <h1 style="color: #000; margin-bottom: 16px; font-size: 20px;">New Listing Matches Your Search</h1>
+      <p>Hi ${recipientName},</p>
+      <p>A listing matching your saved search <strong>${searchName}</strong> was just posted:</p>
+
+      <div style="background-color: #f9fafb; border-radius: 8px; padding: 20px; margin: 24px 0; border: 1px solid #e5e7eb;">
+        <p style="margin: 0 0 4px; font-size: 16px; color: #000;">${listing.title}</p>
+        <p style="margin: 0 0 8px; font-size: 14px; color: #666;">${listing.location}</p>
+        <p style="margin: 0; font-size: 14px; color: #000;">${this.formatListingFacts(listing)}</p>
+      </div>
+
+      ${this.getButton('View Listing', listingLink)}
+    `);
+  }
+
+  private generateSavedSearchAlertEmailText(
+    recipientName: string,
+    searchName: string,
+    listing: { title: string; location: string; sqft: number; askingPrice: number | null },
+    listingLink: string
+  ): string {
+    return `
+New Listing Matches Your Search
+
+Hi ${recipientName},
+
+A listing matching your saved search "${searchName}" was just posted:
+
+${listing.title}
+${listing.location}
+${this.formatListingFacts(listing)}
+
+View listing: ${listingLink}
+    `.trim();
+  }
+
   private generateNewMessageEmailHtml(
     recipientName: string,
     senderName: string,
@@ -551,6 +716,42 @@ Reply to message: ${messageLink}
     `.trim();
   }
 
+  private generateMessageNudgeEmailHtml(
+    recipientName: string,
+    otherNames: string,
+    subject: string | null,
+    period: string,
+    messageLink: string
+  ): string {
+    return this.getEmailWrapper(`
+      <h1 style="color: #000; margin-bottom: 16px; font-size: 20px;">Time to Follow Up?</h1>
+      <p>Hi ${recipientName},</p>
+      <p>It's been ${period} since your last message to <strong>${otherNames}</strong>${
+        subject ? ` in <strong>${subject}</strong>` : ''
+      } and they haven't replied yet.</p>
+
+      ${this.getButton('Send a Follow-Up', messageLink)}
+    `);
+  }
+
+  private generateMessageNudgeEmailText(
+    recipientName: string,
+    otherNames: string,
+    subject: string | null,
+    period: string,
+    messageLink: string
+  ): string {
+    return `
+Time to Follow Up?
+
+Hi ${recipientName},
+
+It's been ${period} since your last message to ${otherNames}${subject ? ` in "${subject}"` : ''} and they haven't replied yet.
+
+Send a follow-up: ${messageLink}
+    `.trim();
+  }
+
   private generateBusinessInviteEmailHtml(
     inviterName: string,
     businessName: string,
@@ -650,6 +851,124 @@ Need to reschedule? Contact your representative directly.
     `.trim();
   }
 
+  private getDigestIntro(period: DigestEmailContent['period']): string {
+    switch (period) {
+      case 'weekly':
+        return "Here's what happened on DemandCRE this week:";
+      case 'quiet_hours':
+        return "Here's what happened on DemandCRE during your quiet hours:";
+      default:
+        return "Here's what happened on DemandCRE today:";
+    }
+  }
+
+  private generateDigestEmailHtml(recipientName: string, content: DigestEmailContent): string {
+    const sections: string[] = [];
+
+    if (content.conversations.length > 0) {
+      const rows = content.conversations
+        .map(
+          (conversation) => `
+        <div style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
+          <p style="margin: 0 0 4px; font-weight: 600; color: #000;">
+            ${conversation.senderNames.join(', ')}
+            <span style="font-weight: 400; color: #666;">(${conversation.messageCount} message${conversation.messageCount > 1 ? 's' : ''})</span>
+          </p>
+          <p style="margin: 0 0 4px; color: #666; font-style: italic;">"${conversation.latestPreview}"</p>
+          <a href="${this.frontendUrl}/messages/${conversation.conversationId}" style="color: #007AFF; font-size: 14px;">View conversation</a>
+        </div>`
+        )
+        .join('');
+      sections.push(`
+      <h2 style="color: #000; font-size: 16px; margin: 24px 0 8px;">Messages</h2>
+      ${rows}`);
+    }
+
+    if (content.matches) {
+      const rows = content.matches.topMatches
+        .map(
+          (match) => `
+          <li>${match.title} - ${match.location} <strong>(${match.score}% match)</strong></li>`
+        )
+        .join('');
+      sections.push(`
+      <h2 style="color: #000; font-size: 16px; margin: 24px 0 8px;">${content.matches.matchCount} New Property Match${content.matches.matchCount > 1 ? 'es' : ''}</h2>
+      <ul style="margin: 0; padding-left: 20px; color: #333;">${rows}
+      </ul>`);
+    }
+
+    if (content.invites.length > 0) {
+      const rows = content.invites
+        .map(
+          (invite) => `
+        <p style="margin: 0 0 8px;">
+          ${invite.inviterName} invited you to join <strong>${invite.businessName}</strong> as a ${invite.role}.
+          <a href="${this.frontendUrl}/invite/accept?token=${invite.inviteToken}" style="color: #007AFF;">Respond to invite</a>
+        </p>`
+        )
+        .join('');
+      sections.push(`
+      <h2 style="color: #000; font-size: 16px; margin: 24px 0 8px;">Team Invites</h2>
+      ${rows}`);
+    }
+
+    return this.getEmailWrapper(`
+      <h1 style="color: #000; margin-bottom: 16px; font-size: 20px;">Hi ${recipientName},</h1>
+      <p>${this.getDigestIntro(content.period)}</p>
+      ${sections.join('')}
+      ${this.getButton('Go to Dashboard', `${this.frontendUrl}/dashboard`)}
+    `);
+  }
+
+  private generateDigestEmailText(recipientName: string, content: DigestEmailContent): string {
+    const sections: string[] = [];
+
+    if (content.conversations.length > 0) {
+      sections.push(
+        'MESSAGES\n' +
+          content.conversations
+            .map(
+              (conversation) =>
+                `${conversation.senderNames.join(', ')} (${conversation.messageCount}): "${conversation.latestPreview}"\n` +
+                `${this.frontendUrl}/messages/${conversation.conversationId}`
+            )
+            .join('\n\n')
+      );
+    }
+
+    if (content.matches) {
+      sections.push(
+        `NEW PROPERTY MATCHES (${content.matches.matchCount})\n` +
+          content.matches.topMatches
+            .map((match) => `- ${match.title} - ${match.location} (${match.score}% match)`)
+            .join('\n')
+      );
+    }
+
+    if (content.invites.length > 0) {
+      sections.push(
+        'TEAM INVITES\n' +
+          content.invites
+            .map(
+              (invite) =>
+                `${invite.inviterName} invited you to join ${invite.businessName} as a ${invite.role}: ` +
+                `${this.frontendUrl}/invite/accept?token=${invite.inviteToken}`
+            )
+            .join('\n')
+      );
+    }
+
+    return `
+Hi ${recipientName},
+
+${this.getDigestIntro(content.period)}
+
+${sections.join('\n\n')}
+
+Go to dashboard: ${this.frontendUrl}/dashboard
+    `.trim();
+  }
+
   private generateAccountUpdateEmailHtml(
     recipientName: string,
     updateType: string,
@@ -0,0 +1,213 @@
+import { buildPdf, PdfLine } from './pdfBuilder';
+import {
+  Conversation,
+  ConversationExport,
+  ConversationParticipant,
+  ConversationParticipantRole,
+  Message,
+  MessageType,
+} from '../../types';
+
+const displayName = (user: ConversationParticipant['user'] | Message['sender']): string => {
+  const name = user?.profile ? `${user.profile.first_name} ${user.profile.last_name}`.trim() : '';
+  return name || user?.email || 'Unknown User';
+};
+
+/**
+ * Timestamps are written in UTC so the record reads the same for everyone
+ */
+const formatTimestamp = (value: Date | string): string =>
+  `${new Date(value).toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Assemble a conversation's export record
+ * Deleted messages keep their sender and timestamps but not their content
+ * or attachments
+ */
+export function buildConversationExport(data: {
+  conversation: Conversation;
+  participants: ConversationParticipant[];
+  messages: Message[];
+  readReceipts: Array<{ message_id: string; user_id: string; read_at: Date }>;
+  exportedBy: string;
+  exportedAt?: Date;
+}): ConversationExport {
+  const names = new Map(data.participants.map((p) => [p.user_id, displayName(p.user)]));
+  const receiptsByMessage = new Map<string, ConversationExport['messages'][number]['read_by']>();
+
+  for (const receipt of data.readReceipts) {
+    const receipts = receiptsByMessage.get(receipt.message_id) || [];
+    receipts.push({
+      user_id: receipt.user_id,
+      name: names.get(receipt.user_id) || 'Unknown User',
+      read_at: receipt.read_at,
+    });
+    receiptsByMessage.set(receipt.message_id, receipts);
+  }
+
+  return {
+    exported_at: data.exportedAt || new Date(),
+    exported_by: data.exportedBy,
+    conversation: {
+      id: data.conversation.id,
+      subject: data.conversation.subject || null,
+      created_by: data.conversation.created_by,
+      created_at: data.conversation.created_at,
+      property_listing_id: data.conversation.property_listing_id || null,
+      demand_listing_id: data.conversation.demand_listing_id || null,
+    },
+    participants: data.participants.map((participant) => ({
+      user_id: participant.user_id,
+      name: displayName(participant.user),
+      email: participant.user?.email || '',
+      role: participant.role,
+      joined_at: participant.joined_at,
+      left_at: participant.left_at,
+    })),
+    messages: data.messages.map((message) => ({
+      id: message.id,
+      sender_id: message.sender_id,
+      sender_name: names.get(message.sender_id) || displayName(message.sender),
+      message_type: message.message_type,
+      sent_at: message.created_at,
+      edited_at: message.edited_at,
+      is_deleted: message.is_deleted,
+      deleted_at: message.deleted_at,
+      content: message.is_deleted ? null : message.content,
+      reply_to_message_id: message.reply_to_message_id,
+      attachments: message.is_deleted
+        ? []
+        : (message.attachments || []).map((attachment) => ({
+            id: attachment.id || null,
+            name: attachment.name,
+            type: attachment.type || null,
+            size: attachment.size ?? null,
+          })),
+      read_by: receiptsByMessage.get(message.id) || [],
+    })),
+  };
+}
+
+/**
+ * Lay out an export as a transcript, shared by the text and PDF formats
+ */
+function buildTranscriptLines(record: ConversationExport): PdfLine[] {
+  const names = new Map(record.participants.map((p) => [p.user_id, p.name]));
+  const title = record.conversation.subject || record.participants.map((p) => p.name).join(', ');
+
+  const lines: PdfLine[] = [
+    { text: title, bold: true, size: 16 },
+    { text: `Conversation ID: ${record.conversation.id}`, muted: true, spaceBefore: 4 },
+    {
+      text: `Started ${formatTimestamp(record.conversation.created_at)} by ${
+        names.get(record.conversation.created_by) || 'Unknown User'
+      }`,
+      muted: true,
+    },
+    {
+      text: `Exported ${formatTimestamp(record.exported_at)} by ${names.get(record.exported_by) || 'Unknown User'}`,
+      muted: true,
+    },
+    { text: 'Participants', bold: true, size: 12, spaceBefore: 14 },
+  ];
+
+  for (const participant of record.participants) {
+    const role = participant.role === ConversationParticipantRole.ADMIN ? ', admin' : '';
+    const left = participant.left_at ? `, left ${formatTimestamp(participant.left_at)}` : '';
+    lines.push({
+      text: `${participant.name} <${participant.email}>${role} - joined ${formatTimestamp(participant.joined_at)}${left}`,
+      indent: 12,
+    });
+  }
+
+  lines.push({ text: `Messages (${record.messages.length})`, bold: true, size: 12, spaceBefore: 14 });
+
+  for (const message of record.messages) {
+    if (message.message_type === MessageType.SYSTEM) {
+      lines.push({
+        text: `[${formatTimestamp(message.sent_at)}] ${message.content ?? 'Conversation updated'}`,
+        muted: true,
+        spaceBefore: 8,
+      });
+      continue;
+    }
+
+    const label = message.message_type === MessageType.INQUIRY ? ' (listing inquiry)' : '';
+    lines.push({
+      text: `[${formatTimestamp(message.sent_at)}] ${message.sender_name}${label}`,
+      bold: true,
+      spaceBefore: 8,
+    });
+
+    if (message.is_deleted) {
+      lines.push({
+        text: message.deleted_at
+          ? `[Message deleted ${formatTimestamp(message.deleted_at)}]`
+          : '[Message deleted]',
+        muted: true,
+        indent: 12,
+      });
+    } else if (message.content) {
+      lines.push({ text: message.content, indent: 12 });
+    }
+
+    if (message.reply_to_message_id) {
+      lines.push({ text: `In reply to message ${message.reply_to_message_id}`, muted: true, indent: 12 });
+    }
+    for (const attachment of message.attachments) {
+      const details = [attachment.type, attachment.size !== null ? formatFileSize(attachment.size) : null]
+        .filter(Boolean)
+        .join(', ');
+      lines.push({
+        text: `Attachment: ${attachment.name}${details ? ` (${details})` : ''}`,
+        muted: true,
+        indent: 12,
+      });
+    }
+    if (message.edited_at) {
+      lines.push({ text: `Edited ${formatTimestamp(message.edited_at)}`, muted: true, indent: 12 });
+    }
+    if (message.read_by.length > 0) {
+      lines.push({
+        text: `Read by ${message.read_by
+          .map((receipt) => `${receipt.name} (${formatTimestamp(receipt.read_at)})`)
+          .join(', ')}`,
+        muted: true,
+        indent: 12,
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render an export as a plain-text transcript
+ */
+export function renderConversationExportText(record: ConversationExport): string {
+  return buildTranscriptLines(record)
+    .map((line) => {
+      const prefix = ' '.repeat((line.indent || 0) / 6);
+      const text = line.text
+        .split('\n')
+        .map((part) => prefix + part)
+        .join('\n');
+      return line.spaceBefore ? `\n${text}` : text;
+    })
+    .join('\n')
+    .concat('\n');
+}
+
+/**
+ * Render an export as a PDF transcript
+ */
+export function renderConversationExportPdf(record: ConversationExport): Buffer {
+  const title = record.conversation.subject || 'Conversation record';
+  return buildPdf(title, buildTranscriptLines(record), new Date(record.exported_at));
+}
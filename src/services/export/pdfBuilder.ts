@@ -0,0 +1,199 @@
+/**
+ * Minimal PDF 1.4 builder for text documents
+ * Lays out wrapped lines of Helvetica on US Letter pages with a page-numbered
+ * footer. Text is WinAnsi-encoded; characters outside it (e.g. emoji) print as "?".
+ */
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  // Font size in points (default 10)
+  size?: number;
+  muted?: boolean;
+  // Left indent in points
+  indent?: number;
+  // Extra space above the line in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FOOTER_SIZE = 8;
+const LINE_HEIGHT = 1.4;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Helvetica-Bold runs roughly 10% wider; over-estimating keeps lines inside the margin
+const BOLD_WIDTH_FACTOR = 1.1;
+
+// Characters WinAnsi places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85,
+  '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c,
+  'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Map a character to its WinAnsi code, or "?" if it has none
+ */
+function toWinAnsi(char: string): number {
+  const code = char.codePointAt(0) as number;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char] ?? 63;
+}
+
+/**
+ * Width of a string in points
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+}
+
+/**
+ * Break text into lines that fit maxWidth, on spaces where possible
+ * Explicit newlines are kept
+ */
+export function wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')) {
+    let line = '';
+
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+
+      // Hard-break words longer than a whole line
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, size, bold) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Encode text as a PDF literal string
+ */
+function pdfString(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code > 126) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += String.fromCharCode(code);
+    }
+  }
+  return `(${encoded})`;
+}
+
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * Build a PDF document from lines of text
+ *
+ * @param title - Document title, also shown in each page's footer
+ */
+export function buildPdf(title: string, lines: PdfLine[], createdAt: Date = new Date()): Buffer {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size || 10;
+    const indent = line.indent || 0;
+    const leading = size * LINE_HEIGHT;
+    const font = line.bold ? 'F2' : 'F1';
+    const color = line.muted ? '0.4 g' : '0 g';
+
+    y -= line.spaceBefore || 0;
+
+    for (const text of wrapText(line.text, contentWidth - indent, size, line.bold)) {
+      if (y - leading < MARGIN + FOOTER_SIZE * 2) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      pages[pages.length - 1].push(
+        `BT /${font} ${size} Tf ${color} ${MARGIN + indent} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`
+      );
+    }
+  }
+
+  // Objects 1-4 are the catalog, page tree and fonts; each page adds a page and a content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${6 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${pdfString(title)} /Producer (DemandCRE) /CreationDate (${formatPdfDate(createdAt)}) >>`,
+  ];
+
+  pages.forEach((commands, index) => {
+    const footer = `${title} - Page ${index + 1} of ${pages.length}`;
+    const stream = [
+      ...commands,
+      `BT /F1 ${FOOTER_SIZE} Tf 0.4 g ${MARGIN} ${MARGIN - FOOTER_SIZE} Td ${pdfString(footer)} Tj ET`,
+    ].join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  let document = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(document.length);
+    document += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = document.length;
+  document += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  document += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  document += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\n`;
+  document += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(document, 'latin1');
+}
@@ -0,0 +1,133 @@
+import { GeoBounds, GeoPoint } from '../../types';
+import { CITY_CENTROIDS, ZIP3_TO_CITY, STATE_ABBREVIATIONS } from './centroids';
+
+export const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * GeocodingService
+ *
+ * Resolves listings to coordinates without calling an external provider.
+ * Explicit latitude/longitude always win; otherwise the bundled city and
+ * ZIP3 centroid tables are consulted, in that order.
+ */
+export class GeocodingService {
+  /**
+   * Normalize a state name or abbreviation to its USPS abbreviation
+   */
+  normalizeState(state?: string | null): string {
+    const value = state?.trim() || '';
+    if (value.length === 2) {
+      return value.toUpperCase();
+    }
+    return STATE_ABBREVIATIONS[value.toLowerCase()] || value.toUpperCase();
+  }
+
+  /**
+   * Normalize a city name for centroid lookup ("Saint Paul" -> "st. paul")
+   */
+  normalizeCity(city?: string | null): string {
+    return (city || '')
+      .toLowerCase()
+      .trim()
+      .replace(/\s+/g, ' ')
+      .replace(/^(saint|st\.?)\s/, 'st. ');
+  }
+
+  /**
+   * Look up an approximate centroid for a city/state or ZIP code
+   * Returns null when neither is in the bundled tables
+   */
+  geocode(location: {
+    city?: string | null;
+    state?: string | null;
+    zip_code?: string | null;
+  }): GeoPoint | null {
+    const city = this.normalizeCity(location.city);
+    const state = this.normalizeState(location.state);
+    // "New York City" style names fall back to the bare city name
+    const cityCentroid =
+      CITY_CENTROIDS[`${city}|${state}`] || CITY_CENTROIDS[`${city.replace(/ city$/, '')}|${state}`];
+    if (cityCentroid) {
+      return { latitude: cityCentroid[0], longitude: cityCentroid[1], source: 'city' };
+    }
+
+    const zip3 = (location.zip_code || '').trim().slice(0, 3);
+    const zipCityKey = ZIP3_TO_CITY[zip3];
+    if (zipCityKey) {
+      const zipCentroid = CITY_CENTROIDS[zipCityKey];
+      return { latitude: zipCentroid[0], longitude: zipCentroid[1], source: 'zip' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a record to a point, preferring its own coordinates
+   * pg returns DECIMAL columns as strings, so both forms are accepted
+   */
+  resolvePoint(record: {
+    latitude?: number | string | null;
+    longitude?: number | string | null;
+    city?: string | null;
+    state?: string | null;
+    zip_code?: string | null;
+  }): GeoPoint | null {
+    const latitude = this.toCoordinate(record.latitude);
+    const longitude = this.toCoordinate(record.longitude);
+
+    if (latitude !== null && longitude !== null) {
+      return { latitude, longitude, source: 'exact' };
+    }
+
+    return this.geocode(record);
+  }
+
+  /**
+   * Great-circle distance between two points in miles (haversine formula)
+   */
+  distanceMiles(from: GeoPoint, to: GeoPoint): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+    const dLat = toRadians(to.latitude - from.latitude);
+    const dLng = toRadians(to.longitude - from.longitude);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+
+  /**
+   * Smallest latitude/longitude rectangle containing every point within
+   * radiusMiles of center. Near the poles or the antimeridian it widens to
+   * every longitude rather than wrapping.
+   */
+  boundingBox(center: Pick<GeoPoint, 'latitude' | 'longitude'>, radiusMiles: number): GeoBounds {
+    const milesPerDegree = (EARTH_RADIUS_MILES * Math.PI) / 180;
+    const latDelta = radiusMiles / milesPerDegree;
+    const south = Math.max(-90, center.latitude - latDelta);
+    const north = Math.min(90, center.latitude + latDelta);
+
+    // Widest longitude reached by the circle, which is a little past the
+    // point due east at the center's latitude
+    const sinRadius = Math.sin(radiusMiles / EARTH_RADIUS_MILES);
+    const cosLat = Math.cos((center.latitude * Math.PI) / 180);
+    const lngDelta = sinRadius < cosLat ? (Math.asin(sinRadius / cosLat) * 180) / Math.PI : Infinity;
+    if (south === -90 || north === 90 || center.longitude - lngDelta < -180 || center.longitude + lngDelta > 180) {
+      return { south, west: -180, north, east: 180 };
+    }
+
+    return { south, west: center.longitude - lngDelta, north, east: center.longitude + lngDelta };
+  }
+
+  private toCoordinate(value?: number | string | null): number | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    const parsed = typeof value === 'number' ? value : parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+}
+
+// Export singleton instance
+export const geocodingService = new GeocodingService();
@@ -0,0 +1,295 @@
+/**
+ * Offline centroid tables used by GeocodingService
+ *
+ * City centroids are keyed by `lowercase city|STATE_ABBR`. ZIP3 prefixes point
+ * at a city key rather than carrying their own coordinates, so a listing with
+ * only a ZIP code resolves to the same centroid as one with a matching city.
+ */
+
+export const CITY_CENTROIDS: Record<string, [number, number]> = {
+  // Northeast
+  'new york|NY': [40.7128, -74.006],
+  'brooklyn|NY': [40.6782, -73.9442],
+  'queens|NY': [40.7282, -73.7949],
+  'bronx|NY': [40.8448, -73.8648],
+  'staten island|NY': [40.5795, -74.1502],
+  'buffalo|NY': [42.8864, -78.8784],
+  'rochester|NY': [43.1566, -77.6088],
+  'albany|NY': [42.6526, -73.7562],
+  'jersey city|NJ': [40.7178, -74.0431],
+  'newark|NJ': [40.7357, -74.1724],
+  'hoboken|NJ': [40.744, -74.0324],
+  'philadelphia|PA': [39.9526, -75.1652],
+  'pittsburgh|PA': [40.4406, -79.9959],
+  'boston|MA': [42.3601, -71.0589],
+  'cambridge|MA': [42.3736, -71.1097],
+  'providence|RI': [41.824, -71.4128],
+  'hartford|CT': [41.7658, -72.6734],
+  'stamford|CT': [41.0534, -73.5387],
+
+  // Mid-Atlantic & Southeast
+  'washington|DC': [38.9072, -77.0369],
+  'baltimore|MD': [39.2904, -76.6122],
+  'arlington|VA': [38.8816, -77.091],
+  'richmond|VA': [37.5407, -77.436],
+  'virginia beach|VA': [36.8529, -75.978],
+  'charlotte|NC': [35.2271, -80.8431],
+  'raleigh|NC': [35.7796, -78.6382],
+  'durham|NC': [35.994, -78.8986],
+  'charleston|SC': [32.7765, -79.9311],
+  'columbia|SC': [34.0007, -81.0348],
+  'atlanta|GA': [33.749, -84.388],
+  'savannah|GA': [32.0809, -81.0912],
+  'miami|FL': [25.7617, -80.1918],
+  'miami beach|FL': [25.7907, -80.13],
+  'coral gables|FL': [25.7215, -80.2684],
+  'fort lauderdale|FL': [26.1224, -80.1373],
+  'hollywood|FL': [26.0112, -80.1495],
+  'boca raton|FL': [26.3683, -80.1289],
+  'west palm beach|FL': [26.7153, -80.0534],
+  'orlando|FL': [28.5383, -81.3792],
+  'tampa|FL': [27.9506, -82.4572],
+  'st. petersburg|FL': [27.7676, -82.6403],
+  'jacksonville|FL': [30.3322, -81.6557],
+  'tallahassee|FL': [30.4383, -84.2807],
+  'nashville|TN': [36.1627, -86.7816],
+  'memphis|TN': [35.1495, -90.049],
+  'knoxville|TN': [35.9606, -83.9207],
+  'louisville|KY': [38.2527, -85.7585],
+  'birmingham|AL': [33.5186, -86.8104],
+  'new orleans|LA': [29.9511, -90.0715],
+
+  // Midwest
+  'chicago|IL': [41.8781, -87.6298],
+  'evanston|IL': [42.0451, -87.6877],
+  'detroit|MI': [42.3314, -83.0458],
+  'ann arbor|MI': [42.2808, -83.743],
+  'grand rapids|MI': [42.9634, -85.6681],
+  'cleveland|OH': [41.4993, -81.6944],
+  'columbus|OH': [39.9612, -82.9988],
+  'cincinnati|OH': [39.1031, -84.512],
+  'indianapolis|IN': [39.7684, -86.1581],
+  'milwaukee|WI': [43.0389, -87.9065],
+  'madison|WI': [43.0731, -89.4012],
+  'minneapolis|MN': [44.9778, -93.265],
+  'st. paul|MN': [44.9537, -93.09],
+  'st. louis|MO': [38.627, -90.1994],
+  'kansas city|MO': [39.0997, -94.5786],
+  'omaha|NE': [41.2565, -95.9345],
+  'des moines|IA': [41.5868, -93.625],
+
+  // South Central & Mountain
+  'dallas|TX': [32.7767, -96.797],
+  'fort worth|TX': [32.7555, -97.3308],
+  'arlington|TX': [32.7357, -97.1081],
+  'plano|TX': [33.0198, -96.6989],
+  'houston|TX': [29.7604, -95.3698],
+  'austin|TX': [30.2672, -97.7431],
+  'san antonio|TX': [29.4241, -98.4936],
+  'el paso|TX': [31.7619, -106.485],
+  'oklahoma city|OK': [35.4676, -97.5164],
+  'tulsa|OK': [36.154, -95.9928],
+  'denver|CO': [39.7392, -104.9903],
+  'boulder|CO': [40.015, -105.2705],
+  'colorado springs|CO': [38.8339, -104.8214],
+  'salt lake city|UT': [40.7608, -111.891],
+  'phoenix|AZ': [33.4484, -112.074],
+  'scottsdale|AZ': [33.4942, -111.9261],
+  'tempe|AZ': [33.4255, -111.94],
+  'tucson|AZ': [32.2226, -110.9747],
+  'albuquerque|NM': [35.0844, -106.6504],
+  'las vegas|NV': [36.1699, -115.1398],
+  'reno|NV': [39.5296, -119.8138],
+  'boise|ID': [43.615, -116.2023],
+
+  // West Coast & Pacific
+  'los angeles|CA': [34.0522, -118.2437],
+  'santa monica|CA': [34.0195, -118.4912],
+  'long beach|CA': [33.7701, -118.1937],
+  'pasadena|CA': [34.1478, -118.1445],
+  'irvine|CA': [33.6846, -117.8265],
+  'anaheim|CA': [33.8366, -117.9143],
+  'san diego|CA': [32.7157, -117.1611],
+  'san francisco|CA': [37.7749, -122.4194],
+  'oakland|CA': [37.8044, -122.2712],
+  'san jose|CA': [37.3382, -121.8863],
+  'palo alto|CA': [37.4419, -122.143],
+  'sacramento|CA': [38.5816, -121.4944],
+  'fresno|CA': [36.7378, -119.7871],
+  'portland|OR': [45.5152, -122.6784],
+  'seattle|WA': [47.6062, -122.3321],
+  'bellevue|WA': [47.6101, -122.2015],
+  'tacoma|WA': [47.2529, -122.4443],
+  'spokane|WA': [47.6588, -117.426],
+  'honolulu|HI': [21.3069, -157.8583],
+  'anchorage|AK': [61.2181, -149.9003],
+};
+
+export const ZIP3_TO_CITY: Record<string, string> = {
+  '100': 'new york|NY',
+  '101': 'new york|NY',
+  '102': 'new york|NY',
+  '103': 'staten island|NY',
+  '104': 'bronx|NY',
+  '112': 'brooklyn|NY',
+  '113': 'queens|NY',
+  '114': 'queens|NY',
+  '116': 'queens|NY',
+  '122': 'albany|NY',
+  '142': 'buffalo|NY',
+  '146': 'rochester|NY',
+  '070': 'newark|NJ',
+  '071': 'newark|NJ',
+  '073': 'jersey city|NJ',
+  '191': 'philadelphia|PA',
+  '152': 'pittsburgh|PA',
+  '021': 'boston|MA',
+  '022': 'boston|MA',
+  '029': 'providence|RI',
+  '061': 'hartford|CT',
+  '069': 'stamford|CT',
+  '200': 'washington|DC',
+  '202': 'washington|DC',
+  '203': 'washington|DC',
+  '204': 'washington|DC',
+  '205': 'washington|DC',
+  '212': 'baltimore|MD',
+  '222': 'arlington|VA',
+  '232': 'richmond|VA',
+  '234': 'virginia beach|VA',
+  '282': 'charlotte|NC',
+  '276': 'raleigh|NC',
+  '277': 'durham|NC',
+  '294': 'charleston|SC',
+  '292': 'columbia|SC',
+  '303': 'atlanta|GA',
+  '314': 'savannah|GA',
+  '331': 'miami|FL',
+  '332': 'miami|FL',
+  '333': 'fort lauderdale|FL',
+  '334': 'west palm beach|FL',
+  '328': 'orlando|FL',
+  '336': 'tampa|FL',
+  '337': 'st. petersburg|FL',
+  '322': 'jacksonville|FL',
+  '323': 'tallahassee|FL',
+  '372': 'nashville|TN',
+  '381': 'memphis|TN',
+  '379': 'knoxville|TN',
+  '402': 'louisville|KY',
+  '352': 'birmingham|AL',
+  '701': 'new orleans|LA',
+  '606': 'chicago|IL',
+  '482': 'detroit|MI',
+  '481': 'ann arbor|MI',
+  '495': 'grand rapids|MI',
+  '441': 'cleveland|OH',
+  '432': 'columbus|OH',
+  '452': 'cincinnati|OH',
+  '462': 'indianapolis|IN',
+  '532': 'milwaukee|WI',
+  '537': 'madison|WI',
+  '554': 'minneapolis|MN',
+  '551': 'st. paul|MN',
+  '631': 'st. louis|MO',
+  '641': 'kansas city|MO',
+  '681': 'omaha|NE',
+  '503': 'des moines|IA',
+  '752': 'dallas|TX',
+  '750': 'plano|TX',
+  '761': 'fort worth|TX',
+  '770': 'houston|TX',
+  '787': 'austin|TX',
+  '782': 'san antonio|TX',
+  '799': 'el paso|TX',
+  '731': 'oklahoma city|OK',
+  '741': 'tulsa|OK',
+  '802': 'denver|CO',
+  '803': 'boulder|CO',
+  '809': 'colorado springs|CO',
+  '841': 'salt lake city|UT',
+  '850': 'phoenix|AZ',
+  '852': 'scottsdale|AZ',
+  '857': 'tucson|AZ',
+  '871': 'albuquerque|NM',
+  '891': 'las vegas|NV',
+  '895': 'reno|NV',
+  '837': 'boise|ID',
+  '900': 'los angeles|CA',
+  '904': 'santa monica|CA',
+  '908': 'long beach|CA',
+  '911': 'pasadena|CA',
+  '926': 'irvine|CA',
+  '928': 'anaheim|CA',
+  '921': 'san diego|CA',
+  '941': 'san francisco|CA',
+  '943': 'palo alto|CA',
+  '946': 'oakland|CA',
+  '951': 'san jose|CA',
+  '958': 'sacramento|CA',
+  '937': 'fresno|CA',
+  '972': 'portland|OR',
+  '980': 'bellevue|WA',
+  '981': 'seattle|WA',
+  '984': 'tacoma|WA',
+  '992': 'spokane|WA',
+  '968': 'honolulu|HI',
+  '995': 'anchorage|AK',
+};
+
+/**
+ * Full state names to USPS abbreviations, so "Florida" and "FL" resolve alike
+ */
+export const STATE_ABBREVIATIONS: Record<string, string> = {
+  alabama: 'AL',
+  alaska: 'AK',
+  arizona: 'AZ',
+  arkansas: 'AR',
+  california: 'CA',
+  colorado: 'CO',
+  connecticut: 'CT',
+  delaware: 'DE',
+  'district of columbia': 'DC',
+  florida: 'FL',
+  georgia: 'GA',
+  hawaii: 'HI',
+  idaho: 'ID',
+  illinois: 'IL',
+  indiana: 'IN',
+  iowa: 'IA',
+  kansas: 'KS',
+  kentucky: 'KY',
+  louisiana: 'LA',
+  maine: 'ME',
+  maryland: 'MD',
+  massachusetts: 'MA',
+  michigan: 'MI',
+  minnesota: 'MN',
+  mississippi: 'MS',
+  missouri: 'MO',
+  montana: 'MT',
+  nebraska: 'NE',
+  nevada: 'NV',
+  'new hampshire': 'NH',
+  'new jersey': 'NJ',
+  'new mexico': 'NM',
+  'new york': 'NY',
+  'north carolina': 'NC',
+  'north dakota': 'ND',
+  ohio: 'OH',
+  oklahoma: 'OK',
+  oregon: 'OR',
+  pennsylvania: 'PA',
+  'rhode island': 'RI',
+  'south carolina': 'SC',
+  'south dakota': 'SD',
+  tennessee: 'TN',
+  texas: 'TX',
+  utah: 'UT',
+  vermont: 'VT',
+  virginia: 'VA',
+  washington: 'WA',
+  'west virginia': 'WV',
+  wisconsin: 'WI',
+  wyoming: 'WY',
+};
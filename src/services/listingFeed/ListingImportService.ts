@@ -0,0 +1,226 @@
+import { ListingImportJobModel } from '../../database/models/ListingImportJob';
+import { PropertyListingModel } from '../../database/models/PropertyListing';
+import { ListingFeedRecord, ListingImportData, readCsvFeed, readResoFeed, validateFeedRecord } from './listingFeed';
+import {
+  ListingFeedFormat,
+  ListingImportJob,
+  ListingImportRowError,
+  PropertyListing,
+  PropertyListingStatus,
+} from '../../types';
+
+// Enough to fix a file from; a file that's wrong on every row says so in the first few
+const MAX_REPORTED_ERRORS = 1000;
+// A job still processing after this long lost its server and is picked up again
+export const IMPORT_STALE_MINUTES = 15;
+
+export interface ListingImportReport {
+  total_rows: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  errors: ListingImportRowError[];
+}
+
+/**
+ * ListingImportService
+ *
+ * Works through queued listing import jobs: reads the file, validates every
+ * row, then creates or updates the valid rows (or, for a dry run, only counts
+ * what would be created and updated). Invalid rows are skipped and reported
+ * so one bad row doesn't hold up a portfolio.
+ *
+ * Rows update the user's listing with the same external_id, or the same
+ * TenantList id, and create a listing otherwise. On update, fields the file
+ * doesn't have (a column or RESO field left out) keep their current values.
+ * Photos uploaded in the app aren't in exports and are kept on update, ahead
+ * of the file's photos.
+ *
+ * Imported listings don't send saved search alerts; a portfolio upload would
+ * otherwise flood tenants with alerts for listings that aren't new.
+ */
+export class ListingImportService {
+  private importJobModel: ListingImportJobModel;
+  private propertyListingModel: PropertyListingModel;
+
+  constructor(importJobModel?: ListingImportJobModel, propertyListingModel?: PropertyListingModel) {
+    this.importJobModel = importJobModel || new ListingImportJobModel();
+    this.propertyListingModel = propertyListingModel || new PropertyListingModel();
+  }
+
+  /**
+   * Process a queued job, unless another worker already has it
+   *
+   * @returns The finished job, or null if it wasn't available
+   */
+  async processJob(jobId: string): Promise<ListingImportJob | null> {
+    const job = await this.importJobModel.claim(jobId, IMPORT_STALE_MINUTES);
+    if (!job) {
+      return null;
+    }
+
+    try {
+      const records = job.format === ListingFeedFormat.RESO ? readResoFeed(job.payload) : readCsvFeed(job.payload);
+      const report = await this.importRecords(job.user_id, records, job.dry_run);
+      return await this.importJobModel.complete(job.id, report);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid file')) {
+        return this.importJobModel.fail(job.id, error.message);
+      }
+      console.error(`Listing import ${job.id} failed:`, error);
+      return this.importJobModel.fail(job.id, 'The import could not be completed. Please try again.');
+    }
+  }
+
+  /**
+   * Process every job that is waiting, or whose processing stalled
+   *
+   * @returns Number of jobs processed
+   */
+  async processPendingJobs(): Promise<number> {
+    const jobIds = await this.importJobModel.findUnfinishedIds(IMPORT_STALE_MINUTES);
+    let processed = 0;
+
+    for (const jobId of jobIds) {
+      if (await this.processJob(jobId)) {
+        processed++;
+      }
+    }
+
+    return processed;
+  }
+
+  /**
+   * Validate feed records and import the valid ones for a user
+   */
+  async importRecords(userId: string, records: ListingFeedRecord[], dryRun: boolean): Promise<ListingImportReport> {
+    const errors: ListingImportRowError[] = [];
+    const valid: Array<{ record: ListingFeedRecord; data: ListingImportData }> = [];
+    const seen = new Map<string, number>();
+
+    for (const record of records) {
+      const result = validateFeedRecord(record);
+      if (!result.data) {
+        errors.push(...result.errors);
+        continue;
+      }
+
+      // The same listing twice in one file is almost certainly a mistake
+      const field = result.data.external_id ? 'external_id' : 'id';
+      const key = result.data[field] && `${field}:${result.data[field]}`;
+      if (key && seen.has(key)) {
+        errors.push({
+          row: record.row,
+          external_id: result.data.external_id,
+          field,
+          message: `${field} is repeated from row ${seen.get(key)}`,
+        });
+        continue;
+      }
+      if (key) {
+        seen.set(key, record.row);
+      }
+
+      valid.push({ record, data: result.data });
+    }
+
+    const existing = await this.propertyListingModel.findForImport(
+      userId,
+      valid.map(({ data }) => data.external_id).filter((id): id is string => !!id),
+      valid.map(({ data }) => data.id).filter((id): id is string => !!id)
+    );
+    const byExternalId = new Map(existing.filter((l) => l.external_id).map((l) => [l.external_id as string, l]));
+    const byId = new Map(existing.map((l) => [l.id, l]));
+
+    let created = 0;
+    let updated = 0;
+
+    for (const { record, data } of valid) {
+      const match = (data.external_id && byExternalId.get(data.external_id)) || (data.id && byId.get(data.id)) || null;
+
+      if (!match && data.id) {
+        errors.push({
+          row: record.row,
+          external_id: data.external_id,
+          field: 'id',
+          message: 'id does not match any of your listings; leave it blank to create a listing',
+        });
+        continue;
+      }
+
+      if (dryRun) {
+        match ? updated++ : created++;
+        continue;
+      }
+
+      try {
+        if (match) {
+          await this.propertyListingModel.update(match.id, this.toUpdate(match, record, data));
+          updated++;
+        } else {
+          await this.propertyListingModel.create(this.toCreate(userId, data));
+          created++;
+        }
+      } catch (error) {
+        // Another listing already has this external_id (matched by id here)
+        if ((error as { code?: string }).code === '23505') {
+          errors.push({
+            row: record.row,
+            external_id: data.external_id,
+            field: 'external_id',
+            message: 'external_id is already used by another of your listings',
+          });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+
+    return {
+      total_rows: records.length,
+      created_count: created,
+      updated_count: updated,
+      skipped_count: records.length - created - updated,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+    };
+  }
+
+  private toCreate(userId: string, data: ListingImportData): Parameters<PropertyListingModel['create']>[0] {
+    const { id: _id, status, ...fields } = data;
+    return {
+      ...fields,
+      user_id: userId,
+      // Like listings created in the app, unless the file says otherwise
+      status: status || PropertyListingStatus.PENDING,
+    };
+  }
+
+  private toUpdate(
+    match: PropertyListing,
+    record: ListingFeedRecord,
+    data: ListingImportData
+  ): Partial<PropertyListing> {
+    const update: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(data)) {
+      if (field === 'id' || record.values[field] === undefined) continue;
+      // A blank status or external_id keeps the current one
+      if ((field === 'status' || field === 'external_id') && value === null) continue;
+      update[field] = value;
+    }
+
+    if (update.photos) {
+      const uploaded = (match.photos || []).filter((photo) => photo.media_id);
+      update.photos = [
+        ...uploaded,
+        ...data.photos.map((photo, index) => ({ ...photo, order: uploaded.length + index })),
+      ];
+    }
+
+    return update as Partial<PropertyListing>;
+  }
+}
+
+export const listingImportService = new ListingImportService();
@@ -0,0 +1,91 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing for listing import and export
+ *
+ * Spreadsheet apps run text cells starting with = + - or @ as formulas, so
+ * those (other than plain numbers) are written with a leading apostrophe,
+ * which reading strips again.
+ */
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+const isFormula = (value: string): boolean => FORMULA_PREFIX.test(value) && !NUMBER_PATTERN.test(value);
+
+const unescapeFormula = (value: string): string =>
+  value.startsWith("'") && isFormula(value.slice(1)) ? value.slice(1) : value;
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells containing commas,
+ * quotes and line breaks, CRLF or LF line endings and a UTF-8 byte order mark.
+ * Blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows.map((cells) => cells.map(unescapeFormula));
+}
+
+const formatCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = isFormula(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write rows of cells as CSV with CRLF line endings
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,598 @@
+import { parseCsv, toCsv } from './csv';
+import { geocodingService } from '../geo/GeocodingService';
+import {
+  ListingImportRowError,
+  PropertyListing,
+  PropertyListingStatus,
+  PropertyType,
+} from '../../types';
+
+/**
+ * Listing feeds: bulk listing files in and out of TenantList
+ *
+ * Two formats are supported, and each exports exactly what it imports so a
+ * portfolio can round-trip:
+ * - CSV with one column per listing field (LISTING_CSV_COLUMNS). List fields
+ *   (amenities, highlights, photo_urls) are separated by "|".
+ * - JSON shaped like a RESO Web API Property response: { "value": [records] }
+ *   (a bare array is accepted too) using RESO Data Dictionary field names.
+ *   Fields RESO has no name for use the local TL_ prefix, e.g. TL_Title.
+ *
+ * Listings are matched by external_id (RESO ListingId), falling back to the
+ * TenantList id (RESO ListingKey) that export writes, so exported files can
+ * be edited and re-imported.
+ */
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+const MAX_EXTERNAL_ID_LENGTH = 100;
+const MAX_TITLE_LENGTH = 255;
+const LIST_SEPARATOR = '|';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ZIP_PATTERN = /^\d{5}(-\d{4})?$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * A listing as read from a feed, before validation. Values are whatever the
+ * file held: strings from CSV, strings, numbers or arrays from JSON
+ */
+export interface ListingFeedRecord {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * A validated listing from a feed, ready to create or update
+ */
+export interface ListingImportData {
+  external_id: string | null;
+  id: string | null;
+  title: string;
+  description: string | null;
+  property_type: PropertyType;
+  status: PropertyListingStatus | null;
+  address: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  latitude: number | null;
+  longitude: number | null;
+  sqft: number;
+  lot_size: number | null;
+  year_built: number | null;
+  floors: number | null;
+  asking_price: number | null;
+  price_per_sqft: number | null;
+  lease_type: string | null;
+  cam_charges: number | null;
+  available_date: string | null;
+  min_lease_term: string | null;
+  max_lease_term: string | null;
+  amenities: string[];
+  highlights: string[];
+  photos: Array<{ url: string; caption?: string; order?: number }>;
+  virtual_tour_url: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+}
+
+export const LISTING_CSV_COLUMNS = [
+  'id',
+  'external_id',
+  'title',
+  'description',
+  'property_type',
+  'status',
+  'address',
+  'city',
+  'state',
+  'zip_code',
+  'latitude',
+  'longitude',
+  'sqft',
+  'lot_size',
+  'year_built',
+  'floors',
+  'asking_price',
+  'price_per_sqft',
+  'lease_type',
+  'cam_charges',
+  'available_date',
+  'min_lease_term',
+  'max_lease_term',
+  'amenities',
+  'highlights',
+  'photo_urls',
+  'virtual_tour_url',
+  'contact_name',
+  'contact_email',
+  'contact_phone',
+] as const;
+
+const REQUIRED_CSV_COLUMNS = ['title', 'address', 'city', 'state', 'zip_code', 'sqft'];
+
+// RESO StandardStatus values and what they mean here
+const RESO_STATUS_TO_STATUS: Record<string, PropertyListingStatus> = {
+  active: PropertyListingStatus.ACTIVE,
+  comingsoon: PropertyListingStatus.PENDING,
+  pending: PropertyListingStatus.PENDING,
+  activeundercontract: PropertyListingStatus.PENDING,
+  closed: PropertyListingStatus.LEASED,
+  leased: PropertyListingStatus.LEASED,
+  withdrawn: PropertyListingStatus.OFF_MARKET,
+  expired: PropertyListingStatus.OFF_MARKET,
+  canceled: PropertyListingStatus.OFF_MARKET,
+  hold: PropertyListingStatus.OFF_MARKET,
+  offmarket: PropertyListingStatus.OFF_MARKET,
+};
+
+const STATUS_TO_RESO_STATUS: Record<PropertyListingStatus, string> = {
+  [PropertyListingStatus.ACTIVE]: 'Active',
+  [PropertyListingStatus.PENDING]: 'Pending',
+  [PropertyListingStatus.LEASED]: 'Closed',
+  [PropertyListingStatus.OFF_MARKET]: 'Withdrawn',
+};
+
+// RESO PropertySubType values that aren't just our type names
+const RESO_SUBTYPE_TO_TYPE: Record<string, PropertyType> = {
+  'mixed use': PropertyType.OTHER,
+  'special purpose': PropertyType.OTHER,
+  'business': PropertyType.OTHER,
+  'hotel/motel': PropertyType.OTHER,
+  'unimproved land': PropertyType.LAND,
+};
+
+const PROPERTY_TYPES = Object.values(PropertyType);
+const STATUSES = Object.values(PropertyListingStatus);
+
+/**
+ * Error for a whole file that can't be read, as opposed to a bad row
+ */
+const invalidFile = (message: string) => new Error(`Invalid file: ${message}`);
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Read CSV text into feed records, one per data row. Rows are numbered as a
+ * spreadsheet shows them, so the first data row is row 2
+ */
+export function readCsvFeed(text: string): ListingFeedRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw invalidFile('the file is empty');
+  }
+
+  const columns = header.map(normalizeHeader);
+  const missing = REQUIRED_CSV_COLUMNS.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw invalidFile(`missing columns: ${missing.join(', ')}`);
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw invalidFile(`at most ${MAX_IMPORT_ROWS} listings can be imported at once`);
+  }
+
+  return rows.map((cells, index) => {
+    const values: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      values[column] = cells[i];
+    });
+
+    for (const field of ['amenities', 'highlights', 'photo_urls']) {
+      if (typeof values[field] === 'string') {
+        values[field] = (values[field] as string).split(LIST_SEPARATOR);
+      }
+    }
+    values.photos = values.photo_urls;
+    delete values.photo_urls;
+
+    return { row: index + 2, values };
+  });
+}
+
+const firstOf = (value: unknown): unknown => (Array.isArray(value) ? value[0] : value);
+
+const resoAddress = (record: Record<string, unknown>): unknown => {
+  if (record.UnparsedAddress) {
+    return record.UnparsedAddress;
+  }
+  const parts = ['StreetNumber', 'StreetDirPrefix', 'StreetName', 'StreetSuffix', 'StreetDirSuffix']
+    .map((field) => record[field])
+    .filter((part) => part !== undefined && part !== null && String(part).trim() !== '');
+  if (parts.length === 0) {
+    return undefined;
+  }
+  const unit = record.UnitNumber ? ` #${record.UnitNumber}` : '';
+  return `${parts.join(' ')}${unit}`;
+};
+
+const resoPropertyType = (record: Record<string, unknown>): unknown => {
+  const subType = firstOf(record.PropertySubType);
+  if (typeof subType === 'string' && subType.trim()) {
+    return RESO_SUBTYPE_TO_TYPE[subType.trim().toLowerCase()] || subType;
+  }
+  return typeof record.PropertyType === 'string' && record.PropertyType.toLowerCase() === 'land'
+    ? PropertyType.LAND
+    : undefined;
+};
+
+const resoStatus = (value: unknown): unknown => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  return RESO_STATUS_TO_STATUS[value.replace(/[\s_]/g, '').toLowerCase()] || value;
+};
+
+const resoPhotos = (media: unknown): unknown => {
+  if (!Array.isArray(media)) {
+    return media;
+  }
+  return media
+    .filter((item) => !item?.MediaCategory || String(item.MediaCategory).toLowerCase() === 'photo')
+    .sort((a, b) => (Number(a?.Order) || 0) - (Number(b?.Order) || 0))
+    .map((item) => ({ url: item?.MediaURL, caption: item?.ShortDescription, order: item?.Order }));
+};
+
+/**
+ * Read a RESO-style JSON feed into feed records, numbered from 1 in file order
+ */
+export function readResoFeed(text: string): ListingFeedRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  } catch {
+    throw invalidFile('not valid JSON');
+  }
+
+  const records = Array.isArray(parsed) ? parsed : (parsed as { value?: unknown })?.value;
+  if (!Array.isArray(records)) {
+    throw invalidFile('expected an array of Property records, or an object with a "value" array');
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw invalidFile(`at most ${MAX_IMPORT_ROWS} listings can be imported at once`);
+  }
+
+  return records.map((record, index) => {
+    const r: Record<string, unknown> = record && typeof record === 'object' ? record : {};
+    const listingKey = typeof r.ListingKey === 'string' ? r.ListingKey : undefined;
+    const ownKey = listingKey && UUID_PATTERN.test(listingKey) ? listingKey : undefined;
+
+    return {
+      row: index + 1,
+      values: {
+        id: ownKey,
+        // Another system's ListingKey identifies the listing when there's no ListingId
+        external_id: r.ListingId ?? (ownKey ? undefined : listingKey),
+        title: r.TL_Title ?? resoAddress(r),
+        description: r.PublicRemarks,
+        property_type: resoPropertyType(r),
+        status: resoStatus(r.StandardStatus),
+        address: resoAddress(r),
+        city: r.City,
+        state: r.StateOrProvince,
+        zip_code: r.PostalCode,
+        latitude: r.Latitude,
+        longitude: r.Longitude,
+        sqft: r.LeasableArea ?? r.BuildingAreaTotal,
+        lot_size: r.LotSizeSquareFeet,
+        year_built: r.YearBuilt,
+        floors: r.StoriesTotal ?? r.Stories,
+        asking_price: r.ListPrice ?? r.LeaseAmount,
+        price_per_sqft: r.TL_PricePerSqft,
+        lease_type: r.TL_LeaseType,
+        cam_charges: r.TL_CamCharges,
+        available_date: r.AvailabilityDate,
+        min_lease_term: r.TL_MinLeaseTerm,
+        max_lease_term: r.TL_MaxLeaseTerm,
+        amenities: r.BuildingFeatures,
+        highlights: r.TL_Highlights,
+        photos: resoPhotos(r.Media),
+        virtual_tour_url: r.VirtualTourURLUnbranded,
+        contact_name: r.ListAgentFullName,
+        contact_email: r.ListAgentEmail,
+        contact_phone: r.ListAgentDirectPhone,
+      },
+    };
+  });
+}
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate a feed record and convert it to listing fields. Every problem in
+ * the record is reported, not just the first
+ */
+export function validateFeedRecord(record: ListingFeedRecord): {
+  data: ListingImportData | null;
+  errors: ListingImportRowError[];
+} {
+  const { row, values } = record;
+  const errors: ListingImportRowError[] = [];
+  const externalIdValue = isBlank(values.external_id) ? null : String(values.external_id).trim();
+
+  const fail = (field: string, message: string) => {
+    errors.push({ row, external_id: externalIdValue, field, message });
+  };
+
+  const text = (field: string, options: { required?: boolean; max?: number } = {}): string | null => {
+    const value = values[field];
+    if (isBlank(value)) {
+      if (options.required) fail(field, `${field} is required`);
+      return null;
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      fail(field, `${field} must be text`);
+      return null;
+    }
+    const trimmed = String(value).trim();
+    if (options.max && trimmed.length > options.max) {
+      fail(field, `${field} must be at most ${options.max} characters`);
+      return null;
+    }
+    return trimmed;
+  };
+
+  const number = (
+    field: string,
+    options: { required?: boolean; min?: number; max?: number; integer?: boolean; positive?: boolean } = {}
+  ): number | null => {
+    const value = values[field];
+    if (isBlank(value)) {
+      if (options.required) fail(field, `${field} is required`);
+      return null;
+    }
+    // Allow "$1,250.00" and "12,000" as spreadsheets format them
+    const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+    if (!Number.isFinite(parsed)) {
+      fail(field, `${field} must be a number`);
+      return null;
+    }
+    if (options.integer && !Number.isInteger(parsed)) {
+      fail(field, `${field} must be a whole number`);
+      return null;
+    }
+    if (options.positive && parsed <= 0) {
+      fail(field, `${field} must be greater than 0`);
+      return null;
+    }
+    if ((options.min !== undefined && parsed < options.min) || (options.max !== undefined && parsed > options.max)) {
+      fail(field, `${field} must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}`);
+      return null;
+    }
+    return parsed;
+  };
+
+  const list = (field: string): string[] => {
+    const value = values[field];
+    if (isBlank(value)) return [];
+    const items = Array.isArray(value) ? value : String(value).split(',');
+    return items.map((item) => String(item ?? '').trim()).filter(Boolean);
+  };
+
+  const url = (field: string): string | null => {
+    const value = text(field, { max: 2048 });
+    if (value && !isHttpUrl(value)) {
+      fail(field, `${field} must be an http(s) URL`);
+      return null;
+    }
+    return value;
+  };
+
+  const id = text('id');
+  if (id && !UUID_PATTERN.test(id)) {
+    fail('id', 'id must be a TenantList listing ID; put your own IDs in external_id');
+  }
+  const externalId = text('external_id', { max: MAX_EXTERNAL_ID_LENGTH });
+
+  const typeValue = text('property_type');
+  const propertyType = (typeValue?.toLowerCase() || PropertyType.OTHER) as PropertyType;
+  if (!PROPERTY_TYPES.includes(propertyType)) {
+    fail('property_type', `property_type must be one of: ${PROPERTY_TYPES.join(', ')}`);
+  }
+
+  const statusValue = text('status');
+  const status = (statusValue?.toLowerCase().replace(/[\s-]+/g, '_') || null) as PropertyListingStatus | null;
+  if (status && !STATUSES.includes(status)) {
+    fail('status', `status must be one of: ${STATUSES.join(', ')}`);
+  }
+
+  const stateValue = text('state', { required: true });
+  const state = stateValue ? geocodingService.normalizeState(stateValue) : null;
+  if (state && !/^[A-Z]{2}$/.test(state)) {
+    fail('state', 'state must be a US state name or two-letter abbreviation');
+  }
+
+  let zipCode = text('zip_code', { required: true });
+  // Spreadsheets drop the leading zeros of ZIP codes like 02110
+  if (zipCode && /^\d{3,4}$/.test(zipCode)) {
+    zipCode = zipCode.padStart(5, '0');
+  }
+  if (zipCode && !ZIP_PATTERN.test(zipCode)) {
+    fail('zip_code', 'zip_code must be a 5-digit ZIP or ZIP+4');
+  }
+
+  const latitude = number('latitude', { min: -90, max: 90 });
+  const longitude = number('longitude', { min: -180, max: 180 });
+  const coordinateErrors = errors.some((e) => e.field === 'latitude' || e.field === 'longitude');
+  if ((latitude === null) !== (longitude === null) && !coordinateErrors) {
+    fail(latitude === null ? 'latitude' : 'longitude', 'latitude and longitude must be given together');
+  }
+
+  const availableDate = text('available_date');
+  if (availableDate && (!DATE_PATTERN.test(availableDate) || Number.isNaN(Date.parse(availableDate)))) {
+    fail('available_date', 'available_date must be a date in YYYY-MM-DD format');
+  }
+
+  const contactEmail = text('contact_email', { max: 255 });
+  if (contactEmail && !EMAIL_PATTERN.test(contactEmail)) {
+    fail('contact_email', 'contact_email must be an email address');
+  }
+
+  const photos: ListingImportData['photos'] = [];
+  const photoValues = isBlank(values.photos) ? [] : Array.isArray(values.photos) ? values.photos : [values.photos];
+  photoValues.forEach((photo, index) => {
+    const photoUrl = typeof photo === 'object' && photo !== null ? (photo as { url?: unknown }).url : photo;
+    if (isBlank(photoUrl)) return;
+    if (typeof photoUrl !== 'string' || !isHttpUrl(photoUrl.trim())) {
+      fail('photos', `photo ${index + 1} must be an http(s) URL`);
+      return;
+    }
+    const caption = typeof photo === 'object' && photo !== null ? (photo as { caption?: unknown }).caption : undefined;
+    photos.push({
+      url: photoUrl.trim(),
+      ...(typeof caption === 'string' && caption.trim() ? { caption: caption.trim() } : {}),
+      order: photos.length,
+    });
+  });
+
+  const currentYear = new Date().getFullYear();
+  const data: ListingImportData = {
+    external_id: externalId,
+    id: id && UUID_PATTERN.test(id) ? id.toLowerCase() : null,
+    title: text('title', { required: true, max: MAX_TITLE_LENGTH }) || '',
+    description: text('description'),
+    property_type: propertyType,
+    status,
+    address: text('address', { required: true, max: 255 }) || '',
+    city: text('city', { required: true, max: 100 }) || '',
+    state: state || '',
+    zip_code: zipCode || '',
+    latitude,
+    longitude,
+    sqft: number('sqft', { required: true, integer: true, positive: true }) || 0,
+    lot_size: number('lot_size', { positive: true }),
+    year_built: number('year_built', { integer: true, min: 1700, max: currentYear + 5 }),
+    floors: number('floors', { integer: true, min: 1, max: 200 }),
+    asking_price: number('asking_price', { min: 0 }),
+    price_per_sqft: number('price_per_sqft', { min: 0 }),
+    lease_type: text('lease_type', { max: 50 }),
+    cam_charges: number('cam_charges', { min: 0 }),
+    available_date: availableDate,
+    min_lease_term: text('min_lease_term', { max: 50 }),
+    max_lease_term: text('max_lease_term', { max: 50 }),
+    amenities: list('amenities'),
+    highlights: list('highlights'),
+    photos,
+    virtual_tour_url: url('virtual_tour_url'),
+    contact_name: text('contact_name', { max: 255 }),
+    contact_email: contactEmail,
+    contact_phone: text('contact_phone', { max: 50 }),
+  };
+
+  return { data: errors.length > 0 ? null : data, errors };
+}
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+const toDateString = (value: unknown): string | null => {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).slice(0, 10);
+};
+
+/**
+ * Photos given by URL. Uploaded photos are served by the app, not a feed URL,
+ * and an import keeps them
+ */
+const linkedPhotos = (listing: PropertyListing) => (listing.photos || []).filter((photo) => !photo.media_id);
+
+/**
+ * Write listings as CSV with a header row of LISTING_CSV_COLUMNS
+ */
+export function writeCsvFeed(listings: PropertyListing[]): string {
+  const rows = listings.map((listing) =>
+    LISTING_CSV_COLUMNS.map((column) => {
+      switch (column) {
+        case 'amenities':
+        case 'highlights':
+          return (listing[column] || []).join(LIST_SEPARATOR);
+        case 'photo_urls':
+          return linkedPhotos(listing).map((photo) => photo.url).join(LIST_SEPARATOR);
+        case 'available_date':
+          return toDateString(listing.available_date);
+        case 'latitude':
+        case 'longitude':
+        case 'sqft':
+        case 'lot_size':
+        case 'year_built':
+        case 'floors':
+        case 'asking_price':
+        case 'price_per_sqft':
+        case 'cam_charges':
+          return toNumber(listing[column]);
+        default:
+          return (listing[column] as string | null | undefined) ?? null;
+      }
+    })
+  );
+
+  return toCsv([[...LISTING_CSV_COLUMNS], ...rows]);
+}
+
+/**
+ * Write listings as a RESO Web API style Property response
+ */
+export function writeResoFeed(listings: PropertyListing[]): string {
+  const toTitle = (type: PropertyType) => type.charAt(0).toUpperCase() + type.slice(1);
+
+  const value = listings.map((listing) => ({
+    ListingKey: listing.id,
+    ListingId: listing.external_id || null,
+    TL_Title: listing.title,
+    PropertyType: listing.property_type === PropertyType.LAND ? 'Land' : 'Commercial Lease',
+    PropertySubType: toTitle(listing.property_type),
+    StandardStatus: STATUS_TO_RESO_STATUS[listing.status],
+    UnparsedAddress: listing.address,
+    City: listing.city,
+    StateOrProvince: listing.state,
+    PostalCode: listing.zip_code,
+    Country: 'US',
+    Latitude: toNumber(listing.latitude),
+    Longitude: toNumber(listing.longitude),
+    LeasableArea: toNumber(listing.sqft),
+    LeasableAreaUnits: 'Square Feet',
+    LotSizeSquareFeet: toNumber(listing.lot_size),
+    YearBuilt: toNumber(listing.year_built),
+    StoriesTotal: toNumber(listing.floors),
+    ListPrice: toNumber(listing.asking_price),
+    TL_PricePerSqft: toNumber(listing.price_per_sqft),
+    TL_LeaseType: listing.lease_type,
+    TL_CamCharges: toNumber(listing.cam_charges),
+    AvailabilityDate: toDateString(listing.available_date),
+    TL_MinLeaseTerm: listing.min_lease_term,
+    TL_MaxLeaseTerm: listing.max_lease_term,
+    PublicRemarks: listing.description,
+    BuildingFeatures: listing.amenities || [],
+    TL_Highlights: listing.highlights || [],
+    Media: linkedPhotos(listing).map((photo, index) => ({
+      MediaCategory: 'Photo',
+      MediaURL: photo.url,
+      ShortDescription: photo.caption || null,
+      Order: index,
+    })),
+    VirtualTourURLUnbranded: listing.virtual_tour_url,
+    ListAgentFullName: listing.contact_name,
+    ListAgentEmail: listing.contact_email,
+    ListAgentDirectPhone: listing.contact_phone,
+    OriginalEntryTimestamp: listing.created_at,
+    ModificationTimestamp: listing.updated_at,
+  }));
+
+  return JSON.stringify(
+    { '@odata.context': 'urn:reso:metadata:2.0:resource:property', '@odata.count': value.length, value },
+    null,
+    2
+  );
+}
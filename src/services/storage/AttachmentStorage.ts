@@ -0,0 +1,150 @@
+import { S3Client, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Storage backend for private files such as message attachments
+ * Objects are never public; downloads are streamed through the API
+ */
+export interface AttachmentStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Configuration for S3 attachment storage
+ */
+interface S3StorageConfig {
+  bucketName: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Attachment storage in a private S3 bucket
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+  private s3Client: S3Client;
+  private bucketName: string;
+
+  constructor(config?: S3StorageConfig) {
+    // Get configuration from environment or use provided config
+    const bucketName = config?.bucketName || process.env.ATTACHMENTS_S3_BUCKET;
+    const region = config?.region || process.env.AWS_REGION || 'us-east-1';
+    const accessKeyId = config?.accessKeyId || process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = config?.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY;
+
+    if (!bucketName) {
+      throw new Error('S3 bucket name is required');
+    }
+
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error('AWS credentials are required');
+    }
+
+    this.bucketName = bucketName;
+    this.s3Client = new S3Client({
+      region,
+      credentials: {
+        accessKeyId,
+        secretAccessKey,
+      },
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const upload = new Upload({
+      client: this.s3Client,
+      params: {
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      },
+    });
+
+    await upload.done();
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const result = await this.s3Client.send(
+      new GetObjectCommand({ Bucket: this.bucketName, Key: key })
+    );
+
+    if (!result.Body) {
+      throw new Error('Attachment file not found');
+    }
+
+    return Buffer.from(await result.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+  }
+}
+
+/**
+ * Attachment storage on local disk, for development
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private rootDir: string;
+
+  constructor(rootDir?: string) {
+    this.rootDir = path.resolve(rootDir || process.env.ATTACHMENTS_LOCAL_DIR || 'uploads');
+  }
+
+  /**
+   * Resolve a key inside the storage directory, refusing keys that escape it
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error('Attachment file not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Pick the storage backend from ATTACHMENT_STORAGE ('s3' or 'local').
+ * Defaults to S3 when an attachments bucket is configured, local disk otherwise.
+ * The profile photo bucket is public-read, so attachments never share it.
+ */
+export function createAttachmentStorage(): AttachmentStorage {
+  const backend =
+    process.env.ATTACHMENT_STORAGE ||
+    (process.env.ATTACHMENTS_S3_BUCKET ? 's3' : 'local');
+
+  if (backend === 's3') {
+    return new S3AttachmentStorage();
+  }
+  if (backend === 'local') {
+    return new LocalAttachmentStorage();
+  }
+
+  throw new Error(`Unknown attachment storage backend: ${backend}`);
+}
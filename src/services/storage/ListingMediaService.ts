@@ -0,0 +1,302 @@
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { AttachmentStorage, createAttachmentStorage } from './AttachmentStorage';
+import {
+  ListingDocument,
+  ListingMedia,
+  ListingPhotoVariant,
+  PropertyListingDocument,
+  PropertyListingPhoto,
+} from '../../types';
+
+/**
+ * Uploaded file as received from multer
+ */
+export interface ListingMediaFile {
+  buffer: Buffer;
+  mimeType: string;
+  size: number;
+  originalName: string;
+}
+
+/**
+ * Stored renditions of an uploaded photo
+ */
+export interface StoredListingPhoto {
+  storageKey: string;
+  cardKey: string;
+  thumbnailKey: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+/**
+ * Stored copy of an uploaded document
+ */
+export interface StoredListingDocument {
+  storageKey: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Allowed types with their extension and leading file signatures
+ */
+const PHOTO_TYPES: Record<string, { extension: string; signatures: number[][] }> = {
+  'image/jpeg': { extension: 'jpg', signatures: [[0xff, 0xd8, 0xff]] },
+  'image/png': { extension: 'png', signatures: [[0x89, 0x50, 0x4e, 0x47]] },
+  'image/webp': { extension: 'webp', signatures: [[0x52, 0x49, 0x46, 0x46]] },
+};
+
+const DOCUMENT_TYPES: Record<string, { extension: string; signatures: number[][] }> = {
+  'application/pdf': { extension: 'pdf', signatures: [[0x25, 0x50, 0x44, 0x46]] },
+  'image/jpeg': PHOTO_TYPES['image/jpeg'],
+  'image/png': PHOTO_TYPES['image/png'],
+};
+
+// Bounding boxes of each photo rendition. Thumbnails and cards are cropped to
+// fill them so grids line up; full photos keep their shape
+const RENDITIONS: Record<ListingPhotoVariant, { width: number; height: number; fit: 'cover' | 'inside' }> = {
+  thumbnail: { width: 240, height: 180, fit: 'cover' },
+  card: { width: 640, height: 480, fit: 'cover' },
+  full: { width: 2048, height: 2048, fit: 'inside' },
+};
+
+export const MAX_LISTING_PHOTO_SIZE = 20 * 1024 * 1024; // 20 MB
+export const MAX_LISTING_DOCUMENT_SIZE = 25 * 1024 * 1024; // 25 MB
+export const MAX_LISTING_PHOTOS = 50;
+export const MAX_LISTING_DOCUMENTS = 20;
+export const MAX_PHOTOS_PER_UPLOAD = 10;
+export const PHOTO_VARIANTS = Object.keys(RENDITIONS) as ListingPhotoVariant[];
+
+const startsWith = (buffer: Buffer, signature: number[]) =>
+  signature.every((byte, index) => buffer[index] === byte);
+
+/**
+ * Service for listing photo and document files
+ * Handles validation, content checks, photo renditions and storage.
+ *
+ * Every stored file is re-encoded by sharp, which drops EXIF and other
+ * metadata (camera GPS positions included) unless asked to keep it, so the
+ * uploaded photo itself is never stored. PDFs are stored as uploaded.
+ */
+export class ListingMediaService {
+  private storage: AttachmentStorage | null = null;
+  private providedStorage?: AttachmentStorage;
+
+  constructor(storage?: AttachmentStorage) {
+    this.providedStorage = storage;
+  }
+
+  /**
+   * Lazily create the storage backend so missing storage configuration only
+   * affects media requests
+   */
+  private getStorage(): AttachmentStorage {
+    if (!this.storage) {
+      this.storage = this.providedStorage || createAttachmentStorage();
+    }
+    return this.storage;
+  }
+
+  /**
+   * Check type, size and leading bytes against the allowed types
+   * @throws Error if the file is rejected
+   */
+  private check(
+    file: ListingMediaFile,
+    types: Record<string, { signatures: number[][] }>,
+    maxSize: number,
+    typeMessage: string
+  ): void {
+    const type = types[file.mimeType];
+    if (!type) {
+      throw new Error(`Invalid file type: ${typeMessage}`);
+    }
+    if (file.size <= 0) {
+      throw new Error('Invalid file: the file is empty');
+    }
+    if (file.size > maxSize) {
+      throw new Error(`Invalid file: size must not exceed ${maxSize / 1024 / 1024} MB`);
+    }
+    if (!type.signatures.some((signature) => startsWith(file.buffer, signature))) {
+      throw new Error('Invalid file: contents do not match the file type');
+    }
+  }
+
+  validatePhoto(file: ListingMediaFile): void {
+    this.check(file, PHOTO_TYPES, MAX_LISTING_PHOTO_SIZE, 'photos must be JPG, PNG or WebP images');
+  }
+
+  validateDocument(file: ListingMediaFile): void {
+    this.check(file, DOCUMENT_TYPES, MAX_LISTING_DOCUMENT_SIZE, 'documents must be PDFs or JPG or PNG images');
+  }
+
+  /**
+   * Render one rendition of a photo as JPEG, upright per its EXIF orientation
+   */
+  private async render(
+    buffer: Buffer,
+    variant: ListingPhotoVariant
+  ): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+    const { width, height, fit } = RENDITIONS[variant];
+
+    return await sharp(buffer)
+      .rotate()
+      .resize(width, height, { fit, position: 'attention', withoutEnlargement: fit === 'inside' })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: variant === 'thumbnail' ? 75 : 82, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+  }
+
+  /**
+   * Validate a photo and store its thumbnail, card and full renditions
+   */
+  async storePhoto(listingId: string, file: ListingMediaFile): Promise<StoredListingPhoto> {
+    this.validatePhoto(file);
+
+    let renditions: Record<ListingPhotoVariant, { data: Buffer; info: sharp.OutputInfo }>;
+    try {
+      const [thumbnail, card, full] = await Promise.all(PHOTO_VARIANTS.map((v) => this.render(file.buffer, v)));
+      renditions = { thumbnail, card, full };
+    } catch (error) {
+      // Images that cannot be decoded are not the images they claim to be
+      throw new Error('Invalid file: the image could not be read');
+    }
+
+    const baseKey = `listing-media/${listingId}/${uuidv4()}`;
+    const stored: StoredListingPhoto = {
+      storageKey: `${baseKey}.jpg`,
+      cardKey: `${baseKey}-card.jpg`,
+      thumbnailKey: `${baseKey}-thumbnail.jpg`,
+      width: renditions.full.info.width,
+      height: renditions.full.info.height,
+      size: renditions.full.data.length,
+    };
+
+    const storage = this.getStorage();
+    await storage.put(stored.storageKey, renditions.full.data, 'image/jpeg');
+    await storage.put(stored.cardKey, renditions.card.data, 'image/jpeg');
+    await storage.put(stored.thumbnailKey, renditions.thumbnail.data, 'image/jpeg');
+
+    return stored;
+  }
+
+  /**
+   * Validate and store a document. Images are re-encoded to drop their metadata
+   */
+  async storeDocument(listingId: string, file: ListingMediaFile): Promise<StoredListingDocument> {
+    this.validateDocument(file);
+
+    let body = file.buffer;
+    if (file.mimeType.startsWith('image/')) {
+      try {
+        const image = sharp(file.buffer).rotate();
+        body = await (file.mimeType === 'image/png' ? image.png() : image.jpeg({ quality: 90 })).toBuffer();
+      } catch (error) {
+        throw new Error('Invalid file: the image could not be read');
+      }
+    }
+
+    const storageKey = `listing-media/${listingId}/${uuidv4()}.${DOCUMENT_TYPES[file.mimeType].extension}`;
+    await this.getStorage().put(storageKey, body, file.mimeType);
+
+    return { storageKey, mimeType: file.mimeType, size: body.length };
+  }
+
+  /**
+   * Read a stored photo rendition or document
+   * @throws Error if the media has no such rendition
+   */
+  async read(
+    media: ListingMedia,
+    variant: ListingPhotoVariant = 'full'
+  ): Promise<{ buffer: Buffer; contentType: string }> {
+    const key = variant === 'thumbnail' ? media.thumbnail_key : variant === 'card' ? media.card_key : media.storage_key;
+
+    if (!key) {
+      throw new Error('Listing media not found');
+    }
+
+    return { buffer: await this.getStorage().get(key), contentType: media.mime_type };
+  }
+
+  /**
+   * Delete a media item's stored files. Best-effort: the row is already gone,
+   * and an orphaned file is better than a failed delete
+   */
+  async remove(media: ListingMedia): Promise<void> {
+    const keys = [media.storage_key, media.card_key, media.thumbnail_key].filter((key): key is string => !!key);
+
+    await Promise.all(
+      keys.map((key) =>
+        this.getStorage()
+          .delete(key)
+          .catch((err) => console.error(`Failed to delete listing media file ${key}:`, err))
+      )
+    );
+  }
+
+  /**
+   * URL of a photo rendition; photos are public
+   */
+  photoUrl(mediaId: string, variant: ListingPhotoVariant): string {
+    return `/api/property-listings/photos/${mediaId}?variant=${variant}`;
+  }
+
+  /**
+   * URL of a document; the endpoint checks the viewer may open it
+   */
+  documentUrl(media: Pick<ListingMedia, 'id' | 'property_listing_id'>): string {
+    return `/api/property-listings/${media.property_listing_id}/documents/${media.id}`;
+  }
+
+  /**
+   * Photo entry copied onto the listing
+   */
+  toListingPhoto(media: ListingMedia, order: number): PropertyListingPhoto {
+    return {
+      media_id: media.id,
+      url: this.photoUrl(media.id, 'full'),
+      card_url: this.photoUrl(media.id, 'card'),
+      thumbnail_url: this.photoUrl(media.id, 'thumbnail'),
+      ...(media.caption ? { caption: media.caption } : {}),
+      order,
+      is_cover: media.is_cover,
+      ...(media.width && media.height ? { width: media.width, height: media.height } : {}),
+    };
+  }
+
+  /**
+   * Document entry copied onto the listing (public documents only)
+   */
+  toListingDocument(media: ListingMedia): PropertyListingDocument {
+    return {
+      media_id: media.id,
+      name: media.file_name,
+      url: this.documentUrl(media),
+      type: media.mime_type,
+      size: media.size_bytes,
+    };
+  }
+
+  /**
+   * A document as a viewer sees it; locked documents don't reveal their URL
+   */
+  toDocument(media: ListingMedia, locked: boolean): ListingDocument {
+    return {
+      id: media.id,
+      name: media.file_name,
+      type: media.mime_type,
+      size: media.size_bytes,
+      visibility: media.visibility,
+      locked,
+      url: locked ? null : this.documentUrl(media),
+      created_at: media.created_at,
+    };
+  }
+}
+
+// Export singleton instance
+export const listingMediaService = new ListingMediaService();
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { AttachmentStorage, createAttachmentStorage } from './AttachmentStorage';
+import { MessageAttachment, MessageAttachmentUpload, MessageAttachmentVariant } from '../../types';
+
+/**
+ * Uploaded file as received from multer
+ */
+export interface AttachmentFile {
+  buffer: Buffer;
+  mimeType: string;
+  size: number;
+  originalName: string;
+}
+
+/**
+ * Stored file keys for an upload
+ */
+interface StoredAttachment {
+  storageKey: string;
+  thumbnailKey: string | null;
+  previewKey: string | null;
+}
+
+/**
+ * Allowed attachment types with their extension and leading file signatures.
+ * Types without signatures are plain text and are checked for binary content.
+ */
+const ALLOWED_TYPES: Record<string, { extension: string; signatures: number[][] }> = {
+  'image/jpeg': { extension: 'jpg', signatures: [[0xff, 0xd8, 0xff]] },
+  'image/png': { extension: 'png', signatures: [[0x89, 0x50, 0x4e, 0x47]] },
+  'image/gif': { extension: 'gif', signatures: [[0x47, 0x49, 0x46, 0x38]] },
+  'image/webp': { extension: 'webp', signatures: [[0x52, 0x49, 0x46, 0x46]] },
+  'application/pdf': { extension: 'pdf', signatures: [[0x25, 0x50, 0x44, 0x46]] },
+  'application/msword': { extension: 'doc', signatures: [[0xd0, 0xcf, 0x11, 0xe0]] },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    extension: 'docx',
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+  'application/vnd.ms-excel': { extension: 'xls', signatures: [[0xd0, 0xcf, 0x11, 0xe0]] },
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': {
+    extension: 'xlsx',
+    signatures: [[0x50, 0x4b, 0x03, 0x04]],
+  },
+  'text/plain': { extension: 'txt', signatures: [] },
+  'text/csv': { extension: 'csv', signatures: [] },
+};
+
+// Signatures of executables and scripts rejected whatever type they claim
+const BLOCKED_SIGNATURES: number[][] = [
+  [0x4d, 0x5a], // Windows PE
+  [0x7f, 0x45, 0x4c, 0x46], // ELF
+  [0xcf, 0xfa, 0xed, 0xfe], // Mach-O
+  [0x23, 0x21], // Shebang script
+];
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // 25 MB
+export const ALLOWED_ATTACHMENT_MIME_TYPES = Object.keys(ALLOWED_TYPES);
+
+const startsWith = (buffer: Buffer, signature: number[]) =>
+  signature.every((byte, index) => buffer[index] === byte);
+
+/**
+ * Service for message attachment files
+ * Handles validation, content scanning, thumbnail and preview generation,
+ * storage, and signing short-lived download URLs
+ */
+export class MessageAttachmentService {
+  private storage: AttachmentStorage | null = null;
+  private providedStorage?: AttachmentStorage;
+  private readonly THUMBNAIL_SIZE = 320; // fits within 320x320px
+  private readonly PREVIEW_WIDTH = 800;
+  private readonly URL_TTL_SECONDS = 300; // 5 minutes
+  private readonly signingSecret: string;
+
+  constructor(storage?: AttachmentStorage, signingSecret?: string) {
+    this.providedStorage = storage;
+    this.signingSecret =
+      signingSecret ||
+      process.env.ATTACHMENT_URL_SECRET ||
+      process.env.JWT_SECRET ||
+      'dev-attachment-url-secret';
+
+    // The fallback is public, so URLs signed with it could be forged
+    if (this.signingSecret === 'dev-attachment-url-secret' && process.env.NODE_ENV === 'production') {
+      throw new Error('ATTACHMENT_URL_SECRET or JWT_SECRET must be set in production environment');
+    }
+  }
+
+  /**
+   * Lazily create the storage backend so missing storage configuration only
+   * affects attachment requests
+   */
+  private getStorage(): AttachmentStorage {
+    if (!this.storage) {
+      this.storage = this.providedStorage || createAttachmentStorage();
+    }
+    return this.storage;
+  }
+
+  /**
+   * Validate file type and size
+   * @throws Error if the type is not allowed or the file is empty or too large
+   */
+  validate(mimeType: string, size: number): void {
+    if (!ALLOWED_TYPES[mimeType]) {
+      throw new Error('Invalid file type: attach images, PDFs, Word or Excel documents, or text files');
+    }
+
+    if (size <= 0) {
+      throw new Error('Invalid file: the file is empty');
+    }
+
+    if (size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`Invalid file: size must not exceed ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`);
+    }
+  }
+
+  /**
+   * Scan file contents: the leading bytes must match the declared type and
+   * must not be an executable or script
+   * @throws Error if the contents are rejected
+   */
+  scan(buffer: Buffer, mimeType: string): void {
+    if (BLOCKED_SIGNATURES.some((signature) => startsWith(buffer, signature))) {
+      throw new Error('Invalid file: executable files are not allowed');
+    }
+
+    const { signatures } = ALLOWED_TYPES[mimeType];
+
+    if (signatures.length === 0) {
+      if (buffer.subarray(0, 8000).includes(0)) {
+        throw new Error('Invalid file: contents do not match the file type');
+      }
+      return;
+    }
+
+    if (!signatures.some((signature) => startsWith(buffer, signature))) {
+      throw new Error('Invalid file: contents do not match the file type');
+    }
+  }
+
+  /**
+   * Generate a JPEG thumbnail for an image
+   */
+  private async generateThumbnail(buffer: Buffer): Promise<Buffer> {
+    return await sharp(buffer)
+      .rotate() // Respect EXIF orientation
+      .resize(this.THUMBNAIL_SIZE, this.THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  }
+
+  /**
+   * Render the first page of a PDF as a JPEG
+   * Returns null when the image library was built without PDF support
+   */
+  private async generatePdfPreview(buffer: Buffer): Promise<Buffer | null> {
+    if (!sharp.format.pdf?.input?.buffer) {
+      return null;
+    }
+
+    return await sharp(buffer, { page: 0, density: 96 })
+      .resize({ width: this.PREVIEW_WIDTH, withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  }
+
+  /**
+   * Validate, scan and store a file with its thumbnail or preview
+   * PDF previews are best-effort; images that cannot be decoded are rejected
+   */
+  async store(conversationId: string, file: AttachmentFile): Promise<StoredAttachment> {
+    this.validate(file.mimeType, file.size);
+    this.scan(file.buffer, file.mimeType);
+
+    const baseKey = `message-attachments/${conversationId}/${uuidv4()}`;
+    const storageKey = `${baseKey}.${ALLOWED_TYPES[file.mimeType].extension}`;
+    const storage = this.getStorage();
+
+    let thumbnail: Buffer | null = null;
+    let preview: Buffer | null = null;
+
+    if (file.mimeType.startsWith('image/')) {
+      try {
+        thumbnail = await this.generateThumbnail(file.buffer);
+      } catch (error) {
+        // Images that cannot be decoded are not the images they claim to be
+        throw new Error('Invalid file: the image could not be read');
+      }
+    } else if (file.mimeType === 'application/pdf') {
+      try {
+        preview = await this.generatePdfPreview(file.buffer);
+      } catch (error) {
+        console.error('Failed to generate PDF preview:', error);
+      }
+    }
+
+    await storage.put(storageKey, file.buffer, file.mimeType);
+
+    const stored: StoredAttachment = { storageKey, thumbnailKey: null, previewKey: null };
+    if (thumbnail) {
+      stored.thumbnailKey = `${baseKey}-thumbnail.jpg`;
+      await storage.put(stored.thumbnailKey, thumbnail, 'image/jpeg');
+    }
+    if (preview) {
+      stored.previewKey = `${baseKey}-preview.jpg`;
+      await storage.put(stored.previewKey, preview, 'image/jpeg');
+    }
+
+    return stored;
+  }
+
+  /**
+   * Read a stored file variant
+   * @throws Error if the upload has no such variant
+   */
+  async read(
+    attachment: MessageAttachmentUpload,
+    variant: MessageAttachmentVariant
+  ): Promise<{ buffer: Buffer; contentType: string }> {
+    const key =
+      variant === 'thumbnail'
+        ? attachment.thumbnail_key
+        : variant === 'preview'
+          ? attachment.preview_key
+          : attachment.storage_key;
+
+    if (!key) {
+      throw new Error('Attachment preview not found');
+    }
+
+    return {
+      buffer: await this.getStorage().get(key),
+      contentType: variant === 'original' ? attachment.mime_type : 'image/jpeg',
+    };
+  }
+
+  /**
+   * Display fields copied onto the message
+   * URLs point at the authenticated endpoint, which hands out signed URLs
+   */
+  toMessageAttachment(attachment: MessageAttachmentUpload): MessageAttachment {
+    const url = `/api/messages/attachments/${attachment.id}`;
+
+    return {
+      id: attachment.id,
+      name: attachment.file_name,
+      url,
+      type: attachment.mime_type,
+      size: attachment.size_bytes,
+      thumbnail_url: attachment.thumbnail_key ? `${url}?variant=thumbnail` : null,
+      preview_url: attachment.preview_key ? `${url}?variant=preview` : null,
+    };
+  }
+
+  private sign(attachmentId: string, userId: string, variant: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${attachmentId}:${userId}:${variant}:${expires}`)
+      .digest('hex');
+  }
+
+  /**
+   * Short-lived download URL bound to the user it was issued to
+   */
+  createSignedUrl(attachmentId: string, userId: string, variant: MessageAttachmentVariant): string {
+    const expires = Math.floor(Date.now() / 1000) + this.URL_TTL_SECONDS;
+    const signature = this.sign(attachmentId, userId, variant, expires);
+    const params = new URLSearchParams({
+      variant,
+      user: userId,
+      expires: String(expires),
+      signature,
+    });
+
+    return `/api/messages/attachments/${attachmentId}/download?${params.toString()}`;
+  }
+
+  /**
+   * Verify a signed download URL and return the user it was issued to
+   * @throws Error if the signature is invalid or expired
+   */
+  verifySignedUrl(
+    attachmentId: string,
+    params: { variant?: string; user?: string; expires?: string; signature?: string }
+  ): string {
+    const { variant, user, expires, signature } = params;
+    if (!variant || !user || !expires || !signature) {
+      throw new Error('Invalid download link');
+    }
+
+    const expected = this.sign(attachmentId, user, variant, Number(expires));
+    const valid =
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+    if (!valid) {
+      throw new Error('Invalid download link');
+    }
+
+    if (Number(expires) < Math.floor(Date.now() / 1000)) {
+      throw new Error('Invalid download link: the link has expired');
+    }
+
+    return user;
+  }
+}
+
+// Export singleton instance
+export const messageAttachmentService = new MessageAttachmentService();
@@ -29,6 +29,12 @@ export enum BusinessInviteStatus {
   DECLINED = 'declined',
 }
 
+export enum BusinessMemberRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  VIEWER = 'viewer',
+}
+
 export enum PropertyListingStatus {
   ACTIVE = 'active',
   PENDING = 'pending',
@@ -78,6 +84,8 @@ export interface User {
   created_at: Date;
   updated_at: Date;
   last_login_at: Date | null;
+  last_seen_at: Date | null;
+  is_admin: boolean;
 }
 
 export interface UserProfile {
@@ -198,6 +206,10 @@ export interface DemandListing {
   is_corporate_location: boolean;
   additional_features: string[];
   stealth_mode: boolean;
+  // Search centroid (geocoded from city/state when not supplied) and radius
+  latitude: number | null;
+  longitude: number | null;
+  search_radius_miles: number | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -220,6 +232,8 @@ export interface BusinessMetrics {
 export interface PropertyListing {
   id: string;
   user_id: string;
+  // The landlord's own ID for the listing, used to match bulk imports
+  external_id?: string | null;
   title: string;
   description: string | null;
   property_type: PropertyType;
@@ -248,11 +262,11 @@ export interface PropertyListing {
   // Features & amenities (JSONB arrays)
   amenities: string[];
   highlights: string[];
-  // Media (JSONB)
-  photos: Array<{ url: string; caption?: string; order?: number }>;
+  // Media (JSONB). Uploaded photos and public documents are copied here from listing_media
+  photos: PropertyListingPhoto[];
   virtual_tour_url: string | null;
   // Documents (JSONB)
-  documents: Array<{ name: string; url: string; type?: string; size?: number }>;
+  documents: PropertyListingDocument[];
   // Contact
   contact_name: string | null;
   contact_email: string | null;
@@ -267,6 +281,8 @@ export interface PropertyListing {
   viewsCount?: number;
   inquiriesCount?: number;
   matchesCount?: number;
+  // Miles from the search center, on searches given a point
+  distance_miles?: number | null;
 }
 
 export interface PropertyListingMetrics {
@@ -282,16 +298,229 @@ export interface PropertyListingMetrics {
   updated_at: Date;
 }
 
+// A listing a user has saved, with when they saved it
+export interface FavoritePropertyListing extends PropertyListing {
+  favorited_at: Date;
+}
+
+export enum ListingShareChannel {
+  LINK = 'link',
+  EMAIL = 'email',
+  SMS = 'sms',
+  SOCIAL = 'social',
+}
+
+// A tracked share link for a listing, attributed to the user who created it
+export interface ListingShare {
+  id: string;
+  property_listing_id: string;
+  user_id: string;
+  token: string;
+  channel: ListingShareChannel;
+  open_count: number;
+  last_opened_at: Date | null;
+  created_at: Date;
+  // Populated fields
+  sharer_email?: string;
+  sharer_first_name?: string | null;
+  sharer_last_name?: string | null;
+}
+
+// A photo on a listing. Uploaded photos have a media_id and smaller renditions;
+// photos given as URLs (older listings, imports) have only a url
+export interface PropertyListingPhoto {
+  url: string;
+  caption?: string;
+  order?: number;
+  media_id?: string;
+  thumbnail_url?: string;
+  card_url?: string;
+  is_cover?: boolean;
+  width?: number;
+  height?: number;
+}
+
+export interface PropertyListingDocument {
+  name: string;
+  url: string;
+  type?: string;
+  size?: number;
+  media_id?: string;
+}
+
+export enum ListingMediaKind {
+  PHOTO = 'photo',
+  DOCUMENT = 'document',
+}
+
+// Who can open a listing document
+export enum ListingDocumentVisibility {
+  PUBLIC = 'public',
+  INQUIRED = 'inquired', // The owner and tenants who have inquired about the listing
+}
+
+export type ListingPhotoVariant = 'thumbnail' | 'card' | 'full';
+
+// A photo or document uploaded for a listing
+export interface ListingMedia {
+  id: string;
+  property_listing_id: string;
+  uploaded_by: string | null;
+  kind: ListingMediaKind;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_key: string;
+  thumbnail_key: string | null;
+  card_key: string | null;
+  width: number | null;
+  height: number | null;
+  caption: string | null;
+  sort_order: number;
+  is_cover: boolean;
+  visibility: ListingDocumentVisibility;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A listing document as a viewer sees it. Locked documents have no url
+export interface ListingDocument {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  visibility: ListingDocumentVisibility;
+  locked: boolean;
+  url: string | null;
+  created_at: Date;
+}
+
+// File formats for bulk listing import and export
+export enum ListingFeedFormat {
+  CSV = 'csv',
+  RESO = 'reso',
+}
+
+export enum ListingImportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+// A problem with one row (CSV) or record (RESO) of an import file
+export interface ListingImportRowError {
+  row: number;
+  external_id: string | null;
+  field: string | null;
+  message: string;
+}
+
+// A bulk listing import. For dry runs the counts are what would happen
+export interface ListingImportJob {
+  id: string;
+  user_id: string;
+  format: ListingFeedFormat;
+  file_name: string | null;
+  dry_run: boolean;
+  status: ListingImportStatus;
+  total_rows: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  errors: ListingImportRowError[];
+  error_message: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+export enum ListingEventType {
+  VIEW = 'view',
+  CLICK = 'click',
+}
+
+// Where a listing visit came from
+export enum ListingTrafficSource {
+  DIRECT = 'direct',
+  INTERNAL = 'internal',
+  SHARE_LINK = 'share_link',
+  SEARCH_ENGINE = 'search_engine',
+  SOCIAL = 'social',
+  EMAIL = 'email',
+  REFERRAL = 'referral',
+}
+
+// A deduplicated view of, or click on, a property listing
+export interface ListingEvent {
+  id: string;
+  property_listing_id: string;
+  event_type: ListingEventType;
+  target: string | null;
+  session_id: string;
+  viewer_user_id: string | null;
+  viewer_role: UserRole | null;
+  viewer_business_id: string | null;
+  referrer: string | null;
+  source: ListingTrafficSource;
+  created_at: Date;
+  rolled_up_at: Date | null;
+}
+
+// Traffic to a landlord's listings over a period
+export interface ListingTrafficAnalytics {
+  days: number;
+  totals: {
+    views: number;
+    clicks: number;
+    unique_viewers: number;
+    repeat_viewers: number;
+  };
+  sources: { source: ListingTrafficSource; views: number }[];
+  viewer_roles: { role: UserRole | 'anonymous'; viewers: number }[];
+  businesses: { business_id: string; name: string; views: number }[];
+  daily: { date: string; views: number; unique_viewers: number; clicks: number }[];
+  listings: {
+    property_listing_id: string;
+    title: string;
+    views: number;
+    unique_viewers: number;
+    repeat_viewers: number;
+    clicks: number;
+  }[];
+}
+
 export interface BusinessInvite {
   id: string;
   business_id: string;
   invited_by_user_id: string;
   invited_user_email: string;
   status: BusinessInviteStatus;
+  token: string | null;
+  role: BusinessMemberRole;
+  expires_at: Date | null;
+  responded_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface BusinessMember {
+  id: string;
+  business_id: string;
+  user_id: string;
+  role: BusinessMemberRole;
+  invited_by_user_id: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface BusinessTeamMember extends BusinessMember {
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  photo_url: string | null;
+}
+
 // Messaging types
 export enum MessageStatus {
   SENT = 'sent',
@@ -299,6 +528,24 @@ export enum MessageStatus {
   READ = 'read',
 }
 
+export enum MessageType {
+  TEXT = 'text',
+  INQUIRY = 'inquiry',
+  SYSTEM = 'system',
+}
+
+export enum ConversationParticipantRole {
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
+
+export enum ConversationEventType {
+  PARTICIPANTS_ADDED = 'participants_added',
+  PARTICIPANT_REMOVED = 'participant_removed',
+  PARTICIPANT_LEFT = 'participant_left',
+  SUBJECT_CHANGED = 'subject_changed',
+}
+
 export interface Conversation {
   id: string;
   property_listing_id: string | null;
@@ -318,6 +565,7 @@ export interface ConversationParticipant {
   id: string;
   conversation_id: string;
   user_id: string;
+  role: ConversationParticipantRole;
   last_read_at: Date | null;
   unread_count: number;
   is_muted: boolean;
@@ -328,6 +576,8 @@ export interface ConversationParticipant {
     id: string;
     email: string;
     role: UserRole;
+    // When the user was last connected to messaging; live status comes from presence:update events
+    last_seen_at: Date | null;
     profile?: {
       first_name: string;
       last_name: string;
@@ -336,17 +586,57 @@ export interface ConversationParticipant {
   };
 }
 
+// Attachment as stored on a message. Uploaded files carry their upload ID;
+// urls point at the authenticated attachment endpoint, which redirects to a
+// short-lived signed download URL
+export interface MessageAttachment {
+  id?: string;
+  name: string;
+  url: string;
+  type?: string;
+  size?: number;
+  thumbnail_url?: string | null;
+  preview_url?: string | null;
+}
+
+export type MessageAttachmentVariant = 'original' | 'thumbnail' | 'preview';
+
+// File uploaded to a conversation, claimed by the message it is sent with
+export interface MessageAttachmentUpload {
+  id: string;
+  conversation_id: string;
+  uploader_id: string;
+  message_id: string | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_key: string;
+  thumbnail_key: string | null;
+  preview_key: string | null;
+  created_at: Date;
+}
+
 export interface Message {
   id: string;
   conversation_id: string;
   sender_id: string;
   content: string;
-  attachments: Array<{ name: string; url: string; type?: string; size?: number }>;
+  attachments: MessageAttachment[];
   status: MessageStatus;
+  message_type: MessageType;
+  // Structured payload for non-text messages: the card of an inquiry message,
+  // or the membership/subject change a system message records
+  metadata: ListingInquiryCard | ConversationEvent | null;
+  reply_to_message_id: string | null;
+  edited_at: Date | null;
   is_deleted: boolean;
   deleted_at: Date | null;
   created_at: Date;
   updated_at: Date;
+  // Populated quoted message for replies
+  reply_to?: MessageReplyPreview | null;
+  // Populated reactions, grouped by emoji
+  reactions?: MessageReactionSummary[];
   // Populated sender info
   sender?: {
     id: string;
@@ -367,12 +657,270 @@ export interface MessageReadReceipt {
   read_at: Date;
 }
 
+// Membership or subject change recorded by a system message
+export interface ConversationEvent {
+  event: ConversationEventType;
+  actor_id: string;
+  user_ids?: string[];
+  subject?: string | null;
+}
+
+// Snapshot of a tenant's inquiry about a property listing, rendered as a card
+export interface ListingInquiryCard {
+  property_listing_id: string;
+  property_title: string;
+  demand_listing_id: string | null;
+  business_name: string | null;
+  sqft_min: number | null;
+  sqft_max: number | null;
+  budget_min: number | null;
+  budget_max: number | null;
+  move_in_date: string | null;
+}
+
+// The message a reply quotes
+export interface MessageReplyPreview {
+  id: string;
+  sender_id: string;
+  sender_name: string;
+  content: string;
+  is_deleted: boolean;
+}
+
+// Reactions with one emoji on a message
+export interface MessageReactionSummary {
+  emoji: string;
+  count: number;
+  user_ids: string[];
+}
+
+// Previous content of an edited message
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_by: string;
+  edited_at: Date;
+}
+
+// Message search filters (all optional, combined with AND)
+export interface MessageSearchFilters {
+  conversation_id?: string;
+  sender_id?: string;
+  from?: Date;
+  to?: Date;
+  has_attachment?: boolean;
+}
+
+// Message search hit, ranked by relevance
+export interface MessageSearchResult extends Message {
+  rank: number;
+  // Content excerpt with matched terms wrapped in <mark></mark>; the rest is
+  // the raw message text, so render it as text rather than HTML
+  highlight: string;
+}
+
 // Conversation with full details for inbox/chat view
 export interface ConversationWithDetails extends Conversation {
   participants: ConversationParticipant[];
   lastMessage: Message | null;
   unreadCount: number;
   otherParticipant?: ConversationParticipant; // For 1-on-1 chats
+  // Listings the conversation is about, shown as a pinned summary card
+  propertyListing?: ConversationPropertyListingSummary | null;
+  demandListing?: ConversationDemandListingSummary | null;
+  // The current user's follow-up nudge, if they turned one on
+  nudge?: ConversationNudge | null;
+}
+
+export interface ConversationPropertyListingSummary {
+  id: string;
+  user_id: string;
+  title: string;
+  property_type: PropertyType;
+  status: PropertyListingStatus;
+  address: string;
+  city: string;
+  state: string;
+  sqft: number;
+  asking_price: number | null;
+  price_per_sqft: number | null;
+  lease_type: string | null;
+  photo_url: string | null;
+}
+
+export interface ConversationDemandListingSummary {
+  id: string;
+  business_id: string;
+  business_name: string;
+  title: string | null;
+  location_name: string;
+  city: string;
+  state: string;
+  sqft_min: number | null;
+  sqft_max: number | null;
+  budget_min: number | null;
+  budget_max: number | null;
+  start_date: string | null;
+  status: DemandListingStatus;
+}
+
+// Canned response; business templates are shared with the business team.
+// {{variable}} placeholders are filled from the conversation's property listing
+export interface MessageTemplate {
+  id: string;
+  user_id: string;
+  business_id: string | null;
+  business_name?: string | null;
+  name: string;
+  content: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Template content with its variables filled in; variables the listing has no
+// value for are left as {{placeholders}} for the sender to complete
+export interface RenderedMessageTemplate {
+  content: string;
+  missing_variables: string[];
+}
+
+export enum ScheduledMessageStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  CANCELLED = 'cancelled',
+  FAILED = 'failed',
+}
+
+// A message queued by its sender for delivery at send_at. Attachments are
+// uploads held until delivery; message_id is set once the message is sent
+export interface ScheduledMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  attachment_ids: string[];
+  reply_to_message_id: string | null;
+  send_at: Date;
+  status: ScheduledMessageStatus;
+  message_id: string | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A participant's "remind me if no reply in N days" setting for a conversation
+export interface ConversationNudge {
+  after_days: number;
+  in_app: boolean;
+  email: boolean;
+}
+
+export type ConversationExportFormat = 'pdf' | 'json' | 'txt';
+
+// A conversation's full record for filing: every participant past and present,
+// and every message with its read receipts. Deleted messages keep their place
+// with their content removed
+export interface ConversationExport {
+  exported_at: Date;
+  exported_by: string;
+  conversation: {
+    id: string;
+    subject: string | null;
+    created_by: string;
+    created_at: Date;
+    property_listing_id: string | null;
+    demand_listing_id: string | null;
+  };
+  participants: Array<{
+    user_id: string;
+    name: string;
+    email: string;
+    role: ConversationParticipantRole;
+    joined_at: Date;
+    left_at: Date | null;
+  }>;
+  messages: ConversationExportMessage[];
+}
+
+export interface ConversationExportMessage {
+  id: string;
+  sender_id: string;
+  sender_name: string;
+  message_type: MessageType;
+  sent_at: Date;
+  edited_at: Date | null;
+  is_deleted: boolean;
+  deleted_at: Date | null;
+  // null for deleted messages
+  content: string | null;
+  reply_to_message_id: string | null;
+  attachments: Array<{ id: string | null; name: string; type: string | null; size: number | null }>;
+  read_by: Array<{ user_id: string; name: string; read_at: Date }>;
+}
+
+export enum UserReportReason {
+  SPAM = 'spam',
+  HARASSMENT = 'harassment',
+  INAPPROPRIATE = 'inappropriate',
+  SCAM = 'scam',
+  OTHER = 'other',
+}
+
+export enum UserReportStatus {
+  OPEN = 'open',
+  ACTIONED = 'actioned',
+  DISMISSED = 'dismissed',
+}
+
+// A user someone has blocked, as listed in their block settings
+export interface BlockedUser {
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  photo_url: string | null;
+  blocked_at: Date;
+}
+
+// A message as it read when a report was filed
+export interface UserReportContextMessage {
+  id: string;
+  sender_id: string;
+  sender_name: string;
+  content: string;
+  attachments: string[];
+  sent_at: Date;
+}
+
+// What moderators review: the reported message and those just before it
+export interface UserReportContext {
+  conversation_subject?: string | null;
+  reported_message_id?: string;
+  messages?: UserReportContextMessage[];
+}
+
+export interface UserReport {
+  id: string;
+  reporter_id: string;
+  reported_user_id: string;
+  conversation_id: string | null;
+  message_id: string | null;
+  reason: UserReportReason;
+  details: string | null;
+  context: UserReportContext;
+  status: UserReportStatus;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  resolution_note: string | null;
+  created_at: Date;
+  updated_at: Date;
+  // Joined for the moderation queue
+  reporter_email?: string;
+  reported_user_email?: string;
+  reported_user_is_active?: boolean;
+  // Open reports against the same user, this one included
+  reported_user_open_reports?: number;
 }
 
 // Dashboard types
@@ -492,6 +1040,270 @@ export interface PropertyMatchWithProperty extends PropertyMatch {
   property: PropertyListing;
 }
 
+// Geo types
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  // exact = listing coordinates, city/zip = bundled centroid table
+  source: 'exact' | 'city' | 'zip';
+}
+
+// A latitude/longitude rectangle, such as a map viewport
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// featured = featured listings first, then newest; distance = nearest first
+export type PropertySearchSort = 'featured' | 'distance';
+
+// Tour types
+export enum TourStatus {
+  REQUESTED = 'requested',
+  PROPOSED = 'proposed',
+  CONFIRMED = 'confirmed',
+  CANCELLED = 'cancelled',
+  COMPLETED = 'completed',
+}
+
+export interface TourTimeSlot {
+  start_time: string;
+  proposed_by_user_id: string;
+}
+
+export interface Tour {
+  id: string;
+  property_listing_id: string;
+  tenant_user_id: string;
+  landlord_user_id: string;
+  conversation_id: string | null;
+  status: TourStatus;
+  proposed_slots: TourTimeSlot[];
+  scheduled_at: Date | null;
+  duration_minutes: number;
+  notes: string | null;
+  cancelled_by_user_id: string | null;
+  cancellation_reason: string | null;
+  reminder_sent_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Tour with property and participant details for display
+export interface TourWithDetails extends Tour {
+  property_title: string;
+  property_address: string;
+  property_city: string;
+  property_state: string;
+  tenant_email: string;
+  tenant_name: string | null;
+  landlord_email: string;
+  landlord_name: string | null;
+}
+
+// Deal pipeline types
+export enum DealStage {
+  PROSPECT = 'prospect',
+  TOURING = 'touring',
+  LOI = 'loi',
+  LEASE_NEGOTIATION = 'lease_negotiation',
+  SIGNED = 'signed',
+  LOST = 'lost',
+}
+
+export interface Deal {
+  id: string;
+  user_id: string;
+  demand_listing_id: string;
+  property_listing_id: string;
+  property_match_id: string | null;
+  stage: DealStage;
+  position: number;
+  notes: string | null;
+  expected_close_date: string | null;
+  stage_changed_at: Date;
+  closed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DealStageChange {
+  id: string;
+  deal_id: string;
+  from_stage: DealStage | null;
+  to_stage: DealStage;
+  changed_by_user_id: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+// Deal with listing details for board cards
+export interface DealWithDetails extends Deal {
+  property_title: string;
+  property_city: string;
+  property_state: string;
+  property_status: PropertyListingStatus;
+  demand_listing_title: string | null;
+  demand_listing_location: string;
+  demand_listing_status: DemandListingStatus;
+  business_name: string;
+  match_score: number | null;
+  stage_history?: DealStageChange[];
+}
+
+// Broker client representation types
+export enum BrokerClientType {
+  TENANT = 'tenant',
+  LANDLORD = 'landlord',
+}
+
+export enum BrokerClientStatus {
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  DECLINED = 'declined',
+  REVOKED = 'revoked',
+}
+
+// Tenant clients are businesses; landlord clients are users and their property listings
+export interface BrokerClient {
+  id: string;
+  broker_user_id: string;
+  client_type: BrokerClientType;
+  business_id: string | null;
+  client_user_id: string | null;
+  status: BrokerClientStatus;
+  message: string | null;
+  responded_at: Date | null;
+  revoked_at: Date | null;
+  revoked_by_user_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Broker client with display names for rosters and consent screens
+export interface BrokerClientWithDetails extends BrokerClient {
+  client_name: string;
+  client_email: string | null;
+  broker_name: string | null;
+  broker_email: string;
+}
+
+export interface BrokerClientAuditEntry {
+  id: string;
+  broker_client_id: string;
+  actor_user_id: string | null;
+  actor_name: string | null;
+  action: string;
+  resource_type: string | null;
+  resource_id: string | null;
+  details: Record<string, unknown>;
+  created_at: Date;
+}
+
+export interface BrokerClientMatch {
+  id: string;
+  broker_client_id: string;
+  client_name: string;
+  match_score: number;
+  demand_listing_id: string;
+  demand_listing_title: string | null;
+  property_listing_id: string;
+  property_title: string;
+  property_city: string;
+  property_state: string;
+  created_at: Date;
+}
+
+export interface BrokerClientConversation {
+  id: string;
+  broker_client_id: string;
+  client_name: string;
+  subject: string | null;
+  property_title: string | null;
+  demand_listing_title: string | null;
+  last_message_preview: string | null;
+  last_message_at: Date;
+}
+
+export interface BrokerClientDeal {
+  id: string;
+  broker_client_id: string;
+  client_name: string;
+  stage: DealStage;
+  property_title: string;
+  demand_listing_title: string | null;
+  business_name: string;
+  expected_close_date: string | null;
+  updated_at: Date;
+}
+
+export interface BrokerDashboardData {
+  kpis: {
+    activeClients: number;
+    pendingRequests: number;
+    activeMatches: number;
+    activeConversations: number;
+    openDeals: number;
+  };
+  clients: BrokerClientWithDetails[];
+  matches: BrokerClientMatch[];
+  conversations: BrokerClientConversation[];
+  deals: BrokerClientDeal[];
+}
+
+// Saved search types
+// Mirrors the GET /api/property-listings/search query parameters
+export interface SavedSearchFilters {
+  city?: string;
+  state?: string;
+  property_type?: PropertyType;
+  min_sqft?: number;
+  max_sqft?: number;
+  min_price?: number;
+  max_price?: number;
+  amenities?: string[];
+  search?: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alert_in_app: boolean;
+  alert_email: boolean;
+  last_alerted_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// In-app notification types
+export enum NotificationType {
+  NEW_MATCH = 'new_match',
+  NEW_MESSAGE = 'new_message',
+  BUSINESS_INVITE = 'business_invite',
+  TOUR_REMINDER = 'tour_reminder',
+  ACCOUNT_UPDATE = 'account_update',
+  SAVED_SEARCH_ALERT = 'saved_search_alert',
+  BROKER_REQUEST = 'broker_request',
+  MESSAGE_NUDGE = 'message_nudge',
+}
+
+export interface InAppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  data: Record<string, unknown>;
+  read_at: Date | null;
+  archived_at: Date | null;
+  created_at: Date;
+}
+
 // WebSocket event types
 export interface WebSocketKPIUpdate {
   kpis: DashboardKPIs;
@@ -541,6 +1353,10 @@ export interface MarketOverviewKPIs {
   totalDemandListingsChange: number;
   averageMatchRate: number;
   averageMatchRateChange: number;
+  averageAskingRentPsf: number | null;
+  averageAskingRentPsfChange: number;
+  // Change in leased sqft over the period
+  netAbsorptionSqft: number;
 }
 
 export interface DemandByIndustry {
@@ -562,8 +1378,50 @@ export interface MarketInsightsData {
   demandByIndustry: DemandByIndustry[];
   demandByState: DemandByState[];
   lastUpdated: string;
+  // Most recent market snapshot the figures are based on (YYYY-MM-DD)
+  snapshotDate: string | null;
+}
+
+// Optional filters accepted by the market insights endpoints
+export interface MarketInsightsFilters {
+  state?: string;
+  city?: string;
+  propertyType?: PropertyType;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
 }
 
+// Daily market snapshot row for one state / city / property type
+export interface MarketSnapshot {
+  id: string;
+  snapshot_date: string;
+  state: string;
+  city: string;
+  property_type: string;
+  active_listings: number;
+  leased_listings: number;
+  total_listings: number;
+  sqft_available: number;
+  sqft_leased: number;
+  priced_listings: number;
+  avg_asking_rent_psf: number | null;
+  demand_listings: number;
+  created_at: Date;
+}
+
+// Snapshot figures summed across the rows matching a filter
+export type MarketSnapshotTotals = Pick<
+  MarketSnapshot,
+  | 'active_listings'
+  | 'leased_listings'
+  | 'total_listings'
+  | 'sqft_available'
+  | 'sqft_leased'
+  | 'priced_listings'
+  | 'avg_asking_rent_psf'
+  | 'demand_listings'
+>;
+
 // Subscription types
 export interface SubscriptionPlan {
   id: string;
@@ -589,6 +1447,19 @@ export interface SubscriptionLimits {
   team_members: number;
 }
 
+export type SubscriptionLimitType = keyof SubscriptionLimits;
+
+export interface UsageMeter {
+  used: number;
+  limit: number; // -1 = unlimited
+  remaining: number | null; // null when unlimited
+}
+
+export interface SubscriptionUsage {
+  tier: SubscriptionTier;
+  usage: Record<SubscriptionLimitType, UsageMeter>;
+}
+
 export interface Subscription {
   id: string;
   user_id: string;
@@ -1,7 +1,7 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
-import { DashboardKPIs, Business } from '../types';
+import { DashboardKPIs, Business, InAppNotification } from '../types';
 
 /**
  * Interface for decoded JWT token
@@ -201,6 +201,36 @@ export class DashboardSocketServer {
     console.log(`Emitted metrics:updated to room ${userRoom}`);
   }
 
+  /**
+   * Emit new in-app notification event to a specific user
+   */
+  public emitNotification(
+    userId: string,
+    notification: InAppNotification,
+    unreadCount: number
+  ): void {
+    const userRoom = `user:${userId}`;
+    this.namespace.to(userRoom).emit('notification:new', {
+      notification,
+      unreadCount,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`Emitted notification:new to room ${userRoom}`);
+  }
+
+  /**
+   * Emit notification unread count to a specific user
+   * Keeps other open tabs in sync after notifications are read or archived
+   */
+  public emitNotificationUnread(userId: string, unreadCount: number): void {
+    const userRoom = `user:${userId}`;
+    this.namespace.to(userRoom).emit('notification:unread', {
+      unreadCount,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`Emitted notification:unread to room ${userRoom}`);
+  }
+
   /**
    * Get Socket.io server instance
    */
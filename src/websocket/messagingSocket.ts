@@ -1,8 +1,17 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer, Socket, Namespace } from 'socket.io';
 import jwt from 'jsonwebtoken';
-import { Message, ConversationWithDetails } from '../types';
+import {
+  Message,
+  ConversationParticipant,
+  ConversationWithDetails,
+  MessageReactionSummary,
+} from '../types';
 import { ConversationModel } from '../database/models/Conversation';
+import { PresenceService } from '../services/PresenceService';
+
+// How long a user must stay disconnected before contacts see them go offline
+const OFFLINE_GRACE_MS = 10000;
 
 /**
  * Interface for decoded JWT token
@@ -24,16 +33,19 @@ interface SocketData {
 
 /**
  * Messaging WebSocket server
- * Handles real-time messaging updates for conversations and messages
+ * Handles real-time messaging updates for conversations and messages,
+ * and tracks who is online and which conversation they have open
  */
 export class MessagingSocketServer {
   private io: SocketIOServer;
   private namespace: Namespace;
   private conversationModel: ConversationModel;
+  private presence: PresenceService;
 
-  constructor(io: SocketIOServer) {
+  constructor(io: SocketIOServer, conversationModel?: ConversationModel, presence?: PresenceService) {
     this.io = io;
-    this.conversationModel = new ConversationModel();
+    this.conversationModel = conversationModel || new ConversationModel();
+    this.presence = presence || new PresenceService();
 
     // Create /messaging namespace
     this.namespace = this.io.of('/messaging');
@@ -124,6 +136,44 @@ export class MessagingSocketServer {
       console.error(`Failed to load conversations for user ${userId}:`, error);
     }
 
+    // Register this tab and tell the user who among their contacts is online
+    try {
+      const cameOnline = await this.presence.connect(userId, socket.id);
+      const contactIds = await this.conversationModel.findContactIds(userId);
+      if (cameOnline) {
+        this.emitPresenceUpdate(userId, contactIds, true, null);
+      }
+      socket.emit('presence:snapshot', {
+        onlineUserIds: await this.presence.getOnlineUserIds(contactIds),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error(`Failed to register presence for user ${userId}:`, error);
+    }
+
+    // Keep this tab counted as online
+    socket.on('presence:heartbeat', async () => {
+      try {
+        await this.presence.heartbeat(userId, socket.id);
+      } catch (error) {
+        console.error('Error with presence heartbeat:', error);
+      }
+    });
+
+    // Track the conversation this tab has open and in view (null when hidden or closed)
+    socket.on('conversation:view', async (conversationId: string | null) => {
+      try {
+        if (conversationId) {
+          const isParticipant = await this.conversationModel.isParticipant(conversationId, userId);
+          if (!isParticipant) return;
+        }
+
+        await this.presence.setViewing(socket.id, conversationId || null);
+      } catch (error) {
+        console.error('Error tracking viewed conversation:', error);
+      }
+    });
+
     // Handle joining a specific conversation room
     socket.on('conversation:join', async (conversationId: string) => {
       try {
@@ -206,10 +256,25 @@ export class MessagingSocketServer {
     });
 
     // Handle disconnection
-    socket.on('disconnect', (reason) => {
+    socket.on('disconnect', async (reason) => {
       console.log(
         `Messaging WebSocket disconnected: ${socket.id} (User: ${userId}, Reason: ${reason})`
       );
+
+      try {
+        const wentOffline = await this.presence.disconnect(userId, socket.id);
+        if (wentOffline) {
+          const lastSeenAt = new Date();
+          // Reloads and reconnects come back within the grace period without flapping
+          setTimeout(() => {
+            this.emitIfStillOffline(userId, lastSeenAt).catch((error) =>
+              console.error(`Failed to announce user ${userId} offline:`, error)
+            );
+          }, OFFLINE_GRACE_MS);
+        }
+      } catch (error) {
+        console.error(`Failed to clear presence for user ${userId}:`, error);
+      }
     });
 
     // Handle errors
@@ -243,12 +308,45 @@ export class MessagingSocketServer {
     console.log(`Emitted message:deleted to room ${conversationRoom}`);
   }
 
+  /**
+   * Emit message edited event to a conversation
+   */
+  public emitMessageEdited(conversationId: string, message: Message): void {
+    const conversationRoom = `conversation:${conversationId}`;
+    this.namespace.to(conversationRoom).emit('message:edited', {
+      message,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`Emitted message:edited to room ${conversationRoom}`);
+  }
+
+  /**
+   * Emit a message's updated reactions to a conversation
+   */
+  public emitMessageReaction(
+    conversationId: string,
+    messageId: string,
+    reactions: MessageReactionSummary[]
+  ): void {
+    const conversationRoom = `conversation:${conversationId}`;
+    this.namespace.to(conversationRoom).emit('message:reaction', {
+      messageId,
+      conversationId,
+      reactions,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`Emitted message:reaction to room ${conversationRoom}`);
+  }
+
   /**
    * Emit new conversation event to specific users
    */
   public emitNewConversation(userIds: string[], conversation: ConversationWithDetails): void {
+    const conversationRoom = `conversation:${conversation.id}`;
     for (const userId of userIds) {
       const userRoom = `user:${userId}`;
+      // Connected sockets start receiving the conversation's events right away
+      this.namespace.in(userRoom).socketsJoin(conversationRoom);
       this.namespace.to(userRoom).emit('conversation:new', {
         conversation,
         timestamp: new Date().toISOString(),
@@ -257,6 +355,45 @@ export class MessagingSocketServer {
     console.log(`Emitted conversation:new to ${userIds.length} users`);
   }
 
+  /**
+   * Emit a conversation's updated participant list (members added, removed or re-roled)
+   */
+  public emitParticipantsChanged(conversationId: string, participants: ConversationParticipant[]): void {
+    const conversationRoom = `conversation:${conversationId}`;
+    this.namespace.to(conversationRoom).emit('conversation:participants', {
+      conversationId,
+      participants,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`Emitted conversation:participants to room ${conversationRoom}`);
+  }
+
+  /**
+   * Emit a conversation's new subject
+   */
+  public emitConversationRenamed(conversationId: string, subject: string | null): void {
+    const conversationRoom = `conversation:${conversationId}`;
+    this.namespace.to(conversationRoom).emit('conversation:renamed', {
+      conversationId,
+      subject,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`Emitted conversation:renamed to room ${conversationRoom}`);
+  }
+
+  /**
+   * Tell a removed user and take their sockets out of the conversation room
+   */
+  public emitRemovedFromConversation(userId: string, conversationId: string): void {
+    const userRoom = `user:${userId}`;
+    this.namespace.to(userRoom).emit('conversation:removed', {
+      conversationId,
+      timestamp: new Date().toISOString(),
+    });
+    this.namespace.in(userRoom).socketsLeave(`conversation:${conversationId}`);
+    console.log(`Emitted conversation:removed to user ${userId}`);
+  }
+
   /**
    * Emit unread count update to a specific user
    */
@@ -283,6 +420,47 @@ export class MessagingSocketServer {
     }
   }
 
+  private async emitIfStillOffline(userId: string, lastSeenAt: Date): Promise<void> {
+    if (await this.presence.isOnline(userId)) return;
+
+    const contactIds = await this.conversationModel.findContactIds(userId);
+    this.emitPresenceUpdate(userId, contactIds, false, lastSeenAt);
+  }
+
+  /**
+   * Tell everyone who shares a conversation with a user that they came online or went offline
+   */
+  public emitPresenceUpdate(
+    userId: string,
+    contactIds: string[],
+    isOnline: boolean,
+    lastSeenAt: Date | null
+  ): void {
+    // An empty room list would broadcast to the whole namespace
+    if (contactIds.length === 0) return;
+
+    this.namespace.to(contactIds.map((contactId) => `user:${contactId}`)).emit('presence:update', {
+      userId,
+      isOnline,
+      lastSeenAt: lastSeenAt ? lastSeenAt.toISOString() : null,
+      timestamp: new Date().toISOString(),
+    });
+    console.log(`Emitted presence:update for user ${userId} to ${contactIds.length} contacts`);
+  }
+
+  /**
+   * Check if a user has a conversation open and in view in any tab
+   */
+  public async isViewingConversation(userId: string, conversationId: string): Promise<boolean> {
+    try {
+      return await this.presence.isViewingConversation(userId, conversationId);
+    } catch (error) {
+      // Fail open so a Redis outage never suppresses notifications
+      console.error(`Failed to check presence for user ${userId}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Get namespace instance
    */